@@ -14,7 +14,8 @@ export default defineConfig({
     build: {
       rollupOptions: {
         input: {
-          index: resolve(__dirname, 'electron/main.ts')
+          index: resolve(__dirname, 'electron/main.ts'),
+          cli: resolve(__dirname, 'src/cli/index.ts')
         }
       }
     }
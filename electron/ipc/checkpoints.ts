@@ -0,0 +1,116 @@
+/**
+ * Checkpoint IPC Handlers
+ *
+ * Snapshot files before agent mutations and restore them per chat message.
+ * Checkpoints live in the workspace storage dir:
+ * ~/.aibuddy/workspaces/{workspace-hash}/checkpoints/{threadId}/
+ */
+
+import { ipcMain } from 'electron'
+import { join } from 'path'
+import { CheckpointStore, type CheckpointSource } from '../../src/history/checkpoint-store'
+import { getWorkspaceDir } from './workspace'
+
+const stores = new Map<string, CheckpointStore>()
+
+function getStore(workspacePath: string): CheckpointStore {
+  let store = stores.get(workspacePath)
+  if (!store) {
+    store = new CheckpointStore(join(getWorkspaceDir(workspacePath), 'checkpoints'), workspacePath)
+    stores.set(workspacePath, store)
+  }
+  return store
+}
+
+/**
+ * Initialize checkpoint IPC handlers
+ */
+export function initCheckpointHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  const channels = [
+    'checkpoint:snapshot', 'checkpoint:listTurns', 'checkpoint:getChangedFiles',
+    'checkpoint:restoreFile', 'checkpoint:restoreWorkspace', 'checkpoint:deleteThread',
+    'checkpoint:listAgentEdits',
+  ] as const
+  for (const ch of channels) { ipcMain.removeHandler(ch) }
+
+  // Record a file's current content before the agent mutates it
+  ipcMain.handle('checkpoint:snapshot', async (_event, workspacePath: string, threadId: string, messageIndex: number, filePath: string, source: CheckpointSource) => {
+    try {
+      return getStore(workspacePath).snapshotFile(threadId, messageIndex, filePath, source)
+    } catch (error) {
+      console.error('[Checkpoints] Snapshot failed:', error)
+      return false
+    }
+  })
+
+  ipcMain.handle('checkpoint:listTurns', async (_event, workspacePath: string, threadId: string) => {
+    try {
+      return getStore(workspacePath).listTurns(threadId)
+    } catch (error) {
+      console.error('[Checkpoints] Failed to list checkpoints:', error)
+      return []
+    }
+  })
+
+  ipcMain.handle('checkpoint:getChangedFiles', async (_event, workspacePath: string, threadId: string, messageIndex: number) => {
+    try {
+      return getStore(workspacePath).getFilesChangedSince(threadId, messageIndex)
+    } catch (error) {
+      console.error('[Checkpoints] Failed to list changed files:', error)
+      return []
+    }
+  })
+
+  // Files the agent changed in any thread — the Source Control panel marks them
+  ipcMain.handle('checkpoint:listAgentEdits', async (_event, workspacePath: string) => {
+    try {
+      return getStore(workspacePath).listAgentEdits()
+    } catch (error) {
+      console.error('[Checkpoints] Failed to list agent edits:', error)
+      return []
+    }
+  })
+
+  ipcMain.handle('checkpoint:restoreFile', async (_event, workspacePath: string, threadId: string, messageIndex: number, filePath: string) => {
+    try {
+      return getStore(workspacePath).restoreFile(threadId, messageIndex, filePath)
+    } catch (error) {
+      throw new Error(`Failed to restore file: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('checkpoint:restoreWorkspace', async (_event, workspacePath: string, threadId: string, messageIndex: number) => {
+    try {
+      return getStore(workspacePath).restoreWorkspace(threadId, messageIndex)
+    } catch (error) {
+      throw new Error(`Failed to restore workspace: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('checkpoint:deleteThread', async (_event, workspacePath: string, threadId: string) => {
+    try {
+      getStore(workspacePath).deleteThread(threadId)
+      return true
+    } catch (error) {
+      console.error('[Checkpoints] Failed to delete checkpoints:', error)
+      return false
+    }
+  })
+
+  console.log('[Checkpoints] IPC handlers initialized')
+}
+
+/**
+ * Cleanup checkpoint IPC handlers
+ */
+export function cleanupCheckpointHandlers(): void {
+  ipcMain.removeHandler('checkpoint:snapshot')
+  ipcMain.removeHandler('checkpoint:listTurns')
+  ipcMain.removeHandler('checkpoint:getChangedFiles')
+  ipcMain.removeHandler('checkpoint:restoreFile')
+  ipcMain.removeHandler('checkpoint:restoreWorkspace')
+  ipcMain.removeHandler('checkpoint:deleteThread')
+  ipcMain.removeHandler('checkpoint:listAgentEdits')
+  stores.clear()
+}
@@ -0,0 +1,88 @@
+/**
+ * Dev Container IPC Handlers
+ *
+ * Detects the dev container and compose services a workspace can run commands
+ * in, looks up which of them are running, and remembers the one the user picked
+ * in workspace storage (data.json). Commands are rewritten for the container in
+ * the renderer (src/core/dev-containers) before they reach the terminal.
+ */
+
+import { ipcMain } from 'electron'
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import { discoverContainerTargets, type ContainerTarget } from '../../src/core/dev-containers'
+import { readJsonData, writeJsonData } from './workspace'
+
+const ALL_CHANNELS = [
+  'containers:detect',
+  'containers:select',
+] as const
+
+const SELECTION_KEY = 'commandContainer'
+
+/**
+ * Run `docker ps -q` with label filters and return the first container id
+ */
+function findContainer(filters: string[]): Promise<string | null> {
+  const args = ['ps', '-q', ...filters.flatMap(filter => ['--filter', `label=${filter}`])]
+  return new Promise(resolve => {
+    execFile('docker', args, { timeout: 5000, windowsHide: true }, (error, stdout) => {
+      resolve(error ? null : stdout.trim().split('\n')[0] || null)
+    })
+  })
+}
+
+/**
+ * Find the running container for a target: dev containers by the label the
+ * devcontainer CLI sets, compose services by their compose labels
+ */
+async function findRunningContainer(target: ContainerTarget, workspacePath: string): Promise<string | null> {
+  if (target.id === 'devcontainer') {
+    const devcontainer = await findContainer([`devcontainer.local_folder=${workspacePath}`])
+    if (devcontainer || target.kind === 'devcontainer') return devcontainer
+  }
+  const composeDir = path.dirname(path.join(workspacePath, target.composeFiles?.[0] ?? ''))
+  return findContainer([
+    `com.docker.compose.service=${target.service}`,
+    `com.docker.compose.project.working_dir=${composeDir}`,
+  ])
+}
+
+export function initContainerHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  ipcMain.handle('containers:detect', async (_event, workspacePath: string): Promise<{
+    targets: ContainerTarget[]
+    selectedId: string | null
+  }> => {
+    try {
+      const read = (file: string) => fs.promises.readFile(path.join(workspacePath, file), 'utf8').catch(() => null)
+      const found = await discoverContainerTargets(read, path.basename(workspacePath))
+      const hostShell = process.platform === 'win32' ? 'cmd' : 'posix'
+      const targets = await Promise.all(found.map(async target => ({
+        ...target,
+        hostShell,
+        containerId: await findRunningContainer(target, workspacePath),
+      } as ContainerTarget)))
+
+      const selected = readJsonData(workspacePath, SELECTION_KEY)
+      const selectedId = targets.some(t => t.id === selected) ? selected as string : null
+      return { targets, selectedId }
+    } catch (err) {
+      console.error('[Containers] Detection failed:', err)
+      return { targets: [], selectedId: null }
+    }
+  })
+
+  ipcMain.handle('containers:select', async (_event, workspacePath: string, targetId: string | null): Promise<boolean> => {
+    return writeJsonData(workspacePath, SELECTION_KEY, targetId)
+  })
+
+  console.log('[Containers] IPC handlers initialized')
+}
+
+export function cleanupContainerHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+}
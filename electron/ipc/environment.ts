@@ -2,9 +2,13 @@
  * Environment Detection IPC Handlers
  * 
  * Provides environment detection capabilities to the renderer process.
+ * `env:detect` streams each detector's result on `env:detectProgress` as it
+ * finishes, then resolves with the full environment.
  */
 
 import { ipcMain } from 'electron'
+import * as fs from 'fs'
+import * as path from 'path'
 import { 
   detectEnvironment, 
   generateEnvironmentSummary,
@@ -13,9 +17,28 @@ import {
   clearEnvironmentCache,
   type DevelopmentEnvironment
 } from '../../src/core/environment-detector'
+import {
+  readToolchainPins,
+  checkToolchainPins,
+  formatToolchainMismatches,
+  type ToolchainMismatch
+} from '../../src/core/toolchain-pins'
 
 let cachedEnv: DevelopmentEnvironment | null = null
 
+/**
+ * Compare the project's pinned toolchain versions with the detected environment
+ */
+async function checkToolchain(env: DevelopmentEnvironment, projectPath?: string | null): Promise<ToolchainMismatch[]> {
+  if (!projectPath) return []
+  try {
+    const pins = await readToolchainPins(file => fs.promises.readFile(path.join(projectPath, file), 'utf8').catch(() => null))
+    return checkToolchainPins(pins, env)
+  } catch {
+    return []
+  }
+}
+
 /**
  * Initialize environment detection IPC handlers
  */
@@ -23,17 +46,21 @@ export function initEnvironmentHandlers(): void {
   // Remove any previously registered handlers to prevent "second handler" errors on dev reload
   const channels = [
     'env:detect', 'env:getCached', 'env:getSummary', 'env:getRunCommand',
-    'env:isInstalled', 'env:getLanguageInfo', 'env:clearCache',
+    'env:isInstalled', 'env:getLanguageInfo', 'env:clearCache', 'env:checkToolchain',
   ] as const
   for (const ch of channels) { ipcMain.removeHandler(ch) }
 
   console.log('[Environment IPC] Initializing handlers')
 
   // Detect full environment (safe — returns fallback on sandbox/permission errors)
-  ipcMain.handle('env:detect', async () => {
+  ipcMain.handle('env:detect', async (event) => {
     console.log('[Environment IPC] Detecting environment...')
     try {
-      cachedEnv = detectEnvironment()
+      cachedEnv = await detectEnvironment({
+        onProgress: (progress) => {
+          if (!event.sender.isDestroyed()) event.sender.send('env:detectProgress', progress)
+        },
+      })
       console.log('[Environment IPC] Environment detected:', {
         languages: cachedEnv.languages.filter(l => l.installed).map(l => l.language),
         ides: cachedEnv.ides.map(i => i.name),
@@ -48,17 +75,18 @@ export function initEnvironmentHandlers(): void {
   // Get cached environment (faster)
   ipcMain.handle('env:getCached', async () => {
     try {
-      return getCachedEnvironment()
+      return await getCachedEnvironment()
     } catch {
       return null
     }
   })
 
-  // Generate AI-safe summary
-  ipcMain.handle('env:getSummary', async () => {
+  // Generate AI-safe summary, flagging toolchain versions the project pins but the machine lacks
+  ipcMain.handle('env:getSummary', async (_, projectPath?: string | null) => {
     try {
-      const env = cachedEnv || getCachedEnvironment()
-      return generateEnvironmentSummary(env)
+      const env = cachedEnv || await getCachedEnvironment()
+      const mismatches = formatToolchainMismatches(await checkToolchain(env, projectPath))
+      return mismatches ? `${generateEnvironmentSummary(env)}\n${mismatches}` : generateEnvironmentSummary(env)
     } catch {
       return 'Environment detection unavailable (sandboxed)'
     }
@@ -66,13 +94,13 @@ export function initEnvironmentHandlers(): void {
 
   // Get run command for a project
   ipcMain.handle('env:getRunCommand', async (_, projectPath: string) => {
-    const env = cachedEnv || getCachedEnvironment()
+    const env = cachedEnv || await getCachedEnvironment()
     return getRunCommand(projectPath, env)
   })
 
   // Check if a specific language/tool is installed
   ipcMain.handle('env:isInstalled', async (_, languageName: string) => {
-    const env = cachedEnv || getCachedEnvironment()
+    const env = cachedEnv || await getCachedEnvironment()
     const lang = env.languages.find(l => 
       l.language.toLowerCase().includes(languageName.toLowerCase())
     )
@@ -81,12 +109,18 @@ export function initEnvironmentHandlers(): void {
 
   // Get language-specific info
   ipcMain.handle('env:getLanguageInfo', async (_, languageName: string) => {
-    const env = cachedEnv || getCachedEnvironment()
+    const env = cachedEnv || await getCachedEnvironment()
     return env.languages.find(l => 
       l.language.toLowerCase().includes(languageName.toLowerCase())
     ) || null
   })
 
+  // Pinned toolchain versions (.nvmrc, global.json, ...) the installed tools don't satisfy
+  ipcMain.handle('env:checkToolchain', async (_, projectPath: string) => {
+    const env = cachedEnv || await getCachedEnvironment()
+    return checkToolchain(env, projectPath)
+  })
+
   // Clear cache (force re-detection)
   ipcMain.handle('env:clearCache', async () => {
     clearEnvironmentCache()
@@ -108,6 +142,7 @@ export function cleanupEnvironmentHandlers(): void {
   ipcMain.removeHandler('env:isInstalled')
   ipcMain.removeHandler('env:getLanguageInfo')
   ipcMain.removeHandler('env:clearCache')
+  ipcMain.removeHandler('env:checkToolchain')
   
   console.log('[Environment IPC] Handlers cleaned up')
 }
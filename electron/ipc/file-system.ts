@@ -2,6 +2,7 @@ import { ipcMain } from 'electron'
 import * as fs from 'fs/promises'
 import * as fsSync from 'fs'
 import * as path from 'path'
+import { searchContent, type ContentSearchOptions, type ContentSearchResult } from '../../src/core/content-search'
 
 interface DirEntry {
   name: string
@@ -27,6 +28,7 @@ export function initFileSystemHandlers(): void {
     'fs:readFile', 'fs:readFileAsBase64', 'fs:readFileAsText', 'fs:getFileSize',
     'fs:writeFile', 'fs:readDir', 'fs:stat', 'fs:exists', 'fs:mkdir',
     'fs:rm', 'fs:rename', 'fs:copy', 'fs:watch', 'fs:unwatch', 'fs:readTree',
+    'fs:search',
   ] as const
   for (const ch of channels) { ipcMain.removeHandler(ch) }
 
@@ -207,6 +209,15 @@ export function initFileSystemHandlers(): void {
   ipcMain.handle('fs:readTree', async (_event, dirPath: string, depth = 3): Promise<TreeNode[]> => {
     return readTreeRecursive(dirPath, depth, 0)
   })
+
+  // Search file contents (agent grep_search tool) — bundled ripgrep or Node fallback
+  ipcMain.handle('fs:search', async (_event, options: ContentSearchOptions): Promise<ContentSearchResult> => {
+    try {
+      return await searchContent(options)
+    } catch (error) {
+      throw new Error(`Failed to search: ${(error as Error).message}`)
+    }
+  })
 }
 
 // Store active watchers
@@ -1,12 +1,17 @@
 import { ipcMain } from 'electron'
-import { exec, execSync } from 'child_process'
+import { exec, execFile, execSync, spawn } from 'child_process'
 import { promisify } from 'util'
+import * as fs from 'fs'
+import * as path from 'path'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 interface GitStatus {
   current: string | null
   tracking: string | null
+  /** Where cwd is inside the repository, e.g. `app/`; '' at the root. Paths below are relative to the root. */
+  prefix: string
   staged: string[]
   modified: string[]
   not_added: string[]
@@ -30,6 +35,23 @@ interface GitBranch {
   remote: string[]
 }
 
+/** Porcelain status codes of unmerged paths */
+const UNMERGED_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'])
+
+type MergeState = 'merge' | 'rebase' | 'cherry-pick' | null
+
+/**
+ * Which operation stopped on conflicts, from the state files git keeps in the git dir
+ */
+async function readMergeState(cwd: string): Promise<MergeState> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', '--git-path', 'MERGE_HEAD', '--git-path', 'rebase-merge', '--git-path', 'rebase-apply', '--git-path', 'CHERRY_PICK_HEAD'], { cwd })
+  const [mergeHead, rebaseMerge, rebaseApply, cherryPickHead] = stdout.trim().split('\n').map(p => path.resolve(cwd, p))
+  if (fs.existsSync(rebaseMerge) || fs.existsSync(rebaseApply)) return 'rebase'
+  if (fs.existsSync(mergeHead)) return 'merge'
+  if (fs.existsSync(cherryPickHead)) return 'cherry-pick'
+  return null
+}
+
 /**
  * Execute a git command and return the output
  */
@@ -38,6 +60,20 @@ async function gitExec(cwd: string, args: string[]): Promise<string> {
   return stdout.trim()
 }
 
+/**
+ * Run git with a patch on stdin (`git apply` reads `-`)
+ */
+function gitApply(cwd: string, args: string[], patch: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['apply', ...args, '-'], { cwd, windowsHide: true })
+    let stderr = ''
+    child.stderr.on('data', chunk => { stderr += chunk })
+    child.on('error', reject)
+    child.on('close', code => (code === 0 ? resolve() : reject(new Error(stderr.trim() || `git apply exited with code ${code}`))))
+    child.stdin.end(patch)
+  })
+}
+
 /**
  * Check if git is available
  */
@@ -59,6 +95,8 @@ export function initGitHandlers(): void {
     'git:status', 'git:diff', 'git:log', 'git:branch', 'git:checkout',
     'git:commit', 'git:add', 'git:push', 'git:pull', 'git:stash',
     'git:reset', 'git:blame', 'git:isRepo', 'git:init', 'git:clone', 'git:getRemoteUrl',
+    'git:applyPatch', 'git:unstage', 'git:discard',
+    'git:mergeState', 'git:checkoutConflict', 'git:continueMerge', 'git:abortMerge',
   ] as const
   for (const ch of channels) { ipcMain.removeHandler(ch) }
 
@@ -71,12 +109,17 @@ export function initGitHandlers(): void {
   // Get git status
   ipcMain.handle('git:status', async (_event, cwd: string): Promise<GitStatus> => {
     try {
-      const statusOutput = await gitExec(cwd, ['status', '--porcelain', '-b'])
-      const lines = statusOutput.split('\n').filter(Boolean)
+      // -z keeps paths as they are; without it names with spaces or quotes come back C-quoted
+      const [{ stdout }, prefix] = await Promise.all([
+        execFileAsync('git', ['status', '--porcelain=v1', '-z', '-b'], { cwd, maxBuffer: 10 * 1024 * 1024 }),
+        gitExec(cwd, ['rev-parse', '--show-prefix']),
+      ])
+      const lines = stdout.split('\0')
       
       const status: GitStatus = {
         current: null,
         tracking: null,
+        prefix,
         staged: [],
         modified: [],
         not_added: [],
@@ -85,7 +128,9 @@ export function initGitHandlers(): void {
         isClean: true
       }
 
-      for (const line of lines) {
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]
+        if (!line) continue
         if (line.startsWith('##')) {
           // Branch info line
           const branchMatch = line.match(/^## (.+?)(?:\.\.\.(.+))?$/)
@@ -97,7 +142,14 @@ export function initGitHandlers(): void {
           const xy = line.substring(0, 2)
           const file = line.substring(3)
           status.isClean = false
+          // Renames and copies are listed by their new path, followed by the old one
+          if (/[RC]/.test(xy)) i++
 
+          // Unmerged paths are only conflicts — an AA or UU file isn't staged or modified yet
+          if (UNMERGED_CODES.has(xy)) {
+            status.conflicted.push(file)
+            continue
+          }
           if (xy[0] === 'A' || xy[0] === 'M' || xy[0] === 'D' || xy[0] === 'R') {
             status.staged.push(file)
           }
@@ -110,9 +162,6 @@ export function initGitHandlers(): void {
           if (xy === '??') {
             status.not_added.push(file)
           }
-          if (xy === 'UU' || xy === 'AA' || xy === 'DD') {
-            status.conflicted.push(file)
-          }
         }
       }
 
@@ -123,34 +172,44 @@ export function initGitHandlers(): void {
   })
 
   // Get git diff
-  ipcMain.handle('git:diff', async (_event, cwd: string, options?: { staged?: boolean; file?: string }): Promise<string> => {
+  ipcMain.handle('git:diff', async (_event, cwd: string, options?: { staged?: boolean; file?: string; base?: string }): Promise<string> => {
     try {
       const args = ['diff']
       if (options?.staged) {
         args.push('--staged')
       }
+      if (options?.base) {
+        // Three dots: what HEAD changed since it branched off the base
+        args.push('--end-of-options', `${options.base}...HEAD`)
+      }
       if (options?.file) {
         args.push('--', options.file)
       }
-      return await gitExec(cwd, args)
+      // Untrimmed: trailing whitespace is part of the last line and partial patches are built from it
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 })
+      return stdout
     } catch (error) {
       throw new Error(`Git diff failed: ${(error as Error).message}`)
     }
   })
 
   // Get git log
-  ipcMain.handle('git:log', async (_event, cwd: string, options?: { maxCount?: number; file?: string }): Promise<{ all: GitLogEntry[] }> => {
+  ipcMain.handle('git:log', async (_event, cwd: string, options?: { maxCount?: number; file?: string; base?: string }): Promise<{ all: GitLogEntry[] }> => {
     try {
       const args = ['log', '--format=%H|%aI|%s|%an|%ae']
       if (options?.maxCount) {
         args.push(`-n${options.maxCount}`)
       }
+      if (options?.base) {
+        // Commits on HEAD that aren't on the base
+        args.push('--end-of-options', `${options.base}..HEAD`)
+      }
       if (options?.file) {
         args.push('--', options.file)
       }
       
-      const output = await gitExec(cwd, args)
-      const entries: GitLogEntry[] = output.split('\n').filter(Boolean).map(line => {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 })
+      const entries: GitLogEntry[] = stdout.split('\n').filter(Boolean).map(line => {
         const [hash, date, message, author_name, author_email] = line.split('|')
         return { hash, date, message, author_name, author_email }
       })
@@ -214,7 +273,8 @@ export function initGitHandlers(): void {
   // Commit changes
   ipcMain.handle('git:commit', async (_event, cwd: string, message: string): Promise<void> => {
     try {
-      await gitExec(cwd, ['commit', '-m', `"${message.replace(/"/g, '\\"')}"`])
+      // No shell: multi-line messages (subject + body) are passed through verbatim
+      await execFileAsync('git', ['commit', '-m', message], { cwd })
     } catch (error) {
       throw new Error(`Git commit failed: ${(error as Error).message}`)
     }
@@ -223,12 +283,43 @@ export function initGitHandlers(): void {
   // Add files to staging
   ipcMain.handle('git:add', async (_event, cwd: string, files: string[]): Promise<void> => {
     try {
-      await gitExec(cwd, ['add', ...files])
+      // No shell: file names with spaces or quotes reach git as they are
+      await execFileAsync('git', ['add', '--', ...files], { cwd })
     } catch (error) {
       throw new Error(`Git add failed: ${(error as Error).message}`)
     }
   })
 
+  // Apply a patch to the index (cached) or the working tree — partial staging, unstaging and discarding
+  ipcMain.handle('git:applyPatch', async (_event, cwd: string, patch: string, options?: { cached?: boolean; reverse?: boolean }): Promise<void> => {
+    try {
+      const args = ['--whitespace=nowarn']
+      if (options?.cached) args.push('--cached')
+      if (options?.reverse) args.push('--reverse')
+      await gitApply(cwd, args, patch)
+    } catch (error) {
+      throw new Error(`Git apply failed: ${(error as Error).message}`)
+    }
+  })
+
+  // Move staged files back to the working tree
+  ipcMain.handle('git:unstage', async (_event, cwd: string, files: string[]): Promise<void> => {
+    try {
+      await execFileAsync('git', ['reset', '-q', '--', ...files], { cwd })
+    } catch (error) {
+      throw new Error(`Git unstage failed: ${(error as Error).message}`)
+    }
+  })
+
+  // Throw away working tree changes to tracked files
+  ipcMain.handle('git:discard', async (_event, cwd: string, files: string[]): Promise<void> => {
+    try {
+      await execFileAsync('git', ['checkout', '-q', '--', ...files], { cwd })
+    } catch (error) {
+      throw new Error(`Git discard failed: ${(error as Error).message}`)
+    }
+  })
+
   // Push changes
   ipcMain.handle('git:push', async (_event, cwd: string, remote = 'origin', branch?: string): Promise<void> => {
     try {
@@ -245,7 +336,8 @@ export function initGitHandlers(): void {
   // Pull changes
   ipcMain.handle('git:pull', async (_event, cwd: string, remote = 'origin', branch?: string): Promise<void> => {
     try {
-      const args = ['pull', remote]
+      // diff3 markers carry the common ancestor, which the merge view shows between the two sides
+      const args = ['-c', 'merge.conflictStyle=diff3', 'pull', remote]
       if (branch) {
         args.push(branch)
       }
@@ -255,6 +347,48 @@ export function initGitHandlers(): void {
     }
   })
 
+  // Merge, rebase or cherry-pick waiting on conflict resolution, or null
+  ipcMain.handle('git:mergeState', async (_event, cwd: string): Promise<MergeState> => {
+    try {
+      return await readMergeState(cwd)
+    } catch (error) {
+      throw new Error(`Git merge state failed: ${(error as Error).message}`)
+    }
+  })
+
+  // Take one side of a conflicted file as a whole
+  ipcMain.handle('git:checkoutConflict', async (_event, cwd: string, file: string, side: 'ours' | 'theirs'): Promise<void> => {
+    try {
+      await execFileAsync('git', ['checkout', `--${side}`, '--', file], { cwd })
+    } catch (error) {
+      throw new Error(`Git checkout --${side} failed: ${(error as Error).message}`)
+    }
+  })
+
+  // Finish the merge once every conflict is resolved and staged
+  ipcMain.handle('git:continueMerge', async (_event, cwd: string): Promise<void> => {
+    try {
+      const state = await readMergeState(cwd)
+      if (!state) throw new Error('No merge in progress')
+      // GIT_EDITOR=true keeps the prepared message instead of opening an editor
+      const args = state === 'merge' ? ['commit', '--no-edit'] : [state, '--continue']
+      await execFileAsync('git', args, { cwd, env: { ...process.env, GIT_EDITOR: 'true' } })
+    } catch (error) {
+      throw new Error(`Git continue failed: ${(error as Error).message}`)
+    }
+  })
+
+  // Give up on the merge and go back to the state before it
+  ipcMain.handle('git:abortMerge', async (_event, cwd: string): Promise<void> => {
+    try {
+      const state = await readMergeState(cwd)
+      if (!state) throw new Error('No merge in progress')
+      await execFileAsync('git', [state, '--abort'], { cwd })
+    } catch (error) {
+      throw new Error(`Git abort failed: ${(error as Error).message}`)
+    }
+  })
+
   // Stash changes
   ipcMain.handle('git:stash', async (_event, cwd: string, action: 'push' | 'pop' | 'list' | 'drop' = 'push', message?: string): Promise<string> => {
     try {
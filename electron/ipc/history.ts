@@ -27,6 +27,7 @@ export function initHistoryHandlers(): void {
     'history:createThread', 'history:setActiveThread', 'history:addMessage',
     'history:updateMetadata', 'history:renameThread', 'history:updateMessageFeedback',
     'history:deleteThread', 'history:clearAll', 'history:search', 'history:export',
+    'history:addSummary', 'history:updateMessage',
   ] as const
   for (const ch of channels) { ipcMain.removeHandler(ch) }
 
@@ -62,11 +63,22 @@ export function initHistoryHandlers(): void {
   })
 
   // Add message to thread
-  ipcMain.handle('history:addMessage', async (_event, threadId: string, message: { role: 'user' | 'assistant', content: string, images?: any[] }) => {
+  ipcMain.handle('history:addMessage', async (_event, threadId: string, message: { id?: string, role: 'user' | 'assistant', content: string, images?: any[] }) => {
     if (!historyManager) return null
     return historyManager.addMessage(threadId, message)
   })
 
+  // Store a compaction summary in a thread
+  ipcMain.handle('history:addSummary', async (_event, threadId: string, content: string, summarizedMessageIds: string[]) => {
+    if (!historyManager) return null
+    return historyManager.addSummary(threadId, content, summarizedMessageIds)
+  })
+
+  // Edit a message's content (compaction summaries)
+  ipcMain.handle('history:updateMessage', async (_event, threadId: string, messageId: string, content: string) => {
+    return safeBool(() => historyManager!.updateMessageContent(threadId, messageId, content))
+  })
+
   // Update thread metadata
   ipcMain.handle('history:updateMetadata', async (_event, threadId: string, metadata: any) => {
     return safeBool(() => (historyManager!.updateThreadMetadata(threadId, metadata), true))
@@ -123,5 +135,7 @@ export function cleanupHistoryHandlers(): void {
   ipcMain.removeHandler('history:clearAll')
   ipcMain.removeHandler('history:search')
   ipcMain.removeHandler('history:export')
+  ipcMain.removeHandler('history:addSummary')
+  ipcMain.removeHandler('history:updateMessage')
 }
 
@@ -5,6 +5,13 @@ import { initCommandHandlers } from './commands'
 import { initKnowledgeBaseHandlers, cleanupKnowledgeBaseHandlers } from './knowledge-base'
 import { initEnvironmentHandlers, cleanupEnvironmentHandlers } from './environment'
 import { initWorkspaceHandlers, cleanupWorkspaceHandlers } from './workspace'
+import { initCheckpointHandlers, cleanupCheckpointHandlers } from './checkpoints'
+import { initMcpHandlers, cleanupMcpHandlers } from './mcp'
+import { initProviderHandlers, cleanupProviderHandlers } from './providers'
+import { initPolicyHandlers, cleanupPolicyHandlers } from './policy'
+import { initContainerHandlers, cleanupContainerHandlers } from './containers'
+import { initWorktreeHandlers, cleanupWorktreeHandlers } from './worktrees'
+import { initSnapshotHandlers, cleanupSnapshotHandlers } from './snapshots'
 
 /**
  * Initialize all IPC handlers
@@ -17,6 +24,13 @@ export function initAllIpcHandlers(): void {
   initKnowledgeBaseHandlers()
   initEnvironmentHandlers()
   initWorkspaceHandlers()
+  initCheckpointHandlers()
+  initMcpHandlers()
+  initProviderHandlers()
+  initPolicyHandlers()
+  initContainerHandlers()
+  initWorktreeHandlers()
+  initSnapshotHandlers()
   
   console.log('[IPC] All handlers initialized')
 }
@@ -30,6 +44,13 @@ export function cleanupAllIpcHandlers(): void {
   cleanupKnowledgeBaseHandlers()
   cleanupEnvironmentHandlers()
   cleanupWorkspaceHandlers()
+  cleanupCheckpointHandlers()
+  cleanupMcpHandlers()
+  cleanupProviderHandlers()
+  cleanupPolicyHandlers()
+  cleanupContainerHandlers()
+  cleanupWorktreeHandlers()
+  cleanupSnapshotHandlers()
   
   console.log('[IPC] All handlers cleaned up')
 }
@@ -0,0 +1,157 @@
+/**
+ * MCP IPC Handlers
+ *
+ * Bridges the McpManager (main process) to the renderer. MCP tool calls use
+ * the same permission flow as skill tools: stored preferences and the audit
+ * log live in SkillsStorageManager, and 'needs_confirmation' tells the
+ * renderer to show the ToolPermissionDialog and call again with a decision.
+ *
+ * Workspace servers wait for the user to trust the workspace's mcp.json; the
+ * decision is kept in workspace storage, outside the repo.
+ */
+
+import { ipcMain } from 'electron'
+import { McpManager } from '../../src/mcp/mcp-manager'
+import type { McpToolCallResponse, McpToolInfo, McpWorkspaceTrust } from '../../src/mcp/types'
+import { SkillsStorageManager } from '../../src/skills/skills-manager'
+import { checkStoredPermission } from '../../src/skills/skill-tool-runner'
+import type { McpToolPermission, PermissionDecision, ToolAuditLogEntry } from '../../src/skills/types'
+import { readJsonData, writeJsonData } from './workspace'
+
+const ALL_CHANNELS = [
+  'mcp:configure', 'mcp:getServers', 'mcp:listTools', 'mcp:requestToolCall',
+  'mcp:getTrustRequest', 'mcp:setWorkspaceTrust',
+] as const
+
+const TRUST_KEY = 'mcpTrust'
+
+const manager = new McpManager()
+
+function readTrust(workspacePath: string | null): McpWorkspaceTrust | null {
+  if (!workspacePath) return null
+  const trust = readJsonData(workspacePath, TRUST_KEY) as McpWorkspaceTrust | null
+  return trust && typeof trust.hash === 'string' ? trust : null
+}
+
+/** Permission store keys for an MCP tool */
+function permissionKeys(info: McpToolInfo): { skillId: string; tool: McpToolPermission } {
+  return { skillId: `mcp:${info.server}`, tool: `mcp:${info.server}/${info.tool}` }
+}
+
+function describeCall(info: McpToolInfo, args: Record<string, unknown>): string {
+  const argText = JSON.stringify(args)
+  return `${info.server} → ${info.tool}(${argText.length > 300 ? argText.slice(0, 300) + '…' : argText})`
+}
+
+/** Audit log params are string-valued */
+function toAuditParams(args: Record<string, unknown>): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const [key, value] of Object.entries(args)) {
+    params[key] = typeof value === 'string' ? value : JSON.stringify(value)
+  }
+  return params
+}
+
+export function initMcpHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  // (Re)load global + workspace mcp.json and start/stop servers to match
+  ipcMain.handle('mcp:configure', async (_event, workspacePath: string | null) => {
+    try {
+      return await manager.configure(workspacePath, readTrust(workspacePath))
+    } catch (error) {
+      throw new Error(`Failed to configure MCP servers: ${(error as Error).message}`)
+    }
+  })
+
+  // Servers the workspace's mcp.json would start, when the user hasn't decided about this version of it
+  ipcMain.handle('mcp:getTrustRequest', async (_event, workspacePath: string) => {
+    return manager.getTrustRequest(workspacePath, readTrust(workspacePath))
+  })
+
+  // Record the user's decision for the mcp.json they were shown, then start or keep its servers stopped
+  ipcMain.handle('mcp:setWorkspaceTrust', async (_event, workspacePath: string, hash: string, trusted: boolean) => {
+    if (manager.getTrustRequest(workspacePath, null)?.hash !== hash) {
+      throw new Error('The workspace MCP config changed — review it again')
+    }
+    const trust: McpWorkspaceTrust = { hash, trusted }
+    writeJsonData(workspacePath, TRUST_KEY, trust)
+    try {
+      return await manager.configure(workspacePath, trust)
+    } catch (error) {
+      throw new Error(`Failed to configure MCP servers: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('mcp:getServers', async () => {
+    return manager.getStatus()
+  })
+
+  ipcMain.handle('mcp:listTools', async () => {
+    return manager.getTools()
+  })
+
+  // Permission-aware tool call — same contract as skills:requestToolExecution
+  ipcMain.handle('mcp:requestToolCall', async (_event, request: {
+    qualifiedName: string
+    args: Record<string, unknown>
+    decision?: PermissionDecision
+  }): Promise<McpToolCallResponse> => {
+    const info = manager.resolveTool(request.qualifiedName)
+    if (!info) {
+      return { status: 'denied', error: `Unknown MCP tool: ${request.qualifiedName}` }
+    }
+
+    const mgr = SkillsStorageManager.getInstance()
+    const { skillId, tool } = permissionKeys(info)
+    const args = request.args ?? {}
+    const audit = (entry: Pick<ToolAuditLogEntry, 'decision' | 'success' | 'error' | 'durationMs'>) => {
+      mgr.addAuditLogEntry({
+        timestamp: Date.now(),
+        skillId,
+        skillName: `${info.server} (MCP)`,
+        tool,
+        action: info.tool,
+        params: toAuditParams(args),
+        ...entry,
+      })
+    }
+
+    let decision: ToolAuditLogEntry['decision']
+    if (!request.decision) {
+      const permCheck = checkStoredPermission(mgr.getPermission(skillId, tool))
+      if (permCheck.action === 'ask') {
+        return { status: 'needs_confirmation', server: info.server, tool: info.tool, description: describeCall(info, args) }
+      }
+      if (permCheck.action === 'deny') {
+        audit({ decision: 'auto_denied' })
+        return { status: 'denied', error: 'Auto-denied by stored preference' }
+      }
+      decision = 'auto_allowed'
+    } else {
+      if (request.decision === 'always_allow' || request.decision === 'always_deny') {
+        mgr.setPermission(skillId, tool, request.decision)
+      }
+      if (request.decision === 'deny' || request.decision === 'always_deny') {
+        audit({ decision: request.decision })
+        return { status: 'denied', error: 'Denied by user' }
+      }
+      decision = request.decision
+    }
+
+    const result = await manager.callTool(request.qualifiedName, args)
+    audit({ decision, success: result.success, error: result.error, durationMs: result.durationMs })
+    return { status: 'executed', result }
+  })
+
+  console.log('[MCP] IPC handlers initialized')
+}
+
+/**
+ * Cleanup MCP IPC handlers and stop all servers
+ */
+export function cleanupMcpHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+  manager.stopAll()
+}
@@ -0,0 +1,30 @@
+/**
+ * Execution Policy IPC Handlers
+ *
+ * The renderer asks for the active policy whenever the workspace changes or
+ * before a batch of commands runs, so edits to policy.json apply without a
+ * restart. Evaluation happens in the renderer (src/policy/execution-policy).
+ */
+
+import { ipcMain } from 'electron'
+import { loadExecutionPolicy } from '../../src/policy/policy-loader'
+import type { ExecutionPolicy } from '../../src/policy/types'
+
+const ALL_CHANNELS = [
+  'policy:get',
+] as const
+
+export function initPolicyHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  ipcMain.handle('policy:get', async (_event, workspacePath: string | null): Promise<ExecutionPolicy> => {
+    return loadExecutionPolicy(workspacePath)
+  })
+
+  console.log('[Policy] IPC handlers initialized')
+}
+
+export function cleanupPolicyHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+}
@@ -0,0 +1,90 @@
+/**
+ * Inference Provider IPC Handlers
+ *
+ * Runs OpenAI-compatible and Ollama requests from the main process, where the
+ * renderer CSP doesn't block plain-http local servers. The renderer passes its
+ * current ProviderSettings with each call. Streaming replies are pushed as
+ * 'provider:streamEvent' messages tagged with the caller's stream id; the
+ * invoke itself resolves once the stream is finished.
+ */
+
+import { ipcMain } from 'electron'
+import { createProvider } from '../../src/api/providers'
+import type { ProviderModel, ProviderSettings } from '../../src/api/providers'
+import type { ChatRequest, ChatResponse } from '../../src/api/aibuddy-client'
+
+const ALL_CHANNELS = [
+  'provider:listModels', 'provider:chat', 'provider:stream', 'provider:abort',
+] as const
+
+/** In-flight streams by renderer-supplied id */
+const activeStreams = new Map<string, AbortController>()
+
+/** In-flight non-streaming requests */
+const activeChats = new Set<AbortController>()
+
+/** A non-streaming reply that takes longer than this is abandoned (local models can be slow to load) */
+const CHAT_TIMEOUT_MS = 5 * 60_000
+
+export function initProviderHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  ipcMain.handle('provider:listModels', async (_event, settings: ProviderSettings): Promise<ProviderModel[]> => {
+    try {
+      return await createProvider(settings).listModels(AbortSignal.timeout(10_000))
+    } catch (error) {
+      throw new Error(`Failed to list models: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('provider:chat', async (_event, settings: ProviderSettings, request: ChatRequest): Promise<ChatResponse> => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), CHAT_TIMEOUT_MS)
+    activeChats.add(controller)
+    try {
+      return await createProvider(settings).chat(request, controller.signal)
+    } catch (error) {
+      if (controller.signal.aborted) throw new Error(`The provider did not reply within ${CHAT_TIMEOUT_MS / 60_000} minutes`)
+      throw error
+    } finally {
+      clearTimeout(timer)
+      activeChats.delete(controller)
+    }
+  })
+
+  ipcMain.handle('provider:stream', async (event, streamId: string, settings: ProviderSettings, request: ChatRequest): Promise<{ success: boolean; error?: string; aborted?: boolean }> => {
+    const controller = new AbortController()
+    activeStreams.set(streamId, controller)
+    try {
+      for await (const streamEvent of createProvider(settings).chatStream(request, controller.signal)) {
+        if (event.sender.isDestroyed()) break
+        event.sender.send('provider:streamEvent', streamId, streamEvent)
+      }
+      return { success: true }
+    } catch (error) {
+      if (controller.signal.aborted) return { success: false, aborted: true }
+      return { success: false, error: (error as Error).message }
+    } finally {
+      activeStreams.delete(streamId)
+    }
+  })
+
+  ipcMain.handle('provider:abort', async (_event, streamId: string) => {
+    activeStreams.get(streamId)?.abort()
+    return activeStreams.has(streamId)
+  })
+
+  console.log('[Providers] IPC handlers initialized')
+}
+
+/**
+ * Cleanup provider IPC handlers and abort any running streams
+ */
+export function cleanupProviderHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+  for (const controller of activeStreams.values()) controller.abort()
+  activeStreams.clear()
+  for (const controller of activeChats) controller.abort()
+  activeChats.clear()
+}
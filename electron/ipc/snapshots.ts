@@ -0,0 +1,63 @@
+/**
+ * Git Snapshot IPC Handlers
+ *
+ * Saves the working tree under refs/aibuddy/snapshots/ before the agent runs a
+ * destructive git command, and lists, restores and deletes those snapshots
+ * for the Recover list in the git panel.
+ */
+
+import { ipcMain } from 'electron'
+import { GitSnapshotStore } from '../../src/core/git-snapshot-store'
+import type { GitSnapshot } from '../../src/core/git-snapshots'
+
+const ALL_CHANNELS = [
+  'snapshots:create',
+  'snapshots:list',
+  'snapshots:restore',
+  'snapshots:delete',
+] as const
+
+export function initSnapshotHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  ipcMain.handle('snapshots:create', async (_event, cwd: string, reason: string): Promise<GitSnapshot> => {
+    try {
+      return await new GitSnapshotStore(cwd).create(reason)
+    } catch (error) {
+      throw new Error(`Could not snapshot the working tree: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('snapshots:list', async (_event, cwd: string): Promise<GitSnapshot[]> => {
+    try {
+      return await new GitSnapshotStore(cwd).list()
+    } catch (error) {
+      // Not a git repository — nothing to recover
+      console.error('[Snapshots] Failed to list snapshots:', error)
+      return []
+    }
+  })
+
+  ipcMain.handle('snapshots:restore', async (_event, cwd: string, id: string): Promise<GitSnapshot> => {
+    try {
+      return await new GitSnapshotStore(cwd).restore(id)
+    } catch (error) {
+      throw new Error(`Could not restore the snapshot: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('snapshots:delete', async (_event, cwd: string, id: string): Promise<void> => {
+    try {
+      await new GitSnapshotStore(cwd).delete(id)
+    } catch (error) {
+      throw new Error(`Could not delete the snapshot: ${(error as Error).message}`)
+    }
+  })
+
+  console.log('[Snapshots] IPC handlers initialized')
+}
+
+export function cleanupSnapshotHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+}
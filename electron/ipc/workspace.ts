@@ -6,35 +6,24 @@
  * - test-patterns.md: Learned test patterns for this project
  * - fixes-log.md: Record of bugs fixed (don't repeat!)
  * - data.json: Generic key-value data
+ * - checkpoints/: File snapshots taken before agent edits (see ./checkpoints.ts)
  */
 
 import { ipcMain } from 'electron'
 import { join } from 'path'
 import { existsSync, mkdirSync, readFileSync, writeFileSync, appendFileSync, readdirSync, unlinkSync } from 'fs'
-import { createHash } from 'crypto'
-import { homedir } from 'os'
+import { getWorkspaceHash, getWorkspaceStoragePath } from '../../src/core/workspace-paths'
 
-// Base path for all workspace storage
-const AIBUDDY_BASE = join(homedir(), '.aibuddy', 'workspaces')
-const MAX_APPEND_FILE_SIZE = 2 * 1024 * 1024 // 2 MB per append-only file
+// Folders are keyed by a sha256 of the lower-cased workspace path, shared with the CLI
+export { getWorkspaceHash }
 
-/**
- * Generate a consistent hash for a workspace path.
- * Exported for direct testing — tests MUST import this, not duplicate it.
- */
-export function getWorkspaceHash(workspacePath: string): string {
-  return createHash('sha256')
-    .update(workspacePath.toLowerCase())
-    .digest('hex')
-    .substring(0, 16)
-}
+const MAX_APPEND_FILE_SIZE = 2 * 1024 * 1024 // 2 MB per append-only file
 
 /**
  * Get the storage directory for a workspace
  */
-function getWorkspaceDir(workspacePath: string): string {
-  const hash = getWorkspaceHash(workspacePath)
-  const dir = join(AIBUDDY_BASE, hash)
+export function getWorkspaceDir(workspacePath: string): string {
+  const dir = getWorkspaceStoragePath(workspacePath)
   
   // Ensure directory exists
   if (!existsSync(dir)) {
@@ -116,7 +105,7 @@ function appendMarkdownFile(workspacePath: string, filename: string, content: st
 /**
  * Read JSON data from workspace storage
  */
-function readJsonData(workspacePath: string, key: string): unknown {
+export function readJsonData(workspacePath: string, key: string): unknown {
   const dir = getWorkspaceDir(workspacePath)
   const filePath = join(dir, 'data.json')
   
@@ -136,7 +125,7 @@ function readJsonData(workspacePath: string, key: string): unknown {
  * Write JSON data to workspace storage.
  * Rejects writes that would push data.json over 5 MB.
  */
-function writeJsonData(workspacePath: string, key: string, value: unknown): boolean {
+export function writeJsonData(workspacePath: string, key: string, value: unknown): boolean {
   try {
     const dir = getWorkspaceDir(workspacePath)
     const filePath = join(dir, 'data.json')
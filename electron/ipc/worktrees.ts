@@ -0,0 +1,96 @@
+/**
+ * Agent Worktree IPC Handlers
+ *
+ * Creates a git worktree per chat thread so the agent can work on its own
+ * branch, and reviews, merges, cherry-picks or discards the result. Worktrees
+ * live in the workspace storage dir:
+ * ~/.aibuddy/workspaces/{workspace-hash}/worktrees/{threadId}/
+ */
+
+import { ipcMain } from 'electron'
+import { join } from 'path'
+import { WorktreeManager, type AgentWorktree, type IntegrateMode } from '../../src/core/agent-worktrees'
+import { getWorkspaceDir } from './workspace'
+
+const ALL_CHANNELS = [
+  'worktrees:list',
+  'worktrees:create',
+  'worktrees:diff',
+  'worktrees:integrate',
+  'worktrees:remove',
+  'worktrees:pruneStale',
+] as const
+
+const managers = new Map<string, WorktreeManager>()
+
+function getManager(workspacePath: string): WorktreeManager {
+  let manager = managers.get(workspacePath)
+  if (!manager) {
+    manager = new WorktreeManager(workspacePath, join(getWorkspaceDir(workspacePath), 'worktrees'))
+    managers.set(workspacePath, manager)
+  }
+  return manager
+}
+
+export function initWorktreeHandlers(): void {
+  // Remove any previously registered handlers to prevent "second handler" errors on dev reload
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+
+  ipcMain.handle('worktrees:list', async (_event, workspacePath: string): Promise<AgentWorktree[]> => {
+    try {
+      return await getManager(workspacePath).list()
+    } catch (error) {
+      // Not a git repository (or no commits yet) — nothing to isolate in
+      console.error('[Worktrees] Failed to list worktrees:', error)
+      return []
+    }
+  })
+
+  ipcMain.handle('worktrees:create', async (_event, workspacePath: string, threadId: string): Promise<AgentWorktree> => {
+    try {
+      return await getManager(workspacePath).create(threadId)
+    } catch (error) {
+      throw new Error(`Could not create a worktree: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('worktrees:diff', async (_event, workspacePath: string, threadId: string): Promise<string> => {
+    try {
+      return await getManager(workspacePath).diff(threadId)
+    } catch (error) {
+      throw new Error(`Worktree diff failed: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('worktrees:integrate', async (_event, workspacePath: string, threadId: string, mode: IntegrateMode, message: string): Promise<{ commits: number }> => {
+    try {
+      return await getManager(workspacePath).integrate(threadId, mode, message)
+    } catch (error) {
+      throw new Error(`Worktree ${mode} failed: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('worktrees:remove', async (_event, workspacePath: string, threadId: string): Promise<void> => {
+    try {
+      await getManager(workspacePath).remove(threadId)
+    } catch (error) {
+      throw new Error(`Could not remove the worktree: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('worktrees:pruneStale', async (_event, workspacePath: string, liveThreadIds: string[]): Promise<{ removed: string[]; orphaned: AgentWorktree[] }> => {
+    try {
+      return await getManager(workspacePath).pruneStale(liveThreadIds)
+    } catch (error) {
+      console.error('[Worktrees] Failed to clean up stale worktrees:', error)
+      return { removed: [], orphaned: [] }
+    }
+  })
+
+  console.log('[Worktrees] IPC handlers initialized')
+}
+
+export function cleanupWorktreeHandlers(): void {
+  for (const ch of ALL_CHANNELS) { ipcMain.removeHandler(ch) }
+  managers.clear()
+}
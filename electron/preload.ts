@@ -1,4 +1,14 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
+import type { DevelopmentEnvironment, EnvironmentProgress } from '../src/core/environment-detector'
+
+type ProviderSettingsPayload = { provider: 'aibuddy' | 'openai-compatible' | 'ollama'; baseUrl: string; apiKey?: string; model: string }
+type ExecutionPolicyPayload = { source: 'workspace' | 'global' | 'none'; path?: string; autoMode?: 'off' | 'conservative' | 'balanced' | 'aggressive'; allowCommands: string[]; denyCommands: string[]; protectedPaths: string[]; confirmGitPush: boolean; confirmPackageInstall: boolean; error?: string }
+type ToolchainMismatchPayload = { pin: { tool: string; requirement: string; range: string; source: string }; installed: string | null; fix: string }
+type GitSnapshotPayload = { id: string; ref: string; commit: string; reason: string; branch: string | null; head: string | null; createdAt: number }
+type AgentWorktreePayload = { threadId: string; branch: string; path: string; workspacePath: string; base: string; exists: boolean }
+type ContainerTargetPayload = { id: string; label: string; kind: 'devcontainer' | 'compose'; source: string; service?: string; composeFiles?: string[]; workspaceFolder: string; containerId?: string | null; hostShell?: 'posix' | 'cmd' }
+type ProviderChatRequest = { model?: string; messages: Array<{ role: 'user' | 'assistant' | 'system'; content: unknown }>; system?: string; max_tokens?: number; temperature?: number }
+type ProviderStreamEventPayload = { type: string; index?: number; delta?: { type: string; text?: string; partial_json?: string; stop_reason?: string }; message?: { id: string; model: string }; usage?: { input_tokens: number; output_tokens: number } }
 
 // Types for the exposed API
 export interface ElectronAPI {
@@ -51,6 +61,7 @@ export interface ElectronAPI {
     rm: (path: string, recursive?: boolean) => Promise<void>
     rename: (oldPath: string, newPath: string) => Promise<void>
     copy: (src: string, dest: string) => Promise<void>
+    search: (options: { cwd: string; root?: string; pattern: string; include?: string[]; exclude?: string[]; before?: number; after?: number; ignoreCase?: boolean; maxResults?: number }) => Promise<{ files: Array<{ path: string; lines: Array<{ line: number; text: string; isMatch: boolean }>; matchCount: number }>; totalMatches: number; truncated: boolean; engine: 'ripgrep' | 'node' }>
   }
 
   // Terminal operations
@@ -72,14 +83,21 @@ export interface ElectronAPI {
   // Git operations
   git: {
     status: (cwd: string) => Promise<unknown>
-    diff: (cwd: string, options?: { staged?: boolean }) => Promise<string>
-    log: (cwd: string, options?: { maxCount?: number }) => Promise<unknown[]>
+    diff: (cwd: string, options?: { staged?: boolean; base?: string }) => Promise<string>
+    log: (cwd: string, options?: { maxCount?: number; base?: string }) => Promise<unknown[]>
     branch: (cwd: string) => Promise<{ current: string; all: string[] }>
     checkout: (cwd: string, branch: string) => Promise<void>
     commit: (cwd: string, message: string) => Promise<void>
     add: (cwd: string, files: string[]) => Promise<void>
     push: (cwd: string) => Promise<void>
     pull: (cwd: string) => Promise<void>
+    applyPatch: (cwd: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => Promise<void>
+    unstage: (cwd: string, files: string[]) => Promise<void>
+    discard: (cwd: string, files: string[]) => Promise<void>
+    mergeState: (cwd: string) => Promise<'merge' | 'rebase' | 'cherry-pick' | null>
+    checkoutConflict: (cwd: string, file: string, side: 'ours' | 'theirs') => Promise<void>
+    continueMerge: (cwd: string) => Promise<void>
+    abortMerge: (cwd: string) => Promise<void>
   }
 
   // RPC for AI agent communication
@@ -112,8 +130,11 @@ export interface ElectronAPI {
 
   // Environment detection
   environment: {
-    detectEnvironment: () => Promise<unknown>
-    getSummary: () => Promise<string>
+    detectEnvironment: () => Promise<DevelopmentEnvironment>
+    getSummary: (projectPath?: string | null) => Promise<string>
+    checkToolchain: (projectPath: string) => Promise<ToolchainMismatchPayload[]>
+    clearCache: () => Promise<boolean>
+    onDetectProgress: (callback: (progress: EnvironmentProgress) => void) => () => void
   }
 
   // Chat history operations
@@ -123,7 +144,7 @@ export interface ElectronAPI {
     getActiveThread: () => Promise<unknown>
     createThread: (firstMessage?: string, workspacePath?: string) => Promise<unknown>
     setActiveThread: (threadId: string | null) => Promise<boolean>
-    addMessage: (threadId: string, message: { role: 'user' | 'assistant', content: string, images?: unknown[], cost?: number, model?: string, tokensIn?: number, tokensOut?: number, responseTime?: number, timestamp?: string }) => Promise<unknown>
+    addMessage: (threadId: string, message: { id?: string, role: 'user' | 'assistant', content: string, images?: unknown[], cost?: number, model?: string, tokensIn?: number, tokensOut?: number, responseTime?: number, timestamp?: string }) => Promise<unknown>
     updateMetadata: (threadId: string, metadata: unknown) => Promise<boolean>
     updateMessageFeedback: (threadId: string, messageId: string, feedback: 'up' | 'down' | null) => Promise<boolean>
     renameThread: (threadId: string, newTitle: string) => Promise<boolean>
@@ -131,6 +152,8 @@ export interface ElectronAPI {
     clearAll: () => Promise<boolean>
     search: (query: string) => Promise<unknown[]>
     export: (threadId: string) => Promise<string>
+    addSummary: (threadId: string, content: string, summarizedMessageIds: string[]) => Promise<unknown>
+    updateMessage: (threadId: string, messageId: string, content: string) => Promise<boolean>
   }
 
   // Workspace-specific storage for rules, patterns, and context
@@ -158,6 +181,69 @@ export interface ElectronAPI {
     deleteProjectRule: (workspacePath: string, filename: string) => Promise<boolean>
   }
 
+  // File checkpoints — snapshots taken before agent edits, restorable per chat message
+  checkpoints: {
+    snapshot: (workspacePath: string, threadId: string, messageIndex: number, filePath: string, source: 'write_to_file' | 'replace_in_file' | 'apply_diff' | 'command') => Promise<boolean>
+    listTurns: (workspacePath: string, threadId: string) => Promise<Array<{ messageIndex: number; timestamp: number; files: string[] }>>
+    getChangedFiles: (workspacePath: string, threadId: string, messageIndex: number) => Promise<string[]>
+    restoreFile: (workspacePath: string, threadId: string, messageIndex: number, filePath: string) => Promise<{ restored: string[]; deleted: string[]; failed: Array<{ filePath: string; error: string }> }>
+    restoreWorkspace: (workspacePath: string, threadId: string, messageIndex: number) => Promise<{ restored: string[]; deleted: string[]; failed: Array<{ filePath: string; error: string }> }>
+    deleteThread: (workspacePath: string, threadId: string) => Promise<boolean>
+    listAgentEdits: (workspacePath: string) => Promise<Array<{ filePath: string; timestamp: number }>>
+  }
+
+  // MCP servers — external tools from ~/.aibuddy/mcp.json and {workspace}/.aibuddy/mcp.json
+  mcp: {
+    configure: (workspacePath: string | null) => Promise<Array<{ name: string; source: 'global' | 'workspace'; state: 'starting' | 'running' | 'error' | 'stopped' | 'untrusted'; toolCount: number; error?: string }>>
+    getServers: () => Promise<Array<{ name: string; source: 'global' | 'workspace'; state: 'starting' | 'running' | 'error' | 'stopped' | 'untrusted'; toolCount: number; error?: string }>>
+    getTrustRequest: (workspacePath: string) => Promise<{ hash: string; servers: Array<{ name: string; command: string }> } | null>
+    setWorkspaceTrust: (workspacePath: string, hash: string, trusted: boolean) => Promise<Array<{ name: string; source: 'global' | 'workspace'; state: 'starting' | 'running' | 'error' | 'stopped' | 'untrusted'; toolCount: number; error?: string }>>
+    listTools: () => Promise<Array<{ server: string; tool: string; qualifiedName: string; description: string; inputSchema: Record<string, unknown> }>>
+    requestToolCall: (request: { qualifiedName: string; args: Record<string, unknown>; decision?: 'allow_once' | 'always_allow' | 'deny' | 'always_deny' }) => Promise<
+      | { status: 'executed'; result: { success: boolean; output: string; error?: string; server: string; tool: string; durationMs: number } }
+      | { status: 'denied'; error: string }
+      | { status: 'needs_confirmation'; server: string; tool: string; description: string }
+    >
+  }
+
+  // Inference providers — OpenAI-compatible servers and Ollama, called from the main process
+  providers: {
+    listModels: (settings: ProviderSettingsPayload) => Promise<Array<{ id: string; label?: string }>>
+    chat: (settings: ProviderSettingsPayload, request: ProviderChatRequest) => Promise<{ id: string; content: Array<{ type: 'text' | 'tool_use'; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>; model: string; stop_reason: string; usage: { input_tokens: number; output_tokens: number } }>
+    stream: (streamId: string, settings: ProviderSettingsPayload, request: ProviderChatRequest) => Promise<{ success: boolean; error?: string; aborted?: boolean }>
+    abort: (streamId: string) => Promise<boolean>
+    onStreamEvent: (callback: (streamId: string, event: ProviderStreamEventPayload) => void) => () => void
+  }
+
+  // Execution policy — {workspace}/.aibuddy/policy.json, else ~/.aibuddy/policy.json
+  policy: {
+    get: (workspacePath: string | null) => Promise<ExecutionPolicyPayload>
+  }
+
+  // Dev containers / compose services commands can run in (selection kept per workspace)
+  containers: {
+    detect: (workspacePath: string) => Promise<{ targets: ContainerTargetPayload[]; selectedId: string | null }>
+    select: (workspacePath: string, targetId: string | null) => Promise<boolean>
+  }
+
+  // Per-thread git worktrees the agent works in, on aibuddy/thread-{id} branches
+  worktrees: {
+    list: (workspacePath: string) => Promise<AgentWorktreePayload[]>
+    create: (workspacePath: string, threadId: string) => Promise<AgentWorktreePayload>
+    diff: (workspacePath: string, threadId: string) => Promise<string>
+    integrate: (workspacePath: string, threadId: string, mode: 'merge' | 'cherry-pick', message: string) => Promise<{ commits: number }>
+    remove: (workspacePath: string, threadId: string) => Promise<void>
+    pruneStale: (workspacePath: string, liveThreadIds: string[]) => Promise<{ removed: string[]; orphaned: AgentWorktreePayload[] }>
+  }
+
+  // Snapshots under refs/aibuddy/snapshots/ taken before destructive git commands
+  snapshots: {
+    create: (cwd: string, reason: string) => Promise<GitSnapshotPayload>
+    list: (cwd: string) => Promise<GitSnapshotPayload[]>
+    restore: (cwd: string, id: string) => Promise<GitSnapshotPayload>
+    delete: (cwd: string, id: string) => Promise<void>
+  }
+
   // KAN-284/KAN-286/KAN-287/KAN-288: Skills management (uses SkillsStorageManager via IPC)
   skills: {
     getAll: (scope?: string, workspacePath?: string) => Promise<Array<{ id: string; name: string; description: string; prompt_template: string; enabled: boolean; scope: string; created_by: string; created_at: number; updated_at: number; builtin?: boolean; order?: number; visibility?: string; execution_mode?: string; tags?: string[]; source?: string; catalog_id?: string }>>
@@ -272,7 +358,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
     mkdir: (path: string, recursive?: boolean) => ipcRenderer.invoke('fs:mkdir', path, recursive),
     rm: (path: string, recursive?: boolean) => ipcRenderer.invoke('fs:rm', path, recursive),
     rename: (oldPath: string, newPath: string) => ipcRenderer.invoke('fs:rename', oldPath, newPath),
-    copy: (src: string, dest: string) => ipcRenderer.invoke('fs:copy', src, dest)
+    copy: (src: string, dest: string) => ipcRenderer.invoke('fs:copy', src, dest),
+    search: (options: { cwd: string; root?: string; pattern: string; include?: string[]; exclude?: string[]; before?: number; after?: number; ignoreCase?: boolean; maxResults?: number }) => ipcRenderer.invoke('fs:search', options)
   },
 
   // Terminal operations
@@ -318,14 +405,21 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Git operations
   git: {
     status: (cwd: string) => ipcRenderer.invoke('git:status', cwd),
-    diff: (cwd: string, options?: { staged?: boolean }) => ipcRenderer.invoke('git:diff', cwd, options),
-    log: (cwd: string, options?: { maxCount?: number }) => ipcRenderer.invoke('git:log', cwd, options),
+    diff: (cwd: string, options?: { staged?: boolean; base?: string }) => ipcRenderer.invoke('git:diff', cwd, options),
+    log: (cwd: string, options?: { maxCount?: number; base?: string }) => ipcRenderer.invoke('git:log', cwd, options),
     branch: (cwd: string) => ipcRenderer.invoke('git:branch', cwd),
     checkout: (cwd: string, branch: string) => ipcRenderer.invoke('git:checkout', cwd, branch),
     commit: (cwd: string, message: string) => ipcRenderer.invoke('git:commit', cwd, message),
     add: (cwd: string, files: string[]) => ipcRenderer.invoke('git:add', cwd, files),
     push: (cwd: string) => ipcRenderer.invoke('git:push', cwd),
-    pull: (cwd: string) => ipcRenderer.invoke('git:pull', cwd)
+    pull: (cwd: string) => ipcRenderer.invoke('git:pull', cwd),
+    applyPatch: (cwd: string, patch: string, options?: { cached?: boolean; reverse?: boolean }) => ipcRenderer.invoke('git:applyPatch', cwd, patch, options),
+    unstage: (cwd: string, files: string[]) => ipcRenderer.invoke('git:unstage', cwd, files),
+    discard: (cwd: string, files: string[]) => ipcRenderer.invoke('git:discard', cwd, files),
+    mergeState: (cwd: string) => ipcRenderer.invoke('git:mergeState', cwd),
+    checkoutConflict: (cwd: string, file: string, side: 'ours' | 'theirs') => ipcRenderer.invoke('git:checkoutConflict', cwd, file, side),
+    continueMerge: (cwd: string) => ipcRenderer.invoke('git:continueMerge', cwd),
+    abortMerge: (cwd: string) => ipcRenderer.invoke('git:abortMerge', cwd)
   },
 
   // RPC for AI agent communication
@@ -367,7 +461,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Environment detection
   environment: {
     detectEnvironment: () => ipcRenderer.invoke('env:detect'),
-    getSummary: () => ipcRenderer.invoke('env:getSummary'),
+    getSummary: (projectPath?: string | null) => ipcRenderer.invoke('env:getSummary', projectPath),
+    checkToolchain: (projectPath: string) => ipcRenderer.invoke('env:checkToolchain', projectPath),
+    clearCache: () => ipcRenderer.invoke('env:clearCache'),
+    onDetectProgress: (callback: (progress: EnvironmentProgress) => void) => {
+      const handler = (_event: IpcRendererEvent, progress: EnvironmentProgress) => callback(progress)
+      ipcRenderer.on('env:detectProgress', handler)
+      return () => ipcRenderer.removeListener('env:detectProgress', handler)
+    },
   },
 
   // Chat history operations
@@ -378,7 +479,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     createThread: (firstMessage?: string, workspacePath?: string) => 
       ipcRenderer.invoke('history:createThread', firstMessage, workspacePath),
     setActiveThread: (threadId: string | null) => ipcRenderer.invoke('history:setActiveThread', threadId),
-    addMessage: (threadId: string, message: { role: 'user' | 'assistant', content: string, images?: unknown[], cost?: number, model?: string, tokensIn?: number, tokensOut?: number, responseTime?: number, timestamp?: string }) =>
+    addMessage: (threadId: string, message: { id?: string, role: 'user' | 'assistant', content: string, images?: unknown[], cost?: number, model?: string, tokensIn?: number, tokensOut?: number, responseTime?: number, timestamp?: string }) =>
       ipcRenderer.invoke('history:addMessage', threadId, message),
     updateMetadata: (threadId: string, metadata: unknown) => 
       ipcRenderer.invoke('history:updateMetadata', threadId, metadata),
@@ -390,6 +491,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     clearAll: () => ipcRenderer.invoke('history:clearAll'),
     search: (query: string) => ipcRenderer.invoke('history:search', query),
     export: (threadId: string) => ipcRenderer.invoke('history:export', threadId),
+    addSummary: (threadId: string, content: string, summarizedMessageIds: string[]) =>
+      ipcRenderer.invoke('history:addSummary', threadId, content, summarizedMessageIds),
+    updateMessage: (threadId: string, messageId: string, content: string) =>
+      ipcRenderer.invoke('history:updateMessage', threadId, messageId, content),
   },
 
   // Workspace-specific storage for rules, patterns, and context
@@ -410,6 +515,76 @@ contextBridge.exposeInMainWorld('electronAPI', {
     deleteProjectRule: (workspacePath: string, filename: string) => ipcRenderer.invoke('workspace:deleteProjectRule', workspacePath, filename),
   },
 
+  // File checkpoints — snapshots taken before agent edits, restorable per chat message
+  checkpoints: {
+    snapshot: (workspacePath: string, threadId: string, messageIndex: number, filePath: string, source: 'write_to_file' | 'replace_in_file' | 'apply_diff' | 'command') =>
+      ipcRenderer.invoke('checkpoint:snapshot', workspacePath, threadId, messageIndex, filePath, source),
+    listTurns: (workspacePath: string, threadId: string) => ipcRenderer.invoke('checkpoint:listTurns', workspacePath, threadId),
+    getChangedFiles: (workspacePath: string, threadId: string, messageIndex: number) =>
+      ipcRenderer.invoke('checkpoint:getChangedFiles', workspacePath, threadId, messageIndex),
+    restoreFile: (workspacePath: string, threadId: string, messageIndex: number, filePath: string) =>
+      ipcRenderer.invoke('checkpoint:restoreFile', workspacePath, threadId, messageIndex, filePath),
+    restoreWorkspace: (workspacePath: string, threadId: string, messageIndex: number) =>
+      ipcRenderer.invoke('checkpoint:restoreWorkspace', workspacePath, threadId, messageIndex),
+    deleteThread: (workspacePath: string, threadId: string) => ipcRenderer.invoke('checkpoint:deleteThread', workspacePath, threadId),
+    listAgentEdits: (workspacePath: string) => ipcRenderer.invoke('checkpoint:listAgentEdits', workspacePath),
+  },
+
+  // MCP servers — external tools from ~/.aibuddy/mcp.json and {workspace}/.aibuddy/mcp.json
+  mcp: {
+    configure: (workspacePath: string | null) => ipcRenderer.invoke('mcp:configure', workspacePath),
+    getServers: () => ipcRenderer.invoke('mcp:getServers'),
+    listTools: () => ipcRenderer.invoke('mcp:listTools'),
+    requestToolCall: (request: { qualifiedName: string; args: Record<string, unknown>; decision?: 'allow_once' | 'always_allow' | 'deny' | 'always_deny' }) =>
+      ipcRenderer.invoke('mcp:requestToolCall', request),
+    getTrustRequest: (workspacePath: string) => ipcRenderer.invoke('mcp:getTrustRequest', workspacePath),
+    setWorkspaceTrust: (workspacePath: string, hash: string, trusted: boolean) =>
+      ipcRenderer.invoke('mcp:setWorkspaceTrust', workspacePath, hash, trusted),
+  },
+
+  // Inference providers — OpenAI-compatible servers and Ollama, called from the main process
+  providers: {
+    listModels: (settings: ProviderSettingsPayload) => ipcRenderer.invoke('provider:listModels', settings),
+    chat: (settings: ProviderSettingsPayload, request: ProviderChatRequest) => ipcRenderer.invoke('provider:chat', settings, request),
+    stream: (streamId: string, settings: ProviderSettingsPayload, request: ProviderChatRequest) =>
+      ipcRenderer.invoke('provider:stream', streamId, settings, request),
+    abort: (streamId: string) => ipcRenderer.invoke('provider:abort', streamId),
+    onStreamEvent: (callback: (streamId: string, event: ProviderStreamEventPayload) => void) => {
+      const handler = (_event: IpcRendererEvent, streamId: string, event: ProviderStreamEventPayload) => callback(streamId, event)
+      ipcRenderer.on('provider:streamEvent', handler)
+      return () => ipcRenderer.removeListener('provider:streamEvent', handler)
+    },
+  },
+
+  // Execution policy — {workspace}/.aibuddy/policy.json, else ~/.aibuddy/policy.json
+  policy: {
+    get: (workspacePath: string | null) => ipcRenderer.invoke('policy:get', workspacePath),
+  },
+
+  // Dev containers / compose services commands can run in (selection kept per workspace)
+  containers: {
+    detect: (workspacePath: string) => ipcRenderer.invoke('containers:detect', workspacePath),
+    select: (workspacePath: string, targetId: string | null) => ipcRenderer.invoke('containers:select', workspacePath, targetId),
+  },
+
+  // Per-thread git worktrees the agent works in, on aibuddy/thread-{id} branches
+  worktrees: {
+    list: (workspacePath: string) => ipcRenderer.invoke('worktrees:list', workspacePath),
+    create: (workspacePath: string, threadId: string) => ipcRenderer.invoke('worktrees:create', workspacePath, threadId),
+    diff: (workspacePath: string, threadId: string) => ipcRenderer.invoke('worktrees:diff', workspacePath, threadId),
+    integrate: (workspacePath: string, threadId: string, mode: 'merge' | 'cherry-pick', message: string) => ipcRenderer.invoke('worktrees:integrate', workspacePath, threadId, mode, message),
+    remove: (workspacePath: string, threadId: string) => ipcRenderer.invoke('worktrees:remove', workspacePath, threadId),
+    pruneStale: (workspacePath: string, liveThreadIds: string[]) => ipcRenderer.invoke('worktrees:pruneStale', workspacePath, liveThreadIds),
+  },
+
+  // Snapshots under refs/aibuddy/snapshots/ taken before destructive git commands
+  snapshots: {
+    create: (cwd: string, reason: string) => ipcRenderer.invoke('snapshots:create', cwd, reason),
+    list: (cwd: string) => ipcRenderer.invoke('snapshots:list', cwd),
+    restore: (cwd: string, id: string) => ipcRenderer.invoke('snapshots:restore', cwd, id),
+    delete: (cwd: string, id: string) => ipcRenderer.invoke('snapshots:delete', cwd, id),
+  },
+
   // KAN-284/KAN-286/KAN-287/KAN-288/KAN-289/KAN-290: Skills management
   skills: {
     getAll: (scope?: string, workspacePath?: string) => ipcRenderer.invoke('skills:getAll', scope, workspacePath),
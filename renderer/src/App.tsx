@@ -40,7 +40,14 @@ import {
   Square, // KAN-35 FIX: Stop button icon
   GraduationCap, // Interview Mode icon
   Clock,
-  Calendar
+  Calendar,
+  RotateCcw,
+  ListChecks,
+  GitCommit,
+  GitPullRequest,
+  GitBranch,
+  GitFork,
+  GitMerge
 } from 'lucide-react'
 import { CloudKnowledgePanel } from './components/knowledge'
 import { HistorySidebar } from './components/HistorySidebar'
@@ -50,6 +57,24 @@ import { InterviewPanel } from './components/InterviewPanel'
 import { LanguageSelector } from './components/LanguageSelector'
 import { SkillsPanel } from './components/SkillsPanel'
 import { FeedbackDialog, type FeedbackPayload } from './components/FeedbackDialog'
+import { CheckpointRestoreDialog } from './components/CheckpointRestoreDialog'
+import { ToolPermissionDialog } from './components/ToolPermissionDialog'
+import { PlanChecklist } from './components/PlanChecklist'
+import { ContextTokenMeter } from './components/ContextTokenMeter'
+import { PolicyIndicator } from './components/PolicyIndicator'
+import { ApprovalRulesPanel } from './components/ApprovalRulesPanel'
+import { EnvironmentPanel } from './components/EnvironmentPanel'
+import { ToolchainBanner } from './components/ToolchainBanner'
+import { ContainerTargetPicker } from './components/ContainerTargetPicker'
+import { CommitDialog } from './components/CommitDialog'
+import { PullRequestDialog } from './components/PullRequestDialog'
+import { SourceControlPanel } from './components/SourceControlPanel'
+import { MergeConflictDialog } from './components/MergeConflictDialog'
+import { WorktreeReviewDialog } from './components/WorktreeReviewDialog'
+import { TestResultsPanel } from './components/TestResultsPanel'
+import { ProblemsPanel } from './components/editor/ProblemsPanel'
+import { ConversationSummaryCard } from './components/ConversationSummaryCard'
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel'
 import { NpsPrompt, shouldShowNps, incrementInteractionCount } from './components/NpsPrompt'
 import { PrivacyConsent } from './components/PrivacyConsent'
 import { WelcomeScreen } from './components/welcome/WelcomeScreen'
@@ -57,7 +82,10 @@ import { useTranslation } from 'react-i18next'
 import { SUPPORTED_LANGUAGES } from './i18n/languages'
 import { useTheme, type Theme, type FontSize } from './hooks/useTheme'
 import { useVoiceInput } from './hooks/useVoiceInput'
+import { usePlanExecution } from './hooks/usePlanExecution'
+import { useDebouncedValue } from './hooks/useDebouncedValue'
 import type { ChatThread } from '../../src/history/types'
+import type { RestoreResult } from '../../src/history/checkpoint-store'
 import ReactMarkdown from 'react-markdown'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
@@ -85,9 +113,36 @@ import {
 // Debug: Log the API URL at module load time
 console.log('[App] API URL configured:', AIBUDDY_API_INFERENCE_URL)
 import { generateSystemPrompt, DESKTOP_PLATFORM_CONTEXT } from '../../src/constants/system-prompt'
+import { getSmartAgent, PLAN_MODE_INSTRUCTIONS } from '../../src/agent/smart-agent'
+import { getAutoModeManager } from '../../src/agent/auto-mode-manager'
+import { commandWriteTargets } from '../../src/agent/shell-parser'
+import { buildMcpToolsPrompt, formatMcpToolResponse, MCP_CALL_LANGUAGE, parseMcpToolCalls, runMcpToolCall } from '../../src/mcp/chat-tools'
+import type { McpToolInfo } from '../../src/mcp/types'
+import type { PermissionDecision } from '../../src/skills/types'
+import { NO_POLICY, decideCommand, evaluateCommandPolicy } from '../../src/policy/execution-policy'
+import type { ToolchainMismatch } from '../../src/core/toolchain-pins'
+import { containerTargets, type ContainerTarget } from '../../src/core/dev-containers'
+import type { AgentWorktree } from '../../src/core/agent-worktrees'
+import { findDestructiveGitCommand } from '../../src/core/git-snapshots'
+import type { ExecutionPolicy } from '../../src/policy/types'
+import { detectTestRunner, formatTestFailures, parseTestOutput, type TestRunSummary } from '../../src/testing'
+import { diagnosticsStore, formatDiagnostics } from '../../src/diagnostics'
+import { countTokens, countMessageTokens, countContextTokens, type TokenBreakdown } from '../../src/core/tokenizer'
+import {
+  getActiveContext,
+  selectMessagesToCompact,
+  insertSummary,
+  buildCompactionPrompt,
+  formatSummaryForContext,
+  COMPACTION_SYSTEM_PROMPT,
+  SUMMARY_TOKEN_RESERVE,
+  COMPACTION_KEEP_RECENT,
+} from '../../src/history/compaction'
 import { appendIfNotDuplicate, isDuplicateFile } from './utils/file-dedup'
 import { safeParseResponse, safeParseBody } from './lib/response-parser'
 import { submitFeedback } from './lib/feedback'
+import { toProviderRequest, streamFromProvider, chatWithProvider } from './lib/provider-client'
+import { PROVIDER_SETTINGS_KEY, DEFAULT_PROVIDER_SETTINGS, isLocalProvider, type ProviderSettings } from '../../src/api/providers/types'
 
 // KAN-41 FIX: Professional tooltip — compact, non-overlapping, viewport-constrained
 // KAN-181 v2 FIX: CSS-only hover via group/group-hover — eliminates React state
@@ -194,11 +249,13 @@ const MAX_PAYLOAD_BYTES = 900 * 1024 // 900KB — ALB→Lambda sync invocation l
 const MAX_IMAGE_BASE64_SIZE = 400 * 1024 // 400KB base64 ≈ 300KB binary
 // KAN-54: Token-based cost guard — limit total input tokens before sending
 const MAX_CONTEXT_TOKENS = 40_000
-
-function estimateTokenCount(text: string): number {
-  if (!text) return 0
-  return Math.ceil(text.length / 3.5)
-}
+// KAN-54: The context meter recounts once typing or streaming has paused this long
+const TOKEN_METER_DEBOUNCE_MS = 300
+// Id prefix of the assistant message a reply streams into
+const STREAM_MESSAGE_PREFIX = 'stream-'
+// Dictation and interview coaching only run on AIBuddy Cloud; with a local provider they stay off
+const LOCAL_PROVIDER_VOICE_MESSAGE = 'Voice dictation uses AIBuddy Cloud and is off while a local provider is selected'
+const LOCAL_PROVIDER_INTERVIEW_MESSAGE = 'Interview Mode uses AIBuddy Cloud and is off while a local provider is selected'
 
 function compressImageFromSrc(
   src: string,
@@ -292,6 +349,9 @@ interface Message {
   timestamp?: string
   executionResults?: CommandResult[]
   images?: ImageAttachment[]
+  /** 'summary' entries replace older turns in the model context after compaction */
+  kind?: 'message' | 'summary'
+  summarizedMessageIds?: string[]
 }
 
 interface CommandResult {
@@ -300,6 +360,7 @@ interface CommandResult {
   stderr: string
   exitCode: number
   executed: boolean
+  testRun?: TestRunSummary
 }
 
 // Terminal output for real-time display
@@ -321,6 +382,9 @@ interface TaskProgress {
 const MAX_TERMINAL_LINES = 100
 const COLLAPSED_VISIBLE_LINES = 5
 
+/** electronAPI.store key for "run the agent in a git worktree" */
+const WORKTREE_ISOLATION_KEY = 'agentWorktreeIsolation'
+
 // AIBuddy uses smart backend routing - users never select models
 // Backend automatically chooses optimal model based on task analysis:
 // - GPT-5.3-Codex: Code generation, images (best coding, 25% faster)
@@ -338,6 +402,8 @@ function parseCodeBlocks(content: string): { language: string; code: string }[]
     const language = match[1].toLowerCase()
     const code = match[2].trim()
     
+    // MCP tool calls are run by the MCP flow, never as shell commands
+    if (language === MCP_CALL_LANGUAGE) continue
     if (['bash', 'sh', 'shell', 'zsh'].includes(language)) {
       blocks.push({ language: 'bash', code })
     } else if (looksLikeShellCommand(code)) {
@@ -449,6 +515,22 @@ function extractCommands(codeBlock: string): string[] {
   return commands
 }
 
+// Short label for a command in the terminal and the task progress steps
+function describeCommand(cmd: string): string {
+  const c = cmd.trim().split(/\s+/)
+  const base = (c[0] || '').replace(/^.*\//, '')
+  if (['git', 'composer', 'npm', 'yarn', 'pnpm'].includes(base)) return `${base} ${c[1] || ''}`
+  if (base === 'phpunit' || cmd.includes('phpunit')) return 'Running tests'
+  if (base === 'pint' || cmd.includes('pint')) return 'Code style check'
+  if (base === 'php-cs-fixer' || cmd.includes('php-cs-fixer')) return 'Code style check'
+  if (base === 'python3' || base === 'python') return 'Running Python script'
+  if (base === 'cat' && cmd.includes('<<')) return 'Creating file'
+  if (base === 'cd') return `Changing directory`
+  if (base === 'mkdir') return 'Creating directory'
+  if (['ls', 'pwd', 'echo'].includes(base)) return base
+  return (cmd || '').substring(0, 40)
+}
+
 // KAN-32: Extract file path from heredoc file-creation commands
 function extractFilePathFromHeredoc(command: string): string | null {
   // Match: cat > path/to/file << 'EOF'  (single >, not >>)
@@ -460,6 +542,19 @@ function extractFilePathFromHeredoc(command: string): string | null {
   return null
 }
 
+// Files an agent command mutates, for checkpoints. Unparseable commands fall back to the heredoc target.
+function checkpointPathsForCommand(command: string): string[] {
+  let targets: string[]
+  try {
+    targets = commandWriteTargets(command)
+  } catch {
+    const heredocTarget = extractFilePathFromHeredoc(command)
+    targets = heredocTarget ? [heredocTarget] : []
+  }
+  // ~ and variables can't be resolved here
+  return targets.filter(target => !/^~|\$/.test(target) && !target.startsWith('/dev/'))
+}
+
 const NO_INTERACTION_TOOLS: Record<string, string> = {
   'composer': '--no-interaction',
   'artisan': '--no-interaction',
@@ -730,8 +825,10 @@ function App() {
   
   // Input state (declared first for voice input dependency)
   const [input, setInput] = useState('')
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS)
   
-  // Voice input / dictation
+  // Voice input / dictation — transcription runs on AIBuddy Cloud, so it is off with a local provider
+  const voiceDisabledReason = isLocalProvider(providerSettings) ? LOCAL_PROVIDER_VOICE_MESSAGE : undefined
   const { 
     state: voiceState, 
     isSupported: voiceSupported, 
@@ -739,6 +836,7 @@ function App() {
     toggleListening: toggleVoice,
     errorMessage: voiceError 
   } = useVoiceInput({
+    disabledReason: voiceDisabledReason,
     onResult: (transcript, isFinal) => {
       if (isFinal) {
         setInput(prev => prev ? `${prev} ${transcript}` : transcript)
@@ -757,6 +855,12 @@ function App() {
   const [apiKey, setApiKey] = useState<string | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [showShareModal, setShowShareModal] = useState(false)
+  const [showCommitDialog, setShowCommitDialog] = useState(false)
+  const [showPullRequestDialog, setShowPullRequestDialog] = useState(false)
+  const [showSourceControl, setShowSourceControl] = useState(false)
+  const [showMergeConflicts, setShowMergeConflicts] = useState(false)
+  // Bumped after a commit or merge so the Source Control panel reloads
+  const [sourceControlVersion, setSourceControlVersion] = useState(0)
   const [showSkillsPanel, setShowSkillsPanel] = useState(false)
   const [apiKeyInput, setApiKeyInput] = useState('')
   const [copiedId, setCopiedId] = useState<string | null>(null)
@@ -777,6 +881,12 @@ function App() {
   
   // Environment Detection
   const [environmentSummary, setEnvironmentSummary] = useState<string>('')
+  const [toolchainMismatches, setToolchainMismatches] = useState<ToolchainMismatch[]>([])
+  const [commandContainers, setCommandContainers] = useState<{ targets: ContainerTarget[]; selectedId: string | null }>({ targets: [], selectedId: null })
+  // Threads that run in their own git worktree, and whether new threads start in one
+  const [agentWorktrees, setAgentWorktrees] = useState<AgentWorktree[]>([])
+  const [isolateInWorktree, setIsolateInWorktree] = useState(false)
+  const [worktreeReview, setWorktreeReview] = useState<{ worktree: AgentWorktree; message: string } | null>(null)
 
   // KAN-284/KAN-287/KAN-289: Skills loaded from SkillsStorageManager via IPC
   const [skills, setSkills] = useState<Array<{ id: string; name: string; description: string; prompt_template: string; enabled: boolean; scope: string; created_by: string; created_at: number; updated_at: number; builtin?: boolean; order?: number; visibility?: string; execution_mode?: string; tags?: string[]; allowed_tools?: string[]; context_triggers?: { project_types?: string[]; file_patterns?: string[]; keywords?: string[] } }>>([])
@@ -788,11 +898,20 @@ function App() {
   const [currentCommand, setCurrentCommand] = useState<string | null>(null)
   const [terminalCollapsed, setTerminalCollapsed] = useState(true)
   const [taskProgress, setTaskProgress] = useState<TaskProgress | null>(null)
+  // Latest parsed test run, shown above the terminal output
+  const [testResults, setTestResults] = useState<{ command: string; summary: TestRunSummary } | null>(null)
+  // Problems panel — diagnostics collected from build and lint output
+  const [showProblems, setShowProblems] = useState(false)
+  const [problemCount, setProblemCount] = useState(0)
   const [terminalHeight, setTerminalHeight] = useState(300)
   const terminalDragRef = useRef<{ startY: number; startH: number } | null>(null)
   
   // Error recovery state
   const [deepSeekRetryCount, setDeepSeekRetryCount] = useState(0)
+
+  // MCP tools offered to the model, and the tool call waiting for the user's permission
+  const mcpToolsRef = useRef<McpToolInfo[]>([])
+  const [mcpPermission, setMcpPermission] = useState<{ server: string; tool: string; description: string; resolve: (decision: PermissionDecision) => void } | null>(null)
   
   // Image attachments
   const [attachedImages, setAttachedImages] = useState<ImageAttachment[]>([])
@@ -805,7 +924,24 @@ function App() {
   // Chat history
   const [showHistory, setShowHistory] = useState(false)
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
-  
+
+  // File checkpoints — which thread/message agent file changes belong to, and
+  // which user messages have restorable snapshots
+  const checkpointTargetRef = useRef<{ threadId: string; messageIndex: number } | null>(null)
+  // Worktree the current request's commands run in (null: the workspace itself)
+  const agentWorktreeRef = useRef<AgentWorktree | null>(null)
+  const [checkpointTurns, setCheckpointTurns] = useState<Set<number>>(new Set())
+  const [checkpointDialog, setCheckpointDialog] = useState<{ messageIndex: number; files: string[] } | null>(null)
+
+  // Conversation compaction — older turns folded into an editable summary
+  const [isCompacting, setIsCompacting] = useState(false)
+
+  // Plan mode — the model returns a reviewable plan instead of running commands right away
+  const [planMode, setPlanMode] = useState(false)
+
+  // Execution policy — .aibuddy/policy.json (or the global one) gating auto-executed commands
+  const [executionPolicy, setExecutionPolicy] = useState<ExecutionPolicy>(NO_POLICY)
+
   // Message feedback state (thumbs up/down)
   const [messageFeedback, setMessageFeedback] = useState<Record<string, 'up' | 'down' | null>>({})
   const [feedbackDialogMessageId, setFeedbackDialogMessageId] = useState<string | null>(null)
@@ -859,6 +995,211 @@ function App() {
     }
   }, [showMoreMenu])
 
+  // Load which user messages of the active thread have file checkpoints
+  const refreshCheckpointTurns = useCallback(async (threadId: string | null) => {
+    if (!threadId || !workspacePath || !window.electronAPI?.checkpoints) {
+      setCheckpointTurns(new Set())
+      return
+    }
+    try {
+      const turns = await window.electronAPI.checkpoints.listTurns(workspacePath, threadId)
+      setCheckpointTurns(new Set(turns.map(turn => turn.messageIndex)))
+    } catch (err) {
+      console.warn('[Checkpoint] Failed to load checkpoints:', err)
+      setCheckpointTurns(new Set())
+    }
+  }, [workspacePath])
+
+  useEffect(() => {
+    refreshCheckpointTurns(activeThreadId)
+  }, [activeThreadId, refreshCheckpointTurns])
+
+  // Re-read on every call so edits to policy.json apply without reopening the workspace
+  const loadExecutionPolicy = useCallback(async (): Promise<ExecutionPolicy> => {
+    if (!window.electronAPI?.policy) return NO_POLICY
+    try {
+      const policy = await window.electronAPI.policy.get(workspacePath)
+      setExecutionPolicy(policy)
+      return policy
+    } catch (err) {
+      console.warn('[Policy] Failed to load execution policy:', err)
+      return NO_POLICY
+    }
+  }, [workspacePath])
+
+  useEffect(() => {
+    loadExecutionPolicy()
+  }, [loadExecutionPolicy])
+
+  // Pinned toolchain versions (.nvmrc, global.json, ...) are per workspace, so the summary is too
+  const refreshEnvironmentSummary = useCallback(async () => {
+    const environment = window.electronAPI?.environment
+    if (!environment) return
+    try {
+      const [envSummary, mismatches] = await Promise.all([
+        environment.getSummary(workspacePath),
+        workspacePath ? environment.checkToolchain(workspacePath) : [],
+      ])
+      if (envSummary) setEnvironmentSummary(envSummary)
+      setToolchainMismatches(mismatches as ToolchainMismatch[])
+    } catch (err) {
+      console.warn('[Environment] Failed to check toolchain versions:', err)
+    }
+  }, [workspacePath])
+
+  useEffect(() => {
+    refreshEnvironmentSummary()
+  }, [refreshEnvironmentSummary])
+
+  // Dev containers / compose services the workspace's commands can run in
+  const refreshContainers = useCallback(async () => {
+    const containers = window.electronAPI?.containers
+    if (!containers || !workspacePath) {
+      setCommandContainers({ targets: [], selectedId: null })
+      return
+    }
+    try {
+      const detected = await containers.detect(workspacePath)
+      setCommandContainers(detected)
+      containerTargets.setActive(workspacePath, detected.targets.find(t => t.id === detected.selectedId) ?? null)
+    } catch (err) {
+      console.warn('[Containers] Detection failed:', err)
+    }
+  }, [workspacePath])
+
+  useEffect(() => {
+    refreshContainers()
+  }, [refreshContainers])
+
+  // Agent worktrees of this workspace; empty worktrees of deleted threads are removed first,
+  // ones with work are offered for review
+  const refreshWorktrees = useCallback(async () => {
+    const worktrees = window.electronAPI?.worktrees
+    if (!worktrees || !workspacePath) {
+      setAgentWorktrees([])
+      return
+    }
+    try {
+      const threads = await window.electronAPI.history.getThreads() as ChatThread[]
+      const { removed, orphaned } = await worktrees.pruneStale(workspacePath, threads.map(t => t.id))
+      if (removed.length > 0) console.log('[Worktrees] Cleaned up stale worktrees:', removed)
+      const reviewable = orphaned.filter(w => w.exists)
+      if (reviewable.length > 0) {
+        toast(`${reviewable.length} agent worktree(s) have changes but no chat thread`, {
+          action: { label: 'Review', onClick: () => setWorktreeReview({ worktree: reviewable[0], message: `Agent changes from ${reviewable[0].branch}` }) },
+        })
+      }
+      setAgentWorktrees((await worktrees.list(workspacePath)).filter(w => w.exists))
+    } catch (err) {
+      console.warn('[Worktrees] Failed to load worktrees:', err)
+    }
+  }, [workspacePath])
+
+  useEffect(() => {
+    refreshWorktrees()
+  }, [refreshWorktrees])
+
+  useEffect(() => {
+    window.electronAPI?.store?.get(WORKTREE_ISOLATION_KEY)
+      .then((value: unknown) => setIsolateInWorktree(!!value))
+      .catch(() => {})
+  }, [])
+
+  const toggleWorktreeIsolation = () => {
+    setIsolateInWorktree(prev => {
+      window.electronAPI?.store?.set(WORKTREE_ISOLATION_KEY, !prev)
+      return !prev
+    })
+  }
+
+  /**
+   * The worktree a thread's agent works in: the one it already has, or a new
+   * one when isolation is on. Null runs in the workspace.
+   */
+  const activeWorktree = agentWorktrees.find(w => w.threadId === activeThreadId) ?? null
+
+  const prepareAgentWorktree = async (threadId: string): Promise<AgentWorktree | null> => {
+    const existing = agentWorktrees.find(w => w.threadId === threadId)
+    if (existing) return existing
+    if (!isolateInWorktree || !workspacePath || !window.electronAPI?.worktrees) return null
+    try {
+      const worktree = await window.electronAPI.worktrees.create(workspacePath, threadId)
+      setAgentWorktrees(prev => [...prev.filter(w => w.threadId !== threadId), worktree])
+      addTerminalLine('info', `🌿 Agent works in ${worktree.workspacePath} on branch ${worktree.branch}`)
+      return worktree
+    } catch (err) {
+      toast.warning(`${(err as Error).message} — running in the workspace instead`)
+      return null
+    }
+  }
+
+  const selectCommandContainer = useCallback(async (targetId: string | null) => {
+    if (!workspacePath) return
+    const target = commandContainers.targets.find(t => t.id === targetId) ?? null
+    containerTargets.setActive(workspacePath, target)
+    setCommandContainers(prev => ({ ...prev, selectedId: target?.id ?? null }))
+    await window.electronAPI?.containers?.select(workspacePath, target?.id ?? null)
+    if (target && !target.containerId) toast.warning(`${target.label} is not running — start it, then refresh the container list`)
+  }, [workspacePath, commandContainers.targets])
+
+  // Problems belong to the workspace whose build produced them
+  useEffect(() => {
+    const unsubscribe = diagnosticsStore.onChange(() => {
+      setProblemCount(diagnosticsStore.getDiagnostics({ severity: 'warning' }).length)
+    })
+    diagnosticsStore.clear()
+    return unsubscribe
+  }, [workspacePath])
+
+  // Approval history and learned rules are per workspace (data.json in workspace storage)
+  useEffect(() => {
+    const autoMode = getAutoModeManager()
+    autoMode.loadApprovalHistory(null)
+    const workspaceApi = window.electronAPI?.workspace
+    if (!workspacePath || !workspaceApi) return
+
+    let cancelled = false
+    workspaceApi.getData(workspacePath, 'approvalHistory')
+      .then(stored => { if (!cancelled) autoMode.loadApprovalHistory(stored) })
+      .catch(err => console.warn('[AutoMode] Failed to load approval history:', err))
+    const unsubscribe = autoMode.onApprovalHistoryChange(history => {
+      workspaceApi.setData(workspacePath, 'approvalHistory', history)
+        .catch(err => console.warn('[AutoMode] Failed to save approval history:', err))
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [workspacePath])
+
+  // Start the MCP servers for this workspace (global ones run without a workspace too).
+  // The workspace's own mcp.json comes from the repo, so its servers wait until the user trusts it.
+  useEffect(() => {
+    const mcp = window.electronAPI?.mcp
+    if (!mcp) return
+    let cancelled = false
+    const configure = async () => {
+      let servers = await mcp.configure(workspacePath)
+      const request = workspacePath ? await mcp.getTrustRequest(workspacePath) : null
+      if (request && workspacePath && !cancelled) {
+        const list = request.servers.map(server => `• ${server.name}: ${server.command}`).join('\n')
+        const trusted = window.confirm(`This workspace's .aibuddy/mcp.json wants to start these MCP servers on your computer:\n\n${list}\n\nOnly allow this if you trust the repository. Start them?`)
+        servers = await mcp.setWorkspaceTrust(workspacePath, request.hash, trusted)
+      }
+      for (const server of servers.filter(s => s.state === 'error')) {
+        console.warn(`[MCP] Server "${server.name}" failed: ${server.error}`)
+      }
+      const tools = await mcp.listTools()
+      if (!cancelled) mcpToolsRef.current = tools
+    }
+    configure().catch(err => console.warn('[MCP] Failed to configure servers:', err))
+    return () => { cancelled = true }
+  }, [workspacePath])
+
+  // Asks the user about an MCP tool call through the ToolPermissionDialog
+  const askMcpPermission = useCallback((request: { server: string; tool: string; description: string }) =>
+    new Promise<PermissionDecision>(resolve => setMcpPermission({ ...request, resolve })), [])
+
   // Load on mount - FAST startup, no blocking network calls
   useEffect(() => {
     const init = async () => {
@@ -889,6 +1230,14 @@ function App() {
         } catch {}
       }
       
+      // Inference provider — AIBuddy Cloud unless a local backend was chosen in Settings
+      if (electronAPI?.store?.get) {
+        try {
+          const savedProvider = await electronAPI.store.get(PROVIDER_SETTINGS_KEY)
+          if (savedProvider) setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, ...(savedProvider as ProviderSettings) })
+        } catch {}
+      }
+
       // Get API key from local store
       let hasKey = false
       if (electronAPI?.store?.get) {
@@ -950,6 +1299,8 @@ function App() {
                   tokensOut: msg.tokensOut,
                   responseTime: msg.responseTime,
                   timestamp: msg.timestamp ? new Date(msg.timestamp).toISOString() : undefined,
+                  kind: msg.kind,
+                  summarizedMessageIds: msg.summarizedMessageIds,
                   images: msg.images?.map((img: any) => ({
                     id: img.id,
                     base64: img.base64,
@@ -980,6 +1331,8 @@ function App() {
                     tokensOut: msg.tokensOut,
                     responseTime: msg.responseTime,
                     timestamp: msg.timestamp ? new Date(msg.timestamp).toISOString() : undefined,
+                    kind: msg.kind,
+                    summarizedMessageIds: msg.summarizedMessageIds,
                   }))
                   setMessages(loadedMessages)
                   setActiveThreadId(fullThread.id)
@@ -1459,6 +1812,13 @@ function App() {
     return 'Unknown project type - will analyze files to determine'
   }
 
+  const handleSaveProviderSettings = (next: ProviderSettings) => {
+    trackSettingsChange('inference_provider')
+    addBreadcrumb('User changed inference provider', 'settings', { provider: next.provider, model: next.model })
+    setProviderSettings(next)
+    try { window.electronAPI?.store?.set(PROVIDER_SETTINGS_KEY, next) } catch (e) { /* non-critical */ }
+  }
+
   const handleSaveApiKey = async () => {
     if (!apiKeyInput.trim()) return
     trackButtonClick('Save API Key', 'App')
@@ -1498,9 +1858,94 @@ function App() {
   const clearTerminal = () => {
     setTerminalOutput([])
     setTaskProgress(null)
+    setTestResults(null)
     setTerminalCollapsed(true)
   }
 
+  // KAN-54: Per-part token counts for the next request, shown next to the input before sending.
+  // History is counted separately from the draft so typing doesn't re-tokenize the whole thread.
+  // The meter only recounts once typing or streaming pauses, and leaves out the reply still
+  // being streamed — it isn't part of the next request until it lands.
+  const activeContext = useMemo(() => getActiveContext(messages), [messages])
+  const meterMessages = useDebouncedValue(messages, TOKEN_METER_DEBOUNCE_MS)
+  const meterInput = useDebouncedValue(input, TOKEN_METER_DEBOUNCE_MS)
+  const meterContext = useMemo(
+    () => getActiveContext(isLoading ? meterMessages.filter(m => !m.id.startsWith(STREAM_MESSAGE_PREFIX)) : meterMessages),
+    [meterMessages, isLoading]
+  )
+  const contextTokens = useMemo(() => countContextTokens({
+    systemPrompt: generateSystemPrompt({
+      workspacePath: workspacePath || undefined,
+      projectType: workspacePath ? detectProjectType(workspacePath) : undefined,
+      environmentSummary: environmentSummary || undefined,
+      platformContext: DESKTOP_PLATFORM_CONTEXT,
+      uiLanguage: i18n.language,
+    }),
+    skills: skills
+      .filter(s => s.enabled && (s.execution_mode || 'always') === 'always')
+      .map(s => `${s.description || s.name}\n${s.prompt_template}`),
+    knowledgeBase: knowledgeContext,
+    history: [
+      ...(meterContext.summary ? [formatSummaryForContext(meterContext.summary.content)] : []),
+      ...meterContext.messages.map(m => m.images?.length
+        ? [{ type: 'text', text: m.content }, ...m.images.map(() => ({ type: 'image' }))]
+        : m.content),
+    ],
+  }), [workspacePath, environmentSummary, i18n.language, skills, knowledgeContext, meterContext])
+
+  const tokenBreakdown = useMemo<TokenBreakdown>(() => {
+    const draft = countContextTokens({
+      history: meterInput.trim() ? [meterInput] : [],
+      attachments: attachedFiles.map(f => f.content),
+      imageCount: attachedImages.length,
+    })
+    return {
+      ...contextTokens,
+      history: contextTokens.history + draft.history,
+      attachments: draft.attachments,
+      total: contextTokens.total + draft.total,
+    }
+  }, [contextTokens, meterInput, attachedFiles, attachedImages.length])
+
+  // Plan mode step execution — output goes to the terminal panel like auto-executed commands
+  const { plans, addPlan, updateSteps, runPlan, retryStep, skipStep, discardPlan } = usePlanExecution({
+    workspacePath,
+    onStepStart: (step) => {
+      setShowTerminal(true)
+      addTerminalLine(step.command ? 'command' : 'info', step.command ? `$ ${step.command}` : `📋 ${step.description}`)
+    },
+    onStepFinish: (step) => {
+      if (step.output) addTerminalLine('stdout', step.output)
+      if (step.status === 'completed') addTerminalLine('success', `✓ ${step.description}`)
+      else if (step.status === 'failed') addTerminalLine('error', `✗ ${step.description}${step.error ? ` (${step.error})` : ''}`)
+      else if (step.status === 'skipped') addTerminalLine('info', `– ${step.description}${step.error ? ` (${step.error})` : ''}`)
+    },
+    // Same check as chat commands: policy deny rules win, 'confirm' asks first
+    approveCommand: async (command) => {
+      const policy = await loadExecutionPolicy()
+      const autoMode = getAutoModeManager()
+      const decision = decideCommand(policy, autoMode, command, workspacePath ?? undefined)
+      if (decision.verdict === 'allow') return null
+      if (decision.verdict === 'deny') return decision.reason
+      const approved = window.confirm(`Run this command?\n\n${command}\n\n${decision.reason}`)
+      autoMode.recordDecision(command, approved)
+      return approved ? null : `Not approved: ${decision.reason}`
+    },
+    // Isolated threads run their plans in the worktree, like their chat commands
+    getWorktreePath: () => agentWorktreeRef.current?.workspacePath ?? null,
+    // Step writes join the latest turn's checkpoint, so rolling it back covers Plan mode too
+    checkpoint: async (filePath) => {
+      const target = checkpointTargetRef.current
+      if (!workspacePath || !target) return
+      try {
+        await window.electronAPI.checkpoints.snapshot(workspacePath, target.threadId, target.messageIndex, filePath, 'command')
+        refreshCheckpointTurns(target.threadId)
+      } catch (err) {
+        console.warn('[Checkpoint] Snapshot failed:', err)
+      }
+    },
+  })
+
   // Drag-to-resize terminal (Cursor-style)
   const handleTerminalDragStart = useCallback((e: React.MouseEvent) => {
     e.preventDefault()
@@ -2238,6 +2683,15 @@ function App() {
       hasImages,
       retryCount
     })
+
+    // Local providers answer directly; there's no routing, cost or credit balance
+    if (isLocalProvider(providerSettings)) {
+      const reply = await chatWithProvider(providerSettings, toProviderRequest({
+        messages: [{ role: 'system', content: systemPrompt }, ...messages],
+        max_tokens: 4096,
+      }))
+      return { response: reply.text, model: reply.model, cost: 0, credits: 0 }
+    }
     
     const response = await fetch(AIBUDDY_API_INFERENCE_URL, {
       method: 'POST',
@@ -2289,6 +2743,46 @@ function App() {
     }
   }
   
+  // Summarizing compaction — fold the oldest turns of the active context into a
+  // model-written summary stored in the thread, instead of dropping them.
+  const compactConversation = async (
+    threadMessages: Message[],
+    toFold: Message[],
+    threadId: string | null
+  ): Promise<Message> => {
+    const { summary: previous } = getActiveContext(threadMessages)
+    const { response } = await callAIWithRouting(
+      [{ role: 'user', content: buildCompactionPrompt(toFold, previous?.content) }],
+      COMPACTION_SYSTEM_PROMPT,
+      'analysis'
+    )
+    const content = response.trim()
+    if (!content) throw new Error('The model returned an empty summary')
+
+    // The new summary also covers whatever the previous one did
+    const summarizedMessageIds = [...(previous?.summarizedMessageIds ?? []), ...toFold.map(m => m.id)]
+    let summary: Message = {
+      id: `summary-${Date.now()}`,
+      role: 'assistant',
+      kind: 'summary',
+      content,
+      summarizedMessageIds,
+      timestamp: new Date().toISOString(),
+    }
+    if (threadId && window.electronAPI?.history?.addSummary) {
+      try {
+        const saved = await window.electronAPI.history.addSummary(threadId, content, summarizedMessageIds) as { id: string } | null
+        if (saved?.id) summary = { ...summary, id: saved.id }
+      } catch (err) {
+        console.error('[App] Failed to save conversation summary:', err)
+      }
+    }
+
+    setMessages(prev => insertSummary(prev, summary))
+    addBreadcrumb('Conversation compacted', 'chat.action', { foldedMessages: toFold.length })
+    return summary
+  }
+
   // Execute commands with error recovery loop and task progress tracking
   const executeCommandsWithRecovery = async (
     commands: string[],
@@ -2302,24 +2796,15 @@ function App() {
     if (!electronAPI?.terminal?.execute || !workspacePath) {
       return { results: [], needsMoreHelp: false, errorSummary: 'Terminal not available' }
     }
+    // Isolated threads run in their worktree, on the host: containers only mount the workspace
+    const agentWorktree = agentWorktreeRef.current
+    const cwd = agentWorktree?.workspacePath ?? workspacePath
     
     setShowTerminal(true)
     setIsExecutingCommands(true)
 
-    const describeCommand = (cmd: string): string => {
-      const c = cmd.trim().split(/\s+/)
-      const base = (c[0] || '').replace(/^.*\//, '')
-      if (['git', 'composer', 'npm', 'yarn', 'pnpm'].includes(base)) return `${base} ${c[1] || ''}`
-      if (base === 'phpunit' || cmd.includes('phpunit')) return 'Running tests'
-      if (base === 'pint' || cmd.includes('pint')) return 'Code style check'
-      if (base === 'php-cs-fixer' || cmd.includes('php-cs-fixer')) return 'Code style check'
-      if (base === 'python3' || base === 'python') return 'Running Python script'
-      if (base === 'cat' && cmd.includes('<<')) return 'Creating file'
-      if (base === 'cd') return `Changing directory`
-      if (base === 'mkdir') return 'Creating directory'
-      if (['ls', 'pwd', 'echo'].includes(base)) return base
-      return (cmd || '').substring(0, 40)
-    }
+    const policy = await loadExecutionPolicy()
+    if (policy.error) addTerminalLine('error', `⚠️ ${policy.error} — every command needs your approval`)
 
     const steps = commands.map(describeCommand)
     setTaskProgress({
@@ -2341,16 +2826,80 @@ function App() {
         completedCommands: idx,
         currentStep: steps[idx] || '',
       } : prev)
+
+      // Policy deny rules always win; 'confirm' (policy rule or auto-mode) asks first
+      const autoMode = getAutoModeManager()
+      const decision = decideCommand(policy, autoMode, command, workspacePath)
+      let approved = decision.verdict === 'allow'
+      if (decision.verdict === 'confirm') {
+        approved = window.confirm(`Run this command?\n\n${command}\n\n${decision.reason}`)
+        autoMode.recordDecision(command, approved)
+        // Policy confirmations always ask, so only auto-mode prompts are offered for trust
+        const suggestion = approved && workspacePath && evaluateCommandPolicy(policy, command, workspacePath).verdict === 'auto'
+          ? autoMode.getTrustSuggestion(command)
+          : null
+        if (suggestion) {
+          if (window.confirm(`You keep approving "${suggestion}". Run commands starting with "${suggestion}" without asking in this workspace?\n\nYou can revoke this in Settings.`)) {
+            autoMode.addLearnedRule(suggestion)
+          } else {
+            autoMode.dismissTrustSuggestion(suggestion)
+          }
+        }
+      }
+      // Snapshot what a reset --hard, clean, rebase or force push could throw away — no snapshot, no command
+      const destructive = approved && !agentWorktree ? findDestructiveGitCommand(command) : null
+      const snapshotError: string | null = destructive
+        ? await electronAPI.snapshots.create(cwd, destructive).then(() => null, (err: Error) => err.message)
+        : null
+      if (destructive && !snapshotError) addTerminalLine('info', `📸 Saved a snapshot before ${destructive} — restore it from Recover in Source Control`)
+      if (!approved || snapshotError) {
+        const reason = snapshotError ?? (decision.verdict === 'deny' ? decision.reason : `Not approved: ${decision.reason}`)
+        results.push({ command, stdout: '', stderr: reason, exitCode: -1, executed: false })
+        addTerminalLine('error', `⛔ Skipped ${describeCommand(command)} — ${reason}`)
+        setTaskProgress(prev => prev ? { ...prev, failedCommands: prev.failedCommands + 1, completedCommands: idx + 1 } : prev)
+        continue
+      }
       
       try {
-        const result = await electronAPI.terminal.execute(command, workspacePath)
-        
+        // Checkpoint every file the command writes, moves or deletes (redirects, heredocs, sed -i, mv, rm, cp …)
+        const checkpointTarget = checkpointTargetRef.current
+        // A worktree is its own safety net — checkpoints only cover the workspace
+        if (workspacePath && checkpointTarget && !agentWorktree) {
+          for (const targetFilePath of checkpointPathsForCommand(command)) {
+            const fullPath = targetFilePath.startsWith('/')
+              ? targetFilePath
+              : `${workspacePath.replace(/\/$/, '')}/${targetFilePath}`
+            try {
+              await electronAPI.checkpoints.snapshot(workspacePath, checkpointTarget.threadId, checkpointTarget.messageIndex, fullPath, 'command')
+            } catch (err) {
+              console.warn('[Checkpoint] Snapshot failed:', err)
+            }
+          }
+        }
+
+        // Runs in the workspace's dev container when one is selected
+        const container = agentWorktree ? null : containerTargets.getActive(workspacePath)
+        const result = await electronAPI.terminal.execute(container ? containerTargets.route(command, { workspacePath }) : command, cwd)
+        // Files the command wrote (heredocs, redirects, sed -i …) scope the agent's test and build commands
+        getSmartAgent().recordEdits(checkpointPathsForCommand(command))
+
+        // Test runs are parsed for the Test results panel and the fix prompt
+        const runner = detectTestRunner(command)
+        const testRun = runner || result.exitCode !== 0
+          ? parseTestOutput(`${result.stdout}\n${result.stderr}`, runner ?? getSmartAgent().getTestRunner())
+          : null
+        if (testRun) setTestResults({ command, summary: testRun })
+        const containerRoot = container?.workspaceFolder ?? cwd
+        const diagnostics = diagnosticsStore.record(command, `${result.stdout}\n${result.stderr}`, { cwd: containerRoot, workspacePath: containerRoot })
+        const buildErrors = diagnostics.filter(d => d.severity === 'error')
+
         results.push({
           command,
           stdout: result.stdout,
           stderr: result.stderr,
           exitCode: result.exitCode,
-          executed: true
+          executed: true,
+          testRun: testRun ?? undefined
         })
         
         if (result.stdout) addTerminalLine('stdout', result.stdout)
@@ -2366,8 +2915,8 @@ function App() {
             try {
               const fullPath = createdFilePath.startsWith('/')
                 ? createdFilePath
-                : `${workspacePath.replace(/\/$/, '')}/${createdFilePath}`
-              const stat = await electronAPI.terminal.execute(`test -f "${fullPath}" && echo EXISTS`, workspacePath)
+                : `${cwd.replace(/\/$/, '')}/${createdFilePath}`
+              const stat = await electronAPI.terminal.execute(`test -f "${fullPath}" && echo EXISTS`, cwd)
               if (stat.stdout.includes('EXISTS')) {
                 toast.success(`📄 File created: ${createdFilePath}`)
                 addTerminalLine('success', `📄 Verified: ${createdFilePath} exists`)
@@ -2381,7 +2930,14 @@ function App() {
           }
         } else {
           hasErrors = true
-          errorSummary += `Command "${command}" failed with exit code ${result.exitCode}:\n${result.stderr || result.stdout}\n\n`
+          if (testRun && testRun.failures.length > 0) {
+            errorSummary += `Command "${command}" failed with exit code ${result.exitCode}.\n${formatTestFailures(testRun)}\n\n`
+          } else if (buildErrors.length > 0) {
+            errorSummary += `Command "${command}" failed with exit code ${result.exitCode}.\n${formatDiagnostics(buildErrors)}\n\n`
+            setShowProblems(true)
+          } else {
+            errorSummary += `Command "${command}" failed with exit code ${result.exitCode}:\n${result.stderr || result.stdout}\n\n`
+          }
           addTerminalLine('error', `✗ ${describeCommand(command)} failed (exit ${result.exitCode})`)
           setTaskProgress(prev => prev ? { ...prev, failedCommands: prev.failedCommands + 1, completedCommands: idx + 1 } : prev)
         }
@@ -2418,7 +2974,7 @@ ${errorSummary}
 ENVIRONMENT INFO:
 ${environmentSummary || 'Not available'}
 
-WORKSPACE: ${workspacePath}
+WORKSPACE: ${agentWorktreeRef.current?.workspacePath ?? workspacePath}
 
 Analyze these errors and provide a DIFFERENT approach (do NOT retry the same failing commands):
 1. A brief explanation of what went wrong
@@ -2466,7 +3022,8 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       fileCount: attachedFiles.length // KAN-6 FIX
     })
 
-    if (!apiKey) {
+    const localProvider = isLocalProvider(providerSettings)
+    if (!apiKey && !localProvider) {
       setShowSettings(true)
       toast.error('🔑 Please add your AIBuddy API key first! Get one at aibuddy.life')
       addBreadcrumb('API key missing - showing settings', 'user.action', { trigger: 'send_message' }, 'warning')
@@ -2505,6 +3062,8 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       imageCount: currentImages.length
     })
 
+    // Checkpoint turns are numbered without compaction summaries
+    const userMessageIndex = messages.filter(m => m.kind !== 'summary').length
     setMessages(prev => [...prev, userMessage])
     setInput('')
     setAttachedImages([]) // Clear attached images after sending
@@ -2569,11 +3128,14 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         console.error('[App] Failed to create thread:', err)
       }
     }
+    checkpointTargetRef.current = threadId ? { threadId, messageIndex: userMessageIndex } : null
+    agentWorktreeRef.current = threadId ? await prepareAgentWorktree(threadId) : null
 
     // Save user message to history
     if (threadId) {
       try {
         await window.electronAPI.history.addMessage(threadId, {
+          id: userMessage.id,
           role: 'user',
           content: userMessage.content,
           images: currentImages.length > 0 ? currentImages : undefined
@@ -2586,8 +3148,14 @@ Be concise and actionable. Use an alternative approach, not the same commands th
     try {
       console.log('[App] Sending API request...', hasImages ? `with ${currentImages.length} image(s)` : '')
       
+      // Only the latest compaction summary and the turns after it are sent
+      const { summary: contextSummary, messages: contextMessages } = getActiveContext(messages)
+      const summarySection = contextSummary ? `\n\n${formatSummaryForContext(contextSummary.content)}` : ''
+      const mcpToolsPrompt = buildMcpToolsPrompt(mcpToolsRef.current)
+      const mcpToolsSection = mcpToolsPrompt ? `\n\n${mcpToolsPrompt}` : ''
+
       // Build messages array - handle images for vision-capable models
-      const chatMessages: any[] = messages.map(m => {
+      const chatMessages: any[] = contextMessages.map(m => {
         if (m.images && m.images.length > 0) {
           // Message with images - use content array format
           return {
@@ -2681,7 +3249,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
           { 
             role: 'system', 
             content: generateSystemPrompt({
-              workspacePath: workspacePath || undefined,
+              workspacePath: agentWorktreeRef.current?.workspacePath ?? (workspacePath || undefined),
               projectType: workspacePath ? detectProjectType(workspacePath) : undefined,
               knowledgeContext: knowledgeContext || undefined,
               environmentSummary: environmentSummary || undefined,
@@ -2752,7 +3320,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                   allowed_tools: s.allowed_tools,
                 }))
               })() : undefined,
-            })
+            }) + (planMode ? `\n\n${PLAN_MODE_INSTRUCTIONS}` : '') + mcpToolsSection + summarySection
           },
           ...chatMessages
         ],
@@ -2761,19 +3329,37 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       }
 
       // KAN-54: Token-based truncation — keep total input tokens under MAX_CONTEXT_TOKENS
-      const systemTokens = estimateTokenCount(typeof requestBody.messages[0]?.content === 'string' ? requestBody.messages[0].content : '')
-      let totalTokens = systemTokens
-      const conversationMsgs = requestBody.messages.slice(1)
-      for (const msg of conversationMsgs) {
-        const text = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-        totalTokens += estimateTokenCount(text)
+      let systemTokens = countTokens(typeof requestBody.messages[0]?.content === 'string' ? requestBody.messages[0].content : '')
+      let conversationMsgs = requestBody.messages.slice(1)
+      let totalTokens = systemTokens + conversationMsgs.reduce((sum: number, msg: any) => sum + countMessageTokens(msg.content), 0)
+
+      // Fold the oldest turns into a summary first — dropping messages is the fallback
+      if (totalTokens > MAX_CONTEXT_TOKENS) {
+        const currentTokens = countMessageTokens(conversationMsgs[conversationMsgs.length - 1]?.content)
+        const toFold = selectMessagesToCompact(contextMessages, MAX_CONTEXT_TOKENS - systemTokens - currentTokens - SUMMARY_TOKEN_RESERVE)
+        if (toFold.length > 0) {
+          try {
+            const summary = await compactConversation(messages, toFold, threadId)
+            const systemContent = requestBody.messages[0].content as string
+            const baseSystemPrompt = systemContent.slice(0, systemContent.length - summarySection.length)
+            const systemMsg = { role: 'system', content: `${baseSystemPrompt}\n\n${formatSummaryForContext(summary.content)}` }
+            conversationMsgs = conversationMsgs.slice(toFold.length)
+            requestBody.messages = [systemMsg, ...conversationMsgs]
+            systemTokens = countTokens(systemMsg.content)
+            totalTokens = systemTokens + conversationMsgs.reduce((sum: number, msg: any) => sum + countMessageTokens(msg.content), 0)
+            console.log(`[KAN-54] Summarized ${toFold.length} older messages (~${totalTokens} tokens now)`)
+            toast.info(`Summarized ${toFold.length} older messages to fit the context`)
+          } catch (err) {
+            console.warn('[KAN-54] Compaction failed, trimming history instead:', err)
+          }
+        }
       }
+
       if (totalTokens > MAX_CONTEXT_TOKENS && conversationMsgs.length > 2) {
-        console.log(`[KAN-54] Estimated ${totalTokens} tokens exceeds MAX_CONTEXT_TOKENS (${MAX_CONTEXT_TOKENS}). Trimming history...`)
+        console.log(`[KAN-54] ${totalTokens} tokens exceeds MAX_CONTEXT_TOKENS (${MAX_CONTEXT_TOKENS}). Trimming history...`)
         while (totalTokens > MAX_CONTEXT_TOKENS && conversationMsgs.length > 2) {
           const removed = conversationMsgs.shift()
-          const removedText = typeof removed?.content === 'string' ? removed.content : JSON.stringify(removed?.content)
-          totalTokens -= estimateTokenCount(removedText)
+          totalTokens -= countMessageTokens(removed?.content)
         }
         requestBody.messages = [requestBody.messages[0], ...conversationMsgs]
         console.log(`[KAN-54] Trimmed to ${conversationMsgs.length} messages (~${totalTokens} tokens)`)
@@ -2854,97 +3440,130 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         }
 
         // KAN-33 v2: Attempt streaming first for real-time token display
-        const streamMsgId = `stream-${Date.now()}`
+        const streamMsgId = `${STREAM_MESSAGE_PREFIX}${Date.now()}`
 
-        try {
-          const streamResponse = await fetch(AIBUDDY_API_STREAM_URL, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-AIBuddy-API-Key': apiKey || '',
-              'X-Requested-With': 'AIBuddy-Desktop',
-              'User-Agent': `AIBuddy-Desktop/${appVersion || 'unknown'}`,
-            },
-            body: serializedBody,
-            signal: controller.signal
-          })
+        // Local providers stream through the main process. Errors surface as-is —
+        // never fall back to AIBuddy Cloud, which would send the prompt off-machine.
+        if (localProvider) {
+          setMessages(prev => [...prev, { id: streamMsgId, role: 'assistant' as const, content: '' }])
+          setStatus('generating')
+          try {
+            const reply = await streamFromProvider(providerSettings, toProviderRequest(requestBody), controller.signal, (accumulated) => {
+              // KAN-301: each delta re-arms the inactivity timeout
+              clearTimeout(activeTimeoutId)
+              activeTimeoutId = setTimeout(() => {
+                console.log(`[App] Stream inactivity timeout after ${STREAM_INACTIVITY_TIMEOUT_MS/1000}s, aborting`)
+                controller.abort()
+              }, STREAM_INACTIVITY_TIMEOUT_MS)
+              setMessages(prev => prev.map(m =>
+                m.id === streamMsgId ? { ...m, content: accumulated } : m
+              ))
+            })
+            streamingSucceeded = true
+            streamData = {
+              success: true,
+              response: reply.text,
+              model: reply.model,
+              usage: reply.usage,
+              api_cost: 0,
+              provider: providerSettings.provider,
+            }
+          } catch (providerError) {
+            setMessages(prev => prev.filter(m => m.id !== streamMsgId))
+            throw providerError
+          }
+          setMessages(prev => prev.filter(m => m.id !== streamMsgId))
+        } else {
+          try {
+            const streamResponse = await fetch(AIBUDDY_API_STREAM_URL, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'X-AIBuddy-API-Key': apiKey || '',
+                'X-Requested-With': 'AIBuddy-Desktop',
+                'User-Agent': `AIBuddy-Desktop/${appVersion || 'unknown'}`,
+              },
+              body: serializedBody,
+              signal: controller.signal
+            })
 
-          if (streamResponse.ok && streamResponse.body) {
-            const reader = streamResponse.body.getReader()
-            const decoder = new TextDecoder()
-            let accumulatedText = ''
-            let streamMetadata: any = {}
-
-            setMessages(prev => [...prev, {
-              id: streamMsgId, role: 'assistant' as const, content: ''
-            }])
-            setStatus('generating')
-
-            let buffer = ''
-            let firstTokenReceived = false
-            while (true) {
-              const { done, value } = await reader.read()
-              if (done) break
-
-              // KAN-301: Once first data arrives, replace the short first-token
-              // timeout with the longer inactivity timeout.
-              if (!firstTokenReceived) {
-                firstTokenReceived = true
-                clearTimeout(activeTimeoutId)
-                activeTimeoutId = setTimeout(() => {
-                  console.log(`[App] Stream inactivity timeout after ${STREAM_INACTIVITY_TIMEOUT_MS/1000}s, aborting`)
-                  controller.abort()
-                }, STREAM_INACTIVITY_TIMEOUT_MS)
-              }
+            if (streamResponse.ok && streamResponse.body) {
+              const reader = streamResponse.body.getReader()
+              const decoder = new TextDecoder()
+              let accumulatedText = ''
+              let streamMetadata: any = {}
+
+              setMessages(prev => [...prev, {
+                id: streamMsgId, role: 'assistant' as const, content: ''
+              }])
+              setStatus('generating')
+
+              let buffer = ''
+              let firstTokenReceived = false
+              while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+
+                // KAN-301: Once first data arrives, replace the short first-token
+                // timeout with the longer inactivity timeout.
+                if (!firstTokenReceived) {
+                  firstTokenReceived = true
+                  clearTimeout(activeTimeoutId)
+                  activeTimeoutId = setTimeout(() => {
+                    console.log(`[App] Stream inactivity timeout after ${STREAM_INACTIVITY_TIMEOUT_MS/1000}s, aborting`)
+                    controller.abort()
+                  }, STREAM_INACTIVITY_TIMEOUT_MS)
+                }
 
-              buffer += decoder.decode(value, { stream: true })
-              const lines = buffer.split('\n')
-              buffer = lines.pop() || ''
-
-              for (const line of lines) {
-                if (!line.startsWith('data: ')) continue
-                const payload = line.slice(6).trim()
-                if (payload === '[DONE]') continue
-                try {
-                  const event = JSON.parse(payload)
-                  if (event.type === 'delta' && event.text) {
-                    accumulatedText += event.text
-                    setMessages(prev => prev.map(m =>
-                      m.id === streamMsgId ? { ...m, content: accumulatedText } : m
-                    ))
-                  } else if (event.type === 'stream_end') {
-                    streamMetadata = event
-                  } else if (event.type === 'error') {
-                    throw new Error(event.message || 'Stream error')
+                buffer += decoder.decode(value, { stream: true })
+                const lines = buffer.split('\n')
+                buffer = lines.pop() || ''
+
+                for (const line of lines) {
+                  if (!line.startsWith('data: ')) continue
+                  const payload = line.slice(6).trim()
+                  if (payload === '[DONE]') continue
+                  try {
+                    const event = JSON.parse(payload)
+                    if (event.type === 'delta' && event.text) {
+                      accumulatedText += event.text
+                      setMessages(prev => prev.map(m =>
+                        m.id === streamMsgId ? { ...m, content: accumulatedText } : m
+                      ))
+                    } else if (event.type === 'stream_end') {
+                      streamMetadata = event
+                    } else if (event.type === 'error') {
+                      throw new Error(event.message || 'Stream error')
+                    }
+                  } catch (parseErr) {
+                    if ((parseErr as Error).message?.includes('Stream error')) throw parseErr
                   }
-                } catch (parseErr) {
-                  if ((parseErr as Error).message?.includes('Stream error')) throw parseErr
                 }
               }
-            }
 
-            if (accumulatedText.length > 0) {
-              streamingSucceeded = true
-              streamData = {
-                success: true,
-                response: accumulatedText,
-                model: streamMetadata.model,
-                usage: streamMetadata.usage,
-                remaining_credits: streamMetadata.remaining_credits,
-                api_cost: streamMetadata.cost,
-                provider: streamMetadata.provider,
-                request_id: streamMetadata.request_id,
+              if (accumulatedText.length > 0) {
+                streamingSucceeded = true
+                streamData = {
+                  success: true,
+                  response: accumulatedText,
+                  model: streamMetadata.model,
+                  usage: streamMetadata.usage,
+                  remaining_credits: streamMetadata.remaining_credits,
+                  api_cost: streamMetadata.cost,
+                  provider: streamMetadata.provider,
+                  request_id: streamMetadata.request_id,
+                }
+                setMessages(prev => prev.filter(m => m.id !== streamMsgId))
+                console.log(`[App] Streaming succeeded: ${accumulatedText.length} chars, model: ${streamMetadata.model}`)
               }
-              setMessages(prev => prev.filter(m => m.id !== streamMsgId))
-              console.log(`[App] Streaming succeeded: ${accumulatedText.length} chars, model: ${streamMetadata.model}`)
             }
+          } catch (streamError: any) {
+            console.log('[App] Streaming fallback:', streamError.message)
+            setMessages(prev => prev.filter(m => m.id !== streamMsgId))
+            addBreadcrumb('Streaming failed, using non-streaming fallback', 'api.fallback', {
+              error: streamError.message
+            })
           }
-        } catch (streamError: any) {
-          console.log('[App] Streaming fallback:', streamError.message)
-          setMessages(prev => prev.filter(m => m.id !== streamMsgId))
-          addBreadcrumb('Streaming failed, using non-streaming fallback', 'api.fallback', {
-            error: streamError.message
-          })
         }
 
         if (!streamingSucceeded) {
@@ -3186,13 +3805,19 @@ Be concise and actionable. Use an alternative approach, not the same commands th
           .join('\n')
       }
 
+      // Plan mode: pull the structured plan out of the reply for the checklist
+      const planResult = planMode ? getSmartAgent().parsePlanResponse(responseText) : null
+      if (planResult?.plan) {
+        responseText = planResult.text
+      }
+
       // Check if user asked to run/execute something and auto-execute commands
       // Now with ERROR RECOVERY LOOP - will retry with AI analysis if commands fail
       let executionResults: CommandResult[] = []
       let totalExecutionOutput = ''
       const electronAPI = (window as any).electronAPI
       
-      if (userWantsExecution && workspacePath && electronAPI?.terminal?.execute) {
+      if (!planMode && userWantsExecution && workspacePath && electronAPI?.terminal?.execute) {
         const codeBlocks = parseCodeBlocks(responseText)
         
         if (codeBlocks.length > 0) {
@@ -3281,6 +3906,22 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         }
       }
 
+      // MCP tool calls the model asked for in ```mcp blocks — each one goes through the permission check
+      let mcpOutput = ''
+      if (!planMode && electronAPI?.mcp) {
+        for (const call of parseMcpToolCalls(responseText)) {
+          if ('error' in call) {
+            mcpOutput += `\n**MCP call skipped** ❌ ${call.error}\n`
+            continue
+          }
+          const response = await runMcpToolCall(request => electronAPI.mcp.requestToolCall(request), call, askMcpPermission)
+          const text = formatMcpToolResponse(call.qualifiedName, response)
+          const ok = response.status === 'executed' && response.result.success
+          mcpOutput += `\n**🔌 \`${call.qualifiedName}\`** ${ok ? '✅' : '❌'}\n\`\`\`\n${text.length > 4000 ? `${text.slice(0, 4000)}\n… (truncated)` : text}\n\`\`\`\n`
+        }
+        if (mcpOutput) mcpOutput = `\n\n---\n${mcpOutput}`
+      }
+
       // Build a concise execution summary for chat (full output stays in terminal panel)
       let executionOutput = ''
       if (executionResults.length > 0) {
@@ -3309,7 +3950,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: (responseText || "I'm here to help! What would you like me to do? 🤖") + executionOutput,
+        content: (responseText || "I'm here to help! What would you like me to do? 🤖") + executionOutput + mcpOutput,
         cost: data.api_cost,
         model: data.model,
         tokensIn: data.usage?.input_tokens,
@@ -3320,6 +3961,9 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       }
 
       setMessages(prev => [...prev, assistantMessage])
+      if (planResult?.plan) {
+        addPlan(assistantMessage.id, planResult.plan)
+      }
       setStatus('done')
 
       incrementInteractionCount()
@@ -3330,6 +3974,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         try {
           // KAN-27 FIX: Include cost and model in message for persistence
           await window.electronAPI.history.addMessage(threadId, {
+            id: assistantMessage.id,
             role: 'assistant',
             content: assistantMessage.content,
             cost: data.api_cost,
@@ -3449,6 +4094,13 @@ Be concise and actionable. Use an alternative approach, not the same commands th
       setIsLoading(false)
       setStatus('idle')
       abortControllerRef.current = null
+      refreshCheckpointTurns(threadId)
+      const worktree = agentWorktreeRef.current
+      if (worktree) {
+        toast(`Agent changes are on ${worktree.branch}`, {
+          action: { label: 'Review', onClick: () => setWorktreeReview({ worktree, message: trimmedInput.split('\n')[0].slice(0, 72) }) },
+        })
+      }
     }
   }
 
@@ -3559,6 +4211,69 @@ Be concise and actionable. Use an alternative approach, not the same commands th
     }, 100)
   }, [isLoading, messages])
 
+  // Manual compaction from the context meter — fold everything but the latest turns
+  const handleCompactConversation = async () => {
+    if (isLoading || isCompacting) return
+    const toFold = selectMessagesToCompact(getActiveContext(messages).messages, 0)
+    if (toFold.length === 0) {
+      toast.info('Nothing to summarize yet')
+      return
+    }
+    setIsCompacting(true)
+    try {
+      await compactConversation(messages, toFold, activeThreadId)
+      toast.success(`Summarized ${toFold.length} older messages`)
+    } catch (err) {
+      toast.error(`Failed to summarize conversation: ${(err as Error).message}`)
+    }
+    setIsCompacting(false)
+  }
+
+  const handleSaveSummary = useCallback(async (messageId: string, content: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, content } : m))
+    if (!activeThreadId) return
+    try {
+      await window.electronAPI.history.updateMessage(activeThreadId, messageId, content)
+    } catch (err) {
+      toast.error(`Failed to save summary: ${(err as Error).message}`)
+    }
+  }, [activeThreadId])
+
+  // Checkpoint restore — roll files back to before a user message
+  const openCheckpointDialog = useCallback(async (messageIndex: number) => {
+    if (!activeThreadId || !workspacePath) return
+    try {
+      const files = await window.electronAPI.checkpoints.getChangedFiles(workspacePath, activeThreadId, messageIndex)
+      setCheckpointDialog({ messageIndex, files })
+    } catch (err) {
+      toast.error(`Failed to load checkpoint: ${(err as Error).message}`)
+    }
+  }, [activeThreadId, workspacePath])
+
+  const reportRestoreResult = (result: RestoreResult) => {
+    const count = result.restored.length + result.deleted.length
+    if (result.failed.length > 0) {
+      toast.error(`Failed to restore ${result.failed.map(f => f.filePath).join(', ')}`)
+    } else if (count > 0) {
+      toast.success(`⏪ Restored ${count} file${count === 1 ? '' : 's'}`)
+    }
+    addBreadcrumb('Checkpoint restored', 'chat.action', { restored: result.restored.length, deleted: result.deleted.length, failed: result.failed.length })
+  }
+
+  const handleRestoreCheckpointFile = async (filePath: string) => {
+    if (!checkpointDialog || !activeThreadId || !workspacePath) return
+    const result = await window.electronAPI.checkpoints.restoreFile(workspacePath, activeThreadId, checkpointDialog.messageIndex, filePath)
+    reportRestoreResult(result)
+    setCheckpointDialog(prev => prev && { ...prev, files: prev.files.filter(f => f !== filePath) })
+  }
+
+  const handleRestoreCheckpointAll = async () => {
+    if (!checkpointDialog || !activeThreadId || !workspacePath) return
+    const result = await window.electronAPI.checkpoints.restoreWorkspace(workspacePath, activeThreadId, checkpointDialog.messageIndex)
+    reportRestoreResult(result)
+    setCheckpointDialog(null)
+  }
+
   const currentStatus = statusConfig[status]
 
   const markdownComponents = useMemo(() => ({
@@ -3600,7 +4315,22 @@ Be concise and actionable. Use an alternative approach, not the same commands th
     }
   }), [copyToClipboard])
 
-  const renderedMessages = useMemo(() => messages.map(message => (
+  // Checkpoint turns are numbered without compaction summaries
+  const turnIndexes = useMemo(() => {
+    let turn = 0
+    return messages.map(m => m.kind === 'summary' ? -1 : turn++)
+  }, [messages])
+
+  const renderedMessages = useMemo(() => messages.map((message, index) => message.kind === 'summary' ? (
+    <ConversationSummaryCard
+      key={message.id}
+      content={message.content}
+      summarizedCount={message.summarizedMessageIds?.length ?? 0}
+      isActive={message.id === activeContext.summary?.id}
+      disabled={isLoading}
+      onSave={(content) => handleSaveSummary(message.id, content)}
+    />
+  ) : (
     <div
       key={message.id}
       className={`flex gap-4 ${message.role === 'user' ? 'justify-end' : ''}`}
@@ -3637,6 +4367,17 @@ Be concise and actionable. Use an alternative approach, not the same commands th
             <ReactMarkdown components={markdownComponents}>
               {message.content}
             </ReactMarkdown>
+            {plans[message.id] && (
+              <PlanChecklist
+                plan={plans[message.id]}
+                canRun={!!workspacePath}
+                onStepsChange={(steps) => updateSteps(message.id, steps)}
+                onRun={() => runPlan(message.id)}
+                onRetry={(stepId) => retryStep(message.id, stepId)}
+                onSkip={(stepId) => skipStep(message.id, stepId)}
+                onDiscard={() => discardPlan(message.id)}
+              />
+            )}
           </div>
         ) : (
           <div>
@@ -3746,6 +4487,18 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                 </button>
               </Tooltip>
             )}
+
+            {checkpointTurns.has(turnIndexes[index] - 1) && (
+              <Tooltip text="Restore files to before this response">
+                <button
+                  onClick={() => openCheckpointDialog(turnIndexes[index] - 1)}
+                  disabled={isLoading}
+                  className="p-1.5 rounded-lg hover:bg-slate-700/50 transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4 text-slate-400" />
+                </button>
+              </Tooltip>
+            )}
             
             <div className="w-px h-4 bg-slate-700 mx-1" />
             
@@ -3787,7 +4540,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         </div>
       )}
     </div>
-  )), [messages, copiedId, messageFeedback, isLoading, markdownComponents, copyToClipboard, copyResponse, handleFeedback, handleRegenerate])
+  )), [messages, copiedId, messageFeedback, isLoading, markdownComponents, copyToClipboard, copyResponse, handleFeedback, handleRegenerate, checkpointTurns, openCheckpointDialog, plans, workspacePath, updateSteps, runPlan, retryStep, skipStep, discardPlan, activeContext, turnIndexes, handleSaveSummary])
 
   // KAN-100: Suggested Next Actions — contextual follow-up chips after last assistant message
   const suggestedActions = useMemo(() => {
@@ -4050,13 +4803,14 @@ Be concise and actionable. Use an alternative approach, not the same commands th
           </Tooltip>
 
           {/* Interview Mode */}
-          <Tooltip text={t('header.interviewTooltip')} position="bottom">
+          <Tooltip text={isLocalProvider(providerSettings) ? LOCAL_PROVIDER_INTERVIEW_MESSAGE : t('header.interviewTooltip')} position="bottom">
             <button
               onClick={() => {
                 trackButtonClick('Interview Mode', 'App')
                 setShowInterviewMode(true)
               }}
-              className="flex items-center justify-center w-8 h-8 rounded-lg transition-all hover:brightness-125"
+              disabled={isLocalProvider(providerSettings)}
+              className="flex items-center justify-center w-8 h-8 rounded-lg transition-all hover:brightness-125 disabled:opacity-40 disabled:hover:brightness-100"
               style={{ 
                 background: showInterviewMode ? 'rgba(168, 85, 247, 0.3)' : 'rgba(168, 85, 247, 0.1)',
                 border: '1px solid rgba(168, 85, 247, 0.4)',
@@ -4184,6 +4938,79 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                   <span>{t('header.share')}</span>
                 </button>
 
+                {/* Source Control */}
+                <button
+                  onClick={() => {
+                    trackButtonClick('Source Control', 'App')
+                    setShowSourceControl(true)
+                    setShowMoreMenu(false)
+                  }}
+                  disabled={!workspacePath}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors disabled:opacity-40"
+                >
+                  <GitBranch className="w-4 h-4 text-green-400" />
+                  <span>Source Control</span>
+                </button>
+
+                {/* Commit staged changes */}
+                <button
+                  onClick={() => {
+                    trackButtonClick('Commit', 'App')
+                    setShowCommitDialog(true)
+                    setShowMoreMenu(false)
+                  }}
+                  disabled={!workspacePath}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors disabled:opacity-40"
+                >
+                  <GitCommit className="w-4 h-4 text-cyan-400" />
+                  <span>Commit…</span>
+                </button>
+
+                {/* Branch comparison and PR description */}
+                <button
+                  onClick={() => {
+                    trackButtonClick('Compare With Base', 'App')
+                    setShowPullRequestDialog(true)
+                    setShowMoreMenu(false)
+                  }}
+                  disabled={!workspacePath}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors disabled:opacity-40"
+                >
+                  <GitPullRequest className="w-4 h-4 text-purple-400" />
+                  <span>Compare with base branch…</span>
+                </button>
+
+                {/* New threads run the agent in their own git worktree */}
+                <button
+                  onClick={() => {
+                    trackButtonClick('Worktree Isolation', 'App', { enabled: !isolateInWorktree })
+                    toggleWorktreeIsolation()
+                  }}
+                  disabled={!workspacePath}
+                  className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors disabled:opacity-40"
+                  role="menuitemcheckbox"
+                  aria-checked={isolateInWorktree}
+                >
+                  <GitFork className="w-4 h-4 text-emerald-400" />
+                  <span className="flex-1 text-left">Run agent in a worktree</span>
+                  {isolateInWorktree && <Check className="w-4 h-4 text-green-400" />}
+                </button>
+
+                {activeWorktree && (
+                  <button
+                    onClick={() => {
+                      trackButtonClick('Review Worktree', 'App')
+                      const firstMessage = messages.find(m => m.role === 'user')?.content ?? ''
+                      setWorktreeReview({ worktree: activeWorktree, message: firstMessage.split('\n')[0].slice(0, 72) })
+                      setShowMoreMenu(false)
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors"
+                  >
+                    <GitMerge className="w-4 h-4 text-emerald-400" />
+                    <span>Review agent changes…</span>
+                  </button>
+                )}
+
                 <div className="border-t border-slate-700 my-1" />
 
                 {/* Buy Credits */}
@@ -4270,6 +5097,8 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                               tokensOut: m.tokensOut,
                               responseTime: m.responseTime,
                               timestamp: m.timestamp ? new Date(m.timestamp).toISOString() : undefined,
+                              kind: m.kind,
+                              summarizedMessageIds: m.summarizedMessageIds,
                               images: m.images?.map((img: any) => ({
                                 id: img.id,
                                 base64: img.base64,
@@ -4514,6 +5343,9 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         )}
       </main>
 
+      {/* Toolchain Version Banner */}
+      <ToolchainBanner mismatches={toolchainMismatches} onDismiss={() => setToolchainMismatches([])} />
+
       {/* Offline Banner */}
       {isOffline && (
         <div 
@@ -4790,6 +5622,25 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                   <span className="text-xs text-blue-300 font-medium">AIBuddy</span>
                 </div>
               </Tooltip>
+
+              {/* Plan mode toggle — review a step checklist before anything runs */}
+              <Tooltip text={planMode ? 'Plan mode on: review steps before they run' : 'Plan mode: get a step-by-step plan to review first'}>
+                <button
+                  type="button"
+                  onClick={() => setPlanMode(prev => !prev)}
+                  disabled={isLoading}
+                  className="flex items-center gap-1.5 px-2.5 h-10 sm:h-11 rounded-lg flex-shrink-0 transition-all disabled:opacity-50"
+                  style={{
+                    background: planMode ? 'rgba(99, 102, 241, 0.25)' : 'rgba(107, 114, 128, 0.15)',
+                    border: planMode ? '1px solid #6366f1' : '1px solid rgba(107, 114, 128, 0.3)'
+                  }}
+                  aria-pressed={planMode}
+                  aria-label="Toggle plan mode"
+                >
+                  <ListChecks className={`w-3.5 h-3.5 ${planMode ? 'text-indigo-300' : 'text-slate-400'}`} />
+                  <span className={`text-xs font-medium ${planMode ? 'text-indigo-200' : 'text-slate-400'}`}>Plan</span>
+                </button>
+              </Tooltip>
             
               {/* Input Area - flex-1 to take remaining space, vertically centered */}
               <div className="flex-1 min-w-0 flex items-center self-center">
@@ -4818,7 +5669,9 @@ Be concise and actionable. Use an alternative approach, not the same commands th
               
               {/* KAN-17 FIX: Voice Input Button - always visible, shows error if not supported */}
               <Tooltip text={
-                !voiceSupported 
+                voiceDisabledReason
+                  ? voiceDisabledReason
+                  : !voiceSupported 
                   ? t('voice.notAvailable')
                   : voiceState === 'listening' 
                     ? 'Stop dictation' 
@@ -4841,7 +5694,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                   style={{ 
                     background: voiceState === 'listening' 
                       ? 'linear-gradient(135deg, #ef4444, #dc2626)' 
-                      : !voiceSupported
+                      : !voiceSupported || voiceDisabledReason
                         ? 'rgba(107, 114, 128, 0.1)'
                         : 'rgba(107, 114, 128, 0.2)',
                     border: voiceState === 'listening' 
@@ -4850,7 +5703,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
                     boxShadow: voiceState === 'listening' 
                       ? '0 0 20px rgba(239, 68, 68, 0.5)' 
                       : 'none',
-                    opacity: !voiceSupported ? 0.5 : 1
+                    opacity: !voiceSupported || voiceDisabledReason ? 0.5 : 1
                   }}
                   aria-label={voiceState === 'listening' ? 'Stop voice input' : 'Start voice input'}
                 >
@@ -4918,10 +5771,20 @@ Be concise and actionable. Use an alternative approach, not the same commands th
             </div>
             
             {/* Helper text - outside the main row */}
-            <div className="px-4 pb-3 pt-1">
+            <div className="flex items-center gap-3 px-4 pb-3 pt-1">
               <p className="text-xs text-slate-500">
                 ↵ Enter to send • ⇧↵ New line • Drag/paste images • <span className="text-purple-400">Supports PNG, JPG, GIF, WebP</span>
               </p>
+              <div className="ml-auto flex items-center gap-3">
+                <PolicyIndicator policy={executionPolicy} defaultLevel={getAutoModeManager().getLevel()} />
+                <ContextTokenMeter
+                  breakdown={tokenBreakdown}
+                  limit={MAX_CONTEXT_TOKENS}
+                  canCompact={activeContext.messages.length > COMPACTION_KEEP_RECENT && !isLoading}
+                  compacting={isCompacting}
+                  onCompact={handleCompactConversation}
+                />
+              </div>
             </div>
           </div>
           
@@ -5060,6 +5923,21 @@ Be concise and actionable. Use an alternative approach, not the same commands th
               </div>
             )}
             
+            {/* Divider */}
+            <div className="my-6 border-t border-slate-700" />
+
+            <ProviderSettingsPanel settings={providerSettings} onSave={handleSaveProviderSettings} />
+
+            {/* Divider */}
+            <div className="my-6 border-t border-slate-700" />
+
+            <ApprovalRulesPanel manager={getAutoModeManager()} workspacePath={workspacePath} />
+
+            {/* Divider */}
+            <div className="my-6 border-t border-slate-700" />
+
+            <EnvironmentPanel onDetected={refreshEnvironmentSummary} />
+
             {/* Divider */}
             <div className="my-6 border-t border-slate-700" />
             
@@ -5232,6 +6110,19 @@ Be concise and actionable. Use an alternative approach, not the same commands th
             </div>
 
             <div className="flex items-center gap-2 flex-shrink-0">
+              <ContainerTargetPicker
+                targets={commandContainers.targets}
+                selectedId={commandContainers.selectedId}
+                onSelect={selectCommandContainer}
+                onRefresh={refreshContainers}
+              />
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowProblems(p => !p); setTerminalCollapsed(false) }}
+                className={`px-2 py-0.5 rounded text-xs transition-colors ${problemCount > 0 ? 'text-red-400 hover:text-red-300' : 'text-slate-400 hover:text-white'} hover:bg-slate-700`}
+                title="Compiler and linter problems"
+              >
+                Problems{problemCount > 0 ? ` (${problemCount})` : ''}
+              </button>
               <button
                 onClick={(e) => {
                   e.stopPropagation()
@@ -5287,7 +6178,21 @@ Be concise and actionable. Use an alternative approach, not the same commands th
               )}
             </div>
           ) : (
-            /* Expanded: full scrollable output with text selection enabled */
+            <>
+            {showProblems && (
+              <ProblemsPanel
+                onSelect={problem => setInput(`Fix ${problem.severity} ${problem.code ? `${problem.code} ` : ''}in ${problem.file}:${problem.range.startLine}:${problem.range.startColumn}: ${problem.message.split('\n')[0]}`)}
+                onClose={() => setShowProblems(false)}
+              />
+            )}
+            {testResults && (
+              <TestResultsPanel
+                command={testResults.command}
+                summary={testResults.summary}
+                onClose={() => setTestResults(null)}
+              />
+            )}
+            {/* Expanded: full scrollable output with text selection enabled */}
             <div 
               id="terminal-output"
               className="overflow-y-auto p-4 font-mono text-sm flex-1 min-h-0"
@@ -5318,6 +6223,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
               )}
               <div ref={terminalEndRef} />
             </div>
+            </>
           )}
         </div>
       )}
@@ -5358,6 +6264,8 @@ Be concise and actionable. Use an alternative approach, not the same commands th
             tokensOut: msg.tokensOut,
             responseTime: msg.responseTime,
             timestamp: msg.timestamp ? new Date(msg.timestamp).toISOString() : undefined,
+            kind: msg.kind,
+            summarizedMessageIds: msg.summarizedMessageIds,
             images: msg.images?.map((img: any) => ({
               id: img.id,
               base64: img.base64,
@@ -5417,7 +6325,7 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         threadId={activeThreadId || 'temp-' + Date.now()}
         threadTitle={messages.length > 0 && messages[0].content ? messages[0].content.slice(0, 50) + (messages[0].content.length > 50 ? '...' : '') : undefined}
         messageCount={messages.length}
-        messages={messages.map(({ role, content }) => ({ role, content }))}
+        messages={messages.filter(m => m.kind !== 'summary').map(({ role, content }) => ({ role, content }))}
       />
 
       {/* KAN-281: Skills Panel */}
@@ -5461,9 +6369,98 @@ Be concise and actionable. Use an alternative approach, not the same commands th
         onSubmit={handleFeedbackDialogSubmit}
       />
 
+      {/* Source Control drawer */}
+      {showSourceControl && workspacePath && (
+        <div
+          className="fixed top-0 right-0 bottom-0 z-50 w-[420px] max-w-full flex flex-col"
+          style={{ background: '#1e293b', borderLeft: '2px solid #334155', boxShadow: '-8px 0 32px rgba(0,0,0,0.5)' }}
+        >
+          <div className="h-10 flex items-center justify-between px-3 border-b" style={{ borderColor: '#334155', background: '#0f172a' }}>
+            <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">Source Control</span>
+            <button
+              onClick={() => setShowSourceControl(false)}
+              className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-white"
+              aria-label="Close Source Control"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-auto">
+            <SourceControlPanel
+              key={`${workspacePath}:${sourceControlVersion}`}
+              workspacePath={workspacePath}
+              onCommit={() => setShowCommitDialog(true)}
+              onResolveConflicts={() => setShowMergeConflicts(true)}
+              onCompareWithBase={() => setShowPullRequestDialog(true)}
+            />
+          </div>
+        </div>
+      )}
+
+      <CommitDialog
+        isOpen={showCommitDialog}
+        workspacePath={workspacePath}
+        model={async (prompt, systemPrompt) => (await callAIWithRouting([{ role: 'user', content: prompt }], systemPrompt, 'analysis')).response}
+        onClose={() => setShowCommitDialog(false)}
+        onCommitted={() => setSourceControlVersion(v => v + 1)}
+      />
+
+      <PullRequestDialog
+        isOpen={showPullRequestDialog}
+        workspacePath={workspacePath}
+        model={async (prompt, systemPrompt) => (await callAIWithRouting([{ role: 'user', content: prompt }], systemPrompt, 'analysis')).response}
+        onClose={() => setShowPullRequestDialog(false)}
+      />
+
+      <WorktreeReviewDialog
+        workspacePath={workspacePath}
+        worktree={worktreeReview?.worktree ?? null}
+        defaultMessage={worktreeReview?.message ?? ''}
+        onClose={() => setWorktreeReview(null)}
+        onFinished={(threadId) => {
+          setAgentWorktrees(prev => prev.filter(w => w.threadId !== threadId))
+          setSourceControlVersion(v => v + 1)
+        }}
+        onConflicts={() => setShowMergeConflicts(true)}
+      />
+
+      <MergeConflictDialog
+        isOpen={showMergeConflicts}
+        workspacePath={workspacePath}
+        model={async (prompt, systemPrompt) => (await callAIWithRouting([{ role: 'user', content: prompt }], systemPrompt, 'analysis')).response}
+        onClose={() => {
+          setShowMergeConflicts(false)
+          setSourceControlVersion(v => v + 1)
+        }}
+      />
+
+      {mcpPermission && (
+        <ToolPermissionDialog
+          source="mcp"
+          skillName={mcpPermission.server}
+          tool={mcpPermission.tool}
+          action={mcpPermission.tool}
+          description={mcpPermission.description}
+          onDecision={(decision) => {
+            mcpPermission.resolve(decision)
+            setMcpPermission(null)
+          }}
+        />
+      )}
+
+      <CheckpointRestoreDialog
+        isOpen={checkpointDialog !== null}
+        messageIndex={checkpointDialog?.messageIndex ?? null}
+        files={checkpointDialog?.files ?? []}
+        onRestoreFile={handleRestoreCheckpointFile}
+        onRestoreAll={handleRestoreCheckpointAll}
+        onClose={() => setCheckpointDialog(null)}
+      />
+
       {/* Interview Mode Panel */}
+      {/* Interview coaching runs on AIBuddy Cloud — never with a local provider selected */}
       <InterviewPanel
-        isOpen={showInterviewMode}
+        isOpen={showInterviewMode && !isLocalProvider(providerSettings)}
         onClose={() => setShowInterviewMode(false)}
         apiKey={apiKey || ''}
         apiUrl={AIBUDDY_API_INFERENCE_URL}
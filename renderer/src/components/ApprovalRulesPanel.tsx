@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react'
+import { ListChecks, Pencil, Trash2, Check, X } from 'lucide-react'
+import { toast } from 'sonner'
+import type { AutoModeManager } from '../../../src/agent/auto-mode-manager'
+import type { ApprovalHistory } from '../../../src/agent/approval-history'
+
+interface ApprovalRulesPanelProps {
+  manager: AutoModeManager
+  workspacePath: string | null
+}
+
+const MAX_LISTED_COMMANDS = 8
+
+export function ApprovalRulesPanel({ manager, workspacePath }: ApprovalRulesPanelProps) {
+  const [history, setHistory] = useState<ApprovalHistory>(() => manager.getApprovalHistory())
+  const [editing, setEditing] = useState<{ pattern: string; value: string } | null>(null)
+  const [newPattern, setNewPattern] = useState('')
+
+  useEffect(() => {
+    setHistory(manager.getApprovalHistory())
+    return manager.onApprovalHistoryChange(setHistory)
+  }, [manager, workspacePath])
+
+  if (!workspacePath) {
+    return (
+      <div>
+        <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-emerald-400" />
+          Learned Command Rules
+        </h3>
+        <p className="text-sm text-slate-500">Open a workspace to see the commands trusted in it.</p>
+      </div>
+    )
+  }
+
+  const saveEdit = () => {
+    if (!editing) return
+    if (!manager.updateLearnedRule(editing.pattern, editing.value)) {
+      toast.error('Pattern is empty, already trusted or always needs confirmation')
+      return
+    }
+    setEditing(null)
+  }
+
+  const addRule = () => {
+    if (!manager.addLearnedRule(newPattern)) {
+      toast.error('Pattern is empty, already trusted or always needs confirmation')
+      return
+    }
+    setNewPattern('')
+  }
+
+  const frequent = Object.entries(history.records)
+    .filter(([, record]) => record.approvals + record.denials > 0)
+    .sort(([, a], [, b]) => b.approvals - a.approvals || b.lastUsed - a.lastUsed)
+    .slice(0, MAX_LISTED_COMMANDS)
+
+  return (
+    <div>
+      <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+        <ListChecks className="w-5 h-5 text-emerald-400" />
+        Learned Command Rules
+      </h3>
+      <p className="text-xs text-slate-500 mb-3">
+        Commands starting with these words run without asking in this workspace. Policy deny rules and risky patterns still apply.
+      </p>
+
+      {history.rules.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-3">No learned rules yet.</p>
+      ) : (
+        <ul className="mb-3 space-y-1">
+          {history.rules.map(rule => (
+            <li key={rule.pattern} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800">
+              {editing?.pattern === rule.pattern ? (
+                <>
+                  <input
+                    autoFocus
+                    value={editing.value}
+                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveEdit()
+                      if (e.key === 'Escape') setEditing(null)
+                    }}
+                    className="flex-1 px-2 py-1 rounded text-white text-sm font-mono bg-slate-900 border border-slate-700 focus:border-emerald-500 outline-none"
+                  />
+                  <button onClick={saveEdit} title="Save" className="text-emerald-400 hover:text-emerald-300">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditing(null)} title="Cancel" className="text-slate-400 hover:text-slate-300">
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <code className="flex-1 text-sm text-slate-200">{rule.pattern}</code>
+                  <button
+                    onClick={() => setEditing({ pattern: rule.pattern, value: rule.pattern })}
+                    title="Edit rule"
+                    className="text-slate-400 hover:text-white"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => manager.revokeLearnedRule(rule.pattern)}
+                    title="Revoke rule"
+                    className="text-slate-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <input
+          value={newPattern}
+          onChange={(e) => setNewPattern(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addRule() }}
+          placeholder="e.g. npm run build"
+          className="flex-1 px-3 py-2 rounded-xl text-white text-sm font-mono bg-slate-900 border border-slate-700 focus:border-emerald-500 outline-none"
+        />
+        <button
+          onClick={addRule}
+          disabled={!newPattern.trim()}
+          className="px-4 rounded-xl font-semibold text-sm text-white bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+        >
+          Trust
+        </button>
+      </div>
+
+      <div className="mb-3 flex items-center gap-2">
+        <label className="text-sm font-bold text-slate-400">Suggest trusting a command after</label>
+        <input
+          type="number"
+          min={1}
+          value={history.suggestAfter}
+          onChange={(e) => manager.setSuggestAfter(Number(e.target.value))}
+          className="w-16 px-2 py-1 rounded-lg text-white text-sm bg-slate-900 border border-slate-700 focus:border-emerald-500 outline-none"
+        />
+        <span className="text-sm text-slate-400">approvals in a row</span>
+      </div>
+
+      {frequent.length > 0 && (
+        <>
+          <table className="w-full text-xs mb-2">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="py-1 text-left font-medium">Command</th>
+                <th className="py-1 text-right font-medium">Approved</th>
+                <th className="py-1 text-right font-medium">Denied</th>
+              </tr>
+            </thead>
+            <tbody>
+              {frequent.map(([key, record]) => (
+                <tr key={key}>
+                  <td className="py-0.5 font-mono text-slate-300">{key}</td>
+                  <td className="py-0.5 text-right text-slate-200">{record.approvals}</td>
+                  <td className="py-0.5 text-right text-slate-200">{record.denials}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => {
+              if (window.confirm('Forget approval counts for this workspace? Learned rules are kept.')) {
+                manager.clearApprovalRecords()
+              }
+            }}
+            className="text-xs text-slate-400 hover:text-red-400"
+          >
+            Clear approval history
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react'
+import { X, RotateCcw, FileText, Loader2 } from 'lucide-react'
+
+interface CheckpointRestoreDialogProps {
+  isOpen: boolean
+  /** Chat message the checkpoint belongs to — files are restored to their state before it */
+  messageIndex: number | null
+  /** Files the agent changed at or after this message */
+  files: string[]
+  onRestoreFile: (filePath: string) => Promise<void>
+  onRestoreAll: () => Promise<void>
+  onClose: () => void
+}
+
+export function CheckpointRestoreDialog({
+  isOpen,
+  messageIndex,
+  files,
+  onRestoreFile,
+  onRestoreAll,
+  onClose,
+}: CheckpointRestoreDialogProps) {
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) setBusy(null)
+  }, [isOpen])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !busy) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, busy, onClose])
+
+  if (!isOpen || messageIndex === null) return null
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => { if (e.target === e.currentTarget && !busy) onClose() }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Restore checkpoint"
+    >
+      <div className="w-full max-w-lg mx-4 rounded-2xl bg-slate-800 border border-slate-700/60 shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700/50">
+          <div>
+            <h3 className="text-base font-semibold text-white">Restore checkpoint</h3>
+            <p className="text-xs text-slate-400 mt-0.5">
+              Put files back to how they were before message {messageIndex + 1}. Later agent changes to these files are discarded.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="p-1.5 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* File list */}
+        <div className="max-h-80 overflow-y-auto px-5 py-3 space-y-1">
+          {files.length === 0 ? (
+            <p className="text-sm text-slate-400 py-4 text-center">No file changes recorded from this point.</p>
+          ) : files.map(file => (
+            <div key={file} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900/50 border border-slate-700/40">
+              <FileText className="w-4 h-4 text-slate-500 flex-shrink-0" />
+              <span className="flex-1 text-xs font-mono text-slate-200 truncate" title={file}>{file}</span>
+              <button
+                onClick={() => run(file, () => onRestoreFile(file))}
+                disabled={!!busy}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-cyan-300 hover:bg-cyan-500/10 transition-colors disabled:opacity-50"
+              >
+                {busy === file ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-slate-700/50">
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-700/60 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => run('__all__', onRestoreAll)}
+            disabled={!!busy || files.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all hover:brightness-110 disabled:opacity-50"
+            style={{ background: 'linear-gradient(135deg, #06b6d4, #0891b2)' }}
+          >
+            {busy === '__all__' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            Restore all files
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { X, GitCommit, Sparkles, Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { createGitHandler } from '../../../src/core/git-handler'
+import type { CommitMessageModel } from '../../../src/core/commit-message'
+
+/** electronAPI.store key for the "follow this repo's commit style" setting */
+const FOLLOW_REPO_STYLE_KEY = 'commitFollowRepoStyle'
+
+interface CommitDialogProps {
+  isOpen: boolean
+  workspacePath: string | null
+  /** Sends the commit-message prompt to the model */
+  model: CommitMessageModel
+  onClose: () => void
+  onCommitted?: () => void
+}
+
+export function CommitDialog({ isOpen, workspacePath, model, onClose, onCommitted }: CommitDialogProps) {
+  const [staged, setStaged] = useState<string[]>([])
+  const [unstagedCount, setUnstagedCount] = useState(0)
+  const [message, setMessage] = useState('')
+  const [followRepoStyle, setFollowRepoStyle] = useState(false)
+  const [busy, setBusy] = useState<'generate' | 'commit' | 'stage' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const git = useMemo(() => (workspacePath ? createGitHandler(workspacePath) : null), [workspacePath])
+
+  /** Results that arrive after `isCancelled()` turns true are dropped */
+  const loadStatus = useCallback(async (isCancelled: () => boolean = () => false) => {
+    if (!git) return
+    try {
+      const status = await git.getStatus()
+      if (isCancelled()) return
+      setStaged(status.staged)
+      setUnstagedCount(new Set([...status.modified, ...status.deleted, ...status.untracked]).size)
+    } catch (err) {
+      if (!isCancelled()) setError((err as Error).message)
+    }
+  }, [git])
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setMessage('')
+    setError(null)
+    setBusy(null)
+    loadStatus(() => cancelled)
+    const store = window.electronAPI?.store
+    store?.get(FOLLOW_REPO_STYLE_KEY).then((value) => { if (!cancelled) setFollowRepoStyle(!!value) }).catch(() => {})
+    return () => { cancelled = true }
+  }, [isOpen, loadStatus])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !busy) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, busy, onClose])
+
+  if (!isOpen) return null
+
+  const run = async (key: 'generate' | 'commit' | 'stage', action: () => Promise<void>) => {
+    setBusy(key)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const toggleFollowRepoStyle = (value: boolean) => {
+    setFollowRepoStyle(value)
+    ;window.electronAPI?.store?.set(FOLLOW_REPO_STYLE_KEY, value)
+  }
+
+  const generate = () => run('generate', async () => {
+    if (!git) return
+    setMessage(await git.generateCommitMessageFromDiff(model, { followRepoStyle }))
+  })
+
+  const stageAll = () => run('stage', async () => {
+    if (!git) return
+    await git.addAll()
+    await loadStatus()
+  })
+
+  const commit = () => run('commit', async () => {
+    if (!git) return
+    await git.commit(message.trim())
+    toast.success(`Committed ${staged.length} file(s)`)
+    onCommitted?.()
+    onClose()
+  })
+
+  return (
+    <div
+      className="fixed inset-0 z-[999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => { if (e.target === e.currentTarget && !busy) onClose() }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Commit staged changes"
+    >
+      <div className="w-full max-w-2xl mx-4 rounded-2xl bg-slate-800 border border-slate-700/60 shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700/50">
+          <div>
+            <h3 className="text-base font-semibold text-white">Commit</h3>
+            <p className="text-xs text-slate-400 mt-0.5">
+              {staged.length} staged file(s){unstagedCount > 0 ? `, ${unstagedCount} not staged` : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="p-1.5 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          {staged.length > 0 && (
+            <div className="max-h-28 overflow-y-auto space-y-0.5">
+              {staged.map(file => (
+                <div key={file} className="text-xs font-mono text-slate-300 truncate" title={file}>{file}</div>
+              ))}
+            </div>
+          )}
+          {staged.length === 0 && unstagedCount > 0 && (
+            <button
+              onClick={stageAll}
+              disabled={!!busy}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20 transition-colors disabled:opacity-50"
+            >
+              {busy === 'stage' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+              Stage all changes
+            </button>
+          )}
+
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="feat(scope): describe the change"
+            rows={8}
+            className="w-full px-3 py-2 rounded-xl bg-slate-900 border border-slate-700 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500"
+            aria-label="Commit message"
+          />
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={followRepoStyle}
+                onChange={(e) => toggleFollowRepoStyle(e.target.checked)}
+              />
+              Follow this repo&apos;s commit style
+            </label>
+            <button
+              onClick={generate}
+              disabled={!!busy || staged.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-purple-300 bg-purple-500/10 hover:bg-purple-500/20 transition-colors disabled:opacity-50"
+            >
+              {busy === 'generate' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              Generate commit message
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-slate-700/50">
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-700/60 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={commit}
+            disabled={!!busy || staged.length === 0 || !message.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all hover:brightness-110 disabled:opacity-50"
+            style={{ background: 'linear-gradient(135deg, #06b6d4, #0891b2)' }}
+          >
+            {busy === 'commit' ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCommit className="w-4 h-4" />}
+            Commit
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import React from 'react'
+import { Box, RefreshCw } from 'lucide-react'
+import { containerStartCommand, type ContainerTarget } from '../../../src/core/dev-containers'
+
+interface ContainerTargetPickerProps {
+  targets: ContainerTarget[]
+  selectedId: string | null
+  onSelect: (targetId: string | null) => void
+  onRefresh: () => void
+}
+
+export function ContainerTargetPicker({ targets, selectedId, onSelect, onRefresh }: ContainerTargetPickerProps) {
+  if (targets.length === 0) return null
+
+  const selected = targets.find(t => t.id === selectedId)
+  const stopped = selected && !selected.containerId
+
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <Box className={`w-3.5 h-3.5 ${stopped ? 'text-amber-400' : selected ? 'text-cyan-400' : 'text-slate-500'}`} />
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-xs text-slate-300"
+        title={stopped ? `Not running — start it with: ${containerStartCommand(selected)}` : 'Where commands run'}
+        aria-label="Where commands run"
+      >
+        <option value="">Host</option>
+        {targets.map(target => (
+          <option key={target.id} value={target.id}>
+            {target.label}{target.containerId ? '' : ' — stopped'}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onRefresh}
+        className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+        title="Look for containers again"
+      >
+        <RefreshCw className="w-3 h-3" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import React from 'react'
+import { Gauge, Archive, Loader2 } from 'lucide-react'
+import type { TokenBreakdown } from '../../../src/core/tokenizer'
+
+interface ContextTokenMeterProps {
+  breakdown: TokenBreakdown
+  /** Requests above this get their oldest turns summarized, then trimmed (KAN-54) */
+  limit: number
+  /** Whether there are enough older messages to fold into a summary */
+  canCompact: boolean
+  compacting: boolean
+  onCompact: () => void
+}
+
+const PARTS: Array<{ key: Exclude<keyof TokenBreakdown, 'total'>; label: string }> = [
+  { key: 'systemPrompt', label: 'System prompt' },
+  { key: 'skills', label: 'Skills' },
+  { key: 'knowledgeBase', label: 'Knowledge base' },
+  { key: 'history', label: 'Conversation' },
+  { key: 'attachments', label: 'Attachments' },
+]
+
+export function ContextTokenMeter({ breakdown, limit, canCompact, compacting, onCompact }: ContextTokenMeterProps) {
+  const ratio = breakdown.total / limit
+  const color = ratio > 1 ? 'text-red-400' : ratio > 0.8 ? 'text-amber-400' : 'text-slate-500'
+
+  return (
+    <div className="relative group flex-shrink-0">
+      <span className={`flex items-center gap-1 text-xs tabular-nums cursor-default ${color}`}>
+        <Gauge className="w-3 h-3" />
+        {breakdown.total.toLocaleString()} / {limit.toLocaleString()} tokens
+      </span>
+
+      <div className="absolute bottom-full right-0 mb-2 w-56 p-3 rounded-lg border border-slate-700 bg-slate-900 shadow-xl hidden group-hover:block z-50">
+        <div className="text-xs font-semibold text-white mb-2">Context for next message</div>
+        <table className="w-full text-xs">
+          <tbody>
+            {PARTS.map(({ key, label }) => (
+              <tr key={key}>
+                <td className="py-0.5 text-slate-400">{label}</td>
+                <td className="py-0.5 text-right tabular-nums text-slate-200">{breakdown[key].toLocaleString()}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-slate-700">
+              <td className="pt-1 font-semibold text-slate-300">Total</td>
+              <td className="pt-1 text-right tabular-nums font-semibold text-white">{breakdown.total.toLocaleString()}</td>
+            </tr>
+          </tbody>
+        </table>
+        {ratio > 1 && (
+          <p className="mt-2 text-[11px] text-red-300">Over the limit — the oldest messages will be summarized before sending.</p>
+        )}
+        <button
+          type="button"
+          onClick={onCompact}
+          disabled={!canCompact || compacting}
+          className="mt-2 w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs text-slate-200 bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+        >
+          {compacting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Archive className="w-3.5 h-3.5" />}
+          {compacting ? 'Summarizing…' : 'Summarize older messages'}
+        </button>
+      </div>
+    </div>
+  )
+}
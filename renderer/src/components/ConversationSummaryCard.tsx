@@ -0,0 +1,94 @@
+import React, { useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import { Archive, ChevronDown, ChevronRight, Pencil, Check, X } from 'lucide-react'
+
+interface ConversationSummaryCardProps {
+  content: string
+  /** Number of earlier messages this summary replaces in the model context */
+  summarizedCount: number
+  /** Only the latest summary is sent to the model; older ones are kept for reference */
+  isActive: boolean
+  disabled?: boolean
+  onSave: (content: string) => void
+}
+
+export function ConversationSummaryCard({ content, summarizedCount, isActive, disabled, onSave }: ConversationSummaryCardProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(content)
+
+  const startEditing = () => {
+    setDraft(content)
+    setEditing(true)
+    setExpanded(true)
+  }
+
+  const save = () => {
+    const trimmed = draft.trim()
+    if (trimmed && trimmed !== content) onSave(trimmed)
+    setEditing(false)
+  }
+
+  return (
+    <div className={`rounded-2xl border ${isActive ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-slate-700/60 bg-slate-900/40 opacity-70'}`}>
+      <div className="flex items-center gap-2 px-4 py-2.5">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 flex-1 min-w-0 text-left"
+          aria-expanded={expanded}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+          <Archive className="w-4 h-4 text-indigo-300" />
+          <span className="text-sm font-semibold text-slate-200">
+            Summary of {summarizedCount} earlier message{summarizedCount === 1 ? '' : 's'}
+          </span>
+          {!isActive && <span className="text-xs text-slate-500">(superseded)</span>}
+        </button>
+        {isActive && !editing && (
+          <button
+            onClick={startEditing}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-slate-300 hover:bg-slate-700/60 disabled:opacity-50"
+          >
+            <Pencil className="w-3 h-3" /> Edit
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4">
+          {editing ? (
+            <>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full min-h-[200px] p-3 rounded-lg bg-black/30 border border-slate-700 text-sm text-slate-200 font-mono outline-none focus:border-indigo-500"
+                aria-label="Summary text"
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setEditing(false)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-slate-700/60"
+                >
+                  <X className="w-3.5 h-3.5" /> Cancel
+                </button>
+                <button
+                  onClick={save}
+                  disabled={!draft.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold text-white disabled:opacity-50 hover:brightness-110"
+                  style={{ background: 'linear-gradient(135deg, #6366f1, #4f46e5)' }}
+                >
+                  <Check className="w-3.5 h-3.5" /> Save
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="prose prose-invert prose-sm max-w-none text-slate-300">
+              <ReactMarkdown>{content}</ReactMarkdown>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
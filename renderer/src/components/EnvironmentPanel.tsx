@@ -0,0 +1,112 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Cpu, RefreshCw, CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import type {
+  LanguageEnvironment,
+  ToolInfo,
+  ToolSection,
+} from '../../../src/core/environment-detector'
+
+interface EnvironmentPanelProps {
+  /** Called once a detection finishes, e.g. to refresh the AI environment summary */
+  onDetected?: () => void
+}
+
+const SECTION_LABELS: Record<ToolSection, string> = {
+  ides: 'IDEs',
+  versionControl: 'Version control',
+  containerization: 'Containers',
+  cloud: 'Cloud',
+}
+
+export function EnvironmentPanel({ onDetected }: EnvironmentPanelProps) {
+  const [languages, setLanguages] = useState<LanguageEnvironment[]>([])
+  const [tools, setTools] = useState<Partial<Record<ToolSection, ToolInfo[]>>>({})
+  const [detecting, setDetecting] = useState(false)
+  const onDetectedRef = useRef(onDetected)
+  onDetectedRef.current = onDetected
+
+  const detect = useCallback(async (fresh: boolean) => {
+    const environment = window.electronAPI?.environment
+    if (!environment?.detectEnvironment) return
+    setDetecting(true)
+    setLanguages([])
+    setTools({})
+    try {
+      if (fresh) await environment.clearCache?.()
+      await environment.detectEnvironment()
+      onDetectedRef.current?.()
+    } catch {
+      // Detection is best-effort (sandboxed builds can't spawn processes)
+    } finally {
+      setDetecting(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.environment?.onDetectProgress?.((progress) => {
+      if (progress.type === 'language') {
+        setLanguages(prev => [...prev.filter(l => l.language !== progress.language.language), progress.language])
+      } else {
+        setTools(prev => ({ ...prev, [progress.section]: progress.tools }))
+      }
+    })
+    detect(false)
+    return () => unsubscribe?.()
+  }, [detect])
+
+  const installed = languages.filter(l => l.installed)
+  const missing = languages.filter(l => !l.installed)
+  const toolRows = (Object.keys(SECTION_LABELS) as ToolSection[]).filter(section => tools[section]?.length)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-bold text-white flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-sky-400" />
+          Development Environment
+        </h3>
+        <button
+          onClick={() => detect(true)}
+          disabled={detecting}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+        >
+          {detecting ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          {detecting ? 'Detecting…' : 'Re-detect'}
+        </button>
+      </div>
+
+      {languages.length === 0 && !detecting && (
+        <p className="text-sm text-slate-500">Environment detection is unavailable.</p>
+      )}
+
+      <ul className="space-y-1 text-sm">
+        {installed.map(lang => (
+          <li key={lang.language} className="flex items-center gap-2 text-slate-200">
+            <CheckCircle2 className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+            <span>{lang.language}</span>
+            {lang.version && <span className="text-xs text-slate-500">{lang.version}</span>}
+          </li>
+        ))}
+        {missing.map(lang => (
+          <li key={lang.language} className="flex items-center gap-2 text-slate-500">
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{lang.language}</span>
+          </li>
+        ))}
+      </ul>
+
+      {toolRows.length > 0 && (
+        <table className="w-full mt-3 text-xs">
+          <tbody>
+            {toolRows.map(section => (
+              <tr key={section}>
+                <td className="py-0.5 pr-2 text-slate-400 align-top whitespace-nowrap">{SECTION_LABELS[section]}</td>
+                <td className="py-0.5 text-slate-200">{tools[section]!.map(tool => tool.name).join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { X, GitMerge, Sparkles, Loader2, Check, Undo2, FileWarning } from 'lucide-react'
+import { toast } from 'sonner'
+import { createGitHandler } from '../../../src/core/git-handler'
+import type { CommitMessageModel } from '../../../src/core/commit-message'
+import {
+  applyResolutions,
+  buildMergePrompt,
+  parseMergeReply,
+  resolvedLines,
+  MERGE_SYSTEM_PROMPT,
+  type ConflictRegion,
+  type ParsedConflictFile,
+  type RegionResolution,
+} from '../../../src/core/merge-conflicts'
+
+interface MergeConflictDialogProps {
+  isOpen: boolean
+  workspacePath: string | null
+  /** Sends the merge prompt for one region to the model */
+  model: CommitMessageModel
+  onClose: () => void
+}
+
+const SIDE_STYLES = {
+  ours: 'border-cyan-500/40 bg-cyan-500/5',
+  base: 'border-slate-600 bg-slate-900/60',
+  theirs: 'border-amber-500/40 bg-amber-500/5',
+}
+
+export function MergeConflictDialog({ isOpen, workspacePath, model, onClose }: MergeConflictDialogProps) {
+  const git = useMemo(() => (workspacePath ? createGitHandler(workspacePath) : null), [workspacePath])
+  const [conflicted, setConflicted] = useState<string[]>([])
+  const [activeFile, setActiveFile] = useState<string | null>(null)
+  const [parsed, setParsed] = useState<ParsedConflictFile | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [resolutions, setResolutions] = useState<Record<number, RegionResolution>>({})
+  const [asking, setAsking] = useState<number | null>(null)
+  const [busy, setBusy] = useState<'save' | 'continue' | 'abort' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Loaders drop results that arrive after `isCancelled()` turns true
+  const loadConflicts = useCallback(async (isCancelled: () => boolean = () => false): Promise<string[]> => {
+    if (!git) return []
+    const { conflicted: files } = await git.getStatus()
+    if (!isCancelled()) setConflicted(files)
+    return files
+  }, [git])
+
+  const openFile = useCallback(async (file: string | null, isCancelled: () => boolean = () => false) => {
+    setActiveFile(file)
+    setParsed(null)
+    setParseError(null)
+    setResolutions({})
+    if (!git || !file) return
+    try {
+      const result = await git.readConflicts(file)
+      if (!isCancelled()) setParsed(result)
+    } catch (err) {
+      if (!isCancelled()) setParseError((err as Error).message)
+    }
+  }, [git])
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    const isCancelled = () => cancelled
+    setError(null)
+    setBusy(null)
+    loadConflicts(isCancelled)
+      .then(files => { if (!cancelled) return openFile(files[0] ?? null, isCancelled) })
+      .catch(err => { if (!cancelled) setError((err as Error).message) })
+    return () => { cancelled = true }
+  }, [isOpen, loadConflicts, openFile])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !busy) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, busy, onClose])
+
+  if (!isOpen) return null
+
+  const run = async (key: 'save' | 'continue' | 'abort', action: () => Promise<void>) => {
+    setBusy(key)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const resolve = (index: number, resolution: RegionResolution | null) => {
+    setResolutions(prev => {
+      const next = { ...prev }
+      if (resolution) next[index] = resolution
+      else delete next[index]
+      return next
+    })
+  }
+
+  const askModel = async (region: ConflictRegion) => {
+    if (!activeFile) return
+    setAsking(region.index)
+    setError(null)
+    try {
+      const { lines, explanation } = parseMergeReply(await model(buildMergePrompt(activeFile, region), MERGE_SYSTEM_PROMPT))
+      resolve(region.index, { type: 'custom', lines, explanation })
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setAsking(null)
+    }
+  }
+
+  /** Write the file (or take one side whole), stage it and move on to the next conflicted file */
+  const markResolved = (strategy: 'manual' | 'ours' | 'theirs') => run('save', async () => {
+    if (!git || !activeFile) return
+    const content = strategy === 'manual' && parsed ? applyResolutions(parsed, resolutions) : undefined
+    await git.resolveConflicts([{ file: activeFile, strategy, content }])
+    const remaining = await loadConflicts()
+    await openFile(remaining[0] ?? null)
+  })
+
+  const continueMerge = () => run('continue', async () => {
+    if (!git) return
+    await git.continueMerge()
+    toast.success('Merge completed')
+    onClose()
+  })
+
+  const abortMerge = () => {
+    if (!window.confirm('Abort the merge? Your branch goes back to where it was before the pull.')) return
+    run('abort', async () => {
+      if (!git) return
+      await git.abortMerge()
+      toast.success('Merge aborted')
+      onClose()
+    })
+  }
+
+  const regions = parsed?.regions ?? []
+  const allResolved = regions.length > 0 && regions.every(r => resolutions[r.index])
+
+  const renderSide = (title: string, lines: string[], side: keyof typeof SIDE_STYLES) => (
+    <div className={`flex-1 min-w-0 rounded-lg border ${SIDE_STYLES[side]}`}>
+      <div className="px-2 py-1 text-[10px] uppercase tracking-wider text-slate-400 truncate" title={title}>{title}</div>
+      <pre className="px-2 pb-2 text-[11px] font-mono text-slate-200 whitespace-pre overflow-x-auto">{lines.join('\n') || ' '}</pre>
+    </div>
+  )
+
+  const renderRegion = (region: ConflictRegion) => {
+    const resolution = resolutions[region.index]
+    const button = 'px-2 py-1 rounded-lg text-xs transition-colors disabled:opacity-50'
+    return (
+      <div key={region.index} className="rounded-xl border border-slate-700 p-3 space-y-2">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="flex-1">Conflict {region.index + 1} of {regions.length}</span>
+          {resolution ? (
+            <button onClick={() => resolve(region.index, null)} className={`${button} flex items-center gap-1 text-slate-300 hover:bg-slate-700`}>
+              <Undo2 className="w-3 h-3" /> Undo
+            </button>
+          ) : (
+            <>
+              <button onClick={() => resolve(region.index, { type: 'ours' })} className={`${button} text-cyan-300 bg-cyan-500/10 hover:bg-cyan-500/20`}>Accept ours</button>
+              <button onClick={() => resolve(region.index, { type: 'theirs' })} className={`${button} text-amber-300 bg-amber-500/10 hover:bg-amber-500/20`}>Accept theirs</button>
+              <button onClick={() => resolve(region.index, { type: 'both' })} className={`${button} text-slate-200 bg-slate-700/60 hover:bg-slate-700`}>Accept both</button>
+              <button
+                onClick={() => askModel(region)}
+                disabled={asking !== null}
+                className={`${button} flex items-center gap-1 text-purple-300 bg-purple-500/10 hover:bg-purple-500/20`}
+              >
+                {asking === region.index ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                Ask AI to merge
+              </button>
+            </>
+          )}
+        </div>
+
+        {region.before.length > 0 && (
+          <pre className="px-2 text-[11px] font-mono text-slate-500 whitespace-pre overflow-x-auto">{region.before.join('\n')}</pre>
+        )}
+        {resolution ? (
+          <div className="rounded-lg border border-green-500/40 bg-green-500/5">
+            <div className="px-2 py-1 text-[10px] uppercase tracking-wider text-green-300">
+              {resolution.type === 'custom' ? 'Merged by AI' : `Accepted ${resolution.type}`}
+            </div>
+            <pre className="px-2 pb-2 text-[11px] font-mono text-slate-200 whitespace-pre overflow-x-auto">{resolvedLines(region, resolution).join('\n') || ' '}</pre>
+            {resolution.type === 'custom' && resolution.explanation && (
+              <p className="px-2 pb-2 text-xs text-slate-300">{resolution.explanation}</p>
+            )}
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            {renderSide(`Ours${region.oursLabel ? ` — ${region.oursLabel}` : ''}`, region.ours, 'ours')}
+            {region.base && renderSide('Base', region.base, 'base')}
+            {renderSide(`Theirs${region.theirsLabel ? ` — ${region.theirsLabel}` : ''}`, region.theirs, 'theirs')}
+          </div>
+        )}
+        {region.after.length > 0 && (
+          <pre className="px-2 text-[11px] font-mono text-slate-500 whitespace-pre overflow-x-auto">{region.after.join('\n')}</pre>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => { if (e.target === e.currentTarget && !busy) onClose() }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Resolve merge conflicts"
+    >
+      <div className="w-full max-w-6xl h-[85vh] mx-4 flex flex-col rounded-2xl bg-slate-800 border border-slate-700/60 shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700/50">
+          <div>
+            <h3 className="text-base font-semibold text-white">Merge Conflicts</h3>
+            <p className="text-xs text-slate-400 mt-0.5">
+              {conflicted.length > 0 ? `${conflicted.length} conflicted file(s)` : 'All conflicts resolved'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="p-1.5 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* File list */}
+          <div className="w-56 flex-shrink-0 border-r border-slate-700/50 overflow-y-auto py-2">
+            {conflicted.map(file => (
+              <button
+                key={file}
+                onClick={() => openFile(file)}
+                disabled={!!busy}
+                className={`w-full px-3 py-1 text-left text-xs font-mono truncate ${file === activeFile ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-700/50'}`}
+                title={file}
+              >
+                {file}
+              </button>
+            ))}
+          </div>
+
+          {/* Regions of the active file */}
+          <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-3">
+            {activeFile && (
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-sm font-mono text-slate-200 truncate">{activeFile}</span>
+                <button onClick={() => markResolved('ours')} disabled={!!busy} className="px-2 py-1 rounded-lg text-xs text-slate-300 hover:bg-slate-700 disabled:opacity-50">Take ours for file</button>
+                <button onClick={() => markResolved('theirs')} disabled={!!busy} className="px-2 py-1 rounded-lg text-xs text-slate-300 hover:bg-slate-700 disabled:opacity-50">Take theirs for file</button>
+              </div>
+            )}
+            {parseError && (
+              <p className="flex items-center gap-2 text-xs text-amber-300">
+                <FileWarning className="w-4 h-4" /> {parseError} — take one side for the whole file or fix it in the editor.
+              </p>
+            )}
+            {parsed && regions.length === 0 && (
+              <p className="text-xs text-slate-400">No conflict markers in this file — take one side for the whole file, or stage it as is.</p>
+            )}
+            {regions.map(renderRegion)}
+            {!activeFile && conflicted.length === 0 && (
+              <p className="py-8 text-center text-sm text-slate-400">Every conflict is resolved and staged. Continue to commit the merge.</p>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="px-5 py-2 text-xs text-red-400">{error}</p>}
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-5 py-4 border-t border-slate-700/50">
+          <button
+            onClick={abortMerge}
+            disabled={!!busy}
+            className="px-4 py-2 rounded-xl text-sm text-red-300 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            {busy === 'abort' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Abort merge'}
+          </button>
+          <span className="flex-1" />
+          {conflicted.length > 0 ? (
+            <button
+              onClick={() => markResolved('manual')}
+              disabled={!!busy || !allResolved}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              {busy === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Mark file resolved
+            </button>
+          ) : (
+            <button
+              onClick={continueMerge}
+              disabled={!!busy}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all hover:brightness-110 disabled:opacity-50"
+              style={{ background: 'linear-gradient(135deg, #06b6d4, #0891b2)' }}
+            >
+              {busy === 'continue' ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+              Continue merge
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
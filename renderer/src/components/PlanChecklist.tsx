@@ -0,0 +1,206 @@
+import React from 'react'
+import {
+  ArrowUp,
+  ArrowDown,
+  X,
+  Play,
+  RotateCcw,
+  SkipForward,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  Circle,
+  MinusCircle,
+  ListChecks,
+} from 'lucide-react'
+import type { PlanState, PlanStep } from '../hooks/usePlanExecution'
+
+interface PlanChecklistProps {
+  plan: PlanState
+  /** False when no workspace is open — steps cannot run */
+  canRun: boolean
+  onStepsChange: (steps: PlanStep[]) => void
+  onRun: () => void
+  onRetry: (stepId: string) => void
+  onSkip: (stepId: string) => void
+  onDiscard: () => void
+}
+
+const RISK_STYLES: Record<PlanState['riskLevel'], string> = {
+  low: 'text-green-300 bg-green-500/10 border-green-500/30',
+  medium: 'text-amber-300 bg-amber-500/10 border-amber-500/30',
+  high: 'text-red-300 bg-red-500/10 border-red-500/30',
+}
+
+function StepStatusIcon({ step }: { step: PlanStep }) {
+  switch (step.status) {
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+    case 'completed':
+      return <CheckCircle className="w-4 h-4 text-green-400" />
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />
+    case 'skipped':
+      return <MinusCircle className="w-4 h-4 text-slate-500" />
+    default:
+      return <Circle className="w-4 h-4 text-slate-500" />
+  }
+}
+
+export function PlanChecklist({
+  plan,
+  canRun,
+  onStepsChange,
+  onRun,
+  onRetry,
+  onSkip,
+  onDiscard,
+}: PlanChecklistProps) {
+  const editable = plan.phase === 'review'
+  const approvedCount = plan.steps.filter(s => s.approved).length
+  const completedCount = plan.steps.filter(s => s.status === 'completed').length
+
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= plan.steps.length) return
+    const steps = [...plan.steps]
+    ;[steps[index], steps[target]] = [steps[target], steps[index]]
+    onStepsChange(steps)
+  }
+
+  const toggleStep = (id: string) => {
+    onStepsChange(plan.steps.map(s => s.id === id ? { ...s, approved: !s.approved } : s))
+  }
+
+  const removeStep = (id: string) => {
+    onStepsChange(plan.steps.filter(s => s.id !== id))
+  }
+
+  return (
+    <div className="mt-3 rounded-xl border border-slate-700/60 bg-slate-900/50 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-slate-700/50">
+        <ListChecks className="w-4 h-4 text-indigo-300" />
+        <span className="text-sm font-semibold text-white">Plan</span>
+        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${RISK_STYLES[plan.riskLevel]}`}>
+          {plan.riskLevel} risk
+        </span>
+        <span className="ml-auto text-xs text-slate-400">
+          {editable ? `${approvedCount}/${plan.steps.length} approved` : `${completedCount}/${plan.steps.length} done`}
+        </span>
+      </div>
+
+      {/* Steps */}
+      <ol className="divide-y divide-slate-800">
+        {plan.steps.map((step, index) => (
+          <li key={step.id} className={`px-4 py-2.5 ${!step.approved ? 'opacity-50' : ''}`}>
+            <div className="flex items-start gap-2">
+              {editable ? (
+                <input
+                  type="checkbox"
+                  checked={step.approved}
+                  onChange={() => toggleStep(step.id)}
+                  className="mt-0.5 accent-indigo-500"
+                  aria-label={`Approve step ${index + 1}`}
+                />
+              ) : (
+                <span className="mt-0.5"><StepStatusIcon step={step} /></span>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-slate-200">
+                  <span className="text-slate-500 mr-1.5">{index + 1}.</span>
+                  {step.description}
+                </div>
+                {step.command && (
+                  <code className="block mt-1 text-xs font-mono text-cyan-300 bg-black/30 px-2 py-1 rounded break-all">
+                    $ {step.command}
+                  </code>
+                )}
+                {step.status === 'skipped' && step.error && (
+                  <div className="mt-1.5 text-xs text-slate-400">{step.error}</div>
+                )}
+                {step.status === 'failed' && (
+                  <div className="mt-1.5 text-xs text-red-300">
+                    {step.error}
+                    {step.output && (
+                      <pre className="mt-1 max-h-32 overflow-auto text-[11px] text-slate-400 bg-black/30 p-2 rounded whitespace-pre-wrap">
+                        {step.output.slice(-2000)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {editable && (
+                <div className="flex items-center gap-0.5 flex-shrink-0">
+                  <button
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded hover:bg-slate-700/60 text-slate-400 disabled:opacity-30"
+                    aria-label="Move step up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === plan.steps.length - 1}
+                    className="p-1 rounded hover:bg-slate-700/60 text-slate-400 disabled:opacity-30"
+                    aria-label="Move step down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => removeStep(step.id)}
+                    className="p-1 rounded hover:bg-red-500/10 text-slate-400 hover:text-red-300"
+                    aria-label="Remove step"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+
+              {plan.phase === 'paused' && step.status === 'failed' && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => onRetry(step.id)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-cyan-300 hover:bg-cyan-500/10"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Retry
+                  </button>
+                  <button
+                    onClick={() => onSkip(step.id)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-slate-300 hover:bg-slate-700/60"
+                  >
+                    <SkipForward className="w-3 h-3" /> Skip
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {/* Footer */}
+      {editable && (
+        <div className="flex items-center justify-end gap-2 px-4 py-2.5 border-t border-slate-700/50">
+          {!canRun && <span className="mr-auto text-xs text-slate-500">Open a folder to run this plan</span>}
+          <button
+            onClick={onDiscard}
+            className="px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-slate-700/60"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onRun}
+            disabled={!canRun || approvedCount === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold text-white disabled:opacity-50 hover:brightness-110"
+            style={{ background: 'linear-gradient(135deg, #6366f1, #4f46e5)' }}
+          >
+            <Play className="w-3.5 h-3.5" /> Run {approvedCount} approved step{approvedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import React from 'react'
+import { Shield, ShieldAlert, ShieldCheck } from 'lucide-react'
+import type { ExecutionPolicy } from '../../../src/policy/types'
+
+interface PolicyIndicatorProps {
+  policy: ExecutionPolicy
+  /** Auto-mode level used when the policy doesn't pin one */
+  defaultLevel: string
+}
+
+const SOURCE_LABELS: Record<ExecutionPolicy['source'], string> = {
+  workspace: 'Workspace policy',
+  global: 'Global policy',
+  none: 'No policy',
+}
+
+export function PolicyIndicator({ policy, defaultLevel }: PolicyIndicatorProps) {
+  const Icon = policy.error ? ShieldAlert : policy.source === 'none' ? Shield : ShieldCheck
+  const color = policy.error ? 'text-red-400' : policy.source === 'none' ? 'text-slate-500' : 'text-emerald-400'
+  const confirmations = [policy.confirmGitPush && 'git push', policy.confirmPackageInstall && 'package installs'].filter(Boolean)
+  const rows: Array<[string, string]> = [
+    ['Auto-mode', policy.autoMode ?? `${defaultLevel} (default)`],
+    ['Allowed commands', String(policy.allowCommands.length)],
+    ['Denied commands', String(policy.denyCommands.length)],
+    ['Protected paths', String(policy.protectedPaths.length)],
+    ['Always ask for', confirmations.length > 0 ? confirmations.join(', ') : '—'],
+  ]
+
+  return (
+    <div className="relative group flex-shrink-0">
+      <span className={`flex items-center gap-1 text-xs cursor-default ${color}`} aria-label={`Execution policy: ${SOURCE_LABELS[policy.source]}`}>
+        <Icon className="w-3 h-3" />
+        {policy.error ? 'Policy error' : SOURCE_LABELS[policy.source]}
+      </span>
+
+      <div className="absolute bottom-full right-0 mb-2 w-64 p-3 rounded-lg border border-slate-700 bg-slate-900 shadow-xl hidden group-hover:block z-50">
+        <div className="text-xs font-semibold text-white mb-1">Execution policy</div>
+        <p className="text-[11px] text-slate-400 mb-2 break-all">
+          {policy.path ?? 'Add .aibuddy/policy.json to pin auto-mode and allow or deny commands'}
+        </p>
+        {policy.error ? (
+          <p className="text-[11px] text-red-300">{policy.error} — every command and write asks first until it is fixed.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label}>
+                  <td className="py-0.5 text-slate-400">{label}</td>
+                  <td className="py-0.5 text-right text-slate-200">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
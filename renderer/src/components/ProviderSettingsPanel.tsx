@@ -0,0 +1,162 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Server, RefreshCw, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  PROVIDERS,
+  type ProviderId,
+  type ProviderModel,
+  type ProviderSettings,
+} from '../../../src/api/providers/types'
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings
+  onSave: (settings: ProviderSettings) => void
+}
+
+const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[]
+
+export function ProviderSettingsPanel({ settings, onSave }: ProviderSettingsPanelProps) {
+  const [draft, setDraft] = useState<ProviderSettings>(settings)
+  const [models, setModels] = useState<ProviderModel[]>([])
+  const [loadingModels, setLoadingModels] = useState(false)
+  const [modelError, setModelError] = useState<string | null>(null)
+
+  useEffect(() => { setDraft(settings) }, [settings])
+
+  const info = PROVIDERS[draft.provider]
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings)
+
+  // Only the latest request may set the list — an earlier provider's reply can arrive after it
+  const latestRequest = useRef(0)
+  const refreshModels = useCallback(async (target: ProviderSettings) => {
+    const providers = window.electronAPI?.providers
+    if (!providers) return
+    const request = ++latestRequest.current
+    setLoadingModels(true)
+    setModelError(null)
+    try {
+      const list = await providers.listModels(target)
+      if (request === latestRequest.current) setModels(list)
+    } catch (error) {
+      if (request !== latestRequest.current) return
+      setModels([])
+      setModelError((error as Error).message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''))
+    } finally {
+      if (request === latestRequest.current) setLoadingModels(false)
+    }
+  }, [])
+
+  // Model lists are per provider — reload whenever the provider changes, not on every edit of the URL or key
+  const draftRef = useRef(draft)
+  draftRef.current = draft
+  useEffect(() => {
+    const current = draftRef.current
+    refreshModels({ ...current, baseUrl: current.baseUrl || PROVIDERS[current.provider].defaultBaseUrl })
+  }, [draft.provider, refreshModels])
+
+  const selectProvider = (provider: ProviderId) => {
+    setDraft({
+      provider,
+      baseUrl: PROVIDERS[provider].defaultBaseUrl,
+      apiKey: provider === 'openai-compatible' ? draft.apiKey : undefined,
+      model: PROVIDERS[provider].defaultModel,
+    })
+  }
+
+  const save = () => {
+    if (draft.provider !== 'aibuddy' && !draft.model) {
+      toast.error('Pick a model for this provider first')
+      return
+    }
+    onSave(draft)
+    toast.success(`Using ${info.label}${draft.provider !== 'aibuddy' ? ` · ${draft.model}` : ''}`)
+  }
+
+  return (
+    <div>
+      <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <Server className="w-5 h-5 text-cyan-400" />
+        Model Provider
+      </h3>
+
+      <div className="mb-3">
+        <label className="block text-sm font-bold text-slate-400 mb-2">Provider</label>
+        <div className="flex gap-2">
+          {PROVIDER_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => selectProvider(id)}
+              className={`flex-1 py-2 px-3 rounded-xl font-semibold text-sm transition-all ${
+                draft.provider === id ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+              }`}
+            >
+              {PROVIDERS[id].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2">{info.description}</p>
+      </div>
+
+      {info.configurableUrl && (
+        <div className="mb-3">
+          <label className="block text-sm font-bold text-slate-400 mb-2">Server URL</label>
+          <input
+            type="text"
+            value={draft.baseUrl}
+            onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+            placeholder={info.defaultBaseUrl}
+            className="w-full px-3 py-2 rounded-xl text-white text-sm font-mono bg-slate-900 border border-slate-700 focus:border-cyan-500 outline-none"
+          />
+        </div>
+      )}
+
+      {draft.provider === 'openai-compatible' && (
+        <div className="mb-3">
+          <label className="block text-sm font-bold text-slate-400 mb-2">API key (optional)</label>
+          <input
+            type="password"
+            value={draft.apiKey || ''}
+            onChange={(e) => setDraft({ ...draft, apiKey: e.target.value || undefined })}
+            placeholder="Only if your server requires one"
+            className="w-full px-3 py-2 rounded-xl text-white text-sm font-mono bg-slate-900 border border-slate-700 focus:border-cyan-500 outline-none"
+          />
+        </div>
+      )}
+
+      <div className="mb-4">
+        <label className="block text-sm font-bold text-slate-400 mb-2">Model</label>
+        <div className="flex gap-2">
+          <select
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            className="flex-1 px-3 py-2 rounded-xl text-white text-sm bg-slate-900 border border-slate-700 focus:border-cyan-500 outline-none"
+          >
+            {!models.some(m => m.id === draft.model) && (
+              <option value={draft.model}>{draft.model || 'Select a model…'}</option>
+            )}
+            {models.map(model => (
+              <option key={model.id} value={model.id}>{model.label || model.id}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => refreshModels(draft)}
+            disabled={loadingModels}
+            title="Refresh model list"
+            className="px-3 rounded-xl bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+          >
+            {loadingModels ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+        </div>
+        {modelError && <p className="text-xs text-red-400 mt-2">{modelError}</p>}
+      </div>
+
+      <button
+        onClick={save}
+        disabled={!dirty}
+        className="w-full py-2 rounded-xl font-bold text-white bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50"
+      >
+        Save provider
+      </button>
+    </div>
+  )
+}
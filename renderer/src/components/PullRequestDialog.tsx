@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { X, GitPullRequest, Sparkles, Loader2, Copy, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import { createGitHandler } from '../../../src/core/git-handler'
+import type { CommitMessageModel } from '../../../src/core/commit-message'
+import { baseBranchOptions, type BranchComparison } from '../../../src/core/pull-request'
+
+interface PullRequestDialogProps {
+  isOpen: boolean
+  workspacePath: string | null
+  /** Sends the pull-request prompt to the model */
+  model: CommitMessageModel
+  onClose: () => void
+}
+
+export function PullRequestDialog({ isOpen, workspacePath, model, onClose }: PullRequestDialogProps) {
+  const [branches, setBranches] = useState<string[]>([])
+  const [current, setCurrent] = useState('')
+  const [base, setBase] = useState('')
+  const [comparison, setComparison] = useState<BranchComparison | null>(null)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [usedTemplate, setUsedTemplate] = useState(false)
+  const [busy, setBusy] = useState<'compare' | 'generate' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const git = useMemo(() => (workspacePath ? createGitHandler(workspacePath) : null), [workspacePath])
+
+  /** Results that arrive after `isCancelled()` turns true are dropped */
+  const loadBranches = useCallback(async (isCancelled: () => boolean = () => false) => {
+    if (!git) return
+    try {
+      const { current, all } = await git.getBranches()
+      if (isCancelled()) return
+      const options = baseBranchOptions(all.map(b => b.name), current)
+      setCurrent(current)
+      setBranches(options)
+      setBase(options[0] ?? '')
+    } catch (err) {
+      if (!isCancelled()) setError((err as Error).message)
+    }
+  }, [git])
+
+  /** Results that arrive after `isCancelled()` turns true are dropped */
+  const loadComparison = useCallback(async (isCancelled: () => boolean = () => false) => {
+    if (!git || !base) return
+    setComparison(null)
+    setError(null)
+    setBusy('compare')
+    try {
+      const result = await git.compareWithBase(base)
+      if (!isCancelled()) setComparison(result)
+    } catch (err) {
+      if (!isCancelled()) setError((err as Error).message)
+    } finally {
+      if (!isCancelled()) setBusy(null)
+    }
+  }, [git, base])
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setComparison(null)
+    setTitle('')
+    setBody('')
+    setError(null)
+    setBusy(null)
+    loadBranches(() => cancelled)
+    return () => { cancelled = true }
+  }, [isOpen, loadBranches])
+
+  useEffect(() => {
+    if (!isOpen) return
+    // A comparison for the previous base must not replace this one
+    let cancelled = false
+    loadComparison(() => cancelled)
+    return () => { cancelled = true }
+  }, [isOpen, loadComparison])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen && !busy) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, busy, onClose])
+
+  if (!isOpen) return null
+
+  const generate = async () => {
+    if (!git || !comparison) return
+    setBusy('generate')
+    setError(null)
+    try {
+      const description = await git.generatePullRequestDescription(base, model, comparison)
+      setTitle(description.title)
+      setBody(description.body)
+      setUsedTemplate(description.usedTemplate)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success(`${what} copied`)
+    } catch {
+      toast.error(`Could not copy the ${what.toLowerCase()}`)
+    }
+  }
+
+  const additions = comparison?.files.reduce((n, f) => n + f.additions, 0) ?? 0
+  const deletions = comparison?.files.reduce((n, f) => n + f.deletions, 0) ?? 0
+
+  return (
+    <div
+      className="fixed inset-0 z-[999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => { if (e.target === e.currentTarget && !busy) onClose() }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Compare with base branch"
+    >
+      <div className="w-full max-w-3xl max-h-[85vh] mx-4 flex flex-col rounded-2xl bg-slate-800 border border-slate-700/60 shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700/50">
+          <div className="min-w-0">
+            <h3 className="text-base font-semibold text-white">Compare with base branch</h3>
+            <p className="text-xs text-slate-400 mt-0.5 truncate">
+              <span className="font-mono">{current || 'HEAD'}</span>
+              {comparison && ` — ${comparison.commits.length} commit(s), ${comparison.files.length} file(s), +${additions} −${deletions}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="p-1.5 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Base
+            <select
+              value={base}
+              onChange={(e) => setBase(e.target.value)}
+              disabled={!!busy}
+              className="flex-1 px-2 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500"
+              aria-label="Base branch"
+            >
+              {branches.length === 0 && <option value="">No other branches</option>}
+              {branches.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+
+          {busy === 'compare' && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+
+          {comparison && (
+            <>
+              <section>
+                <h4 className="text-[11px] font-semibold uppercase tracking-wider text-slate-500 mb-1">Changes by area</h4>
+                <div className="space-y-1">
+                  {comparison.areas.map(area => (
+                    <div key={area.name} className="text-xs">
+                      <div className="flex items-center gap-2 text-slate-200">
+                        <span className="font-medium">{area.name}</span>
+                        <span className="text-green-400">+{area.additions}</span>
+                        <span className="text-red-400">−{area.deletions}</span>
+                      </div>
+                      <div className="pl-3 font-mono text-[11px] text-slate-500 truncate" title={area.files.map(f => f.path).join('\n')}>
+                        {area.files.map(f => f.path).join(', ')}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <h4 className="text-[11px] font-semibold uppercase tracking-wider text-slate-500 mb-1">
+                  Risky spots <span className="text-slate-600">({comparison.risks.length})</span>
+                </h4>
+                {comparison.risks.length === 0 && <p className="text-xs text-slate-500">Nothing stood out in the diff.</p>}
+                <div className="space-y-0.5">
+                  {comparison.risks.map((risk, i) => (
+                    <div key={i} className="flex items-start gap-1.5 text-xs">
+                      <AlertTriangle className={`w-3 h-3 mt-0.5 flex-shrink-0 ${risk.level === 'high' ? 'text-red-400' : 'text-amber-400'}`} />
+                      {risk.path && <span className="font-mono text-slate-300">{risk.path}{risk.line ? `:${risk.line}` : ''}</span>}
+                      <span className="text-slate-400">{risk.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              {(title || body) && (
+                <section className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      className="flex-1 px-3 py-2 rounded-xl bg-slate-900 border border-slate-700 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+                      aria-label="Pull request title"
+                    />
+                    <button onClick={() => copy(title, 'Title')} className="p-2 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white" title="Copy title">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <textarea
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      rows={14}
+                      className="flex-1 px-3 py-2 rounded-xl bg-slate-900 border border-slate-700 text-sm font-mono text-slate-100 focus:outline-none focus:border-cyan-500"
+                      aria-label="Pull request description"
+                    />
+                    <button onClick={() => copy(body, 'Description')} className="p-2 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white" title="Copy description">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {usedTemplate && <p className="text-[11px] text-slate-500">Filled in from the repo&apos;s pull request template.</p>}
+                </section>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-slate-700/50">
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="px-4 py-2 rounded-xl text-sm text-slate-300 hover:bg-slate-700/60 transition-colors disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={generate}
+            disabled={!!busy || !comparison}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all hover:brightness-110 disabled:opacity-50"
+            style={{ background: 'linear-gradient(135deg, #8b5cf6, #6d28d9)' }}
+          >
+            {busy === 'generate' ? <Loader2 className="w-4 h-4 animate-spin" /> : title ? <Sparkles className="w-4 h-4" /> : <GitPullRequest className="w-4 h-4" />}
+            {title ? 'Regenerate' : 'Generate PR description'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
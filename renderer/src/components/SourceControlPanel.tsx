@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Minus, Plus, RefreshCw, RotateCcw, Sparkles, GitCommit, GitMerge, Download, Loader2, History, Trash2, GitPullRequest } from 'lucide-react'
+import { createGitHandler, MergeConflictError, type GitStatus } from '../../../src/core/git-handler'
+import {
+  buildPartialPatch,
+  changedLineIndexes,
+  parseGitDiff,
+  supportsPartialStaging,
+  type FileDiff,
+  type PatchAction,
+} from '../../../src/core/git-patches'
+import type { GitSnapshot } from '../../../src/core/git-snapshots'
+
+interface SourceControlPanelProps {
+  workspacePath: string
+  /** Opens the commit dialog for the staged changes */
+  onCommit?: () => void
+  /** Opens the merge view for conflicted files */
+  onResolveConflicts?: () => void
+  /** Opens the branch comparison and pull request description generator */
+  onCompareWithBase?: () => void
+}
+
+type Section = 'staged' | 'changes'
+
+interface ChangedFile {
+  path: string
+  section: Section
+  /** Single-letter git status: M, A, D, R, U (untracked) */
+  code: string
+  diff: FileDiff | null
+  byAgent: boolean
+}
+
+export function SourceControlPanel({ workspacePath, onCommit, onResolveConflicts, onCompareWithBase }: SourceControlPanelProps) {
+  const git = useMemo(() => createGitHandler(workspacePath), [workspacePath])
+  const [status, setStatus] = useState<GitStatus | null>(null)
+  const [diffs, setDiffs] = useState<{ staged: FileDiff[]; changes: FileDiff[] }>({ staged: [], changes: [] })
+  const [agentFiles, setAgentFiles] = useState<Set<string>>(new Set())
+  const [expanded, setExpanded] = useState<string | null>(null)
+  /** Selected changed lines, keyed by `${section}:${path}:${hunk}` */
+  const [selectedLines, setSelectedLines] = useState<Record<string, number[]>>({})
+  const [snapshots, setSnapshots] = useState<GitSnapshot[]>([])
+  const [showRecover, setShowRecover] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextStatus, unstaged, staged, edits, nextSnapshots] = await Promise.all([
+        git.getStatus(),
+        git.getDiff(),
+        git.getDiff({ staged: true }),
+        window.electronAPI?.checkpoints?.listAgentEdits(workspacePath) ?? [],
+        git.listSnapshots(),
+      ])
+      setStatus(nextStatus)
+      setSnapshots(nextSnapshots ?? [])
+      setDiffs({ staged: parseGitDiff(staged || ''), changes: parseGitDiff(unstaged || '') })
+      // Agent edits are relative to the workspace, status paths to the repository root
+      setAgentFiles(new Set(edits.map(e => `${nextStatus.prefix}${e.filePath.replace(/\\/g, '/')}`)))
+      setSelectedLines({})
+      setError(null)
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [git, workspacePath])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const files = useMemo((): ChangedFile[] => {
+    if (!status) return []
+    const find = (section: Section, path: string) => diffs[section].find(d => d.path === path) ?? null
+    const staged = status.staged.map(path => {
+      const diff = find('staged', path)
+      const code = diff?.isNew ? 'A' : diff?.isDeleted ? 'D' : diff?.isRename ? 'R' : 'M'
+      return { path, section: 'staged' as const, code, diff, byAgent: agentFiles.has(path) }
+    })
+    const changes = [
+      ...status.modified.map(path => ({ path, code: 'M' })),
+      ...status.deleted.map(path => ({ path, code: 'D' })),
+      ...status.untracked.map(path => ({ path, code: 'U' })),
+    ].map(({ path, code }) => ({ path, section: 'changes' as const, code, diff: find('changes', path), byAgent: agentFiles.has(path) }))
+    return [...staged, ...changes]
+  }, [status, diffs, agentFiles])
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      await refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pull = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      await git.pull()
+    } catch (err) {
+      // Conflicts show up in the Merge Conflicts group; go straight to the merge view
+      if (err instanceof MergeConflictError) onResolveConflicts?.()
+      else setError((err as Error).message)
+    } finally {
+      setBusy(false)
+      await refresh()
+    }
+  }
+
+  const stageFile = (file: ChangedFile) => run(() => (file.section === 'staged' ? git.unstage([file.path]) : git.add([file.path])))
+
+  const discardFile = (file: ChangedFile) => {
+    if (!window.confirm(`Discard your changes to ${file.path}? This can't be undone.`)) return
+    run(() => git.discard([file.path]))
+  }
+
+  const applyHunk = (file: ChangedFile, hunk: number, action: PatchAction) => {
+    if (!file.diff) return
+    if (action === 'discard' && !window.confirm(`Discard these changes to ${file.path}? This can't be undone.`)) return
+    const lines = selectedLines[`${file.section}:${file.path}:${hunk}`]
+    const patch = buildPartialPatch(file.diff, [{ hunk, lines: lines?.length ? lines : undefined }], action)
+    if (patch) run(() => git.applyPatch(patch, action))
+  }
+
+  const restoreSnapshot = (snapshot: GitSnapshot) => {
+    const target = snapshot.branch ? `${snapshot.branch} and your files` : 'your files'
+    if (!window.confirm(`Restore ${target} to how they were before "${snapshot.reason}"?\n\nThe current state is snapshotted first, so you can undo this from Recover.`)) return
+    run(async () => { await git.restoreSnapshot(snapshot.id) })
+  }
+
+  const deleteSnapshot = (snapshot: GitSnapshot) => {
+    if (!window.confirm(`Delete the snapshot taken before "${snapshot.reason}"? This can't be undone.`)) return
+    run(() => git.deleteSnapshot(snapshot.id))
+  }
+
+  const toggleLine = (key: string, index: number) => {
+    setSelectedLines(prev => {
+      const current = prev[key] ?? []
+      const next = current.includes(index) ? current.filter(i => i !== index) : [...current, index]
+      return { ...prev, [key]: next }
+    })
+  }
+
+  const renderFile = (file: ChangedFile) => {
+    const key = `${file.section}:${file.path}`
+    const isOpen = expanded === key
+    const canExpand = !!file.diff
+    return (
+      <div key={key}>
+        <div
+          className="group flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:bg-slate-700/50 cursor-pointer"
+          onClick={() => canExpand && setExpanded(isOpen ? null : key)}
+          title={file.path}
+        >
+          {canExpand ? (isOpen ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />) : <span className="w-3" />}
+          <span className="truncate flex-1 font-mono">{file.path}</span>
+          {file.byAgent && (
+            <span className="flex items-center gap-0.5 px-1 rounded text-[10px] bg-purple-500/20 text-purple-300" title="Changed by the agent">
+              <Sparkles className="w-2.5 h-2.5" />AI
+            </span>
+          )}
+          <span className={`w-3 text-center font-bold ${file.code === 'D' ? 'text-red-400' : file.code === 'M' ? 'text-amber-400' : 'text-green-400'}`}>{file.code}</span>
+          <div className="hidden group-hover:flex items-center" onClick={(e) => e.stopPropagation()}>
+            {file.section === 'changes' && file.code !== 'U' && (
+              <button onClick={() => discardFile(file)} disabled={busy} className="p-0.5 rounded hover:bg-slate-600" title="Discard changes">
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            )}
+            <button onClick={() => stageFile(file)} disabled={busy} className="p-0.5 rounded hover:bg-slate-600" title={file.section === 'staged' ? 'Unstage file' : 'Stage file'}>
+              {file.section === 'staged' ? <Minus className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+        {isOpen && file.diff && renderDiff(file, file.diff)}
+      </div>
+    )
+  }
+
+  const renderDiff = (file: ChangedFile, diff: FileDiff) => {
+    if (!supportsPartialStaging(diff)) {
+      return (
+        <p className="px-6 py-1 text-[11px] text-slate-500">
+          {diff.binary ? 'Binary file' : diff.isNew ? 'New file' : diff.isDeleted ? 'Deleted file' : 'Renamed file'} — stage or unstage it as a whole
+        </p>
+      )
+    }
+    return (
+      <div className="mx-2 mb-2 rounded border border-slate-700 overflow-x-auto font-mono text-[11px]">
+        {diff.hunks.map((hunk, hunkIndex) => {
+          const key = `${file.section}:${file.path}:${hunkIndex}`
+          const selected = selectedLines[key] ?? []
+          const what = selected.length ? `${selected.length} line(s)` : 'hunk'
+          return (
+            <div key={hunkIndex}>
+              <div className="flex items-center gap-2 px-2 py-0.5 bg-slate-900 text-cyan-300/80">
+                <span className="truncate flex-1">@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@ {hunk.section}</span>
+                {file.section === 'staged' ? (
+                  <button onClick={() => applyHunk(file, hunkIndex, 'unstage')} disabled={busy} className="px-1 rounded hover:bg-slate-700 text-slate-300">Unstage {what}</button>
+                ) : (
+                  <>
+                    <button onClick={() => applyHunk(file, hunkIndex, 'discard')} disabled={busy} className="px-1 rounded hover:bg-slate-700 text-slate-400">Discard {what}</button>
+                    <button onClick={() => applyHunk(file, hunkIndex, 'stage')} disabled={busy} className="px-1 rounded hover:bg-slate-700 text-slate-300">Stage {what}</button>
+                  </>
+                )}
+              </div>
+              {hunk.lines.map((line, lineIndex) => {
+                const isChange = line.type !== 'context'
+                const isSelected = selected.includes(lineIndex)
+                return (
+                  <div
+                    key={lineIndex}
+                    onClick={() => isChange && toggleLine(key, lineIndex)}
+                    className={`px-2 whitespace-pre ${isChange ? 'cursor-pointer' : ''} ${
+                      line.type === 'add' ? 'bg-green-500/10 text-green-300' : line.type === 'remove' ? 'bg-red-500/10 text-red-300' : 'text-slate-400'
+                    } ${isSelected ? 'outline outline-1 outline-cyan-400' : ''}`}
+                    title={isChange ? 'Click to select this line' : undefined}
+                  >
+                    {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}{line.text}
+                  </div>
+                )
+              })}
+            </div>
+          )
+        })}
+        {diff.hunks.every((_, i) => !(selectedLines[`${file.section}:${file.path}:${i}`]?.length)) && (
+          <p className="px-2 py-0.5 text-[10px] text-slate-500">
+            Click changed lines to {file.section === 'staged' ? 'unstage' : 'stage'} only those — {diff.hunks.reduce((n, h) => n + changedLineIndexes(h).length, 0)} changed line(s)
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const staged = files.filter(f => f.section === 'staged')
+  const agentChanges = files.filter(f => f.section === 'changes' && f.byAgent)
+  const userChanges = files.filter(f => f.section === 'changes' && !f.byAgent)
+
+  const conflicted = status?.conflicted ?? []
+
+  const group = (title: string, items: ChangedFile[]) => items.length > 0 && (
+    <div className="mb-2">
+      <div className="px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-slate-500">
+        {title} <span className="text-slate-600">({items.length})</span>
+      </div>
+      {items.map(renderFile)}
+    </div>
+  )
+
+  return (
+    <div className="py-1">
+      <div className="flex items-center gap-1 px-2 pb-1">
+        <span className="flex-1 text-xs text-slate-400 truncate">{status?.current ?? ''}</span>
+        {busy && <Loader2 className="w-3 h-3 animate-spin text-slate-400" />}
+        {onCommit && (
+          <button
+            onClick={onCommit}
+            disabled={staged.length === 0}
+            className="flex items-center gap-1 px-2 py-0.5 rounded text-xs text-cyan-300 hover:bg-cyan-500/10 disabled:opacity-40"
+            title="Commit staged changes"
+          >
+            <GitCommit className="w-3 h-3" /> Commit
+          </button>
+        )}
+        {onCompareWithBase && (
+          <button onClick={onCompareWithBase} className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-white" title="Compare with base branch">
+            <GitPullRequest className="w-3 h-3" />
+          </button>
+        )}
+        <button onClick={pull} disabled={busy} className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-40" title="Pull">
+          <Download className="w-3 h-3" />
+        </button>
+        <button onClick={refresh} className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-white" title="Refresh changes">
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      </div>
+
+      {error && <p className="px-2 py-1 text-xs text-red-400">{error}</p>}
+      {status && files.length === 0 && conflicted.length === 0 && <p className="px-2 py-4 text-xs text-center text-slate-500">No changes</p>}
+
+      {conflicted.length > 0 && (
+        <div className="mb-2">
+          <div className="flex items-center px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-red-400">
+            <span className="flex-1">Merge Conflicts <span className="text-slate-600">({conflicted.length})</span></span>
+            {onResolveConflicts && (
+              <button onClick={onResolveConflicts} className="flex items-center gap-1 px-1.5 rounded normal-case tracking-normal font-normal text-cyan-300 hover:bg-cyan-500/10">
+                <GitMerge className="w-3 h-3" /> Resolve
+              </button>
+            )}
+          </div>
+          {conflicted.map(path => (
+            <div key={path} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300" title={path}>
+              <span className="w-3" />
+              <span className="truncate flex-1 font-mono">{path}</span>
+              <span className="w-3 text-center font-bold text-red-400">!</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {group('Staged Changes', staged)}
+      {group('Agent Changes', agentChanges)}
+      {group('Your Changes', userChanges)}
+
+      {snapshots.length > 0 && (
+        <div className="mb-2">
+          <button
+            onClick={() => setShowRecover(!showRecover)}
+            className="w-full flex items-center gap-1 px-2 py-1 text-[11px] font-semibold uppercase tracking-wider text-slate-500 hover:text-slate-300"
+            title="Snapshots taken before the agent ran reset --hard, checkout, clean, rebase or a force push"
+          >
+            {showRecover ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            Recover <span className="text-slate-600">({snapshots.length})</span>
+          </button>
+          {showRecover && snapshots.map(snapshot => (
+            <div key={snapshot.id} className="group flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:bg-slate-700/50" title={snapshot.ref}>
+              <History className="w-3 h-3 flex-shrink-0 text-slate-500" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate font-mono">{snapshot.reason}</div>
+                <div className="truncate text-[10px] text-slate-500">
+                  {new Date(snapshot.createdAt).toLocaleString()}{snapshot.branch && ` · ${snapshot.branch}`}
+                </div>
+              </div>
+              <button onClick={() => restoreSnapshot(snapshot)} disabled={busy} className="px-1.5 rounded text-cyan-300 hover:bg-cyan-500/10 disabled:opacity-40">
+                Restore
+              </button>
+              <button onClick={() => deleteSnapshot(snapshot)} disabled={busy} className="hidden group-hover:block p-0.5 rounded hover:bg-slate-600" title="Delete snapshot">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import React, { useState } from 'react'
+import { CheckCircle, XCircle, ChevronDown, ChevronRight, X } from 'lucide-react'
+import type { TestFailure, TestRunSummary } from '../../../src/testing/types'
+
+interface TestResultsPanelProps {
+  command: string
+  summary: TestRunSummary
+  onClose: () => void
+}
+
+const MAX_PANEL_HEIGHT = 220
+
+function FailureRow({ failure }: { failure: TestFailure }) {
+  const [open, setOpen] = useState(false)
+  const location = failure.file ? `${failure.file}${failure.line ? `:${failure.line}` : ''}` : null
+
+  return (
+    <li className="border-b border-slate-800 last:border-b-0">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-start gap-2 px-3 py-1.5 text-left hover:bg-slate-800/60"
+      >
+        {open ? <ChevronDown className="w-3.5 h-3.5 mt-0.5 text-slate-500 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 mt-0.5 text-slate-500 flex-shrink-0" />}
+        <span className="min-w-0 flex-1">
+          <span className="block text-xs text-red-300 truncate">{failure.name}</span>
+          <span className="block text-[11px] text-slate-400 truncate">{failure.message}</span>
+        </span>
+        {location && <span className="text-[11px] font-mono text-slate-500 flex-shrink-0">{location}</span>}
+      </button>
+
+      {open && (
+        <div className="px-8 pb-2 font-mono text-[11px] space-y-1">
+          {failure.expected !== undefined && (
+            <div><span className="text-slate-500">expected </span><span className="text-green-400 whitespace-pre-wrap">{failure.expected}</span></div>
+          )}
+          {failure.actual !== undefined && (
+            <div><span className="text-slate-500">actual&nbsp;&nbsp;&nbsp;</span><span className="text-red-400 whitespace-pre-wrap">{failure.actual}</span></div>
+          )}
+          {failure.stack.map((frame, i) => (
+            <div key={i} className="text-slate-500 break-all">{frame}</div>
+          ))}
+        </div>
+      )}
+    </li>
+  )
+}
+
+export function TestResultsPanel({ command, summary, onClose }: TestResultsPanelProps) {
+  const allPassed = summary.failed === 0
+
+  return (
+    <div className="flex-shrink-0" style={{ borderBottom: '1px solid #1e293b', background: '#111827' }}>
+      <div className="flex items-center gap-3 px-4 py-1.5">
+        {allPassed
+          ? <CheckCircle className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+          : <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />}
+        <span className="text-xs font-bold text-slate-200">Test results</span>
+        <span className="text-xs text-slate-400">
+          {summary.failed} failed · {summary.passed} passed{summary.skipped > 0 ? ` · ${summary.skipped} skipped` : ''}
+        </span>
+        <span className="text-[11px] font-mono text-slate-500 truncate min-w-0 flex-1" title={command}>{command}</span>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors"
+          title="Hide test results"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {summary.failures.length > 0 && (
+        <ul className="overflow-y-auto" style={{ maxHeight: MAX_PANEL_HEIGHT }}>
+          {summary.failures.map((failure, i) => <FailureRow key={`${failure.name}-${i}`} failure={failure} />)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,8 @@ import React from 'react'
 
 interface ToolPermissionDialogProps {
   skillName: string
+  /** What is asking — a skill, or an MCP server (tool is then the MCP tool name) */
+  source?: 'skill' | 'mcp'
   tool: string
   action: string
   description: string
@@ -26,6 +28,7 @@ const TOOL_LABELS: Record<string, string> = {
 
 export function ToolPermissionDialog({
   skillName,
+  source = 'skill',
   tool,
   action,
   description,
@@ -63,13 +66,13 @@ export function ToolPermissionDialog({
             style={{ background: 'rgba(0,0,0,0.25)', border: '1px solid #1e293b' }}
           >
             <div className="flex items-center gap-2 text-sm">
-              <span className="text-slate-500 w-14">Skill:</span>
+              <span className="text-slate-500 w-14">{source === 'mcp' ? 'Server:' : 'Skill:'}</span>
               <span className="text-white font-medium">{skillName}</span>
             </div>
             <div className="flex items-center gap-2 text-sm">
               <span className="text-slate-500 w-14">Tool:</span>
               <span className="text-white font-medium">
-                {TOOL_ICONS[tool] || '🔧'} {TOOL_LABELS[tool] || tool}
+                {source === 'mcp' ? '🔌' : TOOL_ICONS[tool] || '🔧'} {TOOL_LABELS[tool] || tool}
               </span>
             </div>
             <div className="flex items-start gap-2 text-sm">
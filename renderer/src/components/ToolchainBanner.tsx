@@ -0,0 +1,62 @@
+import React from 'react'
+import { AlertTriangle, Copy, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { TOOL_LABELS, type ToolchainMismatch } from '../../../src/core/toolchain-pins'
+
+interface ToolchainBannerProps {
+  mismatches: ToolchainMismatch[]
+  onDismiss: () => void
+}
+
+export function ToolchainBanner({ mismatches, onDismiss }: ToolchainBannerProps) {
+  if (mismatches.length === 0) return null
+
+  const copyFix = async (fix: string) => {
+    try {
+      await navigator.clipboard.writeText(fix)
+      toast.success('Fix command copied')
+    } catch {
+      toast.error('Could not copy to the clipboard')
+    }
+  }
+
+  return (
+    <div
+      className="mx-4 mb-2 p-3 rounded-xl"
+      style={{ background: 'rgba(245, 158, 11, 0.12)', border: '2px solid #f59e0b' }}
+      role="alert"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+          <span className="text-amber-200 font-medium">
+            This project pins toolchain versions that aren&apos;t installed
+          </span>
+        </div>
+        <button type="button" onClick={onDismiss} className="text-amber-300 hover:text-white" aria-label="Dismiss toolchain warning">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm">
+        {mismatches.map(({ pin, installed, fix }) => (
+          <li key={`${pin.tool}:${pin.source}`} className="flex flex-wrap items-center gap-x-2 text-amber-100">
+            <span>
+              <strong>{TOOL_LABELS[pin.tool]}</strong> {pin.requirement}
+              <span className="text-amber-300/70"> ({pin.source})</span>
+              {' — '}{installed ? `found ${installed}` : 'not installed'}
+            </span>
+            <button
+              type="button"
+              onClick={() => copyFix(fix)}
+              className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-900/60 font-mono text-xs text-slate-200 hover:bg-slate-800"
+              title="Copy fix command"
+            >
+              {fix}
+              <Copy className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
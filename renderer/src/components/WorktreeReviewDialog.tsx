@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { X, GitMerge, GitPullRequestArrow, Trash2, Loader2, ChevronDown, ChevronRight } from 'lucide-react'
+import { toast } from 'sonner'
+import { createGitHandler } from '../../../src/core/git-handler'
+import { parseGitDiff, type FileDiff } from '../../../src/core/git-patches'
+import type { AgentWorktree, IntegrateMode } from '../../../src/core/agent-worktrees'
+
+interface WorktreeReviewDialogProps {
+  workspacePath: string | null
+  /** Worktree under review; null closes the dialog */
+  worktree: AgentWorktree | null
+  /** Suggested commit message, e.g. the thread title */
+  defaultMessage: string
+  onClose: () => void
+  /** The worktree was merged, cherry-picked or discarded */
+  onFinished: (threadId: string) => void
+  /** Integrating stopped on conflicts in the workspace */
+  onConflicts?: () => void
+}
+
+export function WorktreeReviewDialog({ workspacePath, worktree, defaultMessage, onClose, onFinished, onConflicts }: WorktreeReviewDialogProps) {
+  const [files, setFiles] = useState<FileDiff[] | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState<IntegrateMode | 'discard' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Read when a worktree opens, so a renamed thread doesn't overwrite a message being edited
+  const defaultMessageRef = useRef(defaultMessage)
+  defaultMessageRef.current = defaultMessage
+
+  useEffect(() => {
+    if (!worktree || !workspacePath) return
+    let cancelled = false
+    setFiles(null)
+    setExpanded(null)
+    setError(null)
+    setMessage(defaultMessageRef.current)
+    window.electronAPI.worktrees.diff(workspacePath, worktree.threadId)
+      .then(diff => { if (!cancelled) setFiles(parseGitDiff(diff)) })
+      .catch(err => { if (!cancelled) setError((err as Error).message) })
+    return () => { cancelled = true }
+  }, [worktree, workspacePath])
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && worktree && !busy) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [worktree, busy, onClose])
+
+  if (!worktree || !workspacePath) return null
+
+  const integrate = async (mode: IntegrateMode) => {
+    setBusy(mode)
+    setError(null)
+    try {
+      const { commits } = await window.electronAPI.worktrees.integrate(workspacePath, worktree.threadId, mode, message.trim())
+      toast.success(mode === 'merge' ? `Merged ${worktree.branch}` : `Cherry-picked ${commits} commit(s) from ${worktree.branch}`)
+      onFinished(worktree.threadId)
+      onClose()
+    } catch (err) {
+      setError((err as Error).message)
+      // The merge or cherry-pick is left in progress in the workspace — hand it to the merge view
+      const { conflicted } = await createGitHandler(workspacePath).getStatus().catch(() => ({ conflicted: [] as string[] }))
+      if (conflicted.length > 0) onConflicts?.()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const discard = async () => {
+    if (!window.confirm(`Discard the agent's changes and delete ${worktree.branch}? This can't be undone.`)) return
+    setBusy('discard')
+    setError(null)
+    try {
+      await window.electronAPI.worktrees.remove(workspacePath, worktree.threadId)
+      toast.success('Worktree discarded')
+      onFinished(worktree.threadId)
+      onClose()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const added = files?.reduce((n, f) => n + f.hunks.reduce((m, h) => m + h.lines.filter(l => l.type === 'add').length, 0), 0) ?? 0
+  const removed = files?.reduce((n, f) => n + f.hunks.reduce((m, h) => m + h.lines.filter(l => l.type === 'remove').length, 0), 0) ?? 0
+  const empty = files !== null && files.length === 0
+
+  return (
+    <div
+      className="fixed inset-0 z-[999] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => { if (e.target === e.currentTarget && !busy) onClose() }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Review agent worktree"
+    >
+      <div className="w-full max-w-4xl h-[80vh] mx-4 flex flex-col rounded-2xl bg-slate-800 border border-slate-700/60 shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700/50">
+          <div className="min-w-0">
+            <h3 className="text-base font-semibold text-white">Review agent changes</h3>
+            <p className="text-xs text-slate-400 mt-0.5 truncate" title={worktree.path}>
+              <span className="font-mono">{worktree.branch}</span>
+              {files && ` — ${files.length} file(s), +${added} −${removed}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="p-1.5 rounded-lg hover:bg-slate-700/60 text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto px-5 py-3 space-y-1">
+          {!files && !error && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          {empty && <p className="py-8 text-center text-sm text-slate-400">The agent didn&apos;t change anything in this worktree.</p>}
+          {files?.map(file => {
+            const isOpen = expanded === file.path
+            return (
+              <div key={file.path} className="rounded-lg border border-slate-700/60">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : file.path)}
+                  className="w-full flex items-center gap-1 px-2 py-1.5 text-left text-xs font-mono text-slate-200 hover:bg-slate-700/40"
+                >
+                  {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  <span className="flex-1 truncate">{file.path}</span>
+                  <span className={file.isDeleted ? 'text-red-400' : file.isNew ? 'text-green-400' : 'text-amber-400'}>
+                    {file.isDeleted ? 'D' : file.isNew ? 'A' : file.isRename ? 'R' : 'M'}
+                  </span>
+                </button>
+                {isOpen && (
+                  <div className="border-t border-slate-700/60 overflow-x-auto font-mono text-[11px]">
+                    {file.binary && <p className="px-2 py-1 text-slate-500">Binary file</p>}
+                    {file.hunks.map((hunk, i) => (
+                      <div key={i}>
+                        <div className="px-2 py-0.5 bg-slate-900 text-cyan-300/80">@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@ {hunk.section}</div>
+                        {hunk.lines.map((line, j) => (
+                          <div
+                            key={j}
+                            className={`px-2 whitespace-pre ${line.type === 'add' ? 'bg-green-500/10 text-green-300' : line.type === 'remove' ? 'bg-red-500/10 text-red-300' : 'text-slate-400'}`}
+                          >
+                            {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}{line.text}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-700/50 space-y-2">
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Commit message for the agent's uncommitted changes"
+            className="w-full px-3 py-2 rounded-xl bg-slate-900 border border-slate-700 text-sm text-slate-100 focus:outline-none focus:border-cyan-500"
+            aria-label="Commit message"
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-5 py-4 border-t border-slate-700/50">
+          <button
+            onClick={discard}
+            disabled={!!busy}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm text-red-300 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            {busy === 'discard' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Discard
+          </button>
+          <span className="flex-1" />
+          <button
+            onClick={() => integrate('cherry-pick')}
+            disabled={!!busy || empty || !message.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm text-slate-200 bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+            title="Apply the agent's commits on top of your branch without a merge commit"
+          >
+            {busy === 'cherry-pick' ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitPullRequestArrow className="w-4 h-4" />}
+            Cherry-pick
+          </button>
+          <button
+            onClick={() => integrate('merge')}
+            disabled={!!busy || empty || !message.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all hover:brightness-110 disabled:opacity-50"
+            style={{ background: 'linear-gradient(135deg, #06b6d4, #0891b2)' }}
+          >
+            {busy === 'merge' ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronRight, X } from 'lucide-react'
+import { countDiagnostics, diagnosticsStore } from '../../../../src/diagnostics'
+import type { Diagnostic, DiagnosticSeverity } from '../../../../src/diagnostics/types'
+
+interface ProblemsPanelProps {
+  /** Clicking a problem — e.g. to ask the AI to fix it */
+  onSelect?: (diagnostic: Diagnostic) => void
+  onClose: () => void
+}
+
+const MAX_PANEL_HEIGHT = 220
+
+const SEVERITY_ICON: Record<DiagnosticSeverity, React.ReactNode> = {
+  error: <AlertCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />,
+  warning: <AlertTriangle className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />,
+  info: <Info className="w-3.5 h-3.5 text-blue-400 flex-shrink-0" />,
+}
+
+/** Latest diagnostics from builds and linters, grouped by file */
+export function ProblemsPanel({ onSelect, onClose }: ProblemsPanelProps) {
+  const [diagnostics, setDiagnostics] = useState(() => diagnosticsStore.getDiagnostics())
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  useEffect(() => diagnosticsStore.onChange(() => setDiagnostics(diagnosticsStore.getDiagnostics())), [])
+
+  const byFile = useMemo(() => {
+    const groups = new Map<string, Diagnostic[]>()
+    for (const diagnostic of diagnostics) {
+      groups.set(diagnostic.file, [...(groups.get(diagnostic.file) ?? []), diagnostic])
+    }
+    return [...groups.entries()]
+  }, [diagnostics])
+
+  const counts = countDiagnostics(diagnostics)
+  const sources = [...new Set(diagnosticsStore.getRuns().map(run => run.source))]
+
+  const toggle = (file: string) => setCollapsed(prev => {
+    const next = new Set(prev)
+    if (next.has(file)) next.delete(file)
+    else next.add(file)
+    return next
+  })
+
+  return (
+    <div className="flex-shrink-0" style={{ borderBottom: '1px solid #1e293b', background: '#111827' }}>
+      <div className="flex items-center gap-3 px-4 py-1.5">
+        <span className="text-xs font-bold text-slate-200">Problems</span>
+        <span className="flex items-center gap-1 text-xs text-slate-400">
+          {SEVERITY_ICON.error} {counts.error}
+          <span className="ml-2 flex items-center gap-1">{SEVERITY_ICON.warning} {counts.warning}</span>
+        </span>
+        <span className="text-[11px] text-slate-500 truncate min-w-0 flex-1">{sources.join(', ')}</span>
+        <button
+          onClick={() => diagnosticsStore.clear()}
+          className="px-2 py-0.5 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+          title="Clear all problems"
+        >
+          Clear
+        </button>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors"
+          title="Hide problems"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {diagnostics.length === 0 ? (
+        <div className="px-4 pb-2 text-[11px] text-slate-500">
+          No problems. Build, type-check and lint output is collected here as commands run.
+        </div>
+      ) : (
+        <ul className="overflow-y-auto" style={{ maxHeight: MAX_PANEL_HEIGHT }}>
+          {byFile.map(([file, problems]) => (
+            <li key={file}>
+              <button
+                onClick={() => toggle(file)}
+                className="w-full flex items-center gap-2 px-3 py-1 text-left hover:bg-slate-800/60"
+              >
+                {collapsed.has(file)
+                  ? <ChevronRight className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />
+                  : <ChevronDown className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />}
+                <span className="text-xs font-mono text-slate-200 truncate">{file}</span>
+                <span className="text-[11px] text-slate-500">{problems.length}</span>
+              </button>
+              {!collapsed.has(file) && (
+                <ul>
+                  {problems.map((problem, i) => (
+                    <li key={`${problem.range.startLine}:${problem.range.startColumn}-${i}`}>
+                      <button
+                        onClick={() => onSelect?.(problem)}
+                        className="w-full flex items-start gap-2 pl-9 pr-3 py-0.5 text-left hover:bg-slate-800/60"
+                        title={onSelect ? 'Ask AI to fix this problem' : undefined}
+                      >
+                        {SEVERITY_ICON[problem.severity]}
+                        <span className="min-w-0 flex-1 text-[11px] text-slate-300 whitespace-pre-wrap">{problem.message}</span>
+                        <span className="text-[11px] font-mono text-slate-500 flex-shrink-0">
+                          {problem.code ? `${problem.source}(${problem.code}) ` : `${problem.source} `}
+                          [{problem.range.startLine}, {problem.range.startColumn}]
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import {
   MoreHorizontal
 } from 'lucide-react'
 import { FileTreeNode } from '../../hooks/useWorkspace'
+import { SourceControlPanel } from '../SourceControlPanel'
 
 interface SidebarProps {
   activeView: 'explorer' | 'search' | 'git' | 'extensions'
@@ -17,9 +18,13 @@ interface SidebarProps {
   fileTree: FileTreeNode[]
   onFileSelect: (path: string) => void
   onRefresh: () => void
+  /** Opens the commit dialog from the Source Control view */
+  onCommit?: () => void
+  onResolveConflicts?: () => void
+  onCompareWithBase?: () => void
 }
 
-export function Sidebar({ activeView, workspacePath, fileTree, onFileSelect, onRefresh }: SidebarProps) {
+export function Sidebar({ activeView, workspacePath, fileTree, onFileSelect, onRefresh, onCommit, onResolveConflicts, onCompareWithBase }: SidebarProps) {
   const workspaceName = workspacePath.split('/').pop() || workspacePath
 
   return (
@@ -105,10 +110,7 @@ export function Sidebar({ activeView, workspacePath, fileTree, onFileSelect, onR
         )}
 
         {activeView === 'git' && (
-          <div className="p-4 text-center">
-            <span className="text-3xl mb-2 block">🌿</span>
-            <p className="text-sm text-slate-400">Source control coming soon</p>
-          </div>
+          <SourceControlPanel workspacePath={workspacePath} onCommit={onCommit} onResolveConflicts={onResolveConflicts} onCompareWithBase={onCompareWithBase} />
         )}
 
         {activeView === 'extensions' && (
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * The value as of the last time it stayed unchanged for `delayMs` — for work
+ * that shouldn't rerun on every keystroke or streamed chunk.
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
@@ -0,0 +1,158 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { getSmartAgent } from '../../../src/agent/smart-agent'
+import type { ExecutionPlan, ExecutionStep } from '../../../src/agent/smart-agent'
+
+/**
+ * Plan Execution Hook — Plan mode
+ *
+ * Holds the reviewable plans attached to assistant messages (keyed by message
+ * id) and runs their approved steps one at a time through SmartAgent. Each
+ * step's command goes through `approveCommand` first, like chat commands do.
+ * Execution stops at the first failed step so the user can retry or skip it.
+ */
+
+export interface PlanStep extends ExecutionStep {
+  /** Unchecked steps are skipped when the plan runs */
+  approved: boolean
+}
+
+export type PlanPhase = 'review' | 'running' | 'paused' | 'done'
+
+export interface PlanState {
+  steps: PlanStep[]
+  phase: PlanPhase
+  riskLevel: ExecutionPlan['riskLevel']
+}
+
+interface UsePlanExecutionOptions {
+  workspacePath: string | null
+  onStepStart?: (step: PlanStep) => void
+  onStepFinish?: (step: PlanStep) => void
+  /** Policy and auto-mode check for each step's command; null runs it, a string is why not */
+  approveCommand?: (command: string) => Promise<string | null>
+  /** Agent worktree the thread works in, if any; steps run there instead of the workspace */
+  getWorktreePath?: () => string | null
+  /** Checkpoints a file before a step's command changes it, so rolling back the turn restores it */
+  checkpoint?: (filePath: string) => Promise<void>
+}
+
+interface UsePlanExecutionReturn {
+  plans: Record<string, PlanState>
+  addPlan: (messageId: string, plan: ExecutionPlan) => void
+  updateSteps: (messageId: string, steps: PlanStep[]) => void
+  runPlan: (messageId: string) => Promise<void>
+  retryStep: (messageId: string, stepId: string) => Promise<void>
+  skipStep: (messageId: string, stepId: string) => Promise<void>
+  discardPlan: (messageId: string) => void
+}
+
+export function usePlanExecution(options: UsePlanExecutionOptions): UsePlanExecutionReturn {
+  const { workspacePath, onStepStart, onStepFinish, approveCommand, getWorktreePath, checkpoint } = options
+  const [plans, setPlans] = useState<Record<string, PlanState>>({})
+
+  // The run loop is async — read the latest plans and callbacks through refs
+  const plansRef = useRef(plans)
+  plansRef.current = plans
+  const callbacksRef = useRef({ onStepStart, onStepFinish, approveCommand, getWorktreePath, checkpoint })
+  useEffect(() => {
+    callbacksRef.current = { onStepStart, onStepFinish, approveCommand, getWorktreePath, checkpoint }
+  }, [onStepStart, onStepFinish, approveCommand, getWorktreePath, checkpoint])
+
+  const setPlan = useCallback((messageId: string, update: (plan: PlanState) => PlanState) => {
+    setPlans(prev => {
+      const plan = prev[messageId]
+      if (!plan) return prev
+      const next = { ...prev, [messageId]: update(plan) }
+      plansRef.current = next
+      return next
+    })
+  }, [])
+
+  const setStep = useCallback((messageId: string, step: PlanStep) => {
+    setPlan(messageId, plan => ({
+      ...plan,
+      steps: plan.steps.map(s => s.id === step.id ? { ...step } : s),
+    }))
+  }, [setPlan])
+
+  const addPlan = useCallback((messageId: string, plan: ExecutionPlan) => {
+    setPlans(prev => ({
+      ...prev,
+      [messageId]: {
+        steps: plan.steps.map(step => ({ ...step, approved: true })),
+        phase: 'review',
+        riskLevel: plan.riskLevel,
+      },
+    }))
+  }, [])
+
+  const updateSteps = useCallback((messageId: string, steps: PlanStep[]) => {
+    setPlan(messageId, plan => plan.phase === 'review' ? { ...plan, steps } : plan)
+  }, [setPlan])
+
+  /** Run steps from startIndex on; stop (paused) at the first failure */
+  const runFrom = useCallback(async (messageId: string, startIndex: number) => {
+    const electronAPI = window.electronAPI
+    if (!workspacePath || !electronAPI?.terminal?.execute) return
+
+    const agent = getSmartAgent()
+    if (agent.getWorkspace() !== workspacePath) agent.setWorkspace(workspacePath)
+    // Test steps without a command use the project's (monorepo-scoped) test command
+    if (!agent.getProjectAnalysis()) await agent.analyzeProject(electronAPI).catch(() => null)
+
+    setPlan(messageId, plan => ({ ...plan, phase: 'running' }))
+    const cwd = callbacksRef.current.getWorktreePath?.() ?? undefined
+    const steps = plansRef.current[messageId]?.steps ?? []
+
+    for (let i = startIndex; i < steps.length; i++) {
+      const step: PlanStep = { ...steps[i], output: undefined, error: undefined }
+      if (!step.approved || step.status === 'completed' || step.status === 'skipped') {
+        if (!step.approved && step.status === 'pending') setStep(messageId, { ...step, status: 'skipped' })
+        continue
+      }
+
+      callbacksRef.current.onStepStart?.(step)
+      const result = await agent.executeStep(step, electronAPI, s => setStep(messageId, { ...(s as PlanStep) }), {
+        approveCommand: command => callbacksRef.current.approveCommand?.(command) ?? Promise.resolve(null),
+        cwd,
+        checkpoint: filePath => callbacksRef.current.checkpoint?.(filePath) ?? Promise.resolve(),
+      })
+      const finished = { ...(result as PlanStep) }
+      setStep(messageId, finished)
+      callbacksRef.current.onStepFinish?.(finished)
+
+      if (finished.status === 'failed') {
+        setPlan(messageId, plan => ({ ...plan, phase: 'paused' }))
+        return
+      }
+    }
+
+    setPlan(messageId, plan => ({ ...plan, phase: 'done' }))
+  }, [workspacePath, setPlan, setStep])
+
+  const runPlan = useCallback((messageId: string) => runFrom(messageId, 0), [runFrom])
+
+  const retryStep = useCallback(async (messageId: string, stepId: string) => {
+    const index = plansRef.current[messageId]?.steps.findIndex(s => s.id === stepId) ?? -1
+    if (index < 0) return
+    await runFrom(messageId, index)
+  }, [runFrom])
+
+  const skipStep = useCallback(async (messageId: string, stepId: string) => {
+    const steps = plansRef.current[messageId]?.steps ?? []
+    const index = steps.findIndex(s => s.id === stepId)
+    if (index < 0) return
+    setStep(messageId, { ...steps[index], status: 'skipped' })
+    await runFrom(messageId, index + 1)
+  }, [runFrom, setStep])
+
+  const discardPlan = useCallback((messageId: string) => {
+    setPlans(prev => {
+      const rest = { ...prev }
+      delete rest[messageId]
+      return rest
+    })
+  }, [])
+
+  return { plans, addPlan, updateSteps, runPlan, retryStep, skipStep, discardPlan }
+}
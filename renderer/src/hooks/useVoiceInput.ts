@@ -21,6 +21,8 @@ const MAX_RECORDING_MS = 60_000
 
 interface UseVoiceInputOptions {
   language?: string
+  /** When set, recording is refused with this message (e.g. a local provider keeps audio on the machine) */
+  disabledReason?: string
   continuous?: boolean
   interimResults?: boolean
   onResult?: (transcript: string, isFinal: boolean) => void
@@ -38,7 +40,7 @@ interface UseVoiceInputReturn {
 }
 
 export function useVoiceInput(options: UseVoiceInputOptions = {}): UseVoiceInputReturn {
-  const { language, onResult, onError } = options
+  const { language, disabledReason, onResult, onError } = options
 
   const [state, setState] = useState<VoiceInputState>('idle')
   const [interimTranscript, setInterimTranscript] = useState('')
@@ -148,6 +150,10 @@ export function useVoiceInput(options: UseVoiceInputOptions = {}): UseVoiceInput
   }, [language, setError])
 
   const startListening = useCallback(async () => {
+    if (disabledReason) {
+      setError(disabledReason)
+      return
+    }
     if (!isSupported) {
       setError('Microphone not available in this environment')
       return
@@ -222,7 +228,7 @@ export function useVoiceInput(options: UseVoiceInputOptions = {}): UseVoiceInput
         setError(`Microphone error: ${err.message}`)
       }
     }
-  }, [isSupported, cleanup, sendToWhisper, setError])
+  }, [disabledReason, isSupported, cleanup, sendToWhisper, setError])
 
   const stopListening = useCallback(() => {
     if (mediaRecorderRef.current?.state === 'recording') {
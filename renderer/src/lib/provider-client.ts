@@ -0,0 +1,96 @@
+/**
+ * Provider Client
+ *
+ * Renderer side of the provider:* IPC channels. Local and self-hosted
+ * backends (OpenAI-compatible, Ollama) run in the main process; this turns
+ * their StreamEvent pushes back into accumulated text for the chat UI.
+ */
+
+import type { ChatMessage, ChatRequest } from '../../../src/api/aibuddy-client'
+import type { ProviderSettings } from '../../../src/api/providers/types'
+
+export interface ProviderReply {
+  text: string
+  model: string
+  stopReason: string
+  usage: { input_tokens: number; output_tokens: number }
+}
+
+/**
+ * Convert the AIBuddy request body (system prompt as the first message) into
+ * a provider ChatRequest.
+ */
+export function toProviderRequest(body: {
+  messages: Array<{ role: string; content: ChatMessage['content'] }>
+  max_tokens?: number
+  temperature?: number
+}): ChatRequest {
+  const system = body.messages
+    .filter(m => m.role === 'system')
+    .map(m => (typeof m.content === 'string' ? m.content : ''))
+    .join('\n\n')
+  return {
+    system: system || undefined,
+    messages: body.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+  }
+}
+
+/**
+ * Stream a reply from a local provider. onText receives the accumulated text
+ * after every delta. Aborting the signal cancels the request in the main
+ * process and rejects with an AbortError, like fetch.
+ */
+export async function streamFromProvider(
+  settings: ProviderSettings,
+  request: ChatRequest,
+  signal: AbortSignal,
+  onText: (accumulated: string) => void
+): Promise<ProviderReply> {
+  const providers = window.electronAPI?.providers
+  if (!providers) throw new Error('Local providers are only available in the desktop app')
+
+  const streamId = `provider-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  const reply: ProviderReply = { text: '', model: settings.model, stopReason: 'end_turn', usage: { input_tokens: 0, output_tokens: 0 } }
+
+  const unsubscribe = providers.onStreamEvent((id, event) => {
+    if (id !== streamId) return
+    if (event.type === 'message_start' && event.message?.model) {
+      reply.model = event.message.model
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+      reply.text += event.delta.text
+      onText(reply.text)
+    } else if (event.type === 'message_delta') {
+      if (event.delta?.stop_reason) reply.stopReason = event.delta.stop_reason
+      if (event.usage) reply.usage = event.usage
+    }
+  })
+  const onAbort = () => { providers.abort(streamId) }
+  signal.addEventListener('abort', onAbort)
+
+  try {
+    const result = await providers.stream(streamId, settings, request)
+    if (result.aborted || signal.aborted) throw new DOMException('The request was aborted', 'AbortError')
+    if (!result.success) throw new Error(result.error || 'Provider request failed')
+    return reply
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+    unsubscribe()
+  }
+}
+
+/** Non-streaming request; returns the reply text */
+export async function chatWithProvider(settings: ProviderSettings, request: ChatRequest): Promise<ProviderReply> {
+  const providers = window.electronAPI?.providers
+  if (!providers) throw new Error('Local providers are only available in the desktop app')
+  const response = await providers.chat(settings, request)
+  return {
+    text: response.content.filter(c => c.type === 'text').map(c => c.text).join('\n'),
+    model: response.model,
+    stopReason: response.stop_reason,
+    usage: response.usage,
+  }
+}
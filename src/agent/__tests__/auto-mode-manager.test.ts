@@ -87,6 +87,22 @@ describe('AutoModeManager', () => {
       expect(result.riskLevel).toBe('critical')
     })
 
+    it('flags recursive or forced deletes of absolute and home paths as critical', () => {
+      expect(manager.analyzeCommandSafety('rm -rf /usr').riskLevel).toBe('critical')
+      expect(manager.analyzeCommandSafety('rm -rf /home/user').riskLevel).toBe('critical')
+      expect(manager.analyzeCommandSafety('rm -r -- ~/projects').riskLevel).toBe('critical')
+      expect(manager.analyzeCommandSafety('rm -f "$HOME/.bashrc"').riskLevel).toBe('critical')
+      expect(manager.analyzeCommandSafety('npm run test -- ; rm -rf /etc').riskLevel).toBe('critical')
+      expect(manager.analyzeCommandSafety('rm -rf build').riskLevel).toBe('medium')
+    })
+
+    it('looks inside the command string of sh -c', () => {
+      const result = manager.analyzeCommandSafety('bash -c "rm -rf /etc"')
+      expect(result.riskLevel).toBe('critical')
+      expect(result.segment).toBe('rm -rf /etc')
+      expect(manager.analyzeCommandSafety(`sh -c 'sudo reboot'`).riskLevel).toBe('critical')
+    })
+
     it('should identify medium risk commands', () => {
       const result = manager.analyzeCommandSafety('npm install lodash')
       expect(result.safe).toBe(true)
@@ -94,6 +110,72 @@ describe('AutoModeManager', () => {
     })
   })
 
+  describe('compound commands', () => {
+    it('classifies each segment and takes the worst', () => {
+      const result = manager.analyzeCommandSafety('ls && rm -rf build')
+      expect(result.riskLevel).toBe('medium')
+      expect(result.segment).toBe('rm -rf build')
+      expect(result.reason).toContain('`rm -rf build`')
+    })
+
+    it('flags a trusted prefix piped into a shell', () => {
+      const result = manager.analyzeCommandSafety('cat install.sh | sh')
+      expect(result.riskLevel).toBe('critical')
+      expect(result.segment).toBe('sh')
+    })
+
+    it('allows an interpreter that runs a script file from a pipeline', () => {
+      expect(manager.analyzeCommandSafety('cat data.json | python3 -m json.tool').riskLevel).toBe('medium')
+    })
+
+    it('looks inside subshells and command substitutions', () => {
+      expect(manager.analyzeCommandSafety('(cd src && git push --force)').riskLevel).toBe('critical')
+      const result = manager.analyzeCommandSafety('echo "$(sudo cat /etc/shadow)"')
+      expect(result.riskLevel).toBe('critical')
+    })
+
+    it('judges the command behind env prefixes and wrappers', () => {
+      expect(manager.analyzeCommandSafety('NODE_ENV=test npm run test').riskLevel).toBe('low')
+      expect(manager.analyzeCommandSafety('timeout 30 git status').riskLevel).toBe('low')
+      expect(manager.analyzeCommandSafety('find . -name "*.log" | xargs rm').segment).toBe('xargs rm')
+    })
+
+    it('treats env prefixes that change execution as high risk', () => {
+      const result = manager.analyzeCommandSafety('LD_PRELOAD=./hook.so npm test')
+      expect(result.riskLevel).toBe('high')
+      expect(result.reason).toContain('LD_PRELOAD')
+    })
+
+    it('treats output redirects as writes', () => {
+      expect(manager.analyzeCommandSafety('echo hi > src/index.ts').riskLevel).toBe('medium')
+      expect(manager.analyzeCommandSafety('echo KEY=1 >> .env').riskLevel).toBe('high')
+      expect(manager.analyzeCommandSafety('git status > /dev/null 2>&1').riskLevel).toBe('low')
+    })
+
+    it('matches trusted commands by whole words', () => {
+      expect(manager.analyzeCommandSafety('lsof -i :3000').riskLevel).toBe('medium')
+      expect(manager.analyzeCommandSafety('cat src/sync.ts').riskLevel).toBe('low')
+    })
+
+    it('treats commands that cannot be parsed as critical', () => {
+      const result = manager.analyzeCommandSafety('echo "unterminated')
+      expect(result.riskLevel).toBe('critical')
+      expect(result.safe).toBe(false)
+    })
+
+    it('does not auto-approve function or case bodies it cannot read', () => {
+      manager.setLevel('aggressive')
+      expect(manager.shouldAutoApprove('f() { rm -rf ~; }; f')).toBe(false)
+      expect(manager.shouldAutoApprove('case x in x) rm -rf ~;; esac')).toBe(false)
+    })
+
+    it('does not auto-approve mixed commands in conservative mode', () => {
+      manager.setLevel('conservative')
+      expect(manager.shouldAutoApprove('git status && git log')).toBe(true)
+      expect(manager.shouldAutoApprove('git status && npm install lodash')).toBe(false)
+    })
+  })
+
   describe('auto-approval', () => {
     it('should auto-approve safe commands in aggressive mode', () => {
       manager.setLevel('aggressive')
@@ -231,6 +313,130 @@ describe('AutoModeManager', () => {
     })
   })
 
+  describe('approval history', () => {
+    const confirmEverything = () => new AutoModeManager({ level: 'conservative' })
+
+    it('keys commands by program and subcommand, per segment', () => {
+      expect(manager.getCommandKeys('npm run build -- --watch')).toEqual(['npm run build'])
+      expect(manager.getCommandKeys('git push origin main && git status')).toEqual(['git push', 'git status'])
+      expect(manager.getCommandKeys('env CI=1 timeout 60 ./scripts/deploy.sh prod')).toEqual(['deploy.sh'])
+      expect(manager.getCommandKeys('echo "unterminated')).toEqual([])
+    })
+
+    it('suggests trust after enough approvals in a row', () => {
+      const learner = confirmEverything()
+      learner.setSuggestAfter(3)
+      learner.recordDecision('make lint --keep-going', true)
+      learner.recordDecision('make lint', true)
+      expect(learner.getTrustSuggestion('make lint')).toBeNull()
+      learner.recordDecision('make lint', true)
+      expect(learner.getTrustSuggestion('make lint')).toBe('make lint')
+    })
+
+    it('resets the streak on denial and never suggests risky commands', () => {
+      const learner = confirmEverything()
+      learner.setSuggestAfter(2)
+      learner.recordDecision('make lint', true)
+      learner.recordDecision('make lint', false)
+      learner.recordDecision('make lint', true)
+      expect(learner.getTrustSuggestion('make lint')).toBeNull()
+      expect(learner.getApprovalHistory().records['make lint']).toMatchObject({ approvals: 2, denials: 1, streak: 1 })
+
+      learner.recordDecision('sudo make lint', true)
+      learner.recordDecision('sudo make lint', true)
+      expect(learner.getTrustSuggestion('sudo make lint')).toBeNull()
+    })
+
+    it('does not offer a dismissed suggestion again', () => {
+      const learner = confirmEverything()
+      learner.setSuggestAfter(1)
+      learner.recordDecision('make deploy', true)
+      learner.dismissTrustSuggestion('make deploy')
+      learner.recordDecision('make deploy', true)
+      expect(learner.getTrustSuggestion('make deploy')).toBeNull()
+    })
+
+    it('auto-approves learned rules until they are revoked', () => {
+      const learner = confirmEverything()
+      expect(learner.shouldAutoApprove('make lint --keep-going')).toBe(false)
+
+      expect(learner.addLearnedRule('  Make   lint ')).toBe(true)
+      expect(learner.addLearnedRule('make lint')).toBe(false)
+      expect(learner.analyzeCommandSafety('make lint --keep-going').reason).toContain('Learned rule: make lint')
+      expect(learner.shouldAutoApprove('make lint --keep-going')).toBe(true)
+      expect(learner.shouldAutoApprove('make lint && rm -rf /')).toBe(false)
+
+      expect(learner.updateLearnedRule('make lint', 'terraform plan')).toBe(true)
+      expect(learner.shouldAutoApprove('make lint')).toBe(false)
+      expect(learner.shouldAutoApprove('terraform plan')).toBe(true)
+
+      learner.revokeLearnedRule('terraform plan')
+      expect(learner.shouldAutoApprove('terraform plan')).toBe(false)
+    })
+
+    it('never learns interpreters, elevation or commands that always ask', () => {
+      const learner = confirmEverything()
+      learner.setSuggestAfter(1)
+      for (const command of ['python -c "print(1)"', 'rm -rf build', 'npm install lodash']) {
+        learner.recordDecision(command, true)
+        expect(learner.getTrustSuggestion(command)).toBeNull()
+      }
+      expect(learner.addLearnedRule('bash')).toBe(false)
+      expect(learner.addLearnedRule('sudo make install')).toBe(false)
+      expect(learner.addLearnedRule('rm')).toBe(false)
+      expect(learner.addLearnedRule('npm')).toBe(false)
+      expect(learner.addLearnedRule('npm install lodash')).toBe(false)
+      expect(learner.addLearnedRule('python manage.py test')).toBe(true)
+      expect(learner.updateLearnedRule('python manage.py test', 'mv')).toBe(false)
+    })
+
+    it('does not let stored rules outrank commands that always ask', () => {
+      const learner = new AutoModeManager({ level: 'balanced' })
+      learner.loadApprovalHistory({ rules: [{ pattern: 'git push' }, { pattern: 'sh' }] })
+      expect(learner.analyzeCommandSafety('git push origin main').reason).toContain('Requires confirmation: git push')
+      expect(learner.analyzeCommandSafety('sh -c "make deploy"').reason).not.toContain('Learned rule')
+    })
+
+    it('keeps the auto-execution count across restarts', () => {
+      const learner = new AutoModeManager({ maxAutoExecutions: 2 })
+      learner.recordExecution('npm run lint', true)
+      learner.recordExecution('echo "unterminated', false)
+      expect(learner.shouldAutoApprove('git status')).toBe(false)
+
+      const restored = new AutoModeManager({ maxAutoExecutions: 2 })
+      restored.loadApprovalHistory(learner.getApprovalHistory())
+      expect(restored.getStats().executionCount).toBe(2)
+      expect(restored.shouldAutoApprove('git status')).toBe(false)
+      restored.resetExecutionCount()
+      expect(restored.shouldAutoApprove('git status')).toBe(true)
+    })
+
+    it('round-trips through storage and notifies listeners on change', () => {
+      const learner = confirmEverything()
+      const saved: unknown[] = []
+      const unsubscribe = learner.onApprovalHistoryChange(history => saved.push(JSON.parse(JSON.stringify(history))))
+      learner.addLearnedRule('npm run lint')
+      learner.recordExecution('npm run lint', true)
+      unsubscribe()
+      learner.recordExecution('npm run lint', true)
+      expect(saved).toHaveLength(2)
+
+      const restored = confirmEverything()
+      restored.loadApprovalHistory(saved[1])
+      expect(restored.shouldAutoApprove('npm run lint')).toBe(true)
+      expect(restored.getApprovalHistory().records['npm run lint'].executions).toBe(1)
+    })
+
+    it('ignores malformed stored history', () => {
+      manager.loadApprovalHistory({ suggestAfter: -1, records: { ls: 'x', pwd: { approvals: 'two' } }, rules: [{ pattern: '' }, 7] })
+      const history = manager.getApprovalHistory()
+      expect(history.suggestAfter).toBe(5)
+      expect(Object.keys(history.records)).toEqual(['pwd'])
+      expect(history.records.pwd.approvals).toBe(0)
+      expect(history.rules).toEqual([])
+    })
+  })
+
   describe('singleton', () => {
     it('should return same instance', () => {
       const instance1 = getAutoModeManager()
@@ -0,0 +1,148 @@
+/**
+ * Shell Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseShell, collectSegments, commandWriteTargets, ShellParseError, type ShellCommand } from '../shell-parser'
+
+function segmentTexts(command: string): string[] {
+  return collectSegments(parseShell(command)).map(segment => segment.command.text)
+}
+
+describe('parseShell', () => {
+  it('parses a simple command with quoted words', () => {
+    const node = parseShell(`git commit -m "fix: it's done" --author='A B'`) as ShellCommand
+    expect(node.type).toBe('command')
+    expect(node.words).toEqual(['git', 'commit', '-m', "fix: it's done", '--author=A B'])
+  })
+
+  it('separates env prefixes from words', () => {
+    const node = parseShell('NODE_ENV=test CI=1 npm run test') as ShellCommand
+    expect(node.assignments).toEqual(['NODE_ENV=test', 'CI=1'])
+    expect(node.words).toEqual(['npm', 'run', 'test'])
+  })
+
+  it('parses lists with their operators', () => {
+    const node = parseShell('npm ci && npm test || echo failed; echo done')
+    expect(node.type).toBe('list')
+    expect(node.type === 'list' && node.operators).toEqual(['&&', '||', ';'])
+  })
+
+  it('drops a trailing terminator', () => {
+    const node = parseShell('npm test;')
+    expect(node.type).toBe('command')
+  })
+
+  it('parses pipelines', () => {
+    const node = parseShell('cat log.txt | grep error |& tee out.txt')
+    expect(node.type).toBe('pipeline')
+    expect(node.type === 'pipeline' && node.commands).toHaveLength(3)
+  })
+
+  it('parses redirections with file descriptors', () => {
+    const node = parseShell('npm test > out.log 2>&1 < /dev/null') as ShellCommand
+    expect(node.words).toEqual(['npm', 'test'])
+    expect(node.redirects).toEqual([
+      { op: '>', fd: undefined, target: 'out.log' },
+      { op: '>&', fd: 2, target: '1' },
+      { op: '<', fd: undefined, target: '/dev/null' },
+    ])
+  })
+
+  it('does not split a word that merely contains digits before a redirect', () => {
+    const node = parseShell('echo a2>err') as ShellCommand
+    expect(node.words).toEqual(['echo', 'a2'])
+    expect(node.redirects[0]).toMatchObject({ op: '>', target: 'err' })
+  })
+
+  it('parses subshells and groups', () => {
+    const node = parseShell('(cd src && ls) && { echo a; echo b; } > out')
+    expect(node.type === 'list' && node.items.map(item => item.type)).toEqual(['subshell', 'group'])
+  })
+
+  it('parses command substitutions recursively', () => {
+    const node = parseShell('echo "$(git rev-parse HEAD)" `whoami`') as ShellCommand
+    expect(node.substitutions).toHaveLength(2)
+    expect((node.substitutions[0] as ShellCommand).words).toEqual(['git', 'rev-parse', 'HEAD'])
+    expect((node.substitutions[1] as ShellCommand).words).toEqual(['whoami'])
+  })
+
+  it('does not treat arithmetic or single-quoted text as substitutions', () => {
+    const node = parseShell(`echo $((1 + 2)) '$(rm -rf /)'`) as ShellCommand
+    expect(node.substitutions).toHaveLength(0)
+  })
+
+  it('parses substitutions inside unquoted here-documents only', () => {
+    expect(segmentTexts('cat <<EOF\nhello $(whoami)\nEOF\nls')).toEqual(['cat <<EOF', 'whoami', 'ls'])
+    expect(segmentTexts("cat <<'EOF'\nhello $(whoami)\nEOF\nls")).toEqual(["cat <<'EOF'", 'ls'])
+  })
+
+  it('ignores comments and line continuations', () => {
+    const node = parseShell('npm test \\\n  --watch # run tests') as ShellCommand
+    expect(node.words).toEqual(['npm', 'test', '--watch'])
+  })
+
+  it('throws ShellParseError for malformed input', () => {
+    expect(() => parseShell('echo "unterminated')).toThrow(ShellParseError)
+    expect(() => parseShell("echo 'unterminated")).toThrow(ShellParseError)
+    expect(() => parseShell('echo $(ls')).toThrow(ShellParseError)
+    expect(() => parseShell('ls &&')).toThrow('Expected a command after "&&"')
+    expect(() => parseShell('(ls')).toThrow(ShellParseError)
+    expect(() => parseShell('echo >')).toThrow(ShellParseError)
+  })
+})
+
+describe('collectSegments', () => {
+  it('returns every simple command in source order', () => {
+    expect(segmentTexts('ls && (cd src; rm -rf build) | sh')).toEqual(['ls', 'cd src', 'rm -rf build', 'sh'])
+  })
+
+  it('marks commands that read from a pipe', () => {
+    const segments = collectSegments(parseShell('curl https://example.com/install.sh | bash'))
+    expect(segments.map(s => s.pipedInput)).toEqual([false, true])
+  })
+
+  it('includes substitutions after the command that contains them', () => {
+    const segments = collectSegments(parseShell('echo $(rm -rf ~) && ls'))
+    expect(segments.map(s => [s.command.text, s.substituted])).toEqual([
+      ['echo $(rm -rf ~)', false],
+      ['rm -rf ~', true],
+      ['ls', false],
+    ])
+  })
+
+  it('parses the command string of sh -c after the shell itself', () => {
+    expect(segmentTexts(`bash -c 'npm test && rm -rf build'`)).toEqual([`bash -c 'npm test && rm -rf build'`, 'npm test', 'rm -rf build'])
+    expect(segmentTexts('env sh -ec "rm -rf /etc"')).toEqual(['env sh -ec "rm -rf /etc"', 'rm -rf /etc'])
+    expect(segmentTexts('bash script.sh -c x')).toEqual(['bash script.sh -c x'])
+  })
+
+  it('strips leading keywords of if/while constructs', () => {
+    expect(segmentTexts('if grep -q x f; then rm f; fi')).toEqual(['grep -q x f', 'rm f'])
+  })
+
+  it('returns nothing for an empty command line', () => {
+    expect(segmentTexts('   ')).toEqual([])
+  })
+})
+
+describe('commandWriteTargets', () => {
+  it('finds files written, moved and deleted by known writers', () => {
+    expect(commandWriteTargets("sed -i 's/a/b/' src/app.ts src/b.ts")).toEqual(['src/app.ts', 'src/b.ts'])
+    expect(commandWriteTargets('sed -i.bak -e s/a/b/ app.ts')).toEqual(['app.ts'])
+    expect(commandWriteTargets('sed s/a/b/ app.ts > out.ts')).toEqual(['out.ts'])
+    expect(commandWriteTargets('mv old.ts new.ts && rm -rf build dist')).toEqual(['old.ts', 'new.ts', 'build', 'dist'])
+    expect(commandWriteTargets('cp -r template/ .env')).toEqual(['.env'])
+    expect(commandWriteTargets('cp -t lib a.ts b.ts')).toEqual(['lib/a.ts', 'lib/b.ts'])
+    expect(commandWriteTargets('echo hi | tee -a log.txt notes.txt')).toEqual(['log.txt', 'notes.txt'])
+    expect(commandWriteTargets('truncate -s 0 app.log; dd if=/dev/zero of=disk.img')).toEqual(['app.log', 'disk.img'])
+  })
+
+  it('resolves relative paths against earlier cd commands', () => {
+    expect(commandWriteTargets('cd packages/api && cat > index.ts << EOF\nx\nEOF')).toEqual(['packages/api/index.ts'])
+  })
+
+  it('ignores commands that only read', () => {
+    expect(commandWriteTargets('grep -r foo src && cat .env 2>/dev/null')).toEqual([])
+  })
+})
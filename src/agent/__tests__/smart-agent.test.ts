@@ -8,9 +8,11 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   SmartAgent,
   getSmartAgent,
-  resetSmartAgent
+  resetSmartAgent,
+  STEP_LEFT_TO_ASSISTANT
 } from '../smart-agent'
 import { resetAutoModeManager } from '../auto-mode-manager'
+import { containerTargets } from '../../core/dev-containers'
 
 describe('SmartAgent', () => {
   let agent: SmartAgent
@@ -213,6 +215,42 @@ npm test
     })
   })
 
+  describe('plan mode responses', () => {
+    it('should parse a plan block into steps and strip it from the text', () => {
+      const response = `I'll install dependencies, then run the tests.
+
+\`\`\`plan
+{"steps": [
+  {"description": "Install dependencies", "command": "npm install"},
+  {"description": "Check the failing test", "type": "analysis"},
+  {"description": "Run tests", "command": "npm test", "type": "test"}
+]}
+\`\`\``
+      const { plan, text } = agent.parsePlanResponse(response)
+
+      expect(text).toBe(`I'll install dependencies, then run the tests.`)
+      expect(plan?.steps.map(s => [s.id, s.type, s.command])).toEqual([
+        ['step-1', 'command', 'npm install'],
+        ['step-2', 'analysis', undefined],
+        ['step-3', 'test', 'npm test'],
+      ])
+      expect(plan?.steps.every(s => s.status === 'pending')).toBe(true)
+    })
+
+    it('should mark risky plan steps as needing approval', () => {
+      const { plan } = agent.parsePlanResponse('```plan\n{"steps": [{"description": "Wipe", "command": "sudo rm -rf /tmp/x"}]}\n```')
+
+      expect(plan?.steps[0].autoApprove).toBe(false)
+      expect(plan?.riskLevel).toBe('high')
+    })
+
+    it('should return no plan for missing or malformed plan blocks', () => {
+      expect(agent.parsePlanResponse('No plan here').plan).toBeNull()
+      expect(agent.parsePlanResponse('```plan\n{not json}\n```').plan).toBeNull()
+      expect(agent.parsePlanResponse('```plan\n{"steps": [{}]}\n```').plan).toBeNull()
+    })
+  })
+
   describe('execution history', () => {
     it('should start with empty history', () => {
       expect(agent.getExecutionHistory()).toHaveLength(0)
@@ -309,6 +347,73 @@ describe('SmartAgent with mock electronAPI', () => {
       )
     })
 
+    it('records the files a command step writes', async () => {
+      mockElectronAPI.terminal.execute.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 })
+      const step = {
+        id: 'step-1',
+        type: 'command' as const,
+        description: 'Write the config',
+        command: "cat > packages/web/config.json <<'EOF'\n{}\nEOF",
+        autoApprove: true,
+        status: 'pending' as const
+      }
+
+      await agent.executeStep(step, mockElectronAPI)
+
+      expect(agent.getEditedFiles()).toEqual(['packages/web/config.json'])
+    })
+
+    it('checkpoints the files a command step writes before it runs', async () => {
+      const order: string[] = []
+      mockElectronAPI.terminal.execute.mockImplementation(async () => {
+        order.push('execute')
+        return { stdout: '', stderr: '', exitCode: 0 }
+      })
+      const checkpoint = vi.fn(async (filePath: string) => { order.push(filePath) })
+      const step = {
+        id: 'step-1',
+        type: 'command' as const,
+        description: 'Replace the config',
+        command: 'cd packages/web && rm -f old.json && echo {} > config.json',
+        autoApprove: true,
+        status: 'pending' as const
+      }
+
+      await agent.executeStep(step, mockElectronAPI, undefined, { checkpoint })
+      expect(order).toEqual(['/test/project/packages/web/old.json', '/test/project/packages/web/config.json', 'execute'])
+
+      checkpoint.mockClear()
+      await agent.executeStep({ ...step, status: 'pending' as const }, mockElectronAPI, undefined, { checkpoint, cwd: '/worktrees/thread-1' })
+      expect(checkpoint).not.toHaveBeenCalled()
+    })
+
+    it('runs steps in the worktree on the host when given one', async () => {
+      mockElectronAPI.terminal.execute.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 })
+      mockElectronAPI.snapshots = { create: vi.fn() }
+      containerTargets.setActive('/test/project', {
+        id: 'compose:web', label: 'web (compose)', kind: 'compose', source: 'compose.yaml',
+        service: 'web', composeFiles: ['compose.yaml'], workspaceFolder: '/app', containerId: 'abc123',
+      })
+
+      try {
+        const step = {
+          id: 'step-1',
+          type: 'command' as const,
+          description: 'Drop local changes',
+          command: 'git reset --hard',
+          autoApprove: true,
+          status: 'pending' as const
+        }
+        const result = await agent.executeStep(step, mockElectronAPI, undefined, { cwd: '/worktrees/thread-1' })
+
+        expect(result.status).toBe('completed')
+        expect(mockElectronAPI.terminal.execute).toHaveBeenCalledWith('git reset --hard', '/worktrees/thread-1')
+        expect(mockElectronAPI.snapshots.create).not.toHaveBeenCalled()
+      } finally {
+        containerTargets.setActive('/test/project', null)
+      }
+    })
+
     it('should handle failed command', async () => {
       mockElectronAPI.terminal.execute.mockResolvedValue({
         stdout: '',
@@ -349,6 +454,38 @@ describe('SmartAgent with mock electronAPI', () => {
       expect(result.error).toBe('No workspace set')
     })
 
+    it('asks before running a step and fails it when the command is refused', async () => {
+      mockElectronAPI.terminal.execute.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0 })
+      const approveCommand = vi.fn().mockResolvedValue('Denied by policy rule "rm" (`rm -rf dist`)')
+
+      const step = {
+        id: 'step-1',
+        type: 'command' as const,
+        description: 'Clean',
+        command: 'rm -rf dist',
+        autoApprove: true,
+        status: 'pending' as const
+      }
+
+      const result = await agent.executeStep(step, mockElectronAPI, undefined, { approveCommand })
+
+      expect(approveCommand).toHaveBeenCalledWith('rm -rf dist')
+      expect(result.status).toBe('failed')
+      expect(result.error).toBe('Denied by policy rule "rm" (`rm -rf dist`)')
+      expect(mockElectronAPI.terminal.execute).not.toHaveBeenCalled()
+    })
+
+    it('skips steps that are not shell commands instead of reporting them done', async () => {
+      for (const type of ['file_read', 'file_write', 'analysis'] as const) {
+        const step = { id: type, type, description: 'Review src/app.ts', filePath: 'src/app.ts', autoApprove: true, status: 'pending' as const }
+        const result = await agent.executeStep(step, mockElectronAPI)
+        expect(result.status).toBe('skipped')
+        expect(result.error).toBe(STEP_LEFT_TO_ASSISTANT)
+      }
+      expect(mockElectronAPI.terminal.execute).not.toHaveBeenCalled()
+      expect(agent.getEditedFiles()).toEqual([])
+    })
+
     it('should call progress callback', async () => {
       mockElectronAPI.terminal.execute.mockResolvedValue({
         stdout: 'Success',
@@ -439,6 +576,32 @@ describe('SmartAgent with mock electronAPI', () => {
       expect(analysis.hasGit).toBe(true)
     })
 
+    it('should discover monorepo packages and scope test commands to edits', async () => {
+      const files: Record<string, string> = {
+        '/test/project/pnpm-workspace.yaml': 'packages:\n  - packages/*\n',
+        '/test/project/packages/api/package.json': JSON.stringify({ name: 'api', scripts: { test: 'vitest run' } }),
+        '/test/project/packages/web/package.json': JSON.stringify({ name: 'web', scripts: { test: 'vitest run' } }),
+      }
+      mockElectronAPI.terminal.execute.mockResolvedValue({ exitCode: 1, stdout: '', stderr: '' })
+      mockElectronAPI.fs = {
+        exists: vi.fn(async (path: string) => path in files),
+        readFile: vi.fn(async (path: string) => files[path]),
+        readDir: vi.fn(async (path: string) => path === '/test/project/packages'
+          ? [{ name: 'api', isDirectory: true }, { name: 'web', isDirectory: true }]
+          : []),
+      }
+
+      const analysis = await agent.analyzeProject(mockElectronAPI)
+
+      expect(analysis.type).toBe('node')
+      expect(analysis.workspace?.packages.map(p => p.name)).toEqual(['api', 'web'])
+      expect(agent.getTestCommand([])).toBe('pnpm test')
+      agent.recordEdits(['packages/web/src/index.ts'])
+      expect(agent.getTestCommand()).toBe('pnpm --filter web run test')
+      agent.clearExecutionHistory()
+      expect(agent.getEditedFiles()).toEqual([])
+    })
+
     it('should throw without workspace', async () => {
       const noWorkspaceAgent = new SmartAgent()
       
@@ -0,0 +1,149 @@
+/**
+ * Workspace Graph Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  discoverWorkspaceGraph,
+  formatWorkspaceGraph,
+  packagesForFiles,
+  parseGoWork,
+  parseGradleSettings,
+  parsePnpmWorkspace,
+  scopedCommandForFiles,
+  type WorkspaceFileReader,
+} from '../workspace-graph'
+
+const ROOT = '/repo'
+
+/** In-memory reader over a { 'relative/path': content } map; directories are implied */
+function memoryReader(files: Record<string, string>): WorkspaceFileReader {
+  const paths = Object.keys(files)
+  const relative = (path: string) => path === ROOT ? '' : path.slice(ROOT.length + 1)
+  return {
+    async readFile(path) {
+      return files[relative(path)] ?? null
+    },
+    async exists(path) {
+      return relative(path) in files
+    },
+    async listDirectories(path) {
+      const prefix = relative(path) ? `${relative(path)}/` : ''
+      const dirs = paths
+        .filter(p => p.startsWith(prefix) && p.slice(prefix.length).includes('/'))
+        .map(p => p.slice(prefix.length).split('/')[0])
+      return [...new Set(dirs)]
+    },
+  }
+}
+
+const pkg = (name: string, extra: Record<string, unknown> = {}) => JSON.stringify({ name, ...extra })
+
+const PNPM_TURBO = {
+  'package.json': pkg('root', { private: true }),
+  'turbo.json': '{}',
+  'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n  - \"apps/**\"  # apps\n  - '!**/fixtures/**'\n",
+  'packages/core/package.json': pkg('@acme/core', { scripts: { test: 'vitest run', build: 'tsup' } }),
+  'packages/ui/package.json': pkg('@acme/ui', { scripts: { test: 'vitest run' }, dependencies: { '@acme/core': 'workspace:*', react: '^18' } }),
+  'apps/web/package.json': pkg('web', { scripts: { build: 'next build' }, dependencies: { '@acme/ui': 'workspace:*' } }),
+  'apps/web/fixtures/demo/package.json': pkg('demo'),
+}
+
+describe('workspace manifests', () => {
+  it('reads pnpm, gradle and go.work package lists', () => {
+    expect(parsePnpmWorkspace(PNPM_TURBO['pnpm-workspace.yaml'])).toEqual(['packages/*', 'apps/**', '!**/fixtures/**'])
+    expect(parseGradleSettings("rootProject.name = 'shop'\ninclude ':app', ':lib:core'\ninclude(\"feature\")")).toEqual([':app', ':lib:core', ':feature'])
+    expect(parseGoWork('go 1.22\n\nuse (\n\t./api\n\t./shared // libs\n)\nuse ./tools\n')).toEqual(['api', 'shared', 'tools'])
+  })
+})
+
+describe('discoverWorkspaceGraph', () => {
+  it('builds the pnpm package graph with turbo-scoped commands', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader(PNPM_TURBO)))!
+    expect(graph.tools).toEqual(['pnpm'])
+    expect(graph.turbo).toBe(true)
+    expect(graph.packages.map(p => [p.name, p.path, p.dependencies])).toEqual([
+      ['web', 'apps/web', ['@acme/ui']],
+      ['@acme/core', 'packages/core', []],
+      ['@acme/ui', 'packages/ui', ['@acme/core']],
+    ])
+    expect(graph.packages[1]).toMatchObject({
+      type: 'node',
+      testCommand: 'npx turbo run test --filter=@acme/core',
+      buildCommand: 'npx turbo run build --filter=@acme/core',
+    })
+    expect(graph.packages[0].testCommand).toBeNull()
+  })
+
+  it('detects yarn and npm workspaces from package.json', async () => {
+    const files = {
+      'package.json': pkg('root', { workspaces: { packages: ['libs/*'] } }),
+      'libs/a/package.json': pkg('a', { scripts: { test: 'jest' } }),
+    }
+    const npm = (await discoverWorkspaceGraph(ROOT, memoryReader(files)))!
+    expect(npm.packages[0]).toMatchObject({ tool: 'npm', testCommand: 'npm run test -w libs/a' })
+
+    const yarn = (await discoverWorkspaceGraph(ROOT, memoryReader({ ...files, 'yarn.lock': '' })))!
+    expect(yarn.packages[0]).toMatchObject({ tool: 'yarn', testCommand: 'yarn workspace a run test' })
+  })
+
+  it('reads Cargo workspaces, honoring exclude', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader({
+      'Cargo.toml': '[workspace]\nmembers = [\n  "crates/*",\n]\nexclude = ["crates/scratch"]\n',
+      'crates/core/Cargo.toml': '[package]\nname = "shop-core"\nversion = "0.1.0"\n',
+      'crates/cli/Cargo.toml': '[package]\nname = "shop-cli"\n\n[dependencies]\nshop-core = { path = "../core" }\nclap = "4"\n',
+      'crates/scratch/Cargo.toml': '[package]\nname = "scratch"\n',
+    })))!
+    expect(graph.packages.map(p => [p.name, p.dependencies, p.testCommand])).toEqual([
+      ['shop-cli', ['shop-core'], 'cargo test -p shop-cli'],
+      ['shop-core', [], 'cargo test -p shop-core'],
+    ])
+  })
+
+  it('reads Gradle multi-project builds and Go workspaces', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader({
+      'settings.gradle.kts': 'include(":app", ":lib:core")',
+      'app/build.gradle.kts': 'plugins { id("com.android.application") }\ndependencies { implementation(project(":lib:core")) }',
+      'lib/core/build.gradle.kts': 'plugins { kotlin("jvm") }',
+      'go.work': 'use (\n\t./svc\n)',
+      'svc/go.mod': 'module example.com/svc\n',
+    })))!
+    expect(graph.tools).toEqual(['gradle', 'go'])
+    expect(graph.packages.map(p => [p.name, p.path, p.type, p.dependencies])).toEqual([
+      [':app', 'app', 'android', [':lib:core']],
+      [':lib:core', 'lib/core', 'java', []],
+      ['example.com/svc', 'svc', 'go', []],
+    ])
+    expect(graph.packages[2].testCommand).toBe('go test ./svc/...')
+  })
+
+  it('returns null for a single-project workspace', async () => {
+    expect(await discoverWorkspaceGraph(ROOT, memoryReader({ 'package.json': pkg('app') }))).toBeNull()
+  })
+})
+
+describe('scoping to edited files', () => {
+  it('covers the touched packages and their dependents', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader(PNPM_TURBO)))!
+    expect(packagesForFiles(graph, ['/repo/packages/ui/src/Button.tsx'], ROOT)?.map(p => p.name)).toEqual(['@acme/ui'])
+    expect(scopedCommandForFiles(graph, ['packages/core/src/index.ts'], 'test', ROOT))
+      .toBe('npx turbo run test --filter=@acme/core --filter=@acme/ui')
+    expect(scopedCommandForFiles(graph, ['packages/core/src/index.ts'], 'build', ROOT))
+      .toBe('npx turbo run build --filter=web --filter=@acme/core')
+  })
+
+  it('falls back to the whole workspace when a file is outside every package', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader(PNPM_TURBO)))!
+    expect(scopedCommandForFiles(graph, ['packages/ui/a.ts', 'tsconfig.base.json'], 'test', ROOT)).toBeNull()
+  })
+
+  it('groups cargo packages into one command', async () => {
+    const graph = (await discoverWorkspaceGraph(ROOT, memoryReader({
+      'Cargo.toml': '[workspace]\nmembers = ["a", "b"]',
+      'a/Cargo.toml': '[package]\nname = "a"',
+      'b/Cargo.toml': '[package]\nname = "b"\n[dev-dependencies.a]\npath = "../a"',
+    })))!
+    expect(scopedCommandForFiles(graph, ['a/src/lib.rs'], 'test')).toBe('cargo test -p a -p b')
+    expect(formatWorkspaceGraph(graph)).toBe('Monorepo (cargo) with 2 packages:\n- a (a, rust)\n- b (b, rust) → a')
+  })
+})
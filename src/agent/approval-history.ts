@@ -0,0 +1,105 @@
+/**
+ * Approval History
+ *
+ * What the user approved and denied in a workspace, keyed by normalized
+ * command ("npm test", "git status"). Commands approved often enough are
+ * suggested as learned rules, which AutoModeManager then treats like its
+ * built-in trusted commands. Plain data — the renderer persists it through
+ * workspace storage (data.json, key "approvalHistory").
+ */
+
+export const APPROVAL_HISTORY_VERSION = 1
+export const DEFAULT_SUGGEST_AFTER = 5
+const MAX_RECORDS = 500
+
+export interface ApprovalRecord {
+  approvals: number
+  denials: number
+  /** Approvals since the last denial — a denial resets the suggestion */
+  streak: number
+  executions: number
+  lastUsed: number
+}
+
+export interface LearnedRule {
+  /** Leading words a command must start with, e.g. "npm run build" */
+  pattern: string
+  createdAt: number
+}
+
+export interface ApprovalHistory {
+  version: number
+  /** Consecutive approvals before a command is suggested for trust */
+  suggestAfter: number
+  records: Record<string, ApprovalRecord>
+  rules: LearnedRule[]
+  /** Suggestions the user declined; not offered again */
+  dismissed: string[]
+  /** Commands auto-executed since the last task started, checked against maxAutoExecutions */
+  executionCount: number
+}
+
+export function createApprovalHistory(): ApprovalHistory {
+  return { version: APPROVAL_HISTORY_VERSION, suggestAfter: DEFAULT_SUGGEST_AFTER, records: {}, rules: [], dismissed: [], executionCount: 0 }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0
+}
+
+/**
+ * Rebuild a history from stored JSON, dropping anything malformed instead of
+ * failing — a damaged file only costs the user their counts.
+ */
+export function normalizeApprovalHistory(raw: unknown): ApprovalHistory {
+  const history = createApprovalHistory()
+  if (!isObject(raw)) return history
+
+  if (typeof raw.suggestAfter === 'number' && raw.suggestAfter >= 1) {
+    history.suggestAfter = Math.floor(raw.suggestAfter)
+  }
+  if (isObject(raw.records)) {
+    for (const [key, record] of Object.entries(raw.records)) {
+      if (!isObject(record)) continue
+      history.records[key] = {
+        approvals: count(record.approvals),
+        denials: count(record.denials),
+        streak: count(record.streak),
+        executions: count(record.executions),
+        lastUsed: count(record.lastUsed),
+      }
+    }
+  }
+  if (Array.isArray(raw.rules)) {
+    for (const rule of raw.rules) {
+      const pattern = isObject(rule) && typeof rule.pattern === 'string' ? normalizePattern(rule.pattern) : ''
+      if (pattern && !history.rules.some(r => r.pattern === pattern)) {
+        history.rules.push({ pattern, createdAt: count((rule as Record<string, unknown>).createdAt) })
+      }
+    }
+  }
+  if (Array.isArray(raw.dismissed)) {
+    history.dismissed = raw.dismissed.filter((key): key is string => typeof key === 'string')
+  }
+  history.executionCount = count(raw.executionCount)
+  return history
+}
+
+/** Collapse whitespace and lower-case, the form rules and keys are compared in */
+export function normalizePattern(pattern: string): string {
+  return pattern.trim().split(/\s+/).filter(Boolean).join(' ').toLowerCase()
+}
+
+/** Keep the history bounded by forgetting the least recently used commands */
+export function pruneRecords(history: ApprovalHistory): void {
+  const keys = Object.keys(history.records)
+  if (keys.length <= MAX_RECORDS) return
+  keys
+    .sort((a, b) => history.records[a].lastUsed - history.records[b].lastUsed)
+    .slice(0, keys.length - MAX_RECORDS)
+    .forEach(key => { delete history.records[key] })
+}
@@ -11,6 +11,16 @@
  * Works on Mac, Windows, and Linux
  */
 
+import { collectSegments, outputTargets, parseShell, unwrapCommand, type ShellSegment } from './shell-parser'
+import {
+  createApprovalHistory,
+  normalizeApprovalHistory,
+  normalizePattern,
+  pruneRecords,
+  type ApprovalHistory,
+  type ApprovalRecord,
+} from './approval-history'
+
 export type AutoModeLevel = 'conservative' | 'balanced' | 'aggressive'
 
 export interface AutoModeConfig {
@@ -26,6 +36,75 @@ export interface CommandSafetyResult {
   safe: boolean
   reason: string
   riskLevel: 'low' | 'medium' | 'high' | 'critical'
+  /** Source text of the segment that decided the risk level */
+  segment?: string
+}
+
+type RiskLevel = CommandSafetyResult['riskLevel']
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+// Files that are never written without asking, by path or redirect
+const SENSITIVE_PATH_PATTERNS = [
+  '.env', '.env.local', '.env.production',
+  'credentials', 'secrets', 'password',
+  '.ssh', '.aws', '.gcloud',
+  'id_rsa', 'id_ed25519',
+]
+
+// Programs that run whatever arrives on stdin as code (`curl … | sh`)
+const SHELL_INTERPRETERS = new Set([
+  'sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'csh', 'tcsh',
+  'python', 'python2', 'python3', 'node', 'perl', 'ruby', 'php',
+  'pwsh', 'powershell', 'iex', 'invoke-expression',
+])
+
+// Interpreter flags that take the program from the next argument instead of stdin
+const PROGRAM_FLAGS = new Set(['-c', '-m', '-e', '-p', '-E', '--eval', '--print', '-Command', '-command'])
+
+const ELEVATION_COMMANDS = new Set(['sudo', 'doas', 'pkexec', 'runas'])
+
+// Env prefixes that change what actually gets executed
+const SENSITIVE_ENV_VARS = new Set([
+  'PATH', 'LD_PRELOAD', 'LD_LIBRARY_PATH', 'NODE_OPTIONS', 'BASH_ENV', 'ENV',
+  'PROMPT_COMMAND', 'GIT_SSH_COMMAND', 'PYTHONSTARTUP',
+])
+
+// Programs whose first argument names the action, so `git push` and `git status` are learned apart
+const SUBCOMMAND_PROGRAMS = new Set([
+  'git', 'gh', 'npm', 'pnpm', 'yarn', 'bun', 'npx', 'pnpx', 'cargo', 'go', 'dotnet',
+  'docker', 'podman', 'kubectl', 'helm', 'terraform', 'pip', 'pip3', 'poetry', 'uv',
+  'brew', 'make', 'gradle', 'mvn', 'composer', 'bundle', 'rails', 'deno',
+])
+
+// `npm run build` and `npm run deploy` are different commands
+const SCRIPT_RUNNERS = new Set(['npm', 'pnpm', 'yarn', 'bun'])
+
+/** Interpreter reads its program from stdin: no script argument and no -c/-e */
+function readsProgramFromStdin(args: string[]): boolean {
+  for (const arg of args) {
+    if (arg === '--') return true
+    if (PROGRAM_FLAGS.has(arg) || !arg.startsWith('-')) return false
+  }
+  return true
+}
+
+/** Recursive or forced `rm` of an absolute path or the home directory — `rm -rf /usr`, `rm -f ~/x` */
+function removesOutsideWorkspace(args: string[]): boolean {
+  const dashDash = args.indexOf('--')
+  const options = dashDash < 0 ? args : args.slice(0, dashDash)
+  const forcedOrRecursive = options.some(arg =>
+    /^-[a-zA-Z]*[rRf]/.test(arg) || arg === '--recursive' || arg === '--force')
+  if (!forcedOrRecursive) return false
+  const paths = dashDash < 0 ? args.filter(arg => !arg.startsWith('-')) : args.slice(dashDash + 1)
+  return paths.some(path =>
+    path.startsWith('/') || path.startsWith('~') || /^\$\{?HOME\b/.test(path) || /^[A-Za-z]:[\\/]/.test(path))
+}
+
+/** Pattern appears as whole words (or a path component) rather than inside another word */
+function containsPattern(text: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[\\s/"'=])${escaped}($|[\\s/"'*;])`).test(text)
 }
 
 /**
@@ -35,8 +114,8 @@ export interface CommandSafetyResult {
  */
 export class AutoModeManager {
   private config: AutoModeConfig
-  private executionCount: number = 0
-  private approvalHistory: Map<string, { count: number; lastUsed: number }> = new Map()
+  private history: ApprovalHistory = createApprovalHistory()
+  private historyListeners = new Set<(history: ApprovalHistory) => void>()
 
   constructor(config?: Partial<AutoModeConfig>) {
     this.config = {
@@ -194,7 +273,7 @@ export class AutoModeManager {
     }
 
     // Check execution limit
-    if (this.executionCount >= this.config.maxAutoExecutions) {
+    if (this.history.executionCount >= this.config.maxAutoExecutions) {
       console.log('⚠️ Auto-execution limit reached')
       return false
     }
@@ -203,8 +282,8 @@ export class AutoModeManager {
 
     switch (this.config.level) {
       case 'conservative':
-        // Only auto-approve explicitly trusted commands
-        return safety.riskLevel === 'low' && this.isTrustedCommand(command)
+        // Only auto-approve explicitly trusted commands (every segment must be trusted)
+        return safety.riskLevel === 'low'
 
       case 'balanced':
         // Auto-approve low and medium risk commands
@@ -220,24 +299,13 @@ export class AutoModeManager {
   }
 
   /**
-   * Analyze command safety
+   * Analyze command safety.
+   * The command is parsed into a shell AST and every segment — each side of
+   * `&&`/`;`/`|`, subshells and `$(…)` — is classified on its own. The worst
+   * segment decides, so `ls && rm -rf build` is not trusted because of `ls`.
    */
   public analyzeCommandSafety(command: string): CommandSafetyResult {
-    const normalizedCommand = command.toLowerCase().trim()
-
-    // Check for critical risk patterns
-    for (const risky of this.config.riskyCommands) {
-      if (normalizedCommand.includes(risky.toLowerCase())) {
-        return {
-          safe: false,
-          reason: `Contains risky pattern: ${risky}`,
-          riskLevel: 'critical'
-        }
-      }
-    }
-
-    // Check for sudo/admin
-    if (normalizedCommand.startsWith('sudo ') || normalizedCommand.includes('as administrator')) {
+    if (command.toLowerCase().includes('as administrator')) {
       return {
         safe: false,
         reason: 'Requires elevated privileges',
@@ -245,71 +313,163 @@ export class AutoModeManager {
       }
     }
 
-    // Check for piped execution
-    if (normalizedCommand.includes('| sh') || normalizedCommand.includes('| bash')) {
+    let segments: ShellSegment[]
+    try {
+      segments = collectSegments(parseShell(command))
+    } catch (error) {
+      // Functions, case clauses and other syntax the parser can't read could
+      // hide anything, so no level approves them without asking
       return {
         safe: false,
-        reason: 'Piped shell execution is dangerous',
+        reason: `Could not parse command: ${(error as Error).message}`,
         riskLevel: 'critical'
       }
     }
 
-    // Check for trusted commands
-    if (this.isTrustedCommand(command)) {
+    if (segments.length === 0) {
       return {
         safe: true,
-        reason: 'Trusted command pattern',
+        reason: 'Empty command',
         riskLevel: 'low'
       }
     }
 
-    // Check for commands requiring confirmation
+    let worst = this.classifySegment(segments[0])
+    for (const segment of segments.slice(1)) {
+      const result = this.classifySegment(segment)
+      if (RISK_ORDER[result.riskLevel] > RISK_ORDER[worst.riskLevel]) {
+        worst = result
+      }
+    }
+    return worst
+  }
+
+  /**
+   * Classify a single simple command
+   */
+  private classifySegment({ command, pipedInput }: ShellSegment): CommandSafetyResult {
+    const text = command.text
+    const result = (riskLevel: RiskLevel, reason: string): CommandSafetyResult => ({
+      safe: riskLevel !== 'critical' && riskLevel !== 'high',
+      reason: `${reason} (\`${text}\`)`,
+      riskLevel,
+      segment: text
+    })
+
+    // Check for critical risk patterns
+    const normalizedText = text.toLowerCase()
+    for (const risky of this.config.riskyCommands) {
+      if (containsPattern(normalizedText, risky.toLowerCase())) {
+        return result('critical', `Contains risky pattern: ${risky}`)
+      }
+    }
+
+    const words = unwrapCommand(command.words)
+    // `/usr/bin/sudo` is still sudo (no path module — this also runs in the renderer)
+    const program = words.length > 0 ? words[0].replace(/^.*[\\/]/, '').toLowerCase() : ''
+
+    // Check for sudo/admin
+    if (ELEVATION_COMMANDS.has(program)) {
+      return result('critical', 'Requires elevated privileges')
+    }
+
+    if (program === 'rm' && removesOutsideWorkspace(words.slice(1))) {
+      return result('critical', 'Deletes outside the workspace')
+    }
+
+    // Check for piped execution (`curl … | sh`) and `bash <(curl …)`
+    if (SHELL_INTERPRETERS.has(program)) {
+      const args = words.slice(1)
+      if (pipedInput && readsProgramFromStdin(args)) {
+        return result('critical', 'Piped shell execution is dangerous')
+      }
+      if (args.some(arg => arg.startsWith('<('))) {
+        return result('critical', 'Executes the output of another command')
+      }
+    }
+
+    if (program === 'eval') {
+      return result('high', 'Evaluates dynamically built code')
+    }
+
+    const overridden = command.assignments
+      .map(assignment => assignment.slice(0, assignment.indexOf('=')).replace(/[+[].*$/, ''))
+      .find(name => SENSITIVE_ENV_VARS.has(name) || name.startsWith('DYLD_'))
+    if (overridden) {
+      return result('high', `Overrides ${overridden}`)
+    }
+
+    const written = outputTargets(command)
+    const sensitiveTarget = written.find(target =>
+      SENSITIVE_PATH_PATTERNS.some(pattern => target.toLowerCase().includes(pattern)))
+    if (sensitiveTarget) {
+      return result('high', `Writes to sensitive file ${sensitiveTarget}`)
+    }
+
+    // Commands that always ask, whatever was learned
     for (const confirm of this.config.requireConfirmationFor) {
-      if (normalizedCommand.startsWith(confirm.toLowerCase())) {
-        return {
-          safe: true,
-          reason: `Requires confirmation: ${confirm}`,
-          riskLevel: 'medium'
-        }
+      if (this.startsWithWords(words, confirm)) {
+        return result('medium', `Requires confirmation: ${confirm}`)
       }
     }
 
-    // Default: medium risk for unknown commands
-    return {
-      safe: true,
-      reason: 'Unknown command - proceed with caution',
-      riskLevel: 'medium'
+    // Check for trusted commands (a redirect still writes a file)
+    const learned = words.length > 0 ? this.findLearnedRule(words) : undefined
+    if (words.length === 0 || learned || this.isTrustedCommand(words)) {
+      if (written.length > 0) {
+        return result('medium', `Writes to ${written[0]}`)
+      }
+      if (words.length === 0) return result('low', 'Variable assignment')
+      return result('low', learned ? `Learned rule: ${learned}` : 'Trusted command pattern')
     }
+
+    // Default: medium risk for unknown commands
+    return result('medium', 'Unknown command - proceed with caution')
   }
 
   /**
-   * Check if command matches trusted patterns
+   * Check if command words match trusted patterns
    */
-  private isTrustedCommand(command: string): boolean {
-    const normalizedCommand = command.toLowerCase().trim()
-    
-    for (const trusted of this.config.trustedCommands) {
-      if (normalizedCommand.startsWith(trusted.toLowerCase())) {
-        return true
-      }
-    }
-    
-    return false
+  private isTrustedCommand(words: string[]): boolean {
+    return this.config.trustedCommands.some(trusted => this.startsWithWords(words, trusted))
+  }
+
+  /**
+   * Learned rule (approved often enough and trusted by the user) matching the command words
+   */
+  private findLearnedRule(words: string[]): string | undefined {
+    return this.history.rules.find(rule => this.canLearn(rule.pattern) && this.startsWithWords(words, rule.pattern))?.pattern
+  }
+
+  /**
+   * Whether a pattern may become a learned rule. Not a bare shell interpreter
+   * (`python` would trust `python -c …`), nothing run with elevation, and
+   * nothing that overlaps a command that always asks (`rm`, `npm install`).
+   */
+  private canLearn(pattern: string): boolean {
+    const words = normalizePattern(pattern).split(' ')
+    const program = words[0].replace(/^.*[\\/]/, '')
+    if (!program || ELEVATION_COMMANDS.has(program)) return false
+    if (words.length === 1 && SHELL_INTERPRETERS.has(program)) return false
+    return !this.config.requireConfirmationFor.some(confirm =>
+      this.startsWithWords(words, confirm) || this.startsWithWords(confirm.split(/\s+/), words.join(' ')))
+  }
+
+  /**
+   * Whole-word prefix match, so `ls` does not match `lsof`
+   */
+  private startsWithWords(words: string[], pattern: string): boolean {
+    const patternWords = pattern.toLowerCase().split(/\s+/)
+    return patternWords.length <= words.length &&
+      patternWords.every((word, i) => words[i].toLowerCase() === word)
   }
 
   /**
    * Record command execution for learning
    */
   public recordExecution(command: string, success: boolean): void {
-    this.executionCount++
-    
-    const key = this.getCommandKey(command)
-    const existing = this.approvalHistory.get(key) || { count: 0, lastUsed: 0 }
-    
-    this.approvalHistory.set(key, {
-      count: existing.count + 1,
-      lastUsed: Date.now()
-    })
+    this.history.executionCount++
+    this.updateRecords(command, record => { record.executions++ })
 
     if (success) {
       console.log(`✅ Command executed successfully: ${command.substring(0, 50)}...`)
@@ -318,20 +478,188 @@ export class AutoModeManager {
     }
   }
 
+  /**
+   * Record the user's answer to an approval prompt. A denial resets the
+   * approval streak, so a command that was ever refused has to earn trust again.
+   */
+  public recordDecision(command: string, approved: boolean): void {
+    this.updateRecords(command, record => {
+      if (approved) {
+        record.approvals++
+        record.streak++
+      } else {
+        record.denials++
+        record.streak = 0
+      }
+    })
+  }
+
+  private updateRecords(command: string, update: (record: ApprovalRecord) => void): void {
+    // Unparseable commands have no keys, but recordExecution still counted them
+    for (const key of this.getCommandKeys(command)) {
+      const record = this.history.records[key] ?? { approvals: 0, denials: 0, streak: 0, executions: 0, lastUsed: 0 }
+      update(record)
+      record.lastUsed = Date.now()
+      this.history.records[key] = record
+    }
+    pruneRecords(this.history)
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * Normalized keys for each segment: the program, plus the subcommand for
+   * tools like git and npm (`git status`, `npm run build`). Unparseable
+   * commands have no keys and are never learned.
+   */
+  public getCommandKeys(command: string): string[] {
+    let segments: ShellSegment[]
+    try {
+      segments = collectSegments(parseShell(command))
+    } catch {
+      return []
+    }
+    const keys = segments
+      .map(segment => unwrapCommand(segment.command.words))
+      .filter(words => words.length > 0)
+      .map(words => this.getCommandKey(words))
+    return [...new Set(keys)]
+  }
+
   /**
    * Get normalized command key for tracking
    */
-  private getCommandKey(command: string): string {
-    // Extract the base command (first word)
-    const parts = command.trim().split(/\s+/)
-    return parts[0].toLowerCase()
+  private getCommandKey(words: string[]): string {
+    const program = words[0].replace(/^.*[\\/]/, '').toLowerCase()
+    const args = words.slice(1).filter(word => !word.startsWith('-'))
+    if (!SUBCOMMAND_PROGRAMS.has(program) || !args[0] || !/^[a-z][\w:.-]*$/i.test(args[0])) {
+      return program
+    }
+    if (args[0] === 'run' && SCRIPT_RUNNERS.has(program) && args[1]) {
+      return normalizePattern(`${program} run ${args[1]}`)
+    }
+    return normalizePattern(`${program} ${args[0]}`)
+  }
+
+  /**
+   * Pattern to offer for permanent trust after this command was approved, or
+   * null. Needs `suggestAfter` approvals in a row, skips anything already
+   * trusted, declined or not learnable, and never offers high-risk commands.
+   */
+  public getTrustSuggestion(command: string): string | null {
+    const risk = this.analyzeCommandSafety(command).riskLevel
+    if (risk === 'high' || risk === 'critical') return null
+
+    for (const key of this.getCommandKeys(command)) {
+      const record = this.history.records[key]
+      if (!record || record.streak < this.history.suggestAfter) continue
+      if (this.history.dismissed.includes(key) || !this.canLearn(key)) continue
+      const words = key.split(' ')
+      if (this.findLearnedRule(words) || this.isTrustedCommand(words)) continue
+      return key
+    }
+    return null
+  }
+
+  /**
+   * Trust a pattern permanently in this workspace. Returns false for an empty,
+   * duplicate or unlearnable pattern.
+   */
+  public addLearnedRule(pattern: string): boolean {
+    const normalized = normalizePattern(pattern)
+    if (!normalized || !this.canLearn(normalized) || this.history.rules.some(rule => rule.pattern === normalized)) return false
+    this.history.rules.push({ pattern: normalized, createdAt: Date.now() })
+    this.history.dismissed = this.history.dismissed.filter(key => key !== normalized)
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /**
+   * Change a learned rule's pattern. Returns false when the rule is missing or
+   * the new pattern is empty, unlearnable or already used by another rule.
+   */
+  public updateLearnedRule(pattern: string, newPattern: string): boolean {
+    const rule = this.history.rules.find(r => r.pattern === pattern)
+    const normalized = normalizePattern(newPattern)
+    if (!rule || !normalized || !this.canLearn(normalized)) return false
+    if (normalized !== pattern && this.history.rules.some(r => r.pattern === normalized)) return false
+    rule.pattern = normalized
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /**
+   * Revoke a learned rule; the command goes back to needing approval
+   */
+  public revokeLearnedRule(pattern: string): void {
+    const before = this.history.rules.length
+    this.history.rules = this.history.rules.filter(rule => rule.pattern !== pattern)
+    if (this.history.records[pattern]) this.history.records[pattern].streak = 0
+    if (this.history.rules.length !== before) this.notifyHistoryChange()
+  }
+
+  /**
+   * Stop suggesting a pattern the user declined to trust
+   */
+  public dismissTrustSuggestion(pattern: string): void {
+    if (this.history.dismissed.includes(pattern)) return
+    this.history.dismissed.push(pattern)
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * Set how many approvals in a row lead to a trust suggestion
+   */
+  public setSuggestAfter(approvals: number): void {
+    if (!Number.isFinite(approvals) || approvals < 1) return
+    this.history.suggestAfter = Math.floor(approvals)
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * Forget approval counts and declined suggestions; learned rules stay
+   */
+  public clearApprovalRecords(): void {
+    this.history.records = {}
+    this.history.dismissed = []
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * Copy of the approval history, for persistence and display
+   */
+  public getApprovalHistory(): ApprovalHistory {
+    return normalizeApprovalHistory(this.history)
+  }
+
+  /**
+   * Replace the approval history (e.g. with the stored one when a workspace
+   * opens). Listeners are not notified — nothing changed that needs saving.
+   */
+  public loadApprovalHistory(history: unknown): void {
+    this.history = normalizeApprovalHistory(history)
+  }
+
+  /**
+   * Listen for approval history changes; returns an unsubscribe function
+   */
+  public onApprovalHistoryChange(listener: (history: ApprovalHistory) => void): () => void {
+    this.historyListeners.add(listener)
+    return () => { this.historyListeners.delete(listener) }
+  }
+
+  private notifyHistoryChange(): void {
+    if (this.historyListeners.size === 0) return
+    const snapshot = this.getApprovalHistory()
+    for (const listener of this.historyListeners) listener(snapshot)
   }
 
   /**
    * Reset execution count (call at start of new task)
    */
   public resetExecutionCount(): void {
-    this.executionCount = 0
+    if (this.history.executionCount === 0) return
+    this.history.executionCount = 0
+    this.notifyHistoryChange()
   }
 
   /**
@@ -344,7 +672,7 @@ export class AutoModeManager {
     enabled: boolean
   } {
     return {
-      executionCount: this.executionCount,
+      executionCount: this.history.executionCount,
       maxExecutions: this.config.maxAutoExecutions,
       level: this.config.level,
       enabled: this.config.enabled
@@ -368,15 +696,8 @@ export class AutoModeManager {
     }
 
     // Check for sensitive files
-    const sensitivePatterns = [
-      '.env', '.env.local', '.env.production',
-      'credentials', 'secrets', 'password',
-      '.ssh', '.aws', '.gcloud',
-      'id_rsa', 'id_ed25519',
-    ]
-
     const normalizedPath = filePath.toLowerCase()
-    for (const pattern of sensitivePatterns) {
+    for (const pattern of SENSITIVE_PATH_PATTERNS) {
       if (normalizedPath.includes(pattern)) {
         return false // Never auto-approve sensitive file operations
       }
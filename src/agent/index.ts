@@ -18,10 +18,25 @@ export type {
   CommandSafetyResult,
 } from './auto-mode-manager'
 
+export { createApprovalHistory, normalizeApprovalHistory, DEFAULT_SUGGEST_AFTER } from './approval-history'
+export type { ApprovalHistory, ApprovalRecord, LearnedRule } from './approval-history'
+
+export { parseShell, collectSegments, fileWriteTargets, commandWriteTargets, ShellParseError } from './shell-parser'
+export type {
+  ShellNode,
+  ShellCommand,
+  ShellPipeline,
+  ShellList,
+  ShellGroup,
+  ShellRedirect,
+  ShellSegment,
+} from './shell-parser'
+
 export {
   SmartAgent,
   getSmartAgent,
-  resetSmartAgent
+  resetSmartAgent,
+  PLAN_MODE_INSTRUCTIONS
 } from './smart-agent'
 export type {
   FileInfo,
@@ -31,3 +46,19 @@ export type {
   ExecutionStep,
 } from './smart-agent'
 
+
+export {
+  discoverWorkspaceGraph,
+  packagesForFiles,
+  withDependents,
+  scopedCommand,
+  scopedCommandForFiles,
+  formatWorkspaceGraph,
+} from './workspace-graph'
+export type {
+  MonorepoTool,
+  WorkspacePackage,
+  WorkspaceGraph,
+  WorkspaceFileReader,
+  ScopedTask,
+} from './workspace-graph'
@@ -0,0 +1,689 @@
+/**
+ * Shell Parser for AIBuddy Desktop
+ *
+ * Parses a POSIX shell command line into an AST so command safety can be
+ * judged per segment instead of by substring:
+ * - Lists joined by `&&`, `||`, `;`, `&` and newlines
+ * - Pipelines (`|`, `|&`)
+ * - Subshells `( … )` and groups `{ …; }`
+ * - Simple commands with env prefixes (`FOO=1 cmd`) and redirections
+ * - `$(…)`, backtick and `<(…)`/`>(…)` substitutions, parsed recursively
+ * - The command string of `sh -c '…'` (bash, zsh, dash, ksh too), parsed recursively
+ *
+ * Nothing is expanded or executed — words are unquoted, not evaluated.
+ * Function definitions and `case` are not supported and fail to parse.
+ */
+
+export type ListOperator = '&&' | '||' | ';' | '&'
+
+export interface ShellRedirect {
+  /** `>`, `>>`, `<`, `<<`, `<<<`, `>&`, `&>` … */
+  op: string
+  /** Explicit file descriptor, e.g. 2 in `2>&1` */
+  fd?: number
+  target: string
+}
+
+export interface ShellCommand {
+  type: 'command'
+  /** `NAME=value` env prefixes */
+  assignments: string[]
+  /** Unquoted words; words[0] is the program */
+  words: string[]
+  redirects: ShellRedirect[]
+  /** Commands inside `$(…)`, backticks and process substitutions */
+  substitutions: ShellNode[]
+  /** Source text of this command */
+  text: string
+}
+
+export interface ShellPipeline {
+  type: 'pipeline'
+  commands: ShellNode[]
+}
+
+export interface ShellList {
+  type: 'list'
+  items: ShellNode[]
+  /** operators[i] joins items[i] and items[i + 1] */
+  operators: ListOperator[]
+}
+
+export interface ShellGroup {
+  type: 'subshell' | 'group'
+  body: ShellNode
+  redirects: ShellRedirect[]
+}
+
+export type ShellNode = ShellCommand | ShellPipeline | ShellList | ShellGroup
+
+/** A simple command together with where it sits in the command line */
+export interface ShellSegment {
+  command: ShellCommand
+  /** Reads stdin from an earlier pipeline stage */
+  pipedInput: boolean
+  /** Runs inside a `$(…)`, backtick or process substitution */
+  substituted: boolean
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message)
+    this.name = 'ShellParseError'
+  }
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+interface WordToken {
+  kind: 'word'
+  value: string
+  raw: string
+  start: number
+  end: number
+  substitutions: string[]
+}
+
+interface OperatorToken {
+  kind: 'op'
+  value: string
+  start: number
+  end: number
+}
+
+interface RedirectToken {
+  kind: 'redirect'
+  op: string
+  fd?: number
+  start: number
+  end: number
+}
+
+type Token = WordToken | OperatorToken | RedirectToken
+
+// Longest first so `&&` wins over `&`
+const OPERATORS = [
+  '&&', '||', '|&', '&>>', '&>', '>>', '>&', '>|', '<<<', '<<-', '<<', '<&', '<>',
+  '|', '&', ';', '(', ')', '<', '>', '\n',
+]
+const REDIRECT_OPERATORS = new Set(['&>>', '&>', '>>', '>&', '>|', '<<<', '<<-', '<<', '<&', '<>', '<', '>'])
+const WORD_BREAK = new Set([' ', '\t', '\n', '|', '&', ';', '(', ')', '<', '>'])
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  const pendingHeredocs: Array<{ delimiter: WordToken; stripTabs: boolean }> = []
+  let heredocOp: string | null = null
+  let i = 0
+
+  while (i < input.length) {
+    const c = input[i]
+    if (c === ' ' || c === '\t') {
+      i++
+      continue
+    }
+    if (c === '\\' && input[i + 1] === '\n') {
+      i += 2
+      continue
+    }
+    if (c === '#') {
+      while (i < input.length && input[i] !== '\n') i++
+      continue
+    }
+
+    // Process substitution starts a word, not a redirect
+    if ((c === '<' || c === '>') && input[i + 1] === '(') {
+      const word = readWord(input, i)
+      tokens.push(word)
+      i = word.end
+      continue
+    }
+
+    const fd = /^\d+(?=[<>])/.exec(input.slice(i))
+    const opStart = fd ? i + fd[0].length : i
+    const op = OPERATORS.find(candidate => input.startsWith(candidate, opStart))
+    if (op && (!fd || REDIRECT_OPERATORS.has(op))) {
+      const end = opStart + op.length
+      if (REDIRECT_OPERATORS.has(op)) {
+        tokens.push({ kind: 'redirect', op, fd: fd ? Number(fd[0]) : undefined, start: i, end })
+        heredocOp = op === '<<' || op === '<<-' ? op : null
+      } else {
+        tokens.push({ kind: 'op', value: op, start: i, end })
+      }
+      i = end
+      if (op === '\n' && pendingHeredocs.length > 0) {
+        i = readHeredocBodies(input, i, pendingHeredocs.splice(0))
+      }
+      continue
+    }
+
+    const word = readWord(input, i)
+    tokens.push(word)
+    if (heredocOp) {
+      pendingHeredocs.push({ delimiter: word, stripTabs: heredocOp === '<<-' })
+      heredocOp = null
+    }
+    i = word.end
+  }
+
+  return tokens
+}
+
+function readWord(input: string, start: number): WordToken {
+  let value = ''
+  const substitutions: string[] = []
+  let i = start
+
+  if ((input[i] === '<' || input[i] === '>') && input[i + 1] === '(') {
+    const end = readBalanced(input, i + 1)
+    substitutions.push(input.slice(i + 2, end - 1))
+    value += input.slice(i, end)
+    i = end
+  }
+
+  while (i < input.length && !WORD_BREAK.has(input[i])) {
+    const c = input[i]
+    if (c === '\\') {
+      if (input[i + 1] !== '\n') value += input[i + 1] ?? ''
+      i += 2
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end === -1) throw new ShellParseError('Unterminated single quote', i)
+      value += input.slice(i + 1, end)
+      i = end + 1
+    } else if (c === '"') {
+      i = readDoubleQuoted(input, i, substitutions, text => { value += text })
+    } else if (c === '$' || c === '`') {
+      const end = readDollarOrBacktick(input, i, substitutions)
+      value += input.slice(i, end)
+      i = end
+    } else {
+      value += c
+      i++
+    }
+  }
+
+  return { kind: 'word', value, raw: input.slice(start, i), start, end: i, substitutions }
+}
+
+/** Reads `"…"` starting at the opening quote; returns the index after the closing quote */
+function readDoubleQuoted(input: string, start: number, substitutions: string[], append: (text: string) => void): number {
+  let i = start + 1
+  while (i < input.length && input[i] !== '"') {
+    const c = input[i]
+    if (c === '\\' && '$`"\\\n'.includes(input[i + 1] ?? '')) {
+      if (input[i + 1] !== '\n') append(input[i + 1])
+      i += 2
+    } else if (c === '$' || c === '`') {
+      const end = readDollarOrBacktick(input, i, substitutions)
+      append(input.slice(i, end))
+      i = end
+    } else {
+      append(c)
+      i++
+    }
+  }
+  if (i >= input.length) throw new ShellParseError('Unterminated double quote', start)
+  return i + 1
+}
+
+/** Reads `$(…)`, `$((…))`, `${…}`, a backtick substitution or a plain `$`; returns the end index */
+function readDollarOrBacktick(input: string, start: number, substitutions: string[]): number {
+  if (input[start] === '`') {
+    let i = start + 1
+    let body = ''
+    while (i < input.length && input[i] !== '`') {
+      if (input[i] === '\\' && i + 1 < input.length) {
+        body += input[i + 1]
+        i += 2
+      } else {
+        body += input[i++]
+      }
+    }
+    if (i >= input.length) throw new ShellParseError('Unterminated backtick substitution', start)
+    substitutions.push(body)
+    return i + 1
+  }
+
+  const next = input[start + 1]
+  if (next === '(') {
+    const end = readBalanced(input, start + 1)
+    // $(( … )) is arithmetic, not a command
+    if (input[start + 2] !== '(') substitutions.push(input.slice(start + 2, end - 1))
+    return end
+  }
+  if (next === '{') {
+    const end = input.indexOf('}', start + 2)
+    if (end === -1) throw new ShellParseError('Unterminated ${', start)
+    return end + 1
+  }
+  return start + 1
+}
+
+/** Given the index of `(`, returns the index after its matching `)` */
+function readBalanced(input: string, open: number): number {
+  let depth = 0
+  let i = open
+  while (i < input.length) {
+    const c = input[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end === -1) throw new ShellParseError('Unterminated single quote', i)
+      i = end + 1
+      continue
+    }
+    if (c === '"') {
+      i = readDoubleQuoted(input, i, [], () => {})
+      continue
+    }
+    if (c === '(') depth++
+    if (c === ')' && --depth === 0) return i + 1
+    i++
+  }
+  throw new ShellParseError('Unterminated substitution', open)
+}
+
+/** Skips here-document bodies after a newline; unquoted bodies can contain substitutions */
+function readHeredocBodies(
+  input: string,
+  start: number,
+  heredocs: Array<{ delimiter: WordToken; stripTabs: boolean }>
+): number {
+  let i = start
+  for (const { delimiter, stripTabs } of heredocs) {
+    const expands = !/['"\\]/.test(delimiter.raw)
+    while (i < input.length) {
+      const lineEnd = input.indexOf('\n', i) === -1 ? input.length : input.indexOf('\n', i)
+      const line = input.slice(i, lineEnd)
+      i = Math.min(lineEnd + 1, input.length)
+      if ((stripTabs ? line.replace(/^\t+/, '') : line) === delimiter.value) break
+      if (expands) collectSubstitutions(line, delimiter.substitutions)
+    }
+  }
+  return i
+}
+
+function collectSubstitutions(text: string, substitutions: string[]): void {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+    } else if (text[i] === '`' || (text[i] === '$' && text[i + 1] === '(')) {
+      i = readDollarOrBacktick(text, i, substitutions) - 1
+    }
+  }
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/
+// Reserved words that only introduce the command after them
+const PREFIX_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'while', 'until', 'do', 'done', '!', 'time'])
+const LIST_OPERATORS = new Set(['&&', '||', ';', '&', '\n'])
+
+class Parser {
+  private pos = 0
+
+  constructor(private readonly input: string, private readonly tokens: Token[]) {}
+
+  parse(): ShellNode {
+    const node = this.parseList(null)
+    const next = this.peek()
+    if (next) throw new ShellParseError(`Unexpected "${describe(next)}"`, next.start)
+    return node
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos]
+  }
+
+  private isOp(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'op' && token.value === value
+  }
+
+  private isClosing(token: Token | undefined, closer: ')' | '}' | null): boolean {
+    if (!token || !closer) return false
+    return closer === ')' ? this.isOp(token, ')') : token.kind === 'word' && token.raw === '}'
+  }
+
+  private skipNewlines(): void {
+    while (this.isOp(this.peek(), '\n')) this.pos++
+  }
+
+  private parseList(closer: ')' | '}' | null): ShellNode {
+    const items: ShellNode[] = []
+    const operators: ListOperator[] = []
+    this.skipNewlines()
+
+    while (this.peek() && !this.isClosing(this.peek(), closer)) {
+      items.push(this.parsePipeline())
+      const next = this.peek()
+      if (next?.kind !== 'op' || !LIST_OPERATORS.has(next.value)) break
+      this.pos++
+      const op = (next.value === '\n' ? ';' : next.value) as ListOperator
+      operators.push(op)
+      this.skipNewlines()
+      if ((op === '&&' || op === '||') && (!this.peek() || this.isClosing(this.peek(), closer))) {
+        throw new ShellParseError(`Expected a command after "${op}"`, next.start)
+      }
+    }
+
+    // A trailing `;` or `&` terminates rather than joins
+    if (operators.length === items.length && operators.length > 0) operators.pop()
+    if (items.length === 1) return items[0]
+    return { type: 'list', items, operators }
+  }
+
+  private parsePipeline(): ShellNode {
+    const commands = [this.parseCommand()]
+    while (this.isOp(this.peek(), '|') || this.isOp(this.peek(), '|&')) {
+      this.pos++
+      this.skipNewlines()
+      commands.push(this.parseCommand())
+    }
+    return commands.length === 1 ? commands[0] : { type: 'pipeline', commands }
+  }
+
+  private parseCommand(): ShellNode {
+    const first = this.peek()
+    if (first && (this.isOp(first, '(') || (first.kind === 'word' && first.raw === '{'))) {
+      const subshell = first.kind === 'op'
+      this.pos++
+      const body = this.parseList(subshell ? ')' : '}')
+      const close = this.peek()
+      if (!this.isClosing(close, subshell ? ')' : '}')) {
+        throw new ShellParseError(`Expected "${subshell ? ')' : '}'}"`, close?.start ?? this.input.length)
+      }
+      this.pos++
+      const redirects: ShellRedirect[] = []
+      const substitutions: ShellNode[] = []
+      while (this.peek()?.kind === 'redirect') this.parseRedirect(redirects, substitutions)
+      return { type: subshell ? 'subshell' : 'group', body, redirects }
+    }
+    return this.parseSimpleCommand()
+  }
+
+  private parseSimpleCommand(): ShellCommand {
+    const command: ShellCommand = { type: 'command', assignments: [], words: [], redirects: [], substitutions: [], text: '' }
+    let start = this.peek()?.start ?? this.input.length
+    let end = start
+    let consumed = false
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === 'word') {
+        if (command.words.length === 0 && ASSIGNMENT.test(token.raw)) {
+          command.assignments.push(token.value)
+        } else if (command.words.length > 0 || command.assignments.length > 0 || !PREFIX_KEYWORDS.has(token.raw)) {
+          command.words.push(token.value)
+        } else if (command.redirects.length === 0) {
+          // Leading keywords are not part of the command text
+          start = this.tokens[this.pos + 1]?.start ?? token.end
+        }
+        command.substitutions.push(...token.substitutions.map(parseShell))
+        end = token.end
+        this.pos++
+      } else if (token.kind === 'redirect') {
+        end = this.parseRedirect(command.redirects, command.substitutions)
+      } else {
+        break
+      }
+      consumed = true
+    }
+
+    if (!consumed) {
+      const next = this.peek()
+      throw new ShellParseError(next ? `Unexpected "${describe(next)}"` : 'Unexpected end of command', next?.start ?? start)
+    }
+    command.text = this.input.slice(start, Math.max(start, end)).trim()
+    return command
+  }
+
+  /** Consumes a redirect and its target; returns the end offset */
+  private parseRedirect(redirects: ShellRedirect[], substitutions: ShellNode[]): number {
+    const token = this.tokens[this.pos++] as RedirectToken
+    const target = this.peek()
+    if (target?.kind !== 'word') {
+      throw new ShellParseError(`Expected a target after "${token.op}"`, token.end)
+    }
+    this.pos++
+    redirects.push({ op: token.op, fd: token.fd, target: target.value })
+    substitutions.push(...target.substitutions.map(parseShell))
+    return target.end
+  }
+}
+
+function describe(token: Token): string {
+  if (token.kind === 'word') return token.raw
+  if (token.kind === 'redirect') return token.op
+  return token.value === '\n' ? 'newline' : token.value
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse a command line. Throws ShellParseError for unbalanced quotes or
+ * substitutions, dangling operators and unsupported syntax.
+ */
+export function parseShell(input: string): ShellNode {
+  return new Parser(input, tokenize(input)).parse()
+}
+
+/**
+ * Every simple command in the tree, including ones inside subshells and
+ * substitutions, in source order (a command before its substitutions).
+ * Empty commands (e.g. a lone `fi`) are skipped.
+ */
+export function collectSegments(node: ShellNode, pipedInput = false, substituted = false): ShellSegment[] {
+  switch (node.type) {
+    case 'list':
+      return node.items.flatMap(item => collectSegments(item, pipedInput, substituted))
+    case 'pipeline':
+      return node.commands.flatMap((command, index) => collectSegments(command, pipedInput || index > 0, substituted))
+    case 'subshell':
+    case 'group':
+      return collectSegments(node.body, pipedInput, substituted)
+    case 'command': {
+      const own = node.words.length > 0 || node.assignments.length > 0 || node.redirects.length > 0
+        ? [{ command: node, pipedInput, substituted }]
+        : []
+      const script = shellCommandString(node.words)
+      const nested = script !== undefined ? collectSegments(parseShell(script), pipedInput, substituted) : []
+      return [...own, ...nested, ...node.substitutions.flatMap(sub => collectSegments(sub, false, true))]
+    }
+  }
+}
+
+// ============================================================================
+// Command helpers
+// ============================================================================
+
+// Wrappers that run the command after them: `env FOO=1 x`, `timeout 10 x`, `xargs rm`
+const COMMAND_WRAPPERS = new Map<string, { flagsWithValue: string[]; positional: number }>([
+  ['env', { flagsWithValue: ['-u', '-C', '-S'], positional: 0 }],
+  ['nohup', { flagsWithValue: [], positional: 0 }],
+  ['nice', { flagsWithValue: ['-n'], positional: 0 }],
+  ['time', { flagsWithValue: [], positional: 0 }],
+  ['command', { flagsWithValue: [], positional: 0 }],
+  ['exec', { flagsWithValue: ['-a'], positional: 0 }],
+  ['builtin', { flagsWithValue: [], positional: 0 }],
+  ['timeout', { flagsWithValue: ['-s', '-k', '--signal', '--kill-after'], positional: 1 }],
+  ['xargs', { flagsWithValue: ['-I', '-n', '-P', '-L', '-d', '-E', '-s', '-a'], positional: 0 }],
+])
+
+// Shells whose `-c` argument is a command line of its own
+const COMMAND_STRING_SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh'])
+
+// Shell options that take the next word as their value
+const SHELL_OPTIONS_WITH_VALUE = new Set(['-o', '+o', '-O', '+O', '--rcfile', '--init-file'])
+
+/** The command line `sh -c '…'` runs (also `bash -lc`, `bash -o pipefail -c`), if any */
+export function shellCommandString(words: string[]): string | undefined {
+  const [program, ...args] = unwrapCommand(words)
+  if (!program || !COMMAND_STRING_SHELLS.has(basename(program))) return undefined
+  for (let i = 0; i < args.length; i++) {
+    if (SHELL_OPTIONS_WITH_VALUE.has(args[i])) {
+      i++
+      continue
+    }
+    if (/^-[a-zA-Z]*c[a-zA-Z]*$/.test(args[i])) return args[i + 1]
+    if (!/^[-+]/.test(args[i]) || args[i] === '--' || args[i] === '-') return undefined
+  }
+  return undefined
+}
+
+// Redirect targets that don't write a file
+const HARMLESS_REDIRECT_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty'])
+
+/** Strip wrappers and their options so `env X=1 timeout 5 rm -rf dist` yields `rm -rf dist` */
+export function unwrapCommand(words: string[]): string[] {
+  let rest = words
+  for (let wrapper = COMMAND_WRAPPERS.get(rest[0]); wrapper; wrapper = COMMAND_WRAPPERS.get(rest[0])) {
+    let i = 1
+    while (i < rest.length && (rest[i].startsWith('-') || (rest[0] === 'env' && rest[i].includes('=')))) {
+      i += wrapper.flagsWithValue.includes(rest[i]) ? 2 : 1
+    }
+    rest = rest.slice(i + wrapper.positional)
+  }
+  return rest
+}
+
+/** Files a command writes through output redirects (fd duplication and /dev/null excluded) */
+export function outputTargets(command: ShellCommand): string[] {
+  return command.redirects
+    .filter(r => r.op.includes('>') && !(r.op === '>&' && /^(\d+|-)$/.test(r.target)))
+    .map(r => r.target)
+    .filter(target => !HARMLESS_REDIRECT_TARGETS.has(target))
+}
+
+// Programs that write or delete the files named in their arguments
+const FILE_WRITERS = new Map<string, { flagsWithValue: string[]; operands: 'all' | 'last' | 'all-but-first' }>([
+  ['rm', { flagsWithValue: [], operands: 'all' }],
+  ['unlink', { flagsWithValue: [], operands: 'all' }],
+  ['rmdir', { flagsWithValue: [], operands: 'all' }],
+  ['shred', { flagsWithValue: ['-n', '-s'], operands: 'all' }],
+  ['touch', { flagsWithValue: ['-d', '-r', '-t'], operands: 'all' }],
+  ['truncate', { flagsWithValue: ['-s', '-r'], operands: 'all' }],
+  ['tee', { flagsWithValue: [], operands: 'all' }],
+  // Sources are removed and the destination written
+  ['mv', { flagsWithValue: ['-S', '-t'], operands: 'all' }],
+  ['cp', { flagsWithValue: ['-S', '-t'], operands: 'last' }],
+  ['install', { flagsWithValue: ['-g', '-m', '-o', '-S', '-t'], operands: 'last' }],
+  ['ln', { flagsWithValue: ['-S', '-t'], operands: 'last' }],
+  ['chmod', { flagsWithValue: [], operands: 'all-but-first' }],
+])
+
+/** Operands of a command: words that aren't options or option values */
+function operands(args: string[], flagsWithValue: string[]): string[] {
+  const result: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--') return [...result, ...args.slice(i + 1)]
+    if (args[i].startsWith('-') && args[i] !== '-') {
+      if (flagsWithValue.includes(args[i])) i++
+      continue
+    }
+    result.push(args[i])
+  }
+  return result
+}
+
+/** Value of `-t DIR` / `--target-directory=DIR`, which makes every operand a source */
+function targetDirectory(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-t') return args[i + 1]
+    if (args[i].startsWith('--target-directory=')) return args[i].slice('--target-directory='.length)
+  }
+  return undefined
+}
+
+function basename(file: string): string {
+  return file.replace(/\/+$/, '').split('/').pop() ?? file
+}
+
+/** Files `sed -i` edits: operands after the script (no script operand with -e/-f) */
+function sedInPlaceTargets(args: string[]): string[] {
+  if (!args.some(arg => /^-[a-zA-Z]*i/.test(arg) || arg.startsWith('--in-place'))) return []
+  const files = operands(args, ['-e', '-f', '-l', '--expression', '--file'])
+  const hasScriptOption = args.some(arg => ['-e', '-f', '--expression', '--file'].includes(arg) || /^--(expression|file)=/.test(arg))
+  return hasScriptOption ? files : files.slice(1)
+}
+
+/**
+ * Files a simple command writes, moves or deletes: output redirects plus the
+ * path arguments of known file writers (rm, mv, cp, tee, sed -i, truncate …).
+ * Paths are as written — relative ones are relative to the command's cwd.
+ */
+export function fileWriteTargets(command: ShellCommand): string[] {
+  const targets = outputTargets(command)
+  const [program, ...args] = unwrapCommand(command.words)
+  if (!program) return targets
+  const name = basename(program)
+
+  if (name === 'sed') return [...targets, ...sedInPlaceTargets(args)]
+  if (name === 'dd') {
+    return [...targets, ...args.filter(arg => arg.startsWith('of=')).map(arg => arg.slice(3))]
+  }
+
+  const writer = FILE_WRITERS.get(name)
+  if (!writer) return targets
+  const files = operands(args, writer.flagsWithValue)
+  const directory = targetDirectory(args)
+  if (directory) {
+    const moved = name === 'mv' ? files : []
+    return [...targets, ...moved, ...files.map(file => `${directory.replace(/\/+$/, '')}/${basename(file)}`)]
+  }
+  if (writer.operands === 'last') return [...targets, ...files.slice(-1)]
+  if (writer.operands === 'all-but-first') return [...targets, ...files.slice(1)]
+  return [...targets, ...files]
+}
+
+/** A simple command of a command line with the files it writes */
+export interface SegmentWrites {
+  command: ShellCommand
+  /** Directory earlier `cd` commands moved to, '' when none did */
+  dir: string
+  /** Files it writes, moves or deletes, relative paths resolved against `dir` */
+  writes: string[]
+}
+
+/**
+ * Each simple command of a command line with the directory it runs in and
+ * the files it writes. Throws ShellParseError when the command does not parse.
+ */
+export function segmentWriteTargets(commandLine: string): SegmentWrites[] {
+  const segments: SegmentWrites[] = []
+  let dir = ''
+  for (const { command, substituted } of collectSegments(parseShell(commandLine))) {
+    const words = unwrapCommand(command.words)
+    const writes = fileWriteTargets(command)
+      .map(file => dir && !file.startsWith('/') && !file.startsWith('~') ? `${dir}/${file}` : file)
+    segments.push({ command, dir, writes })
+    if (words[0] === 'cd' && !substituted) {
+      const to = words[1] ?? ''
+      dir = to.startsWith('/') || to.startsWith('~') ? to : dir ? `${dir}/${to}` : to
+    }
+  }
+  return segments
+}
+
+/**
+ * Every file a command line writes, moves or deletes, relative paths
+ * resolved against `cd` commands earlier in the line. Throws
+ * ShellParseError when the command does not parse.
+ */
+export function commandWriteTargets(commandLine: string): string[] {
+  const targets: string[] = []
+  for (const { writes } of segmentWriteTargets(commandLine)) {
+    for (const file of writes) {
+      if (!targets.includes(file)) targets.push(file)
+    }
+  }
+  return targets
+}
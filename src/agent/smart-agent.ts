@@ -11,6 +11,11 @@
  */
 
 import { getAutoModeManager, AutoModeManager } from './auto-mode-manager'
+import { detectTestRunner, parseTestOutput, type TestRunner, type TestRunSummary } from '../testing'
+import { containerTargets } from '../core/dev-containers'
+import { findDestructiveGitCommand } from '../core/git-snapshots'
+import { commandWriteTargets } from './shell-parser'
+import { discoverWorkspaceGraph, scopedCommandForFiles, type WorkspaceFileReader, type WorkspaceGraph } from './workspace-graph'
 
 export interface FileInfo {
   path: string
@@ -32,6 +37,8 @@ export interface ProjectAnalysis {
   mainFiles: string[]
   configFiles: string[]
   dependencies: string[]
+  /** Package graph when the workspace is a monorepo */
+  workspace?: WorkspaceGraph
 }
 
 export interface CodeBlock {
@@ -58,6 +65,88 @@ export interface ExecutionStep {
   status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
   output?: string
   error?: string
+  /** Parsed failures when a test step fails */
+  testResults?: TestRunSummary
+}
+
+export interface StepExecutionOptions {
+  /**
+   * Asked before a step runs its command (execution policy, auto-mode or the
+   * user). Resolves to null to run it, or the reason it may not run.
+   */
+  approveCommand?: (command: string) => Promise<string | null>
+  /**
+   * Directory commands run in instead of the workspace — an agent worktree.
+   * They run on the host there: containers only mount the workspace.
+   */
+  cwd?: string
+  /** Saves a file's current content before a step's command writes, moves or deletes it */
+  checkpoint?: (filePath: string) => Promise<void>
+}
+
+/**
+ * Appended to the system prompt in Plan mode. The model answers with a
+ * structured plan instead of commands to run right away.
+ */
+export const PLAN_MODE_INSTRUCTIONS = `## PLAN MODE
+
+The user has turned on Plan mode. Do NOT expect any command to run yet.
+First explain your approach in a few sentences, then end your reply with the plan as a single fenced block tagged \`plan\` containing JSON:
+
+\`\`\`plan
+{"steps": [
+  {"description": "Install dependencies", "command": "npm install"},
+  {"description": "Review the failing test output", "type": "analysis"}
+]}
+\`\`\`
+
+Rules:
+- One shell command per step; keep steps small and in execution order
+- Omit "command" for steps that are not shell commands; those are not run and are left for you to do in the chat afterwards
+- "type" is optional: "command", "file_read", "file_write", "analysis" or "test"
+- The user will review, reorder or remove steps before anything runs`
+
+const PLAN_STEP_TYPES: ExecutionStep['type'][] = ['command', 'file_read', 'file_write', 'analysis', 'test']
+
+/** Why a step without a shell command is skipped when the plan runs */
+export const STEP_LEFT_TO_ASSISTANT = 'Not a shell step — nothing was run. Ask the assistant to do it.'
+
+/** Workspace files a command writes; unparseable commands and ~ or $VAR paths are left out */
+function commandEdits(command: string): string[] {
+  try {
+    return commandWriteTargets(command).filter(target => !/^~|\$/.test(target) && !target.startsWith('/dev/'))
+  } catch {
+    return []
+  }
+}
+
+/** Monorepo discovery through electronAPI.fs */
+function electronFileReader(electronAPI: any): WorkspaceFileReader {
+  return {
+    async readFile(path) {
+      try {
+        if (!await electronAPI.fs.exists(path)) return null
+        return String(await electronAPI.fs.readFile(path, 'utf-8'))
+      } catch {
+        return null
+      }
+    },
+    async exists(path) {
+      try {
+        return Boolean(await electronAPI.fs.exists(path))
+      } catch {
+        return false
+      }
+    },
+    async listDirectories(path) {
+      try {
+        const entries: Array<{ name: string; isDirectory: boolean }> = await electronAPI.fs.readDir(path)
+        return entries.filter(entry => entry.isDirectory).map(entry => entry.name)
+      } catch {
+        return []
+      }
+    },
+  }
 }
 
 /**
@@ -68,6 +157,8 @@ export class SmartAgent {
   private workspacePath: string | null = null
   private projectAnalysis: ProjectAnalysis | null = null
   private executionHistory: ExecutionStep[] = []
+  /** Files changed since the history was last cleared — scopes monorepo test and build commands */
+  private editedFiles = new Set<string>()
 
   constructor() {
     this.autoModeManager = getAutoModeManager()
@@ -79,6 +170,7 @@ export class SmartAgent {
   public setWorkspace(path: string): void {
     this.workspacePath = path
     this.projectAnalysis = null // Reset analysis for new workspace
+    this.editedFiles.clear()
   }
 
   /**
@@ -202,6 +294,20 @@ export class SmartAgent {
           analysis.buildTool = 'dotnet'
         }
       }
+
+      // Monorepos: one package graph instead of a single root project type
+      if (electronAPI?.fs) {
+        const workspace = await discoverWorkspaceGraph(this.workspacePath, electronFileReader(electronAPI))
+        if (workspace) {
+          analysis.workspace = workspace
+          if (analysis.type === 'unknown') {
+            analysis.type = workspace.packages[0].type
+            analysis.language = workspace.packages[0].type === 'node' ? 'javascript' : workspace.packages[0].type
+          }
+          const jsTool = workspace.tools.find(tool => tool === 'pnpm' || tool === 'yarn' || tool === 'npm')
+          if (jsTool && !analysis.packageManager) analysis.packageManager = jsTool
+        }
+      }
     } catch (error) {
       console.error('Project analysis failed:', error)
     }
@@ -316,6 +422,60 @@ export class SmartAgent {
       }
     }
 
+    return this.buildPlan(steps)
+  }
+
+  /**
+   * Parse a Plan mode response (see PLAN_MODE_INSTRUCTIONS).
+   * Returns the plan, or null when the response has no valid plan block,
+   * plus the response text with the plan block removed.
+   */
+  public parsePlanResponse(response: string): { plan: ExecutionPlan | null; text: string } {
+    const match = response.match(/```plan[^\n]*\n([\s\S]*?)```/)
+    if (!match) return { plan: null, text: response }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(match[1])
+    } catch {
+      return { plan: null, text: response }
+    }
+
+    const rawSteps = Array.isArray(parsed) ? parsed : (parsed as { steps?: unknown })?.steps
+    if (!Array.isArray(rawSteps)) return { plan: null, text: response }
+
+    const steps: ExecutionStep[] = []
+    for (const raw of rawSteps) {
+      if (!raw || typeof raw !== 'object') continue
+      const { description, command, type } = raw as { description?: unknown; command?: unknown; type?: unknown }
+      const cmd = typeof command === 'string' && command.trim() ? command.trim() : undefined
+      const desc = typeof description === 'string' && description.trim() ? description.trim() : cmd
+      if (!desc) continue
+
+      // Steps with a command always run it; 'test' keeps its type for display
+      const stepType: ExecutionStep['type'] = cmd
+        ? (type === 'test' ? 'test' : 'command')
+        : PLAN_STEP_TYPES.includes(type as ExecutionStep['type']) && type !== 'command'
+          ? type as ExecutionStep['type']
+          : 'analysis'
+      steps.push({
+        id: `step-${steps.length + 1}`,
+        type: stepType,
+        description: desc,
+        command: cmd,
+        autoApprove: cmd ? this.autoModeManager.shouldAutoApprove(cmd) : true,
+        status: 'pending'
+      })
+    }
+
+    if (steps.length === 0) return { plan: null, text: response }
+    return {
+      plan: this.buildPlan(steps),
+      text: response.replace(match[0], '').trim()
+    }
+  }
+
+  private buildPlan(steps: ExecutionStep[]): ExecutionPlan {
     // Calculate risk level
     let riskLevel: 'low' | 'medium' | 'high' = 'low'
     const highRiskSteps = steps.filter(s => !s.autoApprove).length
@@ -335,7 +495,8 @@ export class SmartAgent {
   public async executeStep(
     step: ExecutionStep,
     electronAPI: any,
-    onProgress?: (step: ExecutionStep) => void
+    onProgress?: (step: ExecutionStep) => void,
+    options: StepExecutionOptions = {}
   ): Promise<ExecutionStep> {
     if (!this.workspacePath) {
       step.status = 'failed'
@@ -348,48 +509,63 @@ export class SmartAgent {
 
     try {
       switch (step.type) {
-        case 'command':
+        case 'command': {
           if (!step.command) {
             throw new Error('No command specified')
           }
-          
-          const result = await electronAPI.terminal.execute(step.command, this.workspacePath)
+          await this.approveStepCommand(step.command, options)
+
+          // Work a destructive git command would throw away is saved first; a failed snapshot fails the step.
+          // A worktree is its own safety net.
+          const destructive = options.cwd ? null : findDestructiveGitCommand(step.command)
+          if (destructive) await electronAPI.snapshots.create(this.workspacePath, destructive)
+          await this.checkpointStepWrites(step.command, options)
+
+          const result = await electronAPI.terminal.execute(this.routeStepCommand(step.command, options), options.cwd ?? this.workspacePath)
           step.output = result.stdout + (result.stderr ? `\n[stderr]: ${result.stderr}` : '')
           step.status = result.exitCode === 0 ? 'completed' : 'failed'
           if (result.exitCode !== 0) {
             step.error = `Exit code: ${result.exitCode}`
           }
           
+          // Files the command wrote (heredocs, redirects, sed -i …) scope later test and build commands
+          this.recordEdits(commandEdits(step.command))
+
           // Record execution for learning
           this.autoModeManager.recordExecution(step.command, result.exitCode === 0)
           break
+        }
 
         case 'file_read':
-          // File read would be handled by electronAPI.fs.readFile
-          step.status = 'completed'
-          break
-
         case 'file_write':
-          // File write would be handled by electronAPI.fs.writeFile
-          step.status = 'completed'
-          break
-
         case 'analysis':
-          // Code analysis
-          step.status = 'completed'
+          // Nothing runs for these — they are left to the assistant, never reported as done
+          step.status = 'skipped'
+          step.error = STEP_LEFT_TO_ASSISTANT
           break
 
-        case 'test':
-          // Run tests
-          if (this.projectAnalysis?.testFramework) {
-            const testCmd = this.getTestCommand()
-            if (testCmd) {
-              const testResult = await electronAPI.terminal.execute(testCmd, this.workspacePath)
-              step.output = testResult.stdout
-              step.status = testResult.exitCode === 0 ? 'completed' : 'failed'
+        case 'test': {
+          // Run tests — the step's own command, else the project's test command
+          const testCmd = step.command || (this.projectAnalysis?.testFramework || this.projectAnalysis?.workspace ? this.getTestCommand() : null)
+          if (testCmd) {
+            await this.approveStepCommand(testCmd, options)
+            await this.checkpointStepWrites(testCmd, options)
+            const testResult = await electronAPI.terminal.execute(this.routeStepCommand(testCmd, options), options.cwd ?? this.workspacePath)
+            step.output = testResult.stdout
+            step.status = testResult.exitCode === 0 ? 'completed' : 'failed'
+            if (testResult.exitCode !== 0) {
+              const parsed = parseTestOutput(`${testResult.stdout}\n${testResult.stderr}`, detectTestRunner(testCmd) ?? this.getTestRunner())
+              step.testResults = parsed ?? undefined
+              step.error = parsed && parsed.failed > 0
+                ? `${parsed.failed} test(s) failed (exit code ${testResult.exitCode})`
+                : `Exit code: ${testResult.exitCode}`
             }
+          } else {
+            step.status = 'skipped'
+            step.error = 'No test command for this project'
           }
           break
+        }
       }
     } catch (error) {
       step.status = 'failed'
@@ -401,6 +577,29 @@ export class SmartAgent {
     return step
   }
 
+  /** Runs in the workspace's dev container when one is selected, on the host in a worktree */
+  private routeStepCommand(command: string, options: StepExecutionOptions): string {
+    return options.cwd || !this.workspacePath ? command : containerTargets.route(command, { workspacePath: this.workspacePath })
+  }
+
+  /**
+   * Checkpoint the files a step's command writes so the turn's rollback covers
+   * them, like chat commands. A worktree is its own safety net.
+   */
+  private async checkpointStepWrites(command: string, options: StepExecutionOptions): Promise<void> {
+    if (!options.checkpoint || options.cwd || !this.workspacePath) return
+    const root = this.workspacePath.replace(/\/$/, '')
+    for (const target of commandEdits(command)) {
+      await options.checkpoint(target.startsWith('/') ? target : `${root}/${target}`)
+    }
+  }
+
+  /** Throws with the reason when the command may not run */
+  private async approveStepCommand(command: string, options: StepExecutionOptions): Promise<void> {
+    const refusal = options.approveCommand ? await options.approveCommand(command) : null
+    if (refusal) throw new Error(refusal)
+  }
+
   /**
    * Execute all auto-approved steps in a plan
    */
@@ -432,12 +631,28 @@ export class SmartAgent {
   }
 
   /**
-   * Get the appropriate test command for the project
+   * Note files the agent changed (workspace-relative or absolute)
+   */
+  public recordEdits(paths: string[]): void {
+    for (const path of paths) this.editedFiles.add(path)
+  }
+
+  public getEditedFiles(): string[] {
+    return [...this.editedFiles]
+  }
+
+  /**
+   * Get the appropriate test command for the project. In a monorepo it only
+   * covers the packages the changed files belong to and their dependents.
    */
-  private getTestCommand(): string | null {
+  public getTestCommand(changedFiles: string[] = this.getEditedFiles()): string | null {
     if (!this.projectAnalysis) return null
 
-    const { packageManager, testFramework, type } = this.projectAnalysis
+    const { packageManager, testFramework, type, workspace } = this.projectAnalysis
+    if (workspace && changedFiles.length > 0) {
+      const scoped = scopedCommandForFiles(workspace, changedFiles, 'test', this.workspacePath ?? undefined)
+      if (scoped) return scoped
+    }
 
     switch (type) {
       case 'node':
@@ -468,12 +683,40 @@ export class SmartAgent {
   }
 
   /**
-   * Get the appropriate build command for the project
+   * Runner behind getTestCommand(), so its output can be parsed
+   */
+  public getTestRunner(): TestRunner | null {
+    if (!this.projectAnalysis) return null
+
+    switch (this.projectAnalysis.type) {
+      case 'node': {
+        const framework = this.projectAnalysis.testFramework
+        return framework === 'vitest' || framework === 'jest' ? framework : null
+      }
+      case 'python':
+        return 'pytest'
+      case 'rust':
+        return 'cargo'
+      case 'go':
+        return 'go'
+      case 'dotnet':
+        return 'dotnet'
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Get the appropriate build command for the project, scoped like getTestCommand()
    */
-  public getBuildCommand(): string | null {
+  public getBuildCommand(changedFiles: string[] = this.getEditedFiles()): string | null {
     if (!this.projectAnalysis) return null
 
-    const { packageManager, type } = this.projectAnalysis
+    const { packageManager, type, workspace } = this.projectAnalysis
+    if (workspace && changedFiles.length > 0) {
+      const scoped = scopedCommandForFiles(workspace, changedFiles, 'build', this.workspacePath ?? undefined)
+      if (scoped) return scoped
+    }
 
     switch (type) {
       case 'node':
@@ -553,6 +796,7 @@ export class SmartAgent {
    */
   public clearExecutionHistory(): void {
     this.executionHistory = []
+    this.editedFiles.clear()
     this.autoModeManager.resetExecutionCount()
   }
 
@@ -0,0 +1,439 @@
+/**
+ * Workspace Graph
+ *
+ * Monorepo discovery — pnpm-workspace.yaml, npm/yarn workspaces, Cargo
+ * workspaces, Gradle multi-project builds and go.work — into a package graph
+ * with per-package test and build commands, so the agent can test only the
+ * packages its edits touched (and the ones that depend on them).
+ *
+ * Reads files through WorkspaceFileReader; no Node APIs, this runs in the renderer.
+ */
+
+export type MonorepoTool = 'pnpm' | 'npm' | 'yarn' | 'cargo' | 'gradle' | 'go'
+
+export interface WorkspacePackage {
+  /** npm/crate name, Gradle project path (":app") or Go module path */
+  name: string
+  /** Directory relative to the workspace root */
+  path: string
+  tool: MonorepoTool
+  /** Same vocabulary as ProjectAnalysis.type */
+  type: 'node' | 'rust' | 'java' | 'android' | 'go'
+  testCommand: string | null
+  buildCommand: string | null
+  /** Names of the workspace packages this one depends on */
+  dependencies: string[]
+}
+
+export interface WorkspaceGraph {
+  tools: MonorepoTool[]
+  /** turbo.json at the root — JS tasks go through `turbo run` */
+  turbo: boolean
+  packages: WorkspacePackage[]
+}
+
+/** File access for discovery; paths are absolute */
+export interface WorkspaceFileReader {
+  /** null when the file doesn't exist or can't be read */
+  readFile(path: string): Promise<string | null>
+  exists(path: string): Promise<boolean>
+  /** Names of the subdirectories of path; [] when it doesn't exist */
+  listDirectories(path: string): Promise<string[]>
+}
+
+export type ScopedTask = 'test' | 'build'
+
+const MAX_GLOB_DEPTH = 4
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'target', 'build', 'dist', 'vendor'])
+const NPM_DEFAULT_TEST = 'echo "Error: no test specified" && exit 1'
+
+function joinPath(...parts: string[]): string {
+  return parts.filter(Boolean).join('/').replace(/\/{2,}/g, '/')
+}
+
+function cleanRelative(path: string): string {
+  return path.trim().replace(/^\.\//, '').replace(/\/+$/, '')
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*'
+      i += glob[i + 2] === '/' ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+async function descendants(root: string, dir: string, reader: WorkspaceFileReader, depth: number): Promise<string[]> {
+  if (depth <= 0) return []
+  const found: string[] = []
+  for (const name of await reader.listDirectories(joinPath(root, dir))) {
+    if (name.startsWith('.') || SKIPPED_DIRECTORIES.has(name)) continue
+    const child = joinPath(dir, name)
+    found.push(child, ...await descendants(root, child, reader, depth - 1))
+  }
+  return found
+}
+
+/** Directories matching workspace globs ("packages/*", "apps/**", "!**\/fixtures") */
+async function expandGlobs(root: string, patterns: string[], reader: WorkspaceFileReader): Promise<string[]> {
+  const excludes = patterns.filter(p => p.startsWith('!')).map(p => globToRegExp(cleanRelative(p.slice(1))))
+  const matched = new Set<string>()
+
+  for (const pattern of patterns.filter(p => !p.startsWith('!')).map(cleanRelative)) {
+    let dirs = ['']
+    for (const segment of pattern.split('/')) {
+      const next: string[] = []
+      for (const dir of dirs) {
+        if (segment === '**') {
+          next.push(dir, ...await descendants(root, dir, reader, MAX_GLOB_DEPTH))
+        } else if (/[*?]/.test(segment)) {
+          const matcher = globToRegExp(segment)
+          for (const name of await reader.listDirectories(joinPath(root, dir))) {
+            if (matcher.test(name) && !SKIPPED_DIRECTORIES.has(name)) next.push(joinPath(dir, name))
+          }
+        } else {
+          next.push(joinPath(dir, segment))
+        }
+      }
+      dirs = next
+    }
+    for (const dir of dirs) {
+      if (dir && !excludes.some(exclude => exclude.test(dir))) matched.add(dir)
+    }
+  }
+  return [...matched].sort()
+}
+
+/** The package.json fields the graph reads */
+interface PackageJson {
+  name?: string
+  workspaces?: unknown[] | { packages?: unknown[] }
+  scripts?: Record<string, unknown>
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+}
+
+function parsePackageJson(text: string | null): PackageJson | null {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|'([^']*)'/g)].map(m => m[1] ?? m[2])
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript — pnpm-workspace.yaml, package.json "workspaces"
+// ---------------------------------------------------------------------------
+
+/** The `packages:` list of pnpm-workspace.yaml */
+export function parsePnpmWorkspace(yaml: string): string[] {
+  const patterns: string[] = []
+  let inPackages = false
+  for (const raw of yaml.split('\n')) {
+    const line = raw.replace(/\s+#.*$/, '')
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true
+      patterns.push(...quotedStrings(line.slice(line.indexOf(':') + 1)))
+    } else if (/^\S/.test(line)) {
+      inPackages = false
+    } else if (inPackages) {
+      const item = line.match(/^\s*-\s*(.+?)\s*$/)
+      if (item) patterns.push(item[1].replace(/^['"]|['"]$/g, ''))
+    }
+  }
+  return patterns
+}
+
+async function discoverJavaScript(root: string, reader: WorkspaceFileReader, turbo: boolean): Promise<WorkspacePackage[]> {
+  const pnpmYaml = await reader.readFile(joinPath(root, 'pnpm-workspace.yaml'))
+  const rootPkg = parsePackageJson(await reader.readFile(joinPath(root, 'package.json')))
+  const declared = Array.isArray(rootPkg?.workspaces) ? rootPkg.workspaces : rootPkg?.workspaces?.packages
+
+  let tool: MonorepoTool
+  let patterns: string[]
+  if (pnpmYaml !== null) {
+    tool = 'pnpm'
+    patterns = parsePnpmWorkspace(pnpmYaml)
+  } else if (Array.isArray(declared)) {
+    tool = await reader.exists(joinPath(root, 'yarn.lock')) ? 'yarn' : 'npm'
+    patterns = declared.filter((p: unknown): p is string => typeof p === 'string')
+  } else {
+    return []
+  }
+
+  const manifests: Array<{ path: string; pkg: PackageJson }> = []
+  for (const dir of await expandGlobs(root, patterns, reader)) {
+    const pkg = parsePackageJson(await reader.readFile(joinPath(root, dir, 'package.json')))
+    if (pkg) manifests.push({ path: dir, pkg })
+  }
+  const names = new Set(manifests.map(m => m.pkg.name ?? m.path))
+
+  return manifests.map(({ path, pkg }) => {
+    const name = pkg.name ?? path
+    const scripts = pkg.scripts ?? {}
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies }
+    const hasTest = typeof scripts.test === 'string' && scripts.test !== NPM_DEFAULT_TEST
+    const pkgRef = { name, path, tool }
+    return {
+      name,
+      path,
+      tool,
+      type: 'node' as const,
+      testCommand: hasTest ? scopedCommand([pkgRef], 'test', turbo) : null,
+      buildCommand: typeof scripts.build === 'string' ? scopedCommand([pkgRef], 'build', turbo) : null,
+      dependencies: Object.keys(deps).filter(dep => names.has(dep) && dep !== name),
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Cargo — [workspace] members / exclude
+// ---------------------------------------------------------------------------
+
+function tomlArray(toml: string, section: string, key: string): string[] {
+  const body = toml.split(/^\[/m).find(part => part.startsWith(`${section}]`))
+  const match = body?.match(new RegExp(`^${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))
+  return match ? quotedStrings(match[1]) : []
+}
+
+/** Dependency names from [dependencies], [dev-dependencies] and [build-dependencies] */
+function cargoDependencies(toml: string): string[] {
+  const names: string[] = []
+  for (const part of toml.split(/^\[/m)) {
+    const header = part.match(/^((?:dev-|build-)?dependencies)(?:\.([\w-]+))?\]/)
+    if (!header) continue
+    if (header[2]) {
+      names.push(header[2])
+      continue
+    }
+    for (const line of part.split('\n').slice(1)) {
+      const key = line.match(/^\s*([\w-]+)\s*=/)
+      if (key) names.push(key[1])
+    }
+  }
+  return names
+}
+
+async function discoverCargo(root: string, reader: WorkspaceFileReader): Promise<WorkspacePackage[]> {
+  const rootToml = await reader.readFile(joinPath(root, 'Cargo.toml'))
+  if (!rootToml || !/^\[workspace\]/m.test(rootToml)) return []
+
+  const members = tomlArray(rootToml, 'workspace', 'members')
+  const excludes = tomlArray(rootToml, 'workspace', 'exclude').map(cleanRelative)
+  const crates: Array<{ path: string; name: string; deps: string[] }> = []
+  for (const dir of await expandGlobs(root, members, reader)) {
+    if (excludes.includes(dir)) continue
+    const toml = await reader.readFile(joinPath(root, dir, 'Cargo.toml'))
+    const name = toml?.split(/^\[/m).find(part => part.startsWith('package]'))?.match(/^name\s*=\s*["']([^"']+)["']/m)?.[1]
+    if (toml && name) crates.push({ path: dir, name, deps: cargoDependencies(toml) })
+  }
+  const names = new Set(crates.map(c => c.name))
+
+  return crates.map(({ path, name, deps }) => ({
+    name,
+    path,
+    tool: 'cargo' as const,
+    type: 'rust' as const,
+    testCommand: `cargo test -p ${name}`,
+    buildCommand: `cargo build -p ${name}`,
+    dependencies: [...new Set(deps.filter(dep => names.has(dep) && dep !== name))],
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Gradle — include(":app", ":lib:core") in settings.gradle(.kts)
+// ---------------------------------------------------------------------------
+
+/** Project paths from settings.gradle include statements */
+export function parseGradleSettings(settings: string): string[] {
+  const projects: string[] = []
+  for (const statement of settings.matchAll(/^\s*include\b\s*\(?([^\n)]*)\)?/gm)) {
+    for (const project of quotedStrings(statement[1])) {
+      projects.push(project.startsWith(':') ? project : `:${project}`)
+    }
+  }
+  return projects
+}
+
+async function discoverGradle(root: string, reader: WorkspaceFileReader): Promise<WorkspacePackage[]> {
+  const settings = await reader.readFile(joinPath(root, 'settings.gradle.kts')) ?? await reader.readFile(joinPath(root, 'settings.gradle'))
+  if (!settings) return []
+
+  const projects = parseGradleSettings(settings)
+  const names = new Set(projects)
+  const packages: WorkspacePackage[] = []
+  for (const project of projects) {
+    const path = project.slice(1).split(':').join('/')
+    const buildFile = await reader.readFile(joinPath(root, path, 'build.gradle.kts')) ?? await reader.readFile(joinPath(root, path, 'build.gradle'))
+    if (buildFile === null) continue
+    const deps = [...buildFile.matchAll(/project\(\s*(?:path\s*[:=]\s*)?["'](:[^"']+)["']/g)].map(m => m[1])
+    packages.push({
+      name: project,
+      path,
+      tool: 'gradle',
+      type: /com\.android\.(application|library)|id\s*\(?\s*["']android/.test(buildFile) ? 'android' : 'java',
+      testCommand: `./gradlew ${project}:test`,
+      buildCommand: `./gradlew ${project}:assemble`,
+      dependencies: [...new Set(deps.filter(dep => names.has(dep) && dep !== project))],
+    })
+  }
+  return packages
+}
+
+// ---------------------------------------------------------------------------
+// Go — go.work "use" directives
+// ---------------------------------------------------------------------------
+
+export function parseGoWork(goWork: string): string[] {
+  const dirs: string[] = []
+  const text = goWork.replace(/\/\/.*$/gm, '')
+  for (const block of text.matchAll(/^use\s*\(([\s\S]*?)\)/gm)) {
+    dirs.push(...block[1].split('\n').map(line => line.trim()).filter(Boolean))
+  }
+  for (const single of text.matchAll(/^use\s+([^\s(]+)\s*$/gm)) dirs.push(single[1])
+  return dirs.map(dir => cleanRelative(dir.replace(/^["']|["']$/g, ''))).filter(dir => dir && dir !== '.')
+}
+
+async function discoverGo(root: string, reader: WorkspaceFileReader): Promise<WorkspacePackage[]> {
+  const goWork = await reader.readFile(joinPath(root, 'go.work'))
+  if (!goWork) return []
+
+  const modules: Array<{ path: string; name: string; goMod: string }> = []
+  for (const dir of parseGoWork(goWork)) {
+    const goMod = await reader.readFile(joinPath(root, dir, 'go.mod'))
+    const name = goMod?.match(/^module\s+(\S+)/m)?.[1]
+    if (goMod && name) modules.push({ path: dir, name, goMod })
+  }
+
+  return modules.map(({ path, name, goMod }) => ({
+    name,
+    path,
+    tool: 'go' as const,
+    type: 'go' as const,
+    testCommand: `go test ./${path}/...`,
+    buildCommand: `go build ./${path}/...`,
+    dependencies: modules.filter(other => other.name !== name && new RegExp(`^\\s*(?:require\\s+)?${other.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s+v`, 'm').test(goMod)).map(other => other.name),
+  }))
+}
+
+// ---------------------------------------------------------------------------
+// Graph
+// ---------------------------------------------------------------------------
+
+/** The workspace's package graph; null for a single-project workspace */
+export async function discoverWorkspaceGraph(root: string, reader: WorkspaceFileReader): Promise<WorkspaceGraph | null> {
+  const turbo = await reader.exists(joinPath(root, 'turbo.json'))
+  const packages = [
+    ...await discoverJavaScript(root, reader, turbo),
+    ...await discoverCargo(root, reader),
+    ...await discoverGradle(root, reader),
+    ...await discoverGo(root, reader),
+  ]
+  if (packages.length === 0) return null
+  return { tools: [...new Set(packages.map(p => p.tool))], turbo, packages }
+}
+
+/** Owning package of each file (deepest package directory wins); null if any file is outside every package */
+export function packagesForFiles(graph: WorkspaceGraph, files: string[], root?: string): WorkspacePackage[] | null {
+  const prefix = root ? `${root.replace(/\/+$/, '')}/` : null
+  const owners = new Set<WorkspacePackage>()
+  for (const file of files) {
+    const relative = cleanRelative(prefix && file.startsWith(prefix) ? file.slice(prefix.length) : file)
+    const owner = graph.packages
+      .filter(pkg => relative === pkg.path || relative.startsWith(`${pkg.path}/`))
+      .sort((a, b) => b.path.length - a.path.length)[0]
+    if (!owner) return null
+    owners.add(owner)
+  }
+  return [...owners]
+}
+
+/** The given packages plus every package that depends on them, directly or not */
+export function withDependents(graph: WorkspaceGraph, packages: WorkspacePackage[]): WorkspacePackage[] {
+  const affected = new Set(packages.map(p => `${p.tool}:${p.name}`))
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const pkg of graph.packages) {
+      const key = `${pkg.tool}:${pkg.name}`
+      if (!affected.has(key) && pkg.dependencies.some(dep => affected.has(`${pkg.tool}:${dep}`))) {
+        affected.add(key)
+        grew = true
+      }
+    }
+  }
+  return graph.packages.filter(pkg => affected.has(`${pkg.tool}:${pkg.name}`))
+}
+
+/**
+ * One command running a task in the given packages — grouped per tool
+ * (`pnpm --filter a --filter b test`, `cargo test -p a -p b`) and joined with &&.
+ */
+export function scopedCommand(packages: Array<Pick<WorkspacePackage, 'name' | 'path' | 'tool'>>, task: ScopedTask, turbo = false): string | null {
+  const byTool = new Map<MonorepoTool, typeof packages>()
+  for (const pkg of packages) byTool.set(pkg.tool, [...(byTool.get(pkg.tool) ?? []), pkg])
+
+  const commands: string[] = []
+  for (const [tool, group] of byTool) {
+    const names = group.map(p => p.name)
+    switch (tool) {
+      case 'pnpm':
+      case 'npm':
+      case 'yarn':
+        if (turbo) commands.push(`npx turbo run ${task} ${names.map(n => `--filter=${n}`).join(' ')}`)
+        else if (tool === 'pnpm') commands.push(`pnpm ${names.map(n => `--filter ${n}`).join(' ')} run ${task}`)
+        else if (tool === 'npm') commands.push(`npm run ${task} ${group.map(p => `-w ${p.path}`).join(' ')}`)
+        else commands.push(...names.map(n => `yarn workspace ${n} run ${task}`))
+        break
+      case 'cargo':
+        commands.push(`cargo ${task} ${names.map(n => `-p ${n}`).join(' ')}`)
+        break
+      case 'gradle':
+        commands.push(`./gradlew ${names.map(n => `${n}:${task === 'test' ? 'test' : 'assemble'}`).join(' ')}`)
+        break
+      case 'go':
+        commands.push(`go ${task} ${group.map(p => `./${p.path}/...`).join(' ')}`)
+        break
+    }
+  }
+  return commands.length > 0 ? commands.join(' && ') : null
+}
+
+/**
+ * Test or build command covering the packages the files belong to and
+ * their dependents. Null when a file is outside every package — run the
+ * whole workspace then.
+ */
+export function scopedCommandForFiles(graph: WorkspaceGraph, files: string[], task: ScopedTask, root?: string): string | null {
+  const touched = packagesForFiles(graph, files, root)
+  if (!touched || touched.length === 0) return null
+  const affected = withDependents(graph, touched)
+    .filter(pkg => (task === 'test' ? pkg.testCommand : pkg.buildCommand) !== null)
+  return affected.length > 0 ? scopedCommand(affected, task, graph.turbo) : null
+}
+
+/** Short package list for prompts and logs */
+export function formatWorkspaceGraph(graph: WorkspaceGraph): string {
+  const lines = [`Monorepo (${graph.tools.join(', ')}${graph.turbo ? ', turbo' : ''}) with ${graph.packages.length} packages:`]
+  for (const pkg of graph.packages) {
+    const deps = pkg.dependencies.length > 0 ? ` → ${pkg.dependencies.join(', ')}` : ''
+    lines.push(`- ${pkg.name} (${pkg.path}, ${pkg.type})${deps}`)
+  }
+  return lines.join('\n')
+}
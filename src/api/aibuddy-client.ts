@@ -79,6 +79,7 @@ export interface StreamEvent {
     type: string
     text?: string
     partial_json?: string
+    stop_reason?: string
   }
   content_block?: ContentBlock
   message?: ChatResponse
@@ -15,3 +15,16 @@ export {
   type Tool
 } from './aibuddy-client'
 
+
+export {
+  createProvider,
+  ProviderError,
+  PROVIDERS,
+  DEFAULT_PROVIDER_SETTINGS,
+  PROVIDER_SETTINGS_KEY,
+  isLocalProvider,
+  type InferenceProvider,
+  type ProviderId,
+  type ProviderSettings,
+  type ProviderModel
+} from './providers'
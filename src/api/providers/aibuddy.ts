@@ -0,0 +1,37 @@
+/**
+ * AIBuddy Cloud Provider
+ *
+ * Thin adapter so the hosted API sits behind the same InferenceProvider
+ * interface as local backends. Model choice stays with AIBuddy's router.
+ */
+
+import { AIBuddyClient, type ChatRequest, type ChatResponse, type StreamEvent } from '../aibuddy-client'
+import type { InferenceProvider, ProviderModel } from './types'
+
+const AIBUDDY_MODELS: ProviderModel[] = [
+  { id: 'auto', label: 'Auto (smart routing)' },
+  { id: 'aibuddy-pro', label: 'AIBuddy Pro' },
+  { id: 'aibuddy-fast', label: 'AIBuddy Fast' },
+]
+
+export class AIBuddyProvider implements InferenceProvider {
+  readonly id = 'aibuddy' as const
+  private readonly client: AIBuddyClient
+
+  constructor(apiKey?: string, client = new AIBuddyClient()) {
+    this.client = client
+    if (apiKey) this.client.setApiKey(apiKey)
+  }
+
+  chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.client.chat(request)
+  }
+
+  chatStream(request: ChatRequest): AsyncGenerator<StreamEvent> {
+    return this.client.chatStream(request)
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    return AIBUDDY_MODELS
+  }
+}
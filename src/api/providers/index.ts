@@ -0,0 +1,30 @@
+/**
+ * Inference Providers
+ *
+ * createProvider() turns persisted ProviderSettings into a ready backend.
+ */
+
+import type { InferenceProvider, ProviderSettings } from './types'
+import { PROVIDERS } from './types'
+import { AIBuddyProvider } from './aibuddy'
+import { OpenAICompatibleProvider } from './openai-compatible'
+import { OllamaProvider } from './ollama'
+
+export function createProvider(settings: ProviderSettings, aibuddyApiKey?: string): InferenceProvider {
+  const baseUrl = settings.baseUrl || PROVIDERS[settings.provider].defaultBaseUrl
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({ baseUrl, apiKey: settings.apiKey, model: settings.model })
+    case 'ollama':
+      return new OllamaProvider({ baseUrl, model: settings.model })
+    case 'aibuddy':
+    default:
+      return new AIBuddyProvider(aibuddyApiKey)
+  }
+}
+
+export * from './types'
+export { AIBuddyProvider } from './aibuddy'
+export { OpenAICompatibleProvider, toOpenAIMessages } from './openai-compatible'
+export { OllamaProvider, toOllamaMessages } from './ollama'
+export { StreamEventBuilder } from './stream'
@@ -0,0 +1,182 @@
+/**
+ * Ollama Provider
+ *
+ * Uses Ollama's native API (/api/chat, /api/tags) rather than its OpenAI shim
+ * so model listing works on every version. Streaming responses are NDJSON:
+ * one JSON object per line, with token counts on the final `done` line.
+ */
+
+import type { ChatRequest, ChatResponse, ContentBlock, MessageContent, StreamEvent } from '../aibuddy-client'
+import type { InferenceProvider, ProviderModel } from './types'
+import { ProviderError } from './types'
+import { providerFetch, readLines, toStopReason, StreamEventBuilder } from './stream'
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  images?: string[]
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>
+}
+
+/** One NDJSON line of a streamed /api/chat response */
+interface OllamaStreamChunk {
+  error?: string
+  message?: { content?: string; tool_calls?: Array<{ function?: { name?: string; arguments?: Record<string, unknown> } }> }
+  done?: boolean
+  done_reason?: string
+  prompt_eval_count?: number
+  eval_count?: number
+}
+
+export interface OllamaOptions {
+  baseUrl: string
+  model: string
+}
+
+export function toOllamaMessages(request: ChatRequest): OllamaMessage[] {
+  const out: OllamaMessage[] = []
+  if (request.system) out.push({ role: 'system', content: request.system })
+
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') {
+      out.push({ role: message.role, content: message.content })
+      continue
+    }
+
+    const blocks = message.content as MessageContent[]
+    const text: string[] = []
+    const images: string[] = []
+    const toolCalls: NonNullable<OllamaMessage['tool_calls']> = []
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text) text.push(block.text)
+      else if (block.type === 'image' && block.source?.data) images.push(block.source.data)
+      else if (block.type === 'tool_use') toolCalls.push({ function: { name: block.name || '', arguments: (block.input ?? {}) as Record<string, unknown> } })
+      else if (block.type === 'tool_result') out.push({ role: 'tool', content: block.content ?? '' })
+    }
+
+    if (text.length > 0 || images.length > 0 || toolCalls.length > 0) {
+      out.push({
+        role: message.role,
+        content: text.join('\n'),
+        ...(images.length > 0 ? { images } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      })
+    }
+  }
+  return out
+}
+
+export class OllamaProvider implements InferenceProvider {
+  readonly id = 'ollama' as const
+  private readonly baseUrl: string
+
+  constructor(private readonly options: OllamaOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '')
+  }
+
+  async chat(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await providerFetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.body(request, false)),
+    }, signal)
+    const data = await response.json()
+
+    const content: ContentBlock[] = []
+    if (data.message?.content) content.push({ type: 'text', text: data.message.content })
+    for (const [i, call] of ((data.message?.tool_calls ?? []) as NonNullable<OllamaMessage['tool_calls']>).entries()) {
+      content.push({ type: 'tool_use', id: `call_${i}`, name: call.function.name, input: call.function.arguments ?? {} })
+    }
+
+    return {
+      id: `ollama-${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      content,
+      model: data.model || this.options.model,
+      stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : toStopReason(data.done_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: data.prompt_eval_count ?? 0,
+        output_tokens: data.eval_count ?? 0,
+      },
+    }
+  }
+
+  async *chatStream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    const response = await providerFetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.body(request, true)),
+    }, signal)
+
+    const builder = new StreamEventBuilder(`ollama-${Date.now()}`, this.options.model)
+    yield builder.start()
+
+    let toolCount = 0
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) continue
+      let chunk: OllamaStreamChunk
+      try {
+        chunk = JSON.parse(line)
+      } catch {
+        continue
+      }
+      if (chunk.error) throw new ProviderError(`Ollama: ${chunk.error}`)
+
+      if (chunk.message?.content) yield* builder.text(chunk.message.content)
+      // Ollama sends each tool call whole, in a single chunk
+      for (const call of chunk.message?.tool_calls ?? []) {
+        const key = String(toolCount++)
+        yield* builder.toolCall(key, {
+          id: `call_${key}`,
+          name: call.function?.name,
+          arguments: JSON.stringify(call.function?.arguments ?? {}),
+        })
+      }
+
+      if (chunk.done) {
+        const stopReason = toolCount > 0 ? 'tool_use' : toStopReason(chunk.done_reason)
+        yield* builder.finish(stopReason, {
+          input_tokens: chunk.prompt_eval_count ?? 0,
+          output_tokens: chunk.eval_count ?? 0,
+        })
+        return
+      }
+    }
+    throw new ProviderError('Ollama stream ended without a final message')
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ProviderModel[]> {
+    const response = await providerFetch(`${this.baseUrl}/api/tags`, {}, signal)
+    const data = await response.json()
+    return ((data.models ?? []) as Array<{ name: string; details?: { parameter_size?: string } }>)
+      .map(model => ({
+        id: model.name,
+        label: model.details?.parameter_size ? `${model.name} (${model.details.parameter_size})` : model.name,
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  private body(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const model = this.options.model || request.model
+    if (!model) throw new ProviderError('No model selected for the Ollama provider')
+    return {
+      model,
+      messages: toOllamaMessages(request),
+      stream,
+      options: {
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.max_tokens !== undefined ? { num_predict: request.max_tokens } : {}),
+      },
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+            })),
+          }
+        : {}),
+    }
+  }
+}
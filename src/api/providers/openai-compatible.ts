@@ -0,0 +1,232 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Talks to any server exposing /chat/completions and /models (vLLM, LM Studio,
+ * llama.cpp server, LocalAI, OpenAI itself). Requests are translated from the
+ * Anthropic-style message format: system prompt becomes a system message,
+ * images become data-URL image_url parts, tool_use blocks become tool_calls and
+ * tool_result blocks become role "tool" messages.
+ */
+
+import type { ChatMessage, ChatRequest, ChatResponse, ContentBlock, MessageContent, StreamEvent } from '../aibuddy-client'
+import type { InferenceProvider, ProviderModel } from './types'
+import { ProviderError } from './types'
+import { providerFetch, readLines, toStopReason, parseToolArguments, StreamEventBuilder } from './stream'
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+/** One `data:` line of a streamed /chat/completions response */
+interface OpenAIStreamChunk {
+  id?: string
+  model?: string
+  choices?: Array<{
+    delta?: {
+      content?: string | null
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>
+    }
+    finish_reason?: string | null
+  }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}
+
+export function toOpenAIMessages(request: ChatRequest): OpenAIMessage[] {
+  const out: OpenAIMessage[] = []
+  if (request.system) out.push({ role: 'system', content: request.system })
+
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') {
+      out.push({ role: message.role, content: message.content })
+      continue
+    }
+    out.push(...convertBlocks(message))
+  }
+  return out
+}
+
+function convertBlocks(message: ChatMessage): OpenAIMessage[] {
+  const blocks = message.content as MessageContent[]
+  const out: OpenAIMessage[] = []
+  const parts: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = []
+  const toolCalls: OpenAIToolCall[] = []
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        if (block.text) parts.push({ type: 'text', text: block.text })
+        break
+      case 'image':
+        if (block.source?.data) {
+          parts.push({ type: 'image_url', image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } })
+        }
+        break
+      case 'tool_use':
+        toolCalls.push({
+          id: block.id || `call_${toolCalls.length}`,
+          type: 'function',
+          function: { name: block.name || '', arguments: JSON.stringify(block.input ?? {}) },
+        })
+        break
+      case 'tool_result':
+        out.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content ?? '' })
+        break
+      default:
+        // thinking blocks have no OpenAI equivalent
+        break
+    }
+  }
+
+  if (parts.length > 0 || toolCalls.length > 0) {
+    const textOnly = parts.every(p => p.type === 'text')
+    const content = parts.length === 0
+      ? null
+      : textOnly ? parts.map(p => (p as { text: string }).text).join('\n') : parts
+    // Tool results answer the previous assistant turn, so they go before any new user text
+    out.push({ role: message.role, content, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) })
+  }
+  return out
+}
+
+export class OpenAICompatibleProvider implements InferenceProvider {
+  readonly id = 'openai-compatible' as const
+  private readonly baseUrl: string
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '')
+  }
+
+  async chat(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await providerFetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.body(request, false)),
+    }, signal)
+    const data = await response.json()
+    const choice = data.choices?.[0]
+    if (!choice) throw new ProviderError('Response contained no choices')
+
+    const content: ContentBlock[] = []
+    if (choice.message?.content) content.push({ type: 'text', text: choice.message.content })
+    for (const call of (choice.message?.tool_calls ?? []) as OpenAIToolCall[]) {
+      content.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseToolArguments(call.function.arguments) })
+    }
+
+    return {
+      id: data.id || `chatcmpl-${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      content,
+      model: data.model || this.model(request),
+      stop_reason: toStopReason(choice.finish_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: data.usage?.prompt_tokens ?? 0,
+        output_tokens: data.usage?.completion_tokens ?? 0,
+      },
+    }
+  }
+
+  async *chatStream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    const response = await providerFetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.body(request, true)),
+    }, signal)
+
+    let builder: StreamEventBuilder | null = null
+    let finishReason: string | null = null
+    let usage: { input_tokens: number; output_tokens: number } | undefined
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue
+      const payload = line.slice(5).trim()
+      if (payload === '[DONE]') break
+
+      let chunk: OpenAIStreamChunk
+      try {
+        chunk = JSON.parse(payload)
+      } catch {
+        continue
+      }
+
+      if (!builder) {
+        builder = new StreamEventBuilder(chunk.id || `chatcmpl-${Date.now()}`, chunk.model || this.model(request))
+        yield builder.start()
+      }
+      if (chunk.usage) {
+        usage = { input_tokens: chunk.usage.prompt_tokens ?? 0, output_tokens: chunk.usage.completion_tokens ?? 0 }
+      }
+
+      const choice = chunk.choices?.[0]
+      if (!choice) continue
+      if (choice.delta?.content) yield* builder.text(choice.delta.content)
+      for (const call of choice.delta?.tool_calls ?? []) {
+        yield* builder.toolCall(String(call.index ?? 0), {
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        })
+      }
+      if (choice.finish_reason) finishReason = choice.finish_reason
+    }
+
+    if (!builder) throw new ProviderError('Stream ended before any data was received')
+    yield* builder.finish(toStopReason(finishReason), usage)
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ProviderModel[]> {
+    const response = await providerFetch(`${this.baseUrl}/models`, { headers: this.headers() }, signal)
+    const data = await response.json()
+    return ((data.data ?? []) as Array<{ id: string }>)
+      .map(model => ({ id: model.id }))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  private model(request: ChatRequest): string {
+    return this.options.model || request.model || ''
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+    }
+  }
+
+  private body(request: ChatRequest, stream: boolean): Record<string, unknown> {
+    const model = this.model(request)
+    if (!model) throw new ProviderError('No model selected for the OpenAI-compatible provider')
+    return {
+      model,
+      messages: toOpenAIMessages(request),
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+            })),
+          }
+        : {}),
+    }
+  }
+}
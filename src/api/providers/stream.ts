@@ -0,0 +1,141 @@
+/**
+ * Provider Stream Helpers
+ *
+ * Shared plumbing for provider adapters: HTTP calls with readable errors,
+ * line splitting for SSE / NDJSON bodies, and a builder that turns text and
+ * tool-call deltas into the Anthropic-style StreamEvent sequence
+ * (message_start → content_block_* → message_delta → message_stop).
+ */
+
+import type { ContentBlock, StreamEvent } from '../aibuddy-client'
+import { ProviderError } from './types'
+
+export async function providerFetch(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal })
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error
+    throw new ProviderError(`Could not reach ${url}: ${(error as Error).message}`)
+  }
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    throw new ProviderError(`${url} returned ${response.status}${body ? `: ${body.slice(0, 300)}` : ''}`, response.status)
+  }
+  return response
+}
+
+/** Yield complete lines from a streaming response body */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) throw new ProviderError('Response has no body')
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) yield line.replace(/\r$/, '')
+    }
+    buffer += decoder.decode()
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/** Map OpenAI / Ollama finish reasons onto Anthropic stop reasons */
+export function toStopReason(reason: string | null | undefined): string {
+  switch (reason) {
+    case 'length': return 'max_tokens'
+    case 'tool_calls': return 'tool_use'
+    case 'stop_sequence': return 'stop_sequence'
+    default: return 'end_turn'
+  }
+}
+
+/** Parse tool-call arguments that arrive as a JSON string */
+export function parseToolArguments(args: unknown): Record<string, unknown> {
+  if (args && typeof args === 'object') return args as Record<string, unknown>
+  if (typeof args !== 'string' || !args.trim()) return {}
+  try {
+    return JSON.parse(args) as Record<string, unknown>
+  } catch {
+    return { _raw: args }
+  }
+}
+
+export class StreamEventBuilder {
+  private blockCount = 0
+  private openBlock: { index: number; type: ContentBlock['type']; key?: string } | null = null
+  private readonly toolBlocks = new Map<string, number>()
+
+  constructor(private readonly id: string, private readonly model: string) {}
+
+  start(): StreamEvent {
+    return {
+      type: 'message_start',
+      message: {
+        id: this.id,
+        type: 'message',
+        role: 'assistant',
+        content: [],
+        model: this.model,
+        stop_reason: '',
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    }
+  }
+
+  text(text: string): StreamEvent[] {
+    if (!text) return []
+    const events: StreamEvent[] = []
+    if (this.openBlock?.type !== 'text') {
+      events.push(...this.closeBlock())
+      events.push(this.openNew({ type: 'text', text: '' }))
+    }
+    events.push({ type: 'content_block_delta', index: this.openBlock!.index, delta: { type: 'text_delta', text } })
+    return events
+  }
+
+  /** A tool call fragment; key identifies the call across deltas (OpenAI sends an index) */
+  toolCall(key: string, fragment: { id?: string; name?: string; arguments?: string }): StreamEvent[] {
+    const events: StreamEvent[] = []
+    let index = this.toolBlocks.get(key)
+    if (index === undefined) {
+      events.push(...this.closeBlock())
+      events.push(this.openNew({ type: 'tool_use', id: fragment.id || `call_${this.blockCount}`, name: fragment.name || '', input: {} }, key))
+      index = this.openBlock!.index
+      this.toolBlocks.set(key, index)
+    }
+    if (fragment.arguments) {
+      events.push({ type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: fragment.arguments } })
+    }
+    return events
+  }
+
+  finish(stopReason: string, usage?: { input_tokens: number; output_tokens: number }): StreamEvent[] {
+    return [
+      ...this.closeBlock(),
+      { type: 'message_delta', delta: { type: 'message_delta', stop_reason: stopReason }, usage },
+      { type: 'message_stop' },
+    ]
+  }
+
+  private openNew(block: ContentBlock, key?: string): StreamEvent {
+    const index = this.blockCount++
+    this.openBlock = { index, type: block.type, key }
+    return { type: 'content_block_start', index, content_block: block }
+  }
+
+  private closeBlock(): StreamEvent[] {
+    if (!this.openBlock) return []
+    const index = this.openBlock.index
+    this.openBlock = null
+    return [{ type: 'content_block_stop', index }]
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Inference Provider Types
+ *
+ * Provider-neutral interface for chat inference. Every backend maps its wire
+ * format onto the Anthropic-style ChatRequest/ChatResponse/StreamEvent shapes
+ * the rest of the app already uses, so callers don't care where a reply came
+ * from. Providers run in the main process (no renderer CSP limits on local
+ * http servers); the renderer reaches them over the provider:* IPC channels.
+ *
+ * This file has no Node imports so the renderer can use the settings types.
+ */
+
+import type { ChatRequest, ChatResponse, StreamEvent } from '../aibuddy-client'
+
+export type ProviderId = 'aibuddy' | 'openai-compatible' | 'ollama'
+
+/** Persisted in the app store under PROVIDER_SETTINGS_KEY */
+export interface ProviderSettings {
+  provider: ProviderId
+  /** Server root, e.g. http://localhost:11434 or http://gpu-box:8000/v1 */
+  baseUrl: string
+  /** Bearer token for OpenAI-compatible servers that require one */
+  apiKey?: string
+  /** Model id; 'auto' lets AIBuddy route */
+  model: string
+}
+
+export interface ProviderModel {
+  id: string
+  label?: string
+}
+
+export interface ProviderInfo {
+  label: string
+  description: string
+  defaultBaseUrl: string
+  defaultModel: string
+  /** Whether the base URL field is shown in settings */
+  configurableUrl: boolean
+}
+
+export interface InferenceProvider {
+  readonly id: ProviderId
+  chat(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse>
+  chatStream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent>
+  listModels(signal?: AbortSignal): Promise<ProviderModel[]>
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+export const PROVIDER_SETTINGS_KEY = 'inferenceProvider'
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  'aibuddy': {
+    label: 'AIBuddy Cloud',
+    description: 'Smart routing across hosted models. Uses your AIBuddy API key and credits.',
+    defaultBaseUrl: '',
+    defaultModel: 'auto',
+    configurableUrl: false,
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible',
+    description: 'Any server with a /v1/chat/completions endpoint (vLLM, LM Studio, llama.cpp, LocalAI).',
+    defaultBaseUrl: 'http://localhost:8000/v1',
+    defaultModel: '',
+    configurableUrl: true,
+  },
+  'ollama': {
+    label: 'Ollama',
+    description: 'Local models served by Ollama.',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModel: '',
+    configurableUrl: true,
+  },
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'aibuddy',
+  baseUrl: '',
+  model: 'auto',
+}
+
+/** Local providers don't need an AIBuddy key or credits */
+export function isLocalProvider(settings: ProviderSettings): boolean {
+  return settings.provider !== 'aibuddy'
+}
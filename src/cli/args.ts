@@ -0,0 +1,133 @@
+/**
+ * CLI Arguments
+ *
+ * Flag parsing for the `aibuddy` command. Kept free of process access so it
+ * can be tested with plain arrays.
+ */
+
+import { resolve } from 'path'
+import { parseArgs } from 'util'
+import type { AutoModeLevel } from '../agent/auto-mode-manager'
+import { AIBUDDY_API_INFERENCE_URL } from '../constants/urls'
+
+export type OutputFormat = 'text' | 'json' | 'markdown'
+
+/** 'off' denies every file write and command; the levels map onto AutoModeManager */
+export type CliAutoMode = AutoModeLevel | 'off'
+
+export interface CliOptions {
+  prompt: string
+  /** Workspace the agent works in */
+  cwd: string
+  autoMode: CliAutoMode
+  output: OutputFormat
+  /** Thread id to continue, or 'last' for the newest thread in this workspace */
+  resume?: string
+  /** Work in the thread's git worktree instead of the checkout */
+  worktree: boolean
+  apiKey?: string
+  apiUrl: string
+  /** Send internal logging to stderr */
+  verbose: boolean
+  help: boolean
+  version: boolean
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliUsageError'
+  }
+}
+
+/** Process exit codes — CI scripts branch on these */
+export const EXIT_CODES = {
+  /** The agent called attempt_completion */
+  completed: 0,
+  /** API error, abort, iteration limit, or the agent stopped without completing */
+  failed: 1,
+  usage: 2,
+  /** The agent asked a follow-up question nobody could answer */
+  needsInput: 3,
+} as const
+
+const AUTO_MODES: CliAutoMode[] = ['off', 'conservative', 'balanced', 'aggressive']
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown']
+
+export const USAGE = `Usage: aibuddy [options] <prompt...>
+
+Run a task with the AIBuddy agent against a directory, non-interactively.
+The prompt can also be piped on stdin.
+
+Options:
+  -C, --cwd <dir>        Workspace directory (default: current directory)
+  -a, --auto <level>     Auto-approval for writes and commands:
+                         off | conservative | balanced | aggressive (default: balanced)
+                         .aibuddy/policy.json rules apply on top; its autoMode wins
+  -o, --output <format>  text | json | markdown (default: text)
+  -r, --resume <id>      Continue a saved thread; "last" picks the newest one for the workspace
+  -w, --worktree         Work in a git worktree on branch aibuddy/thread-<id>, leaving the
+                         checkout untouched; review and merge the branch in the app
+      --api-key <key>    AIBuddy API key (default: $AIBUDDY_API_KEY)
+      --api-url <url>    Inference endpoint (default: $AIBUDDY_API_URL or the built-in endpoint)
+      --verbose          Print internal logging to stderr
+  -h, --help             Show this help
+  -v, --version          Show the version
+
+Exit codes:
+  0  task completed (attempt_completion)
+  1  task failed or stopped without completing
+  2  invalid usage
+  3  the agent needs an answer to a follow-up question`
+
+export function parseCliArgs(argv: string[], env: Record<string, string | undefined>, cwd: string): CliOptions {
+  let parsed: ReturnType<typeof parse>
+  try {
+    parsed = parse(argv)
+  } catch (err) {
+    throw new CliUsageError((err as Error).message)
+  }
+  const { values, positionals } = parsed
+
+  const autoMode = (values.auto ?? 'balanced') as CliAutoMode
+  if (!AUTO_MODES.includes(autoMode)) {
+    throw new CliUsageError(`Unknown auto mode "${values.auto}". Use one of: ${AUTO_MODES.join(', ')}`)
+  }
+  const output = (values.output ?? 'text') as OutputFormat
+  if (!OUTPUT_FORMATS.includes(output)) {
+    throw new CliUsageError(`Unknown output format "${values.output}". Use one of: ${OUTPUT_FORMATS.join(', ')}`)
+  }
+
+  return {
+    prompt: positionals.join(' ').trim(),
+    cwd: values.cwd ? resolve(cwd, values.cwd) : cwd,
+    autoMode,
+    output,
+    resume: values.resume,
+    worktree: values.worktree ?? false,
+    apiKey: values['api-key'] ?? env.AIBUDDY_API_KEY,
+    apiUrl: values['api-url'] ?? env.AIBUDDY_API_URL ?? AIBUDDY_API_INFERENCE_URL,
+    verbose: values.verbose ?? false,
+    help: values.help ?? false,
+    version: values.version ?? false,
+  }
+}
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cwd: { type: 'string', short: 'C' },
+      auto: { type: 'string', short: 'a' },
+      output: { type: 'string', short: 'o' },
+      resume: { type: 'string', short: 'r' },
+      worktree: { type: 'boolean', short: 'w' },
+      'api-key': { type: 'string' },
+      'api-url': { type: 'string' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean', short: 'v' },
+    },
+  })
+}
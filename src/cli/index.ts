@@ -0,0 +1,23 @@
+/**
+ * aibuddy CLI entry point (built to out/main/cli.js, run via bin/aibuddy.js)
+ */
+
+import { main } from './main'
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return ''
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+main({
+  argv: process.argv.slice(2),
+  env: process.env,
+  cwd: process.cwd(),
+  readStdin,
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+}).then(code => {
+  process.exitCode = code
+})
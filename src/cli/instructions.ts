@@ -0,0 +1,60 @@
+/**
+ * CLI Prompt Instructions
+ *
+ * The extra system prompt sections a CLI run gets on top of the agent's
+ * default prompt: active skills (including legacy .aibuddy/rules/ imported as
+ * skills), the workspace's learned rules.md, the summary of a resumed thread,
+ * and a note that nobody is there to answer questions.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { getWorkspaceStoragePath } from '../core/workspace-paths'
+import { formatSummaryForContext } from '../history/compaction'
+import { processSkills, toProjectRules } from '../skills/skill-processor'
+import type { Skill } from '../skills/types'
+
+export const NON_INTERACTIVE_INSTRUCTIONS = `## Non-interactive run
+You are running from the aibuddy command line, possibly in CI. Nobody can answer follow-up questions: make reasonable assumptions and state them.
+Some file writes or commands may be denied by the auto-approval level; work around them or explain what is needed.
+When the task is done, call attempt_completion with a summary of what you changed and how you verified it.`
+
+/** Skills eligible for this prompt, formatted like the desktop system prompt's skills section */
+export function formatSkillsSection(skills: Skill[], context: { workspacePath: string; userMessage: string }): string {
+  if (skills.length === 0) return ''
+  const { activeSkills } = processSkills(skills, { context })
+  const rules = toProjectRules(activeSkills)
+  if (rules.length === 0) return ''
+
+  let section = `## ACTIVE PROJECT SKILLS (${rules.length})\nThe following project-specific skills are active. Follow them for every response.\n`
+  for (const rule of rules) {
+    section += `\n### [Skill] ${rule.description || rule.filename}\n${rule.content}\n`
+  }
+  return section.trimEnd()
+}
+
+/** Rules learned for this workspace (~/.aibuddy/workspaces/{hash}/rules.md) */
+export function readWorkspaceRules(workspacePath: string): string {
+  const rulesPath = join(getWorkspaceStoragePath(workspacePath), 'rules.md')
+  try {
+    return existsSync(rulesPath) ? readFileSync(rulesPath, 'utf-8').trim() : ''
+  } catch {
+    return ''
+  }
+}
+
+export function buildCliInstructions(options: {
+  workspacePath: string
+  prompt: string
+  skills: Skill[]
+  workspaceRules: string
+  threadSummary?: string | null
+}): string {
+  const sections = [
+    formatSkillsSection(options.skills, { workspacePath: options.workspacePath, userMessage: options.prompt }),
+    options.workspaceRules ? `## Workspace rules\n${options.workspaceRules}` : '',
+    options.threadSummary ? formatSummaryForContext(options.threadSummary) : '',
+    NON_INTERACTIVE_INSTRUCTIONS,
+  ]
+  return sections.filter(Boolean).join('\n\n')
+}
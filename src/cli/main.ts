@@ -0,0 +1,93 @@
+/**
+ * aibuddy CLI
+ *
+ * Parses flags, loads skills, workspace rules and history the same way the
+ * desktop app does, runs the task and maps the outcome to an exit code.
+ */
+
+import { existsSync, statSync } from 'fs'
+import { version } from '../../package.json'
+import { WorktreeManager } from '../core/agent-worktrees'
+import { ChatHistoryManager } from '../history/history-manager'
+import { loadExecutionPolicy } from '../policy/policy-loader'
+import { SkillsStorageManager } from '../skills/skills-manager'
+import { CliUsageError, EXIT_CODES, USAGE, parseCliArgs } from './args'
+import { readWorkspaceRules } from './instructions'
+import { createNodeHost } from './node-host'
+import { formatProgress, formatResult } from './output'
+import { exitCodeFor, runTask } from './run'
+
+export interface CliIO {
+  argv: string[]
+  env: Record<string, string | undefined>
+  cwd: string
+  /** Prompt piped on stdin, if any */
+  readStdin: () => Promise<string>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export async function main(io: CliIO): Promise<number> {
+  try {
+    const options = parseCliArgs(io.argv, io.env, io.cwd)
+    if (options.help) {
+      io.stdout(USAGE)
+      return EXIT_CODES.completed
+    }
+    if (options.version) {
+      io.stdout(version)
+      return EXIT_CODES.completed
+    }
+
+    // stdout is reserved for the result; app logging is noise unless asked for
+    console.log = console.info = console.debug = options.verbose ? (...args: unknown[]) => io.stderr(args.map(String).join(' ')) : () => {}
+
+    if (!options.prompt) options.prompt = (await io.readStdin()).trim()
+    if (!options.prompt) throw new CliUsageError('No prompt given')
+    if (!existsSync(options.cwd) || !statSync(options.cwd).isDirectory()) {
+      throw new CliUsageError(`Not a directory: ${options.cwd}`)
+    }
+    if (!options.apiKey) throw new CliUsageError('No API key. Set AIBUDDY_API_KEY or pass --api-key')
+    if (!options.apiUrl) throw new CliUsageError('No inference endpoint. Set AIBUDDY_API_URL or pass --api-url')
+
+    const skillsManager = SkillsStorageManager.getInstance()
+    skillsManager.migrateLegacyRules(options.cwd)
+    const history = ChatHistoryManager.getInstance()
+    const policy = loadExecutionPolicy(options.cwd)
+    if (policy.error) io.stderr(`aibuddy: ${policy.error} — every write and command will be denied`)
+    else if (policy.path && options.output === 'text') io.stderr(`Using execution policy ${policy.path}`)
+
+    try {
+      const result = await runTask(options, {
+        history,
+        host: createNodeHost(),
+        skills: skillsManager.getSkillsForPrompt(options.cwd),
+        workspaceRules: readWorkspaceRules(options.cwd),
+        policy,
+        createWorktree: threadId => new WorktreeManager(options.cwd).create(threadId),
+        onProgress: options.output === 'text'
+          ? event => {
+              const line = formatProgress(event)
+              if (line) io.stderr(line)
+            }
+          : undefined,
+      })
+      io.stdout(formatResult(result, options.output))
+      if (options.output === 'text') io.stderr(`Thread ${result.threadId} — resume with: aibuddy --resume ${result.threadId} "…"`)
+      if (result.worktree && options.output === 'text') {
+        io.stderr(`Changes are on branch ${result.worktree.branch} in ${result.worktree.path} — review and merge them from the app`)
+      }
+      return exitCodeFor(result.status)
+    } finally {
+      history.flushSave()
+      skillsManager.flushSave()
+    }
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      io.stderr(`aibuddy: ${err.message}\n\n${USAGE}`)
+      return EXIT_CODES.usage
+    }
+    io.stderr(`aibuddy: ${(err as Error).message}`)
+    return EXIT_CODES.failed
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Node Agent Host
+ *
+ * Runs the agent's tools directly on node:fs and child_process, in place of
+ * the Electron IPC the desktop app goes through. Same tree filtering and
+ * content search as the main process handlers.
+ */
+
+import { exec } from 'child_process'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { searchContent } from '../core/content-search'
+import { GitSnapshotStore } from '../core/git-snapshot-store'
+import type { AgentCommandRunner, AgentFileSystem, AgentHost, FileTreeNode } from '../core/agent-adapter'
+
+const IGNORED_DIRS = ['node_modules', 'dist', 'build', '__pycache__', '.git']
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024
+
+async function readTree(dirPath: string, maxDepth: number, depth = 0): Promise<FileTreeNode[]> {
+  if (depth >= maxDepth) return []
+  let entries
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true })
+  } catch {
+    return []
+  }
+
+  const nodes: FileTreeNode[] = []
+  const sorted = entries
+    .filter(entry => !entry.name.startsWith('.') && !IGNORED_DIRS.includes(entry.name))
+    .sort((a, b) => {
+      if (a.isDirectory() !== b.isDirectory()) return a.isDirectory() ? -1 : 1
+      return a.name.localeCompare(b.name)
+    })
+  for (const entry of sorted) {
+    const fullPath = path.join(dirPath, entry.name)
+    const node: FileTreeNode = { name: entry.name, path: fullPath, isDirectory: entry.isDirectory() }
+    if (entry.isDirectory()) node.children = await readTree(fullPath, maxDepth, depth + 1)
+    nodes.push(node)
+  }
+  return nodes
+}
+
+export const nodeFileSystem: AgentFileSystem = {
+  readFile: (filePath, encoding) => fs.readFile(filePath, encoding),
+  async writeFile(filePath, content) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, content, 'utf-8')
+  },
+  async exists(filePath) {
+    try {
+      await fs.access(filePath)
+      return true
+    } catch {
+      return false
+    }
+  },
+  async readDir(dirPath) {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    return entries.map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }))
+  },
+  readTree: (dirPath, depth) => readTree(dirPath, depth),
+  search: options => searchContent(options),
+}
+
+/** One shell per command; stdout and stderr are merged like the PTY output */
+export const nodeCommandRunner: AgentCommandRunner = {
+  executeCommand(command, options) {
+    const startTime = Date.now()
+    return new Promise(resolve => {
+      exec(command, { cwd: options.cwd, timeout: options.timeout, maxBuffer: MAX_OUTPUT_BYTES }, (error, stdout, stderr) => {
+        const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0
+        const timedOut = error?.killed ? `\n[Command timed out after ${options.timeout}ms]` : ''
+        resolve({ output: `${stdout}${stderr}${timedOut}`, exitCode, duration: Date.now() - startTime })
+      })
+    })
+  },
+}
+
+export function createNodeHost(): AgentHost {
+  return {
+    fs: nodeFileSystem,
+    terminal: nodeCommandRunner,
+    snapshots: { create: (cwd, reason) => new GitSnapshotStore(cwd).create(reason) },
+  }
+}
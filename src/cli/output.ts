@@ -0,0 +1,63 @@
+/**
+ * CLI Output
+ *
+ * Text mode streams progress to stderr and prints only the result on stdout,
+ * so `aibuddy "…" > summary.txt` stays clean. JSON and markdown print one
+ * document on stdout once the run finishes.
+ */
+
+import type { OutputFormat } from './args'
+import type { CliProgressEvent, CliRunResult, CliToolCall } from './run'
+
+const MAX_PREVIEW_CHARS = 200
+
+function preview(text: string): string {
+  const line = text.trim().replace(/\s+/g, ' ')
+  return line.length > MAX_PREVIEW_CHARS ? `${line.slice(0, MAX_PREVIEW_CHARS)}…` : line
+}
+
+/** One-line description of a tool call, e.g. `execute_command: npm test` */
+export function describeToolCall(call: CliToolCall): string {
+  const detail = call.input.command ?? call.input.path ?? call.input.pattern ?? call.input.question
+  return detail ? `${call.name}: ${preview(String(detail))}` : call.name
+}
+
+/** Progress line for text mode (stderr), or null when the event is not shown */
+export function formatProgress(event: CliProgressEvent): string | null {
+  switch (event.type) {
+    case 'message':
+      return `… ${preview(event.text)}`
+    case 'tool':
+      return `→ ${describeToolCall(event.call)}`
+    case 'tool_result':
+      return event.call.denied ? `  ✗ denied by auto mode` : null
+  }
+}
+
+function formatMarkdown(result: CliRunResult): string {
+  const heading = result.status === 'completed' ? '✅ Completed' : result.status === 'needs_input' ? '❓ Needs input' : '❌ Failed'
+  const lines = [`# ${heading}`, '', `**Task:** ${result.prompt}`, '', result.result]
+  if (result.toolCalls.length > 0) {
+    lines.push('', '## Tool calls', '')
+    for (const call of result.toolCalls) {
+      lines.push(`- \`${describeToolCall(call)}\`${call.denied ? ' — denied' : ''}`)
+    }
+  }
+  if (result.messages.length > 0) {
+    lines.push('', '## Transcript', '', ...result.messages.flatMap(message => [message, '']))
+  }
+  lines.push('', `_Thread ${result.threadId} · ${result.tokensUsed} tokens · ${(result.durationMs / 1000).toFixed(1)}s_`)
+  return lines.join('\n')
+}
+
+/** The document printed on stdout when the run ends */
+export function formatResult(result: CliRunResult, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2)
+    case 'markdown':
+      return formatMarkdown(result)
+    case 'text':
+      return result.result
+  }
+}
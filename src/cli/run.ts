@@ -0,0 +1,188 @@
+/**
+ * CLI Task Runner
+ *
+ * Runs one prompt through the agent (same tools as the desktop agent) and
+ * records it in chat history, so the thread can be resumed from the CLI or
+ * opened in the app. The outcome maps onto the process exit code:
+ * attempt_completion → completed; a follow-up question → needs_input;
+ * anything else → failed.
+ */
+
+import { AIAgent, type AgentHost, type ToolUse } from '../core/agent-adapter'
+import type { AgentWorktree } from '../core/agent-worktrees'
+import { AutoModeManager } from '../agent/auto-mode-manager'
+import { getActiveContext } from '../history/compaction'
+import type { ChatHistoryManager } from '../history/history-manager'
+import type { ChatThread } from '../history/types'
+import type { ExecutionPolicy, PolicyDecision } from '../policy/types'
+import type { Skill } from '../skills/types'
+import { CliUsageError, EXIT_CODES, type CliAutoMode, type CliOptions } from './args'
+import { buildCliInstructions } from './instructions'
+
+export type CliRunStatus = 'completed' | 'failed' | 'needs_input'
+
+export interface CliToolCall {
+  name: string
+  input: Record<string, unknown>
+  result?: string
+  denied: boolean
+}
+
+export interface CliRunResult {
+  status: CliRunStatus
+  threadId: string
+  prompt: string
+  /** Completion summary, the follow-up question, or the failure reason */
+  result: string
+  /** Assistant text, one entry per model turn */
+  messages: string[]
+  toolCalls: CliToolCall[]
+  tokensUsed: number
+  durationMs: number
+  /** Branch and folder the agent worked in with --worktree */
+  worktree?: { branch: string; path: string }
+}
+
+/** Live progress for the text reporter */
+export type CliProgressEvent =
+  | { type: 'message'; text: string }
+  | { type: 'tool'; call: CliToolCall }
+  | { type: 'tool_result'; call: CliToolCall }
+
+export interface CliRunDeps {
+  history: Pick<ChatHistoryManager, 'createThread' | 'getThread' | 'getThreads' | 'addMessage'>
+  host: AgentHost
+  skills: Skill[]
+  workspaceRules: string
+  /** .aibuddy/policy.json; its autoMode overrides --auto */
+  policy?: ExecutionPolicy
+  /** The thread's worktree, created on first use — required for --worktree */
+  createWorktree?: (threadId: string) => Promise<AgentWorktree>
+  onProgress?: (event: CliProgressEvent) => void
+}
+
+export function exitCodeFor(status: CliRunStatus): number {
+  if (status === 'completed') return EXIT_CODES.completed
+  if (status === 'needs_input') return EXIT_CODES.needsInput
+  return EXIT_CODES.failed
+}
+
+/**
+ * Auto-approval for file writes and commands, decided by AutoModeManager.
+ * Nobody can answer a confirmation prompt here, so policy 'confirm' is a no.
+ */
+export function createToolApproval(level: CliAutoMode): (toolUse: ToolUse, decision?: PolicyDecision) => boolean {
+  if (level === 'off') return () => false
+  const autoMode = new AutoModeManager({ enabled: true, level })
+  return (toolUse, decision) => {
+    if (decision?.verdict === 'confirm') return false
+    if (toolUse.name === 'execute_command') {
+      return autoMode.shouldAutoApprove(String(toolUse.input.command ?? ''))
+    }
+    return autoMode.shouldAutoApproveFileOperation('write', String(toolUse.input.path ?? ''))
+  }
+}
+
+function resolveThread(options: CliOptions, history: CliRunDeps['history']): ChatThread | null {
+  if (!options.resume) return null
+  const thread = options.resume === 'last'
+    ? history.getThreads().find(t => t.workspacePath === options.cwd)
+    : history.getThread(options.resume)
+  if (!thread) {
+    throw new CliUsageError(options.resume === 'last'
+      ? `No saved thread for ${options.cwd}`
+      : `Thread ${options.resume} not found`)
+  }
+  return thread
+}
+
+export async function runTask(options: CliOptions, deps: CliRunDeps): Promise<CliRunResult> {
+  const startTime = Date.now()
+  const resumed = resolveThread(options, deps.history)
+  const thread = resumed ?? deps.history.createThread(options.prompt, options.cwd)
+  const { summary, messages: history } = resumed ? getActiveContext(resumed.messages) : { summary: null, messages: [] }
+  if (options.worktree && !deps.createWorktree) throw new CliUsageError('--worktree is not available here')
+  // Every tool path and command cwd resolves inside the worktree
+  const worktree = options.worktree ? await deps.createWorktree!(thread.id) : null
+  const workspacePath = worktree?.workspacePath ?? options.cwd
+
+  const agent = new AIAgent({
+    apiKey: options.apiKey,
+    apiUrl: options.apiUrl,
+    workspacePath,
+    host: deps.host,
+    policy: deps.policy,
+    onToolApproval: createToolApproval(deps.policy?.autoMode ?? options.autoMode),
+    instructions: buildCliInstructions({
+      workspacePath,
+      prompt: options.prompt,
+      skills: deps.skills,
+      workspaceRules: deps.workspaceRules,
+      threadSummary: summary?.content,
+    }),
+  })
+  agent.loadMessages(history.map(m => ({ role: m.role, content: m.content })))
+
+  const messages: string[] = []
+  const toolCalls: CliToolCall[] = []
+  const pending = new Map<string, CliToolCall>()
+  let status = 'failed' as CliRunStatus
+  let result = 'The agent stopped without calling attempt_completion'
+
+  agent.on('message', ({ content }: { content: string }) => {
+    if (!content.trim()) return
+    messages.push(content)
+    deps.onProgress?.({ type: 'message', text: content })
+  })
+  agent.on('toolUse', (toolUse: ToolUse) => {
+    if (toolUse.name === 'attempt_completion' || toolUse.name === 'ask_followup_question') return
+    const call: CliToolCall = { name: toolUse.name, input: toolUse.input, denied: false }
+    pending.set(toolUse.id, call)
+    toolCalls.push(call)
+    deps.onProgress?.({ type: 'tool', call })
+  })
+  agent.on('toolResult', ({ toolUse, result: output }: { toolUse: ToolUse; result: string }) => {
+    const call = pending.get(toolUse.id)
+    if (!call) return
+    call.result = output
+    call.denied = output.startsWith('[DENIED]')
+    deps.onProgress?.({ type: 'tool_result', call })
+  })
+  agent.on('taskComplete', (summaryText: string) => {
+    status = 'completed'
+    result = summaryText
+  })
+  agent.on('followupQuestion', (question: string) => {
+    status = 'needs_input'
+    result = question
+  })
+  agent.on('maxIterationsReached', () => {
+    result = 'Stopped after reaching the agent iteration limit'
+  })
+  agent.on('taskAborted', () => {
+    result = 'The task was aborted'
+  })
+  agent.on('error', (error: Error) => {
+    status = 'failed'
+    result = error.message
+  })
+
+  deps.history.addMessage(thread.id, { role: 'user', content: options.prompt })
+  await agent.startTask(options.prompt)
+
+  // The thread keeps the outcome; intermediate tool traffic stays out of history like in the app
+  const outcome = status === 'completed' ? result : `**${status === 'needs_input' ? 'Question' : 'Failed'}:** ${result}`
+  deps.history.addMessage(thread.id, { role: 'assistant', content: [messages[messages.length - 1], outcome].filter(Boolean).join('\n\n') })
+
+  return {
+    status,
+    threadId: thread.id,
+    prompt: options.prompt,
+    result,
+    messages,
+    toolCalls,
+    tokensUsed: agent.getState().tokensUsed,
+    durationMs: Date.now() - startTime,
+    worktree: worktree ? { branch: worktree.branch, path: worktree.path } : undefined,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Agent Worktrees Tests
+ *
+ * Runs against a real repository: worktrees are added, diffed, merged and
+ * removed with git the same way the app does for a thread.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { WorktreeManager, parseWorktreeList, worktreeBranch } from '../agent-worktrees'
+
+let tmp: string
+let repo: string
+let manager: WorktreeManager
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+}
+
+beforeEach(() => {
+  tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-worktrees-')))
+  repo = path.join(tmp, 'repo')
+  fs.mkdirSync(path.join(repo, 'app'), { recursive: true })
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'dev@example.com')
+  git('config', 'user.name', 'Dev')
+  fs.writeFileSync(path.join(repo, 'app', 'index.ts'), 'export const version = 1\n')
+  git('add', '.')
+  git('commit', '-q', '-m', 'initial')
+  manager = new WorktreeManager(repo, path.join(tmp, 'worktrees'))
+})
+
+afterEach(() => {
+  fs.rmSync(tmp, { recursive: true, force: true })
+})
+
+describe('parseWorktreeList', () => {
+  it('reads branches, detached heads and prunable entries', () => {
+    const entries = parseWorktreeList([
+      'worktree /repo', 'HEAD 1111', 'branch refs/heads/main', '',
+      'worktree /wt/a', 'HEAD 2222', 'branch refs/heads/aibuddy/thread-a', 'prunable gitdir file points to non-existent location', '',
+      'worktree /wt/b', 'HEAD 3333', 'detached', '',
+    ].join('\n'))
+    expect(entries).toEqual([
+      { path: '/repo', head: '1111', branch: 'main', prunable: false },
+      { path: '/wt/a', head: '2222', branch: 'aibuddy/thread-a', prunable: true },
+      { path: '/wt/b', head: '3333', branch: null, prunable: false },
+    ])
+  })
+})
+
+describe('WorktreeManager', () => {
+  it('isolates a thread on its own branch and merges its changes back', async () => {
+    const worktree = await manager.create('t1')
+    expect(worktree).toMatchObject({ threadId: 't1', branch: worktreeBranch('t1'), exists: true })
+    expect(await manager.create('t1')).toEqual(worktree)
+
+    fs.writeFileSync(path.join(worktree.path, 'app', 'index.ts'), 'export const version = 2\n')
+    fs.writeFileSync(path.join(worktree.path, 'app', 'new.ts'), 'export {}\n')
+    // The user's checkout is untouched while the agent works
+    expect(git('status', '--porcelain')).toBe('')
+
+    const diff = await manager.diff('t1')
+    expect(diff).toContain('+export const version = 2')
+    expect(diff).toContain('+++ b/app/new.ts')
+
+    expect(await manager.integrate('t1', 'merge', 'Bump version')).toEqual({ commits: 1 })
+    expect(fs.readFileSync(path.join(repo, 'app', 'index.ts'), 'utf8')).toBe('export const version = 2\n')
+    expect(git('log', '-1', '--format=%s').trim()).toBe(`Merge ${worktreeBranch('t1')}: Bump version`)
+    expect(await manager.list()).toEqual([])
+    expect(git('branch', '--list', 'aibuddy/*')).toBe('')
+  })
+
+  it('cherry-picks onto a branch that moved on and works in the same subfolder', async () => {
+    const worktree = await new WorktreeManager(path.join(repo, 'app'), path.join(tmp, 'worktrees')).create('t2')
+    expect(worktree.workspacePath).toBe(path.join(worktree.path, 'app'))
+
+    fs.writeFileSync(path.join(worktree.workspacePath, 'util.ts'), 'export const add = (a: number, b: number) => a + b\n')
+    fs.writeFileSync(path.join(repo, 'README.md'), '# app\n')
+    git('add', '.')
+    git('commit', '-q', '-m', 'docs')
+
+    await manager.integrate('t2', 'cherry-pick', 'Add util')
+    expect(git('log', '--format=%s')).toBe('Add util\ndocs\ninitial\n')
+  })
+
+  it('discards a thread and cleans up worktrees of deleted threads', async () => {
+    await manager.create('keep')
+    const gone = await manager.create('gone')
+    const missing = await manager.create('missing')
+    fs.rmSync(missing.path, { recursive: true, force: true })
+
+    expect(await manager.pruneStale(['keep', 'missing'])).toEqual({ removed: ['gone'], orphaned: [] })
+    expect(fs.existsSync(gone.path)).toBe(false)
+    expect((await manager.list()).map(w => w.threadId)).toEqual(['keep'])
+    // The live thread's branch survives so its worktree can be re-added
+    expect(git('branch', '--list', worktreeBranch('missing'))).toContain(worktreeBranch('missing'))
+    expect((await manager.create('missing')).exists).toBe(true)
+
+    await manager.remove('keep')
+    expect(git('branch', '--list', worktreeBranch('keep'))).toBe('')
+  })
+  it('keeps worktrees of unknown threads that hold work and reports them', async () => {
+    const committed = await manager.create('committed')
+    fs.writeFileSync(path.join(committed.path, 'feature.ts'), 'export {}\n')
+    execFileSync('git', ['add', '.'], { cwd: committed.path })
+    execFileSync('git', ['commit', '-q', '-m', 'feature'], { cwd: committed.path })
+    const dirty = await manager.create('dirty')
+    fs.writeFileSync(path.join(dirty.path, 'notes.md'), 'draft\n')
+    await manager.create('empty')
+
+    const { removed, orphaned } = await manager.pruneStale([])
+    expect(removed).toEqual(['empty'])
+    expect(orphaned.map(w => w.threadId).sort()).toEqual(['committed', 'dirty'])
+    expect(fs.readFileSync(path.join(dirty.path, 'notes.md'), 'utf8')).toBe('draft\n')
+    expect(git('branch', '--list', worktreeBranch('committed'))).toContain(worktreeBranch('committed'))
+    expect((await manager.list()).map(w => w.threadId).sort()).toEqual(['committed', 'dirty'])
+  })
+})
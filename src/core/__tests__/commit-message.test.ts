@@ -0,0 +1,139 @@
+/**
+ * Commit Message Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  buildCommitMessagePrompt,
+  cleanCommitMessage,
+  learnCommitStyle,
+  parseDiffFiles,
+  summarizeDiff,
+} from '../commit-message'
+import { GitHandler } from '../git-handler'
+
+function fileDiff(path: string, added: string[], removed: string[] = []): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'index 1111111..2222222 100644',
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -1,${removed.length} +1,${added.length} @@`,
+    ...removed.map(line => `-${line}`),
+    ...added.map(line => `+${line}`),
+  ].join('\n')
+}
+
+describe('diffs', () => {
+  it('splits a diff into files with line counts', () => {
+    const diff = [
+      fileDiff('src/cart.ts', ['export const total = 0', '// ---'], ['export let total = 0']),
+      'diff --git a/logo.png b/logo.png\nindex 1..2 100644\nBinary files a/logo.png and b/logo.png differ',
+    ].join('\n')
+
+    expect(parseDiffFiles(diff).map(f => [f.path, f.additions, f.deletions, f.binary])).toEqual([
+      ['src/cart.ts', 2, 1, false],
+      ['logo.png', 0, 0, true],
+    ])
+  })
+
+  it('leaves small diffs alone and summarizes big ones per file', () => {
+    const small = fileDiff('a.ts', ['one'])
+    expect(summarizeDiff(small)).toBe(small)
+
+    const long = Array.from({ length: 400 }, (_, i) => `const line${i} = ${i}`)
+    const diff = [fileDiff('src/big.ts', long), fileDiff('package-lock.json', long), fileDiff('src/small.ts', ['x'])].join('\n')
+    const summary = summarizeDiff(diff, 4000)
+
+    expect(summary).toContain('3 file(s) changed (diff summarized per file):')
+    expect(summary).toContain('package-lock.json | +400 -0')
+    expect(summary).toMatch(/\[… \d+ more line\(s\) in src\/big\.ts\]/)
+    expect(summary).toContain('+x')
+    expect(summary).not.toContain('diff --git a/package-lock.json')
+    expect(summary.length).toBeLessThanOrEqual(4000)
+  })
+
+  it('keeps many-file summaries within the limit by sending only stats for the rest', () => {
+    const body = Array.from({ length: 60 }, (_, i) => `const line${i} = ${i}`)
+    const diff = Array.from({ length: 40 }, (_, i) => fileDiff(`src/module${i}.ts`, body)).join('\n')
+    const summary = summarizeDiff(diff, 4000)
+
+    expect(summary.length).toBeLessThanOrEqual(4000)
+    expect(summary).toContain('src/module39.ts | +60 -0')
+    expect(summary).toContain('diff --git a/src/module0.ts')
+    expect(summary).not.toContain('diff --git a/src/module39.ts')
+
+    const many = Array.from({ length: 2000 }, (_, i) => fileDiff(`src/generated/file${i}.ts`, ['x'])).join('\n')
+    const statsOnly = summarizeDiff(many, 4000)
+    expect(statsOnly.length).toBeLessThanOrEqual(4000)
+    expect(statsOnly).toMatch(/\[… \d+ more file\(s\)\]$/)
+  })
+})
+
+describe('learnCommitStyle', () => {
+  it('picks up conventional types, scopes and ticket prefixes', () => {
+    const style = learnCommitStyle([
+      '[KAN-41] fix(chat): keep scroll position on reload',
+      '[KAN-40] feat(git): add branch picker',
+      'Merge branch \'main\' into feature',
+      '[KAN-39] fix(api): retry on 429',
+      '[KAN-38] docs: explain providers',
+    ])
+    expect(style).toMatchObject({
+      conventional: true,
+      usesScopes: true,
+      types: ['fix', 'feat', 'docs'],
+      ticketPrefix: '[KAN-41]',
+      lowercase: true,
+    })
+    expect(style?.examples).toHaveLength(4)
+  })
+
+  it('recognises plain subjects and needs a few commits to go on', () => {
+    expect(learnCommitStyle(['Add login page', 'Fix crash on startup', 'Update README'])).toMatchObject({
+      conventional: false,
+      ticketPrefix: null,
+      lowercase: false,
+    })
+    expect(learnCommitStyle(['Initial commit'])).toBeNull()
+  })
+})
+
+describe('prompt and reply', () => {
+  it('asks for conventional commits unless a repo style is given', () => {
+    const diff = fileDiff('a.ts', ['one'])
+    expect(buildCommitMessagePrompt(diff)).toContain('`type(scope): description`')
+
+    const style = learnCommitStyle(['Add login page', 'Fix crash on startup', 'Update README'])
+    const prompt = buildCommitMessagePrompt(diff, style)
+    expect(prompt).toContain('Do not use conventional-commit type prefixes')
+    expect(prompt).toContain('  Fix crash on startup')
+    expect(prompt).toContain(diff)
+  })
+
+  it('strips fences and labels from the reply', () => {
+    expect(cleanCommitMessage('```\nfeat(cart): add totals\n\nBody line\n```')).toBe('feat(cart): add totals\n\nBody line')
+    expect(cleanCommitMessage('Commit message: "fix: handle empty cart"')).toBe('fix: handle empty cart')
+  })
+})
+
+describe('GitHandler.generateCommitMessageFromDiff', () => {
+  const git = (window as any).electronAPI.git
+
+  it('sends the staged diff and the repo style to the model', async () => {
+    git.diff.mockResolvedValueOnce(fileDiff('src/cart.ts', ['export const total = 0']))
+    git.log.mockResolvedValueOnce({ all: ['fix(cart): a', 'feat(cart): b', 'chore: c'].map(message => ({ message })) })
+    const model = vi.fn().mockResolvedValue('```\nfeat(cart): export the cart total\n```')
+
+    const message = await new GitHandler('/repo').generateCommitMessageFromDiff(model, { followRepoStyle: true })
+
+    expect(message).toBe('feat(cart): export the cart total')
+    expect(git.diff).toHaveBeenLastCalledWith('/repo', { staged: true })
+    expect(model.mock.calls[0][0]).toContain('Match this repository\'s commit style')
+  })
+
+  it('refuses when nothing is staged', async () => {
+    git.diff.mockResolvedValueOnce('')
+    await expect(new GitHandler('/repo').generateCommitMessageFromDiff(vi.fn())).rejects.toThrow('No staged changes')
+  })
+})
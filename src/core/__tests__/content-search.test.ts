@@ -0,0 +1,171 @@
+/**
+ * Content Search Tests
+ *
+ * Node fallback scanner behind the grep_search agent tool.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  searchContent,
+  globToRegExp,
+  matchesGlob,
+  parseGitignore
+} from '../content-search'
+import { formatSearchResults } from '../search-results'
+
+let root: string
+
+function write(relativePath: string, content: string | Buffer) {
+  const fullPath = path.join(root, relativePath)
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+  fs.writeFileSync(fullPath, content)
+}
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-search-'))
+  write('.gitignore', 'generated/\n*.log\n!keep.log\n')
+  write('src/workspace.ts', [
+    'import path from "path"',
+    '',
+    'export function getWorkspaceHash(p: string) {',
+    '  return hash(p)',
+    '}',
+    ''
+  ].join('\n'))
+  write('src/storage.ts', [
+    'import { getWorkspaceHash } from "./workspace"',
+    'const dir = getWorkspaceHash(root)',
+    ''
+  ].join('\n'))
+  write('src/readme.md', 'getWorkspaceHash is documented here\n')
+  write('generated/out.ts', 'getWorkspaceHash()\n')
+  write('debug.log', 'getWorkspaceHash\n')
+  write('src/trace.log', 'getWorkspaceHash\n')
+  write('keep.log', 'getWorkspaceHash\n')
+  write('.hidden/secret.ts', 'getWorkspaceHash\n')
+  write('node_modules/pkg/index.ts', 'getWorkspaceHash\n')
+  write('image.bin', Buffer.from([0x67, 0x65, 0x74, 0x00, 0x57, 0x6f]))
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('globToRegExp / matchesGlob', () => {
+  it('matches basename globs at any depth', () => {
+    expect(matchesGlob('src/deep/file.ts', '*.ts')).toBe(true)
+    expect(matchesGlob('src/deep/file.tsx', '*.ts')).toBe(false)
+    expect(matchesGlob('src/a.tsx', '*.{ts,tsx}')).toBe(true)
+  })
+
+  it('matches path globs from the search root', () => {
+    expect(matchesGlob('src/deep/file.ts', 'src/**')).toBe(true)
+    expect(matchesGlob('lib/src/file.ts', 'src/**')).toBe(false)
+    expect(matchesGlob('src/file.ts', 'src/**/*.ts')).toBe(true)
+  })
+
+  it('treats single stars as not crossing directories', () => {
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false)
+  })
+})
+
+describe('parseGitignore', () => {
+  it('skips comments and blank lines and parses negation and directory rules', () => {
+    const rules = parseGitignore('# comment\n\nbuild/\n!important.txt\n')
+    expect(rules).toHaveLength(2)
+    expect(rules[0].directoryOnly).toBe(true)
+    expect(rules[1].negate).toBe(true)
+  })
+})
+
+describe('searchContent (Node scanner)', () => {
+  it('finds usages across files and respects .gitignore, hidden files and binaries', async () => {
+    const result = await searchContent({ cwd: root, pattern: 'getWorkspaceHash', ripgrepPath: null })
+    const files = result.files.map(f => f.path).sort()
+
+    expect(result.engine).toBe('node')
+    expect(files).toEqual(['keep.log', 'src/readme.md', 'src/storage.ts', 'src/workspace.ts'])
+    expect(result.totalMatches).toBe(5)
+    expect(result.truncated).toBe(false)
+  })
+
+  it('applies include and exclude globs', async () => {
+    const result = await searchContent({
+      cwd: root,
+      pattern: 'getWorkspaceHash',
+      include: ['*.ts'],
+      exclude: ['storage.ts'],
+      ripgrepPath: null
+    })
+    expect(result.files.map(f => f.path)).toEqual(['src/workspace.ts'])
+  })
+
+  it('includes context lines around matches', async () => {
+    const result = await searchContent({
+      cwd: root,
+      pattern: 'export function',
+      before: 1,
+      after: 1,
+      ripgrepPath: null
+    })
+    expect(result.files[0].lines).toEqual([
+      { line: 2, text: '', isMatch: false },
+      { line: 3, text: 'export function getWorkspaceHash(p: string) {', isMatch: true },
+      { line: 4, text: '  return hash(p)', isMatch: false }
+    ])
+  })
+
+  it('caps results and marks them truncated', async () => {
+    const result = await searchContent({ cwd: root, pattern: 'getWorkspaceHash', maxResults: 2, ripgrepPath: null })
+    expect(result.totalMatches).toBe(2)
+    expect(result.truncated).toBe(true)
+
+    // Exactly as many matches as the cap is not truncated
+    const exact = await searchContent({ cwd: root, pattern: 'getWorkspaceHash', maxResults: 5, ripgrepPath: null })
+    expect(exact.totalMatches).toBe(5)
+    expect(exact.truncated).toBe(false)
+  })
+
+  it('applies .gitignore files above the searched directory', async () => {
+    const result = await searchContent({ cwd: path.join(root, 'src'), root, pattern: 'getWorkspaceHash', ripgrepPath: null })
+    expect(result.files.map(f => f.path).sort()).toEqual(['readme.md', 'storage.ts', 'workspace.ts'])
+  })
+
+  it('supports case-insensitive search', async () => {
+    const result = await searchContent({ cwd: root, pattern: 'GETWORKSPACEHASH', ignoreCase: true, include: ['*.md'], ripgrepPath: null })
+    expect(result.totalMatches).toBe(1)
+  })
+
+  it('rejects invalid regular expressions', async () => {
+    await expect(searchContent({ cwd: root, pattern: 'foo(', ripgrepPath: null })).rejects.toThrow(/Invalid regular expression/)
+  })
+})
+
+describe('formatSearchResults', () => {
+  it('groups lines under file paths and separates non-adjacent context', () => {
+    const output = formatSearchResults({
+      engine: 'node',
+      truncated: true,
+      totalMatches: 2,
+      files: [{
+        path: 'src/a.ts',
+        matchCount: 2,
+        lines: [
+          { line: 1, text: 'foo()', isMatch: true },
+          { line: 2, text: 'bar', isMatch: false },
+          { line: 10, text: 'foo()', isMatch: true }
+        ]
+      }]
+    }, 'foo')
+    expect(output).toContain('Found 2 matches in 1 file')
+    expect(output).toContain('src/a.ts\n1:foo()\n2-bar\n--\n10:foo()')
+    expect(output).toContain('Results capped')
+  })
+
+  it('reports no matches', () => {
+    expect(formatSearchResults({ engine: 'node', truncated: false, totalMatches: 0, files: [] }, 'x')).toBe('No matches found for /x/')
+  })
+})
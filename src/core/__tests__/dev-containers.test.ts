@@ -0,0 +1,128 @@
+/**
+ * Dev Containers Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  ContainerTargetStore,
+  buildContainerCommand,
+  discoverContainerTargets,
+  parseComposeServices,
+  parseJsonc,
+  toContainerPath,
+  type ContainerFileReader,
+  type ContainerTarget,
+} from '../dev-containers'
+
+function reader(files: Record<string, string>): ContainerFileReader {
+  return async file => files[file] ?? null
+}
+
+const COMPOSE = `services:
+  web:
+    build: .
+    volumes:
+      - .:/app # source
+      - node_modules:/app/node_modules
+  worker:
+    image: node:20
+    volumes:
+      - type: bind
+        source: ./
+        target: /srv/worker
+  db:
+    image: postgres:16
+    volumes:
+      - pgdata:/var/lib/postgresql/data
+
+volumes:
+  pgdata:
+`
+
+const web: ContainerTarget = {
+  id: 'compose:web',
+  label: 'web (compose)',
+  kind: 'compose',
+  source: 'compose.yaml',
+  service: 'web',
+  composeFiles: ['compose.yaml'],
+  workspaceFolder: '/app',
+  containerId: 'abc123',
+}
+
+describe('config files', () => {
+  it('reads short and long volume syntax from compose files', () => {
+    expect(parseComposeServices(COMPOSE)).toEqual([
+      { name: 'web', mounts: [{ source: '.', target: '/app' }, { source: 'node_modules', target: '/app/node_modules' }] },
+      { name: 'worker', mounts: [{ source: './', target: '/srv/worker' }] },
+      { name: 'db', mounts: [{ source: 'pgdata', target: '/var/lib/postgresql/data' }] },
+    ])
+  })
+
+  it('accepts comments and trailing commas in devcontainer.json', () => {
+    expect(parseJsonc('{\n  // image\n  "image": "node:20", /* pinned */\n  "url": "http://x",\n}')).toEqual({ image: 'node:20', url: 'http://x' })
+  })
+})
+
+describe('discoverContainerTargets', () => {
+  it('finds the dev container and compose services that mount the workspace', async () => {
+    const targets = await discoverContainerTargets(reader({
+      '.devcontainer/devcontainer.json': '{ "name": "Shop", "image": "mcr.microsoft.com/devcontainers/typescript-node" }',
+      'compose.yaml': COMPOSE,
+    }), 'shop')
+
+    expect(targets.map(t => [t.id, t.kind, t.workspaceFolder])).toEqual([
+      ['devcontainer', 'devcontainer', '/workspaces/shop'],
+      ['compose:web', 'compose', '/app'],
+      ['compose:worker', 'compose', '/srv/worker'],
+    ])
+  })
+
+  it('follows a compose-based dev container to the service mount', async () => {
+    const targets = await discoverContainerTargets(reader({
+      '.devcontainer/devcontainer.json': '{ "dockerComposeFile": ["../compose.yaml"], "service": "web", }',
+      'compose.yaml': COMPOSE,
+    }), 'shop')
+
+    expect(targets[0]).toMatchObject({ id: 'devcontainer', kind: 'compose', service: 'web', composeFiles: ['compose.yaml'], workspaceFolder: '/app' })
+    // The same service isn't offered twice
+    expect(targets.map(t => t.id)).toEqual(['devcontainer', 'compose:worker'])
+  })
+})
+
+describe('command routing', () => {
+  it('maps host paths into the container', () => {
+    expect(toContainerPath('/home/dev/shop/src', '/home/dev/shop', '/app')).toBe('/app/src')
+    expect(toContainerPath('C:\\Code\\Shop\\api', 'c:\\code\\shop', '/app')).toBe('/app/api')
+    expect(toContainerPath('/tmp', '/home/dev/shop', '/app')).toBeNull()
+  })
+
+  it('wraps commands in docker exec for the host shell', () => {
+    expect(buildContainerCommand("npm test -- --grep 'cart'", web, { cwd: '/home/dev/shop/api', workspacePath: '/home/dev/shop' }))
+      .toBe(`docker exec -i -w /app/api abc123 sh -lc 'npm test -- --grep '\\''cart'\\'''`)
+    expect(buildContainerCommand('echo "hi"', { ...web, hostShell: 'cmd' }, { workspacePath: 'C:\\shop' }))
+      .toBe('docker exec -i -w ^"/app^" abc123 sh -lc ^"echo^ ^"^"hi^"^"^"')
+  })
+
+  it('escapes cmd.exe operators and quotes inside the command', () => {
+    const windows = { ...web, hostShell: 'cmd' as const }
+    expect(buildContainerCommand('echo "a & b" && cat %PATH% | wc', windows, { workspacePath: 'C:\\shop' }))
+      .toBe('docker exec -i -w ^"/app^" abc123 sh -lc ^"echo^ ^"^"a^ ^&^ b^"^"^ ^&^&^ cat^ ^%PATH^%^ ^|^ wc^"')
+    expect(buildContainerCommand('ls C:\\dir\\', windows, { workspacePath: 'C:\\shop' }))
+      .toBe('docker exec -i -w ^"/app^" abc123 sh -lc ^"ls^ C:\\dir\\\\^"')
+  })
+
+  it('explains how to start a stopped container', () => {
+    expect(() => buildContainerCommand('npm test', { ...web, containerId: null }, { workspacePath: '/shop' }))
+      .toThrow('web (compose) is not running — start it with `docker compose -f compose.yaml up -d web`')
+  })
+
+  it('only rewrites commands for the workspace with a selected container', () => {
+    const store = new ContainerTargetStore()
+    store.setActive('/home/dev/shop', web)
+    expect(store.route('ls', { workspacePath: '/home/dev/shop' })).toBe('docker exec -i -w /app abc123 sh -lc ls')
+    expect(store.route('ls', { workspacePath: '/home/dev/other' })).toBe('ls')
+    store.setActive('/home/dev/shop', null)
+    expect(store.route('ls', { workspacePath: '/home/dev/shop' })).toBe('ls')
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Environment Detector Tests
+ *
+ * Probes run through a mocked `exec`; PATH points at a temp dir of empty
+ * executables so only the tools listed there count as installed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+const { exec } = vi.hoisted(() => ({ exec: vi.fn() }))
+vi.mock('child_process', () => ({ exec, default: { exec } }))
+
+import {
+  clearEnvironmentCache,
+  detectEnvironment,
+  getCachedEnvironment,
+  type EnvironmentProgress,
+} from '../environment-detector'
+
+const VERSIONS: Record<string, string> = {
+  'node -v': 'v20.11.1',
+  'npm -v': '10.2.4',
+  'git --version': 'git version 2.43.0',
+}
+
+let binDir: string
+const originalPath = process.env.PATH
+
+function install(...commands: string[]) {
+  for (const command of commands) {
+    const file = path.join(binDir, process.platform === 'win32' ? `${command}.cmd` : command)
+    fs.writeFileSync(file, '')
+    fs.chmodSync(file, 0o755)
+  }
+}
+
+beforeEach(() => {
+  binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-env-'))
+  install('node', 'npm', 'git', 'java')
+  process.env.PATH = binDir
+  clearEnvironmentCache()
+  exec.mockReset()
+  exec.mockImplementation((command: string, _options: unknown, callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+    // java prints its version on stderr
+    if (command === 'java -version') callback(null, '', 'openjdk version "21.0.2" 2024-01-16')
+    else if (command in VERSIONS) callback(null, `${VERSIONS[command]}\n`, '')
+    else callback(new Error(`command failed: ${command}`), '', '')
+  })
+})
+
+afterEach(() => {
+  process.env.PATH = originalPath
+  fs.rmSync(binDir, { recursive: true, force: true })
+  vi.restoreAllMocks()
+})
+
+describe('detectEnvironment', () => {
+  it('only spawns probes for tools on PATH and reads stderr versions', async () => {
+    const env = await detectEnvironment()
+    const node = env.languages.find(l => l.language.startsWith('Node.js'))!
+    expect(node).toMatchObject({ installed: true, version: '20.11.1', packageManager: { name: 'npm', version: '10.2.4' } })
+    expect(env.versionControl).toEqual([{ name: 'Git', installed: true, version: '2.43.0' }])
+    expect(env.languages.find(l => l.language.startsWith('Android'))?.buildTools)
+      .toContainEqual({ name: 'Java', installed: true, version: '21.0.2' })
+    expect(env.languages.find(l => l.language === 'Python')?.installed).toBe(false)
+
+    const spawned = exec.mock.calls.map(([command]) => command.split(' ')[0])
+    expect(new Set(spawned)).toEqual(new Set(['node', 'npm', 'git', 'java']))
+  })
+
+  it('streams each detector result and keeps the priority order', async () => {
+    const progress: EnvironmentProgress[] = []
+    const env = await detectEnvironment({ onProgress: p => progress.push(p) })
+
+    const languages = progress.flatMap(p => p.type === 'language' ? [p.language.language] : [])
+    expect(languages.sort()).toEqual(env.languages.map(l => l.language).sort())
+    expect(progress.filter(p => p.type === 'tools').map(p => p.type === 'tools' && p.section).sort())
+      .toEqual(['cloud', 'containerization', 'ides', 'versionControl'])
+    expect(env.languages[0].language).toBe('Node.js / JavaScript / TypeScript')
+    expect(env.languages[env.languages.length - 1].category).toBe('blockchain')
+  })
+})
+
+describe('probe cache', () => {
+  it('reuses results until the TTL expires', async () => {
+    await detectEnvironment()
+    const firstRun = exec.mock.calls.length
+    await detectEnvironment()
+    expect(exec.mock.calls.length).toBe(firstRun)
+
+    const now = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000)
+    await detectEnvironment()
+    expect(exec.mock.calls.length).toBe(firstRun * 2)
+  })
+
+  it('re-detects when PATH changes', async () => {
+    const before = await detectEnvironment()
+    expect(before.languages.find(l => l.language === 'Go')?.installed).toBe(false)
+
+    install('go')
+    VERSIONS['go version'] = 'go version go1.22.1 linux/amd64'
+    process.env.PATH = `${binDir}${path.delimiter}${path.join(binDir, 'missing')}`
+    const after = await detectEnvironment()
+    delete VERSIONS['go version']
+
+    expect(after.languages.find(l => l.language === 'Go')).toMatchObject({ installed: true, version: '1.22.1' })
+  })
+
+  it('shares one detection between concurrent callers', async () => {
+    const [a, b] = await Promise.all([getCachedEnvironment(), getCachedEnvironment()])
+    expect(a).toBe(b)
+    expect(exec.mock.calls.filter(([command]) => command === 'node -v')).toHaveLength(1)
+  })
+})
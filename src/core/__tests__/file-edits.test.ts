@@ -0,0 +1,195 @@
+/**
+ * File Edits Tests
+ *
+ * Search/replace blocks and unified diffs used by the replace_in_file and
+ * apply_diff agent tools.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applySearchReplace,
+  applyUnifiedDiff,
+  parseUnifiedDiff,
+  formatEditResult,
+  FileEditError
+} from '../file-edits'
+
+const SOURCE = [
+  'function add(a, b) {',
+  '  return a + b',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b',
+  '}',
+  ''
+].join('\n')
+
+function expectEditError(fn: () => unknown, code: string) {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(FileEditError)
+    expect((error as FileEditError).code).toBe(code)
+    return error as FileEditError
+  }
+  throw new Error('Expected FileEditError')
+}
+
+describe('applySearchReplace', () => {
+  it('replaces a unique match and reports its line range', () => {
+    const result = applySearchReplace(SOURCE, [
+      { search: '  return a - b', replace: '  const result = a - b\n  return result' }
+    ])
+    expect(result.content).toContain('const result = a - b\n  return result')
+    expect(result.ranges).toEqual([{ startLine: 6, endLine: 7 }])
+  })
+
+  it('applies multiple blocks in order and keeps earlier ranges in sync', () => {
+    const result = applySearchReplace(SOURCE, [
+      { search: '  return a - b', replace: '  return b - a' },
+      { search: '  return a + b', replace: '  // add\n  return a + b' }
+    ])
+    // Second edit inserted a line above the first one
+    expect(result.ranges).toEqual([
+      { startLine: 7, endLine: 7 },
+      { startLine: 2, endLine: 3 }
+    ])
+    expect(result.content.split('\n')[6]).toBe('  return b - a')
+  })
+
+  it('fails on stale search text', () => {
+    const error = expectEditError(
+      () => applySearchReplace(SOURCE, [{ search: 'return a * b', replace: 'x' }]),
+      'NO_MATCH'
+    )
+    expect(error.message).toMatch(/re-read/)
+  })
+
+  it('fails on ambiguous search text and names the matching lines', () => {
+    const error = expectEditError(
+      () => applySearchReplace(SOURCE, [{ search: '(a, b) {', replace: '(x, y) {' }]),
+      'AMBIGUOUS_MATCH'
+    )
+    expect(error.message).toContain('lines 1, 5')
+  })
+
+  it('rejects empty search text', () => {
+    expectEditError(() => applySearchReplace(SOURCE, [{ search: '', replace: 'x' }]), 'EMPTY_SEARCH')
+    expectEditError(() => applySearchReplace(SOURCE, []), 'EMPTY_SEARCH')
+  })
+
+  it('matches LF search text against CRLF files and keeps CRLF endings', () => {
+    const crlf = SOURCE.replace(/\n/g, '\r\n')
+    const result = applySearchReplace(crlf, [
+      { search: 'function add(a, b) {\n  return a + b', replace: 'function add(a, b) {\n  return b + a' }
+    ])
+    expect(result.content).toContain('return b + a\r\n}')
+    expect(result.content).not.toMatch(/[^\r]\n/)
+  })
+
+  it('reports the collapsed line for a deletion', () => {
+    const result = applySearchReplace(SOURCE, [{ search: 'function sub(a, b) {\n  return a - b\n}\n', replace: '' }])
+    expect(result.content).toBe('function add(a, b) {\n  return a + b\n}\n\n')
+    expect(result.ranges).toEqual([{ startLine: 5, endLine: 5 }])
+  })
+})
+
+describe('parseUnifiedDiff', () => {
+  it('skips file headers and parses hunks', () => {
+    const hunks = parseUnifiedDiff([
+      'diff --git a/math.js b/math.js',
+      '--- a/math.js',
+      '+++ b/math.js',
+      '@@ -1,3 +1,3 @@',
+      ' function add(a, b) {',
+      '-  return a + b',
+      '+  return b + a',
+      ' }',
+      ''
+    ].join('\n'))
+    expect(hunks).toHaveLength(1)
+    expect(hunks[0].oldStart).toBe(1)
+    expect(hunks[0].oldLines).toEqual(['function add(a, b) {', '  return a + b', '}'])
+    expect(hunks[0].newLines).toEqual(['function add(a, b) {', '  return b + a', '}'])
+  })
+
+  it('rejects a diff without hunks', () => {
+    expectEditError(() => parseUnifiedDiff('just some text'), 'INVALID_DIFF')
+  })
+})
+
+describe('applyUnifiedDiff', () => {
+  it('applies hunks at their stated positions', () => {
+    const result = applyUnifiedDiff(SOURCE, [
+      '@@ -1,3 +1,4 @@',
+      ' function add(a, b) {',
+      '+  // add',
+      '   return a + b',
+      ' }',
+      '@@ -5,3 +6,3 @@',
+      ' function sub(a, b) {',
+      '-  return a - b',
+      '+  return b - a',
+      ' }'
+    ].join('\n'))
+    expect(result.content).toBe([
+      'function add(a, b) {',
+      '  // add',
+      '  return a + b',
+      '}',
+      '',
+      'function sub(a, b) {',
+      '  return b - a',
+      '}',
+      ''
+    ].join('\n'))
+    expect(result.ranges).toEqual([
+      { startLine: 1, endLine: 4 },
+      { startLine: 6, endLine: 8 }
+    ])
+  })
+
+  it('relocates a hunk whose line numbers drifted when the context is unique', () => {
+    const result = applyUnifiedDiff(SOURCE, [
+      '@@ -40,2 +40,2 @@',
+      ' function sub(a, b) {',
+      '-  return a - b',
+      '+  return b - a'
+    ].join('\n'))
+    expect(result.content).toContain('return b - a')
+    expect(result.ranges).toEqual([{ startLine: 5, endLine: 6 }])
+  })
+
+  it('fails on a stale hunk', () => {
+    expectEditError(() => applyUnifiedDiff(SOURCE, [
+      '@@ -1,2 +1,2 @@',
+      ' function mul(a, b) {',
+      '-  return a * b',
+      '+  return b * a'
+    ].join('\n')), 'HUNK_MISMATCH')
+  })
+
+  it('fails on an ambiguous hunk that does not match its stated line', () => {
+    expectEditError(() => applyUnifiedDiff(SOURCE, [
+      '@@ -20,1 +20,1 @@',
+      '-}',
+      '+};'
+    ].join('\n')), 'AMBIGUOUS_MATCH')
+  })
+
+  it('inserts into an empty file', () => {
+    const result = applyUnifiedDiff('', '@@ -0,0 +1,2 @@\n+line one\n+line two\n')
+    expect(result.content).toBe('line one\nline two\n')
+    expect(result.ranges).toEqual([{ startLine: 1, endLine: 2 }])
+  })
+})
+
+describe('formatEditResult', () => {
+  it('lists the edited ranges with numbered lines', () => {
+    const result = applySearchReplace(SOURCE, [{ search: '  return a - b', replace: '  return b - a' }])
+    const output = formatEditResult('math.js', result)
+    expect(output).toContain('Successfully edited math.js (1 edit): line 6')
+    expect(output).toContain('    6 |   return b - a')
+  })
+})
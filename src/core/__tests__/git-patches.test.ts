@@ -0,0 +1,112 @@
+/**
+ * Git Patches Tests
+ *
+ * Partial patches are checked against a real repository: built from
+ * `git diff`, applied with `git apply` the way the Source Control panel does.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { buildPartialPatch, changedLineIndexes, parseGitDiff, supportsPartialStaging } from '../git-patches'
+
+let repo: string
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+}
+
+function apply(patch: string, ...args: string[]) {
+  execFileSync('git', ['apply', '--whitespace=nowarn', ...args, '-'], { cwd: repo, input: patch })
+}
+
+const lines = (n: number, edit: (i: number) => string | null = i => `line ${i}`) =>
+  Array.from({ length: n }, (_, i) => edit(i + 1)).filter(l => l !== null).join('\n') + '\n'
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-patches-'))
+  git('init', '-q')
+  git('config', 'user.email', 'dev@example.com')
+  git('config', 'user.name', 'Dev')
+  fs.writeFileSync(path.join(repo, 'a.txt'), lines(30))
+  git('add', '.')
+  git('commit', '-q', '-m', 'initial')
+})
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true })
+})
+
+describe('parseGitDiff', () => {
+  it('reads hunks, line types and file kinds', () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30, i => (i === 2 ? 'two' : i === 25 ? null : `line ${i}`)))
+    fs.writeFileSync(path.join(repo, 'b.txt'), 'new\n')
+    git('add', 'b.txt')
+    const [file] = parseGitDiff(git('diff'))
+
+    expect(file).toMatchObject({ path: 'a.txt', isNew: false, binary: false })
+    expect(file.hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 5, 1, 5], [22, 7, 22, 6]])
+    expect(file.hunks[0].lines.filter(l => l.type !== 'context')).toEqual([
+      { type: 'remove', text: 'line 2' },
+      { type: 'add', text: 'two' },
+    ])
+    expect(supportsPartialStaging(file)).toBe(true)
+
+    const [added] = parseGitDiff(git('diff', '--staged'))
+    expect(added).toMatchObject({ path: 'b.txt', isNew: true })
+    expect(supportsPartialStaging(added)).toBe(false)
+  })
+})
+
+describe('buildPartialPatch', () => {
+  it('stages one hunk of several', () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30, i => (i === 2 ? 'two' : i === 25 ? null : `line ${i}`)))
+    const [file] = parseGitDiff(git('diff'))
+
+    apply(buildPartialPatch(file, [{ hunk: 1 }], 'stage')!, '--cached')
+
+    expect(git('diff', '--staged')).toContain('-line 25')
+    expect(git('diff', '--staged')).not.toContain('+two')
+    expect(git('diff')).toContain('+two')
+  })
+
+  it('stages single lines and shifts later hunks', () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30, i => (i === 3 ? 'three\nthree b\nthree c' : i === 28 ? 'twenty-eight' : `line ${i}`)))
+    const [file] = parseGitDiff(git('diff'))
+    const first = file.hunks[0]
+    // Only "+three b" of the first hunk, all of the second
+    const threeB = first.lines.findIndex(l => l.text === 'three b')
+
+    apply(buildPartialPatch(file, [{ hunk: 0, lines: [threeB] }, { hunk: 1 }], 'stage')!, '--cached')
+
+    const index = git('show', ':a.txt').split('\n')
+    expect(index.slice(1, 4)).toEqual(['line 2', 'line 3', 'three b'])
+    expect(index).toContain('twenty-eight')
+    expect(index).not.toContain('three')
+  })
+
+  it('unstages and discards lines in reverse', () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30, i => (i === 10 ? 'ten\nten b' : `line ${i}`)))
+    git('add', 'a.txt')
+    const [staged] = parseGitDiff(git('diff', '--staged'))
+    const tenB = staged.hunks[0].lines.findIndex(l => l.text === 'ten b')
+
+    apply(buildPartialPatch(staged, [{ hunk: 0, lines: [tenB] }], 'unstage')!, '--cached', '--reverse')
+    expect(git('show', ':a.txt')).toContain('ten\nline 11')
+
+    const [unstaged] = parseGitDiff(git('diff'))
+    apply(buildPartialPatch(unstaged, [{ hunk: 0 }], 'discard')!, '--reverse')
+    expect(git('diff')).toBe('')
+    expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf8')).toContain('ten\nline 11')
+  })
+
+  it('returns null when the selection changes nothing', () => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), lines(30, i => (i === 2 ? 'two' : `line ${i}`)))
+    const [file] = parseGitDiff(git('diff'))
+    expect(changedLineIndexes(file.hunks[0])).toHaveLength(2)
+    expect(buildPartialPatch(file, [{ hunk: 0, lines: [] }], 'stage')).toBeNull()
+    expect(buildPartialPatch(file, [{ hunk: 5 }], 'stage')).toBeNull()
+  })
+})
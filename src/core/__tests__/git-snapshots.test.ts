@@ -0,0 +1,146 @@
+/**
+ * Git Snapshots Tests
+ *
+ * Snapshots are taken and restored in a real repository, around the same
+ * destructive commands the agent is stopped in front of.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { cleansIgnoredFiles, findDestructiveGitCommand, parseSnapshotRefs, SNAPSHOT_REF_PREFIX } from '../git-snapshots'
+import { GitSnapshotStore } from '../git-snapshot-store'
+
+let repo: string
+let store: GitSnapshotStore
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+}
+
+const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf8')
+const write = (file: string, content: string) => fs.writeFileSync(path.join(repo, file), content)
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-snapshots-'))
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'dev@example.com')
+  git('config', 'user.name', 'Dev')
+  write('app.ts', 'export const version = 1\n')
+  git('add', '.')
+  git('commit', '-q', '-m', 'initial')
+  store = new GitSnapshotStore(repo)
+})
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true })
+})
+
+describe('findDestructiveGitCommand', () => {
+  it('finds commands that throw work away, also inside command lists', () => {
+    expect(findDestructiveGitCommand('git reset --hard HEAD~1')).toBe('git reset --hard HEAD~1')
+    expect(findDestructiveGitCommand('npm test && git checkout -- .')).toBe('git checkout -- .')
+    expect(findDestructiveGitCommand('git clean -fd')).toBe('git clean -fd')
+    expect(findDestructiveGitCommand('git -C app rebase main')).toBe('git -C app rebase main')
+    expect(findDestructiveGitCommand('git push -uf origin main')).toBe('git push -uf origin main')
+    expect(findDestructiveGitCommand('git push --force-with-lease')).toBe('git push --force-with-lease')
+    expect(findDestructiveGitCommand('git push origin +main')).toBe('git push origin +main')
+    expect(findDestructiveGitCommand('git restore src/app.ts')).toBe('git restore src/app.ts')
+  })
+
+  it('leaves safe git commands alone', () => {
+    for (const command of ['git status', 'git reset HEAD app.ts', 'git checkout -b feature', 'git checkout main',
+      'git clean -n', 'git push origin main', 'git restore --staged app.ts', 'echo "git reset --hard"']) {
+      expect(findDestructiveGitCommand(command)).toBeNull()
+    }
+  })
+})
+
+describe('cleansIgnoredFiles', () => {
+  it('spots git clean with -x or -X', () => {
+    expect(cleansIgnoredFiles('git clean -fdx')).toBe(true)
+    expect(cleansIgnoredFiles('npm test && git clean -f -X')).toBe(true)
+    expect(cleansIgnoredFiles('git clean -fd')).toBe(false)
+    expect(cleansIgnoredFiles('git reset --hard')).toBe(false)
+  })
+})
+
+describe('parseSnapshotRefs', () => {
+  it('reads reason, branch and HEAD from for-each-ref records, newest first', () => {
+    const record = (...fields: string[]) => `${fields.join('\0')}\x1e\n`
+    const output = [
+      record(`${SNAPSHOT_REF_PREFIX}1000-aaa`, 'aaa', 'h1 i1', '1', 'aibuddy snapshot: git clean -fd\n\nBranch: main\n'),
+      record(`${SNAPSHOT_REF_PREFIX}2000-bbb`, 'bbb', 'h2', '2', 'aibuddy snapshot: git rebase main\n\nBranch: (detached)\n'),
+    ].join('')
+    expect(parseSnapshotRefs(output)).toEqual([
+      { id: '2000-bbb', ref: `${SNAPSHOT_REF_PREFIX}2000-bbb`, commit: 'bbb', reason: 'git rebase main', branch: null, head: 'h2', createdAt: 2000 },
+      { id: '1000-aaa', ref: `${SNAPSHOT_REF_PREFIX}1000-aaa`, commit: 'aaa', reason: 'git clean -fd', branch: 'main', head: 'h1', createdAt: 1000 },
+    ])
+  })
+})
+
+describe('GitSnapshotStore', () => {
+  it('brings back changes and untracked files after reset --hard and clean', async () => {
+    write('app.ts', 'export const version = 2\n')
+    write('notes.md', 'untracked notes\n')
+    write('staged.ts', 'export {}\n')
+    git('add', 'staged.ts')
+
+    const snapshot = await store.create('git reset --hard')
+    expect(snapshot).toMatchObject({ reason: 'git reset --hard', branch: 'main', head: git('rev-parse', 'HEAD').trim() })
+    expect(git('show-ref').split('\n').filter(line => line.includes(SNAPSHOT_REF_PREFIX))).toHaveLength(1)
+    // Taking the snapshot leaves the checkout as it was
+    expect(git('status', '--porcelain')).toBe(' M app.ts\nA  staged.ts\n?? notes.md\n')
+
+    git('reset', '-q', '--hard')
+    git('clean', '-fdq')
+    expect(fs.existsSync(path.join(repo, 'notes.md'))).toBe(false)
+
+    await store.restore(snapshot.id)
+    expect(read('app.ts')).toBe('export const version = 2\n')
+    expect(read('notes.md')).toBe('untracked notes\n')
+    expect(git('status', '--porcelain')).toBe(' M app.ts\nA  staged.ts\n?? notes.md\n')
+  })
+
+  it('keeps ignored files when the command is git clean -x', async () => {
+    write('.gitignore', '*.log\n')
+    git('add', '.gitignore')
+    git('commit', '-q', '-m', 'ignore logs')
+    write('debug.log', 'trace\n')
+
+    const plain = await store.create('git clean -fd')
+    expect(git('ls-tree', '--name-only', plain.commit)).not.toContain('debug.log')
+
+    const snapshot = await store.create('git clean -fdx')
+    expect(git('ls-tree', '--name-only', snapshot.commit)).toContain('debug.log')
+    git('clean', '-fdxq')
+    expect(fs.existsSync(path.join(repo, 'debug.log'))).toBe(false)
+
+    await store.restore(snapshot.id)
+    expect(read('debug.log')).toBe('trace\n')
+    expect(git('status', '--porcelain')).toBe('')
+  })
+
+  it('moves the branch back to where it was and keeps the state it replaced', async () => {
+    const before = git('rev-parse', 'HEAD').trim()
+    const snapshot = await store.create('git reset --hard HEAD~1')
+    write('app.ts', 'export const version = 3\n')
+    git('commit', '-q', '-am', 'later')
+
+    const backup = await store.restore(snapshot.id)
+    expect(git('rev-parse', 'HEAD').trim()).toBe(before)
+    expect(read('app.ts')).toBe('export const version = 1\n')
+    expect(git('status', '--porcelain')).toBe('')
+
+    // The restore itself can be undone
+    expect(backup.reason).toBe('before restoring "git reset --hard HEAD~1"')
+    await store.restore(backup.id)
+    expect(read('app.ts')).toBe('export const version = 3\n')
+    expect(git('log', '-1', '--format=%s').trim()).toBe('later')
+
+    await store.delete(snapshot.id)
+    expect((await store.list()).map(s => s.id)).not.toContain(snapshot.id)
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Merge Conflicts Tests
+ *
+ * Conflicted files come from a real `git merge` with diff3 markers, the way
+ * `git:pull` leaves them for the merge view.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  applyResolutions,
+  buildMergePrompt,
+  ConflictParseError,
+  hasConflictMarkers,
+  parseConflicts,
+  parseMergeReply,
+} from '../merge-conflicts'
+
+let repo: string
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+}
+
+const write = (content: string) => fs.writeFileSync(path.join(repo, 'config.ts'), content)
+
+/** Commit `base`, change it to `ours` on main and `theirs` on a branch, then merge the branch */
+function conflict(base: string, ours: string, theirs: string): string {
+  write(base)
+  git('add', '.')
+  git('commit', '-q', '-m', 'base')
+  git('checkout', '-q', '-b', 'feature')
+  write(theirs)
+  git('commit', '-q', '-am', 'theirs')
+  git('checkout', '-q', 'main')
+  write(ours)
+  git('commit', '-q', '-am', 'ours')
+  try {
+    git('-c', 'merge.conflictStyle=diff3', 'merge', '-q', 'feature')
+  } catch {
+    // Exits non-zero on conflicts
+  }
+  return fs.readFileSync(path.join(repo, 'config.ts'), 'utf8')
+}
+
+const BASE = 'export const host = "localhost"\nexport const port = 3000\nexport const debug = false\n'
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-merge-'))
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'dev@example.com')
+  git('config', 'user.name', 'Dev')
+})
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true })
+})
+
+describe('parseConflicts', () => {
+  it('splits a diff3 conflict into ours, base and theirs', () => {
+    const content = conflict(BASE, BASE.replace('3000', '8080'), BASE.replace('3000', '4000'))
+    expect(hasConflictMarkers(content)).toBe(true)
+
+    const parsed = parseConflicts(content)
+    expect(parsed.regions).toHaveLength(1)
+    expect(parsed.regions[0]).toMatchObject({
+      ours: ['export const port = 8080'],
+      base: ['export const port = 3000'],
+      theirs: ['export const port = 4000'],
+      oursLabel: 'HEAD',
+      theirsLabel: 'feature',
+      before: ['export const host = "localhost"'],
+      after: ['export const debug = false'],
+    })
+  })
+
+  it('reads two-way markers and treats stray markers outside conflicts as text', () => {
+    const parsed = parseConflicts('# Title\n=======\n<<<<<<< HEAD\na\n=======\nb\n>>>>>>> other\n')
+    expect(parsed.segments[0]).toEqual({ type: 'text', lines: ['# Title', '======='] })
+    expect(parsed.regions[0]).toMatchObject({ ours: ['a'], base: null, theirs: ['b'] })
+  })
+
+  it('rejects unbalanced markers', () => {
+    expect(() => parseConflicts('<<<<<<< HEAD\na\n=======\nb\n')).toThrow(ConflictParseError)
+    expect(() => parseConflicts('<<<<<<< HEAD\na\n>>>>>>> other\n')).toThrow(/Unexpected >>>>>>>/)
+  })
+})
+
+describe('applyResolutions', () => {
+  it('writes a file git accepts as resolved', () => {
+    const ours = BASE.replace('3000', '8080').replace('"localhost"', '"0.0.0.0"')
+    const theirs = BASE.replace('3000', '4000') + 'export const timeout = 30\n'
+    const parsed = parseConflicts(conflict(BASE, ours, theirs))
+
+    expect(parsed.regions).toHaveLength(1)
+
+    const merged = applyResolutions(parsed, { 0: { type: 'both' } })
+    expect(hasConflictMarkers(merged)).toBe(false)
+    // Ours then theirs, and theirs' clean addition merged by git
+    expect(merged).toBe([
+      'export const host = "0.0.0.0"',
+      'export const port = 8080',
+      'export const host = "localhost"',
+      'export const port = 4000',
+      'export const debug = false',
+      'export const timeout = 30',
+      '',
+    ].join('\n'))
+
+    write(merged)
+    git('add', 'config.ts')
+    git('commit', '-q', '--no-edit')
+    expect(git('status', '--porcelain')).toBe('')
+  })
+
+  it('keeps CRLF line endings and refuses unresolved regions', () => {
+    const parsed = parseConflicts('top\r\n<<<<<<< HEAD\r\na\r\n=======\r\nb\r\n>>>>>>> other\r\n')
+    expect(applyResolutions(parsed, { 0: { type: 'custom', lines: ['a', 'b'] } })).toBe('top\r\na\r\nb\r\n')
+    expect(() => applyResolutions(parsed, {})).toThrow('1 conflict(s) still need a resolution')
+  })
+})
+
+describe('merging with the model', () => {
+  it('sends both sides with context and reads back code and explanation', () => {
+    const [region] = parseConflicts(conflict(BASE, BASE.replace('3000', '8080'), BASE.replace('3000', '4000'))).regions
+    const prompt = buildMergePrompt('config.ts', region)
+    expect(prompt).toContain('Ours (HEAD):\n```\nexport const port = 8080\n```')
+    expect(prompt).toContain('Common ancestor:\n```\nexport const port = 3000\n```')
+    expect(prompt).toContain('Theirs (feature):')
+
+    const reply = parseMergeReply('```ts\nexport const port = Number(process.env.PORT ?? 8080)\n```\nKept our default port and made it configurable.')
+    expect(reply).toEqual({
+      lines: ['export const port = Number(process.env.PORT ?? 8080)'],
+      explanation: 'Kept our default port and made it configurable.',
+    })
+    expect(() => parseMergeReply('Use ours.')).toThrow('The model did not return merged code')
+  })
+})
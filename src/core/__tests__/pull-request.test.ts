@@ -0,0 +1,140 @@
+/**
+ * Pull Request Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  appendReviewerChecklist,
+  baseBranchOptions,
+  buildPullRequestPrompt,
+  buildReviewerChecklist,
+  changeArea,
+  findRiskySpots,
+  groupChangesByArea,
+  parsePullRequestReply,
+} from '../pull-request'
+import { parseDiffFiles } from '../commit-message'
+import { GitHandler } from '../git-handler'
+
+function fileDiff(path: string, added: string[], removed: string[] = [], start = 1): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'index 1111111..2222222 100644',
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${start},${removed.length + 1} +${start},${added.length + 1} @@`,
+    ' // context',
+    ...removed.map(line => `-${line}`),
+    ...added.map(line => `+${line}`),
+  ].join('\n')
+}
+
+const DIFF = [
+  fileDiff('src/core/cart.ts', ['export const total = 0', 'console.log(total) // TODO remove'], ['export let total = 0'], 10),
+  fileDiff('src/core/tax.ts', ['export const rate = 0.2']),
+  fileDiff('electron/ipc/auth.ts', ['const apiKey = "sk-live-1234567890"']),
+  fileDiff('package.json', ['  "left-pad": "^1.3.0",']),
+  fileDiff('README.md', ['## Cart']),
+].join('\n')
+
+describe('areas and risks', () => {
+  it('names areas after top folders and sets tests, docs and config apart', () => {
+    expect(changeArea('src/core/cart.ts')).toBe('src/core')
+    expect(changeArea('electron/ipc/git.ts')).toBe('electron')
+    expect(changeArea('src/core/__tests__/cart.test.ts')).toBe('Tests')
+    expect(changeArea('docs/setup.md')).toBe('Docs')
+    expect(changeArea('tsconfig.json')).toBe('Build & config')
+    expect(changeArea('.github/workflows/ci.yml')).toBe('Build & config')
+    expect(changeArea('index.ts')).toBe('(root)')
+
+    expect(groupChangesByArea(parseDiffFiles(DIFF)).map(a => [a.name, a.files.length, a.additions, a.deletions])).toEqual([
+      ['src/core', 2, 3, 1],
+      ['Build & config', 1, 1, 0],
+      ['Docs', 1, 1, 0],
+      ['electron', 1, 1, 0],
+    ])
+  })
+
+  it('finds risky files and added lines, high risk first', () => {
+    const risks = findRiskySpots(parseDiffFiles(DIFF))
+    expect(risks.map(r => [r.level, r.path, r.line, r.reason])).toEqual([
+      ['high', 'electron/ipc/auth.ts', undefined, 'Authentication or security code changed'],
+      ['high', 'electron/ipc/auth.ts', 2, 'Possible hard-coded secret'],
+      ['medium', 'src/core/cart.ts', 12, 'Unfinished work marked'],
+      ['medium', 'src/core/cart.ts', 12, 'Debug output left in'],
+      ['medium', 'package.json', undefined, 'Dependencies changed'],
+      ['medium', null, undefined, '3 source file(s) changed without test changes — check the change is covered'],
+    ])
+
+    expect(buildReviewerChecklist(risks.slice(1, 3))).toEqual([
+      '**High risk:** `electron/ipc/auth.ts:2` — Possible hard-coded secret',
+      '`src/core/cart.ts:12` — Unfinished work marked',
+    ])
+    expect(appendReviewerChecklist('## Summary\nAdds a cart.\n', ['`a.ts:1` — Debug output left in']))
+      .toBe('## Summary\nAdds a cart.\n\n## Reviewer checklist\n\n- [ ] `a.ts:1` — Debug output left in\n')
+  })
+
+  it('offers likely base branches first', () => {
+    expect(baseBranchOptions(['feature', 'develop', 'main', 'remotes/origin/HEAD -> origin/main', 'remotes/origin/main', 'remotes/origin/feature'], 'feature'))
+      .toEqual(['origin/main', 'main', 'develop'])
+  })
+})
+
+describe('prompt and reply', () => {
+  const comparison = (() => {
+    const files = parseDiffFiles(DIFF)
+    return { base: 'main', commits: ['Add cart total', 'Add tax rate'], diff: DIFF, files, areas: groupChangesByArea(files), risks: [] }
+  })()
+
+  it('fills in the repo template when there is one', () => {
+    const prompt = buildPullRequestPrompt(comparison, 'feature/cart', '## What\n<!-- describe -->\n\n## Checklist\n- [ ] Tests')
+    expect(prompt).toContain('merging `feature/cart` into `main`')
+    expect(prompt).toContain('Fill in the repository\'s pull request template below')
+    expect(prompt).toContain('## What\n<!-- describe -->')
+    expect(prompt).toContain('Commits (2):\n- Add cart total\n- Add tax rate')
+    expect(prompt).toContain('- src/core (+3 −1): src/core/cart.ts, src/core/tax.ts')
+
+    expect(buildPullRequestPrompt(comparison, 'feature/cart')).toContain('a "## Summary" section')
+  })
+
+  it('reads the title line and the body', () => {
+    expect(parsePullRequestReply('Title: Add a cart total\n\n## Summary\nAdds it.')).toEqual({ title: 'Add a cart total', body: '## Summary\nAdds it.' })
+    expect(parsePullRequestReply('```markdown\n# Add a cart total\n\nBody\n```')).toEqual({ title: 'Add a cart total', body: 'Body' })
+    expect(() => parsePullRequestReply('  ')).toThrow('The model did not return a pull request title')
+  })
+})
+
+describe('GitHandler.generatePullRequestDescription', () => {
+  const api = (window as any).electronAPI
+
+  afterEach(() => {
+    api.fs.readFileAsText.mockReset()
+    api.fs.readFileAsText.mockResolvedValue('test file content')
+  })
+
+  it('compares with the base and appends the reviewer checklist', async () => {
+    api.git.log.mockResolvedValueOnce({ all: [{ message: 'Add cart total' }] })
+    api.git.diff.mockResolvedValueOnce(DIFF)
+    api.git.branch.mockResolvedValueOnce({ current: 'feature/cart', all: ['feature/cart', 'main'] })
+    api.fs.readFileAsText.mockImplementation(async (file: string) => {
+      if (file === '/repo/.github/pull_request_template.md') return '## What\n\n## Why\n'
+      throw new Error('ENOENT')
+    })
+    const model = vi.fn().mockResolvedValue('Title: Add a cart total\n\n## What\nA total.\n\n## Why\nCheckout needs it.')
+
+    const description = await new GitHandler('/repo').generatePullRequestDescription('main', model)
+
+    expect(api.git.log).toHaveBeenLastCalledWith('/repo', { base: 'main' })
+    expect(api.git.diff).toHaveBeenLastCalledWith('/repo', { base: 'main' })
+    expect(model.mock.calls[0][0]).toContain('## What\n\n## Why')
+    expect(description.title).toBe('Add a cart total')
+    expect(description.usedTemplate).toBe(true)
+    expect(description.body).toMatch(/^## What\nA total\.\n\n## Why\nCheckout needs it\.\n\n## Reviewer checklist\n\n- \[ \] \*\*High risk:\*\* `electron\/ipc\/auth\.ts`/)
+  })
+
+  it('refuses when HEAD has nothing the base lacks', async () => {
+    api.git.log.mockResolvedValueOnce({ all: [] })
+    api.git.diff.mockResolvedValueOnce('')
+    await expect(new GitHandler('/repo').compareWithBase('main')).rejects.toThrow('HEAD has no changes compared with main')
+  })
+})
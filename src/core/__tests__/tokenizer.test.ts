@@ -0,0 +1,92 @@
+/**
+ * Tokenizer Tests
+ *
+ * cl100k counts, chunking of long pieces, and the per-part context counts
+ * used for KAN-54 history trimming.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  BpeTokenizer,
+  countTokens,
+  countMessageTokens,
+  countContextTokens,
+  getTokenizer,
+  IMAGE_TOKEN_ESTIMATE,
+  MAX_PIECE_LENGTH
+} from '../tokenizer'
+
+describe('BpeTokenizer', () => {
+  it('encodes long pieces in bounded chunks', () => {
+    const encode = vi.fn((text: string) => Array.from({ length: Math.ceil(text.length / 4) }, () => 1))
+    const tokenizer = new BpeTokenizer({ encode })
+
+    expect(tokenizer.count('a'.repeat(MAX_PIECE_LENGTH * 3 + 10))).toBe(3 * (MAX_PIECE_LENGTH / 4) + 3)
+    expect(Math.max(...encode.mock.calls.map(([text]) => text.length))).toBe(MAX_PIECE_LENGTH)
+  })
+
+  it('keeps surrogate pairs whole at chunk boundaries', () => {
+    const encode = vi.fn((text: string) => [text.length])
+    const tokenizer = new BpeTokenizer({ encode })
+
+    tokenizer.count('a'.repeat(MAX_PIECE_LENGTH - 1) + '😀'.repeat(200))
+    for (const [text] of encode.mock.calls) expect(text).not.toMatch(/[\uD800-\uDBFF]$/)
+  })
+})
+
+describe('countTokens', () => {
+  it('matches cl100k_base', () => {
+    expect(countTokens('')).toBe(0)
+    expect(getTokenizer().encode('hello world')).toEqual([15339, 1917])
+    expect(countTokens('tiktoken is great!')).toBe(6)
+    expect(countTokens('const value = await fetch(url)')).toBe(7)
+    expect(countTokens('你好世界')).toBe(5)
+  })
+
+  it('counts special-token text as plain text', () => {
+    expect(countTokens('x<|endoftext|>y')).toBeGreaterThan(1)
+  })
+
+  it('counts a very long single piece quickly', () => {
+    const started = Date.now()
+    expect(countTokens('ab'.repeat(200_000))).toBeGreaterThan(0)
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+})
+
+describe('countMessageTokens', () => {
+  it('uses a fixed estimate for images instead of their base64 size', () => {
+    const content = [
+      { type: 'text', text: 'what is this' },
+      { type: 'image', source: { type: 'base64', data: 'A'.repeat(100_000) } },
+    ]
+    const tokens = countMessageTokens(content)
+    expect(tokens).toBeGreaterThan(IMAGE_TOKEN_ESTIMATE)
+    expect(tokens).toBeLessThan(IMAGE_TOKEN_ESTIMATE + 20)
+  })
+})
+
+describe('countContextTokens', () => {
+  it('reports each part and their total', () => {
+    const breakdown = countContextTokens({
+      systemPrompt: 'You are a helpful assistant.',
+      skills: ['Always write tests.'],
+      knowledgeBase: 'Server: prod-1',
+      history: ['hi', 'hello there'],
+      attachments: ['const x = 1'],
+      imageCount: 1,
+    })
+    expect(breakdown.systemPrompt).toBeGreaterThan(0)
+    expect(breakdown.skills).toBeGreaterThan(0)
+    expect(breakdown.knowledgeBase).toBeGreaterThan(0)
+    expect(breakdown.history).toBeGreaterThan(0)
+    expect(breakdown.attachments).toBeGreaterThan(IMAGE_TOKEN_ESTIMATE)
+    expect(breakdown.total).toBe(
+      breakdown.systemPrompt + breakdown.skills + breakdown.knowledgeBase + breakdown.history + breakdown.attachments
+    )
+  })
+
+  it('returns zeros for an empty request', () => {
+    expect(countContextTokens({}).total).toBe(0)
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Toolchain Pins Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { DevelopmentEnvironment, LanguageEnvironment } from '../environment-detector'
+import {
+  checkToolchainPins,
+  formatToolchainMismatches,
+  parseGlobalJson,
+  parseGradleJdk,
+  parsePubspecFlutter,
+  parseToolVersions,
+  readToolchainPins,
+  satisfiesRange,
+  type PinFileReader,
+} from '../toolchain-pins'
+
+function reader(files: Record<string, string>): PinFileReader {
+  return async file => files[file] ?? null
+}
+
+function environment(languages: Array<Partial<LanguageEnvironment> & { language: string }>): DevelopmentEnvironment {
+  return {
+    os: { platform: 'linux', release: '6.0', arch: 'x64', homedir: '/home/dev' },
+    shell: '/bin/bash',
+    languages: languages.map(l => ({ category: 'standard', installed: !!l.version, ...l })),
+    ides: [],
+    versionControl: [],
+    containerization: [],
+    cloud: [],
+    databases: [],
+    detectedAt: new Date(),
+  }
+}
+
+describe('satisfiesRange', () => {
+  it('understands the npm range forms projects use', () => {
+    expect(satisfiesRange('20.11.1', '20')).toBe(true)
+    expect(satisfiesRange('v18.19.0', '>=18 <21')).toBe(true)
+    expect(satisfiesRange('21.0.0', '>=18 <21')).toBe(false)
+    expect(satisfiesRange('20.1.0', '^18.0.0 || ^20.0.0')).toBe(true)
+    expect(satisfiesRange('3.12.1', '~3.11')).toBe(false)
+    expect(satisfiesRange('1.3.0', '1.2 - 1.4')).toBe(true)
+    expect(satisfiesRange('16.20.2', '>= 18.x')).toBe(false)
+    expect(satisfiesRange('0.3.1', '^0.2.0')).toBe(false)
+  })
+})
+
+describe('pin files', () => {
+  it('reads asdf plugins, dropping distribution prefixes and channels', () => {
+    expect(parseToolVersions('nodejs 20.11.1\njava temurin-17.0.9+9 # jdk\nflutter 3.19.0-stable\nterraform 1.6.0\n')).toEqual([
+      { tool: 'node', requirement: '20.11.1', range: '20.11.1', source: '.tool-versions (nodejs)' },
+      { tool: 'java', requirement: 'temurin-17.0.9+9', range: '17', source: '.tool-versions (java)' },
+      { tool: 'flutter', requirement: '3.19.0-stable', range: '3.19.0', source: '.tool-versions (flutter)' },
+    ])
+  })
+
+  it('turns global.json rollForward into a range', () => {
+    expect(parseGlobalJson('{ "sdk": { "version": "8.0.100" } }')?.range).toBe('>=8.0.100 <8.0.200')
+    expect(parseGlobalJson('{ "sdk": { "version": "8.0.100", "rollForward": "latestMinor" } }')?.range).toBe('>=8.0.100 <9.0.0')
+    expect(parseGlobalJson('{ "sdk": { "version": "8.0.100", "rollForward": "disable" } }')?.range).toBe('8.0.100')
+    expect(parseGlobalJson('{ "msbuild-sdks": {} }')).toBeNull()
+  })
+
+  it('reads Gradle toolchains and compatibility levels', () => {
+    expect(parseGradleJdk('kotlin {\n  jvmToolchain(17)\n}', 'build.gradle.kts')).toMatchObject({ range: '17' })
+    expect(parseGradleJdk('compileOptions {\n  sourceCompatibility JavaVersion.VERSION_1_8\n}', 'app/build.gradle')).toMatchObject({ requirement: '1.8', range: '>=8' })
+    expect(parseGradleJdk("plugins { id 'application' }", 'build.gradle')).toBeNull()
+  })
+
+  it('reads the flutter constraint from pubspec.yaml', () => {
+    const pubspec = 'name: shop\nenvironment:\n  sdk: ">=3.0.0 <4.0.0"\n  flutter: ">=3.10.0"\n\ndependencies:\n  flutter:\n    sdk: flutter\n'
+    expect(parsePubspecFlutter(pubspec)).toMatchObject({ tool: 'flutter', range: '>=3.10.0' })
+  })
+
+  it('collects every pin in a project and skips aliases', async () => {
+    const pins = await readToolchainPins(reader({
+      '.nvmrc': 'lts/*\n',
+      '.node-version': 'v20.11.1\n',
+      'package.json': JSON.stringify({ engines: { node: '>=18', npm: '>=9' } }),
+      '.python-version': 'pypy3.9\n3.11.4\n',
+      'rust-toolchain.toml': '[toolchain]\nchannel = "1.75.0"\ncomponents = ["clippy"]\n',
+      'gradle/gradle-daemon-jvm.properties': 'toolchainVersion=21\n',
+    }))
+    expect(pins.map(p => [p.tool, p.range, p.source])).toEqual([
+      ['node', '20.11.1', '.node-version'],
+      ['node', '>=18', 'package.json (engines.node)'],
+      ['python', '3.11.4', '.python-version'],
+      ['rust', '1.75.0', 'rust-toolchain.toml'],
+      ['java', '21', 'gradle/gradle-daemon-jvm.properties'],
+    ])
+  })
+})
+
+describe('checkToolchainPins', () => {
+  it('flags unsatisfied pins with a fix command', async () => {
+    const pins = await readToolchainPins(reader({
+      '.nvmrc': '20',
+      'package.json': JSON.stringify({ engines: { node: '>=18' } }),
+      'global.json': '{ "sdk": { "version": "8.0.100" } }',
+      'build.gradle.kts': 'kotlin { jvmToolchain(17) }',
+      '.python-version': '3.12',
+    }))
+    const env = environment([
+      { language: 'Node.js / JavaScript / TypeScript', version: '18.19.0' },
+      { language: '.NET / C#', version: '9.0.100', sdks: [{ name: '.NET SDK', installed: true, variants: ['8.0.104', '9.0.100'] }] },
+      { language: 'Android (Java / Kotlin)', buildTools: [{ name: 'Java', installed: true, version: '1.8.0' }] },
+      { language: 'Python' },
+    ])
+
+    const mismatches = checkToolchainPins(pins, env, 'darwin')
+    expect(mismatches.map(m => [m.pin.tool, m.installed, m.fix])).toEqual([
+      ['node', '18.19.0', 'nvm install && nvm use'],
+      ['python', null, 'pyenv install 3.12 && pyenv local 3.12'],
+      ['java', '8.0', 'brew install openjdk@17'],
+    ])
+
+    const summary = formatToolchainMismatches(mismatches)
+    expect(summary).toContain('### Toolchain Mismatches')
+    expect(summary).toContain('- Node.js: project wants 20 (.nvmrc), found 18.19.0 — fix: `nvm install && nvm use`')
+    expect(summary).toContain('- Python: project wants 3.12 (.python-version), not installed')
+    expect(formatToolchainMismatches([])).toBe('')
+  })
+})
@@ -9,6 +9,26 @@ import { EventEmitter } from 'events'
 import path from 'path'
 import { vscode } from '../adapters/vscode-shim'
 import { terminalManager, ExecutionResult } from '../adapters/terminal-adapter'
+import {
+  applySearchReplace,
+  applyUnifiedDiff,
+  formatEditResult,
+  type FileEditResult,
+  type SearchReplaceBlock
+} from './file-edits'
+import { formatSearchResults, DEFAULT_MAX_RESULTS, type ContentSearchResult } from './search-results'
+import { countTokens, countMessageTokens } from './tokenizer'
+import { isMcpToolName, type McpToolInfo } from '../mcp/types'
+import { formatMcpToolResponse, runMcpToolCall } from '../mcp/chat-tools'
+import type { PermissionDecision } from '../skills/types'
+import { NO_POLICY, evaluateCommandPolicy, evaluateWritePolicy } from '../policy/execution-policy'
+import type { ExecutionPolicy, PolicyDecision } from '../policy/types'
+import { countDiagnostics, diagnosticsStore, formatDiagnostics, normalizeDiagnosticPath, type DiagnosticsStore } from '../diagnostics'
+import type { DiagnosticSeverity } from '../diagnostics/types'
+import { containerTargets, toContainerPath, type ContainerTargetStore } from './dev-containers'
+import { findDestructiveGitCommand, type GitSnapshotter } from './git-snapshots'
+import { commandWriteTargets } from '../agent/shell-parser'
+import { getSmartAgent } from '../agent/smart-agent'
 
 const electronAPI = typeof window !== 'undefined' ? (window as any).electronAPI : null
 
@@ -46,8 +66,84 @@ export interface AgentConfig {
   temperature?: number
   systemPrompt?: string
   workspacePath?: string
+  /** Chat thread ID — enables file checkpoints before every agent write */
+  threadId?: string
+  /**
+   * Ask the user whether an MCP tool may run (show ToolPermissionDialog).
+   * Without it, MCP tools that have no stored "always allow" are denied.
+   */
+  onToolPermission?: (request: ToolPermissionRequest) => Promise<PermissionDecision>
+  /**
+   * Decide whether a file write or command may run. Without it every tool
+   * runs (the desktop app asks before the agent starts, not per tool) except
+   * ones the policy says need confirmation.
+   * Tools the policy denies or allows outright never reach this.
+   */
+  onToolApproval?: (toolUse: ToolUse, decision: PolicyDecision) => boolean | Promise<boolean>
+  /** Execution policy (.aibuddy/policy.json) — deny rules and protected paths are enforced before onToolApproval */
+  policy?: ExecutionPolicy
+  /** Where the tools run — defaults to the Electron renderer's electronAPI */
+  host?: AgentHost
+  /** Extra system prompt sections (skills, workspace rules) appended to the default prompt */
+  instructions?: string
+}
+
+/** An MCP tool call waiting for the user's decision */
+export interface ToolPermissionRequest {
+  server: string
+  tool: string
+  description: string
+}
+
+export interface CheckpointContext {
+  threadId: string
+  /** Index of the chat message the agent is acting on */
+  messageIndex: number
+}
+
+/** The file system the agent's tools read and write */
+export interface AgentFileSystem {
+  readFile(path: string, encoding: 'utf-8'): Promise<string>
+  writeFile(path: string, content: string): Promise<void>
+  exists(path: string): Promise<boolean>
+  readDir(path: string): Promise<Array<{ name: string; isDirectory: boolean }>>
+  readTree?(path: string, depth: number): Promise<FileTreeNode[]>
+  search(options: { cwd: string; root?: string; pattern: string; include?: string[]; exclude?: string[]; before?: number; after?: number; ignoreCase?: boolean; maxResults?: number }): Promise<ContentSearchResult>
+}
+
+export interface FileTreeNode {
+  name: string
+  path: string
+  isDirectory: boolean
+  children?: FileTreeNode[]
+}
+
+/** Runs execute_command; satisfied by terminalManager */
+export interface AgentCommandRunner {
+  executeCommand(command: string, options: { cwd?: string; timeout?: number }): Promise<ExecutionResult>
+}
+
+/** electronAPI.fs + the PTY terminal in the app, node:fs + child_process in the CLI */
+export interface AgentHost {
+  fs: AgentFileSystem | null
+  terminal: AgentCommandRunner
+  /** Where get_diagnostics reads from — defaults to the app-wide diagnosticsStore */
+  diagnostics?: DiagnosticsStore
+  /** Which container execute_command runs in — defaults to the app-wide containerTargets */
+  containers?: ContainerTargetStore
+  /** Saves the working tree before destructive git commands — defaults to electronAPI.snapshots */
+  snapshots?: GitSnapshotter
+  /** Told about every file the agent writes, to scope test and build commands — defaults to the SmartAgent */
+  edits?: EditRecorder
 }
 
+export interface EditRecorder {
+  recordEdits(paths: string[]): void
+}
+
+/** Tools that change files or run commands — the ones the policy and onToolApproval are asked about */
+export const MUTATING_TOOLS = new Set(['write_to_file', 'replace_in_file', 'apply_diff', 'execute_command'])
+
 export interface AgentState {
   isRunning: boolean
   currentTask?: string
@@ -83,6 +179,41 @@ export const AVAILABLE_TOOLS = [
       required: ['path', 'content']
     }
   },
+  {
+    name: 'replace_in_file',
+    description: 'Make targeted edits to an existing file using exact-match search/replace blocks. Prefer this over write_to_file for changes to existing files. Each search text must match the current file content exactly once (including whitespace); the edit fails if a search is not found or is ambiguous. Returns the edited line ranges.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the file to edit' },
+        edits: {
+          type: 'array',
+          description: 'Edits applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              search: { type: 'string', description: 'Exact text to find, with enough surrounding lines to be unique' },
+              replace: { type: 'string', description: 'Text to replace it with' }
+            },
+            required: ['search', 'replace']
+          }
+        }
+      },
+      required: ['path', 'edits']
+    }
+  },
+  {
+    name: 'apply_diff',
+    description: 'Apply a unified diff (with @@ -a,b +c,d @@ hunk headers) to an existing file. Hunk context must match the current file content; the edit fails on stale or ambiguous hunks. Returns the edited line ranges.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the file to patch' },
+        diff: { type: 'string', description: 'Unified diff for this single file' }
+      },
+      required: ['path', 'diff']
+    }
+  },
   {
     name: 'list_files',
     description: 'List files and directories at the specified path',
@@ -119,6 +250,36 @@ export const AVAILABLE_TOOLS = [
       required: ['pattern']
     }
   },
+  {
+    name: 'grep_search',
+    description: 'Search file contents with a regular expression (like ripgrep). Respects .gitignore and skips hidden and binary files. Use this to find where a symbol is defined or used. Returns matches grouped by file as "line:text", with context lines as "line-text".',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Regular expression to search for' },
+        path: { type: 'string', description: 'Directory to search in (defaults to the workspace root)' },
+        include: { type: 'array', items: { type: 'string' }, description: 'Only search files matching these globs, e.g. ["*.ts", "src/**"]' },
+        exclude: { type: 'array', items: { type: 'string' }, description: 'Skip files matching these globs' },
+        context_before: { type: 'number', description: 'Lines of context before each match (max 10)' },
+        context_after: { type: 'number', description: 'Lines of context after each match (max 10)' },
+        ignore_case: { type: 'boolean', description: 'Case-insensitive search' },
+        max_results: { type: 'number', description: `Maximum matching lines to return (default ${DEFAULT_MAX_RESULTS})` }
+      },
+      required: ['pattern']
+    }
+  },
+  {
+    name: 'get_diagnostics',
+    description: 'Get the compiler and linter problems (tsc, eslint, gradle, cargo, go build, dotnet, flutter analyze) collected from the latest build, type-check and lint commands, as "file:line:column severity code (tool): message". Use this instead of re-running a build to see what is broken. If nothing has been collected yet, run the build once with execute_command.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Only problems in this file or directory (workspace-relative)' },
+        severity: { type: 'string', enum: ['error', 'warning', 'info'], description: 'Lowest severity to include (default warning)' }
+      },
+      required: []
+    }
+  },
   {
     name: 'ask_followup_question',
     description: 'Ask the user a follow-up question for clarification',
@@ -150,15 +311,69 @@ export const AVAILABLE_TOOLS = [
 
 export class ToolExecutor {
   private workspacePath: string
-
-  constructor(workspacePath: string) {
+  private fs: AgentFileSystem | null
+  private terminal: AgentCommandRunner
+  private checkpointContext: CheckpointContext | null = null
+  private permissionHandler: ((request: ToolPermissionRequest) => Promise<PermissionDecision>) | null = null
+  private approvalHandler: ((toolUse: ToolUse, decision: PolicyDecision) => boolean | Promise<boolean>) | null = null
+  private policy: ExecutionPolicy = NO_POLICY
+  private diagnostics: DiagnosticsStore
+  private containers: ContainerTargetStore
+  private snapshots: GitSnapshotter | null
+  private edits: EditRecorder
+
+  constructor(workspacePath: string, host?: AgentHost) {
     this.workspacePath = workspacePath
+    this.fs = host ? host.fs : electronAPI?.fs ?? null
+    this.terminal = host ? host.terminal : terminalManager
+    this.diagnostics = host?.diagnostics ?? diagnosticsStore
+    this.containers = host?.containers ?? containerTargets
+    this.snapshots = host ? host.snapshots ?? null : electronAPI?.snapshots ?? null
+    this.edits = host?.edits ?? getSmartAgent()
+  }
+
+  /**
+   * Snapshot files before each mutation so they can be restored to the state
+   * before this message. Pass null to stop taking checkpoints.
+   */
+  setCheckpointContext(context: CheckpointContext | null): void {
+    this.checkpointContext = context
+  }
+
+  /** Prompt used when an MCP tool call needs the user's permission */
+  setPermissionHandler(handler: ((request: ToolPermissionRequest) => Promise<PermissionDecision>) | null): void {
+    this.permissionHandler = handler
+  }
+
+  /** Gate for file writes and commands; null lets everything the policy doesn't stop run */
+  setApprovalHandler(handler: ((toolUse: ToolUse, decision: PolicyDecision) => boolean | Promise<boolean>) | null): void {
+    this.approvalHandler = handler
+  }
+
+  setPolicy(policy: ExecutionPolicy): void {
+    this.policy = policy
   }
 
   async execute(toolUse: ToolUse): Promise<string> {
     const { name, input } = toolUse
 
     try {
+      if (MUTATING_TOOLS.has(name)) {
+        const decision = name === 'execute_command'
+          ? evaluateCommandPolicy(this.policy, String(input.command ?? ''), this.workspacePath, input.cwd ? this.resolvePath(String(input.cwd)) : undefined)
+          : evaluateWritePolicy(this.policy, this.workspacePath, String(input.path ?? ''))
+        if (decision.verdict === 'deny') {
+          return `[DENIED] ${name} is blocked by the workspace execution policy: ${decision.reason}. Do not retry it or work around it.`
+        }
+        const approved = decision.verdict === 'allow' ||
+          (this.approvalHandler ? await this.approvalHandler(toolUse, decision) : decision.verdict === 'auto')
+        if (!approved) {
+          return decision.verdict === 'confirm'
+            ? `[DENIED] ${name} needs confirmation (${decision.reason}) and was not approved. Do not retry it; continue without it or explain what the user needs to do.`
+            : `[DENIED] ${name} was not approved. Do not retry it; continue without it or explain what the user needs to do.`
+        }
+      }
+
       switch (name) {
         case 'read_file':
           return await this.readFile(input.path as string)
@@ -166,6 +381,14 @@ export class ToolExecutor {
         case 'write_to_file':
           return await this.writeFile(input.path as string, input.content as string)
         
+        case 'replace_in_file':
+          return await this.editFile(input.path as string, 'replace_in_file', content =>
+            applySearchReplace(content, input.edits as SearchReplaceBlock[]))
+        
+        case 'apply_diff':
+          return await this.editFile(input.path as string, 'apply_diff', content =>
+            applyUnifiedDiff(content, input.diff as string))
+        
         case 'list_files':
           return await this.listFiles(input.path as string, input.recursive as boolean)
         
@@ -175,6 +398,12 @@ export class ToolExecutor {
         case 'search_files':
           return await this.searchFiles(input.pattern as string, input.path as string)
         
+        case 'grep_search':
+          return await this.grepSearch(input)
+        
+        case 'get_diagnostics':
+          return this.getDiagnostics(input.path as string | undefined, input.severity as DiagnosticSeverity | undefined)
+        
         case 'ask_followup_question':
           return `[FOLLOWUP_QUESTION]: ${input.question}`
         
@@ -182,6 +411,9 @@ export class ToolExecutor {
           return `[TASK_COMPLETE]: ${input.result}${input.command ? `\n\nSuggested command: ${input.command}` : ''}`
         
         default:
+          if (isMcpToolName(name)) {
+            return await this.callMcpTool(name, input)
+          }
           return `Unknown tool: ${name}`
       }
     } catch (error) {
@@ -199,8 +431,8 @@ export class ToolExecutor {
     const fullPath = this.resolvePath(filePath)
     this.enforceWorkspaceBoundary(fullPath)
     
-    if (electronAPI) {
-      const content = await electronAPI.fs.readFile(fullPath, 'utf-8')
+    if (this.fs) {
+      const content = await this.fs.readFile(fullPath, 'utf-8')
       return content
     }
     
@@ -211,36 +443,71 @@ export class ToolExecutor {
     const fullPath = this.resolvePath(filePath)
     this.enforceWorkspaceBoundary(fullPath)
     
-    if (electronAPI) {
-      await electronAPI.fs.writeFile(fullPath, content)
-      const exists = await electronAPI.fs.exists(fullPath)
+    if (this.fs) {
+      await this.checkpoint(fullPath, 'write_to_file')
+      await this.fs.writeFile(fullPath, content)
+      const exists = await this.fs.exists(fullPath)
       if (!exists) {
         throw new Error(`[ERROR] File write failed to verify — file does not exist at: ${fullPath}. Check folder permissions or macOS sandbox restrictions.`)
       }
+      this.edits.recordEdits([fullPath])
       return `Successfully wrote to ${filePath}`
     }
     
     throw new Error('File system not available')
   }
 
+  private async editFile(
+    filePath: string,
+    source: 'replace_in_file' | 'apply_diff',
+    applyEdit: (content: string) => FileEditResult
+  ): Promise<string> {
+    const fullPath = this.resolvePath(filePath)
+    this.enforceWorkspaceBoundary(fullPath)
+    
+    if (this.fs) {
+      const exists = await this.fs.exists(fullPath)
+      if (!exists) {
+        throw new Error(`[ERROR] File not found: ${filePath}. Use write_to_file to create new files.`)
+      }
+      const original = await this.fs.readFile(fullPath, 'utf-8')
+      const result = applyEdit(original)
+      await this.checkpoint(fullPath, source)
+      await this.fs.writeFile(fullPath, result.content)
+      this.edits.recordEdits([fullPath])
+      return formatEditResult(filePath, result)
+    }
+    
+    throw new Error('File system not available')
+  }
+
+  private async checkpoint(fullPath: string, source: 'write_to_file' | 'replace_in_file' | 'apply_diff' | 'command'): Promise<void> {
+    if (!this.checkpointContext || !this.workspacePath || !electronAPI?.checkpoints) return
+    const { threadId, messageIndex } = this.checkpointContext
+    const saved = await electronAPI.checkpoints.snapshot(this.workspacePath, threadId, messageIndex, fullPath, source)
+    if (!saved) {
+      console.warn(`[ToolExecutor] No checkpoint taken for ${fullPath} — it cannot be restored later`)
+    }
+  }
+
   private async listFiles(filePath: string, recursive = false): Promise<string> {
     const fullPath = this.resolvePath(filePath)
     this.enforceWorkspaceBoundary(fullPath)
     
-    if (electronAPI) {
+    if (this.fs) {
       if (recursive) {
-        const tree = await electronAPI.fs.readTree?.(fullPath, 3) || []
+        const tree = await this.fs.readTree?.(fullPath, 3) || []
         return this.formatTree(tree)
       } else {
-        const entries = await electronAPI.fs.readDir(fullPath)
-        return entries.map((e: any) => `${e.isDirectory ? '[DIR]' : '[FILE]'} ${e.name}`).join('\n')
+        const entries = await this.fs.readDir(fullPath)
+        return entries.map(e => `${e.isDirectory ? '[DIR]' : '[FILE]'} ${e.name}`).join('\n')
       }
     }
     
     throw new Error('File system not available')
   }
 
-  private formatTree(nodes: any[], indent = ''): string {
+  private formatTree(nodes: FileTreeNode[], indent = ''): string {
     let result = ''
     for (const node of nodes) {
       result += `${indent}${node.isDirectory ? '📁' : '📄'} ${node.name}\n`
@@ -255,20 +522,77 @@ export class ToolExecutor {
     const workingDir = cwd ? this.resolvePath(cwd) : this.workspacePath
     if (workingDir) this.enforceWorkspaceBoundary(workingDir)
     
-    const result = await terminalManager.executeCommand(command, {
+    const container = this.containers.getActive(this.workspacePath)
+    let routed: string
+    try {
+      routed = this.containers.route(command, { cwd: workingDir, workspacePath: this.workspacePath })
+    } catch (error) {
+      return `Command not run: ${(error as Error).message}`
+    }
+
+    // What a reset --hard, clean, rebase or force push throws away is saved first — no snapshot, no command
+    const destructive = findDestructiveGitCommand(command)
+    let snapshotNote = ''
+    if (destructive && this.snapshots && workingDir) {
+      try {
+        const snapshot = await this.snapshots.create(workingDir, destructive)
+        snapshotNote = `Working tree snapshot saved as ${snapshot.ref}\n`
+      } catch (error) {
+        return `Command not run: ${(error as Error).message}`
+      }
+    }
+
+    // Files the command writes, moves or deletes can be restored like write_to_file edits
+    let writes: string[] = []
+    try {
+      writes = commandWriteTargets(command)
+    } catch {
+      // Unparseable — auto-mode rates it critical, so the user approves it first
+    }
+    const written = workingDir
+      ? writes.filter(target => !/^~|\$/.test(target)).map(target => path.resolve(workingDir, target))
+      : []
+    for (const file of written) await this.checkpoint(file, 'command')
+
+    const result = await this.terminal.executeCommand(routed, {
       cwd: workingDir,
       timeout: 60000
     })
+    this.edits.recordEdits(written)
+
+    // Paths in container output are relative to where the workspace is mounted
+    const location = container
+      ? { cwd: toContainerPath(workingDir, this.workspacePath, container.workspaceFolder) ?? undefined, workspacePath: container.workspaceFolder }
+      : { cwd: workingDir, workspacePath: this.workspacePath }
+    const found = this.diagnostics.record(command, result.output, location)
+    const counts = countDiagnostics(found)
+    const note = counts.error + counts.warning > 0
+      ? `\n\n[${counts.error} error(s), ${counts.warning} warning(s) collected — call get_diagnostics for the full list]`
+      : ''
+    const ranIn = container ? `Ran in: ${container.label}\n` : ''
+    return `${snapshotNote}${ranIn}Exit code: ${result.exitCode}\n\nOutput:\n${result.output}${note}`
+  }
 
-    return `Exit code: ${result.exitCode}\n\nOutput:\n${result.output}`
+  private getDiagnostics(filePath?: string, severity: DiagnosticSeverity = 'warning'): string {
+    const relative = filePath ? normalizeDiagnosticPath(filePath, { workspacePath: this.workspacePath }) : undefined
+    const diagnostics = this.diagnostics.getDiagnostics({ path: relative, severity })
+    const runs = this.diagnostics.getRuns()
+    if (runs.length === 0) {
+      return 'No diagnostics collected yet. Run the project\'s build, type-check or lint command once with execute_command; its problems are collected automatically.'
+    }
+    const sources = runs.map(run => `${run.source} (from "${run.command}")`).join(', ')
+    if (diagnostics.length === 0) {
+      return `No ${severity === 'error' ? 'errors' : 'problems'}${filePath ? ` in ${filePath}` : ''}. Latest results: ${sources}`
+    }
+    return `${formatDiagnostics(diagnostics)}\n\nLatest results: ${sources}`
   }
 
   private async searchFiles(pattern: string, filePath?: string): Promise<string> {
     const searchPath = filePath ? this.resolvePath(filePath) : this.workspacePath
     if (searchPath) this.enforceWorkspaceBoundary(searchPath)
     
-    if (electronAPI) {
-      const tree = await electronAPI.fs.readTree?.(searchPath, 5) || []
+    if (this.fs) {
+      const tree = await this.fs.readTree?.(searchPath, 5) || []
       const matches = this.findMatches(tree, pattern)
       return matches.length > 0 
         ? `Found ${matches.length} matches:\n${matches.join('\n')}`
@@ -278,6 +602,42 @@ export class ToolExecutor {
     throw new Error('File system not available')
   }
 
+  private async grepSearch(input: Record<string, unknown>): Promise<string> {
+    const pattern = input.pattern as string
+    const searchPath = input.path ? this.resolvePath(input.path as string) : this.workspacePath
+    if (searchPath) this.enforceWorkspaceBoundary(searchPath)
+    
+    if (this.fs) {
+      const result: ContentSearchResult = await this.fs.search({
+        cwd: searchPath,
+        root: this.workspacePath || undefined,
+        pattern,
+        include: input.include as string[] | undefined,
+        exclude: input.exclude as string[] | undefined,
+        before: input.context_before as number | undefined,
+        after: input.context_after as number | undefined,
+        ignoreCase: input.ignore_case as boolean | undefined,
+        maxResults: input.max_results as number | undefined
+      })
+      return formatSearchResults(result, pattern)
+    }
+    
+    throw new Error('File system not available')
+  }
+
+  /**
+   * Route a tool_use block to its MCP server. The main process checks stored
+   * permissions; when it needs the user's decision we prompt and call again.
+   */
+  private async callMcpTool(qualifiedName: string, args: Record<string, unknown>): Promise<string> {
+    if (!electronAPI?.mcp) {
+      throw new Error('MCP servers not available')
+    }
+
+    const response = await runMcpToolCall(request => electronAPI.mcp.requestToolCall(request), { qualifiedName, args }, this.permissionHandler)
+    return formatMcpToolResponse(qualifiedName, response)
+  }
+
   private findMatches(nodes: any[], pattern: string, results: string[] = []): string[] {
     const regex = new RegExp(pattern.replace(/\*/g, '.*'), 'i')
     
@@ -323,7 +683,16 @@ export class AIAgent extends EventEmitter {
       messages: [],
       tokensUsed: 0
     }
-    this.toolExecutor = new ToolExecutor(config.workspacePath || '')
+    this.toolExecutor = new ToolExecutor(config.workspacePath || '', config.host)
+    if (config.onToolPermission) {
+      this.toolExecutor.setPermissionHandler(config.onToolPermission)
+    }
+    if (config.onToolApproval) {
+      this.toolExecutor.setApprovalHandler(config.onToolApproval)
+    }
+    if (config.policy) {
+      this.toolExecutor.setPolicy(config.policy)
+    }
   }
 
   /**
@@ -356,6 +725,7 @@ export class AIAgent extends EventEmitter {
       role: 'user',
       content: userContent
     })
+    this.updateCheckpointContext()
 
     this.emit('taskStarted', { task })
 
@@ -395,10 +765,32 @@ export class AIAgent extends EventEmitter {
         role: 'user',
         content: message
       })
+      this.updateCheckpointContext()
       await this.runAgentLoop()
     }
   }
 
+  /**
+   * Point file checkpoints at the user message that was just added
+   */
+  private updateCheckpointContext(): void {
+    if (!this.config.threadId) return
+    this.toolExecutor.setCheckpointContext({
+      threadId: this.config.threadId,
+      messageIndex: this.state.messages.length - 1
+    })
+  }
+
+  /**
+   * Seed the conversation, e.g. when resuming a saved thread
+   */
+  loadMessages(messages: AgentMessage[]): void {
+    if (this.state.isRunning) {
+      throw new Error('Cannot load messages while a task is running')
+    }
+    this.state.messages = [...messages]
+  }
+
   /**
    * Get current state
    */
@@ -497,10 +889,9 @@ export class AIAgent extends EventEmitter {
       role: m.role,
       content: m.content
     }))
-    const estimateChars = (msg: any) => typeof msg.content === 'string' ? msg.content.length : JSON.stringify(msg.content).length
-    let totalChars = agentMessages.reduce((sum, m) => sum + estimateChars(m), 0) + systemPrompt.length
-    while (Math.ceil(totalChars / 3.5) > MAX_AGENT_CONTEXT_TOKENS && agentMessages.length > 2) {
-      totalChars -= estimateChars(agentMessages[0])
+    let totalTokens = agentMessages.reduce((sum, m) => sum + countMessageTokens(m.content), 0) + countTokens(systemPrompt)
+    while (totalTokens > MAX_AGENT_CONTEXT_TOKENS && agentMessages.length > 2) {
+      totalTokens -= countMessageTokens(agentMessages[0].content)
       agentMessages = agentMessages.slice(1)
     }
 
@@ -509,7 +900,7 @@ export class AIAgent extends EventEmitter {
       max_tokens: this.config.maxTokens || 8192,
       temperature: this.config.temperature || 0.7,
       system: systemPrompt,
-      tools: AVAILABLE_TOOLS,
+      tools: [...AVAILABLE_TOOLS, ...await this.getMcpTools()],
       messages: agentMessages
     }
 
@@ -568,6 +959,24 @@ export class AIAgent extends EventEmitter {
     return { message, toolUses, isComplete }
   }
 
+  /**
+   * Tools from running MCP servers, in the API tool format
+   */
+  private async getMcpTools(): Promise<Array<{ name: string; description: string; input_schema: Record<string, unknown> }>> {
+    if (!electronAPI?.mcp) return []
+    try {
+      const tools: McpToolInfo[] = await electronAPI.mcp.listTools()
+      return tools.map(tool => ({
+        name: tool.qualifiedName,
+        description: `[MCP: ${tool.server}] ${tool.description}`,
+        input_schema: tool.inputSchema
+      }))
+    } catch (error) {
+      console.warn('[Agent] Failed to load MCP tools:', error)
+      return []
+    }
+  }
+
   /**
    * Get stored API key
    */
@@ -587,14 +996,20 @@ export class AIAgent extends EventEmitter {
 You have access to the following tools:
 - read_file: Read file contents
 - write_to_file: Write content to files
+- replace_in_file: Edit part of an existing file with exact search/replace blocks
+- apply_diff: Apply a unified diff to an existing file
 - list_files: List directory contents
 - execute_command: Run shell commands
-- search_files: Search for files
+- search_files: Search for files by name
+- grep_search: Search file contents with a regex (e.g. find where a function is used)
+- get_diagnostics: Compiler and linter problems collected from the latest build, type-check and lint commands
 - ask_followup_question: Ask for clarification
 - attempt_completion: Mark task as complete
+- mcp__<server>__<tool>: Tools from connected MCP servers (see each tool's description)
 
 Guidelines:
 1. Always read relevant files before making changes
+   - Edit existing files with replace_in_file or apply_diff; only use write_to_file for new files or full rewrites
 2. Explain your reasoning before taking actions
 3. Use tools efficiently - batch operations when possible
 4. Ask for clarification if the task is ambiguous
@@ -608,7 +1023,7 @@ IMPORTANT — Workspace Boundaries:
 - If a workspace path is "Not set", tell the user to open a folder first using the "Open Folder" button.
 - If the user asks you to review or modify files outside the current workspace, tell them: "The folder you mentioned is outside the currently loaded workspace. Please use the Open Folder button to load that directory first, then ask me again."
 - Do NOT try to access paths outside the workspace — those operations will fail.
-- Relative paths are resolved relative to the workspace root.`
+- Relative paths are resolved relative to the workspace root.${this.config.instructions ? `\n\n${this.config.instructions}` : ''}`
   }
 }
 
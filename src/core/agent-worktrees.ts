@@ -0,0 +1,241 @@
+/**
+ * Agent Worktrees
+ *
+ * Runs a chat thread's agent in its own `git worktree` on a new branch, so the
+ * checkout the user works in is untouched until they review the result and
+ * merge it, cherry-pick it or throw it away. Worktrees live in workspace
+ * storage, one per thread:
+ *
+ *   ~/.aibuddy/workspaces/{hash}/worktrees/{threadId}   on branch aibuddy/thread-{threadId}
+ *
+ * When the workspace is a subfolder of the repository, the agent works in the
+ * same subfolder of the worktree. Shared by the Electron main process and the
+ * CLI — not for the renderer (runs git with child_process).
+ */
+
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import { getWorkspaceStoragePath } from './workspace-paths'
+
+const execFileAsync = promisify(execFile)
+
+export const WORKTREE_BRANCH_PREFIX = 'aibuddy/thread-'
+
+export interface AgentWorktree {
+  threadId: string
+  branch: string
+  /** Root of the worktree checkout */
+  path: string
+  /** Where the agent works: the workspace's counterpart inside the worktree */
+  workspacePath: string
+  /** Commit the branch started from */
+  base: string
+  /** False once the worktree folder was deleted outside the app */
+  exists: boolean
+}
+
+export type IntegrateMode = 'merge' | 'cherry-pick'
+
+/** One entry of `git worktree list --porcelain` */
+export interface WorktreeListEntry {
+  path: string
+  head: string | null
+  /** Short branch name, null when detached */
+  branch: string | null
+  prunable: boolean
+}
+
+export function worktreeBranch(threadId: string): string {
+  return `${WORKTREE_BRANCH_PREFIX}${threadId}`
+}
+
+/**
+ * Parse `git worktree list --porcelain` — blank-line separated blocks of
+ * `worktree <path>`, `HEAD <sha>`, `branch refs/heads/<name>` | `detached`, `prunable …`
+ */
+export function parseWorktreeList(output: string): WorktreeListEntry[] {
+  return output.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean).map(block => {
+    const entry: WorktreeListEntry = { path: '', head: null, branch: null, prunable: false }
+    for (const line of block.split('\n')) {
+      const [key, ...rest] = line.split(' ')
+      const value = rest.join(' ')
+      if (key === 'worktree') entry.path = value
+      else if (key === 'HEAD') entry.head = value
+      else if (key === 'branch') entry.branch = value.replace(/^refs\/heads\//, '')
+      else if (key === 'prunable') entry.prunable = true
+    }
+    return entry
+  })
+}
+
+export class WorktreeManager {
+  private readonly workspacePath: string
+  private readonly worktreesDir: string
+
+  /**
+   * @param workspacePath - the workspace the app has open (repository root or a folder in it)
+   * @param worktreesDir - where worktrees are created; defaults to workspace storage
+   */
+  constructor(workspacePath: string, worktreesDir = path.join(getWorkspaceStoragePath(workspacePath), 'worktrees')) {
+    this.workspacePath = workspacePath
+    this.worktreesDir = worktreesDir
+  }
+
+  /**
+   * Worktrees the app created for threads
+   */
+  async list(): Promise<AgentWorktree[]> {
+    const { root, subdir } = await this.repo()
+    const current = await this.git(root, ['rev-parse', 'HEAD'])
+    const entries = parseWorktreeList(await this.git(root, ['worktree', 'list', '--porcelain']))
+    const worktrees: AgentWorktree[] = []
+    for (const entry of entries) {
+      if (!entry.branch?.startsWith(WORKTREE_BRANCH_PREFIX)) continue
+      const base = await this.git(root, ['merge-base', current, entry.branch]).catch(() => current)
+      worktrees.push({
+        threadId: entry.branch.slice(WORKTREE_BRANCH_PREFIX.length),
+        branch: entry.branch,
+        path: entry.path,
+        workspacePath: path.join(entry.path, subdir),
+        base,
+        exists: !entry.prunable && fs.existsSync(entry.path),
+      })
+    }
+    return worktrees
+  }
+
+  async get(threadId: string): Promise<AgentWorktree | null> {
+    return (await this.list()).find(w => w.threadId === threadId) ?? null
+  }
+
+  /**
+   * The thread's worktree, created from the current HEAD on first use
+   */
+  async create(threadId: string): Promise<AgentWorktree> {
+    const existing = await this.get(threadId)
+    if (existing?.exists) return existing
+
+    const { root } = await this.repo()
+    const branch = worktreeBranch(threadId)
+    const target = path.join(this.worktreesDir, threadId)
+    fs.mkdirSync(this.worktreesDir, { recursive: true })
+    // A folder deleted by hand leaves a registration that blocks re-adding the path
+    await this.git(root, ['worktree', 'prune'])
+    const branchExists = await this.git(root, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]).then(() => true, () => false)
+    await this.git(root, branchExists ? ['worktree', 'add', target, branch] : ['worktree', 'add', '-b', branch, target, 'HEAD'])
+
+    const created = await this.get(threadId)
+    if (!created) throw new Error(`Worktree for thread ${threadId} was not created`)
+    return created
+  }
+
+  /**
+   * Everything the agent changed since the branch started: its commits plus
+   * uncommitted and new files in the worktree
+   */
+  async diff(threadId: string): Promise<string> {
+    const worktree = await this.require(threadId)
+    // Intent-to-add makes new files show up in `git diff` without staging their content
+    await this.git(worktree.path, ['add', '--intent-to-add', '--all'])
+    return this.git(worktree.path, ['diff', worktree.base], { trim: false })
+  }
+
+  /**
+   * Bring the thread's changes into the branch checked out in the workspace,
+   * then remove the worktree. On conflicts the merge is left in progress in the
+   * workspace (for the merge view) and the worktree is kept.
+   */
+  async integrate(threadId: string, mode: IntegrateMode, message: string): Promise<{ commits: number }> {
+    const worktree = await this.require(threadId)
+    const { root } = await this.repo()
+
+    await this.git(worktree.path, ['add', '--all'])
+    const pending = await this.git(worktree.path, ['diff', '--cached', '--quiet']).then(() => false, () => true)
+    if (pending) await this.git(worktree.path, ['commit', '-q', '-m', message])
+
+    const commits = (await this.git(root, ['rev-list', `${worktree.base}..${worktree.branch}`])).split('\n').filter(Boolean).length
+    if (commits > 0) {
+      await this.git(root, mode === 'merge'
+        ? ['merge', '--no-ff', '-m', `Merge ${worktree.branch}: ${message.split('\n')[0]}`, worktree.branch]
+        : ['cherry-pick', `${worktree.base}..${worktree.branch}`])
+    }
+    await this.remove(threadId)
+    return { commits }
+  }
+
+  /**
+   * Delete the worktree and its branch, discarding the thread's changes
+   */
+  async remove(threadId: string): Promise<void> {
+    const { root } = await this.repo()
+    const worktree = await this.get(threadId)
+    if (worktree?.exists) await this.git(root, ['worktree', 'remove', '--force', worktree.path])
+    await this.git(root, ['worktree', 'prune'])
+    await this.git(root, ['branch', '-D', worktreeBranch(threadId)]).catch(() => {})
+  }
+
+  /**
+   * Clean up worktrees of threads that are gone. Only ones without work are
+   * removed — no commits on the branch and a clean tree; the rest are returned
+   * as orphaned for the user to review, since the thread list may just be
+   * incomplete. A live thread whose folder was deleted keeps its branch.
+   */
+  async pruneStale(liveThreadIds: Iterable<string>): Promise<{ removed: string[]; orphaned: AgentWorktree[] }> {
+    const live = new Set(liveThreadIds)
+    const { root } = await this.repo()
+    const removed: string[] = []
+    const orphaned: AgentWorktree[] = []
+    for (const worktree of await this.list()) {
+      if (live.has(worktree.threadId)) {
+        // The next run re-adds the worktree on the branch
+        if (!worktree.exists) await this.git(root, ['worktree', 'prune'])
+        continue
+      }
+      if (await this.hasWork(root, worktree)) {
+        orphaned.push(worktree)
+        continue
+      }
+      try {
+        // Neither step forces: git refuses a dirty tree or an unmerged branch
+        if (worktree.exists) await this.git(root, ['worktree', 'remove', worktree.path])
+        await this.git(root, ['worktree', 'prune'])
+        await this.git(root, ['branch', '-d', worktree.branch])
+        removed.push(worktree.threadId)
+      } catch {
+        orphaned.push(worktree)
+      }
+    }
+    return { removed, orphaned }
+  }
+
+  /** Commits on the branch since it started, or uncommitted changes in the worktree */
+  private async hasWork(root: string, worktree: AgentWorktree): Promise<boolean> {
+    const commits = await this.git(root, ['rev-list', '--count', `${worktree.base}..${worktree.branch}`])
+    if (commits !== '0') return true
+    return worktree.exists && (await this.git(worktree.path, ['status', '--porcelain'])) !== ''
+  }
+
+  private async require(threadId: string): Promise<AgentWorktree> {
+    const worktree = await this.get(threadId)
+    if (!worktree?.exists) throw new Error(`Thread ${threadId} has no worktree`)
+    return worktree
+  }
+
+  /** Repository root and the workspace's path inside it */
+  private async repo(): Promise<{ root: string; subdir: string }> {
+    const [root, prefix] = (await this.git(this.workspacePath, ['rev-parse', '--show-toplevel', '--show-prefix'])).split('\n')
+    return { root, subdir: (prefix ?? '').replace(/\/$/, '') }
+  }
+
+  private async git(cwd: string, args: string[], options: { trim?: boolean } = {}): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024, windowsHide: true })
+      return options.trim === false ? stdout : stdout.trim()
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(stderr || (error as Error).message)
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Commit Messages
+ *
+ * Builds the prompt that asks the model for a commit message from the staged
+ * diff. Big diffs are cut down file by file so every changed file stays in the
+ * prompt, and the repo's own subject lines can be turned into a style guide
+ * the model follows instead of plain conventional commits.
+ *
+ * Kept free of Node imports — used by the renderer.
+ *
+ * @module core/commit-message
+ */
+
+// =============================================================================
+// Types & Constants
+// =============================================================================
+
+export interface DiffFile {
+  path: string
+  additions: number
+  deletions: number
+  binary: boolean
+  /** The file's section of the diff, from its `diff --git` line */
+  patch: string
+}
+
+export interface CommitStyle {
+  /** Most subjects are `type(scope): description` */
+  conventional: boolean
+  usesScopes: boolean
+  /** Conventional types in order of use */
+  types: string[]
+  /** Ticket reference most subjects start with, e.g. "[PROJ-123]" or "PROJ-123:" */
+  ticketPrefix: string | null
+  lowercase: boolean
+  /** Subject length most commits stay under */
+  maxSubjectLength: number
+  /** Recent subjects, shown to the model as examples */
+  examples: string[]
+}
+
+/** Sends a prompt with a system prompt and returns the model's reply */
+export type CommitMessageModel = (prompt: string, systemPrompt: string) => Promise<string>
+
+/** Diffs longer than this are summarized per file */
+export const MAX_DIFF_CHARS = 12_000
+
+/** Files whose contents say nothing about the change — only their stats are sent */
+const GENERATED_FILE = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|Gemfile\.lock|poetry\.lock|composer\.lock|Podfile\.lock|pubspec\.lock|go\.sum)$|\.min\.(js|css)$|\.snap$|\.map$/
+
+const CONVENTIONAL_SUBJECT = /^(\w+)(\(([^)]+)\))?!?: \S/
+
+export const COMMIT_MESSAGE_SYSTEM_PROMPT =
+  'You write git commit messages from staged diffs. Describe what the change does and why, based only on the diff. ' +
+  'Reply with the commit message only — no code fences, quotes or commentary.'
+
+// =============================================================================
+// Diffs
+// =============================================================================
+
+/**
+ * Split a unified diff into its files, with line counts
+ */
+export function parseDiffFiles(diff: string): DiffFile[] {
+  const files: DiffFile[] = []
+  const sections = diff.split(/^(?=diff --git )/m).filter(section => section.startsWith('diff --git '))
+
+  for (const patch of sections) {
+    const header = patch.slice(0, patch.indexOf('\n') === -1 ? undefined : patch.indexOf('\n'))
+    const renamedTo = patch.match(/^rename to (.+)$/m)?.[1]
+    const path = renamedTo ?? header.match(/ b\/(.+)$/)?.[1] ?? header.replace('diff --git ', '')
+    let additions = 0
+    let deletions = 0
+    let inHunk = false
+    for (const line of patch.split('\n')) {
+      if (line.startsWith('@@')) inHunk = true
+      else if (inHunk && line.startsWith('+')) additions++
+      else if (inHunk && line.startsWith('-')) deletions++
+    }
+    files.push({ path, additions, deletions, binary: /^Binary files /m.test(patch), patch: patch.replace(/\n+$/, '') })
+  }
+  return files
+}
+
+/** Smallest share of the budget worth giving a file's patch */
+const MIN_PATCH_CHARS = 400
+
+/** Leading lines that fit in maxChars, ending with a note on how many were left out */
+function clipLines(lines: string[], maxChars: number, note: (omitted: number) => string): string {
+  const text = lines.join('\n')
+  if (text.length <= maxChars) return text
+  const reserve = note(lines.length).length
+  let kept = ''
+  let count = 0
+  for (const line of lines) {
+    if (kept.length + line.length + 1 + reserve > maxChars) break
+    kept += `${line}\n`
+    count++
+  }
+  return `${kept}${note(lines.length - count)}`.slice(0, maxChars)
+}
+
+/**
+ * The diff as it goes into the prompt: unchanged when it fits in maxChars,
+ * otherwise a per-file summary — stats for every file, then each file's patch
+ * clipped to an equal share of what's left. When a share would drop below
+ * MIN_PATCH_CHARS, the files past what fits get their stats line only.
+ */
+export function summarizeDiff(diff: string, maxChars = MAX_DIFF_CHARS): string {
+  if (diff.length <= maxChars) return diff
+
+  const files = parseDiffFiles(diff)
+  const title = `${files.length} file(s) changed (diff summarized per file):`
+  const stats = clipLines(
+    files.map(f => `${f.path} | ${f.binary ? 'binary' : `+${f.additions} -${f.deletions}`}`),
+    maxChars - title.length - 1,
+    omitted => `[… ${omitted} more file(s)]`
+  )
+  const header = `${title}\n${stats}`
+
+  // Each patch is preceded by a blank line
+  const room = maxChars - header.length
+  const shown = files.filter(f => !f.binary && !GENERATED_FILE.test(f.path))
+  const count = Math.min(shown.length, Math.floor(room / MIN_PATCH_CHARS))
+  const budget = count > 0 ? Math.floor(room / count) - 2 : 0
+
+  const patches = shown.slice(0, count).map(file =>
+    clipLines(file.patch.split('\n'), budget, omitted => `[… ${omitted} more line(s) in ${file.path}]`))
+
+  return patches.length > 0 ? `${header}\n\n${patches.join('\n\n')}` : header
+}
+
+// =============================================================================
+// Repo Style
+// =============================================================================
+
+/**
+ * Learn how a repo writes commit subjects; null when there are too few to tell
+ */
+export function learnCommitStyle(subjects: string[]): CommitStyle | null {
+  const lines = subjects
+    .map(s => s.split('\n')[0].trim())
+    .filter(s => s && !/^(Merge|Revert) /.test(s))
+  if (lines.length < 3) return null
+  const most = (count: number) => count / lines.length >= 0.6
+
+  const prefix = (s: string) => s.match(/^(\[[A-Za-z][\w-]*\]|[A-Z][A-Z0-9]+-\d+:?)\s/)?.[1] ?? null
+  const prefixed = lines.map(prefix).filter((p): p is string => !!p)
+  const ticketPrefix = most(prefixed.length) ? prefixed[0] : null
+
+  const bodies = lines.map(s => (prefix(s) ? s.slice(prefix(s)!.length).trim() : s))
+  const conventional = bodies.map(s => s.match(CONVENTIONAL_SUBJECT)).filter((m): m is RegExpMatchArray => !!m)
+  const typeCounts = new Map<string, number>()
+  for (const m of conventional) typeCounts.set(m[1], (typeCounts.get(m[1]) ?? 0) + 1)
+
+  const descriptions = bodies.map(s => s.replace(CONVENTIONAL_SUBJECT, match => match.slice(-1)))
+  const lengths = lines.map(s => s.length).sort((a, b) => a - b)
+
+  return {
+    conventional: most(conventional.length),
+    usesScopes: conventional.length > 0 && conventional.filter(m => m[3]).length / conventional.length >= 0.5,
+    types: [...typeCounts.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type),
+    ticketPrefix,
+    lowercase: most(descriptions.filter(d => /^[a-z]/.test(d)).length),
+    maxSubjectLength: lengths[Math.floor((lengths.length - 1) * 0.9)],
+    examples: lines.slice(0, 8),
+  }
+}
+
+/**
+ * Instructions for writing a subject in the repo's style
+ */
+export function formatCommitStyle(style: CommitStyle): string {
+  const rules = [
+    style.conventional
+      ? `Use conventional commits${style.usesScopes ? ' with a scope' : ''}${style.types.length ? ` (types used here: ${style.types.slice(0, 6).join(', ')})` : ''}.`
+      : 'Do not use conventional-commit type prefixes; write a plain imperative subject.',
+    style.ticketPrefix ? `Start the subject with a ticket reference in the same form as "${style.ticketPrefix}".` : '',
+    style.lowercase ? 'Start the description in lowercase.' : 'Start the description with a capital letter.',
+    `Keep the subject under ${Math.max(style.maxSubjectLength, 50)} characters.`,
+  ].filter(Boolean)
+  return `${rules.map(rule => `- ${rule}`).join('\n')}\n\nRecent subjects in this repo:\n${style.examples.map(e => `  ${e}`).join('\n')}`
+}
+
+// =============================================================================
+// Prompt & Reply
+// =============================================================================
+
+/**
+ * Prompt asking for a commit message for the staged diff
+ */
+export function buildCommitMessagePrompt(diff: string, style?: CommitStyle | null): string {
+  const format = style
+    ? `Match this repository's commit style:\n${formatCommitStyle(style)}`
+    : 'Use the conventional commit format: `type(scope): description` — type is one of feat, fix, refactor, perf, test, docs, style, build, ci, chore; the scope is the area of the code that changed; the description is imperative and under 72 characters.'
+
+  return [
+    'Write a commit message for these staged changes.',
+    format,
+    'After the subject, add a blank line and a short body (wrapped at 72 characters) explaining what changed and why. Mark breaking changes with `!` after the type and a `BREAKING CHANGE:` footer.',
+    `Staged diff:\n\n${summarizeDiff(diff)}`,
+  ].join('\n\n')
+}
+
+/**
+ * The commit message from the model's reply, without fences or quoting
+ */
+export function cleanCommitMessage(reply: string): string {
+  let text = reply.trim()
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n```$/)
+  if (fenced) text = fenced[1].trim()
+  text = text.replace(/^(commit message|subject):\s*/i, '')
+  if (/^(["'`]).*\1$/.test(text) && !text.includes('\n')) text = text.slice(1, -1)
+  return text.replace(/\n{3,}/g, '\n\n')
+}
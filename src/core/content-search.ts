@@ -0,0 +1,460 @@
+/**
+ * Content Search
+ *
+ * Backs the agent's grep_search tool: regex search over file *contents* with
+ * include/exclude globs, context lines and result caps.
+ *
+ * Uses a bundled ripgrep binary when the app ships one, and otherwise falls
+ * back to a pure-Node scanner with the same defaults as ripgrep: .gitignore
+ * rules are respected, hidden files and binary files are skipped.
+ *
+ * Runs in the main process (needs Node fs / child_process).
+ */
+
+import * as fs from 'fs'
+import * as fsp from 'fs/promises'
+import * as path from 'path'
+import { spawn } from 'child_process'
+import {
+  DEFAULT_MAX_RESULTS,
+  type ContentSearchFile,
+  type ContentSearchLine,
+  type ContentSearchResult
+} from './search-results'
+
+export { formatSearchResults, DEFAULT_MAX_RESULTS } from './search-results'
+export type { ContentSearchFile, ContentSearchLine, ContentSearchResult } from './search-results'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ContentSearchOptions {
+  /** Directory to search */
+  cwd: string
+  /**
+   * Workspace root above cwd; its .gitignore files down to cwd apply too.
+   * Defaults to the enclosing git repository.
+   */
+  root?: string
+  /** Regular expression to search for */
+  pattern: string
+  /** Only search files matching one of these globs (e.g. "*.ts", "src/**") */
+  include?: string[]
+  /** Skip files matching any of these globs */
+  exclude?: string[]
+  /** Lines of context before each match */
+  before?: number
+  /** Lines of context after each match */
+  after?: number
+  ignoreCase?: boolean
+  /** Stop after this many matching lines in total */
+  maxResults?: number
+  /** Path to a ripgrep binary; null forces the Node scanner */
+  ripgrepPath?: string | null
+}
+
+const MAX_CONTEXT_LINES = 10
+const MAX_FILE_SIZE = 1024 * 1024
+const MAX_LINE_LENGTH = 500
+const BINARY_SNIFF_BYTES = 8000
+
+// ============================================================================
+// Glob / .gitignore matching
+// ============================================================================
+
+/**
+ * Convert a glob to a RegExp matched against a forward-slash relative path.
+ * Supports *, **, ?, [...] and {a,b}.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  let inGroup = false
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i += 1
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1)
+      if (close === -1) {
+        source += '\\['
+      } else {
+        const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')
+        source += `[${body}]`
+        i = close
+      }
+    } else if (char === '{') {
+      inGroup = true
+      source += '(?:'
+    } else if (char === '}' && inGroup) {
+      inGroup = false
+      source += ')'
+    } else if (char === ',' && inGroup) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/** Globs without a slash match the file name at any depth, like ripgrep's -g */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalized = glob.replace(/^\.\//, '')
+  if (!normalized.includes('/')) {
+    return globToRegExp(normalized).test(path.posix.basename(relativePath))
+  }
+  return globToRegExp(normalized.replace(/^\//, '')).test(relativePath)
+}
+
+interface IgnoreRule {
+  regex: RegExp
+  negate: boolean
+  directoryOnly: boolean
+}
+
+/** Parse .gitignore content into rules relative to the directory holding it */
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    const negate = line.startsWith('!')
+    if (negate) line = line.slice(1)
+    line = line.replace(/^\\([#!])/, '$1')
+
+    const directoryOnly = line.endsWith('/')
+    if (directoryOnly) line = line.slice(0, -1)
+
+    // A slash at the start or middle anchors the pattern to the .gitignore directory
+    const anchored = line.includes('/')
+    line = line.replace(/^\//, '')
+    const glob = anchored ? line : `**/${line}`
+
+    rules.push({ regex: globToRegExp(glob), negate, directoryOnly })
+  }
+
+  return rules
+}
+
+interface IgnoreScope {
+  /** Directory of the .gitignore, relative to the search root ('' for the root) */
+  base: string
+  /** For a .gitignore above the search root: the search root relative to it */
+  prefix?: string
+  rules: IgnoreRule[]
+}
+
+function isIgnored(scopes: IgnoreScope[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false
+  for (const scope of scopes) {
+    if (scope.base && !relativePath.startsWith(`${scope.base}/`)) continue
+    let local = scope.base ? relativePath.slice(scope.base.length + 1) : relativePath
+    if (scope.prefix) local = `${scope.prefix}/${local}`
+    for (const rule of scope.rules) {
+      if (rule.directoryOnly && !isDirectory) continue
+      if (rule.regex.test(local)) ignored = !rule.negate
+    }
+  }
+  return ignored
+}
+
+// ============================================================================
+// Node scanner
+// ============================================================================
+
+function isIncluded(relativePath: string, include?: string[], exclude?: string[]): boolean {
+  if (exclude?.some(glob => matchesGlob(relativePath, glob))) return false
+  if (include && include.length > 0) {
+    return include.some(glob => matchesGlob(relativePath, glob))
+  }
+  return true
+}
+
+function truncateLine(text: string): string {
+  return text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text
+}
+
+async function readIgnoreFile(dir: string): Promise<IgnoreRule[]> {
+  try {
+    return parseGitignore(await fsp.readFile(path.join(dir, '.gitignore'), 'utf-8'))
+  } catch {
+    return []
+  }
+}
+
+/** The repository root holding dir: the nearest directory with a .git entry */
+function findRepositoryRoot(dir: string): string | null {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, '.git'))) return current
+    if (path.dirname(current) === current) return null
+  }
+}
+
+/**
+ * .gitignore rules from the workspace root down to (not including) the
+ * search root, so searching a subdirectory skips what the repo ignores
+ */
+async function readParentIgnoreScopes(cwd: string, root?: string): Promise<IgnoreScope[]> {
+  const searchRoot = path.resolve(cwd)
+  const top = root ? path.resolve(root) : findRepositoryRoot(searchRoot)
+  if (!top) return []
+  const relative = path.relative(top, searchRoot)
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return []
+
+  const scopes: IgnoreScope[] = []
+  const parts = relative.split(path.sep)
+  for (let depth = 0; depth < parts.length; depth++) {
+    const rules = await readIgnoreFile(path.join(top, ...parts.slice(0, depth)))
+    if (rules.length > 0) scopes.push({ base: '', prefix: parts.slice(depth).join('/'), rules })
+  }
+  return scopes
+}
+
+/** Collect the lines to report for one file, merging overlapping context windows */
+function collectLines(
+  lines: string[],
+  regex: RegExp,
+  before: number,
+  after: number,
+  budget: number
+): { lines: ContentSearchLine[]; matchCount: number; more: boolean } {
+  const selected = new Map<number, boolean>()
+  let matchCount = 0
+  let more = false
+
+  for (let i = 0; i < lines.length; i++) {
+    regex.lastIndex = 0
+    if (!regex.test(lines[i])) continue
+    // A match past the budget only tells us the results were cut short
+    if (matchCount >= budget) {
+      more = true
+      break
+    }
+    matchCount++
+    selected.set(i, true)
+    for (let j = Math.max(0, i - before); j <= Math.min(lines.length - 1, i + after); j++) {
+      if (!selected.has(j)) selected.set(j, false)
+    }
+  }
+
+  const result = [...selected.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([index, isMatch]) => ({ line: index + 1, text: truncateLine(lines[index]), isMatch }))
+
+  return { lines: result, matchCount, more }
+}
+
+async function searchWithNode(options: ContentSearchOptions, regex: RegExp): Promise<ContentSearchResult> {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS
+  const before = clampContext(options.before)
+  const after = clampContext(options.after)
+  const files: ContentSearchFile[] = []
+  let totalMatches = 0
+  let truncated = false
+
+  const walk = async (dir: string, relativeDir: string, scopes: IgnoreScope[]): Promise<void> => {
+    const localRules = await readIgnoreFile(dir)
+    const activeScopes = localRules.length > 0 ? [...scopes, { base: relativeDir, rules: localRules }] : scopes
+
+    let entries: fs.Dirent[]
+    try {
+      entries = await fsp.readdir(dir, { withFileTypes: true })
+    } catch {
+      return
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      if (truncated) return
+      // Hidden files and directories are skipped, as ripgrep does by default
+      if (entry.name.startsWith('.')) continue
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+      const fullPath = path.join(dir, entry.name)
+
+      if (entry.isDirectory()) {
+        if (entry.name === 'node_modules' || isIgnored(activeScopes, relativePath, true)) continue
+        await walk(fullPath, relativePath, activeScopes)
+        continue
+      }
+      if (!entry.isFile()) continue
+      if (isIgnored(activeScopes, relativePath, false)) continue
+      if (!isIncluded(relativePath, options.include, options.exclude)) continue
+
+      const content = await readTextFile(fullPath)
+      if (content === null) continue
+
+      const { lines, matchCount, more } = collectLines(
+        content.split(/\r?\n/),
+        regex,
+        before,
+        after,
+        maxResults - totalMatches
+      )
+      // Only a further match means the cap cut results off
+      if (more) truncated = true
+      if (matchCount === 0) continue
+
+      files.push({ path: relativePath, lines, matchCount })
+      totalMatches += matchCount
+    }
+  }
+
+  await walk(options.cwd, '', await readParentIgnoreScopes(options.cwd, options.root))
+  return { files, totalMatches, truncated, engine: 'node' }
+}
+
+/** Read a file as UTF-8, or null when it is too large or looks binary */
+async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fsp.stat(filePath)
+    if (stat.size > MAX_FILE_SIZE) return null
+    const buffer = await fsp.readFile(filePath)
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null
+    return buffer.toString('utf-8')
+  } catch {
+    return null
+  }
+}
+
+function clampContext(value?: number): number {
+  if (!value || value < 0) return 0
+  return Math.min(Math.floor(value), MAX_CONTEXT_LINES)
+}
+
+// ============================================================================
+// ripgrep
+// ============================================================================
+
+/** Locate the ripgrep binary shipped in the app's resources, if any */
+export function findBundledRipgrep(): string | null {
+  const resourcesPath = (process as NodeJS.Process & { resourcesPath?: string }).resourcesPath
+  if (!resourcesPath) return null
+  const binary = process.platform === 'win32' ? 'rg.exe' : 'rg'
+  const candidate = path.join(resourcesPath, 'bin', binary)
+  return fs.existsSync(candidate) ? candidate : null
+}
+
+function buildRipgrepArgs(options: ContentSearchOptions): string[] {
+  const args = ['--json', '--no-require-git', '--max-filesize', `${MAX_FILE_SIZE}`]
+  if (options.ignoreCase) args.push('--ignore-case')
+  const before = clampContext(options.before)
+  const after = clampContext(options.after)
+  if (before > 0) args.push('--before-context', `${before}`)
+  if (after > 0) args.push('--after-context', `${after}`)
+  args.push('--glob', '!node_modules')
+  for (const glob of options.include ?? []) args.push('--glob', glob)
+  for (const glob of options.exclude ?? []) args.push('--glob', `!${glob}`)
+  args.push('--regexp', options.pattern, '.')
+  return args
+}
+
+async function searchWithRipgrep(options: ContentSearchOptions, rgPath: string): Promise<ContentSearchResult> {
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS
+  const filesByPath = new Map<string, ContentSearchFile>()
+  let totalMatches = 0
+  let truncated = false
+
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(rgPath, buildRipgrepArgs(options), { cwd: options.cwd })
+    let buffered = ''
+    let stderr = ''
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString('utf-8')
+      const lines = buffered.split('\n')
+      buffered = lines.pop() ?? ''
+      for (const line of lines) {
+        if (truncated || !line) continue
+        let event
+        try {
+          event = JSON.parse(line)
+        } catch {
+          continue
+        }
+        if (event.type !== 'match' && event.type !== 'context') continue
+
+        const filePath = String(event.data.path.text).replace(/^\.\//, '').replace(/\\/g, '/')
+        const isMatch = event.type === 'match'
+        if (isMatch && totalMatches >= maxResults) {
+          truncated = true
+          child.kill()
+          continue
+        }
+
+        let file = filesByPath.get(filePath)
+        if (!file) {
+          file = { path: filePath, lines: [], matchCount: 0 }
+          filesByPath.set(filePath, file)
+        }
+        file.lines.push({
+          line: event.data.line_number,
+          text: truncateLine(String(event.data.lines.text ?? '').replace(/\r?\n$/, '')),
+          isMatch
+        })
+        if (isMatch) {
+          file.matchCount++
+          totalMatches++
+        }
+      }
+    })
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString('utf-8') })
+    child.on('error', reject)
+    child.on('close', (code) => {
+      // 0 = matches, 1 = no matches, null = killed after hitting the cap
+      if (code === 0 || code === 1 || truncated) resolve()
+      else reject(new Error(`ripgrep exited with code ${code}: ${stderr.trim()}`))
+    })
+  })
+
+  const files = [...filesByPath.values()]
+    .filter(file => file.matchCount > 0)
+    .sort((a, b) => a.path.localeCompare(b.path))
+  return { files, totalMatches, truncated, engine: 'ripgrep' }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function searchContent(options: ContentSearchOptions): Promise<ContentSearchResult> {
+  if (!options.pattern) {
+    throw new Error('Search pattern is required')
+  }
+
+  let regex: RegExp
+  try {
+    regex = new RegExp(options.pattern, options.ignoreCase ? 'i' : '')
+  } catch (error) {
+    throw new Error(`Invalid regular expression "${options.pattern}": ${(error as Error).message}`)
+  }
+
+  const rgPath = options.ripgrepPath === undefined ? findBundledRipgrep() : options.ripgrepPath
+  if (rgPath) {
+    try {
+      return await searchWithRipgrep(options, rgPath)
+    } catch (error) {
+      console.warn('[ContentSearch] ripgrep failed, falling back to Node scanner:', (error as Error).message)
+    }
+  }
+
+  return searchWithNode(options, regex)
+}
@@ -0,0 +1,363 @@
+/**
+ * Dev Containers
+ *
+ * Finds the containers a workspace builds in — a `.devcontainer` config or a
+ * docker-compose service that mounts the workspace — and rewrites commands so
+ * they run inside the selected one through `docker exec`, with host paths
+ * mapped to where the workspace is mounted in the container.
+ *
+ * Discovery reads files through a reader so it runs in the main process while
+ * command routing runs in the renderer next to the terminal and agent.
+ *
+ * @module core/dev-containers
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ContainerTargetKind = 'devcontainer' | 'compose'
+
+export interface ContainerTarget {
+  /** Stable id across detections, e.g. "devcontainer" or "compose:web" */
+  id: string
+  label: string
+  kind: ContainerTargetKind
+  /** Workspace-relative file the target was read from */
+  source: string
+  /** Compose service (compose targets and compose-based dev containers) */
+  service?: string
+  /** Workspace-relative compose files */
+  composeFiles?: string[]
+  /** Where the workspace root is mounted inside the container */
+  workspaceFolder: string
+  /** Running container, filled in by the main process; null when it is stopped */
+  containerId?: string | null
+  /** Shell the host runs `docker exec` from, which decides how arguments are quoted */
+  hostShell?: 'posix' | 'cmd'
+}
+
+/** Reads a file relative to the workspace root; null when it doesn't exist */
+export type ContainerFileReader = (relativePath: string) => Promise<string | null>
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/** Normalize a posix path, resolving `.` and `..` segments */
+function normalizePosix(p: string): string {
+  const absolute = p.startsWith('/')
+  const parts: string[] = []
+  for (const part of p.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') parts.pop()
+    else if (part !== '..' || !absolute) parts.push(part)
+  }
+  return (absolute ? '/' : '') + parts.join('/')
+}
+
+function joinPosix(dir: string, p: string): string {
+  return normalizePosix(dir ? `${dir}/${p}` : p)
+}
+
+function dirname(p: string): string {
+  const index = p.lastIndexOf('/')
+  return index === -1 ? '' : p.slice(0, index)
+}
+
+/**
+ * Map a host path inside the workspace to the same path in the container;
+ * null when the path is outside the workspace
+ */
+export function toContainerPath(hostPath: string, workspacePath: string, workspaceFolder: string): string | null {
+  // Windows paths compare case-insensitively
+  const fold = (p: string) => /^[a-zA-Z]:/.test(p) ? p.replace(/\\/g, '/').toLowerCase() : p
+  const host = hostPath.replace(/\\/g, '/').replace(/\/+$/, '')
+  const root = workspacePath.replace(/\\/g, '/').replace(/\/+$/, '')
+  if (fold(host) === fold(root)) return workspaceFolder
+  if (!fold(host).startsWith(`${fold(root)}/`)) return null
+  return normalizePosix(`${workspaceFolder}/${host.slice(root.length + 1)}`)
+}
+
+// =============================================================================
+// Config Files
+// =============================================================================
+
+/**
+ * Strip comments and trailing commas from JSONC (devcontainer.json allows both)
+ */
+export function parseJsonc(content: string): unknown {
+  let out = ''
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i]
+    if (ch === '"') {
+      const end = content.slice(i).match(/^"(?:[^"\\]|\\.)*"/)?.[0] ?? content.slice(i)
+      out += end
+      i += end.length - 1
+    } else if (ch === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++
+      out += '\n'
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const close = content.indexOf('*/', i + 2)
+      i = close === -1 ? content.length : close + 1
+    } else {
+      out += ch
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, '$1'))
+}
+
+export interface ComposeService {
+  name: string
+  /** Volumes as written: host path (relative to the compose file) or volume name, and container target */
+  mounts: Array<{ source: string; target: string }>
+}
+
+const indentOf = (line: string) => line.match(/^ */)![0].length
+const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, '')
+
+/**
+ * Read service names and bind mounts from a compose file
+ * (only the subset of YAML compose files use for these keys)
+ */
+export function parseComposeServices(content: string): ComposeService[] {
+  const lines = content.split('\n').map(line => line.replace(/\s+#.*$/, '').replace(/\r$/, ''))
+  const start = lines.findIndex(line => /^services:\s*$/.test(line))
+  if (start === -1) return []
+
+  const services: ComposeService[] = []
+  let serviceIndent = -1
+  let current: ComposeService | null = null
+  let inVolumes = -1
+  let longMount: { source?: string; target?: string } | null = null
+
+  const flushLongMount = () => {
+    if (current && longMount?.source && longMount.target) current.mounts.push({ source: longMount.source, target: longMount.target })
+    longMount = null
+  }
+
+  for (const line of lines.slice(start + 1)) {
+    if (!line.trim()) continue
+    const indent = indentOf(line)
+    if (indent === 0) break
+    if (serviceIndent === -1) serviceIndent = indent
+
+    if (indent === serviceIndent) {
+      flushLongMount()
+      const name = line.trim().match(/^([\w.-]+):\s*$/)?.[1]
+      current = name ? { name, mounts: [] } : null
+      if (current) services.push(current)
+      inVolumes = -1
+      continue
+    }
+    if (!current) continue
+
+    const text = line.trim()
+    if (inVolumes !== -1 && indent <= inVolumes) {
+      flushLongMount()
+      inVolumes = -1
+    }
+
+    if (inVolumes === -1) {
+      if (/^volumes:\s*$/.test(text)) inVolumes = indent
+      continue
+    }
+
+    const item = text.match(/^-\s*(.*)$/)
+    if (item) {
+      flushLongMount()
+      const short = unquote(item[1])
+      const key = short.match(/^([\w-]+):\s+(.+)$/)
+      if (key) {
+        // Long syntax: `- type: bind` followed by source/target keys
+        longMount = {}
+        if (key[1] === 'source' || key[1] === 'target') longMount[key[1]] = unquote(key[2])
+      } else if (/^[.~$/\w].*:\//.test(short)) {
+        // host:container[:mode]
+        const [source, target] = short.split(':')
+        current.mounts.push({ source, target })
+      }
+      continue
+    }
+    const key = text.match(/^(source|target):\s*(.+)$/)
+    if (key && longMount) longMount[key[1] as 'source' | 'target'] = unquote(key[2])
+  }
+  flushLongMount()
+  return services
+}
+
+/**
+ * Where a service mounts the workspace root, given the compose file's directory
+ */
+function workspaceMount(service: ComposeService, composeDir: string): string | null {
+  for (const mount of service.mounts) {
+    const source = mount.source.replace(/^\$\{?PWD\}?/, '.')
+    if (!source.startsWith('.')) continue
+    if (joinPosix(composeDir, source) === '') return mount.target.replace(/\/+$/, '') || '/'
+  }
+  return null
+}
+
+const DEVCONTAINER_FILES = ['.devcontainer/devcontainer.json', '.devcontainer.json']
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml']
+
+interface DevcontainerJson {
+  name?: string
+  dockerComposeFile?: string | string[]
+  service?: string
+  workspaceFolder?: string
+}
+
+/**
+ * Find the containers a workspace can run commands in
+ */
+export async function discoverContainerTargets(read: ContainerFileReader, workspaceName: string): Promise<ContainerTarget[]> {
+  const targets: ContainerTarget[] = []
+  const substitute = (value: string) => value.replace(/\$\{localWorkspaceFolderBasename\}/g, workspaceName)
+
+  for (const file of DEVCONTAINER_FILES) {
+    const content = await read(file)
+    if (!content) continue
+    let config: DevcontainerJson
+    try {
+      config = parseJsonc(content) as DevcontainerJson
+    } catch {
+      continue
+    }
+    const label = config.name ? `${config.name} (dev container)` : 'Dev container'
+
+    if (config.dockerComposeFile && config.service) {
+      const configDir = dirname(file)
+      const composeFiles = (Array.isArray(config.dockerComposeFile) ? config.dockerComposeFile : [config.dockerComposeFile])
+        .map(f => joinPosix(configDir, f))
+      let mounted: string | null = null
+      for (const composeFile of composeFiles) {
+        const service = parseComposeServices((await read(composeFile)) ?? '').find(s => s.name === config.service)
+        mounted = service ? workspaceMount(service, dirname(composeFile)) : null
+        if (mounted) break
+      }
+      targets.push({
+        id: 'devcontainer',
+        label,
+        kind: 'compose',
+        source: file,
+        service: config.service,
+        composeFiles,
+        workspaceFolder: substitute(config.workspaceFolder ?? mounted ?? '/'),
+      })
+    } else {
+      targets.push({
+        id: 'devcontainer',
+        label,
+        kind: 'devcontainer',
+        source: file,
+        workspaceFolder: substitute(config.workspaceFolder ?? `/workspaces/${workspaceName}`),
+      })
+    }
+    break
+  }
+
+  for (const file of COMPOSE_FILES) {
+    const content = await read(file)
+    if (!content) continue
+    for (const service of parseComposeServices(content)) {
+      // Services that don't mount the workspace (databases, caches) can't run its commands
+      const mounted = workspaceMount(service, '')
+      if (!mounted) continue
+      const duplicate = targets.some(t => t.service === service.name && t.composeFiles?.includes(file))
+      if (duplicate) continue
+      targets.push({
+        id: `compose:${service.name}`,
+        label: `${service.name} (compose)`,
+        kind: 'compose',
+        source: file,
+        service: service.name,
+        composeFiles: [file],
+        workspaceFolder: mounted,
+      })
+    }
+    break
+  }
+
+  return targets
+}
+
+// =============================================================================
+// Command Routing
+// =============================================================================
+
+// Characters cmd.exe acts on unless escaped with ^ (quotes too, so cmd never switches to quoted mode)
+const CMD_META_CHARS = /[()[\]%!^"`<>&|;, *?]/g
+
+function quote(arg: string, shell: 'posix' | 'cmd'): string {
+  if (shell === 'cmd') {
+    // Quoted for docker's argument parser first: "" is a literal quote and backslashes before a quote are doubled
+    const quoted = `"${arg.replace(/(\\*)"/g, '$1$1""').replace(/(\\+)$/, '$1$1')}"`
+    return quoted.replace(CMD_META_CHARS, '^$&')
+  }
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Command that starts a stopped target
+ */
+export function containerStartCommand(target: ContainerTarget): string {
+  if (target.kind === 'devcontainer') return 'devcontainer up --workspace-folder .'
+  const files = (target.composeFiles ?? []).map(f => `-f ${f}`).join(' ')
+  return `docker compose ${files} up -d ${target.service}`.replace(/\s+/g, ' ')
+}
+
+/**
+ * Rewrite a command to run inside the target through `docker exec`,
+ * in the container path that matches the host working directory
+ */
+export function buildContainerCommand(
+  command: string,
+  target: ContainerTarget,
+  options: { cwd?: string | null; workspacePath: string }
+): string {
+  if (!target.containerId) {
+    throw new Error(`${target.label} is not running — start it with \`${containerStartCommand(target)}\`, then refresh the container list`)
+  }
+  const shell = target.hostShell ?? 'posix'
+  const dir = toContainerPath(options.cwd || options.workspacePath, options.workspacePath, target.workspaceFolder) ?? target.workspaceFolder
+  return ['docker', 'exec', '-i', '-w', quote(dir, shell), target.containerId, 'sh', '-lc', quote(command, shell)].join(' ')
+}
+
+// =============================================================================
+// Selected Target
+// =============================================================================
+
+/**
+ * The container each workspace's commands run in (none means the host)
+ */
+export class ContainerTargetStore {
+  private selected = new Map<string, ContainerTarget>()
+  private listeners = new Set<() => void>()
+
+  getActive(workspacePath: string | null | undefined): ContainerTarget | null {
+    return workspacePath ? this.selected.get(workspacePath) ?? null : null
+  }
+
+  setActive(workspacePath: string, target: ContainerTarget | null): void {
+    if (target) this.selected.set(workspacePath, target)
+    else this.selected.delete(workspacePath)
+    this.listeners.forEach(listener => listener())
+  }
+
+  /**
+   * The command to hand the host terminal: rewritten for the workspace's
+   * container when one is selected, unchanged otherwise
+   */
+  route(command: string, options: { cwd?: string | null; workspacePath: string | null | undefined }): string {
+    const target = this.getActive(options.workspacePath)
+    return target ? buildContainerCommand(command, target, { cwd: options.cwd, workspacePath: options.workspacePath! }) : command
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+export const containerTargets = new ContainerTargetStore()
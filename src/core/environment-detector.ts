@@ -1,9 +1,14 @@
 /**
  * Environment Detector
- * 
+ *
  * Detects installed development tools, SDKs, and languages on the user's machine.
  * This allows AIBuddy to provide accurate, environment-aware suggestions.
- * 
+ *
+ * Detectors run in parallel and never block the main process: every probe is an
+ * async child process, limited to a few at a time, and each probe's result is
+ * cached per command for TOOL_CACHE_TTL. The cache is dropped whenever PATH
+ * changes, since that is what decides which binaries a probe finds.
+ *
  * PRIORITY LANGUAGES:
  * 1. Node.js / React.js / Next.js
  * 2. Flutter / Dart
@@ -14,11 +19,11 @@
  * 7. Rust
  * 8. Go
  * 9. Solidity / Web3 (Ethereum, etc.)
- * 
+ *
  * @module core/environment-detector
  */
 
-import { execSync } from 'child_process'
+import { exec } from 'child_process'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
@@ -75,59 +80,168 @@ export interface DevelopmentEnvironment {
   detectedAt: Date
 }
 
+export type ToolSection = 'ides' | 'versionControl' | 'containerization' | 'cloud'
+
+/** One detector's result, reported as soon as it finishes */
+export type EnvironmentProgress =
+  | { type: 'language'; language: LanguageEnvironment }
+  | { type: 'tools'; section: ToolSection; tools: ToolInfo[] }
+
+export interface DetectEnvironmentOptions {
+  onProgress?: (progress: EnvironmentProgress) => void
+}
+
+// =============================================================================
+// Probe Cache
+// =============================================================================
+
+const TOOL_CACHE_TTL = 10 * 60 * 1000 // 10 minutes
+const MAX_PARALLEL_PROBES = 6
+
+interface CachedProbe<T> {
+  result: Promise<T>
+  expiresAt: number
+}
+
+const probeCache = new Map<string, CachedProbe<unknown>>()
+let probePath = process.env.PATH
+
+let cachedEnvironment: Promise<DevelopmentEnvironment> | null = null
+let cacheTime: number = 0
+const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Drop every cached result when PATH has changed since they were taken
+ */
+function invalidateOnPathChange(): void {
+  if (process.env.PATH === probePath) return
+  probePath = process.env.PATH
+  probeCache.clear()
+  cachedEnvironment = null
+}
+
+/**
+ * Share one in-flight or recent result per key
+ */
+function cachedProbe<T>(key: string, probe: () => Promise<T>): Promise<T> {
+  invalidateOnPathChange()
+  const hit = probeCache.get(key) as CachedProbe<T> | undefined
+  if (hit && hit.expiresAt > Date.now()) return hit.result
+
+  const result = probe()
+  probeCache.set(key, { result, expiresAt: Date.now() + TOOL_CACHE_TTL })
+  return result
+}
+
+let runningProbes = 0
+const waitingProbes: Array<() => void> = []
+
+/**
+ * Run a probe once a process slot is free; a finished probe hands its slot to the next one
+ */
+async function withProbeSlot<T>(probe: () => Promise<T>): Promise<T> {
+  if (runningProbes < MAX_PARALLEL_PROBES) {
+    runningProbes++
+  } else {
+    await new Promise<void>(resolve => waitingProbes.push(resolve))
+  }
+  try {
+    return await probe()
+  } finally {
+    const next = waitingProbes.shift()
+    if (next) next()
+    else runningProbes--
+  }
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
 /**
  * Safely execute a command and return output
+ *
+ * Falls back to stderr for tools like `java -version` that print their version there.
  */
-function safeExec(command: string, timeout = 5000): string | null {
-  try {
-    const result = execSync(command, { 
-      encoding: 'utf8', 
-      timeout,
-      stdio: ['pipe', 'pipe', 'pipe']
+function safeExec(command: string, timeout = 5000): Promise<string | null> {
+  return cachedProbe(command, () => withProbeSlot(() => new Promise<string | null>(resolve => {
+    exec(command, { encoding: 'utf8', timeout, windowsHide: true }, (error, stdout, stderr) => {
+      resolve(error ? null : (stdout.trim() || stderr.trim()))
     })
-    return result.trim()
-  } catch {
-    return null
-  }
+  })))
 }
 
 /**
- * Check if a command exists
+ * Check if a command exists by scanning PATH (no process spawn)
  */
-function commandExists(command: string): boolean {
-  const checkCmd = process.platform === 'win32' 
-    ? `where ${command} 2>nul`
-    : `which ${command} 2>/dev/null`
-  return safeExec(checkCmd) !== null
+function commandExists(command: string): Promise<boolean> {
+  return cachedProbe(`exists:${command}`, async () => {
+    const dirs = (process.env.PATH || '').split(path.delimiter).filter(Boolean)
+    const extensions = process.platform === 'win32'
+      ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';')]
+      : ['']
+    for (const dir of dirs) {
+      for (const ext of extensions) {
+        try {
+          await fs.promises.access(path.join(dir, command + ext), fs.constants.X_OK)
+          return true
+        } catch {}
+      }
+    }
+    return false
+  })
 }
 
 /**
  * Get version from a command
  */
-function getVersion(command: string, versionFlag = '--version'): string | null {
-  const output = safeExec(`${command} ${versionFlag}`)
+async function getVersion(command: string, versionFlag = '--version'): Promise<string | null> {
+  if (!(await commandExists(command))) return null
+  const output = await safeExec(`${command} ${versionFlag}`)
   if (!output) return null
-  
+
   // Extract version number from output
   const versionMatch = output.match(/(\d+\.\d+(\.\d+)?)/)?.[1]
   return versionMatch || output.split('\n')[0]
 }
 
+/**
+ * Report a global CLI as installed when it is on PATH, with its version if a flag is given
+ */
+async function detectCli(name: string, command: string, versionFlag?: string): Promise<ToolInfo | null> {
+  if (!(await commandExists(command))) return null
+  const version = versionFlag ? await getVersion(command, versionFlag) : null
+  return { name, installed: true, version: version || undefined }
+}
+
+function present(tools: Array<ToolInfo | null>): ToolInfo[] {
+  return tools.filter((tool): tool is ToolInfo => tool !== null)
+}
+
 /**
  * Check if a directory exists
  */
-function dirExists(dirPath: string): boolean {
+async function dirExists(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(dirPath)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
   try {
-    return fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory()
+    await fs.promises.access(filePath)
+    return true
   } catch {
     return false
   }
 }
 
+async function anyDirExists(...dirPaths: string[]): Promise<boolean> {
+  return (await Promise.all(dirPaths.map(dirExists))).some(Boolean)
+}
+
 // =============================================================================
 // Language Detectors
 // =============================================================================
@@ -135,38 +249,31 @@ function dirExists(dirPath: string): boolean {
 /**
  * Detect Node.js / JavaScript / TypeScript environment
  */
-function detectNodeJS(): LanguageEnvironment {
-  const nodeVersion = getVersion('node', '-v')
-  const npmVersion = getVersion('npm', '-v')
-  const yarnVersion = getVersion('yarn', '-v')
-  const pnpmVersion = getVersion('pnpm', '-v')
-  const bunVersion = getVersion('bun', '-v')
-  
-  const frameworks: ToolInfo[] = []
-  
-  // Check for global CLI tools
-  if (commandExists('create-react-app')) {
-    frameworks.push({ name: 'Create React App', installed: true, version: getVersion('create-react-app', '--version') || undefined })
-  }
-  if (commandExists('next')) {
-    frameworks.push({ name: 'Next.js', installed: true, version: getVersion('next', '-v') || undefined })
-  }
-  if (commandExists('vite')) {
-    frameworks.push({ name: 'Vite', installed: true, version: getVersion('vite', '-v') || undefined })
-  }
-  if (commandExists('nest')) {
-    frameworks.push({ name: 'NestJS', installed: true, version: getVersion('nest', '-v') || undefined })
-  }
-  if (commandExists('expo')) {
-    frameworks.push({ name: 'Expo', installed: true, version: getVersion('expo', '--version') || undefined })
-  }
-  
+async function detectNodeJS(): Promise<LanguageEnvironment> {
+  const [nodeVersion, npmVersion, yarnVersion, pnpmVersion, bunVersion, frameworkResults] = await Promise.all([
+    getVersion('node', '-v'),
+    getVersion('npm', '-v'),
+    getVersion('yarn', '-v'),
+    getVersion('pnpm', '-v'),
+    getVersion('bun', '-v'),
+    // Check for global CLI tools
+    Promise.all([
+      detectCli('Create React App', 'create-react-app', '--version'),
+      detectCli('Next.js', 'next', '-v'),
+      detectCli('Vite', 'vite', '-v'),
+      detectCli('NestJS', 'nest', '-v'),
+      detectCli('Expo', 'expo', '--version'),
+    ]),
+  ])
+
+  const frameworks = present(frameworkResults)
+
   const packageManagers: ToolInfo[] = []
   if (npmVersion) packageManagers.push({ name: 'npm', installed: true, version: npmVersion })
   if (yarnVersion) packageManagers.push({ name: 'yarn', installed: true, version: yarnVersion })
   if (pnpmVersion) packageManagers.push({ name: 'pnpm', installed: true, version: pnpmVersion })
   if (bunVersion) packageManagers.push({ name: 'bun', installed: true, version: bunVersion })
-  
+
   return {
     language: 'Node.js / JavaScript / TypeScript',
     category: 'priority',
@@ -188,16 +295,18 @@ function detectNodeJS(): LanguageEnvironment {
 /**
  * Detect Flutter / Dart environment
  */
-function detectFlutter(): LanguageEnvironment {
-  const flutterVersion = getVersion('flutter', '--version')
-  const dartVersion = getVersion('dart', '--version')
-  
+async function detectFlutter(): Promise<LanguageEnvironment> {
+  const [flutterVersion, dartVersion] = await Promise.all([
+    getVersion('flutter', '--version'),
+    getVersion('dart', '--version'),
+  ])
+
   // Check Flutter doctor output for more details
   let flutterDoctor: string | null = null
   if (flutterVersion) {
-    flutterDoctor = safeExec('flutter doctor -v', 10000)
+    flutterDoctor = await safeExec('flutter doctor -v', 10000)
   }
-  
+
   const notes: string[] = []
   if (flutterVersion) {
     notes.push(`Flutter installed`)
@@ -213,7 +322,7 @@ function detectFlutter(): LanguageEnvironment {
   } else {
     notes.push('Flutter not installed - install from https://flutter.dev')
   }
-  
+
   return {
     language: 'Flutter / Dart',
     category: 'priority',
@@ -226,47 +335,56 @@ function detectFlutter(): LanguageEnvironment {
   }
 }
 
+/**
+ * List the android-* platforms installed in an SDK
+ */
+async function listAndroidPlatforms(androidHome: string): Promise<string[]> {
+  try {
+    const platforms = await fs.promises.readdir(path.join(androidHome, 'platforms'))
+    return platforms.filter(p => p.startsWith('android-'))
+  } catch {
+    return []
+  }
+}
+
 /**
  * Detect Android development environment
  */
-function detectAndroid(): LanguageEnvironment {
+async function detectAndroid(): Promise<LanguageEnvironment> {
   const home = os.homedir()
-  const androidHome = process.env.ANDROID_HOME || process.env.ANDROID_SDK_ROOT || 
+  const androidHome = process.env.ANDROID_HOME || process.env.ANDROID_SDK_ROOT ||
     path.join(home, 'Library/Android/sdk') // macOS default
-  
-  const hasAndroidSDK = dirExists(androidHome)
-  const hasAndroidStudio = process.platform === 'darwin' 
-    ? dirExists('/Applications/Android Studio.app')
-    : commandExists('android-studio') || commandExists('studio')
-  
-  // Check for Gradle
-  const gradleVersion = getVersion('gradle', '-v')
-  const hasGradleWrapper = fs.existsSync('./gradlew') || fs.existsSync('./gradlew.bat')
-  
-  // Check for Java/Kotlin
-  const javaVersion = getVersion('java', '-version')
-  const kotlinVersion = getVersion('kotlin', '-version')
-  
-  // Check installed SDK versions
-  const sdkVersions: string[] = []
-  if (hasAndroidSDK) {
-    const platformsDir = path.join(androidHome, 'platforms')
-    if (dirExists(platformsDir)) {
-      try {
-        const platforms = fs.readdirSync(platformsDir)
-        sdkVersions.push(...platforms.filter(p => p.startsWith('android-')))
-      } catch {}
-    }
-  }
-  
-  // Check for emulators
-  const emulatorPath = path.join(androidHome, 'emulator', 'emulator')
-  const hasEmulator = fs.existsSync(emulatorPath)
-  
+
+  const [
+    hasAndroidSDK,
+    hasAndroidStudio,
+    gradleVersion,
+    hasGradleWrapper,
+    javaVersion,
+    kotlinVersion,
+    sdkVersions,
+    hasEmulator,
+  ] = await Promise.all([
+    dirExists(androidHome),
+    process.platform === 'darwin'
+      ? dirExists('/Applications/Android Studio.app')
+      : Promise.all([commandExists('android-studio'), commandExists('studio')]).then(found => found.some(Boolean)),
+    // Check for Gradle
+    getVersion('gradle', '-v'),
+    Promise.all([fileExists('./gradlew'), fileExists('./gradlew.bat')]).then(found => found.some(Boolean)),
+    // Check for Java/Kotlin
+    getVersion('java', '-version'),
+    getVersion('kotlin', '-version'),
+    // Check installed SDK versions
+    listAndroidPlatforms(androidHome),
+    // Check for emulators
+    fileExists(path.join(androidHome, 'emulator', 'emulator')),
+  ])
+
   const notes: string[] = []
   if (hasAndroidStudio) notes.push('✅ Android Studio installed')
   else notes.push('❌ Android Studio not found')
-  
+
   if (hasAndroidSDK) {
     notes.push(`✅ Android SDK at ${androidHome}`)
     if (sdkVersions.length > 0) {
@@ -275,18 +393,18 @@ function detectAndroid(): LanguageEnvironment {
   } else {
     notes.push('❌ Android SDK not found')
   }
-  
+
   if (javaVersion) notes.push(`✅ Java: ${javaVersion}`)
   else notes.push('❌ Java not installed')
-  
+
   if (kotlinVersion) notes.push(`✅ Kotlin: ${kotlinVersion}`)
-  
+
   if (gradleVersion) notes.push(`✅ Gradle: ${gradleVersion}`)
   else if (hasGradleWrapper) notes.push('✅ Gradle wrapper available')
   else notes.push('❌ Gradle not found')
-  
+
   if (hasEmulator) notes.push('✅ Android Emulator available')
-  
+
   return {
     language: 'Android (Java / Kotlin)',
     category: 'priority',
@@ -313,7 +431,7 @@ function detectAndroid(): LanguageEnvironment {
 /**
  * Detect iOS / SwiftUI development environment
  */
-function detectIOS(): LanguageEnvironment {
+async function detectIOS(): Promise<LanguageEnvironment> {
   // iOS development is only available on macOS
   if (process.platform !== 'darwin') {
     return {
@@ -323,24 +441,31 @@ function detectIOS(): LanguageEnvironment {
       notes: ['iOS development requires macOS']
     }
   }
-  
-  const xcodeVersion = safeExec('xcodebuild -version')
-  const swiftVersion = getVersion('swift', '--version')
-  const hasXcode = dirExists('/Applications/Xcode.app')
-  const hasSimulator = commandExists('xcrun') && safeExec('xcrun simctl list devices') !== null
-  
-  // Check for CocoaPods
-  const cocoapodsVersion = getVersion('pod', '--version')
-  
+
+  const [
+    xcodeVersion,
+    swiftVersion,
+    hasXcode,
+    hasSimulator,
+    cocoapodsVersion,
+    carthageVersion,
+    hasObjC,
+  ] = await Promise.all([
+    safeExec('xcodebuild -version'),
+    getVersion('swift', '--version'),
+    dirExists('/Applications/Xcode.app'),
+    commandExists('xcrun').then(async found => found && (await safeExec('xcrun simctl list devices')) !== null),
+    // Check for CocoaPods
+    getVersion('pod', '--version'),
+    // Check for Carthage
+    getVersion('carthage', 'version'),
+    // Check for Objective-C presence (detect .m files in common locations)
+    commandExists('clang'),
+  ])
+
   // Check for Swift Package Manager (built into Swift)
   const hasSPM = !!swiftVersion
-  
-  // Check for Carthage
-  const carthageVersion = getVersion('carthage', 'version')
-  
-  // Check for Objective-C presence (detect .m files in common locations)
-  const hasObjC = commandExists('clang')
-  
+
   const notes: string[] = []
   if (hasXcode) {
     notes.push(`✅ Xcode installed`)
@@ -348,17 +473,17 @@ function detectIOS(): LanguageEnvironment {
   } else {
     notes.push('❌ Xcode not installed - install from App Store')
   }
-  
+
   if (swiftVersion) notes.push(`✅ Swift: ${swiftVersion}`)
   else notes.push('❌ Swift not found')
-  
+
   if (hasSimulator) notes.push('✅ iOS Simulator available')
-  
+
   if (cocoapodsVersion) notes.push(`✅ CocoaPods: ${cocoapodsVersion}`)
   if (hasSPM) notes.push('✅ Swift Package Manager available')
   if (carthageVersion) notes.push(`✅ Carthage: ${carthageVersion}`)
   if (hasObjC) notes.push('✅ Objective-C toolchain (clang) available')
-  
+
   return {
     language: 'iOS / SwiftUI',
     category: 'priority',
@@ -380,19 +505,24 @@ function detectIOS(): LanguageEnvironment {
 /**
  * Detect .NET / C# development environment
  */
-function detectDotNet(): LanguageEnvironment {
-  const dotnetVersion = getVersion('dotnet', '--version')
-  const dotnetInfo = safeExec('dotnet --list-sdks')
-  
+async function detectDotNet(): Promise<LanguageEnvironment> {
+  const dotnetVersion = await getVersion('dotnet', '--version')
+  const [dotnetInfo, efVersion] = dotnetVersion
+    ? await Promise.all([
+      safeExec('dotnet --list-sdks'),
+      // Check for common .NET tools
+      safeExec('dotnet ef --version'),
+    ])
+    : [null, null]
+
   const sdkVersions: string[] = []
   if (dotnetInfo) {
     const matches = dotnetInfo.match(/\d+\.\d+\.\d+/g)
     if (matches) sdkVersions.push(...matches)
   }
-  
-  // Check for common .NET tools
-  const hasEF = safeExec('dotnet ef --version') !== null
-  
+
+  const hasEF = efVersion !== null
+
   const notes: string[] = []
   if (dotnetVersion) {
     notes.push(`✅ .NET SDK ${dotnetVersion}`)
@@ -402,9 +532,9 @@ function detectDotNet(): LanguageEnvironment {
   } else {
     notes.push('❌ .NET SDK not installed - install from https://dotnet.microsoft.com')
   }
-  
+
   if (hasEF) notes.push('✅ Entity Framework tools installed')
-  
+
   return {
     language: '.NET / C#',
     category: 'priority',
@@ -425,35 +555,34 @@ function detectDotNet(): LanguageEnvironment {
 /**
  * Detect Python environment
  */
-function detectPython(): LanguageEnvironment {
-  const python3Version = getVersion('python3', '--version')
-  const pythonVersion = getVersion('python', '--version')
-  const pipVersion = getVersion('pip3', '--version') || getVersion('pip', '--version')
-  const poetryVersion = getVersion('poetry', '--version')
-  const condaVersion = getVersion('conda', '--version')
-  
+async function detectPython(): Promise<LanguageEnvironment> {
+  const [python3Version, pythonVersion, pip3Version, pip2Version, poetryVersion, condaVersion, frameworkResults] = await Promise.all([
+    getVersion('python3', '--version'),
+    getVersion('python', '--version'),
+    getVersion('pip3', '--version'),
+    getVersion('pip', '--version'),
+    getVersion('poetry', '--version'),
+    getVersion('conda', '--version'),
+    // Check for common frameworks (via pip list would be slow, so we check commands)
+    Promise.all([
+      detectCli('Django', 'django-admin'),
+      detectCli('Flask', 'flask'),
+      detectCli('FastAPI', 'fastapi'),
+    ]),
+  ])
+
   const version = python3Version || pythonVersion
-  
-  const frameworks: ToolInfo[] = []
-  // Check for common frameworks (via pip list would be slow, so we check commands)
-  if (commandExists('django-admin')) {
-    frameworks.push({ name: 'Django', installed: true })
-  }
-  if (commandExists('flask')) {
-    frameworks.push({ name: 'Flask', installed: true })
-  }
-  if (commandExists('fastapi')) {
-    frameworks.push({ name: 'FastAPI', installed: true })
-  }
-  
+  const pipVersion = pip3Version || pip2Version
+  const frameworks = present(frameworkResults)
+
   const notes: string[] = []
   if (version) notes.push(`✅ Python ${version}`)
   else notes.push('❌ Python not installed')
-  
+
   if (pipVersion) notes.push(`✅ pip installed`)
   if (poetryVersion) notes.push(`✅ Poetry ${poetryVersion}`)
   if (condaVersion) notes.push(`✅ Conda ${condaVersion}`)
-  
+
   return {
     language: 'Python',
     category: 'standard',
@@ -476,16 +605,18 @@ function detectPython(): LanguageEnvironment {
 /**
  * Detect Rust environment
  */
-function detectRust(): LanguageEnvironment {
-  const rustcVersion = getVersion('rustc', '--version')
-  const cargoVersion = getVersion('cargo', '--version')
-  
+async function detectRust(): Promise<LanguageEnvironment> {
+  const [rustcVersion, cargoVersion] = await Promise.all([
+    getVersion('rustc', '--version'),
+    getVersion('cargo', '--version'),
+  ])
+
   const notes: string[] = []
   if (rustcVersion) notes.push(`✅ Rust ${rustcVersion}`)
   else notes.push('❌ Rust not installed - install from https://rustup.rs')
-  
+
   if (cargoVersion) notes.push(`✅ Cargo ${cargoVersion}`)
-  
+
   return {
     language: 'Rust',
     category: 'standard',
@@ -502,13 +633,13 @@ function detectRust(): LanguageEnvironment {
 /**
  * Detect Go environment
  */
-function detectGo(): LanguageEnvironment {
-  const goVersion = getVersion('go', 'version')
-  
+async function detectGo(): Promise<LanguageEnvironment> {
+  const goVersion = await getVersion('go', 'version')
+
   const notes: string[] = []
   if (goVersion) notes.push(`✅ Go ${goVersion}`)
   else notes.push('❌ Go not installed - install from https://golang.org')
-  
+
   return {
     language: 'Go',
     category: 'standard',
@@ -524,34 +655,35 @@ function detectGo(): LanguageEnvironment {
 /**
  * Detect Blockchain / Web3 development environment
  */
-function detectBlockchain(): LanguageEnvironment {
-  // Solidity / Ethereum tools
-  const solcVersion = getVersion('solc', '--version')
-  const hardhatInstalled = commandExists('npx') && safeExec('npx hardhat --version') !== null
-  const foundryVersion = getVersion('forge', '--version')
-  const truffleVersion = getVersion('truffle', 'version')
-  const ganacheInstalled = commandExists('ganache') || commandExists('ganache-cli')
-  
-  // Check for Ethereum clients
-  const gethVersion = getVersion('geth', 'version')
-  
+async function detectBlockchain(): Promise<LanguageEnvironment> {
+  const [solcVersion, hardhatInstalled, foundryVersion, truffleVersion, ganacheInstalled, gethVersion] = await Promise.all([
+    // Solidity / Ethereum tools
+    getVersion('solc', '--version'),
+    commandExists('npx').then(async found => found && (await safeExec('npx hardhat --version')) !== null),
+    getVersion('forge', '--version'),
+    getVersion('truffle', 'version'),
+    Promise.all([commandExists('ganache'), commandExists('ganache-cli')]).then(found => found.some(Boolean)),
+    // Check for Ethereum clients
+    getVersion('geth', 'version'),
+  ])
+
   const notes: string[] = []
-  
+
   if (solcVersion) notes.push(`✅ Solidity compiler: ${solcVersion}`)
   if (hardhatInstalled) notes.push('✅ Hardhat available')
   if (foundryVersion) notes.push(`✅ Foundry (Forge): ${foundryVersion}`)
   if (truffleVersion) notes.push(`✅ Truffle: ${truffleVersion}`)
   if (ganacheInstalled) notes.push('✅ Ganache (local blockchain)')
   if (gethVersion) notes.push(`✅ Geth (Ethereum client): ${gethVersion}`)
-  
+
   if (notes.length === 0) {
     notes.push('❌ No blockchain tools detected')
     notes.push('   Install Hardhat: npm install --save-dev hardhat')
     notes.push('   Install Foundry: curl -L https://foundry.paradigm.xyz | bash')
   }
-  
+
   const installed = !!solcVersion || hardhatInstalled || !!foundryVersion || !!truffleVersion
-  
+
   return {
     language: 'Solidity / Web3 (Ethereum)',
     category: 'blockchain',
@@ -573,18 +705,19 @@ function detectBlockchain(): LanguageEnvironment {
 /**
  * Detect Ruby environment
  */
-function detectRuby(): LanguageEnvironment {
-  const rubyVersion = getVersion('ruby', '--version')
-  const gemVersion = getVersion('gem', '--version')
-  const bundlerVersion = getVersion('bundler', '--version')
-  const railsVersion = getVersion('rails', '--version')
-  
+async function detectRuby(): Promise<LanguageEnvironment> {
+  const [rubyVersion, gemVersion, railsVersion] = await Promise.all([
+    getVersion('ruby', '--version'),
+    getVersion('gem', '--version'),
+    getVersion('rails', '--version'),
+  ])
+
   const notes: string[] = []
   if (rubyVersion) notes.push(`✅ Ruby ${rubyVersion}`)
   else notes.push('❌ Ruby not installed')
-  
+
   if (railsVersion) notes.push(`✅ Rails ${railsVersion}`)
-  
+
   return {
     language: 'Ruby / Rails',
     category: 'standard',
@@ -602,18 +735,20 @@ function detectRuby(): LanguageEnvironment {
 /**
  * Detect PHP / Laravel environment
  */
-function detectPHP(): LanguageEnvironment {
-  const phpVersion = getVersion('php', '--version')
-  const composerVersion = getVersion('composer', '--version')
-  const laravelInstalled = commandExists('laravel')
-  
+async function detectPHP(): Promise<LanguageEnvironment> {
+  const [phpVersion, composerVersion, laravelInstalled] = await Promise.all([
+    getVersion('php', '--version'),
+    getVersion('composer', '--version'),
+    commandExists('laravel'),
+  ])
+
   const notes: string[] = []
   if (phpVersion) notes.push(`✅ PHP ${phpVersion}`)
   else notes.push('❌ PHP not installed')
-  
+
   if (composerVersion) notes.push(`✅ Composer installed`)
   if (laravelInstalled) notes.push('✅ Laravel CLI installed')
-  
+
   return {
     language: 'PHP / Laravel',
     category: 'standard',
@@ -631,151 +766,115 @@ function detectPHP(): LanguageEnvironment {
 // IDE Detection
 // =============================================================================
 
-function detectIDEs(): ToolInfo[] {
-  const ides: ToolInfo[] = []
-  
-  // VS Code
-  if (commandExists('code')) {
-    ides.push({ name: 'VS Code', installed: true, version: getVersion('code', '--version') || undefined })
-  }
-  
-  // Cursor
-  if (commandExists('cursor')) {
-    ides.push({ name: 'Cursor', installed: true })
-  }
-  
-  // Android Studio (macOS)
-  if (process.platform === 'darwin' && dirExists('/Applications/Android Studio.app')) {
-    ides.push({ name: 'Android Studio', installed: true })
-  }
-  
-  // Xcode (macOS)
-  if (process.platform === 'darwin' && dirExists('/Applications/Xcode.app')) {
-    ides.push({ name: 'Xcode', installed: true, version: safeExec('xcodebuild -version')?.split('\n')[0] || undefined })
-  }
-  
-  // IntelliJ IDEA
-  if (process.platform === 'darwin' && (
-    dirExists('/Applications/IntelliJ IDEA.app') || 
-    dirExists('/Applications/IntelliJ IDEA CE.app')
-  )) {
-    ides.push({ name: 'IntelliJ IDEA', installed: true })
-  }
-  
-  // Visual Studio (Windows/Mac)
-  if (process.platform === 'darwin' && dirExists('/Applications/Visual Studio.app')) {
-    ides.push({ name: 'Visual Studio for Mac', installed: true })
-  }
-  
-  // WebStorm
-  if (process.platform === 'darwin' && dirExists('/Applications/WebStorm.app')) {
-    ides.push({ name: 'WebStorm', installed: true })
-  }
-  
-  // PyCharm
-  if (process.platform === 'darwin' && (
-    dirExists('/Applications/PyCharm.app') ||
-    dirExists('/Applications/PyCharm CE.app')
-  )) {
-    ides.push({ name: 'PyCharm', installed: true })
+/**
+ * Report a macOS app bundle as installed when any of its names exists in /Applications
+ */
+async function detectMacApp(name: string, ...bundles: string[]): Promise<ToolInfo | null> {
+  if (process.platform !== 'darwin') return null
+  return (await anyDirExists(...bundles.map(bundle => `/Applications/${bundle}.app`))) ? { name, installed: true } : null
+}
+
+async function detectIDEs(): Promise<ToolInfo[]> {
+  const xcode = async (): Promise<ToolInfo | null> => {
+    if (process.platform !== 'darwin' || !(await dirExists('/Applications/Xcode.app'))) return null
+    return { name: 'Xcode', installed: true, version: (await safeExec('xcodebuild -version'))?.split('\n')[0] || undefined }
   }
-  
-  return ides
+
+  return present(await Promise.all([
+    detectCli('VS Code', 'code', '--version'),
+    detectCli('Cursor', 'cursor'),
+    detectMacApp('Android Studio', 'Android Studio'),
+    xcode(),
+    detectMacApp('IntelliJ IDEA', 'IntelliJ IDEA', 'IntelliJ IDEA CE'),
+    // Visual Studio (Windows/Mac)
+    detectMacApp('Visual Studio for Mac', 'Visual Studio'),
+    detectMacApp('WebStorm', 'WebStorm'),
+    detectMacApp('PyCharm', 'PyCharm', 'PyCharm CE'),
+  ]))
 }
 
 // =============================================================================
 // Version Control Detection
 // =============================================================================
 
-function detectVersionControl(): ToolInfo[] {
-  const tools: ToolInfo[] = []
-  
-  const gitVersion = getVersion('git', '--version')
-  if (gitVersion) {
-    tools.push({ name: 'Git', installed: true, version: gitVersion })
-  }
-  
-  if (commandExists('gh')) {
-    tools.push({ name: 'GitHub CLI', installed: true, version: getVersion('gh', '--version') || undefined })
-  }
-  
-  if (commandExists('glab')) {
-    tools.push({ name: 'GitLab CLI', installed: true })
-  }
-  
-  return tools
+async function detectVersionControl(): Promise<ToolInfo[]> {
+  const [gitVersion, ...clis] = await Promise.all([
+    getVersion('git', '--version'),
+    detectCli('GitHub CLI', 'gh', '--version'),
+    detectCli('GitLab CLI', 'glab'),
+  ])
+
+  return present([gitVersion ? { name: 'Git', installed: true, version: gitVersion } : null, ...clis])
 }
 
 // =============================================================================
 // Container/Cloud Detection
 // =============================================================================
 
-function detectContainerization(): ToolInfo[] {
-  const tools: ToolInfo[] = []
-  
-  const dockerVersion = getVersion('docker', '--version')
-  if (dockerVersion) {
-    tools.push({ name: 'Docker', installed: true, version: dockerVersion })
-  }
-  
-  const dockerComposeVersion = getVersion('docker-compose', '--version') || getVersion('docker', 'compose version')
-  if (dockerComposeVersion) {
-    tools.push({ name: 'Docker Compose', installed: true, version: dockerComposeVersion })
-  }
-  
-  if (commandExists('kubectl')) {
-    tools.push({ name: 'kubectl', installed: true, version: getVersion('kubectl', 'version --client --short') || undefined })
-  }
-  
-  if (commandExists('podman')) {
-    tools.push({ name: 'Podman', installed: true, version: getVersion('podman', '--version') || undefined })
-  }
-  
-  return tools
+async function detectContainerization(): Promise<ToolInfo[]> {
+  const [dockerVersion, composeVersion, composePluginVersion, ...clis] = await Promise.all([
+    getVersion('docker', '--version'),
+    getVersion('docker-compose', '--version'),
+    getVersion('docker', 'compose version'),
+    detectCli('kubectl', 'kubectl', 'version --client --short'),
+    detectCli('Podman', 'podman', '--version'),
+  ])
+
+  const dockerComposeVersion = composeVersion || composePluginVersion
+  return present([
+    dockerVersion ? { name: 'Docker', installed: true, version: dockerVersion } : null,
+    dockerComposeVersion ? { name: 'Docker Compose', installed: true, version: dockerComposeVersion } : null,
+    ...clis,
+  ])
 }
 
-function detectCloudTools(): ToolInfo[] {
-  const tools: ToolInfo[] = []
-  
-  if (commandExists('aws')) {
-    tools.push({ name: 'AWS CLI', installed: true, version: getVersion('aws', '--version') || undefined })
-  }
-  
-  if (commandExists('gcloud')) {
-    tools.push({ name: 'Google Cloud CLI', installed: true, version: getVersion('gcloud', '--version') || undefined })
-  }
-  
-  if (commandExists('az')) {
-    tools.push({ name: 'Azure CLI', installed: true, version: getVersion('az', '--version') || undefined })
-  }
-  
-  if (commandExists('vercel')) {
-    tools.push({ name: 'Vercel CLI', installed: true, version: getVersion('vercel', '--version') || undefined })
-  }
-  
-  if (commandExists('netlify')) {
-    tools.push({ name: 'Netlify CLI', installed: true, version: getVersion('netlify', '--version') || undefined })
-  }
-  
-  if (commandExists('firebase')) {
-    tools.push({ name: 'Firebase CLI', installed: true, version: getVersion('firebase', '--version') || undefined })
-  }
-  
-  if (commandExists('serverless')) {
-    tools.push({ name: 'Serverless Framework', installed: true, version: getVersion('serverless', '--version') || undefined })
-  }
-  
-  return tools
+async function detectCloudTools(): Promise<ToolInfo[]> {
+  return present(await Promise.all([
+    detectCli('AWS CLI', 'aws', '--version'),
+    detectCli('Google Cloud CLI', 'gcloud', '--version'),
+    detectCli('Azure CLI', 'az', '--version'),
+    detectCli('Vercel CLI', 'vercel', '--version'),
+    detectCli('Netlify CLI', 'netlify', '--version'),
+    detectCli('Firebase CLI', 'firebase', '--version'),
+    detectCli('Serverless Framework', 'serverless', '--version'),
+  ]))
 }
 
 // =============================================================================
 // Main Detection Function
 // =============================================================================
 
+const LANGUAGE_DETECTORS: Array<() => Promise<LanguageEnvironment>> = [
+  // Priority languages first
+  detectNodeJS,
+  detectFlutter,
+  detectAndroid,
+  detectIOS,
+  detectDotNet,
+  // Standard languages
+  detectPython,
+  detectRust,
+  detectGo,
+  detectRuby,
+  detectPHP,
+  // Blockchain
+  detectBlockchain,
+]
+
+const TOOL_DETECTORS: Array<[ToolSection, () => Promise<ToolInfo[]>]> = [
+  ['ides', detectIDEs],
+  ['versionControl', detectVersionControl],
+  ['containerization', detectContainerization],
+  ['cloud', detectCloudTools],
+]
+
 /**
  * Detect the complete development environment
+ *
+ * All detectors run at once; `onProgress` receives each one's result as it
+ * finishes, while the returned environment keeps the priority order.
  */
-export function detectEnvironment(): DevelopmentEnvironment {
+export async function detectEnvironment(options: DetectEnvironmentOptions = {}): Promise<DevelopmentEnvironment> {
   const env: DevelopmentEnvironment = {
     os: {
       platform: process.platform,
@@ -792,30 +891,21 @@ export function detectEnvironment(): DevelopmentEnvironment {
     databases: [],
     detectedAt: new Date(),
   }
-  
-  // Detect priority languages first
-  env.languages.push(detectNodeJS())
-  env.languages.push(detectFlutter())
-  env.languages.push(detectAndroid())
-  env.languages.push(detectIOS())
-  env.languages.push(detectDotNet())
-  
-  // Standard languages
-  env.languages.push(detectPython())
-  env.languages.push(detectRust())
-  env.languages.push(detectGo())
-  env.languages.push(detectRuby())
-  env.languages.push(detectPHP())
-  
-  // Blockchain
-  env.languages.push(detectBlockchain())
-  
-  // Tools
-  env.ides = detectIDEs()
-  env.versionControl = detectVersionControl()
-  env.containerization = detectContainerization()
-  env.cloud = detectCloudTools()
-  
+
+  const [languages] = await Promise.all([
+    Promise.all(LANGUAGE_DETECTORS.map(async detect => {
+      const language = await detect()
+      options.onProgress?.({ type: 'language', language })
+      return language
+    })),
+    ...TOOL_DETECTORS.map(async ([section, detect]) => {
+      const tools = await detect()
+      env[section] = tools
+      options.onProgress?.({ type: 'tools', section, tools })
+    }),
+  ])
+  env.languages = languages
+
   return env
 }
 
@@ -965,22 +1055,29 @@ export function getRunCommand(projectPath: string, env: DevelopmentEnvironment):
   return null
 }
 
-// Export singleton for caching
-let cachedEnvironment: DevelopmentEnvironment | null = null
-let cacheTime: number = 0
-const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
-
-export function getCachedEnvironment(): DevelopmentEnvironment {
+/**
+ * Get the environment, detecting it at most once per CACHE_DURATION;
+ * concurrent callers share the same detection
+ */
+export function getCachedEnvironment(): Promise<DevelopmentEnvironment> {
+  invalidateOnPathChange()
   const now = Date.now()
   if (!cachedEnvironment || (now - cacheTime) > CACHE_DURATION) {
-    cachedEnvironment = detectEnvironment()
+    const detection = detectEnvironment()
+    detection.catch(() => {
+      if (cachedEnvironment === detection) cachedEnvironment = null
+    })
+    cachedEnvironment = detection
     cacheTime = now
   }
   return cachedEnvironment
 }
 
+/**
+ * Forget the environment and every probe result (force re-detection)
+ */
 export function clearEnvironmentCache(): void {
   cachedEnvironment = null
   cacheTime = 0
+  probeCache.clear()
 }
-
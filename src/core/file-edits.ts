@@ -0,0 +1,343 @@
+/**
+ * File Edits
+ *
+ * Targeted edits for the agent's replace_in_file / apply_diff tools, so the
+ * model no longer has to send a whole file back through write_to_file to
+ * change a few lines.
+ *
+ * Both edit formats are strict: a search block or hunk must match the current
+ * file content exactly once. Stale (no match) and ambiguous (several matches)
+ * edits fail with a FileEditError instead of guessing, and successful edits
+ * report the line ranges they produced so the model can verify its work.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SearchReplaceBlock {
+  search: string
+  replace: string
+}
+
+/** 1-based, inclusive line range in the edited file */
+export interface EditedRange {
+  startLine: number
+  endLine: number
+}
+
+export interface FileEditResult {
+  content: string
+  ranges: EditedRange[]
+}
+
+export type FileEditErrorCode =
+  | 'EMPTY_SEARCH'
+  | 'NO_MATCH'
+  | 'AMBIGUOUS_MATCH'
+  | 'INVALID_DIFF'
+  | 'HUNK_MISMATCH'
+
+export class FileEditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: FileEditErrorCode,
+  ) {
+    super(message)
+    this.name = 'FileEditError'
+  }
+}
+
+interface DiffHunk {
+  oldStart: number
+  oldLines: string[]
+  newLines: string[]
+  header: string
+}
+
+interface SplitContent {
+  lines: string[]
+  eol: string
+  trailingNewline: boolean
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function detectEol(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n'
+}
+
+function splitLines(content: string): SplitContent {
+  const eol = detectEol(content)
+  if (content === '') {
+    return { lines: [], eol, trailingNewline: false }
+  }
+  const trailingNewline = content.endsWith('\n')
+  const body = trailingNewline ? content.slice(0, content.endsWith('\r\n') ? -2 : -1) : content
+  return { lines: body.split(/\r?\n/), eol, trailingNewline }
+}
+
+function joinLines({ lines, eol, trailingNewline }: SplitContent): string {
+  if (lines.length === 0) return ''
+  return lines.join(eol) + (trailingNewline ? eol : '')
+}
+
+/** Convert a 0-based character offset into a 1-based line number */
+function lineAt(content: string, offset: number): number {
+  let line = 1
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') line++
+  }
+  return line
+}
+
+function findAll(haystack: string, needle: string): number[] {
+  const offsets: number[] = []
+  let from = 0
+  while (from <= haystack.length) {
+    const index = haystack.indexOf(needle, from)
+    if (index === -1) break
+    offsets.push(index)
+    from = index + 1
+  }
+  return offsets
+}
+
+function preview(text: string, max = 80): string {
+  const firstLine = text.split(/\r?\n/).find(l => l.trim().length > 0) || text
+  const trimmed = firstLine.trim()
+  return trimmed.length > max ? `${trimmed.slice(0, max)}...` : trimmed
+}
+
+// ============================================================================
+// Search / Replace
+// ============================================================================
+
+/**
+ * Apply exact-match search/replace blocks in order.
+ *
+ * Each block's search text must occur exactly once in the content as it stands
+ * after the previous blocks were applied. Line endings in the blocks are
+ * normalized to the file's own line endings.
+ */
+export function applySearchReplace(content: string, blocks: SearchReplaceBlock[]): FileEditResult {
+  if (!blocks || blocks.length === 0) {
+    throw new FileEditError('No edits provided', 'EMPTY_SEARCH')
+  }
+
+  const eol = detectEol(content)
+  const normalize = (text: string) => (eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text.replace(/\r\n/g, '\n'))
+
+  let current = content
+  // Character spans of each replacement in `current`, kept in sync as later edits shift text
+  const spans: Array<{ start: number; end: number }> = []
+
+  blocks.forEach((block, index) => {
+    const label = blocks.length > 1 ? `Edit ${index + 1}/${blocks.length}` : 'Edit'
+    const search = normalize(block.search ?? '')
+    const replace = normalize(block.replace ?? '')
+
+    if (search.length === 0) {
+      throw new FileEditError(`${label}: search text is empty. Use write_to_file to create a new file.`, 'EMPTY_SEARCH')
+    }
+
+    const matches = findAll(current, search)
+    if (matches.length === 0) {
+      throw new FileEditError(
+        `${label}: search text not found (starting "${preview(search)}"). The file may have changed since it was read — re-read it and retry with the exact current content.`,
+        'NO_MATCH',
+      )
+    }
+    if (matches.length > 1) {
+      const lines = matches.map(offset => lineAt(current, offset)).join(', ')
+      throw new FileEditError(
+        `${label}: search text is ambiguous — it matches ${matches.length} locations (lines ${lines}). Include more surrounding lines so it matches exactly once.`,
+        'AMBIGUOUS_MATCH',
+      )
+    }
+
+    const start = matches[0]
+    const end = start + search.length
+    const delta = replace.length - search.length
+    current = current.slice(0, start) + replace + current.slice(end)
+
+    for (const span of spans) {
+      if (span.start >= end) {
+        span.start += delta
+        span.end += delta
+      } else if (span.end > start) {
+        // Edit overlaps an earlier replacement — widen that span to cover both
+        span.start = Math.min(span.start, start)
+        span.end = Math.max(span.end + delta, start + replace.length)
+      }
+    }
+    spans.push({ start, end: start + replace.length })
+  })
+
+  const ranges = spans.map(({ start, end }) => {
+    const startLine = lineAt(current, start)
+    // A pure deletion leaves an empty span — report the line it collapsed onto
+    const lastChar = end > start ? end - 1 : start
+    return { startLine, endLine: Math.max(startLine, lineAt(current, lastChar)) }
+  })
+
+  return { content: current, ranges }
+}
+
+// ============================================================================
+// Unified Diff
+// ============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+/** Parse the hunks of a single-file unified diff. File headers are ignored. */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | null = null
+
+  // Blank lines after the last hunk are not part of it
+  for (const rawLine of diff.replace(/(\r?\n)+$/, '').split(/\r?\n/)) {
+    const headerMatch = rawLine.match(HUNK_HEADER)
+    if (headerMatch) {
+      current = { oldStart: parseInt(headerMatch[1], 10), oldLines: [], newLines: [], header: rawLine }
+      hunks.push(current)
+      continue
+    }
+    if (!current) {
+      // diff --git / --- / +++ / index lines before the first hunk
+      continue
+    }
+    if (rawLine.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue
+    }
+
+    const marker = rawLine[0]
+    const text = rawLine.slice(1)
+    if (marker === ' ') {
+      current.oldLines.push(text)
+      current.newLines.push(text)
+    } else if (marker === '-') {
+      current.oldLines.push(text)
+    } else if (marker === '+') {
+      current.newLines.push(text)
+    } else if (rawLine === '') {
+      // Some generators drop the leading space on blank context lines
+      current.oldLines.push('')
+      current.newLines.push('')
+    } else {
+      throw new FileEditError(`Invalid diff line in hunk "${current.header}": "${preview(rawLine)}"`, 'INVALID_DIFF')
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new FileEditError('Diff contains no hunks (expected lines starting with "@@ -a,b +c,d @@")', 'INVALID_DIFF')
+  }
+  return hunks
+}
+
+function matchesAt(lines: string[], block: string[], at: number): boolean {
+  if (at < 0 || at + block.length > lines.length) return false
+  for (let i = 0; i < block.length; i++) {
+    if (lines[at + i] !== block[i]) return false
+  }
+  return true
+}
+
+/**
+ * Apply a unified diff to file content.
+ *
+ * Each hunk is applied at its stated position when the context still matches
+ * there; otherwise it must match exactly one other location in the file.
+ */
+export function applyUnifiedDiff(content: string, diff: string): FileEditResult {
+  const hunks = parseUnifiedDiff(diff)
+  const split = splitLines(content)
+  const lines = split.lines
+  const ranges: EditedRange[] = []
+  // Lines added minus lines removed by the hunks applied so far
+  let offset = 0
+
+  hunks.forEach((hunk, index) => {
+    const label = hunks.length > 1 ? `Hunk ${index + 1}/${hunks.length} (${hunk.header})` : `Hunk ${hunk.header}`
+    let at: number
+
+    if (hunk.oldLines.length === 0) {
+      // Pure insertion: "-a,0" means insert after line a
+      at = Math.min(hunk.oldStart + offset, lines.length)
+    } else {
+      const expected = hunk.oldStart - 1 + offset
+      if (matchesAt(lines, hunk.oldLines, expected)) {
+        at = expected
+      } else {
+        const candidates: number[] = []
+        for (let i = 0; i + hunk.oldLines.length <= lines.length; i++) {
+          if (matchesAt(lines, hunk.oldLines, i)) candidates.push(i)
+        }
+        if (candidates.length === 0) {
+          throw new FileEditError(
+            `${label}: context does not match the file (starting "${preview(hunk.oldLines.join('\n'))}"). The file may have changed since it was read — re-read it and regenerate the diff.`,
+            'HUNK_MISMATCH',
+          )
+        }
+        if (candidates.length > 1) {
+          throw new FileEditError(
+            `${label}: context matches ${candidates.length} locations (lines ${candidates.map(c => c + 1).join(', ')}) and none at the stated line. Include more context lines.`,
+            'AMBIGUOUS_MATCH',
+          )
+        }
+        at = candidates[0]
+      }
+    }
+
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines)
+    offset += hunk.newLines.length - hunk.oldLines.length
+
+    const startLine = at + 1
+    ranges.push({ startLine, endLine: Math.max(startLine, at + hunk.newLines.length) })
+  })
+
+  if (split.lines.length > 0 && content === '') split.trailingNewline = true
+  return { content: joinLines(split), ranges }
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+const MAX_REPORTED_LINES = 40
+
+/**
+ * Summarize an edit for the model: the resulting line ranges plus the edited
+ * lines with line numbers, so it can confirm the change landed as intended.
+ */
+export function formatEditResult(filePath: string, result: FileEditResult): string {
+  const { content, ranges } = result
+  const lines = splitLines(content).lines
+  const rangeList = ranges
+    .map(r => (r.startLine === r.endLine ? `line ${r.startLine}` : `lines ${r.startLine}-${r.endLine}`))
+    .join(', ')
+
+  let output = `Successfully edited ${filePath} (${ranges.length} edit${ranges.length === 1 ? '' : 's'}): ${rangeList}`
+  let budget = MAX_REPORTED_LINES
+
+  for (const range of ranges) {
+    if (budget <= 0) {
+      output += '\n\n[...more edited lines omitted — use read_file to inspect]'
+      break
+    }
+    const end = Math.min(range.endLine, range.startLine + budget - 1)
+    const numbered = lines
+      .slice(range.startLine - 1, end)
+      .map((line, i) => `${String(range.startLine + i).padStart(5)} | ${line}`)
+    budget -= numbered.length
+    output += `\n\n${numbered.join('\n')}`
+    if (end < range.endLine) {
+      output += `\n[...${range.endLine - end} more lines]`
+    }
+  }
+
+  return output
+}
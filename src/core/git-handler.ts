@@ -6,12 +6,37 @@
  */
 
 import { EventEmitter } from 'events'
+import {
+  buildCommitMessagePrompt,
+  cleanCommitMessage,
+  learnCommitStyle,
+  COMMIT_MESSAGE_SYSTEM_PROMPT,
+  parseDiffFiles,
+  type CommitMessageModel,
+} from './commit-message'
+import type { PatchAction } from './git-patches'
+import { applyResolutions, hasConflictMarkers, parseConflicts, type ParsedConflictFile } from './merge-conflicts'
+import type { GitSnapshot } from './git-snapshots'
+import {
+  appendReviewerChecklist,
+  buildPullRequestPrompt,
+  buildReviewerChecklist,
+  findRiskySpots,
+  groupChangesByArea,
+  parsePullRequestReply,
+  PR_DESCRIPTION_SYSTEM_PROMPT,
+  PR_TEMPLATE_PATHS,
+  type BranchComparison,
+  type PullRequestDescription,
+} from './pull-request'
 
 const electronAPI = typeof window !== 'undefined' ? (window as any).electronAPI : null
 
 export interface GitStatus {
   current: string | null
   tracking: string | null
+  /** Where the handler's cwd is inside the repository, e.g. `app/`; '' at the root. File paths are relative to the root. */
+  prefix: string
   ahead: number
   behind: number
   staged: string[]
@@ -49,6 +74,16 @@ export interface ConflictResolution {
   content?: string
 }
 
+export type MergeState = 'merge' | 'rebase' | 'cherry-pick'
+
+/** Thrown by pull when the merge stopped on conflicts */
+export class MergeConflictError extends Error {
+  constructor(public readonly files: string[], cause?: string) {
+    super(`Merge stopped on conflicts in ${files.length} file(s)${cause ? `: ${cause}` : ''}`)
+    this.name = 'MergeConflictError'
+  }
+}
+
 export class GitHandler extends EventEmitter {
   private cwd: string
 
@@ -85,6 +120,7 @@ export class GitHandler extends EventEmitter {
     return {
       current: status.current,
       tracking: status.tracking,
+      prefix: status.prefix ?? '',
       ahead: status.ahead || 0,
       behind: status.behind || 0,
       staged: status.staged || [],
@@ -92,7 +128,7 @@ export class GitHandler extends EventEmitter {
       deleted: status.deleted || [],
       untracked: status.not_added || [],
       conflicted: status.conflicted || [],
-      isClean: status.isClean?.() ?? (
+      isClean: typeof status.isClean === 'boolean' ? status.isClean : status.isClean?.() ?? (
         (status.staged?.length || 0) === 0 &&
         (status.modified?.length || 0) === 0 &&
         (status.deleted?.length || 0) === 0 &&
@@ -102,9 +138,9 @@ export class GitHandler extends EventEmitter {
   }
 
   /**
-   * Get diff
+   * Get diff — with base, what HEAD changed since it branched off that branch
    */
-  async getDiff(options?: { staged?: boolean; file?: string }): Promise<string> {
+  async getDiff(options?: { staged?: boolean; file?: string; base?: string }): Promise<string> {
     if (!electronAPI) {
       throw new Error('Git operations not available')
     }
@@ -113,9 +149,9 @@ export class GitHandler extends EventEmitter {
   }
 
   /**
-   * Get commit log
+   * Get commit log — with base, only the commits on HEAD that aren't on it
    */
-  async getLog(options?: { maxCount?: number; file?: string }): Promise<GitCommit[]> {
+  async getLog(options?: { maxCount?: number; file?: string; base?: string }): Promise<GitCommit[]> {
     if (!electronAPI) {
       throw new Error('Git operations not available')
     }
@@ -183,6 +219,47 @@ export class GitHandler extends EventEmitter {
     await this.add(['.'])
   }
 
+  /**
+   * Unstage files, keeping their changes in the working tree
+   */
+  async unstage(files: string[]): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    await electronAPI.git.unstage(this.cwd, files)
+    this.emit('filesUnstaged', files)
+  }
+
+  /**
+   * Throw away working tree changes to tracked files
+   */
+  async discard(files: string[]): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    await electronAPI.git.discard(this.cwd, files)
+    this.emit('changesDiscarded', files)
+  }
+
+  /**
+   * Apply a partial patch from buildPartialPatch: staging goes forward into the
+   * index, unstaging in reverse from the index, discarding in reverse from the
+   * working tree
+   */
+  async applyPatch(patch: string, action: PatchAction): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    await electronAPI.git.applyPatch(this.cwd, patch, {
+      cached: action !== 'discard',
+      reverse: action !== 'stage',
+    })
+    this.emit('patchApplied', action)
+  }
+
   /**
    * Commit changes
    */
@@ -215,10 +292,70 @@ export class GitHandler extends EventEmitter {
       throw new Error('Git operations not available')
     }
 
-    await electronAPI.git.pull(this.cwd, remote, branch)
+    try {
+      await electronAPI.git.pull(this.cwd, remote, branch)
+    } catch (error) {
+      // A failed pull may have left a half-done merge — surface its conflicts instead of the raw git error
+      const { conflicted } = await this.getStatus().catch(() => ({ conflicted: [] as string[] }))
+      if (conflicted.length > 0) {
+        this.emit('conflicts', conflicted)
+        throw new MergeConflictError(conflicted, (error as Error).message)
+      }
+      throw error
+    }
     this.emit('pulled')
   }
 
+  /**
+   * The merge, rebase or cherry-pick waiting on conflict resolution, if any
+   */
+  async getMergeState(): Promise<MergeState | null> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    return electronAPI.git.mergeState(this.cwd)
+  }
+
+  /**
+   * Read a conflicted file and split it into conflict regions
+   */
+  async readConflicts(file: string): Promise<ParsedConflictFile> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    return parseConflicts(await electronAPI.fs.readFileAsText(`${this.cwd}/${file}`))
+  }
+
+  /**
+   * Commit the merge (or continue the rebase) once every conflict is staged
+   */
+  async continueMerge(): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    const { conflicted } = await this.getStatus()
+    if (conflicted.length > 0) {
+      throw new Error(`Resolve the remaining conflicts first: ${conflicted.join(', ')}`)
+    }
+    await electronAPI.git.continueMerge(this.cwd)
+    this.emit('mergeContinued')
+  }
+
+  /**
+   * Abandon the merge and restore the branch as it was before the pull
+   */
+  async abortMerge(): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    await electronAPI.git.abortMerge(this.cwd)
+    this.emit('mergeAborted')
+  }
+
   /**
    * Stash changes
    */
@@ -230,6 +367,39 @@ export class GitHandler extends EventEmitter {
     return electronAPI.git.stash(this.cwd, action, message)
   }
 
+  /**
+   * Snapshots taken before destructive git commands, newest first
+   */
+  async listSnapshots(): Promise<GitSnapshot[]> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    return electronAPI.snapshots.list(this.cwd)
+  }
+
+  /**
+   * Put back a snapshot's branch, working tree and index. Returns the snapshot
+   * of the state it replaced.
+   */
+  async restoreSnapshot(id: string): Promise<GitSnapshot> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    const backup = await electronAPI.snapshots.restore(this.cwd, id)
+    this.emit('snapshotRestored', id)
+    return backup
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    await electronAPI.snapshots.delete(this.cwd, id)
+  }
+
   /**
    * Reset changes
    */
@@ -295,22 +465,28 @@ export class GitHandler extends EventEmitter {
     for (const resolution of resolutions) {
       switch (resolution.strategy) {
         case 'ours':
-          await this.checkoutFile(resolution.file, '--ours')
+          await this.checkoutFile(resolution.file, 'ours')
           break
         case 'theirs':
-          await this.checkoutFile(resolution.file, '--theirs')
+          await this.checkoutFile(resolution.file, 'theirs')
           break
         case 'manual':
-          if (resolution.content) {
+          if (resolution.content !== undefined) {
+            if (hasConflictMarkers(resolution.content)) {
+              throw new Error(`${resolution.file} still has conflict markers`)
+            }
             if (electronAPI) {
               await electronAPI.fs.writeFile(`${this.cwd}/${resolution.file}`, resolution.content)
             }
           }
           break
-        case 'combine':
-          // For combine, we need to manually merge the content
-          // This would require reading both versions and combining them
+        case 'combine': {
+          // Ours followed by theirs in every region
+          const parsed = await this.readConflicts(resolution.file)
+          const content = applyResolutions(parsed, Object.fromEntries(parsed.regions.map(r => [r.index, { type: 'both' as const }])))
+          await electronAPI.fs.writeFile(`${this.cwd}/${resolution.file}`, content)
           break
+        }
       }
       
       // Stage the resolved file
@@ -323,12 +499,12 @@ export class GitHandler extends EventEmitter {
   /**
    * Checkout a specific file version
    */
-  private async checkoutFile(file: string, option: string): Promise<void> {
-    // This would need to be implemented via a raw git command
-    // For now, we'll use the terminal
-    if (electronAPI) {
-      await electronAPI.terminal.execute?.(0, `git checkout ${option} -- "${file}"`)
+  private async checkoutFile(file: string, side: 'ours' | 'theirs'): Promise<void> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
     }
+
+    await electronAPI.git.checkoutConflict(this.cwd, file, side)
   }
 
   /**
@@ -351,6 +527,83 @@ export class GitHandler extends EventEmitter {
     return message
   }
 
+  /**
+   * Ask the model for a commit message for the staged changes. With
+   * followRepoStyle the subject matches the repo's recent commits instead of
+   * plain conventional commits.
+   */
+  async generateCommitMessageFromDiff(model: CommitMessageModel, options: { followRepoStyle?: boolean } = {}): Promise<string> {
+    const diff = await this.getDiff({ staged: true })
+    if (!diff.trim()) {
+      throw new Error('No staged changes — stage files before generating a commit message')
+    }
+
+    const style = options.followRepoStyle
+      ? learnCommitStyle((await this.getLog({ maxCount: 50 }).catch(() => [])).map(commit => commit.message))
+      : null
+    const message = cleanCommitMessage(await model(buildCommitMessagePrompt(diff, style), COMMIT_MESSAGE_SYSTEM_PROMPT))
+    if (!message) throw new Error('The model returned an empty commit message')
+    return message
+  }
+
+  /**
+   * Commits and diff between HEAD and a base branch, grouped by area, with
+   * the risky spots a reviewer should look at
+   */
+  async compareWithBase(base: string): Promise<BranchComparison> {
+    if (!electronAPI) {
+      throw new Error('Git operations not available')
+    }
+
+    const [commits, diff] = await Promise.all([this.getLog({ base }), this.getDiff({ base })])
+    if (commits.length === 0 && !diff.trim()) {
+      throw new Error(`HEAD has no changes compared with ${base}`)
+    }
+    const files = parseDiffFiles(diff)
+    return {
+      base,
+      commits: commits.map(commit => commit.message),
+      diff,
+      files,
+      areas: groupChangesByArea(files),
+      risks: findRiskySpots(files),
+    }
+  }
+
+  /**
+   * Ask the model for a pull request title and body for HEAD against base, in
+   * the repo's pull request template when it has one. A reviewer checklist of
+   * the risky spots in the diff is appended to the body.
+   */
+  async generatePullRequestDescription(
+    base: string,
+    model: CommitMessageModel,
+    comparison?: BranchComparison
+  ): Promise<PullRequestDescription> {
+    const compared = comparison ?? await this.compareWithBase(base)
+    const template = await this.readPullRequestTemplate()
+    const head = (await this.getBranches().catch(() => null))?.current || 'HEAD'
+
+    const { title, body } = parsePullRequestReply(await model(buildPullRequestPrompt(compared, head, template), PR_DESCRIPTION_SYSTEM_PROMPT))
+    return {
+      title,
+      body: appendReviewerChecklist(body, buildReviewerChecklist(compared.risks)),
+      usedTemplate: template !== null,
+    }
+  }
+
+  /** The repo's pull request template, null when it has none */
+  private async readPullRequestTemplate(): Promise<string | null> {
+    for (const templatePath of PR_TEMPLATE_PATHS) {
+      try {
+        return await electronAPI.fs.readFileAsText(`${this.cwd}/${templatePath}`)
+      } catch {
+        // Not there — try the next location
+      }
+    }
+    return null
+  }
+
   /**
    * Get suggested commit type based on changed files
    */
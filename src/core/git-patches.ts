@@ -0,0 +1,204 @@
+/**
+ * Git Patches
+ *
+ * Parses `git diff` output into files, hunks and lines, and builds the partial
+ * patches the Source Control panel applies with `git apply` to stage, unstage
+ * or discard single hunks or lines.
+ *
+ * A partial patch keeps the selected changes and turns the rest into whatever
+ * the file it is applied to already contains: staging applies the unstaged
+ * diff (index → worktree) forward to the index, so an unselected removal stays
+ * as context and an unselected addition is left out. Unstaging and discarding
+ * apply a diff in reverse, so the rules flip — an unselected addition is
+ * already in the target and stays as context, an unselected removal isn't and
+ * is left out.
+ *
+ * Kept free of Node imports — used by the renderer.
+ *
+ * @module core/git-patches
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove'
+  text: string
+  /** Followed by "\ No newline at end of file" */
+  noNewline?: boolean
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  /** Text after the second @@, usually the enclosing function */
+  section: string
+  lines: DiffLine[]
+}
+
+export interface FileDiff {
+  path: string
+  /** Path before a rename */
+  oldPath: string
+  /** Lines from `diff --git` up to the first hunk */
+  header: string[]
+  hunks: DiffHunk[]
+  binary: boolean
+  isNew: boolean
+  isDeleted: boolean
+  isRename: boolean
+}
+
+/** How a partial patch is used — staging applies it forward, unstage and discard in reverse */
+export type PatchAction = 'stage' | 'unstage' | 'discard'
+
+/** Hunks to include, optionally narrowed to some of their changed lines (indexes into hunk.lines) */
+export type PatchSelection = Array<{ hunk: number; lines?: number[] }>
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/
+
+/**
+ * Parse `git diff` output into files
+ */
+export function parseGitDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = []
+  let file: FileDiff | null = null
+  let hunk: DiffHunk | null = null
+  let oldLeft = 0
+  let newLeft = 0
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const paths = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+      file = {
+        path: paths?.[2] ?? '',
+        oldPath: paths?.[1] ?? '',
+        header: [line],
+        hunks: [],
+        binary: false,
+        isNew: false,
+        isDeleted: false,
+        isRename: false,
+      }
+      files.push(file)
+      hunk = null
+      continue
+    }
+    if (!file) continue
+
+    const header: RegExpMatchArray | null = hunk && (oldLeft > 0 || newLeft > 0) ? null : line.match(HUNK_HEADER)
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        section: header[5],
+        lines: [],
+      }
+      oldLeft = hunk.oldLines
+      newLeft = hunk.newLines
+      file.hunks.push(hunk)
+      continue
+    }
+
+    if (!hunk) {
+      file.header.push(line)
+      if (line.startsWith('new file mode')) file.isNew = true
+      else if (line.startsWith('deleted file mode')) file.isDeleted = true
+      else if (line.startsWith('rename from ')) { file.isRename = true; file.oldPath = line.slice('rename from '.length) }
+      else if (line.startsWith('rename to ')) file.path = line.slice('rename to '.length)
+      else if (line.startsWith('Binary files ') || line === 'GIT binary patch') file.binary = true
+      else if (line.startsWith('--- ') && line !== '--- /dev/null') file.oldPath = line.replace(/^--- (a\/)?/, '')
+      else if (line.startsWith('+++ ') && line !== '+++ /dev/null') file.path = line.replace(/^\+\+\+ (b\/)?/, '')
+      continue
+    }
+
+    if (line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1]
+      if (last) last.noNewline = true
+    } else if (oldLeft > 0 || newLeft > 0) {
+      // Trailing whitespace may have been trimmed from a blank context line
+      const type = line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : 'context'
+      hunk.lines.push({ type, text: line.slice(1) })
+      if (type !== 'add') oldLeft--
+      if (type !== 'remove') newLeft--
+    }
+  }
+  return files
+}
+
+/**
+ * Whether a file's changes can be split into hunks and lines; new, deleted,
+ * renamed and binary files are staged whole
+ */
+export function supportsPartialStaging(file: FileDiff): boolean {
+  return !file.binary && !file.isNew && !file.isDeleted && !file.isRename && file.hunks.length > 0
+}
+
+// =============================================================================
+// Partial Patches
+// =============================================================================
+
+// An empty range's start is the line before it
+const firstLine = (start: number, count: number) => (count > 0 ? start : start + 1)
+const rangeStart = (first: number, count: number) => (count > 0 ? first : first - 1)
+
+/**
+ * Build a patch with just the selected hunks and lines of a file, for
+ * `git apply` (stage) or `git apply --reverse` (unstage, discard). Null when
+ * nothing selected changes the file.
+ */
+export function buildPartialPatch(file: FileDiff, selection: PatchSelection, action: PatchAction): string | null {
+  const reverse = action !== 'stage'
+  const body: string[] = []
+  // Hunk starts on the side the patch is applied to stay as in the diff; the other side shifts by earlier hunks
+  let shift = 0
+
+  for (const { hunk: index, lines: chosen } of [...selection].sort((a, b) => a.hunk - b.hunk)) {
+    const hunk = file.hunks[index]
+    if (!hunk) continue
+    const selected = new Set(chosen ?? hunk.lines.map((_, i) => i))
+
+    const out: string[] = []
+    let oldLines = 0
+    let newLines = 0
+    let changes = 0
+    hunk.lines.forEach((line, i) => {
+      let type = line.type
+      if (type !== 'context' && !selected.has(i)) {
+        // Lines already in the target stay as context; the others are left out
+        const inTarget = reverse ? type === 'add' : type === 'remove'
+        if (!inTarget) return
+        type = 'context'
+      }
+      if (type !== 'context') changes++
+      if (type !== 'add') oldLines++
+      if (type !== 'remove') newLines++
+      out.push(`${type === 'add' ? '+' : type === 'remove' ? '-' : ' '}${line.text}`)
+      if (line.noNewline) out.push('\\ No newline at end of file')
+    })
+    if (changes === 0) continue
+
+    const oldStart = reverse ? rangeStart(firstLine(hunk.newStart, newLines) + shift, oldLines) : hunk.oldStart
+    const newStart = reverse ? hunk.newStart : rangeStart(firstLine(hunk.oldStart, oldLines) + shift, newLines)
+    shift += reverse ? oldLines - newLines : newLines - oldLines
+    const section = hunk.section ? ` ${hunk.section}` : ''
+    body.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@${section}`, ...out)
+  }
+
+  if (body.length === 0) return null
+  return `${[...file.header, ...body].join('\n')}\n`
+}
+
+/** Indexes of a hunk's added and removed lines */
+export function changedLineIndexes(hunk: DiffHunk): number[] {
+  return hunk.lines.flatMap((line, i) => (line.type === 'context' ? [] : [i]))
+}
@@ -0,0 +1,144 @@
+/**
+ * Git Snapshot Store
+ *
+ * Writes and restores the snapshots described in git-snapshots.ts. A snapshot
+ * is built like `git stash` does it, without touching the checkout: the
+ * working tree is added to a throwaway copy of the index, so untracked files
+ * are kept too, and committed on top of HEAD with the real index as second
+ * parent. Shared by the Electron main process and the CLI — not for the
+ * renderer (runs git with child_process).
+ */
+
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { promisify } from 'util'
+import {
+  SNAPSHOT_REF_PREFIX,
+  cleansIgnoredFiles,
+  formatSnapshotMessage,
+  parseSnapshotRefs,
+  type GitSnapshot,
+} from './git-snapshots'
+
+const execFileAsync = promisify(execFile)
+
+// Snapshot commits are the app's, not the user's — and must work without a configured identity
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'AIBuddy',
+  GIT_AUTHOR_EMAIL: 'aibuddy@localhost',
+  GIT_COMMITTER_NAME: 'AIBuddy',
+  GIT_COMMITTER_EMAIL: 'aibuddy@localhost',
+}
+
+const LIST_FORMAT = '%(refname)%00%(objectname)%00%(parent)%00%(creatordate:unix)%00%(contents)%1e'
+
+export class GitSnapshotStore {
+  private readonly cwd: string
+
+  /** @param cwd - any folder inside the repository */
+  constructor(cwd: string) {
+    this.cwd = cwd
+  }
+
+  /**
+   * Save the working tree, index and HEAD under refs/aibuddy/snapshots/.
+   * Ignored files are left out unless `reason` is a `git clean -x`/`-X`,
+   * which deletes them.
+   */
+  async create(reason: string): Promise<GitSnapshot> {
+    const root = await this.git(this.cwd, ['rev-parse', '--show-toplevel'])
+    const head = await this.git(root, ['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => null)
+    const branch = await this.git(root, ['symbolic-ref', '--short', '--quiet', 'HEAD']).catch(() => null)
+    const parents = head ? ['-p', head] : []
+
+    // Unmerged entries can't be written as a tree; the snapshot then keeps HEAD's index
+    const indexTree = await this.git(root, ['write-tree']).catch(() => null)
+    const indexCommit = indexTree
+      ? await this.git(root, ['commit-tree', indexTree, ...parents, '-m', 'index'], { env: SNAPSHOT_IDENTITY })
+      : null
+
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-snapshot-'))
+    let tree: string
+    try {
+      const tmpIndex = path.join(tmpDir, 'index')
+      const realIndex = path.resolve(root, await this.git(root, ['rev-parse', '--git-path', 'index']))
+      if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, tmpIndex)
+      const env = { GIT_INDEX_FILE: tmpIndex }
+      const force = cleansIgnoredFiles(reason) ? ['--force'] : []
+      await this.git(root, ['add', '--all', ...force, '--', '.'], { env })
+      tree = await this.git(root, ['write-tree'], { env })
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+
+    const commit = await this.git(root, [
+      'commit-tree', tree, ...parents, ...(indexCommit ? ['-p', indexCommit] : []),
+      '-m', formatSnapshotMessage(reason, branch),
+    ], { env: SNAPSHOT_IDENTITY })
+    const id = `${Date.now()}-${commit.slice(0, 7)}`
+    await this.git(root, ['update-ref', '-m', 'aibuddy snapshot', `${SNAPSHOT_REF_PREFIX}${id}`, commit])
+
+    const created = await this.get(id)
+    if (!created) throw new Error(`Snapshot ${id} was not saved`)
+    return created
+  }
+
+  /**
+   * Snapshots of the repository, newest first
+   */
+  async list(): Promise<GitSnapshot[]> {
+    const root = await this.git(this.cwd, ['rev-parse', '--show-toplevel'])
+    return parseSnapshotRefs(await this.git(root, ['for-each-ref', `--format=${LIST_FORMAT}`, SNAPSHOT_REF_PREFIX], { trim: false }))
+  }
+
+  async get(id: string): Promise<GitSnapshot | null> {
+    return (await this.list()).find(s => s.id === id) ?? null
+  }
+
+  /**
+   * Put back the snapshot's branch, HEAD, working tree and index. The current
+   * state is snapshotted first, so a restore can itself be undone — that
+   * snapshot is returned.
+   */
+  async restore(id: string): Promise<GitSnapshot> {
+    const snapshot = await this.get(id)
+    if (!snapshot) throw new Error(`Snapshot ${id} not found`)
+    const root = await this.git(this.cwd, ['rev-parse', '--show-toplevel'])
+    const backup = await this.create(`before restoring "${snapshot.reason}"`)
+
+    if (snapshot.head) {
+      await this.git(root, snapshot.branch
+        ? ['checkout', '-q', '-f', '-B', snapshot.branch, snapshot.head]
+        : ['checkout', '-q', '-f', '--detach', snapshot.head])
+    }
+    // Working tree from the snapshot (files it doesn't have are removed), then the index it had
+    await this.git(root, ['read-tree', '-u', '--reset', snapshot.commit])
+    const indexParent = await this.git(root, ['rev-parse', '--verify', '--quiet', `${snapshot.commit}^2`]).catch(() => null)
+    const index = indexParent ?? snapshot.head
+    if (index) await this.git(root, ['read-tree', index])
+    else await this.git(root, ['read-tree', '--empty'])
+    return backup
+  }
+
+  async delete(id: string): Promise<void> {
+    const root = await this.git(this.cwd, ['rev-parse', '--show-toplevel'])
+    await this.git(root, ['update-ref', '-d', `${SNAPSHOT_REF_PREFIX}${id}`])
+  }
+
+  private async git(cwd: string, args: string[], options: { trim?: boolean; env?: Record<string, string> } = {}): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+        maxBuffer: 10 * 1024 * 1024,
+        windowsHide: true,
+      })
+      return options.trim === false ? stdout : stdout.trim()
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(stderr || (error as Error).message)
+    }
+  }
+}
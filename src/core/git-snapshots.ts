@@ -0,0 +1,144 @@
+/**
+ * Git Snapshots
+ *
+ * Before the agent runs a git command that throws work away — `reset --hard`,
+ * `checkout -- .`, `clean`, `rebase` or a force push — the working tree is
+ * saved as a stash-like commit under refs/aibuddy/snapshots/, untracked files
+ * included, so the Recover list in the git panel can bring it back.
+ *
+ * This module finds the risky commands and reads snapshot refs; it has no Node
+ * APIs so the renderer can use it. Snapshots are written by GitSnapshotStore
+ * (git-snapshot-store.ts) in the main process and the CLI.
+ */
+
+import { collectSegments, parseShell, unwrapCommand } from '../agent/shell-parser'
+
+export const SNAPSHOT_REF_PREFIX = 'refs/aibuddy/snapshots/'
+
+/** Subject line prefix of snapshot commits */
+export const SNAPSHOT_SUBJECT_PREFIX = 'aibuddy snapshot: '
+
+export interface GitSnapshot {
+  /** Last path component of the ref */
+  id: string
+  ref: string
+  /** Snapshot commit: its tree is the working tree, untracked files included */
+  commit: string
+  /** What the snapshot was taken for, usually the command about to run */
+  reason: string
+  /** Branch checked out at the time, null when HEAD was detached */
+  branch: string | null
+  /** Commit HEAD pointed at, null in a repository without commits */
+  head: string | null
+  createdAt: number
+}
+
+/** Takes a snapshot of the repository `cwd` is in — electronAPI.snapshots in the app */
+export interface GitSnapshotter {
+  create(cwd: string, reason: string): Promise<GitSnapshot>
+}
+
+// git options that take the next word as their value
+const GIT_OPTIONS_WITH_VALUE = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace'])
+
+/** Subcommand and its arguments, skipping git's own options */
+function gitInvocation(words: string[]): { subcommand: string; args: string[] } | null {
+  if (words[0] !== 'git') return null
+  for (let i = 1; i < words.length; i++) {
+    if (GIT_OPTIONS_WITH_VALUE.has(words[i])) i++
+    else if (!words[i].startsWith('-')) return { subcommand: words[i], args: words.slice(i + 1) }
+  }
+  return null
+}
+
+/** Short flags may be bundled: `-fd`, `-uf` */
+function hasFlag(args: string[], short: string, ...long: string[]): boolean {
+  return args.some(arg =>
+    long.some(name => arg === name || arg.startsWith(`${name}=`)) ||
+    (/^-[a-zA-Z]+$/.test(arg) && arg.includes(short))
+  )
+}
+
+function isDestructive({ subcommand, args }: { subcommand: string; args: string[] }): boolean {
+  switch (subcommand) {
+    case 'reset':
+      return args.includes('--hard')
+    case 'checkout': {
+      // Discarding paths (`checkout -- .`, `checkout .`) or a forced switch, not a plain branch switch
+      const separator = args.indexOf('--')
+      return (separator >= 0 && separator < args.length - 1) || args.includes('.') || hasFlag(args, 'f', '--force')
+    }
+    case 'restore':
+      // --staged alone only touches the index
+      return !hasFlag(args, 'S', '--staged') || hasFlag(args, 'W', '--worktree')
+    case 'clean':
+      return !hasFlag(args, 'n', '--dry-run')
+    case 'rebase':
+      return true
+    case 'push':
+      return hasFlag(args, 'f', '--force', '--force-with-lease', '--force-if-includes') ||
+        args.some(arg => arg.startsWith('+'))
+    default:
+      return false
+  }
+}
+
+/** Each simple command in a command line, wrappers stripped */
+function commandParts(command: string): string[][] {
+  try {
+    return collectSegments(parseShell(command)).map(segment => unwrapCommand(segment.command.words))
+  } catch {
+    // Unparseable commands are checked as a whole
+    return [command.trim().split(/\s+/)]
+  }
+}
+
+/**
+ * The git command in a command line that can destroy work and needs a
+ * snapshot first, e.g. `git reset --hard` in `npm test && git reset --hard`.
+ * Null when there is none.
+ */
+export function findDestructiveGitCommand(command: string): string | null {
+  for (const words of commandParts(command)) {
+    const invocation = gitInvocation(words)
+    if (invocation && isDestructive(invocation)) return words.join(' ')
+  }
+  return null
+}
+
+/**
+ * Whether a command line runs `git clean -x` or `-X`, which deletes ignored
+ * files too — the snapshot taken before it has to include them
+ */
+export function cleansIgnoredFiles(command: string): boolean {
+  return commandParts(command).some(words => {
+    const invocation = gitInvocation(words)
+    return invocation?.subcommand === 'clean' && (hasFlag(invocation.args, 'x') || hasFlag(invocation.args, 'X'))
+  })
+}
+
+export function formatSnapshotMessage(reason: string, branch: string | null): string {
+  return `${SNAPSHOT_SUBJECT_PREFIX}${reason.split('\n')[0]}\n\nBranch: ${branch ?? '(detached)'}\n`
+}
+
+/**
+ * Parse `git for-each-ref` output in the format GitSnapshotStore asks for:
+ * records separated by \x1e, fields by NUL — ref, commit, first parent,
+ * unix time, message. Newest first.
+ */
+export function parseSnapshotRefs(output: string): GitSnapshot[] {
+  return output.split('\x1e').map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+    const [ref, commit, parents, time, message = ''] = record.split('\0')
+    const [subject, ...body] = message.split('\n')
+    const branch = body.map(line => /^Branch: (.+)$/.exec(line)?.[1]).find(Boolean)
+    return {
+      id: ref.slice(SNAPSHOT_REF_PREFIX.length),
+      ref,
+      commit,
+      reason: subject.startsWith(SNAPSHOT_SUBJECT_PREFIX) ? subject.slice(SNAPSHOT_SUBJECT_PREFIX.length) : subject,
+      branch: branch && branch !== '(detached)' ? branch : null,
+      head: parents.split(' ')[0] || null,
+      createdAt: Number(time) * 1000,
+    }
+  }).sort((a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id))
+}
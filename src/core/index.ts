@@ -12,16 +12,122 @@ export {
   type AgentConfig,
   type AgentState,
   type AgentMessage,
-  type ToolUse
+  type ToolUse,
+  type CheckpointContext,
+  type ToolPermissionRequest
 } from './agent-adapter'
 
 export {
   GitHandler,
   createGitHandler,
+  MergeConflictError,
   type GitStatus,
   type GitCommit,
   type GitBranch,
   type GitDiff,
-  type ConflictResolution
+  type ConflictResolution,
+  type MergeState
 } from './git-handler'
 
+export {
+  buildCommitMessagePrompt,
+  cleanCommitMessage,
+  learnCommitStyle,
+  summarizeDiff,
+  parseDiffFiles,
+  COMMIT_MESSAGE_SYSTEM_PROMPT,
+  type CommitStyle,
+  type CommitMessageModel,
+  type DiffFile
+} from './commit-message'
+
+export {
+  parseGitDiff,
+  buildPartialPatch,
+  supportsPartialStaging,
+  changedLineIndexes,
+  type FileDiff,
+  type DiffHunk,
+  type DiffLine,
+  type PatchAction,
+  type PatchSelection
+} from './git-patches'
+
+export {
+  parseConflicts,
+  applyResolutions,
+  resolvedLines,
+  hasConflictMarkers,
+  buildMergePrompt,
+  parseMergeReply,
+  MERGE_SYSTEM_PROMPT,
+  ConflictParseError,
+  type ConflictRegion,
+  type ConflictSegment,
+  type ParsedConflictFile,
+  type RegionResolution
+} from './merge-conflicts'
+
+export {
+  findDestructiveGitCommand,
+  parseSnapshotRefs,
+  SNAPSHOT_REF_PREFIX,
+  type GitSnapshot,
+  type GitSnapshotter
+} from './git-snapshots'
+
+export {
+  baseBranchOptions,
+  changeArea,
+  groupChangesByArea,
+  findRiskySpots,
+  buildReviewerChecklist,
+  appendReviewerChecklist,
+  buildPullRequestPrompt,
+  parsePullRequestReply,
+  PR_TEMPLATE_PATHS,
+  PR_DESCRIPTION_SYSTEM_PROMPT,
+  type BranchComparison,
+  type ChangeArea,
+  type PullRequestDescription,
+  type RiskySpot
+} from './pull-request'
+
+
+export {
+  applySearchReplace,
+  applyUnifiedDiff,
+  parseUnifiedDiff,
+  formatEditResult,
+  FileEditError,
+  type SearchReplaceBlock,
+  type EditedRange,
+  type FileEditResult,
+  type FileEditErrorCode
+} from './file-edits'
+
+export {
+  searchContent,
+  globToRegExp,
+  matchesGlob,
+  parseGitignore,
+  type ContentSearchOptions
+} from './content-search'
+
+export {
+  formatSearchResults,
+  type ContentSearchResult,
+  type ContentSearchFile,
+  type ContentSearchLine
+} from './search-results'
+
+export {
+  BpeTokenizer,
+  getTokenizer,
+  countTokens,
+  countMessageTokens,
+  countContextTokens,
+  IMAGE_TOKEN_ESTIMATE,
+  type ContextParts,
+  type TokenBreakdown
+} from './tokenizer'
@@ -0,0 +1,198 @@
+/**
+ * Merge Conflicts
+ *
+ * Parses the conflict markers git leaves in a file into ours / base / theirs
+ * regions, writes the file back once every region has a resolution, and builds
+ * the prompt for asking the model to merge a single region.
+ *
+ *   <<<<<<< HEAD            ← ours
+ *   ||||||| merged common ancestors   ← base (merge.conflictStyle=diff3)
+ *   =======
+ *   >>>>>>> origin/main     ← theirs
+ *
+ * Kept free of Node imports — used by the renderer.
+ *
+ * @module core/merge-conflicts
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ConflictRegion {
+  /** Position among the file's conflicts */
+  index: number
+  ours: string[]
+  /** Common ancestor — only with diff3-style markers */
+  base: string[] | null
+  theirs: string[]
+  oursLabel: string
+  theirsLabel: string
+  /** Unchanged lines just before and after the region, for display and the merge prompt */
+  before: string[]
+  after: string[]
+}
+
+export type ConflictSegment =
+  | { type: 'text'; lines: string[] }
+  | { type: 'conflict'; region: ConflictRegion }
+
+export interface ParsedConflictFile {
+  segments: ConflictSegment[]
+  regions: ConflictRegion[]
+  /** Line ending the file uses, kept when it is written back */
+  eol: '\n' | '\r\n'
+  /** Whether the file ended with a line ending */
+  finalNewline: boolean
+}
+
+export type RegionResolution =
+  | { type: 'ours' }
+  | { type: 'theirs' }
+  | { type: 'both' }
+  | { type: 'custom'; lines: string[]; explanation?: string }
+
+/** Thrown when conflict markers are unbalanced and the file can't be split into regions */
+export class ConflictParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(message)
+    this.name = 'ConflictParseError'
+  }
+}
+
+const CONTEXT_LINES = 3
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** Whether content still has conflict markers */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}(?: |$)/m.test(content) && /^>{7}(?: |$)/m.test(content)
+}
+
+/**
+ * Split a conflicted file into unchanged text and conflict regions
+ */
+export function parseConflicts(content: string): ParsedConflictFile {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const finalNewline = content.endsWith('\n')
+  const lines = content.split(/\r?\n/)
+  if (finalNewline) lines.pop()
+
+  const segments: ConflictSegment[] = []
+  const regions: ConflictRegion[] = []
+  let text: string[] = []
+  let region: ConflictRegion | null = null
+  let side: 'ours' | 'base' | 'theirs' = 'ours'
+  let start = 0
+
+  lines.forEach((line, i) => {
+    const marker = line.match(/^(<{7}|\|{7}|={7}|>{7})(?: (.*))?$/)
+    if (!marker) {
+      if (!region) text.push(line)
+      else if (side === 'base') region.base!.push(line)
+      else region[side].push(line)
+      return
+    }
+
+    const [, kind, label = ''] = marker
+    if (kind === '<<<<<<<') {
+      if (region) throw new ConflictParseError('Conflict starts inside another conflict', i + 1)
+      if (text.length) segments.push({ type: 'text', lines: text })
+      region = { index: regions.length, ours: [], base: null, theirs: [], oursLabel: label, theirsLabel: '', before: text.slice(-CONTEXT_LINES), after: [] }
+      text = []
+      side = 'ours'
+      start = i + 1
+    } else if (!region) {
+      // A stray marker outside a conflict is ordinary text (e.g. a divider in a markdown file)
+      text.push(line)
+    } else if (kind === '|||||||' && side === 'ours') {
+      region.base = []
+      side = 'base'
+    } else if (kind === '=======' && side !== 'theirs') {
+      side = 'theirs'
+    } else if (kind === '>>>>>>>' && side === 'theirs') {
+      region.theirsLabel = label
+      segments.push({ type: 'conflict', region })
+      regions.push(region)
+      region = null
+    } else {
+      throw new ConflictParseError(`Unexpected ${kind} in the conflict that starts on line ${start}`, i + 1)
+    }
+  })
+
+  if (region) throw new ConflictParseError(`Conflict on line ${start} has no closing >>>>>>> marker`, start)
+  if (text.length) segments.push({ type: 'text', lines: text })
+
+  // Context after each region is the text that follows it
+  segments.forEach((segment, i) => {
+    const next = segments[i + 1]
+    if (segment.type === 'conflict' && next?.type === 'text') segment.region.after = next.lines.slice(0, CONTEXT_LINES)
+  })
+
+  return { segments, regions, eol, finalNewline }
+}
+
+// =============================================================================
+// Resolving
+// =============================================================================
+
+/** The lines a resolution puts in place of a region */
+export function resolvedLines(region: ConflictRegion, resolution: RegionResolution): string[] {
+  switch (resolution.type) {
+    case 'ours': return region.ours
+    case 'theirs': return region.theirs
+    case 'both': return [...region.ours, ...region.theirs]
+    case 'custom': return resolution.lines
+  }
+}
+
+/**
+ * The file content with every region replaced by its resolution
+ */
+export function applyResolutions(file: ParsedConflictFile, resolutions: Record<number, RegionResolution>): string {
+  const missing = file.regions.filter(region => !resolutions[region.index])
+  if (missing.length > 0) {
+    throw new Error(`${missing.length} conflict(s) still need a resolution`)
+  }
+  const lines = file.segments.flatMap(segment =>
+    segment.type === 'text' ? segment.lines : resolvedLines(segment.region, resolutions[segment.region.index])
+  )
+  return lines.join(file.eol) + (file.finalNewline && lines.length > 0 ? file.eol : '')
+}
+
+// =============================================================================
+// Merging With the Model
+// =============================================================================
+
+export const MERGE_SYSTEM_PROMPT =
+  'You resolve git merge conflicts. Combine both sides so that neither side\'s intent is lost, unless they truly contradict — then pick one and say why. ' +
+  'Never add code that is in neither side.'
+
+/**
+ * Prompt asking the model to merge one conflict region
+ */
+export function buildMergePrompt(filePath: string, region: ConflictRegion): string {
+  const block = (lines: string[]) => `\`\`\`\n${lines.join('\n')}\n\`\`\``
+  return [
+    `Resolve this merge conflict in ${filePath}.`,
+    region.before.length ? `Code before the conflict:\n${block(region.before)}` : '',
+    `Ours (${region.oursLabel || 'current branch'}):\n${block(region.ours)}`,
+    region.base ? `Common ancestor:\n${block(region.base)}` : '',
+    `Theirs (${region.theirsLabel || 'incoming'}):\n${block(region.theirs)}`,
+    region.after.length ? `Code after the conflict:\n${block(region.after)}` : '',
+    'Reply with the merged lines that replace the conflict in one fenced code block (without the surrounding code), then one to three sentences explaining what you kept from each side and why.',
+  ].filter(Boolean).join('\n\n')
+}
+
+/**
+ * The merged lines and explanation from the model's reply
+ */
+export function parseMergeReply(reply: string): { lines: string[]; explanation: string } {
+  const fence = reply.match(/```[\w+-]*\n([\s\S]*?)\n?```/)
+  if (!fence) throw new Error('The model did not return merged code')
+  const code = fence[1]
+  const explanation = (reply.slice(0, fence.index) + reply.slice(fence.index! + fence[0].length)).trim()
+  return { lines: code === '' ? [] : code.split('\n'), explanation }
+}
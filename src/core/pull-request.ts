@@ -0,0 +1,271 @@
+/**
+ * Pull Requests
+ *
+ * Compares HEAD with a base branch and builds what a pull request needs: the
+ * changed files grouped by area, risky spots found in the diff, a reviewer
+ * checklist made from them, and the prompt that asks the model for a title and
+ * body — filled into the repo's pull request template when it has one.
+ *
+ * Kept free of Node imports — used by the renderer.
+ *
+ * @module core/pull-request
+ */
+
+import { summarizeDiff, type DiffFile } from './commit-message'
+
+// =============================================================================
+// Types & Constants
+// =============================================================================
+
+export interface ChangeArea {
+  /** Top-level folder like "src/core", or Tests, Docs, Build & config */
+  name: string
+  files: DiffFile[]
+  additions: number
+  deletions: number
+}
+
+export interface RiskySpot {
+  /** Null for findings about the change as a whole */
+  path: string | null
+  /** Line in the new version of the file */
+  line?: number
+  reason: string
+  level: 'high' | 'medium'
+}
+
+export interface BranchComparison {
+  base: string
+  /** Subjects of the commits on HEAD that aren't on the base, newest first */
+  commits: string[]
+  diff: string
+  files: DiffFile[]
+  areas: ChangeArea[]
+  risks: RiskySpot[]
+}
+
+export interface PullRequestDescription {
+  title: string
+  /** Markdown body, reviewer checklist included */
+  body: string
+  /** True when the body follows the repo's pull request template */
+  usedTemplate: boolean
+}
+
+/** Where GitHub looks for a pull request template, in order */
+export const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+]
+
+/** Bases offered first, when the repo has them */
+const PREFERRED_BASES = ['origin/main', 'origin/master', 'origin/develop', 'main', 'master', 'develop']
+
+/** Folders that only hold other folders — the area is named after the one below */
+const CONTAINER_DIRS = new Set(['src', 'lib', 'app', 'apps', 'packages', 'pkg', 'internal'])
+
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec|e2e)\/|\.(test|spec)\.[cm]?[jt]sx?$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$/
+const DOC_FILE = /(^|\/)docs?\/|\.(md|mdx|rst|adoc)$/i
+// CI and repo settings, and root files that aren't source code (package.json, tsconfig.json, vite.config.ts, Dockerfile)
+const CONFIG_FILE = /^\.github\/|^[^/]+\.config\.[cm]?[jt]s$|^(?![^/]+\.([cm]?[jt]sx?|py|go|rs|java|kt|rb|php|cs|swift)$)[^/]+$/
+
+/** Larger files are worth a note that they may need reviewing in parts */
+const LARGE_FILE_LINES = 400
+
+const FILE_RISKS: Array<{ pattern: RegExp; reason: string; level: RiskySpot['level'] }> = [
+  { pattern: /(^|\/)\.env(\.[^/]*)?$|\.(pem|key|p12|pfx)$/, reason: 'Secrets or environment file changed', level: 'high' },
+  { pattern: /(^|\/)migrations?\/|\.sql$/, reason: 'Database migration — check it is reversible and safe on existing data', level: 'high' },
+  { pattern: /(^|\/)(auth|security|crypto|permissions?|session)[^/]*(\/|\.)/i, reason: 'Authentication or security code changed', level: 'high' },
+  { pattern: /^\.github\/workflows\/|(^|\/)(\.gitlab-ci\.yml|Jenkinsfile|azure-pipelines\.yml)$/, reason: 'CI pipeline changed', level: 'medium' },
+  { pattern: /(^|\/)(package\.json|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|requirements[^/]*\.txt|Pipfile\.lock|poetry\.lock|go\.mod|go\.sum|Cargo\.toml|Cargo\.lock|Gemfile\.lock|composer\.lock)$/, reason: 'Dependencies changed', level: 'medium' },
+]
+
+const LINE_RISKS: Array<{ pattern: RegExp; reason: string; level: RiskySpot['level'] }> = [
+  { pattern: /\b(api[_-]?key|secret|password|passwd|token)\w*["']?\s*[:=]\s*["'][^"'\s]{8,}["']/i, reason: 'Possible hard-coded secret', level: 'high' },
+  { pattern: /\beval\(|\bnew Function\(/, reason: 'Evaluates code at runtime', level: 'high' },
+  { pattern: /dangerouslySetInnerHTML|\.innerHTML\s*=|\.outerHTML\s*=/, reason: 'Injects raw HTML', level: 'high' },
+  { pattern: /\b(describe|it|test)\.only\(/, reason: 'Focused test left in — the rest of the suite is skipped', level: 'high' },
+  { pattern: /child_process|\bexecSync?\(|\bspawnSync?\(/, reason: 'Runs shell commands', level: 'medium' },
+  { pattern: /\brm -rf\b|--force\b|--no-verify\b/, reason: 'Forced or destructive command', level: 'medium' },
+  { pattern: /@ts-ignore|@ts-expect-error|eslint-disable|# type: ignore|noqa/, reason: 'Type or lint check suppressed', level: 'medium' },
+  { pattern: /\b(TODO|FIXME|HACK|XXX)\b/, reason: 'Unfinished work marked', level: 'medium' },
+  { pattern: /\bconsole\.log\(|\bdebugger\b|\bprint\(/, reason: 'Debug output left in', level: 'medium' },
+]
+
+export const PR_DESCRIPTION_SYSTEM_PROMPT =
+  'You write pull request descriptions from commits and diffs. Describe what the change does and why, based only on what you are given. ' +
+  'Reply with the title and the description only — no commentary.'
+
+// =============================================================================
+// Branches
+// =============================================================================
+
+/**
+ * Branches to compare against, from `git branch -a` names: remotes without
+ * their `remotes/` prefix, the current branch and `HEAD ->` aliases left out,
+ * likely bases first
+ */
+export function baseBranchOptions(branches: string[], current: string): string[] {
+  const names = [...new Set(branches
+    .filter(name => !name.includes(' -> ') && !name.startsWith('('))
+    .map(name => name.replace(/^remotes\//, ''))
+    .filter(name => name && name !== current && name !== `origin/${current}`))]
+  const rank = (name: string) => {
+    const preferred = PREFERRED_BASES.indexOf(name)
+    return preferred === -1 ? PREFERRED_BASES.length : preferred
+  }
+  return names.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+}
+
+// =============================================================================
+// Areas & Risks
+// =============================================================================
+
+/**
+ * The area a file belongs to: tests, docs and root config get their own,
+ * everything else is named after its top folder ("src/core", "electron")
+ */
+export function changeArea(path: string): string {
+  if (TEST_FILE.test(path)) return 'Tests'
+  if (DOC_FILE.test(path)) return 'Docs'
+  if (CONFIG_FILE.test(path)) return 'Build & config'
+  const dirs = path.split('/').slice(0, -1)
+  if (dirs.length === 0) return '(root)'
+  return CONTAINER_DIRS.has(dirs[0]) && dirs.length > 1 ? `${dirs[0]}/${dirs[1]}` : dirs[0]
+}
+
+/**
+ * Changed files grouped by area, biggest area first
+ */
+export function groupChangesByArea(files: DiffFile[]): ChangeArea[] {
+  const areas = new Map<string, ChangeArea>()
+  for (const file of files) {
+    const name = changeArea(file.path)
+    const area = areas.get(name) ?? { name, files: [], additions: 0, deletions: 0 }
+    area.files.push(file)
+    area.additions += file.additions
+    area.deletions += file.deletions
+    areas.set(name, area)
+  }
+  return [...areas.values()].sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions) || a.name.localeCompare(b.name))
+}
+
+/** Added lines of a file's patch with their line numbers in the new file */
+function addedLines(patch: string): Array<{ line: number; text: string }> {
+  const added: Array<{ line: number; text: string }> = []
+  let line = 0
+  let inHunk = false
+  for (const text of patch.split('\n')) {
+    const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (hunk) {
+      line = Number(hunk[1])
+      inHunk = true
+    } else if (!inHunk || text.startsWith('\\')) {
+      continue
+    } else if (text.startsWith('+')) {
+      added.push({ line: line++, text: text.slice(1) })
+    } else if (!text.startsWith('-')) {
+      line++
+    }
+  }
+  return added
+}
+
+/**
+ * Spots in the diff a reviewer should look at closely — sensitive files,
+ * deleted and very large files, and added lines matching risky patterns
+ * (first match per pattern and file). High-risk spots come first.
+ */
+export function findRiskySpots(files: DiffFile[]): RiskySpot[] {
+  const spots: RiskySpot[] = []
+  for (const file of files) {
+    for (const risk of FILE_RISKS) {
+      if (risk.pattern.test(file.path)) spots.push({ path: file.path, reason: risk.reason, level: risk.level })
+    }
+    if (/^deleted file mode/m.test(file.patch)) {
+      spots.push({ path: file.path, reason: 'File deleted — check nothing still uses it', level: 'medium' })
+    }
+    if (file.additions + file.deletions > LARGE_FILE_LINES) {
+      spots.push({ path: file.path, reason: `Large change (+${file.additions} −${file.deletions})`, level: 'medium' })
+    }
+    if (file.binary || TEST_FILE.test(file.path) || DOC_FILE.test(file.path)) continue
+
+    const lines = addedLines(file.patch)
+    for (const risk of LINE_RISKS) {
+      const match = lines.find(({ text }) => risk.pattern.test(text))
+      if (match) spots.push({ path: file.path, line: match.line, reason: risk.reason, level: risk.level })
+    }
+  }
+
+  const code = files.filter(f => !TEST_FILE.test(f.path) && !DOC_FILE.test(f.path) && !CONFIG_FILE.test(f.path))
+  if (code.length > 0 && !files.some(f => TEST_FILE.test(f.path))) {
+    spots.push({ path: null, reason: `${code.length} source file(s) changed without test changes — check the change is covered`, level: 'medium' })
+  }
+  return spots.sort((a, b) => (a.level === b.level ? 0 : a.level === 'high' ? -1 : 1))
+}
+
+/**
+ * Reviewer checklist items for the risky spots
+ */
+export function buildReviewerChecklist(risks: RiskySpot[]): string[] {
+  return risks.map(risk => {
+    const where = risk.path ? `\`${risk.path}${risk.line ? `:${risk.line}` : ''}\` — ` : ''
+    return `${risk.level === 'high' ? '**High risk:** ' : ''}${where}${risk.reason}`
+  })
+}
+
+/**
+ * The body with a "Reviewer checklist" section of unticked items appended
+ */
+export function appendReviewerChecklist(body: string, checklist: string[]): string {
+  const items = checklist.length > 0
+    ? checklist.map(item => `- [ ] ${item}`).join('\n')
+    : 'No risky spots found in the diff.'
+  return `${body.trim()}\n\n## Reviewer checklist\n\n${items}\n`
+}
+
+// =============================================================================
+// Prompt & Reply
+// =============================================================================
+
+/**
+ * Prompt asking for a pull request title and body for the comparison
+ */
+export function buildPullRequestPrompt(comparison: BranchComparison, head: string, template?: string | null): string {
+  const commits = comparison.commits.length > 0
+    ? comparison.commits.map(subject => `- ${subject}`).join('\n')
+    : '(no commits yet — only uncommitted changes)'
+  const areas = comparison.areas
+    .map(area => `- ${area.name} (+${area.additions} −${area.deletions}): ${area.files.map(f => f.path).join(', ')}`)
+    .join('\n')
+  const format = template?.trim()
+    ? `Fill in the repository's pull request template below. Keep its headings and their order, replace placeholder text and HTML comments with content, and leave its checkboxes unticked:\n\n${template.trim()}`
+    : 'Use this format: a "## Summary" section with what the change does and why in 1–3 sentences, a "## Changes" section with bullets grouped by area, and a "## Testing" section saying how it can be verified.'
+
+  return [
+    `Write a pull request description for merging \`${head}\` into \`${comparison.base}\`.`,
+    format,
+    'Reply with the title on the first line as `Title: <title>` (imperative, under 72 characters), a blank line, then the description in Markdown. Do not add a reviewer checklist — one is added separately.',
+    `Commits (${comparison.commits.length}):\n${commits}`,
+    `Changed areas:\n${areas}`,
+    `Diff:\n\n${summarizeDiff(comparison.diff)}`,
+  ].join('\n\n')
+}
+
+/**
+ * Title and body from the model's reply
+ */
+export function parsePullRequestReply(reply: string): { title: string; body: string } {
+  let text = reply.trim()
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n```$/)
+  if (fenced) text = fenced[1].trim()
+
+  const lines = text.split('\n')
+  const first = lines.findIndex(line => line.trim())
+  const title = (lines[first] ?? '').trim().replace(/^(\*\*)?title:?(\*\*)?:?\s*/i, '').replace(/^#+\s*/, '').replace(/^(["'`])(.*)\1$/, '$2').trim()
+  if (!title) throw new Error('The model did not return a pull request title')
+  return { title, body: lines.slice(first + 1).join('\n').trim().replace(/\n{3,}/g, '\n\n') }
+}
@@ -0,0 +1,54 @@
+/**
+ * Search Results
+ *
+ * Result shapes for the grep_search tool and their text rendering for the
+ * model. Kept free of Node imports so the renderer-side agent can format
+ * results returned over IPC by content-search.ts.
+ */
+
+export interface ContentSearchLine {
+  line: number
+  text: string
+  isMatch: boolean
+}
+
+export interface ContentSearchFile {
+  /** Path relative to the search directory, always with forward slashes */
+  path: string
+  lines: ContentSearchLine[]
+  matchCount: number
+}
+
+export interface ContentSearchResult {
+  files: ContentSearchFile[]
+  totalMatches: number
+  truncated: boolean
+  engine: 'ripgrep' | 'node'
+}
+
+export const DEFAULT_MAX_RESULTS = 100
+
+/** Format results like ripgrep's grouped output: "line:text" for matches, "line-text" for context, under each file path */
+export function formatSearchResults(result: ContentSearchResult, pattern: string): string {
+  if (result.totalMatches === 0) {
+    return `No matches found for /${pattern}/`
+  }
+
+  const sections = result.files.map(file => {
+    let previous = 0
+    const body: string[] = []
+    for (const { line, text, isMatch } of file.lines) {
+      if (previous && line > previous + 1) body.push('--')
+      body.push(`${line}${isMatch ? ':' : '-'}${text}`)
+      previous = line
+    }
+    return `${file.path}\n${body.join('\n')}`
+  })
+
+  const fileCount = result.files.length
+  let output = `Found ${result.totalMatches} match${result.totalMatches === 1 ? '' : 'es'} in ${fileCount} file${fileCount === 1 ? '' : 's'}:\n\n${sections.join('\n\n')}`
+  if (result.truncated) {
+    output += `\n\n[Results capped at ${result.totalMatches} matches — narrow the pattern or use include globs]`
+  }
+  return output
+}
@@ -0,0 +1,169 @@
+/**
+ * Tokenizer
+ *
+ * Offline cl100k_base tokenizer used for context budgeting (KAN-54) in both
+ * the renderer and the main process. The rank file ships with js-tiktoken, so
+ * counts match cl100k exactly and track Claude's tokenizer closely.
+ *
+ * Text is pre-tokenized here and very long pieces (minified code, base64,
+ * long runs of one character) are encoded in chunks: BPE merging is quadratic
+ * in the piece length, and the count barely changes at a chunk boundary.
+ * Kept free of Node imports.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The part of a tiktoken encoding the counter uses */
+export interface TokenEncoding {
+  encode(text: string, allowedSpecial?: string[] | 'all', disallowedSpecial?: string[] | 'all'): number[]
+}
+
+export interface ContextParts {
+  systemPrompt?: string
+  skills?: string[]
+  knowledgeBase?: string
+  /** Message contents: plain strings or content-block arrays */
+  history?: unknown[]
+  /** Text attachments (code files, pasted documents) */
+  attachments?: string[]
+  imageCount?: number
+}
+
+export interface TokenBreakdown {
+  systemPrompt: number
+  skills: number
+  knowledgeBase: number
+  history: number
+  attachments: number
+  total: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** cl100k_base pre-tokenization pattern */
+export const CL100K_PATTERN = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu
+
+/** Images are resized to ≤1.15 megapixels server-side, which caps them at ~1,600 tokens */
+export const IMAGE_TOKEN_ESTIMATE = 1600
+
+/** Longer pre-token pieces are encoded in chunks of this many characters */
+export const MAX_PIECE_LENGTH = 256
+
+/** Per-message framing overhead (role markers, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+const PIECE_CACHE_LIMIT = 20_000
+
+// ============================================================================
+// BPE Tokenizer
+// ============================================================================
+
+export class BpeTokenizer {
+  private readonly cache = new Map<string, number[]>()
+
+  constructor(
+    private readonly encoding: TokenEncoding,
+    private readonly pattern: RegExp = CL100K_PATTERN
+  ) {}
+
+  /** Token ids for text */
+  encode(text: string): number[] {
+    const tokens: number[] = []
+    for (const piece of this.split(text)) tokens.push(...this.encodePiece(piece))
+    return tokens
+  }
+
+  /** Number of tokens in text */
+  count(text: string): number {
+    if (!text) return 0
+    let total = 0
+    for (const piece of this.split(text)) total += this.encodePiece(piece).length
+    return total
+  }
+
+  private split(text: string): string[] {
+    const pieces: string[] = []
+    for (const piece of text.match(new RegExp(this.pattern.source, this.pattern.flags)) ?? []) {
+      if (piece.length <= MAX_PIECE_LENGTH) {
+        pieces.push(piece)
+        continue
+      }
+      for (let start = 0; start < piece.length;) {
+        let end = Math.min(start + MAX_PIECE_LENGTH, piece.length)
+        // Never cut a surrogate pair in half
+        if (end < piece.length && /[\uD800-\uDBFF]/.test(piece[end - 1])) end--
+        pieces.push(piece.slice(start, end))
+        start = end
+      }
+    }
+    return pieces
+  }
+
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece)
+    if (cached) return cached
+
+    // Special-token text like <|endoftext|> in a file is counted as plain text
+    const tokens = this.encoding.encode(piece, [], [])
+
+    if (this.cache.size >= PIECE_CACHE_LIMIT) this.cache.clear()
+    this.cache.set(piece, tokens)
+    return tokens
+  }
+}
+
+// ============================================================================
+// Shared instance
+// ============================================================================
+
+let defaultTokenizer: BpeTokenizer | null = null
+
+export function getTokenizer(): BpeTokenizer {
+  if (!defaultTokenizer) defaultTokenizer = new BpeTokenizer(new Tiktoken(cl100kBase))
+  return defaultTokenizer
+}
+
+export function countTokens(text: string): number {
+  return getTokenizer().count(text)
+}
+
+/** Tokens for a chat message's content — a string or an array of text/image/tool blocks */
+export function countMessageTokens(content: unknown): number {
+  if (typeof content === 'string') return countTokens(content) + MESSAGE_OVERHEAD_TOKENS
+  if (!Array.isArray(content)) return MESSAGE_OVERHEAD_TOKENS
+
+  let total = MESSAGE_OVERHEAD_TOKENS
+  for (const block of content) {
+    if (block?.type === 'image') total += IMAGE_TOKEN_ESTIMATE
+    else if (block?.type === 'text' && typeof block.text === 'string') total += countTokens(block.text)
+    else total += countTokens(JSON.stringify(block))
+  }
+  return total
+}
+
+/** Per-part token counts for a request, shown before sending and used for trimming */
+export function countContextTokens(parts: ContextParts): TokenBreakdown {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  const systemPrompt = countTokens(parts.systemPrompt ?? '')
+  const skills = sum((parts.skills ?? []).map(countTokens))
+  const knowledgeBase = countTokens(parts.knowledgeBase ?? '')
+  const history = sum((parts.history ?? []).map(countMessageTokens))
+  const attachments = sum((parts.attachments ?? []).map(countTokens)) + (parts.imageCount ?? 0) * IMAGE_TOKEN_ESTIMATE
+
+  return {
+    systemPrompt,
+    skills,
+    knowledgeBase,
+    history,
+    attachments,
+    total: systemPrompt + skills + knowledgeBase + history + attachments,
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * Toolchain Pins
+ *
+ * Reads the toolchain versions a project asks for and compares them with the
+ * versions environment detection found installed.
+ *
+ * SOURCES:
+ * - .nvmrc, .node-version, package.json `engines.node`
+ * - .python-version
+ * - .tool-versions (asdf / mise)
+ * - rust-toolchain.toml, rust-toolchain
+ * - global.json (.NET SDK, honoring rollForward)
+ * - Gradle JDK settings (jvmToolchain, sourceCompatibility, daemon JVM criteria)
+ * - pubspec.yaml `environment.flutter`
+ *
+ * Files come through a reader so the parsing also runs in the renderer.
+ *
+ * @module core/toolchain-pins
+ */
+
+import type { DevelopmentEnvironment } from './environment-detector'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PinnedTool = 'node' | 'python' | 'java' | 'flutter' | 'rust' | 'dotnet' | 'ruby' | 'go'
+
+export interface ToolchainPin {
+  tool: PinnedTool
+  /** Version or range as written in the project */
+  requirement: string
+  /** npm-style range checked against the installed version */
+  range: string
+  /** File (and key) the pin was read from */
+  source: string
+}
+
+/** Reads a file relative to the project root; null when it doesn't exist */
+export type PinFileReader = (relativePath: string) => Promise<string | null>
+
+export interface ToolchainMismatch {
+  pin: ToolchainPin
+  /** Installed version, or null when the tool was not found */
+  installed: string | null
+  /** Shell command that installs or switches to a matching version */
+  fix: string
+}
+
+export const TOOL_LABELS: Record<PinnedTool, string> = {
+  node: 'Node.js',
+  python: 'Python',
+  java: 'Java',
+  flutter: 'Flutter',
+  rust: 'Rust',
+  dotnet: '.NET SDK',
+  ruby: 'Ruby',
+  go: 'Go',
+}
+
+// =============================================================================
+// Version Ranges
+// =============================================================================
+
+type Triple = [number, number, number]
+
+interface Comparator {
+  op: '<' | '<=' | '>' | '>=' | '='
+  version: Triple
+}
+
+const PARTIAL_VERSION = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/
+
+/**
+ * Parse `20`, `3.11.x` or `1.75.0` into its specified parts; a wildcard ends the version
+ */
+function parsePartial(text: string): number[] | null {
+  if (text === '*' || text === 'x' || text === 'X') return []
+  const match = text.match(PARTIAL_VERSION)
+  if (!match) return null
+  const parts = [match[1], match[2], match[3]].map(p => p === undefined || /^[xX*]$/.test(p) ? null : Number(p))
+  const end = parts.indexOf(null)
+  return (end === -1 ? parts : parts.slice(0, end)) as number[]
+}
+
+function fill(parts: number[]): Triple {
+  return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0]
+}
+
+/** First version past every version the partial matches: 18 → 19.0.0, 3.11 → 3.12.0 */
+function bump(parts: number[]): Triple {
+  if (parts.length === 1) return [parts[0] + 1, 0, 0]
+  if (parts.length === 2) return [parts[0], parts[1] + 1, 0]
+  return [parts[0], parts[1], parts[2] + 1]
+}
+
+const NOTHING: Comparator[] = [{ op: '<', version: [0, 0, 0] }]
+
+function comparatorsFor(op: string, parts: number[]): Comparator[] {
+  if (parts.length === 0) return op === '<' || op === '>' ? NOTHING : []
+  const exact = parts.length === 3
+  switch (op) {
+    case '^': {
+      const [major, minor = 0, patch = 0] = parts
+      const upper: Triple = major > 0 || parts.length === 1 ? [major + 1, 0, 0]
+        : minor > 0 || parts.length === 2 ? [0, minor + 1, 0]
+        : [0, 0, patch + 1]
+      return [{ op: '>=', version: fill(parts) }, { op: '<', version: upper }]
+    }
+    case '~':
+      return [{ op: '>=', version: fill(parts) }, { op: '<', version: bump(parts.slice(0, Math.min(parts.length, 2))) }]
+    case '>=':
+      return [{ op: '>=', version: fill(parts) }]
+    case '>':
+      return [exact ? { op: '>', version: fill(parts) } : { op: '>=', version: bump(parts) }]
+    case '<':
+      return [{ op: '<', version: fill(parts) }]
+    case '<=':
+      return [exact ? { op: '<=', version: fill(parts) } : { op: '<', version: bump(parts) }]
+    default:
+      return exact
+        ? [{ op: '=', version: fill(parts) }]
+        : [{ op: '>=', version: fill(parts) }, { op: '<', version: bump(parts) }]
+  }
+}
+
+/**
+ * Parse an npm-style range (`>=18 <21`, `^20.0.0`, `18.x || 20.x`, `1.2 - 1.4`)
+ * into alternatives of comparators; null when the range isn't understood
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const alternatives: Comparator[][] = []
+  for (const alternative of range.split('||')) {
+    const text = alternative.trim()
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/)
+    if (hyphen) {
+      const lower = parsePartial(hyphen[1])
+      const upper = parsePartial(hyphen[2])
+      if (!lower || !upper) return null
+      alternatives.push([...comparatorsFor('>=', lower), ...comparatorsFor('<=', upper)])
+      continue
+    }
+
+    const comparators: Comparator[] = []
+    for (const token of text.replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1').split(/\s+/).filter(Boolean)) {
+      const [, op = '', version] = token.match(/^(>=|<=|>|<|=|\^|~)?(.+)$/)!
+      const parts = parsePartial(version)
+      if (!parts) return null
+      comparators.push(...comparatorsFor(op, parts))
+    }
+    alternatives.push(comparators)
+  }
+  return alternatives
+}
+
+function compare(a: Triple, b: Triple): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
+
+function toTriple(version: string): Triple | null {
+  const match = version.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/)
+  return match ? [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)] : null
+}
+
+/**
+ * Check whether a version (`v20.11.1`, `3.11.4`) satisfies a range
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  const triple = toTriple(version)
+  const alternatives = parseRange(range)
+  if (!triple || !alternatives) return false
+  return alternatives.some(comparators => comparators.every(({ op, version: bound }) => {
+    const order = compare(triple, bound)
+    switch (op) {
+      case '<': return order < 0
+      case '<=': return order <= 0
+      case '>': return order > 0
+      case '>=': return order >= 0
+      default: return order === 0
+    }
+  }))
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null
+}
+
+/**
+ * Lowest version a range accepts, in its shortest form (`>=18.0.0` → `18`)
+ */
+function minimumVersion(range: string): string | null {
+  const lower = parseRange(range)?.[0]?.find(c => c.op === '>=' || c.op === '=')?.version
+  if (!lower) return null
+  if (lower[2] !== 0) return lower.join('.')
+  return lower[1] !== 0 ? `${lower[0]}.${lower[1]}` : String(lower[0])
+}
+
+// =============================================================================
+// Pin Files
+// =============================================================================
+
+const PLAIN_VERSION = /^v?\d+(\.\d+){0,2}$/
+
+/** Plain numeric versions only; aliases like `lts/*`, `stable` or `system` can't be checked */
+function plainVersion(text: string): string | null {
+  const trimmed = text.trim()
+  return PLAIN_VERSION.test(trimmed) ? trimmed.replace(/^v/, '') : null
+}
+
+const TOOL_VERSIONS_PLUGINS: Record<string, PinnedTool> = {
+  nodejs: 'node',
+  node: 'node',
+  python: 'python',
+  java: 'java',
+  flutter: 'flutter',
+  rust: 'rust',
+  'dotnet-core': 'dotnet',
+  dotnet: 'dotnet',
+  ruby: 'ruby',
+  golang: 'go',
+  go: 'go',
+}
+
+/**
+ * Parse `.tool-versions` (`nodejs 20.11.1`, `java temurin-17.0.9+9`, `flutter 3.19.0-stable`)
+ */
+export function parseToolVersions(content: string): ToolchainPin[] {
+  const pins: ToolchainPin[] = []
+  for (const line of content.split('\n')) {
+    const [plugin, first] = line.replace(/#.*/, '').trim().split(/\s+/)
+    const tool = TOOL_VERSIONS_PLUGINS[plugin]
+    if (!tool || !first) continue
+    // Distribution prefixes (temurin-17.0.9+9) and channel suffixes (3.19.0-stable) don't affect the check
+    const version = first.match(/\d+(\.\d+){0,2}/)?.[0]
+    if (!version) continue
+    const range = tool === 'java' ? version.split('.')[0] : version
+    pins.push({ tool, requirement: first, range, source: `.tool-versions (${plugin})` })
+  }
+  return pins
+}
+
+/**
+ * Parse rust-toolchain.toml (`channel = "1.75.0"`) or the legacy one-line rust-toolchain file
+ */
+export function parseRustToolchain(content: string, file = 'rust-toolchain.toml'): ToolchainPin | null {
+  const channel = content.match(/^\s*channel\s*=\s*["']([^"']+)["']/m)?.[1] ?? (content.includes('=') ? null : content.trim())
+  const version = channel ? plainVersion(channel) : null
+  return version ? { tool: 'rust', requirement: channel!, range: version, source: file } : null
+}
+
+/**
+ * Parse global.json's sdk.version and turn its rollForward policy into a range
+ */
+export function parseGlobalJson(content: string): ToolchainPin | null {
+  let sdk: { version?: unknown; rollForward?: unknown } | undefined
+  try {
+    sdk = JSON.parse(content)?.sdk
+  } catch {
+    return null
+  }
+  if (typeof sdk?.version !== 'string') return null
+  const version = toTriple(sdk.version)
+  if (!version) return null
+
+  const [major, minor, patch] = version
+  const rollForward = typeof sdk.rollForward === 'string' ? sdk.rollForward : 'latestPatch'
+  const featureBand = Math.floor(patch / 100) * 100
+  const upper: Record<string, string> = {
+    patch: `<${major}.${minor}.${featureBand + 100}`,
+    latestPatch: `<${major}.${minor}.${featureBand + 100}`,
+    feature: `<${major}.${minor + 1}.0`,
+    latestFeature: `<${major}.${minor + 1}.0`,
+    minor: `<${major + 1}.0.0`,
+    latestMinor: `<${major + 1}.0.0`,
+    major: '',
+    latestMajor: '',
+  }
+  const range = rollForward === 'disable'
+    ? sdk.version
+    : `>=${version.join('.')} ${upper[rollForward] ?? upper.latestPatch}`.trim()
+  return { tool: 'dotnet', requirement: sdk.version, range, source: `global.json (rollForward: ${rollForward})` }
+}
+
+/**
+ * Parse the JDK a Gradle build asks for: a toolchain needs that exact major
+ * version, source/target compatibility needs at least it
+ */
+export function parseGradleJdk(content: string, file: string): ToolchainPin | null {
+  const toolchain = content.match(/jvmToolchain\s*\(\s*(\d+)\s*\)/)?.[1]
+    ?? content.match(/JavaLanguageVersion\.of\s*\(\s*(\d+)\s*\)/)?.[1]
+    ?? content.match(/^\s*toolchainVersion\s*=\s*(\d+)/m)?.[1]
+  if (toolchain) return { tool: 'java', requirement: toolchain, range: toolchain, source: file }
+
+  const compatibility = content.match(/(?:source|target)Compatibility\s*=?\s*(?:JavaVersion\.VERSION_([\d_]+)|['"]?([\d.]+)['"]?)/)
+  const raw = compatibility?.[1]?.replace(/_/g, '.') ?? compatibility?.[2]
+  if (!raw) return null
+  const major = raw.startsWith('1.') ? raw.split('.')[1] : raw.split('.')[0]
+  return { tool: 'java', requirement: raw, range: `>=${major}`, source: file }
+}
+
+/**
+ * Parse the `flutter:` constraint under pubspec.yaml's `environment:` block
+ */
+export function parsePubspecFlutter(content: string): ToolchainPin | null {
+  const block = content.match(/^environment:\s*\n((?:[ \t]+.*\n?)*)/m)?.[1]
+  const constraint = block?.match(/^\s+flutter:\s*["']?([^"'\n#]+?)["']?\s*(?:#.*)?$/m)?.[1]
+  if (!constraint || !isValidRange(constraint)) return null
+  return { tool: 'flutter', requirement: constraint, range: constraint, source: 'pubspec.yaml (environment.flutter)' }
+}
+
+const GRADLE_FILES = [
+  'build.gradle.kts',
+  'build.gradle',
+  'app/build.gradle.kts',
+  'app/build.gradle',
+  'gradle/gradle-daemon-jvm.properties',
+]
+
+/**
+ * Read every toolchain pin in a project root
+ */
+export async function readToolchainPins(read: PinFileReader): Promise<ToolchainPin[]> {
+  const pins: ToolchainPin[] = []
+
+  for (const file of ['.nvmrc', '.node-version']) {
+    const version = plainVersion((await read(file)) ?? '')
+    if (version) pins.push({ tool: 'node', requirement: version, range: version, source: file })
+  }
+
+  const packageJson = await read('package.json')
+  if (packageJson) {
+    try {
+      const node = JSON.parse(packageJson).engines?.node
+      if (typeof node === 'string' && isValidRange(node)) {
+        pins.push({ tool: 'node', requirement: node, range: node, source: 'package.json (engines.node)' })
+      }
+    } catch {
+      // Malformed package.json pins nothing
+    }
+  }
+
+  // pyenv allows several versions, one per line; the first one is what `python` runs
+  const pythonVersion = ((await read('.python-version')) ?? '').split(/\s+/).map(plainVersion).find(Boolean)
+  if (pythonVersion) pins.push({ tool: 'python', requirement: pythonVersion, range: pythonVersion, source: '.python-version' })
+
+  const toolVersions = await read('.tool-versions')
+  if (toolVersions) pins.push(...parseToolVersions(toolVersions))
+
+  for (const file of ['rust-toolchain.toml', 'rust-toolchain']) {
+    const content = await read(file)
+    const rustPin = content ? parseRustToolchain(content, file) : null
+    if (rustPin) {
+      pins.push(rustPin)
+      break
+    }
+  }
+
+  const globalJson = await read('global.json')
+  const dotnetPin = globalJson ? parseGlobalJson(globalJson) : null
+  if (dotnetPin) pins.push(dotnetPin)
+
+  for (const file of GRADLE_FILES) {
+    const content = await read(file)
+    const javaPin = content ? parseGradleJdk(content, file) : null
+    if (javaPin) {
+      pins.push(javaPin)
+      break
+    }
+  }
+
+  const pubspec = await read('pubspec.yaml')
+  const flutterPin = pubspec ? parsePubspecFlutter(pubspec) : null
+  if (flutterPin) pins.push(flutterPin)
+
+  return pins
+}
+
+// =============================================================================
+// Checking
+// =============================================================================
+
+/**
+ * Versions of a tool the environment found (several for side-by-side .NET SDKs)
+ */
+function installedVersions(env: DevelopmentEnvironment, tool: PinnedTool): string[] {
+  const language = (name: string) => env.languages.find(l => l.language.includes(name))
+  const versions = (...candidates: Array<string | undefined>) => candidates.filter((v): v is string => !!v)
+
+  switch (tool) {
+    case 'node': return versions(language('Node')?.version)
+    case 'python': return versions(language('Python')?.version)
+    case 'flutter': return versions(language('Flutter')?.version)
+    case 'rust': return versions(language('Rust')?.version)
+    case 'ruby': return versions(language('Ruby')?.version)
+    case 'go': return versions(language('Go')?.version)
+    case 'dotnet': {
+      const dotnet = language('.NET')
+      return versions(dotnet?.version, ...(dotnet?.sdks?.[0]?.variants ?? []))
+    }
+    case 'java': {
+      // Java 8 and earlier report themselves as 1.x
+      const java = language('Android')?.buildTools?.find(t => t.name === 'Java')?.version
+      return versions(java?.replace(/^1\.(\d+)/, '$1'))
+    }
+  }
+}
+
+const ASDF_PLUGINS: Record<PinnedTool, string> = {
+  node: 'nodejs',
+  python: 'python',
+  java: 'java',
+  flutter: 'flutter',
+  rust: 'rust',
+  dotnet: 'dotnet-core',
+  ruby: 'ruby',
+  go: 'golang',
+}
+
+/**
+ * Suggest the command that gets a matching version onto the machine
+ */
+function fixCommand(pin: ToolchainPin, installed: string | null, platform: NodeJS.Platform): string {
+  if (pin.source.startsWith('.tool-versions')) return `asdf install ${ASDF_PLUGINS[pin.tool]} ${pin.requirement}`
+  const version = plainVersion(pin.requirement) ?? minimumVersion(pin.range) ?? 'latest'
+
+  switch (pin.tool) {
+    case 'node':
+      return pin.source === '.nvmrc' ? 'nvm install && nvm use' : `nvm install ${version}`
+    case 'python':
+      return `pyenv install ${version} && pyenv local ${version}`
+    case 'rust':
+      return `rustup toolchain install ${version}`
+    case 'dotnet':
+      return platform === 'win32'
+        ? `dotnet-install.ps1 -Version ${version}`
+        : `dotnet-install.sh --version ${version}`
+    case 'java': {
+      const major = version.split('.')[0]
+      if (platform === 'darwin') return `brew install openjdk@${major}`
+      if (platform === 'win32') return `winget install EclipseAdoptium.Temurin.${major}.JDK`
+      return `sudo apt install openjdk-${major}-jdk`
+    }
+    case 'flutter': {
+      const minimum = minimumVersion(pin.range)
+      const behind = installed && minimum && !satisfiesRange(installed, `>=${minimum}`)
+      return behind ? 'flutter upgrade' : `fvm install ${version}`
+    }
+    case 'ruby':
+      return `rbenv install ${version}`
+    case 'go':
+      return `go install golang.org/dl/go${version}@latest && go${version} download`
+  }
+}
+
+/**
+ * Compare pins with the detected environment and return the ones it doesn't satisfy
+ */
+export function checkToolchainPins(
+  pins: ToolchainPin[],
+  env: DevelopmentEnvironment,
+  platform: NodeJS.Platform = process.platform
+): ToolchainMismatch[] {
+  const mismatches: ToolchainMismatch[] = []
+  for (const pin of pins) {
+    const installed = installedVersions(env, pin.tool)
+    if (installed.some(version => satisfiesRange(version, pin.range))) continue
+    mismatches.push({ pin, installed: installed[0] ?? null, fix: fixCommand(pin, installed[0] ?? null, platform) })
+  }
+  return mismatches
+}
+
+/**
+ * Format mismatches as a section of the environment summary sent to the AI
+ */
+export function formatToolchainMismatches(mismatches: ToolchainMismatch[]): string {
+  if (mismatches.length === 0) return ''
+  const lines = ['### Toolchain Mismatches', '']
+  for (const { pin, installed, fix } of mismatches) {
+    const found = installed ? `found ${installed}` : 'not installed'
+    lines.push(`- ${TOOL_LABELS[pin.tool]}: project wants ${pin.requirement} (${pin.source}), ${found} — fix: \`${fix}\``)
+  }
+  lines.push('')
+  lines.push('Run commands with a matching version, or suggest the fix before building.')
+  return lines.join('\n')
+}
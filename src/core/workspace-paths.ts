@@ -0,0 +1,30 @@
+/**
+ * Workspace Storage Paths
+ *
+ * Per-project data (rules.md, fixes-log.md, checkpoints/ …) lives in
+ * ~/.aibuddy/workspaces/{workspace-hash}/. Shared by the Electron main process
+ * and the CLI so both read the same folder.
+ */
+
+import { join } from 'path'
+import { createHash } from 'crypto'
+import { homedir } from 'os'
+
+/** Base path for all workspace storage */
+export const AIBUDDY_WORKSPACES_DIR = join(homedir(), '.aibuddy', 'workspaces')
+
+/**
+ * Generate a consistent hash for a workspace path.
+ * Exported for direct testing — tests MUST import this, not duplicate it.
+ */
+export function getWorkspaceHash(workspacePath: string): string {
+  return createHash('sha256')
+    .update(workspacePath.toLowerCase())
+    .digest('hex')
+    .substring(0, 16)
+}
+
+/** Storage directory for a workspace (not created) */
+export function getWorkspaceStoragePath(workspacePath: string): string {
+  return join(AIBUDDY_WORKSPACES_DIR, getWorkspaceHash(workspacePath))
+}
@@ -0,0 +1,216 @@
+/**
+ * Diagnostics Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { detectDiagnosticSources, formatDiagnostics, normalizeDiagnosticPath, parseDiagnostics } from '../diagnostics'
+import { DiagnosticsStore } from '../diagnostics-store'
+
+const TSC = `
+src/cart.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+src/api/client.ts(3,10): error TS2305: Module '"./types"' has no exported member 'Foo'.
+  Did you mean 'Food'?
+
+Found 2 errors in 2 files.
+`
+
+const TSC_PRETTY = `src/cart.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'.
+
+12     total = 'abc'
+       ~~~~~
+`
+
+const ESLINT = `
+> app@1.0.0 lint
+> eslint .
+
+/work/app/src/cart.ts
+  12:5   error    'x' is assigned a value but never used  @typescript-eslint/no-unused-vars
+   3:1   warning  Unexpected console statement            no-console
+
+✖ 2 problems (1 error, 1 warning)
+`
+
+const GRADLE = `
+> Task :app:compileKotlin FAILED
+e: file:///work/app/src/main/kotlin/Main.kt:12:5 Unresolved reference: foo
+w: /work/app/src/main/kotlin/Util.kt: (3, 9): Variable 'x' is never used
+/work/app/src/main/java/Cart.java:21: error: cannot find symbol
+        return totl;
+               ^
+`
+
+const CARGO = `
+   Compiling shop v0.1.0 (/work/shop)
+error[E0308]: mismatched types
+ --> src/main.rs:4:18
+  |
+4 |     let x: i32 = "a";
+  |            ---   ^^^ expected \`i32\`, found \`&str\`
+  |            |
+  |            expected due to this
+
+warning: unused variable: \`y\`
+ --> src/lib.rs:2:9
+  |
+2 |     let y = 1;
+  |         ^ help: if this is intentional, prefix it with an underscore: \`_y\`
+
+error: could not compile \`shop\` (bin "shop") due to 1 previous error
+`
+
+const GO = `
+# example.com/shop
+./main.go:12:5: undefined: totl
+./cart.go:3:2: "fmt" imported and not used
+`
+
+const DOTNET = `
+  Determining projects to restore...
+/work/Shop/Program.cs(12,5): error CS1002: ; expected [/work/Shop/Shop.csproj]
+/work/Shop/Cart.cs(3,10): warning CS0168: The variable 'x' is declared but never used [/work/Shop/Shop.csproj]
+
+Build FAILED.
+
+/work/Shop/Program.cs(12,5): error CS1002: ; expected [/work/Shop/Shop.csproj]
+`
+
+const FLUTTER = `
+Analyzing app...
+
+  error • Undefined name 'totl' • lib/cart.dart:12:5 • undefined_identifier
+   info • Prefer const with constant constructors • lib/main.dart:8:10 • prefer_const_constructors
+warning - lib/util.dart:3:7 - The value of the local variable 'x' isn't used. - unused_local_variable
+
+3 issues found. (ran in 1.2s)
+`
+
+describe('parseDiagnostics', () => {
+  it('parses tsc output in both formats, keeping elaboration chains', () => {
+    const diagnostics = parseDiagnostics(TSC)
+    expect(diagnostics).toHaveLength(2)
+    expect(diagnostics.find(d => d.file === 'src/cart.ts')).toEqual({
+      source: 'tsc',
+      file: 'src/cart.ts',
+      range: { startLine: 12, startColumn: 5, endLine: 12, endColumn: 5 },
+      severity: 'error',
+      code: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'.",
+    })
+    expect(diagnostics.find(d => d.code === 'TS2305')?.message).toContain("\nDid you mean 'Food'?")
+    expect(parseDiagnostics(TSC_PRETTY)).toMatchObject([{ source: 'tsc', file: 'src/cart.ts', code: 'TS2322' }])
+  })
+
+  it('parses eslint stylish output relative to the workspace', () => {
+    const diagnostics = parseDiagnostics(ESLINT, { workspacePath: '/work/app' })
+    expect(diagnostics).toMatchObject([
+      { source: 'eslint', file: 'src/cart.ts', severity: 'error', code: '@typescript-eslint/no-unused-vars', message: "'x' is assigned a value but never used" },
+      { source: 'eslint', file: 'src/cart.ts', severity: 'warning', code: 'no-console', range: { startLine: 3, startColumn: 1 } },
+    ])
+  })
+
+  it('parses kotlinc and javac output from gradle', () => {
+    const diagnostics = parseDiagnostics(GRADLE, { workspacePath: '/work/app' })
+    expect(diagnostics.map(d => [d.file, d.severity, d.range.startLine, d.range.startColumn])).toEqual([
+      ['src/main/java/Cart.java', 'error', 21, 16],
+      ['src/main/kotlin/Main.kt', 'error', 12, 5],
+      ['src/main/kotlin/Util.kt', 'warning', 3, 9],
+    ])
+  })
+
+  it('parses rustc diagnostics with their primary span', () => {
+    const diagnostics = parseDiagnostics(CARGO)
+    expect(diagnostics).toMatchObject([
+      { source: 'cargo', file: 'src/main.rs', severity: 'error', code: 'E0308', message: 'mismatched types', range: { startLine: 4, startColumn: 18, endColumn: 21 } },
+      { source: 'cargo', file: 'src/lib.rs', severity: 'warning', message: 'unused variable: `y`' },
+    ])
+  })
+
+  it('parses go build errors, resolving paths against the command cwd', () => {
+    const diagnostics = parseDiagnostics(GO, { cwd: '/work/shop/cmd', workspacePath: '/work/shop' })
+    expect(diagnostics.map(d => `${d.file}:${d.range.startLine}`)).toEqual(['cmd/cart.go:3', 'cmd/main.go:12'])
+    expect(diagnostics[1].message).toBe('undefined: totl')
+  })
+
+  it('parses msbuild output once per diagnostic', () => {
+    const diagnostics = parseDiagnostics(DOTNET, { workspacePath: '/work/Shop' })
+    expect(diagnostics).toMatchObject([
+      { source: 'dotnet', file: 'Program.cs', severity: 'error', code: 'CS1002', message: '; expected' },
+      { source: 'dotnet', file: 'Cart.cs', severity: 'warning', code: 'CS0168' },
+    ])
+  })
+
+  it('parses both flutter analyze formats', () => {
+    const diagnostics = parseDiagnostics(FLUTTER)
+    expect(diagnostics.map(d => [d.severity, d.file, d.code])).toEqual([
+      ['error', 'lib/cart.dart', 'undefined_identifier'],
+      ['warning', 'lib/util.dart', 'unused_local_variable'],
+      ['info', 'lib/main.dart', 'prefer_const_constructors'],
+    ])
+    expect(diagnostics[1].message).toBe("The value of the local variable 'x' isn't used.")
+  })
+
+  it('finds nothing in unrelated output', () => {
+    expect(parseDiagnostics('added 12 packages in 2s\n\nfound 0 vulnerabilities')).toEqual([])
+  })
+})
+
+describe('diagnostic helpers', () => {
+  it('detects the tools a command runs', () => {
+    expect(detectDiagnosticSources('npx tsc --noEmit && npx eslint .')).toEqual(['tsc', 'eslint'])
+    expect(detectDiagnosticSources('./gradlew assembleDebug')).toEqual(['gradle'])
+    expect(detectDiagnosticSources('flutter analyze')).toEqual(['flutter'])
+    expect(detectDiagnosticSources('npm install')).toEqual([])
+  })
+
+  it('normalizes file URIs and ./ prefixes', () => {
+    expect(normalizeDiagnosticPath('file:///work/app/a.kt', { workspacePath: '/work/app/' })).toBe('a.kt')
+    expect(normalizeDiagnosticPath('./main.go')).toBe('main.go')
+    expect(normalizeDiagnosticPath('/elsewhere/a.ts', { workspacePath: '/work/app' })).toBe('/elsewhere/a.ts')
+  })
+
+  it('formats one line per problem and caps the list', () => {
+    const text = formatDiagnostics(parseDiagnostics(TSC), 1)
+    expect(text).toContain('Diagnostics: 2 error(s), 0 warning(s)')
+    expect(text).toContain("src/api/client.ts:3:10 error TS2305 (tsc): Module '\"./types\"' has no exported member 'Foo'.")
+    expect(text).toContain("  Did you mean 'Food'?")
+    expect(text).toContain('… and 1 more')
+  })
+})
+
+describe('DiagnosticsStore', () => {
+  it('replaces a tool\'s diagnostics on its next run and keeps the others', () => {
+    const store = new DiagnosticsStore()
+    store.record('npx tsc --noEmit', TSC)
+    store.record('npx eslint .', ESLINT, { workspacePath: '/work/app' })
+    expect(store.getDiagnostics()).toHaveLength(4)
+
+    store.record('npx tsc --noEmit', '')
+    expect(store.getDiagnostics().map(d => d.source)).toEqual(['eslint', 'eslint'])
+    expect(store.getRuns().map(r => r.source).sort()).toEqual(['eslint', 'tsc'])
+  })
+
+  it('filters by path and severity', () => {
+    const store = new DiagnosticsStore()
+    store.record('npx eslint .', ESLINT, { workspacePath: '/work/app' })
+    store.record('npx tsc', TSC)
+    expect(store.getDiagnostics({ path: 'src/api' }).map(d => d.code)).toEqual(['TS2305'])
+    expect(store.getDiagnostics({ path: './src/cart.ts', severity: 'error' })).toHaveLength(2)
+  })
+
+  it('ignores commands that run no known tool and notifies on changes', () => {
+    const store = new DiagnosticsStore()
+    const listener = vi.fn()
+    const unsubscribe = store.onChange(listener)
+
+    store.record('npm install', 'added 1 package')
+    expect(listener).not.toHaveBeenCalled()
+    store.record('cargo build', CARGO)
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    store.clear()
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.getRuns()).toEqual([])
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Diagnostics Store
+ *
+ * Latest diagnostics per tool, fed by every command the app or the agent
+ * runs. A run of a tool replaces that tool's diagnostics — a clean `tsc`
+ * clears the type errors — and leaves the other tools' alone.
+ */
+
+import { detectDiagnosticSources, parseDiagnostics, sortDiagnostics, type DiagnosticPathOptions } from './diagnostics'
+import type { Diagnostic, DiagnosticSeverity, DiagnosticSource, DiagnosticsRun } from './types'
+
+const MAX_DIAGNOSTICS_PER_SOURCE = 500
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+export interface DiagnosticsFilter {
+  /** File or directory, workspace-relative */
+  path?: string
+  /** Lowest severity to include — 'warning' means errors and warnings */
+  severity?: DiagnosticSeverity
+}
+
+export class DiagnosticsStore {
+  private runs = new Map<DiagnosticSource, DiagnosticsRun>()
+  private listeners = new Set<() => void>()
+
+  /**
+   * Collect diagnostics from a finished command. Returns what was found;
+   * commands that run none of the known tools leave the store untouched.
+   */
+  record(command: string, output: string, options: DiagnosticPathOptions = {}): Diagnostic[] {
+    const diagnostics = parseDiagnostics(output, options)
+    const sources = new Set([...detectDiagnosticSources(command), ...diagnostics.map(d => d.source)])
+    if (sources.size === 0) return diagnostics
+
+    const updatedAt = Date.now()
+    for (const source of sources) {
+      this.runs.set(source, {
+        source,
+        command,
+        updatedAt,
+        diagnostics: diagnostics.filter(d => d.source === source).slice(0, MAX_DIAGNOSTICS_PER_SOURCE),
+      })
+    }
+    this.notify()
+    return diagnostics
+  }
+
+  getDiagnostics(filter: DiagnosticsFilter = {}): Diagnostic[] {
+    const prefix = filter.path?.replace(/^\.[\\/]/, '').replace(/[\\/]+$/, '')
+    const maxRank = SEVERITY_RANK[filter.severity ?? 'info']
+    const all = [...this.runs.values()].flatMap(run => run.diagnostics)
+    return sortDiagnostics(all.filter(d =>
+      SEVERITY_RANK[d.severity] <= maxRank &&
+      (!prefix || d.file === prefix || d.file.startsWith(`${prefix}/`))))
+  }
+
+  getRuns(): DiagnosticsRun[] {
+    return [...this.runs.values()].sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  clear(source?: DiagnosticSource): void {
+    if (source) this.runs.delete(source)
+    else this.runs.clear()
+    this.notify()
+  }
+
+  /** Called after every change; returns an unsubscribe function */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener()
+  }
+}
+
+/** Shared by the renderer's command runner, the agent's tools and the Problems panel */
+export const diagnosticsStore = new DiagnosticsStore()
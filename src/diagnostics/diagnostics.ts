@@ -0,0 +1,109 @@
+/**
+ * Diagnostics
+ *
+ * Runs every problem matcher over command output (one command can run
+ * several tools, e.g. `npm run lint && tsc`), normalizes paths and renders
+ * the result compactly for the model. No Node APIs — the renderer uses this.
+ */
+
+import { stripAnsi } from '../testing/test-output'
+import { PROBLEM_MATCHERS } from './problem-matchers'
+import type { Diagnostic, DiagnosticSeverity, DiagnosticSource } from './types'
+
+export interface DiagnosticPathOptions {
+  /** Directory the command ran in — relative paths are resolved against it */
+  cwd?: string
+  /** Paths inside the workspace are reported relative to it */
+  workspacePath?: string
+}
+
+const COMMAND_SOURCES: Array<[RegExp, DiagnosticSource]> = [
+  [/\b(?:vue-)?tsc\b/, 'tsc'],
+  [/\beslint\b|\bnext lint\b/, 'eslint'],
+  [/\bgradlew?\b/, 'gradle'],
+  [/\bcargo (?:build|check|clippy|test|run)\b/, 'cargo'],
+  [/\bgo (?:build|vet|test|run)\b|\bgolangci-lint\b/, 'go'],
+  [/\bdotnet (?:build|test|run|msbuild)\b|\bmsbuild\b/, 'dotnet'],
+  [/\b(?:flutter|dart) analyze\b/, 'flutter'],
+]
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+const MAX_PROMPT_DIAGNOSTICS = 50
+
+/** Tools a command line runs, e.g. `npx tsc --noEmit && eslint .` → tsc, eslint */
+export function detectDiagnosticSources(command: string): DiagnosticSource[] {
+  return COMMAND_SOURCES.filter(([pattern]) => pattern.test(command)).map(([, source]) => source)
+}
+
+function isAbsolutePath(file: string): boolean {
+  return file.startsWith('/') || /^[A-Za-z]:[\\/]/.test(file)
+}
+
+export function normalizeDiagnosticPath(file: string, options: DiagnosticPathOptions = {}): string {
+  let normalized = file.trim().replace(/^file:\/\//, '').replace(/^\.[\\/]/, '')
+  if (!isAbsolutePath(normalized) && options.cwd) {
+    normalized = `${options.cwd.replace(/[\\/]+$/, '')}/${normalized}`
+  }
+  if (options.workspacePath) {
+    const root = options.workspacePath.replace(/[\\/]+$/, '')
+    if (normalized.startsWith(`${root}/`) || normalized.startsWith(`${root}\\`)) {
+      normalized = normalized.slice(root.length + 1)
+    }
+  }
+  return normalized
+}
+
+/** Errors first, then by file and position */
+export function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  return [...diagnostics].sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    a.file.localeCompare(b.file) ||
+    a.range.startLine - b.range.startLine ||
+    a.range.startColumn - b.range.startColumn)
+}
+
+/**
+ * Diagnostics in command output, deduplicated (msbuild prints each one
+ * again in its summary) and sorted. [] when no matcher recognizes anything.
+ */
+export function parseDiagnostics(output: string, options: DiagnosticPathOptions = {}): Diagnostic[] {
+  const text = stripAnsi(output)
+  const seen = new Set<string>()
+  const diagnostics: Diagnostic[] = []
+
+  for (const matcher of PROBLEM_MATCHERS) {
+    for (const diagnostic of matcher.match(text)) {
+      const file = normalizeDiagnosticPath(diagnostic.file, options)
+      const key = `${diagnostic.source}|${file}|${diagnostic.range.startLine}|${diagnostic.range.startColumn}|${diagnostic.code ?? ''}|${diagnostic.message}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      diagnostics.push({ ...diagnostic, file })
+    }
+  }
+  return sortDiagnostics(diagnostics)
+}
+
+export function countDiagnostics(diagnostics: Diagnostic[]): Record<DiagnosticSeverity, number> {
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 }
+  for (const diagnostic of diagnostics) counts[diagnostic.severity]++
+  return counts
+}
+
+/** One line per problem for the model — replaces the raw build log */
+export function formatDiagnostics(diagnostics: Diagnostic[], maxDiagnostics = MAX_PROMPT_DIAGNOSTICS): string {
+  const counts = countDiagnostics(diagnostics)
+  const parts = [`${counts.error} error(s)`, `${counts.warning} warning(s)`]
+  if (counts.info > 0) parts.push(`${counts.info} info`)
+  const lines = [`Diagnostics: ${parts.join(', ')}`]
+
+  for (const d of diagnostics.slice(0, maxDiagnostics)) {
+    const [first, ...rest] = d.message.split('\n')
+    lines.push(`${d.file}:${d.range.startLine}:${d.range.startColumn} ${d.severity}${d.code ? ` ${d.code}` : ''} (${d.source}): ${first}`)
+    for (const line of rest) lines.push(`  ${line}`)
+  }
+  if (diagnostics.length > maxDiagnostics) {
+    lines.push(`… and ${diagnostics.length - maxDiagnostics} more`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,32 @@
+/**
+ * Compiler and linter diagnostics
+ */
+
+export {
+  countDiagnostics,
+  detectDiagnosticSources,
+  formatDiagnostics,
+  normalizeDiagnosticPath,
+  parseDiagnostics,
+  sortDiagnostics,
+  type DiagnosticPathOptions,
+} from './diagnostics'
+export { DiagnosticsStore, diagnosticsStore, type DiagnosticsFilter } from './diagnostics-store'
+export {
+  PROBLEM_MATCHERS,
+  cargoMatcher,
+  dotnetMatcher,
+  eslintMatcher,
+  flutterMatcher,
+  goMatcher,
+  gradleMatcher,
+  tscMatcher,
+} from './problem-matchers'
+export type {
+  Diagnostic,
+  DiagnosticRange,
+  DiagnosticSeverity,
+  DiagnosticSource,
+  DiagnosticsRun,
+  ProblemMatcher,
+} from './types'
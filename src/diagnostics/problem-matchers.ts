@@ -0,0 +1,271 @@
+/**
+ * Problem Matchers
+ *
+ * One matcher per tool, each reading the tool's default output format.
+ * Paths come back as printed; parseDiagnostics makes them workspace-relative.
+ */
+
+import type { Diagnostic, DiagnosticRange, DiagnosticSeverity, DiagnosticSource, ProblemMatcher } from './types'
+
+function toRange(line: string | number, column: string | number = 1, endLine?: string | number, endColumn?: string | number): DiagnosticRange {
+  const startLine = Number(line)
+  const startColumn = Number(column) || 1
+  return {
+    startLine,
+    startColumn,
+    endLine: endLine !== undefined ? Number(endLine) : startLine,
+    endColumn: endColumn !== undefined ? Number(endColumn) : startColumn,
+  }
+}
+
+function toSeverity(word: string): DiagnosticSeverity {
+  const lower = word.toLowerCase()
+  if (lower === 'error' || lower === 'e' || lower === 'fatal') return 'error'
+  if (lower === 'warning' || lower === 'warn' || lower === 'w') return 'warning'
+  return 'info'
+}
+
+type LineRule = [RegExp, (match: RegExpMatchArray) => Omit<Diagnostic, 'source'>]
+
+/** Matcher for tools that print one diagnostic per line; the first matching rule wins */
+function lineMatcher(source: DiagnosticSource, rules: LineRule[]): ProblemMatcher {
+  return {
+    source,
+    match(output) {
+      const diagnostics: Diagnostic[] = []
+      for (const line of output.split('\n')) {
+        for (const [pattern, build] of rules) {
+          const match = line.match(pattern)
+          if (match) {
+            diagnostics.push({ source, ...build(match) })
+            break
+          }
+        }
+      }
+      return diagnostics
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// tsc — "file(12,5): error TS2322: …" or --pretty "file:12:5 - error TS2322: …"
+// ---------------------------------------------------------------------------
+
+const TSC_PLAIN = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/
+const TSC_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning|message) (TS\d+): (.*)$/
+
+export const tscMatcher: ProblemMatcher = {
+  source: 'tsc',
+  match(output) {
+    const diagnostics: Diagnostic[] = []
+    let chain: Diagnostic | null = null
+
+    for (const line of output.split('\n')) {
+      const match = line.match(TSC_PLAIN) ?? line.match(TSC_PRETTY)
+      if (match) {
+        chain = {
+          source: 'tsc',
+          file: match[1].trim(),
+          range: toRange(match[2], match[3]),
+          severity: toSeverity(match[4]),
+          code: match[5],
+          message: match[6].trim(),
+        }
+        diagnostics.push(chain)
+      } else if (chain && /^\s+\S/.test(line)) {
+        // Elaboration chain ("Type 'x' is not assignable to …"), indented under the error
+        chain.message += `\n${line.trim()}`
+      } else {
+        chain = null
+      }
+    }
+    return diagnostics
+  },
+}
+
+// ---------------------------------------------------------------------------
+// eslint — stylish (file header, then "  12:5  error  message  rule") and unix
+// ---------------------------------------------------------------------------
+
+const ESLINT_ROW = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([@\w\-/]+))?\s*$/
+const ESLINT_UNIX = /^(.+?):(\d+):(\d+): (.+?) \[(Error|Warning)(?:\/(\S+))?\]$/
+
+export const eslintMatcher: ProblemMatcher = {
+  source: 'eslint',
+  match(output) {
+    const diagnostics: Diagnostic[] = []
+    let file: string | null = null
+
+    for (const line of output.split('\n')) {
+      const row = line.match(ESLINT_ROW)
+      const unix = line.match(ESLINT_UNIX)
+      if (row && file) {
+        diagnostics.push({
+          source: 'eslint',
+          file,
+          range: toRange(row[1], row[2]),
+          severity: toSeverity(row[3]),
+          code: row[5],
+          message: row[4].trim(),
+        })
+      } else if (unix) {
+        diagnostics.push({
+          source: 'eslint',
+          file: unix[1],
+          range: toRange(unix[2], unix[3]),
+          severity: toSeverity(unix[5]),
+          code: unix[6],
+          message: unix[4],
+        })
+      } else if (/^\S/.test(line)) {
+        // Stylish prints each file's path unindented above its rows
+        file = /[\\/.]/.test(line) && !/^[✖>]/.test(line) ? line.trim() : null
+      }
+    }
+    return diagnostics
+  },
+}
+
+// ---------------------------------------------------------------------------
+// gradle — kotlinc "e: file:///…/A.kt:12:5 message" (and the older
+// "e: /…/A.kt: (12, 5): message"), javac "A.java:12: error: message"
+// ---------------------------------------------------------------------------
+
+const KOTLIN = /^([ew]): (?:file:\/\/)?(.+?):(\d+):(\d+) (.+)$/
+const KOTLIN_LEGACY = /^([ew]): (.+?): \((\d+), (\d+)\): (.+)$/
+const JAVAC = /^(.+?\.java):(\d+): (error|warning): (.+)$/
+
+export const gradleMatcher: ProblemMatcher = {
+  source: 'gradle',
+  match(output) {
+    const diagnostics: Diagnostic[] = []
+    const lines = output.split('\n')
+
+    lines.forEach((line, i) => {
+      const kotlin = line.match(KOTLIN) ?? line.match(KOTLIN_LEGACY)
+      const javac = line.match(JAVAC)
+      if (kotlin) {
+        diagnostics.push({
+          source: 'gradle',
+          file: kotlin[2],
+          range: toRange(kotlin[3], kotlin[4]),
+          severity: toSeverity(kotlin[1]),
+          message: kotlin[5].trim(),
+        })
+      } else if (javac) {
+        // javac marks the column with a caret two lines down, under the source line
+        const caret = lines[i + 2]?.match(/^(\s*)\^\s*$/)
+        diagnostics.push({
+          source: 'gradle',
+          file: javac[1],
+          range: toRange(javac[2], caret ? caret[1].length + 1 : 1),
+          severity: toSeverity(javac[3]),
+          message: javac[4].trim(),
+        })
+      }
+    })
+    return diagnostics
+  },
+}
+
+// ---------------------------------------------------------------------------
+// cargo / rustc — "error[E0308]: message" then " --> src/main.rs:4:18"
+// ---------------------------------------------------------------------------
+
+const RUST_HEADER = /^(error|warning)(?:\[(\w+)\])?: (.+)$/
+const RUST_LOCATION = /^\s*--> (.+?):(\d+):(\d+)$/
+const RUST_CARETS = /^\s*\d*\s*\|[^^]*?(\^+)/
+
+export const cargoMatcher: ProblemMatcher = {
+  source: 'cargo',
+  match(output) {
+    const diagnostics: Diagnostic[] = []
+    let header: RegExpMatchArray | null = null
+    let last: Diagnostic | null = null
+
+    for (const line of output.split('\n')) {
+      const head = line.match(RUST_HEADER)
+      const location = line.match(RUST_LOCATION)
+      if (head) {
+        header = head
+        last = null
+      } else if (location && header) {
+        last = {
+          source: 'cargo',
+          file: location[1],
+          range: toRange(location[2], location[3]),
+          severity: toSeverity(header[1]),
+          code: header[2],
+          message: header[3].trim(),
+        }
+        diagnostics.push(last)
+        header = null
+      } else if (last && last.range.endColumn === last.range.startColumn) {
+        // The first ^^^ run under the snippet is the primary span (--- marks secondary ones)
+        const carets = line.match(RUST_CARETS)
+        if (carets) last.range.endColumn = last.range.startColumn + carets[1].length
+      }
+    }
+    return diagnostics
+  },
+}
+
+// ---------------------------------------------------------------------------
+// go build / go vet — "./main.go:12:5: undefined: foo" (unindented; go test
+// logs are indented and belong to the test output parser)
+// ---------------------------------------------------------------------------
+
+export const goMatcher = lineMatcher('go', [
+  [/^(?:vet: )?(?:\.\/)?(\S+\.go):(\d+)(?::(\d+))?: (.+)$/, match => ({
+    file: match[1],
+    range: toRange(match[2], match[3]),
+    severity: 'error',
+    message: match[4].trim(),
+  })],
+])
+
+// ---------------------------------------------------------------------------
+// dotnet / msbuild — "Program.cs(12,5): error CS1002: ; expected [proj.csproj]"
+// ---------------------------------------------------------------------------
+
+export const dotnetMatcher = lineMatcher('dotnet', [
+  [/^\s*(.+?)\((\d+),(\d+)(?:,(\d+),(\d+))?\): (error|warning|info) ((?!TS)[A-Z]+\d+): (.+?)(?: \[[^\]]*\])?$/, match => ({
+    file: match[1].trim(),
+    range: toRange(match[2], match[3], match[4], match[5]),
+    severity: toSeverity(match[6]),
+    code: match[7],
+    message: match[8].trim(),
+  })],
+])
+
+// ---------------------------------------------------------------------------
+// flutter / dart analyze — "error • message • lib/main.dart:12:5 • code" and
+// the newer "error - lib/main.dart:12:5 - message - code"
+// ---------------------------------------------------------------------------
+
+export const flutterMatcher = lineMatcher('flutter', [
+  [/^\s*(error|warning|info|hint|lint) • (.+?) • (.+?):(\d+):(\d+) • (\S+)$/, match => ({
+    file: match[3],
+    range: toRange(match[4], match[5]),
+    severity: toSeverity(match[1]),
+    code: match[6],
+    message: match[2].trim(),
+  })],
+  [/^\s*(error|warning|info|hint|lint) - (.+?):(\d+):(\d+) - (.+) - (\S+)$/, match => ({
+    file: match[2],
+    range: toRange(match[3], match[4]),
+    severity: toSeverity(match[1]),
+    code: match[6],
+    message: match[5].trim(),
+  })],
+])
+
+export const PROBLEM_MATCHERS: ProblemMatcher[] = [
+  tscMatcher,
+  eslintMatcher,
+  gradleMatcher,
+  cargoMatcher,
+  goMatcher,
+  dotnetMatcher,
+  flutterMatcher,
+]
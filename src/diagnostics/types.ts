@@ -0,0 +1,44 @@
+/**
+ * Diagnostic Types
+ *
+ * Compiler and linter problems in one shape, whichever tool printed them,
+ * for the Problems panel and the agent's get_diagnostics tool.
+ */
+
+export type DiagnosticSource = 'tsc' | 'eslint' | 'gradle' | 'cargo' | 'go' | 'dotnet' | 'flutter'
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/** 1-based; tools that only report a start position get end = start */
+export interface DiagnosticRange {
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+}
+
+export interface Diagnostic {
+  source: DiagnosticSource
+  /** Workspace-relative when the file is inside the workspace */
+  file: string
+  range: DiagnosticRange
+  severity: DiagnosticSeverity
+  /** Rule or error code, e.g. TS2322, no-unused-vars, E0308 */
+  code?: string
+  message: string
+}
+
+/** Reads one tool's diagnostics out of command output; [] when there are none */
+export interface ProblemMatcher {
+  source: DiagnosticSource
+  match(output: string): Diagnostic[]
+}
+
+/** Where diagnostics for one source came from */
+export interface DiagnosticsRun {
+  source: DiagnosticSource
+  command: string
+  /** Epoch ms */
+  updatedAt: number
+  diagnostics: Diagnostic[]
+}
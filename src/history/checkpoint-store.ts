@@ -0,0 +1,286 @@
+/**
+ * Checkpoint Store
+ *
+ * Snapshots workspace files before the agent mutates them, so a bad run can be
+ * rolled back without git. One store per workspace, kept in the workspace
+ * storage dir (~/.aibuddy/workspaces/{hash}/checkpoints/):
+ *
+ *   {threadId}/manifest.json  - ordered list of snapshots for the thread
+ *   {threadId}/blobs/{sha256} - file contents, deduplicated by hash
+ *
+ * A snapshot records the file as it was *before* the agent's change for chat
+ * message N. Restoring "to before message N" puts every file back to its
+ * earliest snapshot taken at or after N (or deletes it if it did not exist).
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+
+export type CheckpointSource = 'write_to_file' | 'replace_in_file' | 'apply_diff' | 'command'
+
+export interface CheckpointEntry {
+  /** Index of the chat message whose agent actions triggered the snapshot */
+  messageIndex: number
+  /** Workspace-relative path with forward slashes */
+  filePath: string
+  /** Whether the file existed before the mutation */
+  existed: boolean
+  /** sha256 of the previous content (absent when the file did not exist) */
+  blob?: string
+  size: number
+  source: CheckpointSource
+  timestamp: number
+}
+
+export interface CheckpointManifest {
+  version: number
+  threadId: string
+  entries: CheckpointEntry[]
+}
+
+/** Files changed during one chat turn */
+export interface CheckpointTurn {
+  messageIndex: number
+  timestamp: number
+  files: string[]
+}
+
+/** A file the agent changed, in any thread */
+export interface AgentEdit {
+  filePath: string
+  /** When the agent last changed it */
+  timestamp: number
+}
+
+export interface RestoreResult {
+  restored: string[]
+  deleted: string[]
+  failed: Array<{ filePath: string; error: string }>
+}
+
+const MANIFEST_VERSION = 1
+const MAX_SNAPSHOT_SIZE = 10 * 1024 * 1024 // Skip files over 10 MB
+const MAX_DIRECTORY_FILES = 500 // Skip directories with more files than this
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules'])
+
+export class CheckpointStore {
+  constructor(
+    private readonly storageDir: string,
+    private readonly workspacePath: string,
+  ) {}
+
+  /**
+   * Record the current state of a file before it is mutated.
+   * Only the first snapshot of a file per message is kept — that is the
+   * state before message N. A directory (e.g. before `rm -r`) snapshots the
+   * files in it. Returns false when the file was skipped.
+   */
+  snapshotFile(threadId: string, messageIndex: number, filePath: string, source: CheckpointSource): boolean {
+    const relativePath = this.toRelative(filePath)
+    const directoryFiles = this.listDirectoryFiles(relativePath)
+    if (directoryFiles) {
+      return directoryFiles.map(file => this.snapshotFile(threadId, messageIndex, file, source)).every(Boolean)
+    }
+    const manifest = this.readManifest(threadId)
+
+    if (manifest.entries.some(e => e.messageIndex === messageIndex && e.filePath === relativePath)) {
+      return true
+    }
+
+    const fullPath = this.toAbsolute(relativePath)
+    const entry: CheckpointEntry = {
+      messageIndex,
+      filePath: relativePath,
+      existed: false,
+      size: 0,
+      source,
+      timestamp: Date.now(),
+    }
+
+    if (fs.existsSync(fullPath)) {
+      const stat = fs.statSync(fullPath)
+      if (!stat.isFile()) return false
+      if (stat.size > MAX_SNAPSHOT_SIZE) {
+        console.warn(`[CheckpointStore] Skipping ${relativePath} (${(stat.size / 1024 / 1024).toFixed(1)}MB exceeds snapshot limit)`)
+        return false
+      }
+      const content = fs.readFileSync(fullPath)
+      entry.existed = true
+      entry.size = content.length
+      entry.blob = this.writeBlob(threadId, content)
+    }
+
+    manifest.entries.push(entry)
+    this.writeManifest(threadId, manifest)
+    return true
+  }
+
+  /** List chat turns that have snapshots, oldest first */
+  listTurns(threadId: string): CheckpointTurn[] {
+    const turns = new Map<number, CheckpointTurn>()
+    for (const entry of this.readManifest(threadId).entries) {
+      let turn = turns.get(entry.messageIndex)
+      if (!turn) {
+        turn = { messageIndex: entry.messageIndex, timestamp: entry.timestamp, files: [] }
+        turns.set(entry.messageIndex, turn)
+      }
+      if (!turn.files.includes(entry.filePath)) turn.files.push(entry.filePath)
+    }
+    return [...turns.values()].sort((a, b) => a.messageIndex - b.messageIndex)
+  }
+
+  /** Files that restoring to before message N would touch */
+  getFilesChangedSince(threadId: string, messageIndex: number): string[] {
+    return [...this.earliestEntriesSince(threadId, messageIndex).keys()].sort()
+  }
+
+  /** Restore one file to its state before message N */
+  restoreFile(threadId: string, messageIndex: number, filePath: string): RestoreResult {
+    const relativePath = this.toRelative(filePath)
+    const entry = this.earliestEntriesSince(threadId, messageIndex).get(relativePath)
+    const result: RestoreResult = { restored: [], deleted: [], failed: [] }
+    if (!entry) {
+      result.failed.push({ filePath: relativePath, error: `No checkpoint for ${relativePath} at or after message ${messageIndex}` })
+      return result
+    }
+    this.applyEntry(threadId, entry, result)
+    return result
+  }
+
+  /** Restore every file the agent changed at or after message N */
+  restoreWorkspace(threadId: string, messageIndex: number): RestoreResult {
+    const result: RestoreResult = { restored: [], deleted: [], failed: [] }
+    for (const entry of this.earliestEntriesSince(threadId, messageIndex).values()) {
+      this.applyEntry(threadId, entry, result)
+    }
+    return result
+  }
+
+  /** Files the agent changed across every thread of the workspace, most recent first */
+  listAgentEdits(): AgentEdit[] {
+    let threadIds: string[]
+    try {
+      threadIds = fs.readdirSync(this.storageDir).filter(name => /^[\w-]+$/.test(name))
+    } catch {
+      return []
+    }
+    const latest = new Map<string, number>()
+    for (const threadId of threadIds) {
+      for (const entry of this.readManifest(threadId).entries) {
+        latest.set(entry.filePath, Math.max(latest.get(entry.filePath) ?? 0, entry.timestamp))
+      }
+    }
+    return [...latest.entries()]
+      .map(([filePath, timestamp]) => ({ filePath, timestamp }))
+      .sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /** Remove all checkpoints for a thread */
+  deleteThread(threadId: string): void {
+    fs.rmSync(this.threadDir(threadId), { recursive: true, force: true })
+  }
+
+  // --------------------------------------------------------------------------
+
+  private earliestEntriesSince(threadId: string, messageIndex: number): Map<string, CheckpointEntry> {
+    const earliest = new Map<string, CheckpointEntry>()
+    for (const entry of this.readManifest(threadId).entries) {
+      if (entry.messageIndex < messageIndex) continue
+      const existing = earliest.get(entry.filePath)
+      if (!existing || entry.messageIndex < existing.messageIndex) {
+        earliest.set(entry.filePath, entry)
+      }
+    }
+    return earliest
+  }
+
+  private applyEntry(threadId: string, entry: CheckpointEntry, result: RestoreResult): void {
+    const fullPath = this.toAbsolute(entry.filePath)
+    try {
+      if (entry.existed && entry.blob) {
+        const content = fs.readFileSync(path.join(this.threadDir(threadId), 'blobs', entry.blob))
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+        fs.writeFileSync(fullPath, content)
+        result.restored.push(entry.filePath)
+      } else {
+        // The agent created this file — restoring means removing it
+        fs.rmSync(fullPath, { force: true })
+        result.deleted.push(entry.filePath)
+      }
+    } catch (error) {
+      result.failed.push({ filePath: entry.filePath, error: (error as Error).message })
+    }
+  }
+
+  /** Workspace-relative files in a directory, or null when the path is not a directory */
+  private listDirectoryFiles(relativePath: string): string[] | null {
+    const fullPath = this.toAbsolute(relativePath)
+    if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isDirectory()) return null
+
+    const files: string[] = []
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(path.join(this.workspacePath, dir), { withFileTypes: true })) {
+        if (files.length > MAX_DIRECTORY_FILES) return
+        const child = `${dir}/${entry.name}`
+        if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) walk(child)
+        else if (entry.isFile()) files.push(child)
+      }
+    }
+    walk(relativePath)
+    if (files.length > MAX_DIRECTORY_FILES) {
+      console.warn(`[CheckpointStore] Skipping ${relativePath || '.'} (more than ${MAX_DIRECTORY_FILES} files)`)
+      return []
+    }
+    return files
+  }
+
+  private threadDir(threadId: string): string {
+    if (!/^[\w-]+$/.test(threadId)) {
+      throw new Error(`Invalid thread id: ${threadId}`)
+    }
+    return path.join(this.storageDir, threadId)
+  }
+
+  private readManifest(threadId: string): CheckpointManifest {
+    const manifestPath = path.join(this.threadDir(threadId), 'manifest.json')
+    try {
+      if (fs.existsSync(manifestPath)) {
+        return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as CheckpointManifest
+      }
+    } catch (error) {
+      console.error('[CheckpointStore] Failed to read manifest:', error)
+    }
+    return { version: MANIFEST_VERSION, threadId, entries: [] }
+  }
+
+  private writeManifest(threadId: string, manifest: CheckpointManifest): void {
+    const dir = this.threadDir(threadId)
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2))
+  }
+
+  private writeBlob(threadId: string, content: Buffer): string {
+    const hash = crypto.createHash('sha256').update(content).digest('hex')
+    const blobDir = path.join(this.threadDir(threadId), 'blobs')
+    const blobPath = path.join(blobDir, hash)
+    if (!fs.existsSync(blobPath)) {
+      fs.mkdirSync(blobDir, { recursive: true })
+      fs.writeFileSync(blobPath, content)
+    }
+    return hash
+  }
+
+  private toRelative(filePath: string): string {
+    const fullPath = path.resolve(this.workspacePath, filePath)
+    const relativePath = path.relative(this.workspacePath, fullPath)
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`Path "${filePath}" is outside the workspace "${this.workspacePath}"`)
+    }
+    return relativePath.split(path.sep).join('/')
+  }
+
+  private toAbsolute(relativePath: string): string {
+    return path.join(this.workspacePath, ...relativePath.split('/'))
+  }
+}
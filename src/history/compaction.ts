@@ -0,0 +1,131 @@
+/**
+ * Conversation Compaction
+ *
+ * When a thread outgrows the context budget (KAN-54), its oldest turns are
+ * folded into a model-written summary instead of being dropped. The summary is
+ * stored in the thread as a ChatMessage of kind 'summary', placed right after
+ * the last message it covers:
+ *
+ *   [m1 … mk, summary(m1…mk), mk+1 … mn]
+ *
+ * The model sees the latest summary plus everything after it. Compacting
+ * again folds the previous summary into the new one, so only the latest
+ * summary is ever sent. Kept free of Node imports — used by the renderer.
+ */
+
+import { countMessageTokens, IMAGE_TOKEN_ESTIMATE } from '../core/tokenizer'
+import type { ChatMessageKind } from './types'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/** The message fields compaction needs — satisfied by ChatMessage and the renderer's Message */
+export interface CompactableMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  kind?: ChatMessageKind
+  summarizedMessageIds?: string[]
+  images?: unknown[]
+}
+
+/** Most recent messages that are never folded, so the model keeps the live exchange verbatim */
+export const COMPACTION_KEEP_RECENT = 4
+
+/** Tokens set aside for the summary itself when deciding how much to fold */
+export const SUMMARY_TOKEN_RESERVE = 1_500
+
+/** Long messages are clipped in the transcript sent for summarization */
+const MAX_TRANSCRIPT_CHARS_PER_MESSAGE = 6_000
+
+export const COMPACTION_SYSTEM_PROMPT =
+  'You summarize conversations between a developer and an AI coding assistant so the conversation can continue without the original messages. ' +
+  'Be faithful and specific: never invent details that were not in the conversation.'
+
+// ============================================================================
+// Context selection
+// ============================================================================
+
+/** The latest summary (if any) and the messages after it — what the model is sent */
+export function getActiveContext<T extends CompactableMessage>(messages: T[]): { summary: T | null; messages: T[] } {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].kind === 'summary') {
+      return { summary: messages[i], messages: messages.slice(i + 1) }
+    }
+  }
+  return { summary: null, messages }
+}
+
+function messageTokens(message: CompactableMessage): number {
+  return countMessageTokens(message.content) + (message.images?.length ?? 0) * IMAGE_TOKEN_ESTIMATE
+}
+
+/**
+ * Oldest active messages to fold so the rest fits in budgetTokens. The last
+ * keepRecent messages are always kept, and the fold ends on an assistant reply
+ * so the kept history still opens with a user turn. Pass a budget of 0 to fold
+ * everything that may be folded (manual compaction).
+ */
+export function selectMessagesToCompact<T extends CompactableMessage>(
+  messages: T[],
+  budgetTokens: number,
+  keepRecent = COMPACTION_KEEP_RECENT
+): T[] {
+  const limit = messages.length - keepRecent
+  if (limit <= 0) return []
+
+  let remaining = messages.reduce((sum, m) => sum + messageTokens(m), 0)
+  let count = 0
+  while (count < limit && remaining > budgetTokens) {
+    remaining -= messageTokens(messages[count])
+    count++
+  }
+
+  while (count < limit && messages[count - 1]?.role === 'user') count++
+  while (count > 0 && messages[count - 1].role !== 'assistant') count--
+
+  return messages.slice(0, count)
+}
+
+/** Insert a summary right after the last message it covers */
+export function insertSummary<T extends CompactableMessage>(messages: T[], summary: T): T[] {
+  const covered = new Set(summary.summarizedMessageIds ?? [])
+  let index = -1
+  messages.forEach((m, i) => { if (covered.has(m.id)) index = i })
+  return [...messages.slice(0, index + 1), summary, ...messages.slice(index + 1)]
+}
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+/** User prompt asking the model to summarize the folded messages (and the summary they followed) */
+export function buildCompactionPrompt(messages: CompactableMessage[], previousSummary?: string | null): string {
+  const transcript = messages.map(m => {
+    let content = m.content
+    if (content.length > MAX_TRANSCRIPT_CHARS_PER_MESSAGE) {
+      content = `${content.slice(0, MAX_TRANSCRIPT_CHARS_PER_MESSAGE)}\n[…truncated]`
+    }
+    const images = m.images?.length ? `\n[${m.images.length} image(s) attached]` : ''
+    return `### ${m.role === 'user' ? 'User' : 'Assistant'}\n${content}${images}`
+  }).join('\n\n')
+
+  const sections = [
+    previousSummary ? `Summary of the conversation before this excerpt:\n\n${previousSummary}` : '',
+    `Conversation excerpt:\n\n${transcript}`,
+    'Write a summary that will replace everything above' + (previousSummary ? ', including the earlier summary' : '') + '. Keep:\n' +
+      '- the user\'s goals, requirements and preferences\n' +
+      '- decisions made and the reasons for them\n' +
+      '- files, commands and code that were changed or discussed\n' +
+      '- errors hit and how they were resolved\n' +
+      '- open questions and next steps\n' +
+      'Use short markdown sections with bullet points. Reply with the summary only.',
+  ]
+  return sections.filter(Boolean).join('\n\n---\n\n')
+}
+
+/** System prompt section that carries the summary into later requests */
+export function formatSummaryForContext(summary: string): string {
+  return `## Earlier conversation (summarized)\n\nOlder messages in this thread were replaced by the summary below. Treat it as established context.\n\n${summary}`
+}
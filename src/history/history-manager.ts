@@ -17,6 +17,7 @@ import * as path from 'path'
 import * as os from 'os'
 import * as crypto from 'crypto'
 import { ChatThread, ChatMessage, ChatHistoryState, HISTORY_VERSION } from './types'
+import { insertSummary } from './compaction'
 
 // Simple ID generator (replaces nanoid which is ESM-only)
 const generateId = (): string => {
@@ -193,6 +194,17 @@ export class ChatHistoryManager {
     }
   }
 
+  /**
+   * Write pending changes now (for shutdown, e.g. before the CLI exits)
+   */
+  flushSave(): void {
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer)
+      this.saveDebounceTimer = null
+      this.saveImmediate()
+    }
+  }
+
   /**
    * Get current history file size estimate in bytes
    */
@@ -259,8 +271,9 @@ export class ChatHistoryManager {
   /**
    * Add a message to a thread.
    * Content over 100KB is truncated. Per-image base64 over 400KB is rejected.
+   * The caller's id is kept when given, so renderer and stored messages match.
    */
-  addMessage(threadId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>): ChatMessage {
+  addMessage(threadId: string, message: Omit<ChatMessage, 'id' | 'timestamp'> & { id?: string }): ChatMessage {
     const thread = this.getThread(threadId)
     if (!thread) {
       throw new Error(`Thread ${threadId} not found`)
@@ -286,7 +299,7 @@ export class ChatHistoryManager {
       ...message,
       content,
       images: safeImages,
-      id: generateId(),
+      id: message.id || generateId(),
       timestamp: Date.now()
     }
 
@@ -301,6 +314,43 @@ export class ChatHistoryManager {
     return fullMessage
   }
 
+  /**
+   * Store a compaction summary, placed right after the last message it covers.
+   * The covered messages stay in the thread for display; only the model context skips them.
+   */
+  addSummary(threadId: string, content: string, summarizedMessageIds: string[]): ChatMessage {
+    const thread = this.getThread(threadId)
+    if (!thread) {
+      throw new Error(`Thread ${threadId} not found`)
+    }
+
+    const summary: ChatMessage = {
+      id: generateId(),
+      role: 'assistant',
+      kind: 'summary',
+      content,
+      summarizedMessageIds,
+      timestamp: Date.now()
+    }
+
+    thread.messages = insertSummary(thread.messages, summary)
+    thread.updatedAt = Date.now()
+    this.save()
+    return summary
+  }
+
+  /**
+   * Replace a message's content (used to edit compaction summaries)
+   */
+  updateMessageContent(threadId: string, messageId: string, content: string): boolean {
+    const message = this.getThread(threadId)?.messages.find(m => m.id === messageId)
+    if (!message) return false
+
+    message.content = content
+    this.save()
+    return true
+  }
+
   /**
    * Update thread metadata (tokens, cost, model, pin status)
    */
@@ -6,4 +6,5 @@
 
 export * from './types'
 export * from './history-manager'
-
+export * from './checkpoint-store'
+export * from './compaction'
@@ -5,6 +5,12 @@
  * Similar to Cursor's chat threads feature.
  */
 
+/**
+ * Kind of thread entry. 'summary' is a model-written digest that stands in for
+ * older turns once the thread is compacted; absent means a regular 'message'.
+ */
+export type ChatMessageKind = 'message' | 'summary'
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
@@ -28,6 +34,10 @@ export interface ChatMessage {
   tokensOut?: number
   /** Response time in milliseconds - KAN-179 */
   responseTime?: number
+  /** Entry kind — defaults to 'message' */
+  kind?: ChatMessageKind
+  /** For summaries: ids of the earlier messages the summary replaces in the model context */
+  summarizedMessageIds?: string[]
 }
 
 export interface ChatThread {
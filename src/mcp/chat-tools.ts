@@ -0,0 +1,112 @@
+/**
+ * MCP Tools in Chat
+ *
+ * The desktop chat has no tool_use round-trip: the model asks for actions in
+ * fenced blocks, like the bash blocks it runs commands with. MCP tool calls
+ * use an `mcp` block holding one JSON object:
+ *
+ *   ```mcp
+ *   {"tool": "mcp__github__search_issues", "arguments": {"query": "crash"}}
+ *   ```
+ *
+ * Calls go through the same permission flow as the agent's tool_use calls:
+ * the main process checks stored preferences and audits every call.
+ *
+ * This file has no Node imports so the renderer can use it.
+ */
+
+import type { PermissionDecision } from '../skills/types'
+import { isMcpToolName, type McpToolCallResponse, type McpToolInfo } from './types'
+
+export const MCP_CALL_LANGUAGE = 'mcp'
+
+/** A tool call the model asked for in an `mcp` block */
+export interface McpChatToolCall {
+  qualifiedName: string
+  args: Record<string, unknown>
+}
+
+export interface McpToolCallRequest extends McpChatToolCall {
+  decision?: PermissionDecision
+}
+
+/** Asks the user about a call the stored preferences don't decide */
+export type McpPermissionPrompt = (request: { server: string; tool: string; description: string }) => Promise<PermissionDecision>
+
+const MAX_SCHEMA_LENGTH = 400
+
+/** System prompt section listing the MCP tools and how to call them; empty without tools */
+export function buildMcpToolsPrompt(tools: McpToolInfo[]): string {
+  if (tools.length === 0) return ''
+  const lines = tools.map(tool => {
+    const schema = JSON.stringify(tool.inputSchema)
+    const args = schema.length > MAX_SCHEMA_LENGTH ? `${schema.slice(0, MAX_SCHEMA_LENGTH)}…` : schema
+    return `- ${tool.qualifiedName} (server "${tool.server}"): ${tool.description}\n  Arguments (JSON schema): ${args}`
+  })
+  return [
+    '## MCP Tools',
+    'The user has MCP servers connected. To call one of their tools, put a fenced code block tagged `mcp` in your reply with one JSON object:',
+    '```mcp\n{"tool": "<tool name>", "arguments": { ... }}\n```',
+    'Use one block per call. The user approves each call and the results are shown in the chat. Do not use bash to reach these services instead.',
+    '',
+    'Available tools:',
+    ...lines,
+  ].join('\n')
+}
+
+/**
+ * Tool calls in a reply's `mcp` blocks. Blocks that aren't valid calls come
+ * back with an error so the user sees why nothing ran.
+ */
+export function parseMcpToolCalls(text: string): Array<McpChatToolCall | { error: string }> {
+  const calls: Array<McpChatToolCall | { error: string }> = []
+  const blockRegex = new RegExp('```' + MCP_CALL_LANGUAGE + '[ \\t]*\\n([\\s\\S]*?)```', 'g')
+  for (const match of text.matchAll(blockRegex)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(match[1])
+    } catch {
+      calls.push({ error: 'MCP call is not valid JSON' })
+      continue
+    }
+    const { tool, arguments: args } = (parsed ?? {}) as { tool?: unknown; arguments?: unknown }
+    if (typeof tool !== 'string' || !isMcpToolName(tool)) {
+      calls.push({ error: `Not an MCP tool: ${String(tool)}` })
+    } else if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      calls.push({ error: `Arguments for ${tool} must be a JSON object` })
+    } else {
+      calls.push({ qualifiedName: tool, args: (args as Record<string, unknown>) ?? {} })
+    }
+  }
+  return calls
+}
+
+/**
+ * Call an MCP tool through the main process. When the stored preferences
+ * don't decide, the user is asked and the call is sent again with the decision;
+ * without a prompt the call is denied.
+ */
+export async function runMcpToolCall(
+  requestToolCall: (request: McpToolCallRequest) => Promise<McpToolCallResponse>,
+  call: McpChatToolCall,
+  askPermission: McpPermissionPrompt | null
+): Promise<McpToolCallResponse> {
+  const response = await requestToolCall(call)
+  if (response.status !== 'needs_confirmation') return response
+  const decision: PermissionDecision = askPermission
+    ? await askPermission({ server: response.server, tool: response.tool, description: response.description })
+    : 'deny'
+  return requestToolCall({ ...call, decision })
+}
+
+/** Tool result text for the model */
+export function formatMcpToolResponse(qualifiedName: string, response: McpToolCallResponse): string {
+  if (response.status === 'denied') {
+    return `[DENIED] ${qualifiedName}: ${response.error}`
+  }
+  if (response.status === 'executed') {
+    const { result } = response
+    return result.success ? result.output || '(no output)' : `[ERROR] ${result.server}/${result.tool}: ${result.error}`
+  }
+  return `[ERROR] ${qualifiedName}: permission was not granted`
+}
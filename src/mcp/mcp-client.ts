@@ -0,0 +1,229 @@
+/**
+ * MCP Stdio Client
+ *
+ * Minimal Model Context Protocol client for servers launched as child
+ * processes. Messages are newline-delimited JSON-RPC 2.0 on stdin/stdout;
+ * stderr is forwarded to the console for debugging.
+ *
+ * Supported requests: initialize, tools/list, tools/call.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import type { McpServerConfig, McpTool } from './types'
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05'
+
+const REQUEST_TIMEOUT_MS = 30_000
+const TOOL_CALL_TIMEOUT_MS = 120_000
+
+export class McpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+  ) {
+    super(message)
+    this.name = 'McpError'
+  }
+}
+
+/** A request, notification or response on the wire */
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string | null
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: { code?: number; message?: string }
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/** Content block in a tools/call result */
+interface McpContent {
+  type: string
+  text?: string
+  mimeType?: string
+  resource?: { uri: string; text?: string }
+}
+
+export interface McpCallResult {
+  content: McpContent[]
+  isError?: boolean
+}
+
+export class McpStdioClient {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextId = 1
+  private buffer = ''
+  private onExit: ((error?: Error) => void) | null = null
+
+  constructor(
+    readonly name: string,
+    private readonly config: McpServerConfig,
+    private readonly defaultCwd: string,
+  ) {}
+
+  get isRunning(): boolean {
+    return this.process !== null
+  }
+
+  /** Launch the server and perform the initialize handshake */
+  async start(onExit?: (error?: Error) => void): Promise<void> {
+    if (this.process) return
+    this.onExit = onExit ?? null
+
+    const child = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.config.cwd || this.defaultCwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32',
+    })
+    this.process = child
+
+    child.stdin.on('error', (error) => console.warn(`[MCP:${this.name}] stdin error: ${error.message}`))
+    child.stdout.setEncoding('utf-8')
+    child.stdout.on('data', (chunk: string) => this.handleData(chunk))
+    child.stderr.on('data', (chunk: Buffer) => {
+      console.warn(`[MCP:${this.name}] ${chunk.toString().trimEnd()}`)
+    })
+    child.on('error', (error) => this.handleExit(new McpError(`Failed to launch "${this.config.command}": ${error.message}`)))
+    child.on('exit', (code, signal) => {
+      this.handleExit(code === 0 || signal === 'SIGTERM' ? undefined : new McpError(`Server exited (code ${code ?? signal})`))
+    })
+
+    await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'aibuddy-desktop', version: '1.0.0' },
+    })
+    this.notify('notifications/initialized')
+  }
+
+  /** List all tools, following pagination cursors */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = []
+    let cursor: string | undefined
+    do {
+      const result = await this.request<{ tools?: McpTool[]; nextCursor?: string }>('tools/list', cursor ? { cursor } : {})
+      tools.push(...(result?.tools ?? []))
+      cursor = result?.nextCursor
+    } while (cursor)
+    return tools
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallResult> {
+    return this.request<McpCallResult>('tools/call', { name, arguments: args }, TOOL_CALL_TIMEOUT_MS)
+  }
+
+  stop(): void {
+    if (!this.process) return
+    const child = this.process
+    this.handleExit()
+    child.kill()
+  }
+
+  // --------------------------------------------------------------------------
+
+  private request<T = unknown>(method: string, params: Record<string, unknown>, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+    if (!this.process) {
+      return Promise.reject(new McpError(`Server "${this.name}" is not running`))
+    }
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new McpError(`${method} timed out after ${timeoutMs / 1000}s`))
+      }, timeoutMs)
+      this.pending.set(id, { resolve: value => resolve(value as T), reject, timer })
+      this.send({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) })
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.process?.stdin.write(JSON.stringify(message) + '\n')
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk
+    let newline: number
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).trim()
+      this.buffer = this.buffer.slice(newline + 1)
+      if (!line) continue
+
+      let message: JsonRpcMessage
+      try {
+        message = JSON.parse(line)
+      } catch {
+        console.warn(`[MCP:${this.name}] Ignoring non-JSON output: ${line.slice(0, 200)}`)
+        continue
+      }
+      this.handleMessage(message)
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Server → client requests (sampling, roots, ping) are not supported
+    if (message.method !== undefined) {
+      if (message.id !== undefined) {
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          ...(message.method === 'ping'
+            ? { result: {} }
+            : { error: { code: -32601, message: `Method not supported: ${message.method}` } }),
+        })
+      }
+      return
+    }
+
+    // Responses echo the numeric ids this client sends
+    if (typeof message.id !== 'number') return
+    const pending = this.pending.get(message.id)
+    if (!pending) return
+    this.pending.delete(message.id)
+    clearTimeout(pending.timer)
+
+    if (message.error) {
+      pending.reject(new McpError(message.error.message || 'Unknown MCP error', message.error.code))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  private handleExit(error?: Error): void {
+    if (!this.process) return
+    this.process = null
+    this.buffer = ''
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer)
+      pending.reject(error ?? new McpError(`Server "${this.name}" stopped`))
+    }
+    this.pending.clear()
+    this.onExit?.(error)
+  }
+}
+
+/** Flatten a tools/call result into text for the model */
+export function formatCallResult(result: McpCallResult): string {
+  const parts = (result.content ?? []).map(block => {
+    switch (block.type) {
+      case 'text':
+        return block.text ?? ''
+      case 'resource':
+        return block.resource?.text ?? `[resource: ${block.resource?.uri}]`
+      default:
+        return `[${block.type}${block.mimeType ? `: ${block.mimeType}` : ''}]`
+    }
+  })
+  return parts.join('\n')
+}
@@ -0,0 +1,247 @@
+/**
+ * MCP Manager
+ *
+ * Owns the MCP servers for the open workspace: reads the global and
+ * workspace mcp.json files, launches each enabled server, caches the tools it
+ * advertises and routes agent tool calls to the right server.
+ *
+ * Tool names are namespaced as mcp__{server}__{tool} so they cannot collide
+ * with the built-in agent tools or with each other.
+ *
+ * Workspace servers come from the repo, so opening a cloned folder must not
+ * run them: they only start once the user has trusted that exact mcp.json.
+ */
+
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { homedir } from 'os'
+import { McpStdioClient, McpError, formatCallResult } from './mcp-client'
+import { qualifyToolName } from './types'
+import type {
+  McpConfigFile,
+  McpConfigSource,
+  McpServerConfig,
+  McpServerStatus,
+  McpTool,
+  McpToolCallResult,
+  McpToolInfo,
+  McpTrustRequest,
+  McpWorkspaceTrust,
+} from './types'
+
+const MAX_OUTPUT_LENGTH = 50_000
+
+export const GLOBAL_MCP_CONFIG_PATH = path.join(homedir(), '.aibuddy', 'mcp.json')
+
+export function getWorkspaceMcpConfigPath(workspacePath: string): string {
+  return path.join(workspacePath, '.aibuddy', 'mcp.json')
+}
+
+/** Read an mcp.json file; a missing file means no servers */
+export function readMcpConfig(filePath: string): Record<string, McpServerConfig> {
+  if (!fs.existsSync(filePath)) return {}
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as McpConfigFile
+    const servers: Record<string, McpServerConfig> = {}
+    for (const [name, config] of Object.entries(parsed.mcpServers ?? {})) {
+      if (config && typeof config.command === 'string' && config.command.trim()) {
+        servers[name] = config
+      } else {
+        console.warn(`[MCP] Ignoring server "${name}" in ${filePath}: missing "command"`)
+      }
+    }
+    return servers
+  } catch (error) {
+    console.error(`[MCP] Failed to read ${filePath}:`, error)
+    return {}
+  }
+}
+
+/** sha256 of a workspace's mcp.json, or null when it has none */
+export function hashWorkspaceMcpConfig(workspacePath: string): string | null {
+  try {
+    return crypto.createHash('sha256').update(fs.readFileSync(getWorkspaceMcpConfigPath(workspacePath))).digest('hex')
+  } catch {
+    return null
+  }
+}
+
+function describeCommand(config: McpServerConfig): string {
+  return [config.command, ...(config.args ?? [])].join(' ')
+}
+
+function isTrusted(workspacePath: string, trust: McpWorkspaceTrust | null): boolean {
+  return !!trust?.trusted && trust.hash === hashWorkspaceMcpConfig(workspacePath)
+}
+
+interface ServerEntry {
+  name: string
+  source: McpConfigSource
+  config: McpServerConfig
+  client: McpStdioClient
+  status: McpServerStatus
+  tools: McpTool[]
+}
+
+export class McpManager {
+  private servers = new Map<string, ServerEntry>()
+  private workspacePath: string | null = null
+
+  constructor(private readonly globalConfigPath: string = GLOBAL_MCP_CONFIG_PATH) {}
+
+  /**
+   * Load config for a workspace (or global-only when null) and bring the
+   * running servers in line with it. Unchanged servers keep running.
+   * Workspace servers only start when `trust` trusts the current mcp.json;
+   * otherwise they are listed as 'untrusted' and global servers keep their names.
+   */
+  async configure(workspacePath: string | null, trust: McpWorkspaceTrust | null = null): Promise<McpServerStatus[]> {
+    this.workspacePath = workspacePath
+    const wanted = new Map<string, { source: McpConfigSource; config: McpServerConfig; untrusted?: boolean }>()
+    for (const [name, config] of Object.entries(readMcpConfig(this.globalConfigPath))) {
+      wanted.set(name, { source: 'global', config })
+    }
+    if (workspacePath) {
+      const trusted = isTrusted(workspacePath, trust)
+      for (const [name, config] of Object.entries(readMcpConfig(getWorkspaceMcpConfigPath(workspacePath)))) {
+        if (trusted) wanted.set(name, { source: 'workspace', config })
+        else if (!wanted.has(name)) wanted.set(name, { source: 'workspace', config, untrusted: true })
+      }
+    }
+
+    for (const [name, entry] of this.servers) {
+      const next = wanted.get(name)
+      const wasUntrusted = entry.status.state === 'untrusted'
+      if (!next || next.source !== entry.source || !!next.untrusted !== wasUntrusted ||
+        JSON.stringify(next.config) !== JSON.stringify(entry.config)) {
+        entry.client.stop()
+        this.servers.delete(name)
+      }
+    }
+
+    const starts: Promise<void>[] = []
+    for (const [name, { source, config, untrusted }] of wanted) {
+      if (this.servers.has(name)) continue
+      const idle = untrusted ? 'untrusted' : config.disabled ? 'stopped' : null
+      const entry: ServerEntry = {
+        name,
+        source,
+        config,
+        client: new McpStdioClient(name, config, workspacePath || homedir()),
+        status: { name, source, state: idle ?? 'starting', toolCount: 0 },
+        tools: [],
+      }
+      this.servers.set(name, entry)
+      if (!idle) starts.push(this.startServer(entry))
+    }
+    await Promise.all(starts)
+    return this.getStatus()
+  }
+
+  /**
+   * What to ask the user before the workspace's servers may start, or null
+   * when it has none or the user already decided about this version of the file
+   */
+  getTrustRequest(workspacePath: string, trust: McpWorkspaceTrust | null): McpTrustRequest | null {
+    const hash = hashWorkspaceMcpConfig(workspacePath)
+    if (!hash || trust?.hash === hash) return null
+    const servers = Object.entries(readMcpConfig(getWorkspaceMcpConfigPath(workspacePath)))
+      .filter(([, config]) => !config.disabled)
+      .map(([name, config]) => ({ name, command: describeCommand(config) }))
+    return servers.length > 0 ? { hash, servers } : null
+  }
+
+  getWorkspacePath(): string | null {
+    return this.workspacePath
+  }
+
+  getStatus(): McpServerStatus[] {
+    return [...this.servers.values()].map(entry => ({ ...entry.status }))
+  }
+
+  /** Tools from every running server, with model-facing names */
+  getTools(): McpToolInfo[] {
+    const tools: McpToolInfo[] = []
+    for (const entry of this.servers.values()) {
+      if (entry.status.state !== 'running') continue
+      for (const tool of entry.tools) {
+        tools.push({
+          server: entry.name,
+          tool: tool.name,
+          qualifiedName: qualifyToolName(entry.name, tool.name),
+          description: tool.description || `${tool.name} (from MCP server "${entry.name}")`,
+          inputSchema: tool.inputSchema ?? { type: 'object', properties: {} },
+        })
+      }
+    }
+    return tools
+  }
+
+  /** Map a model-facing tool name back to its server and tool */
+  resolveTool(qualifiedName: string): McpToolInfo | undefined {
+    return this.getTools().find(t => t.qualifiedName === qualifiedName)
+  }
+
+  async callTool(qualifiedName: string, args: Record<string, unknown>): Promise<McpToolCallResult> {
+    const start = performance.now()
+    const info = this.resolveTool(qualifiedName)
+    if (!info) {
+      return { success: false, output: '', error: `Unknown MCP tool: ${qualifiedName}`, server: '', tool: qualifiedName, durationMs: 0 }
+    }
+    const entry = this.servers.get(info.server)!
+
+    try {
+      const result = await entry.client.callTool(info.tool, args)
+      let output = formatCallResult(result)
+      if (output.length > MAX_OUTPUT_LENGTH) {
+        output = output.substring(0, MAX_OUTPUT_LENGTH) + '\n... (truncated)'
+      }
+      return {
+        success: !result.isError,
+        output,
+        error: result.isError ? output || 'Tool reported an error' : undefined,
+        server: info.server,
+        tool: info.tool,
+        durationMs: Math.round(performance.now() - start),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: (error as Error).message,
+        server: info.server,
+        tool: info.tool,
+        durationMs: Math.round(performance.now() - start),
+      }
+    }
+  }
+
+  stopAll(): void {
+    for (const entry of this.servers.values()) {
+      entry.client.stop()
+    }
+    this.servers.clear()
+  }
+
+  // --------------------------------------------------------------------------
+
+  private async startServer(entry: ServerEntry): Promise<void> {
+    try {
+      await entry.client.start((error) => {
+        // Ignore exits of servers that were replaced or removed
+        if (this.servers.get(entry.name) !== entry) return
+        entry.status = { ...entry.status, state: error ? 'error' : 'stopped', error: error?.message, toolCount: 0 }
+        entry.tools = []
+      })
+      entry.tools = await entry.client.listTools()
+      entry.status = { ...entry.status, state: 'running', toolCount: entry.tools.length, error: undefined }
+      console.log(`[MCP] ${entry.name}: ${entry.tools.length} tool(s) available`)
+    } catch (error) {
+      const message = error instanceof McpError ? error.message : `Failed to start: ${(error as Error).message}`
+      console.error(`[MCP] ${entry.name}: ${message}`)
+      entry.client.stop()
+      entry.status = { ...entry.status, state: 'error', error: message, toolCount: 0 }
+    }
+  }
+}
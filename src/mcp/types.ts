@@ -0,0 +1,106 @@
+/**
+ * MCP Data Model
+ *
+ * Types for Model Context Protocol servers the agent can call tools on.
+ * Servers are configured in the same shape other MCP hosts use:
+ *
+ *   { "mcpServers": { "github": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"] } } }
+ *
+ * Global config lives in ~/.aibuddy/mcp.json, per-workspace config in
+ * {workspace}/.aibuddy/mcp.json. A workspace server overrides a global one
+ * with the same name.
+ *
+ * This file has no Node imports so the renderer-side agent can use it.
+ */
+
+export type McpConfigSource = 'global' | 'workspace'
+
+/** One stdio server entry in mcp.json */
+export interface McpServerConfig {
+  command: string
+  args?: string[]
+  env?: Record<string, string>
+  /** Working directory (defaults to the workspace, or the home dir for global servers) */
+  cwd?: string
+  /** Keep the entry but do not launch it */
+  disabled?: boolean
+}
+
+export interface McpConfigFile {
+  mcpServers?: Record<string, McpServerConfig>
+}
+
+/** 'untrusted': a workspace server that waits for the user to trust the workspace's mcp.json */
+export type McpServerState = 'starting' | 'running' | 'error' | 'stopped' | 'untrusted'
+
+/** Status of a configured server, for the UI */
+export interface McpServerStatus {
+  name: string
+  source: McpConfigSource
+  state: McpServerState
+  toolCount: number
+  error?: string
+}
+
+/**
+ * The user's decision about a workspace mcp.json, stored per workspace
+ * outside the repo. It covers one version of the file: when the file
+ * changes, its servers wait for a new decision.
+ */
+export interface McpWorkspaceTrust {
+  /** sha256 of the mcp.json the decision was made for */
+  hash: string
+  trusted: boolean
+}
+
+/** What the user is asked before a workspace's servers may start */
+export interface McpTrustRequest {
+  hash: string
+  servers: Array<{ name: string; command: string }>
+}
+
+/** A tool advertised by an MCP server (tools/list) */
+export interface McpTool {
+  name: string
+  description?: string
+  inputSchema: Record<string, unknown>
+}
+
+/** A server tool as exposed to the model */
+export interface McpToolInfo {
+  server: string
+  tool: string
+  /** Name sent to the model: mcp__{server}__{tool} */
+  qualifiedName: string
+  description: string
+  inputSchema: Record<string, unknown>
+}
+
+/** Result of tools/call, flattened to text for the agent */
+export interface McpToolCallResult {
+  success: boolean
+  output: string
+  error?: string
+  server: string
+  tool: string
+  durationMs: number
+}
+
+/** Response to a permission-checked tool call — mirrors skills:requestToolExecution */
+export type McpToolCallResponse =
+  | { status: 'executed'; result: McpToolCallResult }
+  | { status: 'denied'; error: string }
+  | { status: 'needs_confirmation'; server: string; tool: string; description: string }
+
+export const MCP_TOOL_PREFIX = 'mcp__'
+const MAX_TOOL_NAME_LENGTH = 64
+
+/** Build the model-facing name for a server tool */
+export function qualifyToolName(server: string, tool: string): string {
+  const clean = (s: string) => s.replace(/[^a-zA-Z0-9_-]/g, '_')
+  return `${MCP_TOOL_PREFIX}${clean(server)}__${clean(tool)}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+export function isMcpToolName(name: string): boolean {
+  return name.startsWith(MCP_TOOL_PREFIX)
+}
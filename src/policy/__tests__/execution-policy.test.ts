@@ -0,0 +1,253 @@
+/**
+ * Execution Policy Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { AutoModeManager } from '../../agent/auto-mode-manager'
+import {
+  NO_POLICY,
+  decideCommand,
+  evaluateCommandPolicy,
+  evaluateWritePolicy,
+  matchesCommandPattern,
+  matchesPathGlob,
+  parseExecutionPolicy,
+} from '../execution-policy'
+import { loadExecutionPolicy } from '../policy-loader'
+import type { ExecutionPolicy } from '../types'
+
+function policy(overrides: Partial<ExecutionPolicy>): ExecutionPolicy {
+  return { ...NO_POLICY, source: 'workspace', path: '/ws/.aibuddy/policy.json', ...overrides }
+}
+
+describe('parseExecutionPolicy', () => {
+  it('reads every field', () => {
+    const result = parseExecutionPolicy(JSON.stringify({
+      $schema: 'https://example.com/policy.schema.json',
+      autoMode: 'conservative',
+      allowCommands: ['npm run *'],
+      denyCommands: ['git push --force'],
+      protectedPaths: ['.env*'],
+      confirm: { gitPush: true, packageInstall: true },
+    }), 'workspace', '/ws/.aibuddy/policy.json')
+
+    expect(result).toEqual({
+      source: 'workspace',
+      path: '/ws/.aibuddy/policy.json',
+      autoMode: 'conservative',
+      allowCommands: ['npm run *'],
+      denyCommands: ['git push --force'],
+      protectedPaths: ['.env*'],
+      confirmGitPush: true,
+      confirmPackageInstall: true,
+    })
+  })
+
+  it('fails closed on invalid JSON', () => {
+    const result = parseExecutionPolicy('{ autoMode: ', 'global', '/home/me/.aibuddy/policy.json')
+    expect(result.autoMode).toBe('off')
+    expect(result.error).toContain('Invalid /home/me/.aibuddy/policy.json')
+  })
+
+  it('rejects unknown keys and bad values', () => {
+    expect(parseExecutionPolicy('{"denyCommand": ["rm"]}', 'workspace').error).toContain('unknown key "denyCommand"')
+    expect(parseExecutionPolicy('{"autoMode": "yolo"}', 'workspace').error).toContain('"autoMode" must be one of')
+    expect(parseExecutionPolicy('{"allowCommands": "npm test"}', 'workspace').error).toContain('array of non-empty strings')
+    expect(parseExecutionPolicy('{"confirm": {"gitPush": "yes"}}', 'workspace').error).toContain('"confirm.gitPush" must be true or false')
+    expect(parseExecutionPolicy('[]', 'workspace').error).toContain('expected a JSON object')
+  })
+})
+
+describe('matchesCommandPattern', () => {
+  it('matches leading words', () => {
+    expect(matchesCommandPattern('git push origin main', 'git push')).toBe(true)
+    expect(matchesCommandPattern('git pushx', 'git push')).toBe(false)
+    expect(matchesCommandPattern('git status', 'git push')).toBe(false)
+  })
+
+  it('supports wildcards', () => {
+    expect(matchesCommandPattern('npm run build', 'npm run *')).toBe(true)
+    expect(matchesCommandPattern('git push --force-with-lease', 'git push --force*')).toBe(true)
+    expect(matchesCommandPattern('npm test', 'npm run *')).toBe(false)
+  })
+})
+
+describe('matchesPathGlob', () => {
+  it('matches patterns without a slash at any depth', () => {
+    expect(matchesPathGlob('.env', '.env*')).toBe(true)
+    expect(matchesPathGlob('apps/web/.env.local', '.env*')).toBe(true)
+    expect(matchesPathGlob('src/env.ts', '.env*')).toBe(false)
+  })
+
+  it('anchors patterns with a slash and covers directory contents', () => {
+    expect(matchesPathGlob('infra/prod/main.tf', 'infra')).toBe(true)
+    expect(matchesPathGlob('infra/prod/main.tf', 'infra/**')).toBe(true)
+    expect(matchesPathGlob('apps/infra/main.tf', '/infra')).toBe(false)
+    expect(matchesPathGlob('db/migrations/001.sql', 'db/migrations/*.sql')).toBe(true)
+    expect(matchesPathGlob('db/migrations/old/001.sql', 'db/migrations/*.sql')).toBe(false)
+  })
+})
+
+describe('evaluateCommandPolicy', () => {
+  it('returns auto when no file exists', () => {
+    expect(evaluateCommandPolicy(NO_POLICY, 'npm test').verdict).toBe('auto')
+  })
+
+  it('denies a matching segment anywhere in a compound command', () => {
+    const result = evaluateCommandPolicy(policy({ denyCommands: ['git push'] }), 'npm test && git push origin main')
+    expect(result.verdict).toBe('deny')
+    expect(result.reason).toContain('"git push"')
+  })
+
+  it('sees through command wrappers', () => {
+    const result = evaluateCommandPolicy(policy({ denyCommands: ['terraform apply'] }), 'env TF_LOG=1 terraform apply')
+    expect(result.verdict).toBe('deny')
+  })
+
+  it('denies redirects into protected paths', () => {
+    const rules = policy({ protectedPaths: ['.env*'] })
+    expect(evaluateCommandPolicy(rules, 'echo KEY=1 >> .env', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'echo KEY=1 > /ws/config/.env.local', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'npm test > out.log 2>&1', '/ws').verdict).toBe('auto')
+  })
+
+  it('denies writers whose path arguments are protected', () => {
+    const rules = policy({ protectedPaths: ['.env*', 'infra/**'] })
+    expect(evaluateCommandPolicy(rules, 'rm -f .env', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'mv /ws/infra/main.tf main.tf', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'cp .env.example .env', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'echo KEY=1 | tee -a .env', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, "sed -i 's/a/b/' infra/vars.tf", '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'truncate -s 0 .env', '/ws').verdict).toBe('deny')
+  })
+
+  it('resolves paths against cd and the directory the command runs in', () => {
+    const rules = policy({ protectedPaths: ['infra/**'] })
+    expect(evaluateCommandPolicy(rules, 'cd infra && echo x > main.tf', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'cd src && rm -f ../infra/main.tf', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'echo x > main.tf', '/ws', '/ws/infra').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'echo x > main.tf', '/ws', 'infra').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'cd infra && cat main.tf', '/ws').verdict).toBe('confirm')
+    expect(evaluateCommandPolicy(rules, 'echo x > main.tf', '/ws', '/ws/src').verdict).toBe('auto')
+  })
+
+  it('denies deleting a directory that holds protected files', () => {
+    const rules = policy({ protectedPaths: ['infra/**', 'deploy/*.yaml', '.env*'] })
+    expect(evaluateCommandPolicy(rules, 'rm -rf infra', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'rm -rf deploy/', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'rm -rf .', '/ws').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'rm -rf ..', '/ws', '/ws/src').verdict).toBe('deny')
+    expect(evaluateCommandPolicy(rules, 'rm -rf build', '/ws').verdict).toBe('auto')
+    expect(evaluateCommandPolicy(rules, 'rm -rf /tmp/cache', '/ws').verdict).toBe('auto')
+  })
+
+  it('asks when a protected path is passed to any other program', () => {
+    const rules = policy({ protectedPaths: ['.env*'], allowCommands: ['node *'] })
+    const result = evaluateCommandPolicy(rules, 'node scripts/rotate.js .env', '/ws')
+    expect(result.verdict).toBe('confirm')
+    expect(result.reason).toContain('.env is protected')
+    expect(evaluateCommandPolicy(rules, 'node scripts/rotate.js', '/ws').verdict).toBe('allow')
+  })
+
+  it('asks for git push and package installs when configured', () => {
+    const rules = policy({ confirmGitPush: true, confirmPackageInstall: true, allowCommands: ['git *', 'npm *'] })
+    expect(evaluateCommandPolicy(rules, 'git -C app push').verdict).toBe('confirm')
+    expect(evaluateCommandPolicy(rules, 'npm install lodash').verdict).toBe('confirm')
+    expect(evaluateCommandPolicy(rules, 'pip install requests').verdict).toBe('confirm')
+    expect(evaluateCommandPolicy(rules, 'git status').verdict).toBe('allow')
+  })
+
+  it('allows only when every segment matches an allow rule', () => {
+    const rules = policy({ allowCommands: ['npm run *', 'npm test'] })
+    expect(evaluateCommandPolicy(rules, 'npm run lint && npm test').verdict).toBe('allow')
+    expect(evaluateCommandPolicy(rules, 'npm run lint && curl example.com').verdict).toBe('auto')
+  })
+
+  it('asks for everything when auto-mode is off or the file is invalid', () => {
+    expect(evaluateCommandPolicy(policy({ autoMode: 'off' }), 'ls').verdict).toBe('confirm')
+    const broken = parseExecutionPolicy('nope', 'workspace')
+    expect(evaluateCommandPolicy(broken, 'ls').verdict).toBe('confirm')
+  })
+})
+
+describe('evaluateWritePolicy', () => {
+  const rules = policy({ protectedPaths: ['.env*', 'infra/**'] })
+
+  it('denies protected paths', () => {
+    expect(evaluateWritePolicy(rules, '/ws', '/ws/infra/main.tf').verdict).toBe('deny')
+    expect(evaluateWritePolicy(rules, '/ws', '.env').verdict).toBe('deny')
+  })
+
+  it('leaves other files to auto-mode', () => {
+    expect(evaluateWritePolicy(rules, '/ws', '/ws/src/index.ts').verdict).toBe('auto')
+    expect(evaluateWritePolicy(policy({ autoMode: 'off' }), '/ws', 'src/index.ts').verdict).toBe('confirm')
+  })
+})
+
+describe('decideCommand', () => {
+  it('uses the auto-mode level pinned by the policy', () => {
+    const aggressive = new AutoModeManager({ enabled: true, level: 'aggressive' })
+    expect(decideCommand(NO_POLICY, aggressive, 'npm install lodash').verdict).toBe('allow')
+
+    const pinned = policy({ autoMode: 'conservative' })
+    expect(decideCommand(pinned, aggressive, 'npm install lodash').verdict).toBe('confirm')
+    expect(decideCommand(pinned, aggressive, 'git status')).toEqual({ verdict: 'allow', reason: 'Auto-approved (conservative)' })
+  })
+
+  it('never returns auto', () => {
+    const manager = new AutoModeManager({ enabled: true, level: 'balanced' })
+    expect(decideCommand(NO_POLICY, manager, 'rm -rf /').verdict).toBe('confirm')
+    expect(decideCommand(policy({ denyCommands: ['rm'] }), manager, 'rm -rf build').verdict).toBe('deny')
+  })
+})
+
+describe('loadExecutionPolicy', () => {
+  let root: string
+  let workspace: string
+  let globalPath: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-policy-'))
+    workspace = path.join(root, 'ws')
+    globalPath = path.join(root, 'home', 'policy.json')
+    fs.mkdirSync(path.join(workspace, '.aibuddy'), { recursive: true })
+    fs.mkdirSync(path.dirname(globalPath), { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('returns NO_POLICY when neither file exists', () => {
+    expect(loadExecutionPolicy(workspace, globalPath)).toBe(NO_POLICY)
+  })
+
+  it('falls back to the global file', () => {
+    fs.writeFileSync(globalPath, JSON.stringify({ denyCommands: ['git push'] }))
+    const result = loadExecutionPolicy(workspace, globalPath)
+    expect(result.source).toBe('global')
+    expect(result.denyCommands).toEqual(['git push'])
+    expect(loadExecutionPolicy(null, globalPath).source).toBe('global')
+  })
+
+  it('prefers the workspace file without merging', () => {
+    fs.writeFileSync(globalPath, JSON.stringify({ denyCommands: ['git push'] }))
+    fs.writeFileSync(path.join(workspace, '.aibuddy', 'policy.json'), JSON.stringify({ autoMode: 'off' }))
+    const result = loadExecutionPolicy(workspace, globalPath)
+    expect(result.source).toBe('workspace')
+    expect(result.autoMode).toBe('off')
+    expect(result.denyCommands).toEqual([])
+  })
+
+  it('fails closed on an invalid workspace file instead of using the global one', () => {
+    fs.writeFileSync(globalPath, JSON.stringify({ autoMode: 'aggressive' }))
+    fs.writeFileSync(path.join(workspace, '.aibuddy', 'policy.json'), '{')
+    const result = loadExecutionPolicy(workspace, globalPath)
+    expect(result.source).toBe('workspace')
+    expect(result.autoMode).toBe('off')
+    expect(result.error).toBeDefined()
+  })
+})
@@ -0,0 +1,352 @@
+/**
+ * Execution Policy
+ *
+ * Validates policy.json and evaluates commands and file writes against it.
+ * Commands are split with the shell parser, so a deny rule for `git push`
+ * also catches `npm test && git push`. No Node APIs — the renderer uses this
+ * directly; reading the files lives in policy-loader.ts.
+ *
+ * A policy file that exists but is invalid fails closed: nothing is
+ * auto-approved until it is fixed.
+ */
+
+import { AutoModeManager } from '../agent/auto-mode-manager'
+import { segmentWriteTargets, unwrapCommand } from '../agent/shell-parser'
+import type {
+  ExecutionPolicy,
+  ExecutionPolicyFile,
+  PolicyAutoMode,
+  PolicyDecision,
+  PolicySource,
+} from './types'
+
+const AUTO_MODES: PolicyAutoMode[] = ['off', 'conservative', 'balanced', 'aggressive']
+const LIST_KEYS = ['allowCommands', 'denyCommands', 'protectedPaths'] as const
+const CONFIRM_KEYS = ['gitPush', 'packageInstall']
+const KNOWN_KEYS = new Set<string>(['$schema', 'autoMode', 'confirm', ...LIST_KEYS])
+
+const PACKAGE_INSTALL_PATTERNS = [
+  /^(npm|pnpm|bun) (install|i|add|ci)\b/,
+  /^yarn( (install|add)\b|$)/,
+  /^(pip|pip3) install\b/,
+  /^python3? -m pip install\b/,
+  /^uv (pip install|add)\b/,
+  /^(poetry|cargo) add\b/,
+  /^(cargo|gem|brew|apt|apt-get|dnf|yum) install\b/,
+  /^go (get|install)\b/,
+  /^composer (require|install)\b/,
+  /^bundle( install\b|$)/,
+]
+
+/** No policy file anywhere — auto-mode alone decides */
+export const NO_POLICY: ExecutionPolicy = {
+  source: 'none',
+  allowCommands: [],
+  denyCommands: [],
+  protectedPaths: [],
+  confirmGitPush: false,
+  confirmPackageInstall: false,
+}
+
+/** Policy for a file that could not be used: auto-mode off, everything asks */
+export function failClosedPolicy(source: Exclude<PolicySource, 'none'>, path: string | undefined, error: string): ExecutionPolicy {
+  return { ...NO_POLICY, source, path, autoMode: 'off', error }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Throws with a readable message; unknown keys are errors so a typo can't silently drop a rule */
+function validatePolicyFile(value: unknown): ExecutionPolicyFile {
+  if (!isObject(value)) throw new Error('expected a JSON object')
+
+  for (const key of Object.keys(value)) {
+    if (!KNOWN_KEYS.has(key)) throw new Error(`unknown key "${key}"`)
+  }
+  if (value.autoMode !== undefined && !AUTO_MODES.includes(value.autoMode as PolicyAutoMode)) {
+    throw new Error(`"autoMode" must be one of: ${AUTO_MODES.join(', ')}`)
+  }
+  for (const key of LIST_KEYS) {
+    const list = value[key]
+    if (list !== undefined && !(Array.isArray(list) && list.every(item => typeof item === 'string' && item.trim()))) {
+      throw new Error(`"${key}" must be an array of non-empty strings`)
+    }
+  }
+  if (value.confirm !== undefined) {
+    if (!isObject(value.confirm)) throw new Error('"confirm" must be an object')
+    for (const [key, flag] of Object.entries(value.confirm)) {
+      if (!CONFIRM_KEYS.includes(key)) throw new Error(`unknown key "confirm.${key}"`)
+      if (typeof flag !== 'boolean') throw new Error(`"confirm.${key}" must be true or false`)
+    }
+  }
+  return value as ExecutionPolicyFile
+}
+
+/** Parse policy.json text; invalid content yields a fail-closed policy with `error` set */
+export function parseExecutionPolicy(text: string, source: Exclude<PolicySource, 'none'>, path?: string): ExecutionPolicy {
+  let file: ExecutionPolicyFile
+  try {
+    file = validatePolicyFile(JSON.parse(text))
+  } catch (error) {
+    return failClosedPolicy(source, path, `Invalid ${path ?? 'policy.json'}: ${(error as Error).message}`)
+  }
+  return {
+    source,
+    path,
+    autoMode: file.autoMode,
+    allowCommands: file.allowCommands ?? [],
+    denyCommands: file.denyCommands ?? [],
+    protectedPaths: file.protectedPaths ?? [],
+    confirmGitPush: file.confirm?.gitPush ?? false,
+    confirmPackageInstall: file.confirm?.packageInstall ?? false,
+  }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Command patterns match the leading words of a command; `*` matches any
+ * text. "git push" matches `git push origin main`, "npm run *" matches any script.
+ */
+export function matchesCommandPattern(command: string, pattern: string): boolean {
+  const source = pattern.trim().split(/\s+/)
+    .map(word => word.split('*').map(escapeRegExp).join('.*'))
+    .join('\\s+')
+  return new RegExp(`^${source}(\\s|$)`).test(command)
+}
+
+/**
+ * gitignore-style globs: a pattern without a slash matches at any depth,
+ * `**` spans directories, and matching a directory covers everything in it.
+ */
+export function matchesPathGlob(relativePath: string, glob: string): boolean {
+  const filePath = relativePath.replace(/\\/g, '/').replace(/^\.\//, '')
+  return new RegExp(`^${globSource(anchorGlob(glob))}(?:/.*)?$`).test(filePath)
+}
+
+/** The glob relative to the workspace root; one without a slash gets a leading `**` */
+function anchorGlob(glob: string): string {
+  const pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '')
+  return pattern.startsWith('/') ? pattern.slice(1) : pattern.includes('/') ? pattern : `**/${pattern}`
+}
+
+function globSource(pattern: string): string {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (c === '*') {
+      source += '[^/]*'
+    } else if (c === '?') {
+      source += '[^/]'
+    } else {
+      source += escapeRegExp(c)
+    }
+  }
+  return source
+}
+
+/**
+ * Whether the glob protects files inside the directory, so deleting or
+ * replacing it would take them along: `infra/**` falls under `infra`.
+ * Globs that match at any depth, like `*.pem`, only count for the workspace
+ * root — finding them elsewhere would mean reading the disk.
+ */
+function globFallsUnder(relativeDir: string, glob: string): boolean {
+  const dir = relativeDir.split('/').filter(Boolean)
+  if (dir.length === 0) return true
+  const segments = anchorGlob(glob).split('/')
+  if (segments[0] === '**') return false
+  for (let i = 0; i < dir.length; i++) {
+    if (i >= segments.length) return false
+    if (segments[i] === '**') return true
+    if (!new RegExp(`^${globSource(segments[i])}$`).test(dir[i])) return false
+  }
+  return segments.length > dir.length
+}
+
+/** Resolve `.` and `..` segments without leaving the path's root */
+function normalizePath(filePath: string): string {
+  const absolute = filePath.startsWith('/')
+  const parts: string[] = []
+  for (const part of filePath.split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..' && parts.length > 0 && parts[parts.length - 1] !== '..') parts.pop()
+    else if (part !== '..' || !absolute) parts.push(part)
+  }
+  return `${absolute ? '/' : ''}${parts.join('/')}`
+}
+
+/** Path relative to the workspace, with forward slashes */
+function toWorkspaceRelative(workspacePath: string | undefined, filePath: string): string {
+  const file = normalizePath(filePath.replace(/\\/g, '/'))
+  const root = workspacePath?.replace(/\\/g, '/').replace(/\/+$/, '')
+  if (root && file === root) return ''
+  return root && file.startsWith(`${root}/`) ? file.slice(root.length + 1) : file
+}
+
+function findProtectedRule(policy: ExecutionPolicy, workspacePath: string | undefined, filePath: string): string | undefined {
+  const relative = toWorkspaceRelative(workspacePath, filePath)
+  return policy.protectedPaths.find(glob => matchesPathGlob(relative, glob))
+}
+
+/** Like findProtectedRule, but a directory holding protected files counts too */
+function findProtectedTarget(policy: ExecutionPolicy, workspacePath: string | undefined, filePath: string): string | undefined {
+  const relative = toWorkspaceRelative(workspacePath, filePath)
+  const outside = /^(\/|~|\.\.(\/|$))/.test(relative)
+  return policy.protectedPaths.find(glob => matchesPathGlob(relative, glob) || (!outside && globFallsUnder(relative, glob)))
+}
+
+/** A path from a command, relative to the directory the command runs in */
+function resolveCommandPath(cwd: string | undefined, dir: string, file: string): string {
+  if (file.startsWith('/') || file.startsWith('~')) return file
+  const relative = dir && !dir.startsWith('~') ? (dir.startsWith('/') ? dir : cwd ? `${cwd}/${dir}` : dir) : cwd
+  return relative ? `${relative}/${file}` : file
+}
+
+interface CommandPart {
+  /** Program and arguments, wrappers stripped */
+  text: string
+  words: string[]
+  /** Directory earlier `cd` commands in the line moved to, '' when none did */
+  dir: string
+  /** Files written through redirects or by known writers (rm, mv, cp, tee, sed -i …), resolved against `dir` */
+  writes: string[]
+}
+
+function splitCommand(command: string): CommandPart[] {
+  try {
+    return segmentWriteTargets(command).map(({ command: segment, dir, writes }) => {
+      const words = unwrapCommand(segment.words)
+      return { text: words.join(' '), words, dir, writes }
+    })
+  } catch {
+    // Unparseable commands are matched as a whole; auto-mode rates them critical anyway
+    const words = command.trim().split(/\s+/)
+    return [{ text: words.join(' '), words, dir: '', writes: [] }]
+  }
+}
+
+function isGitPush(words: string[]): boolean {
+  if (words[0] !== 'git') return false
+  for (let i = 1; i < words.length; i++) {
+    if (words[i] === '-C' || words[i] === '-c') i++
+    else if (!words[i].startsWith('-')) return words[i] === 'push'
+  }
+  return false
+}
+
+function isPackageInstall(text: string): boolean {
+  return PACKAGE_INSTALL_PATTERNS.some(pattern => pattern.test(text))
+}
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+/**
+ * What the policy alone says about a command run in `cwd` (the workspace
+ * when omitted). Deny rules and protected write targets are checked on every
+ * segment, paths resolved against `cd`s earlier in the line; deleting or
+ * overwriting a directory that holds protected files is denied too. A
+ * protected path passed to any other program needs confirmation, since it may
+ * write it too. Allow needs every segment to match an allow rule.
+ */
+export function evaluateCommandPolicy(policy: ExecutionPolicy, command: string, workspacePath?: string, cwd?: string): PolicyDecision {
+  const parts = splitCommand(command)
+
+  for (const part of parts) {
+    const rule = policy.denyCommands.find(pattern => matchesCommandPattern(part.text, pattern))
+    if (rule) {
+      return { verdict: 'deny', reason: `Denied by policy rule "${rule}" (\`${part.text}\`)` }
+    }
+    const target = part.writes.find(file => findProtectedTarget(policy, workspacePath, resolveCommandPath(cwd, '', file)))
+    if (target) {
+      return { verdict: 'deny', reason: `${target} is protected by policy (\`${part.text}\`)` }
+    }
+  }
+
+  if (policy.error) {
+    return { verdict: 'confirm', reason: policy.error }
+  }
+
+  for (const part of parts) {
+    const argument = part.words.slice(1)
+      .find(word => !word.startsWith('-') && findProtectedRule(policy, workspacePath, resolveCommandPath(cwd, part.dir, word)))
+    if (argument) {
+      return { verdict: 'confirm', reason: `${argument} is protected by policy (\`${part.text}\`)` }
+    }
+    if (policy.confirmGitPush && isGitPush(part.words)) {
+      return { verdict: 'confirm', reason: `Policy requires confirmation for git push (\`${part.text}\`)` }
+    }
+    if (policy.confirmPackageInstall && isPackageInstall(part.text)) {
+      return { verdict: 'confirm', reason: `Policy requires confirmation for package installs (\`${part.text}\`)` }
+    }
+  }
+
+  if (parts.length > 0 && parts.every(part => policy.allowCommands.some(pattern => matchesCommandPattern(part.text, pattern)))) {
+    return { verdict: 'allow', reason: 'Allowed by policy' }
+  }
+  if (policy.autoMode === 'off') {
+    return { verdict: 'confirm', reason: 'Auto-mode is off by policy' }
+  }
+  return { verdict: 'auto', reason: 'No policy rule applies' }
+}
+
+/** What the policy says about writing a file */
+export function evaluateWritePolicy(policy: ExecutionPolicy, workspacePath: string | undefined, filePath: string): PolicyDecision {
+  const rule = findProtectedRule(policy, workspacePath, filePath)
+  if (rule) {
+    return { verdict: 'deny', reason: `${toWorkspaceRelative(workspacePath, filePath)} is protected by policy ("${rule}")` }
+  }
+  if (policy.error) {
+    return { verdict: 'confirm', reason: policy.error }
+  }
+  if (policy.autoMode === 'off') {
+    return { verdict: 'confirm', reason: 'Auto-mode is off by policy' }
+  }
+  return { verdict: 'auto', reason: 'No policy rule applies' }
+}
+
+/** The auto-mode manager at the level the policy pins, or `fallback` when it pins none */
+export function autoModeForPolicy(policy: ExecutionPolicy, fallback: AutoModeManager): AutoModeManager {
+  if (!policy.autoMode) return fallback
+  const manager = new AutoModeManager({
+    enabled: policy.autoMode !== 'off',
+    level: policy.autoMode === 'off' ? fallback.getLevel() : policy.autoMode,
+  })
+  // Learned rules still apply at the pinned level
+  manager.loadApprovalHistory(fallback.getApprovalHistory())
+  return manager
+}
+
+/**
+ * Final call for a command: the policy first, then auto-mode at the pinned
+ * level. Never returns 'auto'.
+ */
+export function decideCommand(
+  policy: ExecutionPolicy,
+  autoMode: AutoModeManager,
+  command: string,
+  workspacePath?: string,
+  cwd?: string
+): PolicyDecision {
+  const decision = evaluateCommandPolicy(policy, command, workspacePath, cwd)
+  if (decision.verdict !== 'auto') return decision
+
+  const manager = autoModeForPolicy(policy, autoMode)
+  if (manager.shouldAutoApprove(command)) {
+    return { verdict: 'allow', reason: `Auto-approved (${manager.getLevel()})` }
+  }
+  return { verdict: 'confirm', reason: manager.analyzeCommandSafety(command).reason }
+}
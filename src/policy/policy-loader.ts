@@ -0,0 +1,37 @@
+/**
+ * Execution Policy Loader
+ *
+ * Reads {workspace}/.aibuddy/policy.json, or ~/.aibuddy/policy.json when the
+ * workspace has none. The workspace file replaces the global one entirely —
+ * they are not merged. Main process and CLI only.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { homedir } from 'os'
+import { NO_POLICY, failClosedPolicy, parseExecutionPolicy } from './execution-policy'
+import type { ExecutionPolicy, PolicySource } from './types'
+
+export const GLOBAL_POLICY_PATH = path.join(homedir(), '.aibuddy', 'policy.json')
+
+export function getWorkspacePolicyPath(workspacePath: string): string {
+  return path.join(workspacePath, '.aibuddy', 'policy.json')
+}
+
+export function loadExecutionPolicy(workspacePath: string | null, globalPath: string = GLOBAL_POLICY_PATH): ExecutionPolicy {
+  const candidates: Array<{ source: Exclude<PolicySource, 'none'>; filePath: string }> = []
+  if (workspacePath) candidates.push({ source: 'workspace', filePath: getWorkspacePolicyPath(workspacePath) })
+  candidates.push({ source: 'global', filePath: globalPath })
+
+  for (const { source, filePath } of candidates) {
+    let text: string
+    try {
+      text = fs.readFileSync(filePath, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+      return failClosedPolicy(source, filePath, `Could not read ${filePath}: ${(error as Error).message}`)
+    }
+    return parseExecutionPolicy(text, source, filePath)
+  }
+  return NO_POLICY
+}
@@ -0,0 +1,60 @@
+/**
+ * Execution Policy Types
+ *
+ * An execution policy is a JSON file that constrains what the agent may run
+ * or write without asking — {workspace}/.aibuddy/policy.json, falling back to
+ * ~/.aibuddy/policy.json when the workspace has none.
+ */
+
+import type { AutoModeLevel } from '../agent/auto-mode-manager'
+
+/** A pinned auto-mode level, or 'off' to require approval for everything */
+export type PolicyAutoMode = AutoModeLevel | 'off'
+
+/** Shape of policy.json */
+export interface ExecutionPolicyFile {
+  /** Pins the auto-mode level for this workspace */
+  autoMode?: PolicyAutoMode
+  /** Command patterns that are auto-approved, e.g. "npm run *" */
+  allowCommands?: string[]
+  /** Command patterns that are never run, e.g. "git push --force*" */
+  denyCommands?: string[]
+  /** Workspace-relative globs that are never written, e.g. ".env*", "infra/**" */
+  protectedPaths?: string[]
+  /** Ask first even when auto-mode or allowCommands would approve */
+  confirm?: {
+    gitPush?: boolean
+    packageInstall?: boolean
+  }
+}
+
+export type PolicySource = 'workspace' | 'global' | 'none'
+
+/** A loaded policy; 'none' means neither file exists */
+export interface ExecutionPolicy {
+  source: PolicySource
+  /** File the policy was read from */
+  path?: string
+  autoMode?: PolicyAutoMode
+  allowCommands: string[]
+  denyCommands: string[]
+  protectedPaths: string[]
+  confirmGitPush: boolean
+  confirmPackageInstall: boolean
+  /** Set when the file exists but is invalid — the policy then fails closed */
+  error?: string
+}
+
+/**
+ * What the policy says about one action:
+ * - allow: run without asking
+ * - deny: never run
+ * - confirm: a person must approve it
+ * - auto: no rule applies; auto-mode decides
+ */
+export type PolicyVerdict = 'allow' | 'deny' | 'confirm' | 'auto'
+
+export interface PolicyDecision {
+  verdict: PolicyVerdict
+  reason: string
+}
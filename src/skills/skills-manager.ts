@@ -18,7 +18,7 @@ import * as path from 'path'
 import * as os from 'os'
 import * as crypto from 'crypto'
 import { Skill, SkillsState, SkillScope, SkillVisibility, SkillExecutionMode, SKILLS_VERSION } from './types'
-import type { CatalogSkill, SkillToolPermission, PermissionLevel, PermissionEntry, ToolAuditLogEntry, PermissionDecision, SkillExecutionRecord, SkillsApiSettings } from './types'
+import type { CatalogSkill, SkillToolPermission, ToolPermissionKey, PermissionLevel, PermissionEntry, ToolAuditLogEntry, PermissionDecision, SkillExecutionRecord, SkillsApiSettings } from './types'
 
 const generateId = (): string => crypto.randomBytes(12).toString('base64url')
 
@@ -406,13 +406,13 @@ export class SkillsStorageManager {
   // ─── KAN-290: Permission System ──────────────────────────────────────────
 
   /** Get stored permission for a skill+tool pair */
-  public getPermission(skillId: string, tool: SkillToolPermission): PermissionLevel {
+  public getPermission(skillId: string, tool: ToolPermissionKey): PermissionLevel {
     const entry = this.state.permissions.find(p => p.skillId === skillId && p.tool === tool)
     return entry?.level ?? 'ask'
   }
 
   /** Set permission preference for a skill+tool pair */
-  public setPermission(skillId: string, tool: SkillToolPermission, level: PermissionLevel): void {
+  public setPermission(skillId: string, tool: ToolPermissionKey, level: PermissionLevel): void {
     const idx = this.state.permissions.findIndex(p => p.skillId === skillId && p.tool === tool)
     const entry: PermissionEntry = { skillId, tool, level, grantedAt: Date.now() }
     if (idx >= 0) {
@@ -435,7 +435,7 @@ export class SkillsStorageManager {
   }
 
   /** Reset a single permission back to 'ask' */
-  public resetPermission(skillId: string, tool: SkillToolPermission): void {
+  public resetPermission(skillId: string, tool: ToolPermissionKey): void {
     this.state.permissions = this.state.permissions.filter(
       p => !(p.skillId === skillId && p.tool === tool)
     )
@@ -111,10 +111,19 @@ export interface ToolExecutionResult {
 /** User's stored preference for a skill+tool combination */
 export type PermissionLevel = 'always_allow' | 'always_deny' | 'ask'
 
+/**
+ * MCP server tools share the permission store and audit log with skills.
+ * They are keyed as skillId `mcp:{server}` + tool `mcp:{server}/{tool}`.
+ */
+export type McpToolPermission = `mcp:${string}`
+
+/** Anything that can hold a stored permission: a skill tool kind or an MCP tool */
+export type ToolPermissionKey = SkillToolPermission | McpToolPermission
+
 /** A persisted permission preference entry (skill + tool → level) */
 export interface PermissionEntry {
   skillId: string
-  tool: SkillToolPermission
+  tool: ToolPermissionKey
   level: PermissionLevel
   /** When this preference was set */
   grantedAt: number
@@ -128,7 +137,7 @@ export interface ToolAuditLogEntry {
   timestamp: number
   skillId: string
   skillName: string
-  tool: SkillToolPermission
+  tool: ToolPermissionKey
   action: string
   params: Record<string, string>
   decision: PermissionDecision | 'auto_allowed' | 'auto_denied'
@@ -0,0 +1,276 @@
+/**
+ * Test Output Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest'
+import { detectTestRunner, formatTestFailures, parseTestOutput } from '../test-output'
+
+const VITEST = `
+ ❯ src/math.test.ts (3 tests | 2 failed) 12ms
+   × math > adds
+   × math > merges objects
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 2 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/math.test.ts > math > adds
+AssertionError: expected 3 to be 4 // Object.is equality
+
+- Expected
++ Received
+
+- 4
++ 3
+
+ ❯ src/math.test.ts:6:19
+      4|   it('adds', () => {
+      5|     expect(add(1, 2)).toBe(4)
+      6|   })
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/2]⎯
+
+ FAIL  src/math.test.ts > math > merges objects
+AssertionError: expected { a: 1 } to deeply equal { a: 2 }
+ ❯ src/math.test.ts:10:27
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[2/2]⎯
+
+ Test Files  1 failed (1)
+      Tests  2 failed | 1 passed (3)
+`
+
+const JEST = `
+FAIL src/cart.test.js
+  Cart
+    ✕ totals items (5 ms)
+
+  ● Cart › totals items
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 30
+    Received: 20
+
+      12 |     cart.add({ price: 10 })
+    > 13 |     expect(cart.total()).toBe(30)
+         |                          ^
+
+      at Object.<anonymous> (src/cart.test.js:13:26)
+
+Test Suites: 1 failed, 1 total
+Tests:       1 failed, 4 passed, 5 total
+`
+
+const PYTEST = `
+============================= test session starts ==============================
+collected 3 items
+
+tests/test_cart.py .F.                                                   [100%]
+
+=================================== FAILURES ===================================
+___________________________ TestCart.test_total ________________________________
+
+self = <tests.test_cart.TestCart object at 0x10>
+
+    def test_total(self):
+>       assert total([10, 10]) == 30
+E       assert 20 == 30
+E        +  where 20 = total([10, 10])
+
+tests/test_cart.py:8: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_cart.py::TestCart::test_total - assert 20 == 30
+========================= 1 failed, 2 passed in 0.05s ==========================
+`
+
+const GO = `
+=== RUN   TestAdd
+=== RUN   TestAdd/negative
+    math_test.go:21: Add(-1, -2) = -2; want -3
+--- FAIL: TestAdd (0.00s)
+    --- FAIL: TestAdd/negative (0.00s)
+=== RUN   TestSub
+--- PASS: TestSub (0.00s)
+=== RUN   TestDiv
+    div_test.go:14:
+        	Error Trace:	div_test.go:14
+        	Error:      	Not equal:
+        	            	expected: 2
+        	            	actual  : 3
+--- FAIL: TestDiv (0.00s)
+FAIL
+FAIL	example.com/math	0.003s
+`
+
+const CARGO = `
+running 3 tests
+test tests::adds ... ok
+test tests::subtracts ... FAILED
+test tests::legacy ... FAILED
+
+failures:
+
+---- tests::subtracts stdout ----
+thread 'tests::subtracts' panicked at src/lib.rs:14:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+---- tests::legacy stdout ----
+thread 'tests::legacy' panicked at 'assertion failed: \`(left == right)\`
+  left: \`4\`,
+ right: \`5\`', src/lib.rs:20:9
+
+
+failures:
+    tests::legacy
+    tests::subtracts
+
+test result: FAILED. 1 passed; 2 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.00s
+`
+
+const DOTNET = `
+  Failed Shop.Tests.CartTests.Total_SumsPrices [8 ms]
+  Error Message:
+   Assert.Equal() Failure
+Expected: 30
+Actual:   20
+  Stack Trace:
+     at Shop.Tests.CartTests.Total_SumsPrices() in /src/Shop.Tests/CartTests.cs:line 15
+   at System.RuntimeMethodHandle.InvokeMethod(Object target, Void** arguments)
+  Passed Shop.Tests.CartTests.Empty_IsZero [1 ms]
+
+Failed!  - Failed:     1, Passed:     1, Skipped:     0, Total:     2, Duration: 9 ms - Shop.Tests.dll (net8.0)
+`
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="CartTest" tests="3" failures="1" skipped="1">
+    <testcase classname="com.shop.CartTest" name="emptyCart" time="0.001"/>
+    <testcase classname="com.shop.CartTest" name="total" time="0.002">
+      <failure message="expected:&lt;30&gt; but was:&lt;20&gt;" type="org.opentest4j.AssertionFailedError"><![CDATA[org.opentest4j.AssertionFailedError: expected:<30> but was:<20>
+	at com.shop.CartTest.total(CartTest.java:21)]]></failure>
+    </testcase>
+    <testcase classname="com.shop.CartTest" name="discount"><skipped/></testcase>
+  </testsuite>
+</testsuites>`
+
+describe('detectTestRunner', () => {
+  it('recognizes runners named in the command', () => {
+    expect(detectTestRunner('npx vitest run src/math.test.ts')).toBe('vitest')
+    expect(detectTestRunner('python -m pytest -x')).toBe('pytest')
+    expect(detectTestRunner('go test ./...')).toBe('go')
+    expect(detectTestRunner('cargo test --workspace')).toBe('cargo')
+    expect(detectTestRunner('dotnet test')).toBe('dotnet')
+    expect(detectTestRunner('npm test')).toBeNull()
+  })
+})
+
+describe('parseTestOutput', () => {
+  it('parses vitest failures with diffs and locations', () => {
+    const summary = parseTestOutput(VITEST, 'vitest')!
+    expect(summary).toMatchObject({ runner: 'vitest', passed: 1, failed: 2, skipped: 0 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'math > adds',
+      file: 'src/math.test.ts',
+      line: 6,
+      message: 'AssertionError: expected 3 to be 4 // Object.is equality',
+      expected: '4',
+      actual: '3',
+    })
+    expect(summary.failures[1]).toMatchObject({ expected: '{ a: 2 }', actual: '{ a: 1 }', line: 10 })
+  })
+
+  it('parses jest failures', () => {
+    const summary = parseTestOutput(JEST)!
+    expect(summary).toMatchObject({ runner: 'jest', passed: 4, failed: 1 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'Cart > totals items',
+      file: 'src/cart.test.js',
+      line: 13,
+      expected: '30',
+      actual: '20',
+    })
+  })
+
+  it('parses pytest failures and node ids', () => {
+    const summary = parseTestOutput(PYTEST, 'pytest')!
+    expect(summary).toMatchObject({ runner: 'pytest', passed: 2, failed: 1 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'TestCart::test_total',
+      file: 'tests/test_cart.py',
+      line: 8,
+      message: 'assert 20 == 30',
+      expected: '30',
+      actual: '20',
+    })
+  })
+
+  it('falls back to the pytest short summary', () => {
+    const summary = parseTestOutput('FAILED tests/test_a.py::test_x - ValueError: bad\n==== 1 failed in 0.01s ====')!
+    expect(summary.failures).toEqual([{ name: 'test_x', file: 'tests/test_a.py', message: 'ValueError: bad', stack: [] }])
+  })
+
+  it('parses go test output, reporting subtests instead of their parents', () => {
+    const summary = parseTestOutput(GO, 'go')!
+    expect(summary).toMatchObject({ runner: 'go', passed: 1, failed: 2 })
+    expect(summary.failures.map(f => f.name)).toEqual(['example.com/math > TestAdd/negative', 'example.com/math > TestDiv'])
+    expect(summary.failures[0]).toMatchObject({ file: 'math_test.go', line: 21, expected: '-3', actual: '-2' })
+    expect(summary.failures[1]).toMatchObject({ file: 'div_test.go', line: 14, message: 'Not equal:', expected: '2', actual: '3' })
+  })
+
+  it('parses cargo test panics in both formats', () => {
+    const summary = parseTestOutput(CARGO)!
+    expect(summary).toMatchObject({ runner: 'cargo', passed: 1, failed: 2 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'tests::subtracts',
+      file: 'src/lib.rs',
+      line: 14,
+      message: 'assertion `left == right` failed',
+      actual: '1',
+      expected: '2',
+    })
+    expect(summary.failures[1]).toMatchObject({ name: 'tests::legacy', line: 20, actual: '4', expected: '5' })
+  })
+
+  it('parses dotnet test output', () => {
+    const summary = parseTestOutput(DOTNET, 'dotnet')!
+    expect(summary).toMatchObject({ runner: 'dotnet', passed: 1, failed: 1 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'Shop.Tests.CartTests.Total_SumsPrices',
+      file: '/src/Shop.Tests/CartTests.cs',
+      line: 15,
+      message: 'Assert.Equal() Failure',
+      expected: '30',
+      actual: '20',
+    })
+  })
+
+  it('parses JUnit XML reports', () => {
+    const summary = parseTestOutput(JUNIT)!
+    expect(summary).toMatchObject({ runner: 'junit', passed: 1, failed: 1, skipped: 1 })
+    expect(summary.failures[0]).toMatchObject({
+      name: 'com.shop.CartTest > total',
+      file: 'CartTest.java',
+      line: 21,
+      message: 'expected:<30> but was:<20>',
+      stack: ['at com.shop.CartTest.total(CartTest.java:21)'],
+    })
+  })
+
+  it('strips ANSI colors and returns null for unrelated output', () => {
+    expect(parseTestOutput('\x1b[31mTests:\x1b[39m       1 failed, 1 total')?.runner).toBe('jest')
+    expect(parseTestOutput('npm ERR! missing script: test')).toBeNull()
+  })
+})
+
+describe('formatTestFailures', () => {
+  it('renders failures compactly and caps the list', () => {
+    const text = formatTestFailures(parseTestOutput(VITEST)!, 1)
+    expect(text).toContain('Test results (vitest): 2 failed, 1 passed')
+    expect(text).toContain('1. math > adds — src/math.test.ts:6')
+    expect(text).toContain('   expected: 4')
+    expect(text).toContain('… and 1 more failing test(s)')
+    expect(text).not.toContain('merges objects')
+  })
+})
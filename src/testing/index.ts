@@ -0,0 +1,12 @@
+/**
+ * Test runner output parsing
+ */
+
+export { detectTestRunner, formatTestFailures, parseTestOutput, stripAnsi } from './test-output'
+export { parseJest, parseVitest } from './parsers/javascript'
+export { parsePytest } from './parsers/pytest'
+export { parseGoTest } from './parsers/go'
+export { parseCargoTest } from './parsers/cargo'
+export { parseDotnetTest } from './parsers/dotnet'
+export { parseJUnitXml } from './parsers/junit'
+export type { TestFailure, TestOutputParser, TestRunner, TestRunSummary } from './types'
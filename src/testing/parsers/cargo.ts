@@ -0,0 +1,97 @@
+/**
+ * `cargo test` output parser
+ *
+ * Each failing test has a `---- name stdout ----` section holding its panic;
+ * totals are summed over every `test result:` line (one per test binary).
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { countOf } from './common'
+
+const SECTION = /^---- (\S+) stdout ----$/
+// Rust 1.73+: location on the panic line, message below it
+const PANIC = /^thread '(.+?)' panicked at (\S+?):(\d+):(\d+):$/
+// Older releases: message quoted inline, location last
+const LEGACY_PANIC = /^thread '(.+?)' panicked at '([\s\S]*)', (\S+?):(\d+):(\d+)$/
+
+function leftRight(lines: string[]): Pick<TestFailure, 'expected' | 'actual'> {
+  const value = (label: string) => lines
+    .map(line => line.match(new RegExp(`^\\s*${label}:\\s*\`?(.+?)\`?,?$`))?.[1])
+    .find(Boolean)
+  const actual = value('left')
+  const expected = value('right')
+  return actual !== undefined || expected !== undefined ? { actual, expected } : {}
+}
+
+function parseSection(name: string, body: string[]): TestFailure {
+  const text = body.join('\n')
+  const legacy = text.match(new RegExp(LEGACY_PANIC.source, 'm'))
+  if (legacy) {
+    const messageLines = legacy[2].split('\n')
+    return {
+      name,
+      file: legacy[3],
+      line: Number(legacy[4]),
+      message: messageLines[0],
+      ...leftRight(messageLines),
+      stack: [`${legacy[3]}:${legacy[4]}:${legacy[5]}`],
+    }
+  }
+
+  const panicIndex = body.findIndex(line => PANIC.test(line))
+  if (panicIndex < 0) {
+    return { name, message: body.map(l => l.trim()).find(Boolean) ?? 'Test failed', stack: [] }
+  }
+  const panic = body[panicIndex].match(PANIC)!
+  const messageLines: string[] = []
+  for (const line of body.slice(panicIndex + 1)) {
+    if (!line.trim() || line.startsWith('note: ') || line.startsWith('stack backtrace:')) break
+    messageLines.push(line)
+  }
+  return {
+    name,
+    file: panic[2],
+    line: Number(panic[3]),
+    message: messageLines[0]?.trim() ?? 'panicked',
+    ...leftRight(messageLines),
+    stack: [`${panic[2]}:${panic[3]}:${panic[4]}`],
+  }
+}
+
+export function parseCargoTest(output: string): TestRunSummary | null {
+  const lines = output.split('\n')
+  const results = lines.filter(line => line.startsWith('test result: '))
+  if (results.length === 0 && !lines.some(line => /^test \S+ \.\.\. (ok|FAILED|ignored)/.test(line))) return null
+
+  const sections: Array<{ name: string; body: string[] }> = []
+  let open = false
+  for (const line of lines) {
+    const section = line.match(SECTION)
+    if (section) {
+      sections.push({ name: section[1], body: [] })
+      open = true
+    } else if (/^failures:$/.test(line) || line.startsWith('test result: ')) {
+      open = false
+    } else if (open) {
+      sections[sections.length - 1].body.push(line)
+    }
+  }
+  const failures = sections.map(section => parseSection(section.name, section.body))
+
+  // Failing tests that printed nothing still get an entry
+  for (const line of lines) {
+    const failedTest = line.match(/^test (\S+) \.\.\. FAILED$/)
+    if (failedTest && !failures.some(f => f.name === failedTest[1])) {
+      failures.push({ name: failedTest[1], message: 'Test failed', stack: [] })
+    }
+  }
+
+  const sum = (label: RegExp) => results.reduce((total, line) => total + countOf(line, label), 0)
+  return {
+    runner: 'cargo',
+    passed: sum(/passed/),
+    failed: sum(/failed/) || failures.length,
+    skipped: sum(/ignored/),
+    failures,
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Helpers shared by the test output parsers
+ */
+
+import type { TestFailure } from '../types'
+
+export const MAX_STACK_FRAMES = 8
+
+/** Count from a summary fragment like "3 passed" */
+export function countOf(text: string, label: RegExp): number {
+  const match = text.match(new RegExp(`(\\d+) ${label.source}`))
+  return match ? Number(match[1]) : 0
+}
+
+/**
+ * Expected and actual values from assertion output, in the forms runners
+ * print them: "Expected: 2 / Received: 1", "- Expected / + Received" diffs,
+ * "expected 1 to be 2", NUnit's "But was:".
+ */
+export function extractExpectedActual(lines: string[]): Pick<TestFailure, 'expected' | 'actual'> {
+  let expected: string | undefined
+  let actual: string | undefined
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    const exp = trimmed.match(/^Expected(?: value)?\s*:\s*(.+)$/i)
+    const act = trimmed.match(/^(?:Received|Actual)(?: value)?\s*:\s*(.+)$/i) ?? trimmed.match(/^But was:\s*(.+)$/)
+    if (exp && expected === undefined) expected = exp[1].trim()
+    if (act && actual === undefined) actual = act[1].trim()
+  }
+
+  // Vitest/jest object diffs: "- Expected" / "+ Received" header, then -/+ lines
+  const diffStart = lines.findIndex(line => /^\s*- Expected\b/.test(line))
+  if (expected === undefined && diffStart >= 0 && /^\s*\+ Received\b/.test(lines[diffStart + 1] ?? '')) {
+    const minus: string[] = []
+    const plus: string[] = []
+    for (const line of lines.slice(diffStart + 2)) {
+      const trimmed = line.trim()
+      if (trimmed.startsWith('- ')) minus.push(trimmed.slice(2))
+      else if (trimmed.startsWith('+ ')) plus.push(trimmed.slice(2))
+      else if (/^[❯]|^at\s/.test(trimmed)) break
+    }
+    if (minus.length > 0) expected = minus.join('\n')
+    if (plus.length > 0) actual = plus.join('\n')
+  }
+
+  if (expected === undefined && actual === undefined) {
+    const chai = lines
+      .map(line => line.match(/expected (.+?) to (?:be|equal|deeply equal|strictly equal) (.+?)(?: \/\/.*)?$/))
+      .find(Boolean)
+    if (chai) {
+      actual = chai[1]
+      expected = chai[2]
+    }
+  }
+
+  return { expected, actual }
+}
+
+/** First non-empty line, trimmed */
+export function firstLine(lines: string[]): string {
+  return lines.map(line => line.trim()).find(Boolean) ?? ''
+}
@@ -0,0 +1,71 @@
+/**
+ * `dotnet test` (VSTest console logger) output parser
+ *
+ *   Failed Namespace.Class.Method [12 ms]
+ *   Error Message:
+ *    Assert.Equal() Failure ...
+ *   Stack Trace:
+ *      at Namespace.Class.Method() in /src/ClassTests.cs:line 15
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { MAX_STACK_FRAMES, extractExpectedActual, firstLine } from './common'
+
+const TEST_LINE = /^\s*(Failed|Passed|Skipped) (\S.*?) \[[^\]]*\]\s*$/
+const FRAME_LOCATION = / in (.+):line (\d+)\s*$/
+
+export function parseDotnetTest(output: string): TestRunSummary | null {
+  const lines = output.split('\n')
+  const totals = lines.filter(line => /^\s*(Failed|Passed)!\s+-\s+Failed:/.test(line))
+  const hasTests = lines.some(line => TEST_LINE.test(line))
+  if (totals.length === 0 && !hasTests && !/^\s*Total tests: \d+/m.test(output)) return null
+
+  const blocks: Array<{ name: string; message: string[]; stack: string[] }> = []
+  let mode: 'none' | 'message' | 'stack' = 'none'
+  for (const line of lines) {
+    const test = line.match(TEST_LINE)
+    if (test) {
+      mode = 'none'
+      if (test[1] === 'Failed') blocks.push({ name: test[2], message: [], stack: [] })
+    } else if (/^\s*Error Message:\s*$/.test(line)) {
+      mode = blocks.length > 0 ? 'message' : 'none'
+    } else if (/^\s*Stack Trace:\s*$/.test(line)) {
+      mode = blocks.length > 0 ? 'stack' : 'none'
+    } else if (/^\s*(Standard Output Messages|Standard Error Messages):/.test(line) || /^\s*(Failed|Passed)!\s+-/.test(line)) {
+      mode = 'none'
+    } else if (mode === 'message') {
+      blocks[blocks.length - 1].message.push(line)
+    } else if (mode === 'stack' && line.trim()) {
+      blocks[blocks.length - 1].stack.push(line.trim())
+    }
+  }
+
+  const failures: TestFailure[] = blocks.map(block => {
+    const location = block.stack.map(frame => frame.match(FRAME_LOCATION)).find(Boolean)
+    return {
+      name: block.name,
+      file: location?.[1],
+      line: location ? Number(location[2]) : undefined,
+      message: firstLine(block.message),
+      ...extractExpectedActual(block.message),
+      stack: block.stack.slice(0, MAX_STACK_FRAMES),
+    }
+  })
+
+  // One "Failed!/Passed! - Failed: 1, Passed: 2, Skipped: 0, ..." line per test project
+  const sum = (label: string) => totals.reduce((total, line) => {
+    const match = line.match(new RegExp(`${label}:\\s+(\\d+)`))
+    return total + (match ? Number(match[1]) : 0)
+  }, 0)
+  // Older SDKs print "Total tests: 3" then "Passed: 2" / "Failed: 1" lines
+  const legacy = (label: string) => Number(output.match(new RegExp(`^\\s*${label}: (\\d+)\\s*$`, 'm'))?.[1] ?? 0)
+  const count = (label: string) => totals.length > 0 ? sum(label) : legacy(label)
+
+  return {
+    runner: 'dotnet',
+    passed: count('Passed'),
+    failed: count('Failed') || failures.length,
+    skipped: count('Skipped'),
+    failures,
+  }
+}
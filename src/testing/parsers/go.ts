@@ -0,0 +1,111 @@
+/**
+ * `go test` output parser (plain and -v)
+ *
+ * Log lines (`    file_test.go:12: message`) belong to the test named by the
+ * latest `=== RUN` line, or to the `--- FAIL` line they are indented under.
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { MAX_STACK_FRAMES } from './common'
+
+const RESULT = /^(\s*)--- (FAIL|PASS|SKIP): (\S+) \(/
+const RUN = /^=== (?:RUN|CONT|PAUSE|NAME)\s+(\S+)/
+const LOG = /^\s+(\S+\.go):(\d+):(?: (.*))?$/
+const PACKAGE_FAIL = /^FAIL\s+(\S+)\s+(?:[\d.]+s|\[)/
+
+interface TestLog {
+  file: string
+  line: number
+  text: string[]
+}
+
+function expectedActual(text: string[]): Pick<TestFailure, 'expected' | 'actual'> {
+  // testify: "expected: 3" / "actual  : 4"
+  const expected = text.map(t => t.match(/^\s*expected\s*:\s*(.+)$/)?.[1]).find(Boolean)
+  const actual = text.map(t => t.match(/^\s*actual\s*:\s*(.+)$/)?.[1]).find(Boolean)
+  if (expected !== undefined || actual !== undefined) return { expected, actual }
+  // Conventional t.Errorf("got %v, want %v") and ("f(x) = %v; want %v")
+  const gotWant = text.map(t => t.match(/(?:\bgot:?\s+|\s=\s)(.+?)[,;]?\s+want:?\s+(.+)$/i)).find(Boolean)
+  return gotWant ? { actual: gotWant[1], expected: gotWant[2] } : {}
+}
+
+export function parseGoTest(output: string): TestRunSummary | null {
+  if (!/^\s*--- (FAIL|PASS|SKIP): /m.test(output) && !/^(FAIL|ok)\s+\S+\s+[\d.]+s/m.test(output)) return null
+
+  const logs = new Map<string, TestLog[]>()
+  const failed: Array<{ name: string; pkg?: string; panic?: string; panicFrames: string[] }> = []
+  let passed = 0
+  let skipped = 0
+  let current: string | undefined
+  let resultIndent = -1
+  let pendingPackage: typeof failed = []
+  let panicking: (typeof failed)[number] | undefined
+
+  for (const line of output.split('\n')) {
+    const run = line.match(RUN)
+    const result = line.match(RESULT)
+    const log = line.match(LOG)
+    const pkg = line.match(PACKAGE_FAIL)
+
+    if (run) {
+      current = run[1]
+      resultIndent = -1
+    } else if (result) {
+      current = result[3]
+      resultIndent = result[1].length
+      if (result[2] === 'PASS') passed++
+      else if (result[2] === 'SKIP') skipped++
+      else {
+        const entry = { name: current, panicFrames: [] }
+        failed.push(entry)
+        pendingPackage.push(entry)
+      }
+    } else if (pkg) {
+      for (const entry of pendingPackage) entry.pkg = pkg[1]
+      pendingPackage = []
+      panicking = undefined
+    } else if (/^panic: /.test(line)) {
+      // The panicking test is the one still running; it may not have a --- FAIL line yet
+      panicking = failed.find(entry => entry.name === current)
+      if (!panicking && current) {
+        panicking = { name: current, panicFrames: [] }
+        failed.push(panicking)
+        pendingPackage.push(panicking)
+      }
+      if (panicking) panicking.panic = line.replace(/^panic: /, '')
+    } else if (panicking && /^\s+\S+\.go:\d+/.test(line)) {
+      panicking.panicFrames.push(line.trim())
+    } else if (log && current) {
+      const entries = logs.get(current) ?? []
+      entries.push({ file: log[1], line: Number(log[2]), text: log[3] ? [log[3]] : [] })
+      logs.set(current, entries)
+    } else if (current && logs.get(current)?.length && /^\s{4,}\S/.test(line)) {
+      // Continuation of a multi-line t.Errorf / testify message
+      if (resultIndent < 0 || line.search(/\S/) > resultIndent) {
+        const entries = logs.get(current)!
+        entries[entries.length - 1].text.push(line.trim())
+      }
+    }
+  }
+
+  // A parent test fails when a subtest does; report the subtest only
+  const failures: TestFailure[] = failed
+    .filter(entry => logs.has(entry.name) || entry.panic || !failed.some(other => other.name.startsWith(`${entry.name}/`)))
+    .map(entry => {
+      const entryLogs = logs.get(entry.name) ?? []
+      const first = entryLogs[0]
+      const text = entryLogs.flatMap(l => l.text)
+      // testify puts the useful line after "Error Trace:"
+      const testifyError = text.find(t => /^Error:/.test(t))?.replace(/^Error:\s*/, '')
+      return {
+        name: entry.pkg ? `${entry.pkg} > ${entry.name}` : entry.name,
+        file: first?.file,
+        line: first?.line,
+        message: entry.panic ? `panic: ${entry.panic}` : testifyError ?? text[0] ?? 'Test failed',
+        ...expectedActual(text),
+        stack: (entry.panicFrames.length > 0 ? entry.panicFrames : entryLogs.map(l => `${l.file}:${l.line}`)).slice(0, MAX_STACK_FRAMES),
+      }
+    })
+
+  return { runner: 'go', passed, failed: failures.length, skipped, failures }
+}
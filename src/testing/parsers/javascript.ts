@@ -0,0 +1,103 @@
+/**
+ * Vitest and Jest output parsers (default reporters)
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { MAX_STACK_FRAMES, countOf, extractExpectedActual, firstLine } from './common'
+
+const LOCATION = /\(?((?:[A-Za-z]:)?[^\s():]+\.[cm]?[jt]sx?):(\d+):\d+\)?/
+
+/** Stack frame lines as printed by each runner */
+const FRAME = /^\s*(❯|at\s)/
+
+function toFailure(name: string, body: string[], testFile?: string): TestFailure {
+  const stack = body.filter(line => FRAME.test(line)).map(line => line.trim())
+  const frames = stack
+    .map(line => line.match(LOCATION))
+    .filter((match): match is RegExpMatchArray => !!match && !match[1].includes('node_modules'))
+  const location = frames.find(match => testFile && match[1].endsWith(testFile)) ?? frames[0]
+
+  return {
+    name,
+    file: location?.[1] ?? testFile,
+    line: location ? Number(location[2]) : undefined,
+    message: firstLine(body.filter(line => !FRAME.test(line))),
+    ...extractExpectedActual(body),
+    stack: stack.slice(0, MAX_STACK_FRAMES),
+  }
+}
+
+/**
+ * Vitest: failures follow a "Failed Tests" banner as
+ * ` FAIL  src/a.test.ts > suite > name` blocks separated by ⎯⎯⎯ rules.
+ */
+export function parseVitest(output: string): TestRunSummary | null {
+  const summary = output.match(/^\s*Tests\s{2,}(.+)$/m)
+  if (!summary && !/⎯+ Failed (Tests|Suites) \d+ ⎯+/.test(output)) return null
+
+  const blocks: Array<{ name: string; file: string; body: string[] }> = []
+  let open = false
+  for (const line of output.split('\n')) {
+    const test = line.match(/^\s*FAIL\s+(\S+)\s+>\s+(.+?)\s*$/)
+    const suite = line.match(/^\s*FAIL\s+(\S+)\s+\[/)
+    if (test) {
+      blocks.push({ name: test[2], file: test[1], body: [] })
+      open = true
+    } else if (suite) {
+      blocks.push({ name: suite[1], file: suite[1], body: [] })
+      open = true
+    } else if (/^\s*⎯{3,}/.test(line) || /^\s*Test Files\s/.test(line)) {
+      open = false
+    } else if (open) {
+      blocks[blocks.length - 1].body.push(line)
+    }
+  }
+  const failures = blocks.map(block => toFailure(block.name, block.body, block.file))
+
+  const counts = summary?.[1] ?? ''
+  return {
+    runner: 'vitest',
+    passed: countOf(counts, /passed/),
+    failed: countOf(counts, /failed/) || failures.length,
+    skipped: countOf(counts, /skipped/),
+    failures,
+  }
+}
+
+/**
+ * Jest: `FAIL path` per file, then `● Suite › name` blocks; totals on the
+ * `Tests:` line.
+ */
+export function parseJest(output: string): TestRunSummary | null {
+  const summary = output.match(/^\s*Tests:\s+(.+)$/m)
+  if (!summary) return null
+
+  const blocks: Array<{ name: string; file?: string; body: string[] }> = []
+  let file: string | undefined
+  let open = false
+  for (const line of output.split('\n')) {
+    const fileHeader = line.match(/^\s*(FAIL|PASS)\s+(\S+)/)
+    const block = line.match(/^\s*●\s+(.+?)\s*$/)
+    if (fileHeader) {
+      file = fileHeader[2]
+      open = false
+    } else if (block) {
+      // `● Console` introduces console.log output, not a failure
+      open = block[1] !== 'Console'
+      if (open) blocks.push({ name: block[1].replace(/ › /g, ' > '), file, body: [] })
+    } else if (/^\s*Test Suites:\s/.test(line)) {
+      open = false
+    } else if (open) {
+      blocks[blocks.length - 1].body.push(line)
+    }
+  }
+  const failures = blocks.map(block => toFailure(block.name, block.body, block.file))
+
+  return {
+    runner: 'jest',
+    passed: countOf(summary[1], /passed/),
+    failed: countOf(summary[1], /failed/) || failures.length,
+    skipped: countOf(summary[1], /skipped/),
+    failures,
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * JUnit XML report parser
+ *
+ * The de-facto interchange format (surefire, gradle, pytest --junitxml,
+ * jest-junit, go-junit-report, dotnet's JunitXml logger). Parsed with
+ * regular expressions so it runs in the renderer and the CLI alike.
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { MAX_STACK_FRAMES, extractExpectedActual, firstLine } from './common'
+
+const TESTCASE = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g
+const PROBLEM = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function decode(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function attributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attrs[match[1]] = decode(match[2] ?? match[3] ?? '')
+  }
+  return attrs
+}
+
+export function parseJUnitXml(output: string): TestRunSummary | null {
+  if (!/<testsuites?\b/.test(output) || !/<testcase\b/.test(output)) return null
+
+  let passed = 0
+  let skipped = 0
+  const failures: TestFailure[] = []
+
+  for (const [, attrSource, body = ''] of output.matchAll(TESTCASE)) {
+    const attrs = attributes(attrSource)
+    const problem = body.match(PROBLEM)
+    if (!problem) {
+      if (/<skipped\b/.test(body)) skipped++
+      else passed++
+      continue
+    }
+
+    const problemAttrs = attributes(problem[2])
+    const details = decode(problem[3] ?? '').split('\n').map(line => line.trimEnd()).filter(line => line.trim())
+    const message = problemAttrs.message?.split('\n')[0] || firstLine(details) || problemAttrs.type || problem[1]
+    const location = details.map(line => line.match(/((?:[A-Za-z]:)?[\w./\\-]+\.\w+):(\d+)/)).find(Boolean)
+
+    failures.push({
+      name: attrs.classname ? `${attrs.classname} > ${attrs.name}` : attrs.name ?? 'unnamed test',
+      file: attrs.file ?? location?.[1],
+      line: attrs.line ? Number(attrs.line) : location ? Number(location[2]) : undefined,
+      message,
+      ...extractExpectedActual([...(problemAttrs.message ?? '').split('\n'), ...details]),
+      stack: details.filter(line => /^\s*(at |File "|\S+:\d+)/.test(line)).map(line => line.trim()).slice(0, MAX_STACK_FRAMES),
+    })
+  }
+
+  return { runner: 'junit', passed, failed: failures.length, skipped, failures }
+}
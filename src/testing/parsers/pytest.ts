@@ -0,0 +1,93 @@
+/**
+ * pytest output parser
+ *
+ * Details come from the FAILURES / ERRORS sections (`____ test_name ____`
+ * headers, `E` lines, `path:line:` frames); node ids come from the
+ * "short test summary info" lines when pytest prints them.
+ */
+
+import type { TestFailure, TestRunSummary } from '../types'
+import { MAX_STACK_FRAMES, countOf, firstLine } from './common'
+
+const BANNER = /^=+ (.+?) =+$/
+const SECTION = /^_{3,} (.+?) _{3,}$/
+const FRAME = /^(\S+?):(\d+):(?: |$)/
+const SHORT_SUMMARY = /^(FAILED|ERROR) (\S+?)(?: - (.*))?$/
+
+interface NodeId {
+  file: string
+  /** Test path within the file, e.g. "TestCart::test_total" */
+  test?: string
+  message?: string
+}
+
+function parseNodeId(id: string, message?: string): NodeId {
+  const [file, ...rest] = id.split('::')
+  return { file, test: rest.length > 0 ? rest.join('::') : undefined, message }
+}
+
+/** `assert 4 == 5` — pytest shows the computed left side first */
+function assertionValues(message: string): Pick<TestFailure, 'expected' | 'actual'> {
+  const match = message.match(/^(?:AssertionError: )?assert (.+?) == (.+)$/)
+  return match ? { actual: match[1], expected: match[2] } : {}
+}
+
+export function parsePytest(output: string): TestRunSummary | null {
+  const lines = output.split('\n')
+  const banners = lines.map(line => line.match(BANNER)?.[1]).filter((b): b is string => !!b)
+  const totals = [...banners].reverse().find(b => /\b(passed|failed|errors?|skipped|no tests ran)\b/.test(b) && / in [\d.]+s/.test(b))
+  if (!totals && !banners.some(b => /^(FAILURES|ERRORS|short test summary info)$/.test(b))) return null
+
+  const nodeIds = lines
+    .map(line => line.match(SHORT_SUMMARY))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => parseNodeId(m[2], m[3]))
+
+  const sections: Array<{ name: string; body: string[] }> = []
+  let inFailures = false
+  for (const line of lines) {
+    const banner = line.match(BANNER)
+    const section = line.match(SECTION)
+    if (banner) {
+      inFailures = banner[1] === 'FAILURES' || banner[1] === 'ERRORS'
+    } else if (inFailures && section) {
+      sections.push({ name: section[1], body: [] })
+    } else if (inFailures && sections.length > 0) {
+      sections[sections.length - 1].body.push(line)
+    }
+  }
+
+  const failures: TestFailure[] = sections.map(({ name, body }) => {
+    const errors = body.filter(line => /^E\s/.test(line)).map(line => line.slice(1).trim())
+    const frames = body.filter(line => FRAME.test(line)).map(line => line.trim())
+    // Section headers use dots (TestCart.test_total); node ids use ::
+    const node = nodeIds.find(id => id.test === name.replace(/\./g, '::'))
+    const frame = frames[0]?.match(FRAME)
+    const message = firstLine(errors) || node?.message || firstLine(body)
+    return {
+      name: node?.test ?? name,
+      file: node?.file ?? frame?.[1],
+      line: frame ? Number(frame[2]) : undefined,
+      message,
+      ...assertionValues(message),
+      stack: frames.slice(0, MAX_STACK_FRAMES),
+    }
+  })
+
+  // `--tb=no` and `-q` runs have no sections, only the short summary
+  if (failures.length === 0) {
+    for (const node of nodeIds) {
+      const message = node.message ?? ''
+      failures.push({ name: node.test ?? node.file, file: node.file, message, ...assertionValues(message), stack: [] })
+    }
+  }
+
+  const counts = totals ?? ''
+  return {
+    runner: 'pytest',
+    passed: countOf(counts, /passed/),
+    failed: countOf(counts, /failed/) + countOf(counts, /errors?/) || failures.length,
+    skipped: countOf(counts, /skipped/),
+    failures,
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Test Output
+ *
+ * Picks the parser for a runner (from the command, the project, or by
+ * sniffing the output) and renders failures compactly for the fix prompt.
+ * No Node APIs — the renderer, chat engine and CLI all use this.
+ */
+
+import type { TestOutputParser, TestRunner, TestRunSummary } from './types'
+import { parseJest, parseVitest } from './parsers/javascript'
+import { parsePytest } from './parsers/pytest'
+import { parseGoTest } from './parsers/go'
+import { parseCargoTest } from './parsers/cargo'
+import { parseDotnetTest } from './parsers/dotnet'
+import { parseJUnitXml } from './parsers/junit'
+
+const PARSERS: Record<TestRunner, TestOutputParser> = {
+  junit: parseJUnitXml,
+  vitest: parseVitest,
+  jest: parseJest,
+  pytest: parsePytest,
+  go: parseGoTest,
+  cargo: parseCargoTest,
+  dotnet: parseDotnetTest,
+}
+
+const COMMAND_RUNNERS: Array<[RegExp, TestRunner]> = [
+  [/\bvitest\b/, 'vitest'],
+  [/\bjest\b/, 'jest'],
+  [/\bpytest\b|\bpy\.test\b/, 'pytest'],
+  [/\bgo test\b/, 'go'],
+  [/\bcargo (test|nextest)\b/, 'cargo'],
+  [/\bdotnet test\b/, 'dotnet'],
+]
+
+const MAX_PROMPT_FAILURES = 10
+const MAX_PROMPT_FRAMES = 3
+
+// Color and cursor escapes (ESC [ … letter)
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g')
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE, '').replace(/\r\n?/g, '\n')
+}
+
+/** Runner named by a command line, e.g. `npx vitest run` → vitest; null for `npm test` */
+export function detectTestRunner(command: string): TestRunner | null {
+  return COMMAND_RUNNERS.find(([pattern]) => pattern.test(command))?.[1] ?? null
+}
+
+/**
+ * Parse test runner output. The hinted runner is tried first, then every
+ * other parser — `npm test` can be anything. Null when nothing recognizes it.
+ */
+export function parseTestOutput(output: string, runner?: TestRunner | null): TestRunSummary | null {
+  const text = stripAnsi(output)
+  const order = (Object.keys(PARSERS) as TestRunner[]).filter(r => r !== runner)
+  if (runner) order.unshift(runner)
+
+  for (const candidate of order) {
+    const summary = PARSERS[candidate](text)
+    if (summary) return summary
+  }
+  return null
+}
+
+/** Failures as compact text for the model — replaces the raw terminal dump */
+export function formatTestFailures(summary: TestRunSummary, maxFailures = MAX_PROMPT_FAILURES): string {
+  const counts = [`${summary.failed} failed`, `${summary.passed} passed`]
+  if (summary.skipped > 0) counts.push(`${summary.skipped} skipped`)
+  const lines = [`Test results (${summary.runner}): ${counts.join(', ')}`]
+
+  summary.failures.slice(0, maxFailures).forEach((failure, i) => {
+    const location = failure.file ? ` — ${failure.file}${failure.line ? `:${failure.line}` : ''}` : ''
+    lines.push(`${i + 1}. ${failure.name}${location}`)
+    if (failure.message) lines.push(`   ${failure.message}`)
+    if (failure.expected !== undefined) lines.push(`   expected: ${failure.expected}`)
+    if (failure.actual !== undefined) lines.push(`   actual:   ${failure.actual}`)
+    for (const frame of failure.stack.slice(0, MAX_PROMPT_FRAMES)) lines.push(`   ${frame}`)
+  })
+  if (summary.failures.length > maxFailures) {
+    lines.push(`… and ${summary.failures.length - maxFailures} more failing test(s)`)
+  }
+  return lines.join('\n')
+}
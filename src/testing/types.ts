@@ -0,0 +1,32 @@
+/**
+ * Test Result Types
+ *
+ * Structured view of a test run, parsed from runner output so the auto-fix
+ * loop and the Test results panel don't have to work from raw terminal text.
+ */
+
+export type TestRunner = 'vitest' | 'jest' | 'pytest' | 'go' | 'cargo' | 'dotnet' | 'junit'
+
+export interface TestFailure {
+  /** Test name with its suites, joined with " > " */
+  name: string
+  file?: string
+  line?: number
+  /** First line of the failure message */
+  message: string
+  expected?: string
+  actual?: string
+  /** Stack or traceback frames, innermost last as the runner printed them */
+  stack: string[]
+}
+
+export interface TestRunSummary {
+  runner: TestRunner
+  passed: number
+  failed: number
+  skipped: number
+  failures: TestFailure[]
+}
+
+/** Returns null when the output doesn't look like this runner's */
+export type TestOutputParser = (output: string) => TestRunSummary | null
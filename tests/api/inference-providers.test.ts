@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  createProvider,
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  AIBuddyProvider,
+  toOpenAIMessages,
+  toOllamaMessages,
+  ProviderError,
+} from '../../src/api/providers'
+import type { StreamEvent } from '../../src/api/aibuddy-client'
+
+/**
+ * Inference Provider Tests
+ *
+ * Request translation and response / stream mapping onto the
+ * ChatResponse and StreamEvent shapes for OpenAI-compatible and Ollama.
+ */
+
+function streamResponse(lines: string[]): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-line to exercise buffering
+      const text = lines.join('\n') + '\n'
+      const mid = Math.floor(text.length / 2)
+      controller.enqueue(encoder.encode(text.slice(0, mid)))
+      controller.enqueue(encoder.encode(text.slice(mid)))
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200 })
+}
+
+async function collect(stream: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = []
+  for await (const event of stream) events.push(event)
+  return events
+}
+
+const request = {
+  system: 'Be brief.',
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+  max_tokens: 100,
+  temperature: 0.2,
+}
+
+describe('Inference Providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('createProvider', () => {
+    it('builds the backend named in settings, defaulting the base URL', () => {
+      expect(createProvider({ provider: 'aibuddy', baseUrl: '', model: 'auto' })).toBeInstanceOf(AIBuddyProvider)
+      expect(createProvider({ provider: 'openai-compatible', baseUrl: '', model: 'm' })).toBeInstanceOf(OpenAICompatibleProvider)
+      expect(createProvider({ provider: 'ollama', baseUrl: '', model: 'llama3' })).toBeInstanceOf(OllamaProvider)
+    })
+  })
+
+  describe('OpenAI-compatible', () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://gpu:8000/v1/', apiKey: 'sk-x', model: 'qwen' })
+
+    it('translates images, tool calls and tool results', () => {
+      const messages = toOpenAIMessages({
+        system: 'sys',
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'look' }, { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAA' } }] },
+          { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'read_file', input: { path: 'a.ts' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'file body' }] },
+        ],
+      })
+      expect(messages[0]).toEqual({ role: 'system', content: 'sys' })
+      expect(messages[1].content).toEqual([
+        { type: 'text', text: 'look' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAA' } },
+      ])
+      expect(messages[2].tool_calls?.[0]).toEqual({ id: 't1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } })
+      expect(messages[3]).toEqual({ role: 'tool', tool_call_id: 't1', content: 'file body' })
+    })
+
+    it('maps a completion onto ChatResponse', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+        id: 'c1',
+        model: 'qwen',
+        choices: [{ message: { content: 'Hello' }, finish_reason: 'length' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      })))
+
+      const response = await provider.chat(request)
+      expect(response.content).toEqual([{ type: 'text', text: 'Hello' }])
+      expect(response.stop_reason).toBe('max_tokens')
+      expect(response.usage).toEqual({ input_tokens: 12, output_tokens: 3 })
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0]
+      expect(url).toBe('http://gpu:8000/v1/chat/completions')
+      expect((init as RequestInit).headers).toMatchObject({ Authorization: 'Bearer sk-x' })
+    })
+
+    it('maps an SSE stream of text and tool-call deltas onto StreamEvents', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(streamResponse([
+        'data: {"id":"c2","model":"qwen","choices":[{"delta":{"content":"Hel"}}]}',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"t1","function":{"name":"ls","arguments":"{\\"pa"}}]}}]}',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"th\\":1}"}}]},"finish_reason":"tool_calls"}]}',
+        'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":7}}',
+        'data: [DONE]',
+      ]))
+
+      const events = await collect(provider.chatStream(request))
+      expect(events.map(e => e.type)).toEqual([
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'message_delta', 'message_stop',
+      ])
+      expect(events[5].content_block).toMatchObject({ type: 'tool_use', id: 't1', name: 'ls' })
+      expect(events[9].delta?.stop_reason).toBe('tool_use')
+      expect(events[9].usage).toEqual({ input_tokens: 5, output_tokens: 7 })
+    })
+
+    it('reports HTTP errors as ProviderError with the status', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(new Response('model not found', { status: 404 }))
+      await expect(provider.chat(request)).rejects.toMatchObject({ name: 'ProviderError', status: 404 })
+    })
+
+    it('lists models sorted by id', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ id: 'b' }, { id: 'a' }] })))
+      expect(await provider.listModels()).toEqual([{ id: 'a' }, { id: 'b' }])
+    })
+  })
+
+  describe('Ollama', () => {
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434', model: 'llama3' })
+
+    it('sends images as a list of base64 strings', () => {
+      const messages = toOllamaMessages({
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'what is this' }, { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'BBB' } }] }],
+      })
+      expect(messages).toEqual([{ role: 'user', content: 'what is this', images: ['BBB'] }])
+    })
+
+    it('maps an NDJSON stream onto StreamEvents with final token counts', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(streamResponse([
+        '{"model":"llama3","message":{"role":"assistant","content":"Hi "},"done":false}',
+        '{"model":"llama3","message":{"role":"assistant","content":"there"},"done":false}',
+        '{"model":"llama3","message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":9,"eval_count":2}',
+      ]))
+
+      const events = await collect(provider.chatStream(request))
+      const text = events.filter(e => e.delta?.type === 'text_delta').map(e => e.delta?.text).join('')
+      expect(text).toBe('Hi there')
+      const final = events.find(e => e.type === 'message_delta')
+      expect(final?.delta?.stop_reason).toBe('end_turn')
+      expect(final?.usage).toEqual({ input_tokens: 9, output_tokens: 2 })
+
+      const body = JSON.parse((vi.mocked(global.fetch).mock.calls[0][1] as RequestInit).body as string)
+      expect(body.options).toEqual({ temperature: 0.2, num_predict: 100 })
+      expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' })
+    })
+
+    it('surfaces stream errors', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(streamResponse(['{"error":"model \\"nope\\" not found"}']))
+      await expect(collect(provider.chatStream(request))).rejects.toBeInstanceOf(ProviderError)
+    })
+
+    it('lists installed models from /api/tags', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+        models: [{ name: 'llama3:8b', details: { parameter_size: '8B' } }],
+      })))
+      expect(await provider.listModels()).toEqual([{ id: 'llama3:8b', label: 'llama3:8b (8B)' }])
+      expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe('http://localhost:11434/api/tags')
+    })
+
+    it('reports an unreachable server clearly', async () => {
+      vi.mocked(global.fetch).mockRejectedValueOnce(new TypeError('fetch failed'))
+      await expect(provider.listModels()).rejects.toThrow('Could not reach http://localhost:11434/api/tags')
+    })
+  })
+})
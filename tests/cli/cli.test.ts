@@ -0,0 +1,336 @@
+/**
+ * aibuddy CLI — argument parsing, auto-approval, task runs and output formats
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, existsSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { parseCliArgs, CliUsageError, EXIT_CODES, type CliOptions } from '../../src/cli/args'
+import { createToolApproval, exitCodeFor, runTask, type CliRunDeps, type CliRunResult } from '../../src/cli/run'
+import { formatProgress, formatResult } from '../../src/cli/output'
+import { createNodeHost } from '../../src/cli/node-host'
+import { NO_POLICY } from '../../src/policy/execution-policy'
+import type { ChatMessage, ChatThread } from '../../src/history/types'
+
+function createMemoryHistory(): CliRunDeps['history'] & { threads: ChatThread[] } {
+  const threads: ChatThread[] = []
+  let nextId = 1
+  return {
+    threads,
+    createThread(firstMessage, workspacePath) {
+      const thread: ChatThread = {
+        id: `thread-${nextId++}`,
+        title: firstMessage ?? 'New Chat',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        messages: [],
+        workspacePath,
+      }
+      threads.unshift(thread)
+      return thread
+    },
+    getThreads: () => threads,
+    getThread: id => threads.find(t => t.id === id),
+    addMessage(threadId, message) {
+      const thread = threads.find(t => t.id === threadId)!
+      const full: ChatMessage = { ...message, id: `msg-${nextId++}`, timestamp: Date.now() }
+      thread.messages.push(full)
+      return full
+    },
+  }
+}
+
+function apiResponse(content: unknown[], stopReason = 'tool_use') {
+  return {
+    ok: true,
+    json: async () => ({ content, stop_reason: stopReason, usage: { input_tokens: 10, output_tokens: 5 } }),
+    text: async () => '',
+  }
+}
+
+function toolUse(id: string, name: string, input: Record<string, unknown>) {
+  return { type: 'tool_use', id, name, input }
+}
+
+describe('parseCliArgs', () => {
+  it('applies defaults and joins the prompt', () => {
+    const options = parseCliArgs(['fix', 'the', 'build'], { AIBUDDY_API_KEY: 'key' }, '/repo')
+    expect(options).toMatchObject({
+      prompt: 'fix the build',
+      cwd: '/repo',
+      autoMode: 'balanced',
+      output: 'text',
+      apiKey: 'key',
+      verbose: false,
+    })
+    expect(options.resume).toBeUndefined()
+    expect(options.worktree).toBe(false)
+  })
+
+  it('reads flags and resolves --cwd against the current directory', () => {
+    const options = parseCliArgs(
+      ['-C', 'sub', '--auto', 'off', '-o', 'json', '--resume', 'last', '--api-key', 'k', '--api-url', 'http://x', 'go'],
+      { AIBUDDY_API_KEY: 'env-key' },
+      '/repo'
+    )
+    expect(options).toMatchObject({
+      prompt: 'go',
+      cwd: join('/repo', 'sub'),
+      autoMode: 'off',
+      output: 'json',
+      resume: 'last',
+      apiKey: 'k',
+      apiUrl: 'http://x',
+    })
+  })
+
+  it('takes the endpoint from AIBUDDY_API_URL', () => {
+    expect(parseCliArgs([], { AIBUDDY_API_URL: 'http://env' }, '/').apiUrl).toBe('http://env')
+  })
+
+  it('rejects unknown values and flags as usage errors', () => {
+    expect(() => parseCliArgs(['-a', 'yolo'], {}, '/')).toThrow(CliUsageError)
+    expect(() => parseCliArgs(['-o', 'xml'], {}, '/')).toThrow(CliUsageError)
+    expect(() => parseCliArgs(['--nope'], {}, '/')).toThrow(CliUsageError)
+  })
+})
+
+describe('createToolApproval', () => {
+  const write = { id: '1', name: 'write_to_file', input: { path: 'src/a.ts', content: '' } }
+
+  it('denies everything when auto mode is off', () => {
+    const approve = createToolApproval('off')
+    expect(approve(write)).toBe(false)
+    expect(approve({ id: '2', name: 'execute_command', input: { command: 'ls' } })).toBe(false)
+  })
+
+  it('defers commands and writes to AutoModeManager', () => {
+    const approve = createToolApproval('balanced')
+    expect(approve({ id: '2', name: 'execute_command', input: { command: 'npm test' } })).toBe(true)
+    expect(approve({ id: '3', name: 'execute_command', input: { command: 'rm -rf /' } })).toBe(false)
+    expect(approve({ id: '4', name: 'write_to_file', input: { path: '.env', content: '' } })).toBe(false)
+  })
+
+  it('maps run status to exit codes', () => {
+    expect(exitCodeFor('completed')).toBe(EXIT_CODES.completed)
+    expect(exitCodeFor('failed')).toBe(EXIT_CODES.failed)
+    expect(exitCodeFor('needs_input')).toBe(EXIT_CODES.needsInput)
+  })
+})
+
+describe('runTask', () => {
+  let workspace: string
+  let history: ReturnType<typeof createMemoryHistory>
+  const fetchMock = global.fetch as ReturnType<typeof vi.fn>
+
+  function options(overrides: Partial<CliOptions> = {}): CliOptions {
+    return {
+      prompt: 'create hello.txt',
+      cwd: workspace,
+      autoMode: 'balanced',
+      output: 'text',
+      apiKey: 'test-key',
+      apiUrl: 'http://inference.test',
+      verbose: false,
+      help: false,
+      version: false,
+      worktree: false,
+      ...overrides,
+    }
+  }
+
+  function deps(): CliRunDeps {
+    return { history, host: createNodeHost(), skills: [], workspaceRules: '' }
+  }
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'aibuddy-cli-'))
+    history = createMemoryHistory()
+    fetchMock.mockReset()
+  })
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true })
+  })
+
+  it('completes when the agent calls attempt_completion', async () => {
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([
+        { type: 'text', text: 'Writing the file.' },
+        toolUse('t1', 'write_to_file', { path: 'hello.txt', content: 'hi' }),
+      ]))
+      .mockResolvedValueOnce(apiResponse([toolUse('t2', 'attempt_completion', { result: 'Created hello.txt' })]))
+
+    const result = await runTask(options(), deps())
+
+    expect(result.status).toBe('completed')
+    expect(result.result).toBe('Created hello.txt')
+    expect(result.toolCalls).toHaveLength(1)
+    expect(result.toolCalls[0]).toMatchObject({ name: 'write_to_file', denied: false })
+    expect(result.tokensUsed).toBe(30)
+    expect(readFileSync(join(workspace, 'hello.txt'), 'utf-8')).toBe('hi')
+
+    const thread = history.getThread(result.threadId)!
+    expect(thread.workspacePath).toBe(workspace)
+    expect(thread.messages.map(m => m.role)).toEqual(['user', 'assistant'])
+    expect(thread.messages[1].content).toContain('Created hello.txt')
+  })
+
+  it('records the files the agent writes so tests can be scoped to them', async () => {
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([toolUse('t1', 'write_to_file', { path: 'src/a.ts', content: 'export const a = 1\n' })]))
+      .mockResolvedValueOnce(apiResponse([toolUse('t2', 'replace_in_file', { path: 'src/a.ts', edits: [{ search: '1', replace: '2' }] })]))
+      .mockResolvedValueOnce(apiResponse([toolUse('t3', 'execute_command', { command: "cat > notes.md <<'EOF'\nhi\nEOF" })]))
+      .mockResolvedValueOnce(apiResponse([toolUse('t4', 'attempt_completion', { result: 'Done' })]))
+    const recordEdits = vi.fn()
+
+    const result = await runTask(options(), { ...deps(), host: { ...createNodeHost(), edits: { recordEdits } } })
+
+    expect(result.status).toBe('completed')
+    expect(recordEdits.mock.calls).toEqual([
+      [[join(workspace, 'src/a.ts')]],
+      [[join(workspace, 'src/a.ts')]],
+      [[join(workspace, 'notes.md')]],
+    ])
+    expect(readFileSync(join(workspace, 'notes.md'), 'utf-8')).toBe('hi\n')
+  })
+
+  it('works in the thread\'s worktree with --worktree', async () => {
+    const worktreePath = mkdtempSync(join(tmpdir(), 'aibuddy-cli-worktree-'))
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([toolUse('t1', 'write_to_file', { path: 'hello.txt', content: 'hi' })]))
+      .mockResolvedValueOnce(apiResponse([toolUse('t2', 'attempt_completion', { result: 'Created hello.txt' })]))
+    const createWorktree = vi.fn(async (threadId: string) => ({
+      threadId, branch: `aibuddy/thread-${threadId}`, path: worktreePath, workspacePath: worktreePath, base: 'abc', exists: true,
+    }))
+
+    try {
+      const result = await runTask(options({ worktree: true }), { ...deps(), createWorktree })
+
+      expect(createWorktree).toHaveBeenCalledWith(result.threadId)
+      expect(readFileSync(join(worktreePath, 'hello.txt'), 'utf-8')).toBe('hi')
+      expect(existsSync(join(workspace, 'hello.txt'))).toBe(false)
+      expect(result.worktree).toEqual({ branch: `aibuddy/thread-${result.threadId}`, path: worktreePath })
+    } finally {
+      rmSync(worktreePath, { recursive: true, force: true })
+    }
+  })
+
+  it('denies writes when auto mode is off and tells the model', async () => {
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([toolUse('t1', 'write_to_file', { path: 'hello.txt', content: 'hi' })]))
+      .mockResolvedValueOnce(apiResponse([{ type: 'text', text: 'I could not write the file.' }], 'end_turn'))
+
+    const result = await runTask(options({ autoMode: 'off' }), deps())
+
+    expect(result.status).toBe('failed')
+    expect(result.toolCalls[0].denied).toBe(true)
+    expect(existsSync(join(workspace, 'hello.txt'))).toBe(false)
+    const secondRequest = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(JSON.stringify(secondRequest.messages)).toContain('[DENIED] write_to_file')
+  })
+
+  it('blocks writes to paths the execution policy protects', async () => {
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([toolUse('t1', 'write_to_file', { path: '.env.local', content: 'KEY=1' })]))
+      .mockResolvedValueOnce(apiResponse([{ type: 'text', text: 'That file is protected.' }], 'end_turn'))
+
+    const policy = { ...NO_POLICY, source: 'workspace' as const, protectedPaths: ['.env*'] }
+    const result = await runTask(options({ autoMode: 'aggressive' }), { ...deps(), policy })
+
+    expect(result.toolCalls[0].denied).toBe(true)
+    expect(existsSync(join(workspace, '.env.local'))).toBe(false)
+    const secondRequest = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(JSON.stringify(secondRequest.messages)).toContain('blocked by the workspace execution policy')
+  })
+
+  it('checks command writes against the policy from the cwd the model gave', async () => {
+    mkdirSync(join(workspace, 'infra'))
+    fetchMock
+      .mockResolvedValueOnce(apiResponse([toolUse('t1', 'execute_command', { command: 'echo x > main.tf', cwd: 'infra' })]))
+      .mockResolvedValueOnce(apiResponse([{ type: 'text', text: 'That directory is protected.' }], 'end_turn'))
+
+    const policy = { ...NO_POLICY, source: 'workspace' as const, protectedPaths: ['infra/**'] }
+    const result = await runTask(options({ autoMode: 'aggressive' }), { ...deps(), policy })
+
+    expect(result.toolCalls[0].denied).toBe(true)
+    expect(existsSync(join(workspace, 'infra', 'main.tf'))).toBe(false)
+  })
+
+  it('reports needs_input for a follow-up question', async () => {
+    fetchMock.mockResolvedValueOnce(apiResponse([toolUse('t1', 'ask_followup_question', { question: 'Which file?' })]))
+
+    const result = await runTask(options(), deps())
+
+    expect(result.status).toBe('needs_input')
+    expect(result.result).toBe('Which file?')
+    expect(history.threads[0].messages[1].content).toContain('**Question:** Which file?')
+  })
+
+  it('fails with the API error message', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, text: async () => 'Invalid API key', json: async () => ({}) })
+
+    const result = await runTask(options(), deps())
+
+    expect(result.status).toBe('failed')
+    expect(result.result).toContain('Invalid API key')
+  })
+
+  it('resumes the newest thread for the workspace with its messages as context', async () => {
+    const first = history.createThread('earlier', workspace)
+    history.addMessage(first.id, { role: 'user', content: 'earlier question' })
+    history.addMessage(first.id, { role: 'assistant', content: 'earlier answer' })
+    fetchMock.mockResolvedValueOnce(apiResponse([toolUse('t1', 'attempt_completion', { result: 'done' })]))
+
+    const result = await runTask(options({ resume: 'last' }), deps())
+
+    expect(result.threadId).toBe(first.id)
+    const request = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(request.messages.map((m: { content: unknown }) => m.content)).toEqual([
+      'earlier question',
+      'earlier answer',
+      [{ type: 'text', text: 'create hello.txt' }],
+    ])
+    expect(first.messages).toHaveLength(4)
+  })
+
+  it('rejects an unknown thread id', async () => {
+    await expect(runTask(options({ resume: 'missing' }), deps())).rejects.toThrow(CliUsageError)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('output', () => {
+  const result: CliRunResult = {
+    status: 'completed',
+    threadId: 'thread-1',
+    prompt: 'run tests',
+    result: 'All tests pass',
+    messages: ['Running the suite.'],
+    toolCalls: [{ name: 'execute_command', input: { command: 'npm test' }, result: 'ok', denied: false }],
+    tokensUsed: 42,
+    durationMs: 1500,
+  }
+
+  it('prints only the result in text mode', () => {
+    expect(formatResult(result, 'text')).toBe('All tests pass')
+  })
+
+  it('prints the whole run as JSON', () => {
+    expect(JSON.parse(formatResult(result, 'json'))).toEqual(result)
+  })
+
+  it('renders a markdown report', () => {
+    const markdown = formatResult(result, 'markdown')
+    expect(markdown).toContain('# ✅ Completed')
+    expect(markdown).toContain('`execute_command: npm test`')
+    expect(markdown).toContain('_Thread thread-1 · 42 tokens · 1.5s_')
+  })
+
+  it('formats progress lines', () => {
+    expect(formatProgress({ type: 'tool', call: result.toolCalls[0] })).toBe('→ execute_command: npm test')
+    expect(formatProgress({ type: 'tool_result', call: result.toolCalls[0] })).toBeNull()
+    expect(formatProgress({ type: 'tool_result', call: { ...result.toolCalls[0], denied: true } })).toBe('  ✗ denied by auto mode')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { MergeConflictDialog } from '../../renderer/src/components/MergeConflictDialog'
+
+const CONFLICTED = [
+  'export const host = "localhost"',
+  '<<<<<<< HEAD',
+  'export const port = 8080',
+  '||||||| base',
+  'export const port = 3000',
+  '=======',
+  'export const port = 4000',
+  '>>>>>>> origin/main',
+  'export const debug = false',
+  '',
+].join('\n')
+
+describe('MergeConflictDialog', () => {
+  const api = (window as any).electronAPI
+
+  afterEach(() => {
+    api.fs.readFileAsText.mockReset()
+    api.fs.readFileAsText.mockResolvedValue('test file content')
+  })
+
+  it('merges a region with the model and stages the resolved file', async () => {
+    api.git.status
+      .mockResolvedValueOnce({ current: 'main', staged: [], modified: [], not_added: [], deleted: [], conflicted: ['src/config.ts'] })
+      .mockResolvedValueOnce({ current: 'main', staged: ['src/config.ts'], modified: [], not_added: [], deleted: [], conflicted: [] })
+    api.fs.readFileAsText.mockResolvedValue(CONFLICTED)
+    const model = vi.fn().mockResolvedValue('```ts\nexport const port = Number(process.env.PORT ?? 8080)\n```\nKept our port as the default.')
+
+    render(<MergeConflictDialog isOpen workspacePath="/repo" model={model} onClose={() => {}} />)
+
+    expect(await screen.findByText('Conflict 1 of 1')).toBeInTheDocument()
+    expect(screen.getByText('export const port = 3000')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Ask AI to merge'))
+    expect(await screen.findByText('Kept our port as the default.')).toBeInTheDocument()
+    expect(model.mock.calls[0][0]).toContain('Theirs (origin/main)')
+
+    fireEvent.click(screen.getByText('Mark file resolved'))
+
+    await waitFor(() => expect(api.git.add).toHaveBeenCalledWith('/repo', ['src/config.ts']))
+    expect(api.fs.writeFile).toHaveBeenCalledWith(
+      '/repo/src/config.ts',
+      'export const host = "localhost"\nexport const port = Number(process.env.PORT ?? 8080)\nexport const debug = false\n'
+    )
+    expect(await screen.findByText('Continue merge')).toBeInTheDocument()
+  })
+})
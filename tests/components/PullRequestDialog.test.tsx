@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { PullRequestDialog } from '../../renderer/src/components/PullRequestDialog'
+
+const DIFF = [
+  'diff --git a/src/cart.ts b/src/cart.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/cart.ts',
+  '+++ b/src/cart.ts',
+  '@@ -1,1 +1,2 @@',
+  ' export const currency = "EUR"',
+  '+export const total = eval("0")',
+  '',
+].join('\n')
+
+describe('PullRequestDialog', () => {
+  const api = (window as any).electronAPI
+
+  afterEach(() => {
+    api.fs.readFileAsText.mockReset()
+    api.fs.readFileAsText.mockResolvedValue('test file content')
+    api.git.diff.mockReset()
+    api.git.diff.mockResolvedValue('')
+    api.git.branch.mockResolvedValue({ current: 'main', all: ['main'] })
+    api.git.log.mockResolvedValue([])
+  })
+
+  it('compares with the default base and generates a description with a checklist', async () => {
+    api.git.branch.mockResolvedValue({ current: 'feature/cart', all: ['feature/cart', 'main', 'remotes/origin/main'] })
+    api.git.log.mockResolvedValue({ all: [{ message: 'Add cart total' }] })
+    api.git.diff.mockResolvedValue(DIFF)
+    api.fs.readFileAsText.mockRejectedValue(new Error('ENOENT'))
+    const model = vi.fn().mockResolvedValue('Title: Add a cart total\n\n## Summary\nAdds the total.')
+
+    render(<PullRequestDialog isOpen workspacePath="/repo" model={model} onClose={() => {}} />)
+
+    expect(await screen.findByText('Evaluates code at runtime')).toBeInTheDocument()
+    expect(screen.getByLabelText('Base branch')).toHaveValue('origin/main')
+    expect(api.git.diff).toHaveBeenLastCalledWith('/repo', { base: 'origin/main' })
+
+    fireEvent.click(screen.getByText('Generate PR description'))
+
+    await waitFor(() => expect(screen.getByLabelText('Pull request title')).toHaveValue('Add a cart total'))
+    expect((screen.getByLabelText('Pull request description') as HTMLTextAreaElement).value)
+      .toBe('## Summary\nAdds the total.\n\n## Reviewer checklist\n\n- [ ] **High risk:** `src/cart.ts:2` — Evaluates code at runtime\n- [ ] 1 source file(s) changed without test changes — check the change is covered\n')
+  })
+  it('keeps the comparison for the base picked last when an earlier one finishes late', async () => {
+    api.git.branch.mockResolvedValue({ current: 'feature/cart', all: ['feature/cart', 'main', 'remotes/origin/main'] })
+    api.git.log.mockResolvedValue({ all: [] })
+    let finishSlowDiff: (diff: string) => void = () => {}
+    api.git.diff.mockImplementation((_cwd: string, options: { base: string }) => options.base === 'origin/main'
+      ? new Promise<string>(resolve => { finishSlowDiff = resolve })
+      : Promise.resolve(''))
+
+    render(<PullRequestDialog isOpen workspacePath="/repo" model={vi.fn()} onClose={() => {}} />)
+
+    await waitFor(() => expect(api.git.diff).toHaveBeenCalledWith('/repo', { base: 'origin/main' }))
+    fireEvent.change(screen.getByLabelText('Base branch'), { target: { value: 'main' } })
+    expect(await screen.findByText('HEAD has no changes compared with main')).toBeInTheDocument()
+
+    finishSlowDiff(DIFF)
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(screen.queryByText('Evaluates code at runtime')).not.toBeInTheDocument()
+    expect(screen.getByText('HEAD has no changes compared with main')).toBeInTheDocument()
+  })
+})
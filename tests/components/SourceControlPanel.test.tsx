@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ipcMain } from 'electron'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { SourceControlPanel } from '../../renderer/src/components/SourceControlPanel'
+import { initGitHandlers } from '../../electron/ipc/git'
+
+const DIFF = [
+  'diff --git a/src/cart.ts b/src/cart.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/cart.ts',
+  '+++ b/src/cart.ts',
+  '@@ -1,2 +1,2 @@',
+  ' export const currency = "EUR"',
+  '-export let total = 0',
+  '+export const total = 0',
+  '',
+].join('\n')
+
+/** Route the renderer's git API to the real IPC handlers */
+function useRealGitHandlers(api: any): void {
+  initGitHandlers()
+  for (const method of ['status', 'diff', 'add', 'unstage', 'discard']) {
+    const call = vi.mocked(ipcMain.handle).mock.calls.filter(([ch]) => ch === `git:${method}`).pop()!
+    api.git[method].mockImplementation((...args: unknown[]) => (call[1] as (...a: unknown[]) => Promise<unknown>)({}, ...args))
+  }
+}
+
+describe('SourceControlPanel', () => {
+  const api = (window as any).electronAPI
+
+  afterEach(() => {
+    delete api.checkpoints
+    for (const method of ['status', 'diff', 'add', 'unstage', 'discard']) api.git[method].mockReset()
+    api.git.status.mockResolvedValue({ files: [] })
+    api.git.diff.mockResolvedValue('')
+    api.snapshots.list.mockResolvedValue([])
+  })
+
+  it('lists agent changes apart from the user\'s and stages a hunk', async () => {
+    api.git.status.mockResolvedValueOnce({ current: 'main', staged: [], modified: ['src/cart.ts', 'README.md'], not_added: [], deleted: [] })
+    api.git.diff.mockImplementation(async (_cwd: string, options?: { staged?: boolean }) => (options?.staged ? '' : DIFF))
+    api.checkpoints = { listAgentEdits: vi.fn().mockResolvedValue([{ filePath: 'src/cart.ts', timestamp: 1 }]) }
+
+    render(<SourceControlPanel workspacePath="/repo" />)
+
+    expect(await screen.findByText('Agent Changes')).toBeInTheDocument()
+    expect(screen.getByText('Your Changes')).toBeInTheDocument()
+    expect(screen.getByText('AI')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('src/cart.ts'))
+    fireEvent.click(screen.getByText('Stage hunk'))
+
+    await waitFor(() => expect(api.git.applyPatch).toHaveBeenCalled())
+    const [cwd, patch, options] = api.git.applyPatch.mock.calls[0]
+    expect(cwd).toBe('/repo')
+    expect(patch).toContain('@@ -1,2 +1,2 @@\n export const currency = "EUR"\n-export let total = 0\n+export const total = 0\n')
+    expect(options).toEqual({ cached: true, reverse: false })
+  })
+  it('restores a snapshot from the Recover list', async () => {
+    api.snapshots.list.mockResolvedValue([
+      { id: '1-abc', ref: 'refs/aibuddy/snapshots/1-abc', commit: 'abc', reason: 'git reset --hard HEAD~1', branch: 'main', head: 'def', createdAt: 1 },
+    ])
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true)
+
+    render(<SourceControlPanel workspacePath="/repo" />)
+
+    fireEvent.click(await screen.findByRole('button', { name: /Recover/ }))
+    expect(screen.getByText('git reset --hard HEAD~1')).toBeInTheDocument()
+    fireEvent.click(screen.getByText('Restore'))
+
+    await waitFor(() => expect(api.snapshots.restore).toHaveBeenCalledWith('/repo', '1-abc'))
+    expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Restore main and your files to how they were before "git reset --hard HEAD~1"'))
+    confirm.mockRestore()
+  })
+  describe('against a real repository', () => {
+    let repo: string
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+
+    afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true })
+    })
+
+    function createRepo(): void {
+      repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-scm-')))
+      git('init', '-q')
+      git('config', 'user.email', 'dev@example.com')
+      git('config', 'user.name', 'Dev')
+      useRealGitHandlers(api)
+    }
+
+    it('stages files whose names git status would quote', async () => {
+      createRepo()
+      fs.writeFileSync(path.join(repo, 'release notes.md'), 'notes\n')
+      fs.writeFileSync(path.join(repo, `it's "done".txt`), 'done\n')
+
+      render(<SourceControlPanel workspacePath={repo} />)
+
+      fireEvent.click((await screen.findByTitle('release notes.md')).querySelector('[title="Stage file"]')!)
+      await waitFor(() => expect(git('diff', '--cached', '--name-only')).toBe('release notes.md\n'))
+      await waitFor(() => expect(screen.getByTitle('release notes.md').querySelector('[title="Unstage file"]')).not.toBeNull())
+      const stageDone = screen.getByTitle(`it's "done".txt`).querySelector('[title="Stage file"]')!
+      await waitFor(() => expect(stageDone).toBeEnabled())
+      fireEvent.click(stageDone)
+      await waitFor(() => expect(git('diff', '--cached', '--name-only', '-z').split('\0').filter(Boolean).sort())
+        .toEqual([`it's "done".txt`, 'release notes.md']))
+      expect(await screen.findByText('Staged Changes')).toBeInTheDocument()
+    })
+
+    it('marks agent edits when the workspace is a folder of the repository', async () => {
+      createRepo()
+      fs.mkdirSync(path.join(repo, 'app'))
+      fs.writeFileSync(path.join(repo, 'app', 'cart.ts'), 'export const total = 0\n')
+      fs.writeFileSync(path.join(repo, 'app', 'notes.md'), 'todo\n')
+      git('add', '.')
+      git('commit', '-q', '-m', 'initial')
+      fs.writeFileSync(path.join(repo, 'app', 'cart.ts'), 'export const total = 1\n')
+      fs.writeFileSync(path.join(repo, 'app', 'notes.md'), 'done\n')
+      api.checkpoints = { listAgentEdits: vi.fn().mockResolvedValue([{ filePath: 'cart.ts', timestamp: 1 }]) }
+
+      render(<SourceControlPanel workspacePath={path.join(repo, 'app')} />)
+
+      const row = await screen.findByTitle('app/cart.ts')
+      expect(row).toHaveTextContent('AI')
+      expect(screen.getByTitle('app/notes.md')).not.toHaveTextContent('AI')
+    })
+  })
+})
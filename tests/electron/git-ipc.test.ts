@@ -0,0 +1,95 @@
+/**
+ * Git IPC — handlers run against a real repository
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ipcMain } from 'electron'
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { initGitHandlers } from '../../electron/ipc/git'
+
+let repo: string
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf8' })
+}
+
+function handler(channel: string): (...args: unknown[]) => Promise<any> {
+  const call = vi.mocked(ipcMain.handle).mock.calls.filter(([ch]) => ch === channel).pop()
+  if (!call) throw new Error(`No handler for ${channel}`)
+  return (...args) => (call[1] as (...a: unknown[]) => Promise<any>)({}, ...args)
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-git-ipc-'))
+  git('init', '-q')
+  git('config', 'user.email', 'dev@example.com')
+  git('config', 'user.name', 'Dev')
+  initGitHandlers()
+})
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true })
+})
+
+describe('git:add', () => {
+  it('stages files whose names contain spaces and quotes', async () => {
+    fs.writeFileSync(path.join(repo, 'release notes.md'), 'notes\n')
+    fs.writeFileSync(path.join(repo, `it's "done".txt`), 'done\n')
+    fs.writeFileSync(path.join(repo, 'other.txt'), 'other\n')
+
+    await handler('git:add')(repo, ['release notes.md', `it's "done".txt`])
+
+    expect(git('diff', '--cached', '--name-only', '-z').split('\0').filter(Boolean).sort())
+      .toEqual([`it's "done".txt`, 'release notes.md'])
+  })
+
+  it('stages everything with "."', async () => {
+    fs.writeFileSync(path.join(repo, 'a b.txt'), 'a\n')
+    await handler('git:add')(repo, ['.'])
+    expect(git('diff', '--cached', '--name-only')).toBe('a b.txt\n')
+  })
+})
+
+describe('git:status', () => {
+  it('reports names as they are, renames by their new path, and the folder it ran in', async () => {
+    fs.mkdirSync(path.join(repo, 'app'))
+    fs.writeFileSync(path.join(repo, 'app', 'old name.ts'), 'export {}\n')
+    git('add', '.')
+    git('commit', '-q', '-m', 'initial')
+    git('mv', 'app/old name.ts', 'app/new "name".ts')
+    fs.writeFileSync(path.join(repo, 'release notes.md'), 'notes\n')
+
+    const status = await handler('git:status')(path.join(repo, 'app'))
+    expect(status.prefix).toBe('app/')
+    expect(status.staged).toEqual(['app/new "name".ts'])
+    expect(status.not_added).toEqual(['release notes.md'])
+  })
+})
+
+describe('git:diff and git:log against a base', () => {
+  beforeEach(() => {
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'a\n')
+    git('add', 'a.txt')
+    git('commit', '-q', '-m', 'base')
+    git('branch', '-M', 'main')
+    git('checkout', '-q', '-b', 'feature')
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'b\n')
+    git('commit', '-q', '-am', 'change a')
+  })
+
+  it('compares HEAD with the branch it came from', async () => {
+    expect(await handler('git:diff')(repo, { base: 'main' })).toContain('+b')
+    const { all } = await handler('git:log')(repo, { base: 'main' })
+    expect(all.map((entry: { message: string }) => entry.message)).toEqual(['change a'])
+  })
+
+  it('never reads the base as an option', async () => {
+    const output = path.join(repo, 'out.patch')
+    await expect(handler('git:diff')(repo, { base: `--output=${output}` })).rejects.toThrow('Git diff failed')
+    await expect(handler('git:log')(repo, { base: `--output=${output}` })).rejects.toThrow()
+    expect(fs.existsSync(output)).toBe(false)
+  })
+})
@@ -26,16 +26,20 @@ const IPC_CHANNELS = {
     'history:createThread', 'history:setActiveThread', 'history:addMessage',
     'history:updateMetadata', 'history:renameThread', 'history:updateMessageFeedback',
     'history:deleteThread', 'history:clearAll', 'history:search', 'history:export',
+    'history:addSummary', 'history:updateMessage',
   ],
   fileSystem: [
     'fs:readFile', 'fs:readFileAsBase64', 'fs:readFileAsText', 'fs:getFileSize',
     'fs:writeFile', 'fs:readDir', 'fs:stat', 'fs:exists', 'fs:mkdir',
     'fs:rm', 'fs:rename', 'fs:copy', 'fs:watch', 'fs:unwatch', 'fs:readTree',
+    'fs:search',
   ],
   git: [
     'git:status', 'git:diff', 'git:log', 'git:branch', 'git:checkout',
     'git:commit', 'git:add', 'git:push', 'git:pull', 'git:stash',
     'git:reset', 'git:blame', 'git:isRepo', 'git:init', 'git:clone', 'git:getRemoteUrl',
+    'git:applyPatch', 'git:unstage', 'git:discard',
+    'git:mergeState', 'git:checkoutConflict', 'git:continueMerge', 'git:abortMerge',
   ],
   terminal: [
     'terminal:create', 'terminal:write', 'terminal:resize', 'terminal:kill',
@@ -46,9 +50,34 @@ const IPC_CHANNELS = {
     'workspace:getTestPatterns', 'workspace:setTestPatterns', 'workspace:appendTestPattern',
     'workspace:getFixesLog', 'workspace:appendFix', 'workspace:getData', 'workspace:setData',
   ],
+  checkpoints: [
+    'checkpoint:snapshot', 'checkpoint:listTurns', 'checkpoint:getChangedFiles',
+    'checkpoint:restoreFile', 'checkpoint:restoreWorkspace', 'checkpoint:deleteThread',
+    'checkpoint:listAgentEdits',
+  ],
+  mcp: [
+    'mcp:configure', 'mcp:getServers', 'mcp:listTools', 'mcp:requestToolCall',
+    'mcp:getTrustRequest', 'mcp:setWorkspaceTrust',
+  ],
+  providers: [
+    'provider:listModels', 'provider:chat', 'provider:stream', 'provider:abort',
+  ],
+  policy: [
+    'policy:get',
+  ],
+  containers: [
+    'containers:detect', 'containers:select',
+  ],
+  worktrees: [
+    'worktrees:list', 'worktrees:create', 'worktrees:diff', 'worktrees:integrate',
+    'worktrees:remove', 'worktrees:pruneStale',
+  ],
+  snapshots: [
+    'snapshots:create', 'snapshots:list', 'snapshots:restore', 'snapshots:delete',
+  ],
   environment: [
     'env:detect', 'env:getCached', 'env:getSummary', 'env:getRunCommand',
-    'env:isInstalled', 'env:getLanguageInfo', 'env:clearCache',
+    'env:isInstalled', 'env:getLanguageInfo', 'env:clearCache', 'env:checkToolchain',
   ],
   knowledgeBase: [
     'kb:getProviders', 'kb:getProvider', 'kb:getProvidersByType', 'kb:addProvider',
@@ -103,16 +132,16 @@ describe('IPC Channel Consistency', () => {
     expect(IPC_CHANNELS.commands).toHaveLength(5)
   })
 
-  it('history module should have 13 channels', () => {
-    expect(IPC_CHANNELS.history).toHaveLength(13)
+  it('history module should have 15 channels', () => {
+    expect(IPC_CHANNELS.history).toHaveLength(15)
   })
 
-  it('fileSystem module should have 15 channels', () => {
-    expect(IPC_CHANNELS.fileSystem).toHaveLength(15)
+  it('fileSystem module should have 16 channels', () => {
+    expect(IPC_CHANNELS.fileSystem).toHaveLength(16)
   })
 
-  it('git module should have 16 channels', () => {
-    expect(IPC_CHANNELS.git).toHaveLength(16)
+  it('git module should have 23 channels', () => {
+    expect(IPC_CHANNELS.git).toHaveLength(23)
   })
 
   it('terminal module should have 8 channels', () => {
@@ -123,8 +152,36 @@ describe('IPC Channel Consistency', () => {
     expect(IPC_CHANNELS.workspace).toHaveLength(11)
   })
 
-  it('environment module should have 7 channels', () => {
-    expect(IPC_CHANNELS.environment).toHaveLength(7)
+  it('checkpoints module should have 7 channels', () => {
+    expect(IPC_CHANNELS.checkpoints).toHaveLength(7)
+  })
+
+  it('mcp module should have 6 channels', () => {
+    expect(IPC_CHANNELS.mcp).toHaveLength(6)
+  })
+
+  it('providers module should have 4 channels', () => {
+    expect(IPC_CHANNELS.providers).toHaveLength(4)
+  })
+
+  it('policy module should have 1 channel', () => {
+    expect(IPC_CHANNELS.policy).toHaveLength(1)
+  })
+
+  it('containers module should have 2 channels', () => {
+    expect(IPC_CHANNELS.containers).toHaveLength(2)
+  })
+
+  it('worktrees module should have 6 channels', () => {
+    expect(IPC_CHANNELS.worktrees).toHaveLength(6)
+  })
+
+  it('snapshots module should have 4 channels', () => {
+    expect(IPC_CHANNELS.snapshots).toHaveLength(4)
+  })
+
+  it('environment module should have 8 channels', () => {
+    expect(IPC_CHANNELS.environment).toHaveLength(8)
   })
 
   it('knowledgeBase module should have 27 channels', () => {
@@ -53,7 +53,7 @@ describe('KAN-290: Permission System for Skills', () => {
     })
 
     it('PermissionEntry has tool field', () => {
-      expect(src).toMatch(/PermissionEntry[\s\S]*?tool:\s*SkillToolPermission/)
+      expect(src).toMatch(/PermissionEntry[\s\S]*?tool:\s*ToolPermissionKey/)
     })
 
     it('PermissionEntry has level field', () => {
@@ -101,7 +101,7 @@ describe('KAN-290: Permission System for Skills', () => {
     })
 
     it('ToolAuditLogEntry has tool field', () => {
-      expect(src).toMatch(/ToolAuditLogEntry[\s\S]*?tool:\s*SkillToolPermission/)
+      expect(src).toMatch(/ToolAuditLogEntry[\s\S]*?tool:\s*ToolPermissionKey/)
     })
 
     it('ToolAuditLogEntry has decision field', () => {
@@ -165,7 +165,7 @@ describe('KAN-290: Permission System for Skills', () => {
     })
 
     it('has getPermission method', () => {
-      expect(src).toMatch(/public getPermission\(skillId:\s*string,\s*tool:\s*SkillToolPermission\)/)
+      expect(src).toMatch(/public getPermission\(skillId:\s*string,\s*tool:\s*ToolPermissionKey\)/)
     })
 
     it('getPermission returns PermissionLevel', () => {
@@ -29,8 +29,8 @@ describe('KAN-54 — Token-based conversation truncation', () => {
     expect(appTsx).toMatch(/MAX_CONTEXT_TOKENS\s*=/)
   })
 
-  it('must have an estimateTokens helper function', () => {
-    expect(appTsx).toMatch(/estimateTokens|estimateTokenCount/)
+  it('must count tokens with the shared tokenizer', () => {
+    expect(appTsx).toMatch(/import \{[^}]*countMessageTokens[^}]*\} from '\.\.\/\.\.\/src\/core\/tokenizer'/)
   })
 
   it('must truncate conversation history based on token count before sending', () => {
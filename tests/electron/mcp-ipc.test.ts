@@ -0,0 +1,129 @@
+/**
+ * MCP IPC — permission and audit path of mcp:requestToolCall, and the
+ * workspace trust handshake.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ipcMain } from 'electron'
+
+const mocks = vi.hoisted(() => ({
+  callTool: vi.fn(),
+  configure: vi.fn(),
+  getTrustRequest: vi.fn(),
+  getPermission: vi.fn(),
+  setPermission: vi.fn(),
+  addAuditLogEntry: vi.fn(),
+  writeJsonData: vi.fn(),
+}))
+
+vi.mock('../../src/mcp/mcp-manager', () => ({
+  McpManager: class {
+    configure = mocks.configure
+    getTrustRequest = mocks.getTrustRequest
+    callTool = mocks.callTool
+    getStatus = () => []
+    getTools = () => []
+    stopAll = () => {}
+    resolveTool = (name: string) => name === 'mcp__github__search'
+      ? { server: 'github', tool: 'search', qualifiedName: name, description: '', inputSchema: {} }
+      : null
+  },
+}))
+
+vi.mock('../../src/skills/skills-manager', () => ({
+  SkillsStorageManager: {
+    getInstance: () => ({
+      getPermission: mocks.getPermission,
+      setPermission: mocks.setPermission,
+      addAuditLogEntry: mocks.addAuditLogEntry,
+    }),
+  },
+}))
+
+vi.mock('../../electron/ipc/workspace', () => ({
+  readJsonData: () => null,
+  writeJsonData: mocks.writeJsonData,
+}))
+
+import { initMcpHandlers } from '../../electron/ipc/mcp'
+
+function handler(channel: string): (...args: unknown[]) => Promise<any> {
+  const call = vi.mocked(ipcMain.handle).mock.calls.filter(([ch]) => ch === channel).pop()
+  if (!call) throw new Error(`No handler for ${channel}`)
+  return (...args) => (call[1] as (...a: unknown[]) => Promise<any>)({}, ...args)
+}
+
+describe('mcp:requestToolCall', () => {
+  const request = { qualifiedName: 'mcp__github__search', args: { query: 'crash' } }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.getPermission.mockReturnValue(undefined)
+    mocks.callTool.mockResolvedValue({ success: true, output: '3 issues', server: 'github', tool: 'search', durationMs: 5 })
+    initMcpHandlers()
+  })
+
+  it('asks first, then runs and audits the call the user allowed once', async () => {
+    const first = await handler('mcp:requestToolCall')(request)
+    expect(first).toEqual({ status: 'needs_confirmation', server: 'github', tool: 'search', description: 'github → search({"query":"crash"})' })
+    expect(mocks.callTool).not.toHaveBeenCalled()
+    expect(mocks.addAuditLogEntry).not.toHaveBeenCalled()
+
+    const second = await handler('mcp:requestToolCall')({ ...request, decision: 'allow_once' })
+    expect(second.status).toBe('executed')
+    expect(mocks.callTool).toHaveBeenCalledWith('mcp__github__search', { query: 'crash' })
+    expect(mocks.setPermission).not.toHaveBeenCalled()
+    expect(mocks.addAuditLogEntry).toHaveBeenCalledWith(expect.objectContaining({
+      skillId: 'mcp:github',
+      tool: 'mcp:github/search',
+      decision: 'allow_once',
+      success: true,
+      params: { query: 'crash' },
+    }))
+  })
+
+  it('stores "always deny", audits it and does not call the tool', async () => {
+    const response = await handler('mcp:requestToolCall')({ ...request, decision: 'always_deny' })
+    expect(response).toEqual({ status: 'denied', error: 'Denied by user' })
+    expect(mocks.setPermission).toHaveBeenCalledWith('mcp:github', 'mcp:github/search', 'always_deny')
+    expect(mocks.addAuditLogEntry).toHaveBeenCalledWith(expect.objectContaining({ decision: 'always_deny' }))
+    expect(mocks.callTool).not.toHaveBeenCalled()
+  })
+
+  it('applies stored preferences without asking', async () => {
+    mocks.getPermission.mockReturnValue('always_deny')
+    expect(await handler('mcp:requestToolCall')(request)).toEqual({ status: 'denied', error: 'Auto-denied by stored preference' })
+    expect(mocks.addAuditLogEntry).toHaveBeenLastCalledWith(expect.objectContaining({ decision: 'auto_denied' }))
+
+    mocks.getPermission.mockReturnValue('always_allow')
+    expect((await handler('mcp:requestToolCall')(request)).status).toBe('executed')
+    expect(mocks.addAuditLogEntry).toHaveBeenLastCalledWith(expect.objectContaining({ decision: 'auto_allowed', success: true }))
+  })
+
+  it('denies unknown tools', async () => {
+    const response = await handler('mcp:requestToolCall')({ qualifiedName: 'mcp__other__x', args: {} })
+    expect(response).toEqual({ status: 'denied', error: 'Unknown MCP tool: mcp__other__x' })
+    expect(mocks.callTool).not.toHaveBeenCalled()
+  })
+})
+
+describe('mcp:setWorkspaceTrust', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.getTrustRequest.mockReturnValue({ hash: 'abc', servers: [{ name: 'repo', command: 'node server.js' }] })
+    mocks.configure.mockResolvedValue([])
+    initMcpHandlers()
+  })
+
+  it('stores the decision for the config the user was shown and reconfigures', async () => {
+    await handler('mcp:setWorkspaceTrust')('/repo', 'abc', true)
+    expect(mocks.writeJsonData).toHaveBeenCalledWith('/repo', 'mcpTrust', { hash: 'abc', trusted: true })
+    expect(mocks.configure).toHaveBeenCalledWith('/repo', { hash: 'abc', trusted: true })
+  })
+
+  it('refuses a decision about a config that has since changed', async () => {
+    await expect(handler('mcp:setWorkspaceTrust')('/repo', 'old', true)).rejects.toThrow('The workspace MCP config changed')
+    expect(mocks.writeJsonData).not.toHaveBeenCalled()
+    expect(mocks.configure).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Provider IPC — provider:chat gives up on a reply that never arrives
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ipcMain } from 'electron'
+
+const mocks = vi.hoisted(() => ({ chat: vi.fn() }))
+
+vi.mock('../../src/api/providers', () => ({
+  createProvider: () => ({ chat: mocks.chat }),
+}))
+
+import { initProviderHandlers } from '../../electron/ipc/providers'
+
+function handler(channel: string): (...args: unknown[]) => Promise<any> {
+  const call = vi.mocked(ipcMain.handle).mock.calls.filter(([ch]) => ch === channel).pop()
+  if (!call) throw new Error(`No handler for ${channel}`)
+  return (...args) => (call[1] as (...a: unknown[]) => Promise<any>)({}, ...args)
+}
+
+describe('provider:chat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mocks.chat.mockReset()
+    initProviderHandlers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('aborts the request after the timeout', async () => {
+    mocks.chat.mockImplementation((_request, signal: AbortSignal) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')))
+    }))
+
+    const reply = handler('provider:chat')({ provider: 'ollama' }, { messages: [] })
+    const assertion = expect(reply).rejects.toThrow('The provider did not reply within 5 minutes')
+    await vi.advanceTimersByTimeAsync(5 * 60_000)
+    await assertion
+  })
+
+  it('passes provider errors through before the timeout', async () => {
+    mocks.chat.mockRejectedValue(new Error('model not found'))
+    await expect(handler('provider:chat')({ provider: 'ollama' }, { messages: [] })).rejects.toThrow('model not found')
+  })
+})
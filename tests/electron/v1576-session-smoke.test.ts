@@ -78,8 +78,8 @@ describe('v1.5.76 Smoke — Cost control', () => {
     expect(appTsx).toMatch(/MAX_CONTEXT_TOKENS\s*=\s*40[_,]?000/)
   })
 
-  it('estimateTokenCount function exists', () => {
-    expect(appTsx).toMatch(/function estimateTokenCount/)
+  it('token counts come from the shared tokenizer', () => {
+    expect(appTsx).toMatch(/countMessageTokens\(msg\.content\)/)
   })
 
   it('handoff doc is only sent on first message', () => {
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { readFileSync } from 'fs'
 import { resolve } from 'path'
 
@@ -217,3 +217,20 @@ describe('KAN-62: Voice Dictation — Preload Bridge', () => {
     expect(preloadSource).toContain("'microphone:requestAccess'")
   })
 })
+
+describe('Voice Dictation — local provider', () => {
+  it('refuses to record while a local provider keeps requests on the machine', async () => {
+    const { renderHook, act } = await import('@testing-library/react')
+    const { useVoiceInput } = await import('../../renderer/src/hooks/useVoiceInput')
+    const onError = vi.fn()
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    const { result } = renderHook(() => useVoiceInput({ disabledReason: 'Dictation uses AIBuddy Cloud', onError }))
+
+    await act(async () => { await result.current.startListening() })
+
+    expect(onError).toHaveBeenCalledWith('Dictation uses AIBuddy Cloud')
+    expect(result.current.state).toBe('error')
+    expect(fetchSpy).not.toHaveBeenCalled()
+    fetchSpy.mockRestore()
+  })
+})
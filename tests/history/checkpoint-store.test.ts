@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+/**
+ * Checkpoint Store Tests
+ *
+ * Snapshots taken before agent file mutations, and restoring a single file
+ * or the whole workspace to its state before a chat message.
+ */
+
+import { CheckpointStore } from '../../src/history/checkpoint-store'
+
+let root: string
+let workspace: string
+let store: CheckpointStore
+
+const THREAD = 'thread-1'
+
+function write(relativePath: string, content: string) {
+  const fullPath = path.join(workspace, relativePath)
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+  fs.writeFileSync(fullPath, content)
+}
+
+function read(relativePath: string): string {
+  return fs.readFileSync(path.join(workspace, relativePath), 'utf-8')
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-checkpoints-'))
+  workspace = path.join(root, 'workspace')
+  fs.mkdirSync(workspace)
+  store = new CheckpointStore(path.join(root, 'checkpoints'), workspace)
+})
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('CheckpointStore', () => {
+  it('restores a file to its state before a message', () => {
+    write('src/app.ts', 'v1')
+    store.snapshotFile(THREAD, 0, path.join(workspace, 'src/app.ts'), 'write_to_file')
+    write('src/app.ts', 'v2')
+    store.snapshotFile(THREAD, 2, 'src/app.ts', 'replace_in_file')
+    write('src/app.ts', 'v3')
+
+    expect(store.restoreFile(THREAD, 2, 'src/app.ts').restored).toEqual(['src/app.ts'])
+    expect(read('src/app.ts')).toBe('v2')
+
+    store.restoreFile(THREAD, 0, 'src/app.ts')
+    expect(read('src/app.ts')).toBe('v1')
+  })
+
+  it('keeps only the first snapshot of a file per message', () => {
+    write('a.txt', 'original')
+    store.snapshotFile(THREAD, 0, 'a.txt', 'apply_diff')
+    write('a.txt', 'first edit')
+    store.snapshotFile(THREAD, 0, 'a.txt', 'apply_diff')
+    write('a.txt', 'second edit')
+
+    store.restoreFile(THREAD, 0, 'a.txt')
+    expect(read('a.txt')).toBe('original')
+    expect(store.listTurns(THREAD)).toEqual([
+      expect.objectContaining({ messageIndex: 0, files: ['a.txt'] })
+    ])
+  })
+
+  it('restores the whole workspace and deletes files the agent created', () => {
+    write('a.txt', 'a1')
+    store.snapshotFile(THREAD, 0, 'a.txt', 'write_to_file')
+    write('a.txt', 'a2')
+    store.snapshotFile(THREAD, 2, 'new/b.txt', 'command')
+    write('new/b.txt', 'b')
+
+    expect(store.getFilesChangedSince(THREAD, 0)).toEqual(['a.txt', 'new/b.txt'])
+    expect(store.getFilesChangedSince(THREAD, 1)).toEqual(['new/b.txt'])
+
+    const result = store.restoreWorkspace(THREAD, 0)
+    expect(result).toEqual({ restored: ['a.txt'], deleted: ['new/b.txt'], failed: [] })
+    expect(read('a.txt')).toBe('a1')
+    expect(fs.existsSync(path.join(workspace, 'new/b.txt'))).toBe(false)
+  })
+
+  it('snapshots every file in a directory before it is removed', () => {
+    write('build/a.js', 'a')
+    write('build/sub/b.js', 'b')
+    expect(store.snapshotFile(THREAD, 1, 'build', 'command')).toBe(true)
+    fs.rmSync(path.join(workspace, 'build'), { recursive: true })
+
+    expect(store.restoreWorkspace(THREAD, 1).restored.sort()).toEqual(['build/a.js', 'build/sub/b.js'])
+    expect(read('build/sub/b.js')).toBe('b')
+  })
+
+  it('reports files without a checkpoint as failed', () => {
+    const result = store.restoreFile(THREAD, 0, 'missing.txt')
+    expect(result.failed).toHaveLength(1)
+  })
+
+  it('rejects paths outside the workspace and invalid thread ids', () => {
+    expect(() => store.snapshotFile(THREAD, 0, '../outside.txt', 'write_to_file')).toThrow(/outside the workspace/)
+    expect(() => store.listTurns('../escape')).toThrow(/Invalid thread id/)
+  })
+
+  it('lists the files the agent changed in every thread', () => {
+    write('a.txt', 'a')
+    write('b.txt', 'b')
+    store.snapshotFile(THREAD, 0, 'a.txt', 'write_to_file')
+    store.snapshotFile('thread-2', 0, 'b.txt', 'apply_diff')
+    store.snapshotFile('thread-2', 1, 'c.txt', 'write_to_file')
+
+    expect(store.listAgentEdits().map(e => e.filePath).sort()).toEqual(['a.txt', 'b.txt', 'c.txt'])
+    expect(new CheckpointStore(path.join(root, 'missing'), workspace).listAgentEdits()).toEqual([])
+  })
+
+  it('removes all checkpoints of a thread', () => {
+    write('a.txt', 'a')
+    store.snapshotFile(THREAD, 0, 'a.txt', 'write_to_file')
+    store.deleteThread(THREAD)
+    expect(store.listTurns(THREAD)).toEqual([])
+  })
+})
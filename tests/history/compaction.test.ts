@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+
+/**
+ * Conversation Compaction Tests
+ *
+ * Choosing which turns to fold into a summary, where the summary goes in the
+ * thread, and which messages the model is sent afterwards.
+ */
+
+import {
+  getActiveContext,
+  selectMessagesToCompact,
+  insertSummary,
+  buildCompactionPrompt,
+  type CompactableMessage
+} from '../../src/history/compaction'
+
+function thread(count: number, words = 50): CompactableMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `message ${i} ` + 'word '.repeat(words),
+  }))
+}
+
+describe('Conversation Compaction', () => {
+  describe('getActiveContext', () => {
+    it('sends everything when the thread has no summary', () => {
+      const messages = thread(4)
+      expect(getActiveContext(messages)).toEqual({ summary: null, messages })
+    })
+
+    it('sends only the latest summary and the messages after it', () => {
+      const messages = thread(6)
+      const first = { id: 's1', role: 'assistant' as const, kind: 'summary' as const, content: 'old', summarizedMessageIds: ['m0', 'm1'] }
+      const second = { id: 's2', role: 'assistant' as const, kind: 'summary' as const, content: 'new', summarizedMessageIds: ['m0', 'm1', 'm2', 'm3'] }
+      const withSummaries = insertSummary(insertSummary(messages, first), second)
+
+      const context = getActiveContext(withSummaries)
+      expect(context.summary?.id).toBe('s2')
+      expect(context.messages.map(m => m.id)).toEqual(['m4', 'm5'])
+    })
+  })
+
+  describe('selectMessagesToCompact', () => {
+    it('folds nothing when the thread already fits', () => {
+      expect(selectMessagesToCompact(thread(10), 100_000)).toEqual([])
+    })
+
+    it('folds the oldest turns until the rest fits, ending on an assistant reply', () => {
+      const folded = selectMessagesToCompact(thread(10), 300)
+      expect(folded.length).toBeGreaterThan(0)
+      expect(folded.length % 2).toBe(0)
+      expect(folded[0].id).toBe('m0')
+      expect(folded[folded.length - 1].role).toBe('assistant')
+    })
+
+    it('always keeps the most recent messages', () => {
+      const folded = selectMessagesToCompact(thread(10), 0, 4)
+      expect(folded.map(m => m.id)).toEqual(['m0', 'm1', 'm2', 'm3', 'm4', 'm5'])
+      expect(selectMessagesToCompact(thread(4), 0, 4)).toEqual([])
+    })
+  })
+
+  describe('insertSummary', () => {
+    it('places the summary after the last message it covers', () => {
+      const summary = { id: 's', role: 'assistant' as const, kind: 'summary' as const, content: '', summarizedMessageIds: ['m0', 'm1'] }
+      expect(insertSummary(thread(4), summary).map(m => m.id)).toEqual(['m0', 'm1', 's', 'm2', 'm3'])
+    })
+  })
+
+  describe('buildCompactionPrompt', () => {
+    it('includes the transcript and the previous summary', () => {
+      const prompt = buildCompactionPrompt(thread(2, 1), 'We chose Postgres.')
+      expect(prompt).toContain('We chose Postgres.')
+      expect(prompt).toContain('### User\nmessage 0')
+      expect(prompt).toContain('### Assistant\nmessage 1')
+      expect(prompt).toContain('including the earlier summary')
+    })
+
+    it('clips very long messages', () => {
+      const long = [{ id: 'x', role: 'user' as const, content: 'a'.repeat(20_000) }]
+      expect(buildCompactionPrompt(long).length).toBeLessThan(8_000)
+    })
+  })
+})
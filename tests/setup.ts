@@ -151,7 +151,14 @@ const mockElectronAPI = {
     commit: vi.fn().mockResolvedValue(undefined),
     add: vi.fn().mockResolvedValue(undefined),
     push: vi.fn().mockResolvedValue(undefined),
-    pull: vi.fn().mockResolvedValue(undefined)
+    pull: vi.fn().mockResolvedValue(undefined),
+    applyPatch: vi.fn().mockResolvedValue(undefined),
+    unstage: vi.fn().mockResolvedValue(undefined),
+    discard: vi.fn().mockResolvedValue(undefined),
+    mergeState: vi.fn().mockResolvedValue(null),
+    checkoutConflict: vi.fn().mockResolvedValue(undefined),
+    continueMerge: vi.fn().mockResolvedValue(undefined),
+    abortMerge: vi.fn().mockResolvedValue(undefined)
   },
   rpc: {
     invoke: vi.fn().mockResolvedValue(null),
@@ -194,7 +201,28 @@ const mockElectronAPI = {
   },
   environment: {
     detectEnvironment: vi.fn().mockResolvedValue({}),
-    getSummary: vi.fn().mockResolvedValue('')
+    getSummary: vi.fn().mockResolvedValue(''),
+    checkToolchain: vi.fn().mockResolvedValue([]),
+    clearCache: vi.fn().mockResolvedValue(true),
+    onDetectProgress: vi.fn().mockReturnValue(() => {})
+  },
+  containers: {
+    detect: vi.fn().mockResolvedValue({ targets: [], selectedId: null }),
+    select: vi.fn().mockResolvedValue(true)
+  },
+  worktrees: {
+    list: vi.fn().mockResolvedValue([]),
+    create: vi.fn().mockResolvedValue(null),
+    diff: vi.fn().mockResolvedValue(''),
+    integrate: vi.fn().mockResolvedValue({ commits: 0 }),
+    remove: vi.fn().mockResolvedValue(undefined),
+    pruneStale: vi.fn().mockResolvedValue({ removed: [], orphaned: [] })
+  },
+  snapshots: {
+    create: vi.fn().mockResolvedValue(null),
+    list: vi.fn().mockResolvedValue([]),
+    restore: vi.fn().mockResolvedValue(null),
+    delete: vi.fn().mockResolvedValue(undefined)
   },
   app: {
     getVersion: vi.fn().mockResolvedValue(pkg.version),
@@ -0,0 +1,47 @@
+/**
+ * MCP tools in the desktop chat — block parsing and the permission round-trip
+ */
+
+import { buildMcpToolsPrompt, parseMcpToolCalls, runMcpToolCall } from '../../src/mcp/chat-tools'
+
+describe('MCP chat tools', () => {
+  it('offers no prompt section without tools', () => {
+    expect(buildMcpToolsPrompt([])).toBe('')
+    const prompt = buildMcpToolsPrompt([{ server: 'github', tool: 'search', qualifiedName: 'mcp__github__search', description: 'Search issues', inputSchema: { type: 'object' } }])
+    expect(prompt).toContain('## MCP Tools')
+    expect(prompt).toContain('- mcp__github__search (server "github"): Search issues')
+  })
+
+  it('reads calls from mcp blocks and reports blocks it cannot run', () => {
+    const reply = [
+      'Let me look.',
+      '```mcp\n{"tool": "mcp__github__search", "arguments": {"query": "crash"}}\n```',
+      '```mcp\n{"tool": "run_command"}\n```',
+      '```mcp\nnot json\n```',
+      '```bash\nls\n```',
+    ].join('\n')
+    expect(parseMcpToolCalls(reply)).toEqual([
+      { qualifiedName: 'mcp__github__search', args: { query: 'crash' } },
+      { error: 'Not an MCP tool: run_command' },
+      { error: 'MCP call is not valid JSON' },
+    ])
+  })
+
+  it('asks the user when the main process needs a decision, and denies without a prompt', async () => {
+    const call = { qualifiedName: 'mcp__github__search', args: {} }
+    const requestToolCall = vi.fn()
+      .mockResolvedValueOnce({ status: 'needs_confirmation', server: 'github', tool: 'search', description: 'github → search({})' })
+      .mockResolvedValueOnce({ status: 'denied', error: 'Denied by user' })
+    const ask = vi.fn().mockResolvedValue('always_allow')
+
+    await runMcpToolCall(requestToolCall, call, ask)
+    expect(ask).toHaveBeenCalledWith({ server: 'github', tool: 'search', description: 'github → search({})' })
+    expect(requestToolCall).toHaveBeenLastCalledWith({ ...call, decision: 'always_allow' })
+
+    requestToolCall
+      .mockResolvedValueOnce({ status: 'needs_confirmation', server: 'github', tool: 'search', description: '' })
+      .mockResolvedValueOnce({ status: 'denied', error: 'Denied by user' })
+    await runMcpToolCall(requestToolCall, call, null)
+    expect(requestToolCall).toHaveBeenLastCalledWith({ ...call, decision: 'deny' })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * MCP Manager — Unit tests
+ *
+ * Launches a tiny stdio MCP server (a Node script written to a temp dir) and
+ * checks config loading, tool discovery, name qualification and tool calls.
+ */
+
+import { McpManager, readMcpConfig, getWorkspaceMcpConfigPath, hashWorkspaceMcpConfig } from '../../src/mcp/mcp-manager'
+import { qualifyToolName, isMcpToolName } from '../../src/mcp/types'
+import * as path from 'path'
+import * as os from 'os'
+import * as fs from 'fs'
+
+const FAKE_SERVER = `
+const readline = require('readline')
+const rl = readline.createInterface({ input: process.stdin })
+const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...msg }) + '\\n')
+rl.on('line', (line) => {
+  const msg = JSON.parse(line)
+  if (msg.id === undefined) return
+  switch (msg.method) {
+    case 'initialize':
+      return send({ id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'fake', version: '1' } } })
+    case 'tools/list':
+      return send({ id: msg.id, result: { tools: [
+        { name: 'echo', description: 'Echo text back', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+        { name: 'fail', inputSchema: { type: 'object' } },
+      ] } })
+    case 'tools/call':
+      if (msg.params.name === 'fail') return send({ id: msg.id, result: { content: [{ type: 'text', text: 'boom' }], isError: true } })
+      return send({ id: msg.id, result: { content: [{ type: 'text', text: 'echo: ' + msg.params.arguments.text }] } })
+    default:
+      return send({ id: msg.id, error: { code: -32601, message: 'not found' } })
+  }
+})
+`
+
+describe('MCP Manager', () => {
+  let root: string
+  let workspace: string
+  let globalConfig: string
+  let manager: McpManager
+
+  function writeConfig(filePath: string, servers: Record<string, unknown>) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, JSON.stringify({ mcpServers: servers }))
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'aibuddy-mcp-'))
+    workspace = path.join(root, 'workspace')
+    fs.mkdirSync(workspace)
+    fs.writeFileSync(path.join(root, 'server.js'), FAKE_SERVER)
+    globalConfig = path.join(root, 'global', 'mcp.json')
+    manager = new McpManager(globalConfig)
+  })
+
+  afterEach(() => {
+    manager.stopAll()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  // ─── Tool names ────────────────────────────────────────────────────────
+
+  describe('qualifyToolName', () => {
+    it('namespaces tools by server and strips unsupported characters', () => {
+      expect(qualifyToolName('my.server', 'get issue')).toBe('mcp__my_server__get_issue')
+      expect(isMcpToolName('mcp__github__search')).toBe(true)
+      expect(isMcpToolName('read_file')).toBe(false)
+    })
+
+    it('caps names at 64 characters', () => {
+      expect(qualifyToolName('s'.repeat(40), 't'.repeat(40))).toHaveLength(64)
+    })
+  })
+
+  // ─── Config ────────────────────────────────────────────────────────────
+
+  describe('readMcpConfig', () => {
+    it('returns no servers for a missing or invalid file', () => {
+      expect(readMcpConfig(path.join(root, 'missing.json'))).toEqual({})
+      fs.writeFileSync(path.join(root, 'bad.json'), '{ nope')
+      expect(readMcpConfig(path.join(root, 'bad.json'))).toEqual({})
+    })
+
+    it('skips entries without a command', () => {
+      writeConfig(globalConfig, { ok: { command: 'node' }, broken: { args: ['x'] } })
+      expect(Object.keys(readMcpConfig(globalConfig))).toEqual(['ok'])
+    })
+  })
+
+  // ─── Servers ───────────────────────────────────────────────────────────
+
+  it('starts servers and exposes their tools with qualified names', async () => {
+    writeConfig(globalConfig, { fake: { command: process.execPath, args: [path.join(root, 'server.js')] } })
+
+    const status = await manager.configure(null)
+    expect(status).toEqual([{ name: 'fake', source: 'global', state: 'running', toolCount: 2 }])
+
+    const tools = manager.getTools()
+    expect(tools.map(t => t.qualifiedName)).toEqual(['mcp__fake__echo', 'mcp__fake__fail'])
+    expect(tools[1].description).toContain('fake')
+  })
+
+  it('routes tool calls and reports tool errors', async () => {
+    writeConfig(globalConfig, { fake: { command: process.execPath, args: [path.join(root, 'server.js')] } })
+    await manager.configure(null)
+
+    const ok = await manager.callTool('mcp__fake__echo', { text: 'hi' })
+    expect(ok).toMatchObject({ success: true, output: 'echo: hi', server: 'fake', tool: 'echo' })
+
+    const failed = await manager.callTool('mcp__fake__fail', {})
+    expect(failed).toMatchObject({ success: false, error: 'boom' })
+
+    const unknown = await manager.callTool('mcp__fake__missing', {})
+    expect(unknown.success).toBe(false)
+  })
+
+  it('lets workspace servers override global ones and skips disabled servers', async () => {
+    writeConfig(globalConfig, {
+      fake: { command: process.execPath, args: [path.join(root, 'server.js')] },
+      off: { command: process.execPath, disabled: true },
+    })
+    writeConfig(getWorkspaceMcpConfigPath(workspace), {
+      fake: { command: process.execPath, args: [path.join(root, 'server.js')], env: { FROM: 'workspace' } },
+    })
+
+    const status = await manager.configure(workspace, { hash: hashWorkspaceMcpConfig(workspace)!, trusted: true })
+    expect(status.find(s => s.name === 'fake')?.source).toBe('workspace')
+    expect(status.find(s => s.name === 'off')?.state).toBe('stopped')
+  })
+
+  it('keeps workspace servers from starting until the user trusts that mcp.json', async () => {
+    const configPath = getWorkspaceMcpConfigPath(workspace)
+    writeConfig(configPath, { repo: { command: process.execPath, args: [path.join(root, 'server.js')] } })
+
+    expect(await manager.configure(workspace)).toEqual([{ name: 'repo', source: 'workspace', state: 'untrusted', toolCount: 0 }])
+    const request = manager.getTrustRequest(workspace, null)
+    expect(request?.servers).toEqual([{ name: 'repo', command: `${process.execPath} ${path.join(root, 'server.js')}` }])
+
+    const declined = { hash: request!.hash, trusted: false }
+    expect(manager.getTrustRequest(workspace, declined)).toBeNull()
+    expect((await manager.configure(workspace, declined))[0].state).toBe('untrusted')
+
+    const trusted = { hash: request!.hash, trusted: true }
+    expect((await manager.configure(workspace, trusted))[0]).toMatchObject({ state: 'running', toolCount: 2 })
+
+    // An edited mcp.json needs a new decision
+    writeConfig(configPath, { repo: { command: process.execPath, args: [path.join(root, 'server.js'), '--changed'] } })
+    expect(manager.getTrustRequest(workspace, trusted)).not.toBeNull()
+    expect((await manager.configure(workspace, trusted))[0].state).toBe('untrusted')
+    expect(manager.getTools()).toEqual([])
+  })
+
+  it('reports servers that fail to launch', async () => {
+    writeConfig(globalConfig, { broken: { command: path.join(root, 'does-not-exist') } })
+    const [status] = await manager.configure(null)
+    expect(status.state).toBe('error')
+    expect(status.error).toBeTruthy()
+    expect(manager.getTools()).toEqual([])
+  })
+})